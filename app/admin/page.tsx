@@ -1,5 +1,6 @@
 import { Metadata } from "next";
 import { createMiniAppMetadata, MINIAPP_EMBEDS } from "@/lib/miniapp/metadata";
+import DisputeQueue from "@/components/PredictionMarket/DisputeQueue";
 
 export async function generateMetadata(): Promise<Metadata> {
   return {
@@ -46,6 +47,10 @@ export default function AdminPage() {
           </p>
           <p>Please use the contract directly for administrative functions.</p>
         </div>
+
+        <div className="mt-6">
+          <DisputeQueue />
+        </div>
       </div>
     </div>
   );
@@ -1,92 +1,41 @@
 import { NextRequest } from 'next/server';
 import { ethers } from 'ethers';
-import { unifiedPredictionMarketABI } from '@/lib/unified-prediction-market-abi';
+import { getSportsCentralService } from '@/lib/sports-central';
 
-// Mock data for the three sports applications
-// In a real implementation, these would be actual API calls to imperfectform, imperfectcoach, and imperfectabs
-const MOCK_SPORTS_DATA = {
-  imperfectform: {
-    pushups: 1500,
-    squats: 800,
-    users: ['0x123...', '0x456...', '0x789...']
-  },
-  imperfectcoach: {
-    pullups: 600,
-    jumps: 1200,
-    users: ['0xabc...', '0xdef...', '0xghi...']
-  },
-  imperfectabs: {
-    situps: 2000,
-    users: ['0xjkl...', '0xmno...', '0xpqr...']
-  }
-};
-
-// Type definitions
-interface SportsData {
-  pushups?: number;
-  squats?: number;
-  pullups?: number;
-  jumps?: number;
-  situps?: number;
-  users?: string[];
-}
-
-interface CrossPlatformData {
-  imperfectform: SportsData;
-  imperfectcoach: SportsData;
-  imperfectabs: SportsData;
-  totals: {
-    pushups: number;
-    squats: number;
-    pullups: number;
-    jumps: number;
-    situps: number;
-    totalExercises: number;
-  };
-}
+// Mark this route as dynamic to avoid static optimization errors
+export const dynamic = 'force-dynamic';
 
+/**
+ * GET /api/sports-central
+ * Exercise totals aggregated across ImperfectForm, ImperfectCoach and ImperfectAbs,
+ * with per-source freshness in data.sources
+ * Add ?user=0x... for one wallet's totals
+ */
 export async function GET(request: NextRequest) {
   try {
-    // Extract query parameters if any (e.g., for specific user data)
-    const searchParams = request.nextUrl.searchParams;
-    const userAddress = searchParams.get('user');
-    
-    // In a real implementation, we would fetch data from:
-    // 1. imperfectform API
-    // 2. imperfectcoach API  
-    // 3. imperfectabs API
-    // 4. On-chain data from fitness contracts
-    
-    // For now, return mock data that demonstrates the structure
-    const crossPlatformData: CrossPlatformData = {
-      imperfectform: MOCK_SPORTS_DATA.imperfectform,
-      imperfectcoach: MOCK_SPORTS_DATA.imperfectcoach,
-      imperfectabs: MOCK_SPORTS_DATA.imperfectabs,
-      totals: {
-        pushups: MOCK_SPORTS_DATA.imperfectform.pushups || 0,
-        squats: MOCK_SPORTS_DATA.imperfectform.squats || 0,
-        pullups: MOCK_SPORTS_DATA.imperfectcoach.pullups || 0,
-        jumps: MOCK_SPORTS_DATA.imperfectcoach.jumps || 0,
-        situps: MOCK_SPORTS_DATA.imperfectabs.situps || 0,
-        totalExercises: (MOCK_SPORTS_DATA.imperfectform.pushups || 0) +
-                       (MOCK_SPORTS_DATA.imperfectform.squats || 0) +
-                       (MOCK_SPORTS_DATA.imperfectcoach.pullups || 0) +
-                       (MOCK_SPORTS_DATA.imperfectcoach.jumps || 0) +
-                       (MOCK_SPORTS_DATA.imperfectabs.situps || 0)
-      }
-    };
+    const userAddress = request.nextUrl.searchParams.get('user');
 
-    // If a specific user is requested, we might return personalized data
-    if (userAddress) {
-      // This would be where we fetch user-specific data across platforms
-      // crossPlatformData would be filtered for the specific user
+    if (userAddress && !ethers.isAddress(userAddress)) {
+      return Response.json(
+        { success: false, error: 'user must be a wallet address' },
+        { status: 400 }
+      );
     }
 
+    const service = getSportsCentralService();
+    const crossPlatformData = userAddress
+      ? await service.getUser(userAddress)
+      : await service.getGlobal();
+
+    const unavailable = Object.values(crossPlatformData.sources).filter(s => s.status !== 'fresh');
+
     return Response.json({
       success: true,
       data: crossPlatformData,
-      timestamp: new Date().toISOString(),
-      message: 'Multi-sports platform data aggregated successfully'
+      timestamp: crossPlatformData.generatedAt,
+      message: unavailable.length === 0
+        ? 'Multi-sports platform data aggregated successfully'
+        : `Aggregated with ${unavailable.map(s => `${s.name} ${s.status}`).join(', ')}`
     });
   } catch (error) {
     console.error('Error in sports-central API:', error);
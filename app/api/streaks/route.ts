@@ -1,5 +1,17 @@
-import { getUserStreak, updateUserStreak, initializeDatabase } from "@/lib/streaks-service-pg";
+import {
+  getUserStreak,
+  findUserStreakByAddress,
+  updateUserStreak,
+  setUserTimezone,
+  initializeDatabase,
+  getMaxStreakFreezes,
+  STREAK_FREEZE_EARN_DAYS
+} from "@/lib/streaks-service-pg";
+import { isValidTimeZone } from "@/lib/services/timezone-service";
+import { recoverResolutionSigner } from "@/lib/resolution-signatures";
+import { buildTimezoneMessage } from "@/lib/streak-signatures";
 import { syncUserFitnessData, getUserFitnessData } from "@/lib/fitness-sync-service";
+import { getExerciseTotals } from "@/lib/services/exercise-totals";
 import { NextRequest, NextResponse } from "next/server";
 
 // Mark this route as dynamic to avoid static optimization errors
@@ -10,9 +22,62 @@ if (typeof window === 'undefined' && process.env.NODE_ENV !== 'production') {
   initializeDatabase().catch(console.error);
 }
 
+// How freezes are earned, so the UI can show progress toward the next one
+function getFreezeRules() {
+  return { earnEveryDays: STREAK_FREEZE_EARN_DAYS, max: getMaxStreakFreezes() };
+}
+
+/**
+ * Store the user's timezone if it's new, so streak days follow their local calendar
+ * Changing it recounts the streak, so the signer (over buildTimezoneMessage) must be a wallet linked to the fid
+ * Returns an error response, or null when there was nothing to change or it was stored
+ */
+async function syncTimezone(
+  fid: string,
+  body: { timezone?: string; issuedAt?: number; signature?: string }
+): Promise<NextResponse | null> {
+  const { timezone, issuedAt, signature } = body;
+  if (!timezone) return null;
+
+  if (!isValidTimeZone(timezone)) {
+    return NextResponse.json({ error: `Invalid timezone: ${timezone}` }, { status: 400 });
+  }
+  if (!signature) {
+    return NextResponse.json({ error: "signature required to change timezone" }, { status: 401 });
+  }
+
+  let signer: string;
+  try {
+    signer = recoverResolutionSigner(
+      buildTimezoneMessage({ fid: String(fid), timezone, issuedAt: Number(issuedAt) }),
+      signature,
+      Number(issuedAt)
+    );
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Invalid signature" },
+      { status: 401 }
+    );
+  }
+
+  const streak = await findUserStreakByAddress(signer);
+  if (!streak || streak.userId !== String(fid)) {
+    return NextResponse.json(
+      { error: "Wallet is not linked to this FID's streak - sync fitness data first" },
+      { status: 403 }
+    );
+  }
+
+  if (streak.timezone !== timezone) {
+    await setUserTimezone(streak.userId, timezone);
+  }
+  return null;
+}
+
 /**
  * GET /api/streaks
  * Get the current user's streak data
+ * Read-only apart from the optional ?sync=true fitness sync; the timezone is changed through a signed POST
  */
 export async function GET(req: NextRequest) {
   try {
@@ -46,9 +111,14 @@ export async function GET(req: NextRequest) {
     // Also get fitness data for additional context
     const fitnessData = await getUserFitnessData(parseInt(fid));
 
+    // Lifetime totals for every exercise, with effort points to compare them
+    const exerciseTotals = await getExerciseTotals(fid);
+
     return NextResponse.json({
       ...streakData,
-      fitnessData
+      freezeRules: getFreezeRules(),
+      fitnessData,
+      exerciseTotals
     });
   } catch (error) {
     console.error("Error fetching streak data:", error);
@@ -62,6 +132,7 @@ export async function GET(req: NextRequest) {
 /**
  * POST /api/streaks
  * Update the current user's streak
+ * With { timezone, issuedAt, signature } it instead moves the streak to that local calendar, without logging activity
  */
 export async function POST(req: NextRequest) {
   try {
@@ -76,12 +147,24 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (body.timezone) {
+      const timezoneError = await syncTimezone(fid, body);
+      if (timezoneError) return timezoneError;
+
+      return NextResponse.json({
+        success: true,
+        streak: await getUserStreak(fid),
+        freezeRules: getFreezeRules()
+      });
+    }
+
     // Update the user's streak
     const updatedStreak = await updateUserStreak(fid);
 
     return NextResponse.json({
       success: true,
-      streak: updatedStreak
+      streak: updatedStreak,
+      freezeRules: getFreezeRules()
     });
   } catch (error) {
     console.error("Error updating streak:", error);
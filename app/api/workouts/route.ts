@@ -0,0 +1,161 @@
+import { createHash } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { findUserStreakByAddress } from "@/lib/streaks-service-pg";
+import { recoverResolutionSigner } from "@/lib/resolution-signatures";
+import { buildWorkoutAccessMessage, buildWorkoutImportMessage } from "@/lib/workout-signatures";
+import { importWorkouts, toVerificationMetadata } from "@/lib/workout-import";
+import {
+  getRecentWorkouts,
+  getWorkoutSamples,
+  saveImportedWorkouts
+} from "@/lib/services/workout-store";
+
+// Mark this route as dynamic to avoid static optimization errors
+export const dynamic = 'force-dynamic';
+
+// Apple Health exports get large; anything bigger should be trimmed before upload
+function getMaxImportBytes(): number {
+  const configured = Number(process.env.WORKOUT_IMPORT_MAX_BYTES);
+  return Number.isFinite(configured) && configured > 0 ? configured : 10 * 1024 * 1024;
+}
+
+/**
+ * GET /api/workouts?fid=123
+ * Recent imported workouts with totals and sanity-check results
+ * Add &workoutId=456&issuedAt=...&signature=... for one workout's sample timeline; it includes the GPS track,
+ * so the signer (over buildWorkoutAccessMessage) must be a wallet linked to that fid's streak
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const fid = searchParams.get("fid") || req.headers.get("x-fid");
+
+    if (!fid) {
+      return NextResponse.json(
+        { error: "FID required - provide as ?fid=YOUR_FID or x-fid header" },
+        { status: 400 }
+      );
+    }
+
+    const workoutId = searchParams.get("workoutId");
+    if (workoutId) {
+      const issuedAt = Number(searchParams.get("issuedAt"));
+      let signer: string;
+      try {
+        signer = recoverResolutionSigner(
+          buildWorkoutAccessMessage({ workoutId: Number(workoutId), issuedAt }),
+          searchParams.get("signature") || "",
+          issuedAt
+        );
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : "Invalid signature" },
+          { status: 401 }
+        );
+      }
+
+      const streak = await findUserStreakByAddress(signer);
+      if (!streak || streak.userId !== fid) {
+        return NextResponse.json(
+          { error: "Only a wallet linked to this FID can view its workout routes" },
+          { status: 403 }
+        );
+      }
+
+      const samples = await getWorkoutSamples(fid, Number(workoutId));
+      if (!samples) {
+        return NextResponse.json({ error: "Workout not found" }, { status: 404 });
+      }
+      return NextResponse.json({ samples });
+    }
+
+    const workouts = await getRecentWorkouts(fid, Math.min(Number(searchParams.get("limit")) || 20, 100));
+    return NextResponse.json({ workouts });
+  } catch (error) {
+    console.error("Error fetching workouts:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch workouts" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/workouts
+ * { content (base64 GPX/TCX/FIT/Apple Health export.xml), issuedAt, signature }
+ * The signer (over buildWorkoutImportMessage) must be a wallet linked to the user's streak by a fitness sync
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { content, issuedAt, signature } = body;
+
+    if (!content || !signature) {
+      return NextResponse.json(
+        { error: "content and signature required" },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(String(content), "base64");
+    if (buffer.length === 0 || buffer.length > getMaxImportBytes()) {
+      return NextResponse.json(
+        { error: `Workout file must be between 1 and ${getMaxImportBytes()} bytes` },
+        { status: 400 }
+      );
+    }
+
+    const contentHash = createHash("sha256").update(buffer).digest("hex");
+
+    let signer: string;
+    try {
+      signer = recoverResolutionSigner(
+        buildWorkoutImportMessage({ contentHash, issuedAt: Number(issuedAt) }),
+        signature,
+        Number(issuedAt)
+      );
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Invalid signature" },
+        { status: 401 }
+      );
+    }
+
+    const streak = await findUserStreakByAddress(signer);
+    if (!streak) {
+      return NextResponse.json(
+        { error: "Wallet is not linked to a streak yet - sync fitness data first" },
+        { status: 404 }
+      );
+    }
+
+    let workouts;
+    try {
+      workouts = importWorkouts(buffer);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Could not parse workout file" },
+        { status: 400 }
+      );
+    }
+
+    if (workouts.length === 0) {
+      return NextResponse.json({ error: "No workouts found in file" }, { status: 400 });
+    }
+
+    const result = await saveImportedWorkouts(streak.userId, workouts, contentHash);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      // Ready-made VerificationProof metadata for sweat equity submissions
+      verificationMetadata: workouts.map(toVerificationMetadata)
+    });
+  } catch (error) {
+    console.error("Error importing workouts:", error);
+    return NextResponse.json(
+      { error: "Failed to import workouts" },
+      { status: 500 }
+    );
+  }
+}
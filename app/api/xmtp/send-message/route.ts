@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { sendMessageToBot } from "@/lib/services/bot-service-client";
+import { queueMessage, waitForMessageResponse } from "@/lib/xmtp-message-queue";
+import { BOT_CONFIG } from "@/lib/xmtp-constants";
 
 /**
  * API endpoint to send a message to the XMTP bot
@@ -20,11 +22,25 @@ export async function POST(request: NextRequest) {
     }
 
     // Proxy to Northflank bot service
-    const response = await sendMessageToBot(userAddress, message, conversationId, context);
-
-    return NextResponse.json(response);
+    try {
+      const response = await sendMessageToBot(userAddress, message, conversationId, context);
+      return NextResponse.json(response);
+    } catch (proxyError) {
+      console.warn('⚠️ Bot service unreachable, falling back to the shared message queue:', proxyError);
+    }
 
+    // The bot's queued message processor picks this up from Redis/Postgres
+    const messageId = await queueMessage(userAddress, message, conversationId);
+    const response = await waitForMessageResponse(messageId);
 
+    return NextResponse.json({
+      response,
+      botAddress: BOT_CONFIG.ADDRESS,
+      timestamp: new Date().toISOString(),
+      source: 'queue',
+      conversationId,
+      messageId
+    });
 
   } catch (error) {
     console.error('❌ Send message API error:', error);
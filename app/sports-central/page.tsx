@@ -5,30 +5,9 @@ import { useAccount } from 'wagmi';
 import { useCrossPlatformPredictions } from '@/hooks/use-prediction-queries';
 import CrossPlatformPredictionCard from '@/components/PredictionMarket/CrossPlatformPredictionCard';
 import { ChainPrediction } from '@/lib/services/dual-chain-service';
-
-// Define types for sports data
-interface SportsData {
-  pushups?: number;
-  squats?: number;
-  pullups?: number;
-  jumps?: number;
-  situps?: number;
-  users?: string[];
-}
-
-interface CrossPlatformData {
-  imperfectform: SportsData;
-  imperfectcoach: SportsData;
-  imperfectabs: SportsData;
-  totals: {
-    pushups: number;
-    squats: number;
-    pullups: number;
-    jumps: number;
-    situps: number;
-    totalExercises: number;
-  };
-}
+import { EXERCISES } from '@/lib/exercises';
+import type { CrossPlatformData } from '@/lib/sports-central/types';
+import { describeSourceStatus } from '@/lib/sports-central/format';
 
 const SportsCentralPage = () => {
   const { address, isConnected } = useAccount();
@@ -132,17 +111,21 @@ const SportsCentralPage = () => {
                 </div>
                 <div className="space-y-2">
                   <div className="flex justify-between">
-                    <span>Pushups:</span>
+                    <span>{EXERCISES.pushups.emoji} {EXERCISES.pushups.displayName}:</span>
                     <span className="font-mono">{sportsData?.imperfectform.pushups || 0}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Squats:</span>
+                    <span>{EXERCISES.squats.emoji} {EXERCISES.squats.displayName}:</span>
                     <span className="font-mono">{sportsData?.imperfectform.squats || 0}</span>
                   </div>
                   <div className="flex justify-between">
                     <span>Users:</span>
                     <span className="font-mono">{sportsData?.imperfectform.users?.length || 0}</span>
                   </div>
+                  <div className="flex justify-between text-xs text-gray-400">
+                    <span>Source:</span>
+                    <span title={sportsData?.sources.imperfectform.error}>{describeSourceStatus(sportsData?.sources.imperfectform)}</span>
+                  </div>
                 </div>
               </div>
 
@@ -154,17 +137,21 @@ const SportsCentralPage = () => {
                 </div>
                 <div className="space-y-2">
                   <div className="flex justify-between">
-                    <span>Pullups:</span>
+                    <span>{EXERCISES.pullups.emoji} {EXERCISES.pullups.displayName}:</span>
                     <span className="font-mono">{sportsData?.imperfectcoach.pullups || 0}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Jumps:</span>
+                    <span>{EXERCISES.jumps.emoji} {EXERCISES.jumps.displayName}:</span>
                     <span className="font-mono">{sportsData?.imperfectcoach.jumps || 0}</span>
                   </div>
                   <div className="flex justify-between">
                     <span>Users:</span>
                     <span className="font-mono">{sportsData?.imperfectcoach.users?.length || 0}</span>
                   </div>
+                  <div className="flex justify-between text-xs text-gray-400">
+                    <span>Source:</span>
+                    <span title={sportsData?.sources.imperfectcoach.error}>{describeSourceStatus(sportsData?.sources.imperfectcoach)}</span>
+                  </div>
                 </div>
               </div>
 
@@ -176,13 +163,17 @@ const SportsCentralPage = () => {
                 </div>
                 <div className="space-y-2">
                   <div className="flex justify-between">
-                    <span>Situps:</span>
+                    <span>{EXERCISES.situps.emoji} {EXERCISES.situps.displayName}:</span>
                     <span className="font-mono">{sportsData?.imperfectabs.situps || 0}</span>
                   </div>
                   <div className="flex justify-between">
                     <span>Users:</span>
                     <span className="font-mono">{sportsData?.imperfectabs.users?.length || 0}</span>
                   </div>
+                  <div className="flex justify-between text-xs text-gray-400">
+                    <span>Source:</span>
+                    <span title={sportsData?.sources.imperfectabs.error}>{describeSourceStatus(sportsData?.sources.imperfectabs)}</span>
+                  </div>
                 </div>
               </div>
             </div>
@@ -191,7 +182,9 @@ const SportsCentralPage = () => {
             <div className="bg-gradient-to-r from-purple-900/50 to-green-900/50 to-yellow-900/50 p-4 rounded-lg border-2 border-white text-center">
               <h3 className="text-lg font-bold mb-2">🏆 Total Exercises Across All Platforms</h3>
               <div className="text-3xl font-bold text-white">{totalExercises.toLocaleString()}</div>
-              <div className="text-sm text-gray-300 mt-1">combined from all three platforms</div>
+              <div className="text-sm text-gray-300 mt-1">
+                combined from {Object.values(sportsData?.sources ?? {}).filter(s => s.status !== 'unavailable').length} of 3 platforms
+              </div>
             </div>
           </div>
         </section>
@@ -3,32 +3,12 @@
 import { NetworkData, getNetworkContributions } from "@/lib/blockchain";
 import { NETWORK_COLORS } from "@/lib/constants";
 import { formatNumber, getNetworkName } from "@/lib/utils";
+import { EXERCISES } from "@/lib/exercises";
+import type { CrossPlatformData } from "@/lib/sports-central/types";
+import { describeSourceStatus } from "@/lib/sports-central/format";
 import { useEffect, useState } from "react";
 import { useApiQuery } from "@/hooks/use-api-query";
 
-interface SportsData {
-  pushups?: number;
-  squats?: number;
-  pullups?: number;
-  jumps?: number;
-  situps?: number;
-  users?: string[];
-}
-
-interface CrossPlatformData {
-  imperfectform: SportsData;
-  imperfectcoach: SportsData;
-  imperfectabs: SportsData;
-  totals: {
-    pushups: number;
-    squats: number;
-    pullups: number;
-    jumps: number;
-    situps: number;
-    totalExercises: number;
-  };
-}
-
 interface NetworkContributionsProps {
   data: NetworkData;
   isLoading: boolean;
@@ -84,9 +64,9 @@ export default function NetworkContributions({
         <div className="flex-1">
           <div className="flex items-center justify-center mb-4">
             <div className="w-16 h-16 rounded-full bg-pink-500 flex items-center justify-center">
-              <span className="text-xl">💪</span>
+              <span className="text-xl">{EXERCISES.pushups.emoji}</span>
             </div>
-            <h3 className="text-lg ml-3">Push-ups</h3>
+            <h3 className="text-lg ml-3">{EXERCISES.pushups.displayName}</h3>
           </div>
 
           <div className="space-y-6">
@@ -158,9 +138,9 @@ export default function NetworkContributions({
         <div className="flex-1">
           <div className="flex items-center justify-center mb-4">
             <div className="w-16 h-16 rounded-full bg-green-500 flex items-center justify-center">
-              <span className="text-xl">🏃</span>
+              <span className="text-xl">{EXERCISES.squats.emoji}</span>
             </div>
-            <h3 className="text-lg ml-3">Squats</h3>
+            <h3 className="text-lg ml-3">{EXERCISES.squats.displayName}</h3>
           </div>
 
           <div className="space-y-6">
@@ -271,17 +251,21 @@ export default function NetworkContributions({
               </div>
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
-                  <span>Pushups:</span>
+                  <span>{EXERCISES.pushups.emoji} {EXERCISES.pushups.displayName}:</span>
                   <span className="font-mono">{sportsData.imperfectform.pushups || 0}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span>Squats:</span>
+                  <span>{EXERCISES.squats.emoji} {EXERCISES.squats.displayName}:</span>
                   <span className="font-mono">{sportsData.imperfectform.squats || 0}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>Users:</span>
                   <span className="font-mono">{sportsData.imperfectform.users?.length || 0}</span>
                 </div>
+                <div className="flex justify-between text-xs text-gray-400">
+                  <span>Source:</span>
+                  <span title={sportsData.sources.imperfectform.error}>{describeSourceStatus(sportsData.sources.imperfectform)}</span>
+                </div>
               </div>
             </div>
 
@@ -293,17 +277,21 @@ export default function NetworkContributions({
               </div>
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
-                  <span>Pullups:</span>
+                  <span>{EXERCISES.pullups.emoji} {EXERCISES.pullups.displayName}:</span>
                   <span className="font-mono">{sportsData.imperfectcoach.pullups || 0}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span>Jumps:</span>
+                  <span>{EXERCISES.jumps.emoji} {EXERCISES.jumps.displayName}:</span>
                   <span className="font-mono">{sportsData.imperfectcoach.jumps || 0}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>Users:</span>
                   <span className="font-mono">{sportsData.imperfectcoach.users?.length || 0}</span>
                 </div>
+                <div className="flex justify-between text-xs text-gray-400">
+                  <span>Source:</span>
+                  <span title={sportsData.sources.imperfectcoach.error}>{describeSourceStatus(sportsData.sources.imperfectcoach)}</span>
+                </div>
               </div>
             </div>
 
@@ -315,13 +303,17 @@ export default function NetworkContributions({
               </div>
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
-                  <span>Situps:</span>
+                  <span>{EXERCISES.situps.emoji} {EXERCISES.situps.displayName}:</span>
                   <span className="font-mono">{sportsData.imperfectabs.situps || 0}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>Users:</span>
                   <span className="font-mono">{sportsData.imperfectabs.users?.length || 0}</span>
                 </div>
+                <div className="flex justify-between text-xs text-gray-400">
+                  <span>Source:</span>
+                  <span title={sportsData.sources.imperfectabs.error}>{describeSourceStatus(sportsData.sources.imperfectabs)}</span>
+                </div>
               </div>
             </div>
           </div>
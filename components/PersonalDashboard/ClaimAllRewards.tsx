@@ -0,0 +1,136 @@
+"use client";
+
+import React from "react";
+import { useAccount } from "wagmi";
+import { useClaimAll } from "@/hooks/use-claim-all";
+import NetworkSwitchButton from "@/components/NetworkSwitchButton";
+import { CHAIN_CONFIG } from "@/lib/services/dual-chain-service";
+import type { ClaimItem } from "@/lib/claims/types";
+import { FaTrophy, FaSpinner, FaRedo, FaExternalLinkAlt } from "react-icons/fa";
+
+const statusLabel: Record<ClaimItem["status"], string> = {
+  pending: "⏳ Queued",
+  submitting: "✍️ Confirm in wallet",
+  confirming: "⛓️ Confirming",
+  claimed: "✅ Claimed",
+  failed: "❌ Failed",
+};
+
+const ClaimAllRewards: React.FC = () => {
+  const { address } = useAccount();
+  const { isLoading, state, step, summary, claimAll, retryFailed, stop } =
+    useClaimAll();
+
+  if (!address || isLoading || state.items.length === 0) {
+    return null;
+  }
+
+  const pendingCount = state.items.filter(
+    (item) => item.status === "pending"
+  ).length;
+  const chains = Object.keys(CHAIN_CONFIG).filter((chain) =>
+    state.items.some((item) => item.chain === chain)
+  ) as (keyof typeof CHAIN_CONFIG)[];
+
+  return (
+    <div className="border border-green-600 bg-green-900/20 rounded-lg p-3 mb-4 text-xs">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-green-400 font-bold flex items-center">
+          <FaTrophy className="mr-1" />
+          Rewards to claim
+        </span>
+        {state.running ? (
+          <button onClick={stop} className="text-gray-400 hover:text-white">
+            Stop
+          </button>
+        ) : pendingCount > 0 ? (
+          <button onClick={claimAll} className="retro-button text-xs px-3 py-1">
+            Claim all ({pendingCount})
+          </button>
+        ) : summary.failed > 0 ? (
+          <button
+            onClick={retryFailed}
+            className="retro-button text-xs px-3 py-1 flex items-center"
+          >
+            <FaRedo className="mr-1" />
+            Retry failed ({summary.failed})
+          </button>
+        ) : null}
+      </div>
+
+      {step.kind === "switch" && (
+        <div className="flex items-center justify-between p-2 mb-2 border border-yellow-600 rounded">
+          <span className="text-yellow-300 mr-2">
+            Switch network to claim on {CHAIN_CONFIG[step.chain].name}
+          </span>
+          <NetworkSwitchButton
+            targetChainId={CHAIN_CONFIG[step.chain].id}
+            targetChainName={CHAIN_CONFIG[step.chain].name}
+            size="sm"
+          />
+        </div>
+      )}
+
+      {chains.map((chain) => {
+        const config = CHAIN_CONFIG[chain];
+        const items = state.items.filter((item) => item.chain === chain);
+        const total = items
+          .filter((item) => item.status !== "claimed")
+          .reduce((sum, item) => sum + item.amount, 0);
+
+        return (
+          <div key={chain} className="mb-2">
+            <div className="flex justify-between text-gray-300 mb-1">
+              <span>
+                {config.emoji} {config.name}
+              </span>
+              <span>
+                {total.toFixed(3)} {config.nativeCurrency.symbol}
+                {summary.claimedByChain[chain]
+                  ? ` · ${summary.claimedByChain[chain]!.toFixed(3)} claimed`
+                  : ""}
+              </span>
+            </div>
+            {items.map((item) => (
+              <div
+                key={item.predictionId}
+                className="flex items-center justify-between pl-4 py-0.5"
+              >
+                <span className="truncate mr-2" title={item.error ?? item.title}>
+                  {item.emoji} {item.title}
+                </span>
+                <span className="flex items-center whitespace-nowrap text-gray-400">
+                  {item.amount.toFixed(3)} · {statusLabel[item.status]}
+                  {(item.status === "submitting" ||
+                    item.status === "confirming") && (
+                    <FaSpinner className="animate-spin ml-1" />
+                  )}
+                  {item.txHash && (
+                    <a
+                      href={`${config.blockExplorer}/tx/${item.txHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="ml-1 hover:text-white"
+                      title="View transaction"
+                    >
+                      <FaExternalLinkAlt />
+                    </a>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        );
+      })}
+
+      {summary.failed > 0 && !state.running && (
+        <p className="text-red-400 mt-1">
+          {summary.failed} claim{summary.failed === 1 ? "" : "s"} failed; hover
+          one to see why
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ClaimAllRewards;
@@ -0,0 +1,181 @@
+"use client";
+
+import React from "react";
+import { useAccount } from "wagmi";
+import { usePortfolio } from "@/hooks/use-prediction-queries";
+import { CHAIN_CONFIG } from "@/lib/services/dual-chain-service";
+import type { PortfolioPosition } from "@/lib/services/portfolio-service";
+import { FaArrowUp, FaArrowDown, FaCoins, FaTrophy } from "react-icons/fa";
+
+const formatUsd = (value: number) =>
+  `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+
+const formatSigned = (value: number, digits: number = 3) =>
+  `${value > 0 ? "+" : ""}${value.toFixed(digits)}`;
+
+const pnlColor = (value: number) =>
+  value > 0 ? "text-green-400" : value < 0 ? "text-red-400" : "text-gray-300";
+
+const PortfolioSummary: React.FC = () => {
+  const { address } = useAccount();
+  const { data: portfolio, isLoading, isError } = usePortfolio();
+
+  if (!address) {
+    return (
+      <p className="text-xs text-gray-400 text-center">
+        Connect a wallet to see your winnings and open positions
+      </p>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-4">
+        <div className="loading-spinner mx-auto"></div>
+        <p className="text-xs text-gray-400 mt-2">Loading your portfolio...</p>
+      </div>
+    );
+  }
+
+  if (isError || !portfolio) {
+    return (
+      <p className="text-xs text-red-400 text-center">
+        Couldn&apos;t load your portfolio, try again shortly
+      </p>
+    );
+  }
+
+  if (portfolio.positions.length === 0) {
+    return (
+      <p className="text-xs text-gray-400 text-center">
+        No positions yet. Stake on a prediction to start tracking your P&amp;L
+      </p>
+    );
+  }
+
+  const { usd, unpricedChains } = portfolio.totals;
+  const openPositions = portfolio.positions.filter(
+    (position: PortfolioPosition) => position.status === "open"
+  );
+
+  return (
+    <div>
+      {/* USD totals */}
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <div className="text-center p-2 border border-gray-700 rounded">
+          <div className={`text-xl ${pnlColor(usd.realizedPnl)}`}>
+            {formatUsd(usd.realizedPnl)}
+          </div>
+          <div className="text-xs">Realized P&amp;L</div>
+        </div>
+        <div className="text-center p-2 border border-gray-700 rounded">
+          <div className="text-xl text-green-400">
+            {formatUsd(usd.unclaimedRewards)}
+          </div>
+          <div className="text-xs">Unclaimed</div>
+        </div>
+        <div className="text-center p-2 border border-gray-700 rounded">
+          <div className="text-xl text-yellow-400">
+            {formatUsd(usd.openStake)}
+          </div>
+          <div className="text-xs">Open stakes</div>
+        </div>
+        <div className="text-center p-2 border border-gray-700 rounded">
+          <div className="text-xl text-purple-400">
+            {formatUsd(usd.sweatEquityRecovered)}
+          </div>
+          <div className="text-xs">Sweat equity recovered</div>
+        </div>
+      </div>
+
+      {unpricedChains.length > 0 && (
+        <p className="text-xs text-gray-400 text-center mb-3">
+          No USD price for{" "}
+          {unpricedChains.map((chain) => CHAIN_CONFIG[chain].name).join(", ")};
+          see native amounts below
+        </p>
+      )}
+
+      {/* Per-chain breakdown in native units */}
+      <div className="space-y-2 mb-4">
+        {portfolio.chains
+          .filter((chain) => chain.positions > 0)
+          .map((chain) => {
+            const config = CHAIN_CONFIG[chain.chain];
+
+            return (
+              <div
+                key={chain.chain}
+                className="p-2 bg-gray-800 rounded text-xs"
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span>
+                    {config.emoji} {config.name}
+                  </span>
+                  <span className="text-gray-400">
+                    {chain.wins}W / {chain.losses}L · {chain.feePercentage}% fee
+                    {chain.feeIsDefault ? " (default)" : ""}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className={pnlColor(chain.realizedPnl)}>
+                    <FaCoins className="inline mr-1" />
+                    {formatSigned(chain.realizedPnl)} {chain.currency}
+                  </span>
+                  {chain.unclaimedRewards > 0 && (
+                    <span className="text-green-400">
+                      <FaTrophy className="inline mr-1" />
+                      {chain.unclaimedRewards.toFixed(3)} to claim
+                    </span>
+                  )}
+                  {chain.openStake > 0 && (
+                    <span className="text-yellow-400">
+                      {chain.openStake.toFixed(3)} open
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+      </div>
+
+      {/* Open positions */}
+      {openPositions.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-bold text-gray-300">Open Positions</h4>
+          {openPositions.slice(0, 3).map((position: PortfolioPosition) => {
+            const config = CHAIN_CONFIG[position.chain];
+
+            return (
+              <div
+                key={`${position.chain}-${position.predictionId}`}
+                className="flex items-center justify-between text-xs border border-gray-700 rounded p-2"
+              >
+                <span className="truncate mr-2" title={position.title}>
+                  {position.emoji} {position.title}
+                </span>
+                <span
+                  className={`flex items-center whitespace-nowrap ${
+                    position.isYes ? "text-green-400" : "text-red-400"
+                  }`}
+                >
+                  {position.isYes ? (
+                    <FaArrowUp className="mr-1" />
+                  ) : (
+                    <FaArrowDown className="mr-1" />
+                  )}
+                  {position.stake.toFixed(3)}
+                  {position.potentialPayout !== null &&
+                    ` → ${position.potentialPayout.toFixed(3)}`}{" "}
+                  {config.nativeCurrency.symbol}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioSummary;
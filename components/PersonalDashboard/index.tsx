@@ -12,6 +12,8 @@ import Confetti from "@/components/Confetti";
 import { toast } from "react-hot-toast";
 import { FaShare, FaArrowRight, FaFire, FaMedal } from "react-icons/fa";
 import UserPredictionStats from "./UserPredictionStats";
+import PortfolioSummary from "./PortfolioSummary";
+import ClaimAllRewards from "./ClaimAllRewards";
 
 // Simple conditional rendering component
 const WebAppOnly = ({ children }: { children: React.ReactNode }) => {
@@ -545,6 +547,13 @@ export default function PersonalDashboard({
           </div>
         )}
 
+        {/* Portfolio */}
+        <div className="game-container">
+          <h2 className="retro-heading text-xl mb-4">My Portfolio</h2>
+          <ClaimAllRewards />
+          <PortfolioSummary />
+        </div>
+
         {/* Farcaster Upsell - Only show in web app context */}
         <WebAppOnly>
           <div className="game-container text-center">
@@ -880,6 +889,13 @@ export default function PersonalDashboard({
               <h3 className="text-center mb-4">Prediction Stats</h3>
               <UserPredictionStats isNewUser={isNewUser} />
             </div>
+
+            {/* Portfolio */}
+            <div className="border-2 border-white p-4 rounded-lg">
+              <h3 className="text-center mb-4">Portfolio</h3>
+              <ClaimAllRewards />
+              <PortfolioSummary />
+            </div>
           </div>
         </>
       ) : (
@@ -34,11 +34,15 @@ import TransactionSuccessModal from "./TransactionSuccessModal";
 import VerificationStatus from "./VerificationStatus";
 import ProofPanel from "./ProofPanel";
 import RecoveryWidget from "./RecoveryWidget";
+import ResolutionProposalPanel from "./ResolutionProposalPanel";
+import OddsSparkline from "./OddsSparkline";
 import {
   CHAIN_CONFIG,
   type SupportedChain,
   getStakingRecommendations,
 } from "@/lib/services/dual-chain-service";
+import type { OddsHistory } from "@/lib/prediction-index/types";
+import type { RecurringPredictionInfo } from "@/lib/prediction-templates/types";
 
 interface ChainAwarePredictionCardProps {
   prediction: Prediction;
@@ -52,6 +56,8 @@ interface ChainAwarePredictionCardProps {
   compact?: boolean; // New compact mode
   expanded?: boolean; // Whether card is expanded
   onToggleExpand?: () => void; // Toggle expansion
+  oddsHistory?: OddsHistory; // Odds over time for the sparkline
+  recurring?: RecurringPredictionInfo; // Set when a recurring template created it
 }
 
 const ChainAwarePredictionCard: React.FC<ChainAwarePredictionCardProps> = ({
@@ -62,6 +68,8 @@ const ChainAwarePredictionCard: React.FC<ChainAwarePredictionCardProps> = ({
   compact = false,
   expanded = false,
   onToggleExpand,
+  oddsHistory,
+  recurring,
 }) => {
   const { address } = useAccount();
   const { connect, connectors } = useConnect();
@@ -350,6 +358,20 @@ Check it out: ${env.NEXT_PUBLIC_URL}`;
           {truncatedTitle}
         </h3>
 
+        {/* Track record of the series this prediction belongs to */}
+        {recurring && (
+          <div className="text-[10px] text-purple-300 mb-2">
+            🔁 {recurring.templateName} #{recurring.sequence}
+            {recurring.history.lastResolved
+              ? ` · last time ${recurring.history.lastResolved.outcome === "hit" ? "✅ hit" : "❌ missed"}`
+              : recurring.history.previous
+              ? " · last one still resolving"
+              : " · first run"}
+            {recurring.history.resolved > 0 &&
+              ` · hit ${recurring.history.hits}/${recurring.history.resolved}`}
+          </div>
+        )}
+
         {/* Compact odds display */}
         <div className="flex items-center justify-between mb-3 text-xs">
           <div className="flex items-center space-x-3">
@@ -362,6 +384,13 @@ Check it out: ${env.NEXT_PUBLIC_URL}`;
           </span>
         </div>
 
+        {oddsHistory && (
+          <OddsSparkline
+            history={oddsHistory}
+            currency={chainConfig.nativeCurrency.symbol}
+          />
+        )}
+
         {/* Simplified staking with custom input option */}
         {expanded && (
           <div className="mb-3 p-2 bg-gray-900 bg-opacity-30 rounded">
@@ -498,6 +527,11 @@ Check it out: ${env.NEXT_PUBLIC_URL}`;
                 View Proof
               </button>
               <RecoveryWidget prediction={prediction} />
+              <ResolutionProposalPanel
+                predictionId={prediction.id}
+                chain={detectedChain}
+                isStaker={!!userVote && userVote.amount > 0}
+              />
             </div>
           </div>
         )}
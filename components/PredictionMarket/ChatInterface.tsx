@@ -38,11 +38,18 @@ import {
 import { type StoredMessage } from "@/lib/xmtp-message-store";
 import { useXMTPConnectionStatus } from "@/hooks/use-xmtp-auth";
 import { useXMTPConversations } from "@/hooks/use-xmtp-conversations";
+import { usePredictionDraft } from "@/hooks/use-prediction-draft";
+import {
+  extractDraft,
+  type DraftTransaction,
+  type PredictionDraft,
+} from "@/lib/prediction-draft";
 import { predictionMarketABI } from "@/lib/constants";
 import NetworkMismatchModal from "@/components/NetworkMismatchModal";
 import NetworkSwitchButton from "@/components/NetworkSwitchButton";
 import { getChainName } from "@/lib/config/chains";
 import TransactionSuccessModal from "./TransactionSuccessModal";
+import PredictionDraftCard from "./PredictionDraftCard";
 // Removed AgentKit modal - users always use their wallet
 
 interface ChatMessage {
@@ -57,6 +64,16 @@ interface ChatMessage {
   };
 }
 
+// The text version of the active draft is left out: the draft card below the messages shows it
+function messageDisplayText(content: string, activeDraftId?: string): string {
+  const { text, draft } = extractDraft(content);
+  const shown =
+    draft && draft.id === activeDraftId
+      ? text
+      : content.replace(/<!-- PREDICTION_DRAFT:.*? -->/g, "");
+  return shown.replace(/<!-- WALLET_TRIGGER:.*? -->/g, "").trim();
+}
+
 interface ChatInterfaceProps {
   onClose: () => void;
   embedded?: boolean;
@@ -167,6 +184,21 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const { data: conversationHistory = [], isLoading: historyLoading } =
     useConversationHistory(conversationId);
 
+  // The bot's current prediction draft, edited from the draft card
+  const {
+    draft: predictionDraft,
+    setDraft: setPredictionDraft,
+    saving: draftSaving,
+    editField: editDraftField,
+    confirm: confirmDraft,
+    discard: discardDraft,
+    restore: restoreDraft,
+  } = usePredictionDraft(conversationId);
+
+  // Draft behind the prediction waiting for the wallet, so "Edit" can bring it back
+  const confirmedDraftRef = useRef<PredictionDraft | null>(null);
+  const lastDraftKeyRef = useRef<string | null>(null);
+
   // Bot address for XMTP communication
   const botAddress =
     process.env.NEXT_PUBLIC_PREDICTION_BOT_XMTP_ADDRESS ||
@@ -353,16 +385,6 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         }
       }
 
-      // Check for prediction proposals in the response
-      if (
-        messageToSend.toLowerCase().includes("create") &&
-        messageToSend.toLowerCase().includes("prediction")
-      ) {
-        setPendingPrediction({
-          id: `pred_${Date.now()}`,
-          content: messageToSend,
-        });
-      }
       // Focus back on input without forced scrolling
       setTimeout(() => {
         if (inputRef.current) {
@@ -605,12 +627,33 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   }, [pendingPrediction, handleCreatePrediction, address]);
 
+  // Confirmed from the draft card: the bot hands back the transaction for the wallet
+  const handleConfirmDraft = useCallback(async () => {
+    const draft = predictionDraft;
+    const transaction: DraftTransaction | null = await confirmDraft();
+    if (!draft || !transaction) return;
+
+    confirmedDraftRef.current = draft;
+    setPredictionDraft(null);
+    setPendingPrediction({
+      id: `pred_${Date.now()}`,
+      content: transaction.title,
+      transactionParams: transaction,
+    });
+  }, [predictionDraft, confirmDraft, setPredictionDraft]);
+
+  // Back to the draft card (and the bot's draft) instead of retyping the prediction
   const handleEditPrediction = useCallback(() => {
-    if (pendingPrediction) {
+    if (!pendingPrediction) return;
+
+    if (confirmedDraftRef.current) {
+      restoreDraft(confirmedDraftRef.current);
+      confirmedDraftRef.current = null;
+    } else {
       setNewMessage(pendingPrediction.content);
-      setPendingPrediction(null);
     }
-  }, [pendingPrediction]);
+    setPendingPrediction(null);
+  }, [pendingPrediction, restoreDraft]);
 
   // Removed AgentKit transaction method selection - users always use their wallet
 
@@ -814,6 +857,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           // Mark this trigger as processed
           setProcessedTriggers((prev) => new Set(prev).add(triggerId));
 
+          // Confirmed in chat: the bot has dropped the draft, keep it for "Edit"
+          confirmedDraftRef.current = predictionDraft;
+          setPredictionDraft(null);
+
           // Show pending prediction with transaction params for button
           setPendingPrediction({
             id: `pred_${Date.now()}`,
@@ -829,7 +876,28 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     } else {
       console.log("❌ No wallet trigger found in last message");
     }
-  }, [conversationHistory, isCreatingPrediction, processedTriggers]);
+  }, [
+    conversationHistory,
+    isCreatingPrediction,
+    processedTriggers,
+    predictionDraft,
+    setPredictionDraft,
+  ]);
+
+  // Show the draft the bot embedded in its latest reply as the editable card
+  useEffect(() => {
+    const lastBotMessage = [...conversationHistory]
+      .reverse()
+      .find((msg) => msg.messageType === "bot");
+    if (!lastBotMessage) return;
+
+    const { draft } = extractDraft(lastBotMessage.content);
+    const key = draft ? `${draft.id}_${draft.updatedAt}` : null;
+    if (draft && key !== lastDraftKeyRef.current) {
+      lastDraftKeyRef.current = key;
+      setPredictionDraft(draft);
+    }
+  }, [conversationHistory, setPredictionDraft]);
 
   // Handle contract transaction success
   useEffect(() => {
@@ -1074,8 +1142,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 </div>
               </div>
               <div className="whitespace-pre-wrap">
-                {/* Hide wallet trigger comments from display */}
-                {msg.content.replace(/<!-- WALLET_TRIGGER:.*? -->/g, "").trim()}
+                {/* Hide wallet triggers and embedded drafts from display */}
+                {messageDisplayText(msg.content, predictionDraft?.id)}
               </div>
 
               {/* Message type indicator */}
@@ -1192,6 +1260,17 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         {/* Scroll anchor */}
         <div ref={messagesEndRef} />
 
+        {predictionDraft && !pendingPrediction && (
+          <PredictionDraftCard
+            draft={predictionDraft}
+            saving={draftSaving}
+            disabled={isLoading || isCreatingPrediction}
+            onEdit={editDraftField}
+            onConfirm={handleConfirmDraft}
+            onDiscard={discardDraft}
+          />
+        )}
+
         {pendingPrediction && (
           <div className="mt-2 p-3 bg-gradient-to-r from-blue-900 to-purple-900 text-white rounded-lg border border-blue-700 shadow-lg">
             <div className="flex items-center gap-2 mb-2">
@@ -0,0 +1,143 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useAccount, useSignMessage } from "wagmi";
+import { toast } from "react-hot-toast";
+import type { ResolutionProposal } from "@/lib/services/resolution-disputes";
+import { buildAdminResolutionMessage } from "@/lib/resolution-signatures";
+
+export default function DisputeQueue() {
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const [proposals, setProposals] = useState<ResolutionProposal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [ruling, setRuling] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      const resp = await fetch("/api/predictions/disputes?status=disputed");
+      const json = await resp.json();
+      if (!json.success) throw new Error(json.error || "Failed to load disputes");
+      setProposals(json.data.proposals);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const rule = async (proposal: ResolutionProposal, outcome: "YES" | "NO") => {
+    const key = `${proposal.chain}:${proposal.predictionId}`;
+    try {
+      setRuling(key);
+      const issuedAt = Math.floor(Date.now() / 1000);
+      const signature = await signMessageAsync({
+        message: buildAdminResolutionMessage({
+          predictionId: proposal.predictionId,
+          chain: proposal.chain,
+          outcome,
+          issuedAt,
+        }),
+      });
+      const resp = await fetch("/api/predictions/disputes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "rule",
+          predictionId: proposal.predictionId,
+          chain: proposal.chain,
+          outcome,
+          issuedAt,
+          signature,
+        }),
+      });
+      const json = await resp.json();
+      if (!json.success) throw new Error(json.error || "Failed to submit ruling");
+      if (json.data.proposal.lastError) throw new Error(json.data.proposal.lastError);
+      toast.success(`Prediction #${proposal.predictionId} settled as ${outcome}`);
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to submit ruling");
+    } finally {
+      setRuling(null);
+    }
+  };
+
+  return (
+    <div className="game-container p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl">Disputed Resolutions</h2>
+        <button onClick={load} className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-200 px-2 py-1 rounded">
+          Refresh
+        </button>
+      </div>
+
+      {!address && (
+        <p className="text-xs text-gray-400 mb-4">Connect an admin wallet to rule on disputes.</p>
+      )}
+
+      {loading && <div className="text-xs text-gray-400">Loading disputes...</div>}
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      {!loading && !error && proposals.length === 0 && (
+        <div className="text-xs text-gray-400">No disputed resolutions</div>
+      )}
+
+      <div className="space-y-3">
+        {proposals.map((proposal) => {
+          const key = `${proposal.chain}:${proposal.predictionId}`;
+          return (
+            <div key={key} className="bg-gray-900 border border-gray-700 rounded p-3 text-left">
+              <div className="flex items-center justify-between">
+                <div className="text-sm text-white">
+                  #{proposal.predictionId} {proposal.title}
+                </div>
+                <div className="text-xs text-gray-400">{proposal.chain.toUpperCase()}</div>
+              </div>
+              <div className="text-xs text-gray-300 mt-1">
+                Proposed {proposal.outcome} via {proposal.source} ({Math.round(proposal.confidence * 100)}%)
+                {proposal.currentValue !== undefined && ` • observed ${proposal.currentValue} vs target ${proposal.targetValue}`}
+              </div>
+              {proposal.evidence && (
+                <pre className="text-[10px] text-gray-500 mt-2 max-h-32 overflow-auto whitespace-pre-wrap">
+                  {JSON.stringify(proposal.evidence, null, 2)}
+                </pre>
+              )}
+              <div className="mt-2 space-y-1">
+                {proposal.disputes.map((dispute) => (
+                  <div key={dispute.id} className="text-xs text-red-300">
+                    {dispute.staker.slice(0, 6)}...{dispute.staker.slice(-4)}: {dispute.reason}
+                  </div>
+                ))}
+              </div>
+              {proposal.lastError && (
+                <div className="text-xs text-red-400 mt-1">Last attempt failed: {proposal.lastError}</div>
+              )}
+              <div className="flex space-x-2 mt-3">
+                {(["YES", "NO"] as const).map((outcome) => (
+                  <button
+                    key={outcome}
+                    onClick={() => rule(proposal, outcome)}
+                    disabled={!address || ruling === key}
+                    className={`flex-1 text-xs text-white px-2 py-1 rounded disabled:opacity-50 disabled:cursor-not-allowed ${
+                      outcome === "YES" ? "bg-green-700 hover:bg-green-800" : "bg-red-700 hover:bg-red-800"
+                    }`}
+                  >
+                    {outcome === proposal.outcome ? `Uphold ${outcome}` : `Overturn to ${outcome}`}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
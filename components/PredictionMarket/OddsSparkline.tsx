@@ -0,0 +1,85 @@
+"use client";
+
+import React from "react";
+import type { OddsHistory } from "@/lib/prediction-index/types";
+
+interface OddsSparklineProps {
+  history: OddsHistory;
+  currency: string;
+  width?: number;
+  height?: number;
+}
+
+// Share of the chart height used by the YES line; volume bars sit below it
+const LINE_SHARE = 0.7;
+
+/**
+ * YES odds over time with per-bucket volume bars, plus the 24h move
+ */
+const OddsSparkline: React.FC<OddsSparklineProps> = ({
+  history,
+  currency,
+  width = 240,
+  height = 40,
+}) => {
+  const { points, momentum } = history;
+  if (points.length < 2) {
+    return null;
+  }
+
+  const first = points[0].timestamp;
+  const span = Math.max(1, points[points.length - 1].timestamp - first);
+  const lineHeight = height * LINE_SHARE;
+  const barTop = lineHeight + 2;
+  const maxVolume = Math.max(...points.map((p) => p.volume), Number.EPSILON);
+  const barWidth = Math.max(1, width / points.length - 1);
+
+  const x = (timestamp: number) => ((timestamp - first) / span) * (width - barWidth) + barWidth / 2;
+  const line = points
+    .map((p) => `${x(p.timestamp).toFixed(1)},${(lineHeight - (p.yes / 100) * lineHeight).toFixed(1)}`)
+    .join(" ");
+
+  const change = momentum.oddsChange;
+  const changeClass = change > 0 ? "text-green-400" : change < 0 ? "text-red-400" : "text-gray-400";
+
+  return (
+    <div className="mb-3">
+      <svg
+        width="100%"
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={`YES odds from ${points[0].yes}% to ${points[points.length - 1].yes}%`}
+      >
+        {/* 50% guide */}
+        <line x1={0} x2={width} y1={lineHeight / 2} y2={lineHeight / 2} stroke="#374151" strokeDasharray="2 2" />
+        {points.map((p) => {
+          const barHeight = (p.volume / maxVolume) * (height - barTop);
+          return (
+            <rect
+              key={p.timestamp}
+              x={x(p.timestamp) - barWidth / 2}
+              y={height - barHeight}
+              width={barWidth}
+              height={barHeight}
+              fill="#6b7280"
+            >
+              <title>{`${p.votes} vote${p.votes === 1 ? "" : "s"}, ${p.volume.toFixed(3)} ${currency}`}</title>
+            </rect>
+          );
+        })}
+        <polyline points={line} fill="none" stroke="#4ade80" strokeWidth={1.5} />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>YES odds · volume</span>
+        <span className={changeClass}>
+          24h {change > 0 ? "+" : ""}
+          {change.toFixed(1)} pts ({momentum.windowVotes} vote{momentum.windowVotes === 1 ? "" : "s"})
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default OddsSparkline;
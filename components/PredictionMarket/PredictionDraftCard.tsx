@@ -0,0 +1,223 @@
+"use client";
+
+import React from "react";
+import { FaSpinner } from "react-icons/fa";
+import { CHAIN_CONFIG } from "@/lib/services/dual-chain-service";
+import {
+  DRAFT_CATEGORIES,
+  DRAFT_CATEGORY_NAMES,
+  DRAFT_FIELD_LABELS,
+  DRAFT_PROVENANCE_LABELS,
+  type DraftField,
+  type DraftProvenance,
+  type PredictionDraft,
+} from "@/lib/prediction-draft";
+import { describeResolutionCriteria } from "@/lib/resolution-criteria/criteria";
+
+interface PredictionDraftCardProps {
+  draft: PredictionDraft;
+  saving: DraftField | "confirm" | null;
+  disabled?: boolean;
+  onEdit: (field: DraftField, value: string | number) => void;
+  onConfirm: () => void;
+  onDiscard: () => void;
+}
+
+const PROVENANCE_STYLES: Record<DraftProvenance, string> = {
+  user: "bg-green-900 text-green-300",
+  inferred: "bg-blue-900 text-blue-300",
+  default: "bg-yellow-900 text-yellow-300",
+};
+
+const INPUT_CLASS =
+  "w-full bg-black bg-opacity-30 border border-purple-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-purple-400";
+
+type FieldInput = "text" | "textarea" | "number" | "date" | "category" | "chain";
+
+const CARD_FIELDS: Array<[DraftField, FieldInput]> = [
+  ["title", "text"],
+  ["description", "textarea"],
+  ["targetValue", "number"],
+  ["targetDate", "date"],
+  ["category", "category"],
+  ["chain", "chain"],
+  ["targetUser", "text"],
+  ["emoji", "text"],
+];
+
+// Value as the input shows it; dates are edited as whole days (the bot reads YYYY-MM-DD as end of day UTC)
+function inputValue(draft: PredictionDraft, field: DraftField): string {
+  const value = draft.fields[field];
+  if (field === "targetDate") {
+    return typeof value === "number" ? new Date(value * 1000).toISOString().slice(0, 10) : "";
+  }
+  if (field === "category") {
+    return DRAFT_CATEGORY_NAMES[draft.fields.category];
+  }
+  return value === undefined || value === null ? "" : String(value);
+}
+
+/**
+ * The bot's prediction draft as an editable card: each field shows where its value came from and
+ * what validation found, and every change is sent back to the bot before the user can confirm
+ */
+export default function PredictionDraftCard({
+  draft,
+  saving,
+  disabled = false,
+  onEdit,
+  onConfirm,
+  onDiscard,
+}: PredictionDraftCardProps) {
+  const { validation } = draft;
+  const busy = disabled || saving !== null;
+
+  const commit = (field: DraftField, raw: string) => {
+    if (raw.trim() === inputValue(draft, field) || (!raw.trim() && field !== "targetValue")) return;
+    onEdit(field, field === "targetValue" ? Number(raw) : raw.trim());
+  };
+
+  const renderInput = (field: DraftField, kind: FieldInput) => {
+    // Keyed on the draft version so inputs pick up values the bot or the server changed
+    const key = `${field}-${draft.updatedAt}`;
+    const common = {
+      defaultValue: inputValue(draft, field),
+      disabled: busy,
+      className: INPUT_CLASS,
+    };
+
+    switch (kind) {
+      case "textarea":
+        return <textarea key={key} {...common} rows={2} onBlur={(e) => commit(field, e.target.value)} />;
+      case "category":
+        return (
+          <select key={key} {...common} onChange={(e) => commit(field, e.target.value)}>
+            {Object.keys(DRAFT_CATEGORIES).map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        );
+      case "chain":
+        return (
+          <select key={key} {...common} onChange={(e) => commit(field, e.target.value)}>
+            {Object.entries(CHAIN_CONFIG).map(([id, config]) => (
+              <option key={id} value={id}>{config.emoji} {config.name}</option>
+            ))}
+          </select>
+        );
+      default:
+        return (
+          <input
+            key={key}
+            {...common}
+            type={kind}
+            min={kind === "number" ? 0 : undefined}
+            onBlur={(e) => commit(field, e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                commit(field, e.currentTarget.value);
+              }
+            }}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="mt-2 p-3 bg-gradient-to-r from-purple-900 to-blue-900 text-white rounded-lg border border-purple-600 shadow-lg">
+      <div className="flex items-center justify-between mb-2">
+        <p className="font-bold text-sm">{draft.fields.emoji} Prediction Draft</p>
+        <span className="text-xs text-purple-300">Edit anything before you confirm</span>
+      </div>
+
+      <div className="space-y-2">
+        {CARD_FIELDS.map(([field, kind]) => {
+          const source = draft.provenance[field];
+          const issues = draft.fieldIssues[field] ?? [];
+          return (
+            <div key={field}>
+              <div className="flex items-center gap-2 mb-0.5">
+                <label className="text-xs text-gray-300">{DRAFT_FIELD_LABELS[field]}</label>
+                {source && (
+                  <span className={`text-[10px] px-1.5 rounded ${PROVENANCE_STYLES[source]}`}>
+                    {DRAFT_PROVENANCE_LABELS[source]}
+                  </span>
+                )}
+                {saving === field && <FaSpinner className="animate-spin text-purple-300" size={10} />}
+              </div>
+              {renderInput(field, kind)}
+              {field === "targetUser" && draft.fields.targetAddress && (
+                <div className="text-[10px] text-gray-400 mt-0.5">{draft.fields.targetAddress}</div>
+              )}
+              {issues.map((issue) => (
+                <div key={issue} className="text-xs text-red-300 mt-0.5">❌ {issue}</div>
+              ))}
+            </div>
+          );
+        })}
+
+        {/* Criteria are set through the bot; they follow the target, deadline and subject edited above */}
+        <div>
+          <div className="flex items-center gap-2 mb-0.5">
+            <label className="text-xs text-gray-300">{DRAFT_FIELD_LABELS.resolution}</label>
+            {draft.provenance.resolution && (
+              <span className={`text-[10px] px-1.5 rounded ${PROVENANCE_STYLES[draft.provenance.resolution]}`}>
+                {DRAFT_PROVENANCE_LABELS[draft.provenance.resolution]}
+              </span>
+            )}
+          </div>
+          <div className="text-xs text-gray-200">
+            {draft.fields.resolution
+              ? describeResolutionCriteria(draft.fields.resolution)
+              : "Manually, by the resolver (ask the bot to set criteria)"}
+          </div>
+          {(draft.fieldIssues.resolution ?? []).map((issue) => (
+            <div key={issue} className="text-xs text-red-300 mt-0.5">❌ {issue}</div>
+          ))}
+        </div>
+      </div>
+
+      {validation.warnings.length > 0 && (
+        <div className="mt-2 text-xs text-yellow-300 space-y-0.5">
+          {validation.warnings.map((warning) => (
+            <div key={warning}>⚠️ {warning}</div>
+          ))}
+        </div>
+      )}
+
+      {/* Errors no field owns (cross-field rules) */}
+      {validation.errors
+        .filter((error) => !Object.values(draft.fieldIssues).some((issues) => issues?.includes(error)))
+        .map((error) => (
+          <div key={error} className="mt-1 text-xs text-red-300">❌ {error}</div>
+        ))}
+
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={onConfirm}
+          disabled={busy || !validation.isValid}
+          className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 text-white px-3 py-2 rounded text-sm font-medium transition-colors flex items-center justify-center gap-2"
+        >
+          {saving === "confirm" ? (
+            <>
+              <FaSpinner className="animate-spin" size={12} />
+              Confirming...
+            </>
+          ) : validation.isValid ? (
+            "✅ Confirm Draft"
+          ) : (
+            "Fix the fields above"
+          )}
+        </button>
+        <button
+          onClick={onDiscard}
+          disabled={busy}
+          className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-800 text-white px-3 py-2 rounded text-sm transition-colors"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+}
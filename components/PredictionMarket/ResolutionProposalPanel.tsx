@@ -0,0 +1,147 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useSignMessage } from "wagmi";
+import { toast } from "react-hot-toast";
+import { type SupportedChain } from "@/lib/services/dual-chain-service";
+import type { ResolutionProposal } from "@/lib/services/resolution-disputes";
+import { buildDisputeMessage } from "@/lib/resolution-signatures";
+
+interface ResolutionProposalPanelProps {
+  predictionId: number;
+  chain: SupportedChain;
+  isStaker: boolean;
+}
+
+const STATUS_LABELS: Record<ResolutionProposal["status"], string> = {
+  proposed: "Open for disputes",
+  disputed: "Disputed - awaiting admin review",
+  finalizing: "Settling on-chain",
+  finalized: "Settled",
+  overturned: "Overturned by admin",
+};
+
+export default function ResolutionProposalPanel({ predictionId, chain, isStaker }: ResolutionProposalPanelProps) {
+  const { signMessageAsync } = useSignMessage();
+  const [proposal, setProposal] = useState<ResolutionProposal | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const load = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ predictionId: String(predictionId), chain });
+      const resp = await fetch(`/api/predictions/disputes?${params.toString()}`);
+      const json = await resp.json();
+      if (json.success) setProposal(json.data.proposal);
+    } catch (err) {
+      console.error("Failed to load resolution proposal:", err);
+    }
+  }, [predictionId, chain]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!proposal) return null;
+
+  const remaining = Math.max(0, Math.floor((new Date(proposal.disputeEndsAt).getTime() - now) / 1000));
+  const windowOpen = remaining > 0 && (proposal.status === "proposed" || proposal.status === "disputed");
+
+  const submitDispute = async () => {
+    try {
+      setSubmitting(true);
+      const issuedAt = Math.floor(Date.now() / 1000);
+      const signature = await signMessageAsync({
+        message: buildDisputeMessage({ predictionId, chain, reason, issuedAt }),
+      });
+      const resp = await fetch("/api/predictions/disputes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "dispute", predictionId, chain, reason, issuedAt, signature }),
+      });
+      const json = await resp.json();
+      if (!json.success) throw new Error(json.error || "Failed to file dispute");
+      setProposal(json.data.proposal);
+      setShowForm(false);
+      setReason("");
+      toast.success("Dispute filed - an admin will review it");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to file dispute");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900 border border-yellow-700 rounded p-2">
+      <div className="flex items-center justify-between">
+        <div className="text-xs text-yellow-300 font-bold">
+          Proposed outcome: {proposal.finalOutcome || proposal.outcome}
+        </div>
+        <div className="text-xs text-gray-400">{Math.round(proposal.confidence * 100)}%</div>
+      </div>
+      <div className="text-xs text-gray-400 mt-1">
+        {STATUS_LABELS[proposal.status]} • {proposal.source}
+      </div>
+      {proposal.currentValue !== undefined && (
+        <div className="text-xs text-gray-400 mt-1">
+          Observed {proposal.currentValue} vs target {proposal.targetValue}
+        </div>
+      )}
+      {windowOpen && (
+        <div className="text-xs text-yellow-300 mt-1">
+          Dispute window: {Math.floor(remaining / 3600)}h {Math.floor((remaining % 3600) / 60)}m remaining
+        </div>
+      )}
+      {proposal.disputes.length > 0 && (
+        <div className="text-xs text-red-300 mt-1">
+          {proposal.disputes.length} dispute{proposal.disputes.length === 1 ? "" : "s"} filed
+        </div>
+      )}
+
+      {windowOpen && isStaker && !showForm && (
+        <button
+          onClick={() => setShowForm(true)}
+          className="w-full mt-2 text-xs bg-red-700 hover:bg-red-800 text-white px-2 py-1 rounded"
+        >
+          Dispute
+        </button>
+      )}
+
+      {showForm && (
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Why is this outcome wrong?"
+            maxLength={500}
+            rows={3}
+            className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+          />
+          <div className="flex space-x-2">
+            <button
+              onClick={submitDispute}
+              disabled={submitting || !reason.trim()}
+              className="flex-1 text-xs bg-red-700 hover:bg-red-800 text-white px-2 py-1 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? "Signing..." : "Sign & Submit"}
+            </button>
+            <button
+              onClick={() => setShowForm(false)}
+              className="text-xs bg-gray-600 hover:bg-gray-700 text-white px-2 py-1 rounded"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,11 +2,12 @@
 
 import React, { useEffect, useState } from "react";
 import { type SupportedChain } from "@/lib/services/dual-chain-service";
+import { EXERCISES, formatExerciseAmount, type ExerciseId } from "@/lib/exercises";
 
 interface VerificationStatusProps {
   predictionId: number;
   chain: SupportedChain;
-  exerciseType?: string;
+  exerciseType?: ExerciseId;
   requiredAmount?: number;
 }
 
@@ -70,7 +71,9 @@ export default function VerificationStatus({
   return (
     <div className="bg-gray-900 border border-gray-700 rounded p-2">
       <div className="flex items-center justify-between">
-        <div className="text-xs text-gray-300">Verification Progress</div>
+        <div className="text-xs text-gray-300">
+          Verification Progress · {EXERCISES[exerciseType].emoji} {formatExerciseAmount(exerciseType, requiredAmount)}
+        </div>
         <div className="text-xs text-gray-400">{progress}%</div>
       </div>
       <div className="w-full bg-gray-800 h-2 rounded mt-2">
@@ -17,6 +17,8 @@ import {
 import {
   useChainPredictions,
   useCacheInvalidation,
+  useOddsHistories,
+  useRecurringPredictions,
   usePrefetchData,
 } from "@/hooks/use-prediction-queries";
 import { parseEther } from "viem";
@@ -53,6 +55,9 @@ const PredictionMarket: React.FC = () => {
     dataUpdatedAt,
   } = useChainPredictions();
 
+  const { data: oddsHistories = {} } = useOddsHistories();
+  const { data: recurringPredictions = {} } = useRecurringPredictions();
+
   const { invalidatePredictions } = useCacheInvalidation();
   const { prefetchChainPredictions } = usePrefetchData();
 
@@ -69,6 +74,8 @@ const PredictionMarket: React.FC = () => {
     "all"
   );
   const [expandedCards, setExpandedCards] = useState<Set<number>>(new Set());
+  // "momentum": markets whose odds moved most over the last 24h first
+  const [sortBy, setSortBy] = useState<"newest" | "momentum">("newest");
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [successModalData, setSuccessModalData] = useState<{
     type: "stake" | "claim" | "prediction";
@@ -168,6 +175,7 @@ const PredictionMarket: React.FC = () => {
     outcome: cp.outcome as PredictionOutcome,
     createdAt: cp.createdAt,
     autoResolvable: cp.autoResolvable,
+    chain: cp.chain,
   }));
 
   // Last refresh time from React Query
@@ -735,6 +743,24 @@ const PredictionMarket: React.FC = () => {
             </button>
             </div>
 
+            {/* Sort */}
+            <div className="flex justify-center items-center space-x-2 mb-4 text-xs">
+              <span className="text-gray-400">Sort:</span>
+              {(["newest", "momentum"] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setSortBy(option)}
+                  className={`px-3 py-1 rounded transition-colors ${
+                    sortBy === option
+                      ? "bg-purple-600 text-white"
+                      : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+                  }`}
+                >
+                  {option === "newest" ? "Newest" : "🔥 Momentum"}
+                </button>
+              ))}
+            </div>
+
             {isLoading ? (
               <div className="flex justify-center items-center py-12">
                 <div className="loading-spinner"></div>
@@ -756,6 +782,12 @@ const PredictionMarket: React.FC = () => {
                       ? allPredictions
                       : allPredictions.filter((p) => p.chainKey === selectedChain);
 
+                  if (sortBy === "momentum") {
+                    const score = (p: (typeof filteredPredictions)[number]) =>
+                      oddsHistories[`${p.chainKey}:${p.id}`]?.momentum.score ?? 0;
+                    filteredPredictions.sort((a, b) => score(b) - score(a));
+                  }
+
                   if (filteredPredictions.length === 0) {
                     return (
                       <div className="text-center py-8 text-gray-400">
@@ -787,6 +819,12 @@ const PredictionMarket: React.FC = () => {
                           toggleCardExpansion(prediction.id)
                         }
                         chain={prediction.chainKey}
+                        oddsHistory={
+                          oddsHistories[`${prediction.chainKey}:${prediction.id}`]
+                        }
+                        recurring={
+                          recurringPredictions[`${prediction.chainKey}:${prediction.id}`]
+                        }
                       />
                     </div>
                   ));
@@ -963,6 +1001,7 @@ const PredictionMarket: React.FC = () => {
                                           body: JSON.stringify({
                                             action: "resolve",
                                             predictionId: prediction.id,
+                                            chain: prediction.chain,
                                           }),
                                         }
                                       );
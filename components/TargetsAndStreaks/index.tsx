@@ -41,6 +41,8 @@ export default function TargetsAndStreaks({
     streakData,
     isLoading: streaksLoading,
     syncFitnessData,
+    detectedTimezone,
+    updateTimezone,
   } = useFitnessStreaks();
   const [achievements, setAchievements] = useState<Achievement[]>([]);
   const [showConfetti, setShowConfetti] = useState(false);
@@ -297,6 +299,57 @@ export default function TargetsAndStreaks({
         ))}
       </div>
 
+      {/* Streak Freezes */}
+      {streakData && (
+        <div className="border-2 border-cyan-700 p-4 rounded-lg bg-cyan-900 bg-opacity-20 mb-6">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-cyan-300">❄️ Streak Freezes</h3>
+            <span className="text-sm">
+              {streakData.freezeBalance || 0} / {streakData.freezeRules?.max ?? 0}
+            </span>
+          </div>
+          <p className="text-xs text-gray-400 mb-2">
+            Earn one for every {streakData.freezeRules?.earnEveryDays ?? 7}-day
+            streak. A freeze is used automatically if you miss a single day.
+          </p>
+          {(streakData.freezeBalance || 0) < (streakData.freezeRules?.max ?? 0) && (
+            <p className="text-xs text-cyan-200 mb-2">
+              Next freeze in{" "}
+              {(streakData.freezeRules?.earnEveryDays ?? 7) -
+                (streakData.currentStreak % (streakData.freezeRules?.earnEveryDays ?? 7))}{" "}
+              day(s)
+            </p>
+          )}
+          <p className="text-xs text-gray-400 mb-2">
+            Streak days follow the {streakData.timezone || "UTC"} calendar. Older
+            days logged before activity times were recorded stay on the UTC
+            calendar.
+          </p>
+          {detectedTimezone && detectedTimezone !== (streakData.timezone || "UTC") && (
+            <button
+              onClick={() => updateTimezone()}
+              className="mb-2 bg-cyan-700 hover:bg-cyan-600 text-white px-2 py-1 rounded text-xs"
+            >
+              Count days in {detectedTimezone}
+            </button>
+          )}
+          {(streakData.freezeHistory?.length ?? 0) > 0 && (
+            <ul className="text-xs text-gray-300 space-y-1">
+              {streakData.freezeHistory!
+                .slice(-5)
+                .reverse()
+                .map((event, i) => (
+                  <li key={`${event.type}-${event.date}-${i}`}>
+                    {event.type === "earned"
+                      ? `Earned on ${event.date} (${event.streak}-day streak)`
+                      : `Used to cover ${event.date} (kept a ${event.streak}-day streak)`}
+                  </li>
+                ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* NFT/POAP Info */}
       <div className="border-2 border-purple-700 p-4 rounded-lg bg-purple-900 bg-opacity-20 mb-6">
         <h3 className="text-center text-purple-400 mb-2">
@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title FitnessLeaderboardMock
+ * @dev Stand-in for the per-network fitness leaderboards, exposing the same read functions as
+ * fitnessLeaderboardABI. Used by scripts/test against a local Hardhat node; never deployed.
+ */
+contract FitnessLeaderboardMock {
+    struct Score {
+        address user;
+        uint256 pushups;
+        uint256 squats;
+        uint256 timestamp;
+    }
+
+    Score[] private scores;
+
+    function addScore(uint256 _pushups, uint256 _squats) external {
+        scores.push(Score(msg.sender, _pushups, _squats, block.timestamp));
+    }
+
+    function getLeaderboard() external view returns (Score[] memory) {
+        return scores;
+    }
+
+    function getUserScore(address _user) external view returns (Score memory) {
+        for (uint256 i = scores.length; i > 0; i--) {
+            if (scores[i - 1].user == _user) {
+                return scores[i - 1];
+            }
+        }
+        return Score(_user, 0, 0, 0);
+    }
+}
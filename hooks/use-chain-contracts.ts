@@ -1,13 +1,14 @@
 /**
  * Hook for chain-aware contract operations
- * Uses reliable ethers providers directly from dual-chain service
+ * Uses reliable ethers providers directly from dual-chain service; prediction lists come from the
+ * indexed /api/predictions endpoint
  */
 
 import { useCallback } from 'react';
 import {
   getChainUserVote,
   getChainFeeInfo,
-  getAllChainPredictions,
+  type ChainPrediction,
   type SupportedChain
 } from '@/lib/services/dual-chain-service';
 
@@ -28,8 +29,13 @@ export function useChainContracts() {
     return getChainFeeInfo(chain);
   }, []);
 
-  const getAllPredictions = useCallback(async () => {
-    return getAllChainPredictions();
+  const getAllPredictions = useCallback(async (): Promise<ChainPrediction[]> => {
+    const response = await fetch('/api/predictions');
+    if (!response.ok) {
+      throw new Error('Failed to fetch predictions');
+    }
+    const data = await response.json();
+    return data.predictions || [];
   }, []);
 
   return {
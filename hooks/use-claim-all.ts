@@ -0,0 +1,130 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useReducer, useRef } from "react";
+import { useAccount, useConfig, useWriteContract } from "wagmi";
+import { waitForTransactionReceipt } from "wagmi/actions";
+import { toast } from "react-hot-toast";
+import { CHAIN_CONFIG, type SupportedChain } from "@/lib/services/dual-chain-service";
+import { predictionMarketABI } from "@/lib/constants";
+import {
+  claimQueueReducer,
+  createClaimQueue,
+  isAlreadyClaimedError,
+  isUserRejection,
+  nextClaimStep,
+  summarizeClaimQueue,
+} from "@/lib/claims/queue";
+import { useCacheInvalidation, useClaimPlan } from "./use-prediction-queries";
+
+function chainForId(chainId?: number): SupportedChain | null {
+  const entry = Object.entries(CHAIN_CONFIG).find(([, config]) => config.id === chainId);
+  return entry ? (entry[0] as SupportedChain) : null;
+}
+
+/**
+ * Claims every unclaimed reward in the wallet's claim plan, one transaction at a time,
+ * pausing for a network switch between chains
+ */
+export function useClaimAll() {
+  const { address, chain } = useAccount();
+  const config = useConfig();
+  const { writeContractAsync } = useWriteContract();
+  const { data: plan, isLoading, refetch } = useClaimPlan();
+  const { invalidateUserData } = useCacheInvalidation();
+  const [state, dispatch] = useReducer(claimQueueReducer, null, createClaimQueue);
+
+  // Key of the claim being sent, so a re-run effect (e.g. React strict mode) can't send it twice
+  const inFlight = useRef<string | null>(null);
+
+  useEffect(() => {
+    dispatch({ type: "load", plan: plan ?? null });
+  }, [plan]);
+
+  const walletChain = chainForId(chain?.id);
+  const step = useMemo(() => nextClaimStep(state, walletChain), [state, walletChain]);
+  const summary = useMemo(() => summarizeClaimQueue(state), [state]);
+
+  useEffect(() => {
+    if (step.kind === "switch" && state.awaitingChain !== step.chain) {
+      dispatch({ type: "awaitChain", chain: step.chain });
+    }
+  }, [step, state.awaitingChain]);
+
+  useEffect(() => {
+    if (step.kind !== "claim") return;
+
+    const { item } = step;
+    const key = `${item.chain}:${item.predictionId}:${item.attempts}`;
+    if (inFlight.current === key) return;
+    inFlight.current = key;
+
+    const target = CHAIN_CONFIG[item.chain];
+    dispatch({ type: "submitting", chain: item.chain, predictionId: item.predictionId });
+
+    (async () => {
+      try {
+        const hash = await writeContractAsync({
+          address: target.contractAddress as `0x${string}`,
+          abi: predictionMarketABI,
+          functionName: "claimReward",
+          args: [BigInt(item.predictionId)],
+          chainId: target.id,
+        });
+        dispatch({ type: "submitted", chain: item.chain, predictionId: item.predictionId, txHash: hash });
+
+        const receipt = await waitForTransactionReceipt(config, { hash, chainId: target.id });
+        if (receipt.status !== "success") {
+          throw new Error("Claim transaction reverted");
+        }
+        dispatch({ type: "claimed", chain: item.chain, predictionId: item.predictionId });
+      } catch (error: any) {
+        const message = error?.shortMessage || error?.message || "Claim failed";
+        console.error(`Claim failed for ${item.chain} prediction ${item.predictionId}:`, error);
+
+        if (isAlreadyClaimedError(message)) {
+          dispatch({ type: "claimed", chain: item.chain, predictionId: item.predictionId });
+        } else {
+          dispatch({
+            type: "failed",
+            chain: item.chain,
+            predictionId: item.predictionId,
+            error: message,
+            stop: isUserRejection(message),
+          });
+        }
+      }
+    })();
+  }, [step, config, writeContractAsync]);
+
+  // Finished: report the outcome and refresh the wallet's votes, portfolio and plan
+  useEffect(() => {
+    if (!state.running || summary.remaining > 0) return;
+
+    dispatch({ type: "stop" });
+    if (summary.failed > 0) {
+      toast.error(`${summary.claimed} claimed, ${summary.failed} failed - you can retry the failed claims`);
+    } else if (summary.claimed > 0) {
+      toast.success(`Claimed ${summary.claimed} reward${summary.claimed === 1 ? "" : "s"}`);
+    }
+    if (address) {
+      invalidateUserData(address);
+    }
+  }, [state.running, summary, address, invalidateUserData]);
+
+  const claimAll = useCallback(() => dispatch({ type: "start" }), []);
+  const retryFailed = useCallback(() => dispatch({ type: "retryFailed" }), []);
+  const stop = useCallback(() => dispatch({ type: "stop" }), []);
+
+  return {
+    plan: plan ?? null,
+    isLoading,
+    refresh: refetch,
+    state,
+    step,
+    summary,
+    walletChain,
+    claimAll,
+    retryFailed,
+    stop,
+  };
+}
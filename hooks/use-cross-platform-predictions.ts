@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import type { CrossPlatformData } from '@/lib/sports-central/types';
 
 // Types for cross-platform predictions
 interface CrossPlatformPrediction {
@@ -45,7 +46,7 @@ export const useCrossPlatformPredictions = () => {
  * Custom hook for fetching sports central data
  */
 export const useSportsCentralData = () => {
-  return useQuery({
+  return useQuery<CrossPlatformData>({
     queryKey: ['sports-central-data'],
     queryFn: async () => {
       const response = await fetch('/api/sports-central');
@@ -122,8 +123,8 @@ export const useEnhancedVerification = () => {
     setIsVerifying(true);
     try {
       // Import the verification function from the enhanced oracle system
-      const { verifyBNBExerciseCompletion } = await import('@/lib/enhanced-oracle-system');
-      const result = await verifyBNBExerciseCompletion(userId, exerciseType, requiredAmount);
+      const { verifyExerciseCompletion } = await import('@/lib/enhanced-oracle-system');
+      const result = await verifyExerciseCompletion(userId, exerciseType, requiredAmount);
       setVerificationResult(result);
       return result;
     } catch (error) {
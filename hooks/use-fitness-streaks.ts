@@ -1,12 +1,16 @@
 "use client";
 
 import { useState, useEffect, useCallback, useMemo } from "react";
+import { useSignMessage } from "wagmi";
 import { UserStreak } from "@/lib/streaks-service-pg";
 import { UserFitnessData } from "@/lib/fitness-sync-service";
 import { useAppUser } from "@/contexts/unified-app-context";
+import { detectUserTimezone } from "@/lib/services/timezone-service";
+import { buildTimezoneMessage } from "@/lib/streak-signatures";
 
 interface EnhancedStreakData extends UserStreak {
   fitnessData?: UserFitnessData | null;
+  freezeRules?: { earnEveryDays: number; max: number };
 }
 
 interface UseFitnessStreaksReturn {
@@ -15,6 +19,8 @@ interface UseFitnessStreaksReturn {
   error: string | null;
   refreshStreaks: (sync?: boolean, fid?: string) => Promise<void>;
   syncFitnessData: (fid?: string) => Promise<void>;
+  detectedTimezone: string | null;
+  updateTimezone: () => Promise<void>;
 }
 
 /**
@@ -25,6 +31,8 @@ export function useFitnessStreaks(): UseFitnessStreaksReturn {
   const [streakData, setStreakData] = useState<EnhancedStreakData | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [detectedTimezone, setDetectedTimezone] = useState<string | null>(null);
+  const { signMessageAsync } = useSignMessage();
   
   // Memoize the current FID to prevent unnecessary rerenders
   const currentFid = useMemo(() => getFid(), [getFid]);
@@ -145,6 +153,44 @@ export function useFitnessStreaks(): UseFitnessStreaksReturn {
     }
   }, [refreshStreaks]);
 
+  // Move streak days to the browser's local calendar; the wallet signs since it recounts the streak
+  const updateTimezone = useCallback(async () => {
+    setError(null);
+
+    try {
+      const userFid = getFid();
+      const timezone = await detectUserTimezone();
+      if (!userFid || !timezone) {
+        throw new Error("No user FID or timezone available");
+      }
+
+      const issuedAt = Math.floor(Date.now() / 1000);
+      const signature = await signMessageAsync({
+        message: buildTimezoneMessage({ fid: String(userFid), timezone, issuedAt }),
+      });
+      const response = await fetch("/api/streaks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fid: userFid, timezone, issuedAt, signature }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to update timezone: ${response.status}`);
+      }
+
+      await refreshStreaks(false, userFid);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to update timezone";
+      setError(errorMessage);
+      console.error("Error updating timezone:", err);
+    }
+  }, [getFid, signMessageAsync, refreshStreaks]);
+
+  // Streak days are counted in the user's local calendar, so offer to switch when it differs
+  useEffect(() => {
+    detectUserTimezone().then(setDetectedTimezone).catch(() => setDetectedTimezone(null));
+  }, []);
+
   // Load initial data when we have a Farcaster user
   useEffect(() => {
     if (isFarcasterUser && currentFid) {
@@ -159,6 +205,8 @@ export function useFitnessStreaks(): UseFitnessStreaksReturn {
     error,
     refreshStreaks,
     syncFitnessData,
+    detectedTimezone,
+    updateTimezone,
   };
 }
 
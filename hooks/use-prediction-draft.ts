@@ -0,0 +1,117 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { toast } from "react-hot-toast";
+import type { DraftField, DraftTransaction, PredictionDraft } from "@/lib/prediction-draft";
+
+interface DraftResponse {
+  success: boolean;
+  draft?: PredictionDraft | null;
+  transaction?: DraftTransaction;
+  error?: string;
+}
+
+async function callDraftApi(method: "GET" | "PATCH" | "POST", body?: Record<string, unknown>): Promise<{ status: number; data: DraftResponse }> {
+  const response = await fetch(
+    method === "GET" ? `/api/bot/draft?conversationId=${encodeURIComponent(String(body?.conversationId))}` : "/api/bot/draft",
+    method === "GET"
+      ? undefined
+      : { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }
+  );
+  return { status: response.status, data: await response.json() };
+}
+
+/**
+ * The chat's prediction draft: set from the bot's replies, edited and confirmed from the draft card.
+ * Every change goes through /api/bot/draft so the bot's copy stays the one the user sees
+ */
+export function usePredictionDraft(conversationId: string) {
+  const [draft, setDraft] = useState<PredictionDraft | null>(null);
+  const [saving, setSaving] = useState<DraftField | "confirm" | null>(null);
+
+  // The bot replaced the draft since the card rendered: show the bot's version instead
+  const reload = useCallback(async () => {
+    const { data } = await callDraftApi("GET", { conversationId });
+    setDraft(data.draft ?? null);
+  }, [conversationId]);
+
+  const handleFailure = useCallback(async (status: number, error?: string) => {
+    if (status === 409) {
+      toast.error("The bot updated this draft; showing the latest version");
+      await reload();
+    } else if (status === 404) {
+      toast.error("This draft is no longer active");
+      setDraft(null);
+    } else {
+      toast.error(error || "Could not update the draft");
+    }
+  }, [reload]);
+
+  const editField = useCallback(async (field: DraftField, value: string | number) => {
+    if (!draft) return;
+    setSaving(field);
+    try {
+      const { status, data } = await callDraftApi("PATCH", { conversationId, draftId: draft.id, field, value });
+      if (data.success && data.draft) {
+        setDraft(data.draft);
+      } else {
+        await handleFailure(status, data.error);
+      }
+    } catch (error) {
+      console.error("Draft edit failed:", error);
+      toast.error("Could not update the draft");
+    } finally {
+      setSaving(null);
+    }
+  }, [conversationId, draft, handleFailure]);
+
+  /**
+   * Confirm the draft; returns the transaction for the wallet, or null if the bot refused it
+   */
+  const confirm = useCallback(async (): Promise<DraftTransaction | null> => {
+    if (!draft) return null;
+    setSaving("confirm");
+    try {
+      const { status, data } = await callDraftApi("POST", { conversationId, action: "confirm", draftId: draft.id });
+      if (data.success && data.transaction) {
+        return data.transaction;
+      }
+      await handleFailure(status, data.error);
+      return null;
+    } catch (error) {
+      console.error("Draft confirm failed:", error);
+      toast.error("Could not confirm the draft");
+      return null;
+    } finally {
+      setSaving(null);
+    }
+  }, [conversationId, draft, handleFailure]);
+
+  const discard = useCallback(async () => {
+    setDraft(null);
+    try {
+      await callDraftApi("POST", { conversationId, action: "discard" });
+    } catch (error) {
+      console.error("Draft discard failed:", error);
+    }
+  }, [conversationId]);
+
+  /**
+   * Bring back a draft the bot no longer holds (confirmed, but the wallet didn't create it)
+   */
+  const restore = useCallback(async (previous: PredictionDraft) => {
+    try {
+      const { status, data } = await callDraftApi("POST", { conversationId, action: "restore", draft: previous });
+      if (data.success && data.draft) {
+        setDraft(data.draft);
+      } else {
+        await handleFailure(status, data.error);
+      }
+    } catch (error) {
+      console.error("Draft restore failed:", error);
+      toast.error("Could not restore the draft");
+    }
+  }, [conversationId, handleFailure]);
+
+  return { draft, setDraft, saving, editField, confirm, discard, restore };
+}
@@ -7,6 +7,10 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAccount } from 'wagmi';
 import { type ChainPrediction } from '@/lib/services/dual-chain-service';
 import { type Prediction } from '@/lib/prediction-market-v2';
+import type { Portfolio } from '@/lib/services/portfolio-service';
+import type { ClaimPlan } from '@/lib/claims/types';
+import type { OddsHistory } from '@/lib/prediction-index/types';
+import type { RecurringPredictionInfo } from '@/lib/prediction-templates/types';
 import { sendMessageToBot, getBotStatus } from '@/components/PredictionMarket/XMTPIntegration';
 import { useChainContracts } from './use-chain-contracts';
 
@@ -17,6 +21,10 @@ export const QUERY_KEYS = {
   CROSS_PLATFORM_PREDICTIONS: ['cross-platform-predictions'] as const,
   BOT_STATUS: ['bot-status'] as const,
   USER_VOTES: (address: string) => ['user-votes', address] as const,
+  PORTFOLIO: (address: string) => ['portfolio', address] as const,
+  CLAIMS: (address: string) => ['claims', address] as const,
+  ODDS_HISTORIES: ['odds-histories'] as const,
+  RECURRING_PREDICTIONS: ['recurring-predictions'] as const,
   CONVERSATION_HISTORY: (conversationId: string) => ['conversation-history', conversationId] as const,
   PREDICTION_STATS: (predictionId: number) => ['prediction-stats', predictionId] as const,
 } as const;
@@ -107,6 +115,44 @@ export function useChainPredictions(network?: string) {
   });
 }
 
+/**
+ * Hook for every market's odds history (sparklines and the momentum sort), keyed "chain:id"
+ */
+export function useOddsHistories() {
+  return useQuery({
+    queryKey: QUERY_KEYS.ODDS_HISTORIES,
+    queryFn: async (): Promise<Record<string, OddsHistory>> => {
+      const response = await fetch('/api/predictions/odds?points=24');
+      if (!response.ok) {
+        throw new Error('Failed to fetch odds history');
+      }
+      const data = await response.json();
+      const histories: OddsHistory[] = data.histories || [];
+      return Object.fromEntries(histories.map(h => [`${h.chain}:${h.predictionId}`, h]));
+    },
+    ...CACHE_CONFIG.PREDICTIONS,
+  });
+}
+
+/**
+ * Hook for predictions created from recurring templates, with the track record before each, keyed "chain:id"
+ */
+export function useRecurringPredictions() {
+  return useQuery({
+    queryKey: QUERY_KEYS.RECURRING_PREDICTIONS,
+    queryFn: async (): Promise<Record<string, RecurringPredictionInfo>> => {
+      const response = await fetch('/api/predictions/templates?view=recurring');
+      if (!response.ok) {
+        throw new Error('Failed to fetch recurring predictions');
+      }
+      const data = await response.json();
+      const recurring: RecurringPredictionInfo[] = data.data?.recurring || [];
+      return Object.fromEntries(recurring.map(r => [`${r.chain}:${r.predictionId}`, r]));
+    },
+    ...CACHE_CONFIG.PREDICTIONS,
+  });
+}
+
 /**
  * Hook for bot status with real-time updates
  */
@@ -144,6 +190,52 @@ export function useUserVotes() {
   });
 }
 
+/**
+ * Hook for the connected wallet's portfolio (positions, P&L and unclaimed rewards per chain)
+ */
+export function usePortfolio() {
+  const { address } = useAccount();
+
+  return useQuery({
+    queryKey: address ? QUERY_KEYS.PORTFOLIO(address) : ['portfolio', 'no-address'],
+    queryFn: async (): Promise<Portfolio | null> => {
+      if (!address) return null;
+
+      const response = await fetch(`/api/portfolio?address=${address}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch portfolio');
+      }
+      const data = await response.json();
+      return data.portfolio;
+    },
+    enabled: !!address,
+    ...CACHE_CONFIG.USER_DATA,
+  });
+}
+
+/**
+ * Hook for the connected wallet's unclaimed rewards, grouped per chain
+ */
+export function useClaimPlan() {
+  const { address } = useAccount();
+
+  return useQuery({
+    queryKey: address ? QUERY_KEYS.CLAIMS(address) : ['claims', 'no-address'],
+    queryFn: async (): Promise<ClaimPlan | null> => {
+      if (!address) return null;
+
+      const response = await fetch(`/api/claims?address=${address}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch claimable rewards');
+      }
+      const data = await response.json();
+      return data.plan;
+    },
+    enabled: !!address,
+    ...CACHE_CONFIG.USER_DATA,
+  });
+}
+
 /**
  * Hook for conversation history with message-level caching
  */
@@ -311,6 +403,7 @@ export function useVoteMutation() {
       
       if (address) {
         queryClient.invalidateQueries({ queryKey: QUERY_KEYS.USER_VOTES(address) });
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.PORTFOLIO(address) });
       }
     },
   });
@@ -326,12 +419,15 @@ export function useCacheInvalidation() {
     invalidatePredictions: () => {
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.PREDICTIONS });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.CHAIN_PREDICTIONS });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.ODDS_HISTORIES });
     },
     invalidateCrossPlatformPredictions: () => {
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.CROSS_PLATFORM_PREDICTIONS });
     },
     invalidateUserData: (address: string) => {
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.USER_VOTES(address) });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.PORTFOLIO(address) });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.CLAIMS(address) });
     },
     invalidateConversation: (conversationId: string) => {
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.CONVERSATION_HISTORY(conversationId) });
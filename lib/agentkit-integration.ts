@@ -9,6 +9,8 @@
  * - Basenames integration
  */
 
+import { describeExercisesForPrompt, findExerciseMention, formatExerciseAmount } from "./exercises";
+
 // AgentKit imports - SERVER SIDE ONLY
 let AgentKit: any;
 
@@ -219,6 +221,9 @@ IMPORTANT: Always respond with a structured prediction proposal that includes:
 5. Network: Always use "base" for Base Sepolia
 6. A wallet trigger comment for the frontend with proper chainId
 
+SUPPORTED EXERCISES (distance targets are in meters):
+${describeExercisesForPrompt()}
+
 CRITICAL DATE HANDLING:
 - Current date: ${new Date().toISOString().split("T")[0]}
 - For "October 1st, 2025" use timestamp: ${Math.floor(
@@ -486,15 +491,13 @@ Ready to create your prediction?`,
     message: string
   ): Promise<string> {
     // Parse basic info from message
-    const exerciseMatch = message.match(
-      /(\d+)\s*(pushups?|pressups?|situps?|squats?|pullups?)/i
-    );
+    const exercise = findExerciseMention(message);
     const dateMatch = message.match(/(by|until)\s*([^,\n]+)/i);
 
-    const targetValue = exerciseMatch ? parseInt(exerciseMatch[1]) : 100;
-    const exerciseType = exerciseMatch
-      ? exerciseMatch[2].toLowerCase()
-      : "exercises";
+    const targetValue = exercise?.amount ? Math.round(exercise.amount) : 100;
+    const target = exercise
+      ? formatExerciseAmount(exercise.exercise.id, targetValue)
+      : `${targetValue} exercises`;
     const dateStr = dateMatch ? dateMatch[2].trim() : "30 days from now";
 
     // Calculate target date with better parsing
@@ -532,15 +535,15 @@ Ready to create your prediction?`,
       }
     }
 
-    const title = `${targetValue} ${exerciseType} challenge`;
-    const description = `Complete ${targetValue} ${exerciseType} ${dateStr}`;
+    const title = `${target} challenge`;
+    const description = `Complete ${target} ${dateStr}`;
 
     return `**🎯 Prediction Proposal** (AgentKit Generated)
 
 **Title:** ${title}
 **Description:** ${description}
 **Target Date:** ${dateStr}
-**Target Value:** ${targetValue} ${exerciseType}
+**Target Value:** ${target}
 **Network:** Base Sepolia or CELO Mainnet
 **Estimated Cost:** Small gas fee (paid by your wallet)
 
@@ -550,7 +553,7 @@ Ready to create your prediction?`,
 • Cross-chain exercise verification
 • Automatic address resolution
 
-<!-- WALLET_TRIGGER:{"title":"${title}","description":"${description}","targetDate":${targetDate},"targetValue":${targetValue},"category":0,"network":"base","chainId":8453,"emoji":"💪","autoResolvable":false,"contractAddress":"0x0c38f4bd68d3f295F1C38eED3af96328Ce4CE2dB"} -->
+<!-- WALLET_TRIGGER:{"title":"${title}","description":"${description}","targetDate":${targetDate},"targetValue":${targetValue},"category":0,"network":"base","chainId":8453,"emoji":"${exercise?.exercise.emoji ?? "💪"}","autoResolvable":false,"contractAddress":"0x0c38f4bd68d3f295F1C38eED3af96328Ce4CE2dB"} -->
 
 Ready to create your prediction?`;
   }
@@ -0,0 +1,106 @@
+/**
+ * Conversation Drafts
+ * Edits the chat's draft card makes outside a bot turn. They land on the same draft the agent reads
+ * from conversation memory, so the next message to the bot sees the user's changes
+ */
+
+import { getConversationMemoryService } from '../conversation-memory';
+import { getResolutionCriteriaService } from '../resolution-criteria';
+import { EDITABLE_DRAFT_FIELDS, type DraftField, type DraftTransaction, type PredictionDraft } from '../prediction-draft';
+import { draftToTransaction, editDraft, parseDraftValue, restoreDraft } from './draft';
+
+export type DraftSyncResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; reason: 'missing' | 'stale' | 'invalid'; error: string };
+
+async function loadDraft(conversationId: string, draftId: string): Promise<DraftSyncResult<PredictionDraft>> {
+  const { draft } = await getConversationMemoryService().get(conversationId);
+  if (!draft) {
+    return { ok: false, reason: 'missing', error: 'There is no draft in this conversation' };
+  }
+  // The bot may have replaced the draft since the card was rendered
+  if (draft.id !== draftId) {
+    return { ok: false, reason: 'stale', error: 'The draft has changed; reload it before editing' };
+  }
+  return { ok: true, value: draft };
+}
+
+export async function getConversationDraft(conversationId: string): Promise<PredictionDraft | null> {
+  return (await getConversationMemoryService().get(conversationId)).draft ?? null;
+}
+
+/**
+ * Set one field from the card; the value is parsed like a tool argument and marked as the user's
+ */
+export async function editConversationDraft(
+  conversationId: string,
+  draftId: string,
+  field: string,
+  value: unknown
+): Promise<DraftSyncResult<PredictionDraft>> {
+  if (!EDITABLE_DRAFT_FIELDS.includes(field as DraftField)) {
+    return { ok: false, reason: 'invalid', error: `field must be one of: ${EDITABLE_DRAFT_FIELDS.join(', ')}` };
+  }
+
+  const loaded = await loadDraft(conversationId, draftId);
+  if (!loaded.ok) {
+    return loaded;
+  }
+
+  let draft: PredictionDraft;
+  try {
+    draft = editDraft(loaded.value, field as DraftField, parseDraftValue(field as DraftField, value) as never, 'user');
+  } catch (error) {
+    return { ok: false, reason: 'invalid', error: error instanceof Error ? error.message : String(error) };
+  }
+
+  await getConversationMemoryService().update(conversationId, { draft, awaitingConfirmation: true });
+  return { ok: true, value: draft };
+}
+
+/**
+ * Confirm from the card: the draft leaves the conversation and its transaction goes to the wallet
+ */
+export async function confirmConversationDraft(
+  conversationId: string,
+  draftId: string
+): Promise<DraftSyncResult<DraftTransaction>> {
+  const loaded = await loadDraft(conversationId, draftId);
+  if (!loaded.ok) {
+    return loaded;
+  }
+  if (!loaded.value.validation.isValid) {
+    return { ok: false, reason: 'invalid', error: `The draft is not valid yet: ${loaded.value.validation.errors.join('; ')}` };
+  }
+
+  const { resolution } = loaded.value.fields;
+  if (resolution) {
+    await getResolutionCriteriaService().register(resolution);
+  }
+
+  await getConversationMemoryService().update(conversationId, { draft: undefined, awaitingConfirmation: false });
+  return { ok: true, value: draftToTransaction(loaded.value) };
+}
+
+export async function discardConversationDraft(conversationId: string): Promise<void> {
+  await getConversationMemoryService().update(conversationId, { draft: undefined, awaitingConfirmation: false });
+}
+
+/**
+ * Put a draft the chat still has back into the conversation, e.g. after the wallet rejected its
+ * transaction; it is re-parsed and re-validated rather than trusted
+ */
+export async function restoreConversationDraft(
+  conversationId: string,
+  input: unknown
+): Promise<DraftSyncResult<PredictionDraft>> {
+  let draft: PredictionDraft;
+  try {
+    draft = restoreDraft(input);
+  } catch (error) {
+    return { ok: false, reason: 'invalid', error: error instanceof Error ? error.message : String(error) };
+  }
+
+  await getConversationMemoryService().update(conversationId, { draft, awaitingConfirmation: true });
+  return { ok: true, value: draft };
+}
@@ -0,0 +1,406 @@
+/**
+ * Prediction Draft Operations
+ * Server side of lib/prediction-draft: fields parsed from tool arguments, card edits or a free-text
+ * proposal, tagged with where they came from and re-validated with validatePrediction on every change,
+ * so the user never sees an unchecked draft
+ */
+
+import { EXERCISES, findPredictedExercise } from '../exercises';
+import {
+  DRAFT_CATEGORIES,
+  DRAFT_CATEGORY_NAMES,
+  DRAFT_FIELD_LABELS,
+  EDITABLE_DRAFT_FIELDS,
+  issuesByField,
+  type DraftCategory,
+  type DraftField,
+  type DraftProvenance,
+  type DraftTransaction,
+  type PredictionDraft,
+  type PredictionDraftFields,
+} from '../prediction-draft';
+import { validatePrediction } from '../prediction-validation';
+import {
+  commitCriteria,
+  describeResolutionCriteria,
+  hashResolutionCriteria,
+  inferResolutionCriteria,
+  parseResolutionCriteria,
+} from '../resolution-criteria/criteria';
+import type { ResolutionCriteria } from '../resolution-criteria/types';
+import { CHAIN_CONFIG, type SupportedChain } from '../services/dual-chain-service';
+
+export const DEFAULT_DRAFT_EMOJI: Record<DraftCategory, string> = { 0: '💪', 1: '⛓️', 2: '🤝', 3: '🔮' };
+
+function parseText(field: string, value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${field} must be non-empty text`);
+  }
+  return value.trim();
+}
+
+/**
+ * "2025-08-01" (end of that day, UTC), any ISO 8601 date-time, or Unix seconds
+ */
+export function parseDraftDate(value: unknown): number {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return Math.floor(value > 1e12 ? value / 1000 : value);
+  }
+
+  if (typeof value === 'string') {
+    const dateOnly = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    const ms = dateOnly
+      ? Date.UTC(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]), 23, 59, 59)
+      : Date.parse(value);
+    if (Number.isFinite(ms)) {
+      return Math.floor(ms / 1000);
+    }
+  }
+
+  throw new Error('targetDate must be an ISO 8601 date such as 2025-08-01');
+}
+
+/**
+ * Convert a tool argument to a draft field's type; throws with a message the model can act on
+ */
+export function parseDraftValue<F extends DraftField>(field: F, value: unknown): PredictionDraftFields[F] {
+  let parsed: unknown;
+
+  switch (field) {
+    case 'title':
+    case 'description':
+    case 'emoji':
+    case 'targetUser':
+    case 'targetAddress':
+      parsed = parseText(field, value);
+      break;
+    case 'targetDate':
+      parsed = parseDraftDate(value);
+      break;
+    case 'targetValue': {
+      const amount = typeof value === 'string' ? Number(value.replace(/,/g, '')) : value;
+      if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+        throw new Error('targetValue must be a number of zero or more');
+      }
+      parsed = Math.round(amount);
+      break;
+    }
+    case 'category': {
+      const category = typeof value === 'string' ? DRAFT_CATEGORIES[value.toLowerCase()] : value;
+      if (category !== 0 && category !== 1 && category !== 2 && category !== 3) {
+        throw new Error(`category must be one of: ${Object.keys(DRAFT_CATEGORIES).join(', ')}`);
+      }
+      parsed = category;
+      break;
+    }
+    case 'resolution':
+      parsed = parseResolutionCriteria(value);
+      break;
+    case 'chain':
+      if (typeof value !== 'string' || !(value in CHAIN_CONFIG)) {
+        throw new Error(`chain must be one of: ${Object.keys(CHAIN_CONFIG).join(', ')}`);
+      }
+      parsed = value as SupportedChain;
+      break;
+    default:
+      throw new Error(`Unknown draft field: ${String(field)}`);
+  }
+
+  return parsed as PredictionDraftFields[F];
+}
+
+function validateDraftFields(fields: PredictionDraftFields) {
+  const validation = validatePrediction({
+    title: fields.title,
+    description: fields.description,
+    targetDate: fields.targetDate ?? undefined,
+    targetValue: fields.targetValue,
+    category: fields.category,
+    network: fields.chain as Parameters<typeof validatePrediction>[0]['network'],
+    emoji: fields.emoji,
+    autoResolvable: false,
+    resolution: fields.resolution,
+  });
+
+  // Criteria about the creator can't check a prediction about someone else
+  const { resolution, targetUser } = fields;
+  if (resolution?.source === 'fitness' && resolution.subject.type === 'creator' && targetUser) {
+    validation.errors.push(`Resolution criteria count the creator's exercise, not ${targetUser}'s: resolve ${targetUser} to an address`);
+    validation.isValid = false;
+  }
+
+  return { validation, fieldIssues: issuesByField(validation) };
+}
+
+/**
+ * Criteria after a field edit: the edited deadline, target or subject carries over into them, and a
+ * category change starts again from what can be inferred
+ */
+function followFieldEdit(
+  current: ResolutionCriteria | undefined,
+  field: DraftField,
+  fields: PredictionDraftFields
+): ResolutionCriteria | undefined {
+  const source = fields.category === DRAFT_CATEGORIES.fitness ? 'fitness' : fields.category === DRAFT_CATEGORIES.chain ? 'price' : null;
+  if (!current || current.source !== source) {
+    return inferResolutionCriteria(fields) ?? undefined;
+  }
+
+  const { targetDate, targetValue, targetAddress } = fields;
+  if (current.source === 'price') {
+    return {
+      ...current,
+      at: field === 'targetDate' && targetDate ? targetDate : current.at,
+      value: field === 'targetValue' && targetValue > 0 ? targetValue : current.value,
+    };
+  }
+
+  let subject = current.subject;
+  if (field === 'targetAddress' && targetAddress) {
+    subject = { type: 'address', address: targetAddress.toLowerCase() };
+  } else if (field === 'targetUser') {
+    subject = { type: 'creator' }; // Until the new name is resolved
+  }
+  return {
+    ...current,
+    subject,
+    window: { ...current.window, end: field === 'targetDate' && targetDate ? targetDate : current.window.end },
+    value: field === 'targetValue' && targetValue > 0 && EXERCISES[current.exercise].unit === 'reps' ? targetValue : current.value,
+  };
+}
+
+export function createDraft(
+  fields: PredictionDraftFields,
+  provenance: PredictionDraft['provenance'],
+  now: number = Date.now()
+): PredictionDraft {
+  // Criteria the bot didn't give are inferred where the fields allow it
+  if (!fields.resolution) {
+    const inferred = inferResolutionCriteria(fields);
+    if (inferred) {
+      fields = { ...fields, resolution: inferred };
+      provenance = { ...provenance, resolution: 'inferred' };
+    }
+  }
+
+  return {
+    id: `draft_${now}_${Math.random().toString(36).slice(2, 8)}`,
+    fields,
+    provenance,
+    ...validateDraftFields(fields),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function editDraft<F extends DraftField>(
+  draft: PredictionDraft,
+  field: F,
+  value: PredictionDraftFields[F],
+  provenance: DraftProvenance,
+  now: number = Date.now()
+): PredictionDraft {
+  const fields = { ...draft.fields, [field]: value };
+  const sources = { ...draft.provenance, [field]: provenance };
+  // A new target means any earlier address resolution no longer applies
+  if (field === 'targetUser') {
+    delete fields.targetAddress;
+    delete sources.targetAddress;
+  }
+  if (field !== 'resolution') {
+    const resolution = followFieldEdit(draft.fields.resolution, field, fields);
+    if (resolution !== draft.fields.resolution) {
+      fields.resolution = resolution;
+      if (resolution && !draft.fields.resolution) {
+        sources.resolution = 'inferred';
+      } else if (!resolution) {
+        delete sources.resolution;
+      }
+    }
+  }
+  return { ...draft, fields, provenance: sources, ...validateDraftFields(fields), updatedAt: now };
+}
+
+const PROVENANCES: DraftProvenance[] = ['user', 'inferred', 'default'];
+
+/**
+ * Rebuild a draft sent back by a client: every field is parsed again and the draft re-validated,
+ * so nothing unchecked reaches the store
+ */
+export function restoreDraft(input: unknown, now: number = Date.now()): PredictionDraft {
+  const draft = input as Partial<PredictionDraft> | null;
+  if (!draft || typeof draft !== 'object' || !draft.fields || typeof draft.fields !== 'object') {
+    throw new Error('Draft must have fields');
+  }
+
+  const raw = draft.fields as unknown as Record<string, unknown>;
+  const optionalText = (field: 'targetUser' | 'targetAddress') =>
+    raw[field] ? parseDraftValue(field, raw[field]) : undefined;
+  const fields: PredictionDraftFields = {
+    title: parseDraftValue('title', raw.title),
+    description: parseDraftValue('description', raw.description),
+    targetDate: raw.targetDate === null || raw.targetDate === undefined ? null : parseDraftValue('targetDate', raw.targetDate),
+    targetValue: parseDraftValue('targetValue', raw.targetValue ?? 0),
+    category: parseDraftValue('category', raw.category),
+    chain: parseDraftValue('chain', raw.chain),
+    emoji: parseDraftValue('emoji', raw.emoji),
+    targetUser: optionalText('targetUser'),
+    targetAddress: optionalText('targetAddress'),
+    resolution: raw.resolution ? parseDraftValue('resolution', raw.resolution) : undefined,
+  };
+
+  const provenance: PredictionDraft['provenance'] = {};
+  for (const [field, source] of Object.entries(draft.provenance ?? {})) {
+    if (field in fields && PROVENANCES.includes(source as DraftProvenance)) {
+      provenance[field as DraftField] = source as DraftProvenance;
+    }
+  }
+
+  return {
+    id: typeof draft.id === 'string' ? draft.id : `draft_${now}`,
+    fields,
+    provenance,
+    ...validateDraftFields(fields),
+    createdAt: typeof draft.createdAt === 'number' ? draft.createdAt : now,
+    updatedAt: now,
+  };
+}
+
+// Dates a free-text proposal might use: "by August 1st, 2025", "01.08.2025", "08/01/2025", "August 1, 2025"
+const PROPOSAL_DATE_PATTERNS = [
+  /by\s+(\w+\s+\d{1,2},?\s+\d{4})/i,
+  /(\d{1,2}\.\d{1,2}\.\d{4})/i,
+  /(\d{1,2}\/\d{1,2}\/\d{4})/i,
+  /(\w+\s+\d{1,2},?\s+\d{4})/i,
+];
+
+/**
+ * Draft from a free-text "Proposed Prediction" (bot replies from before the agent). Whatever the text
+ * doesn't say is marked as a default, and a missing deadline is left for the user to set
+ */
+export function draftFromProposalText(
+  proposal: string,
+  defaultChain: SupportedChain,
+  now: number = Date.now()
+): PredictionDraft {
+  const provenance: PredictionDraft['provenance'] = {};
+  const found = <T>(field: DraftField, value: T | null | undefined, fallback: T): T => {
+    provenance[field] = value === null || value === undefined ? 'default' : 'inferred';
+    return value ?? fallback;
+  };
+
+  const titleMatch = proposal.match(/\*\*Proposed Prediction:\*\*\s*([^\n*]+)/i) ||
+    proposal.match(/Proposed Prediction:\s*([^\n]+)/i);
+  const title = found('title', titleMatch?.[1].replace(/\*+/g, '').trim() || null, 'AI-Generated Prediction');
+
+  const descriptionMatch = proposal.match(/\*\*Description:\*\*\s*([^\n*]+)/i) ||
+    proposal.match(/Description:\s*([^\n]+)/i);
+  const description = found('description', descriptionMatch?.[1].trim() || null, title);
+
+  let targetDate: number | null = null;
+  for (const pattern of PROPOSAL_DATE_PATTERNS) {
+    const parsed = Date.parse(proposal.match(pattern)?.[1] ?? '');
+    if (Number.isFinite(parsed) && parsed > now) {
+      targetDate = Math.floor(parsed / 1000);
+      break;
+    }
+  }
+  provenance.targetDate = targetDate === null ? 'default' : 'inferred';
+
+  const exercise = findPredictedExercise(proposal);
+  const repsMatch = proposal.match(/(\d+(?:,\d{3})*)\s*reps?\b/i);
+  const amount = exercise?.amount ? Math.round(exercise.amount) : repsMatch ? parseInt(repsMatch[1].replace(/,/g, ''), 10) : null;
+  const targetValue = found('targetValue', amount, 0);
+
+  const isFitness = exercise !== null || /fitness/i.test(proposal);
+  const category = found<DraftCategory>('category', isFitness ? DRAFT_CATEGORIES.fitness : null, DRAFT_CATEGORIES.custom);
+
+  const chainMatch = proposal.match(/Chain:\**\s*(celo|base|bnb|bsc)/i)?.[1].toLowerCase();
+  const chain = found<SupportedChain>('chain', chainMatch ? (chainMatch === 'bnb' ? 'bsc' : chainMatch as SupportedChain) : null, defaultChain);
+  const emoji = found('emoji', null, DEFAULT_DRAFT_EMOJI[category]);
+
+  return createDraft({
+    title: title.substring(0, 200),
+    description: description.substring(0, 1000),
+    targetDate,
+    targetValue,
+    category,
+    chain,
+    emoji,
+  }, provenance, now);
+}
+
+export function draftToTransaction(draft: PredictionDraft): DraftTransaction {
+  const { fields } = draft;
+  const config = CHAIN_CONFIG[fields.chain];
+  if (fields.targetDate === null) {
+    throw new Error('Draft has no target date');
+  }
+
+  const resolutionHash = fields.resolution ? hashResolutionCriteria(fields.resolution) : undefined;
+  return {
+    title: fields.title,
+    description: resolutionHash ? commitCriteria(fields.description, resolutionHash) : fields.description,
+    targetDate: fields.targetDate,
+    targetValue: fields.targetValue,
+    category: fields.category,
+    network: fields.chain,
+    emoji: fields.emoji,
+    autoResolvable: Boolean(fields.resolution),
+    chain: fields.chain,
+    contractAddress: config.contractAddress,
+    chainId: config.id,
+    resolution: fields.resolution,
+    resolutionHash,
+  };
+}
+
+/**
+ * The draft as the chat shows it, with whatever validation found
+ */
+export function formatDraftForChat(draft: PredictionDraft): string {
+  const { fields, validation } = draft;
+  const config = CHAIN_CONFIG[fields.chain];
+  const date = fields.targetDate
+    ? new Date(fields.targetDate * 1000).toUTCString().replace(/:\d{2} GMT$/, ' UTC')
+    : 'not set';
+
+  const lines = [
+    `${fields.emoji} **Proposed Prediction:** ${fields.title}`,
+    '',
+    `📝 **Description:** ${fields.description}`,
+    '',
+    `🎯 **Target:** ${fields.targetValue > 0 ? `${fields.targetValue.toLocaleString()} by ` : 'By '}${date}`,
+    '',
+    `🏷️ **Category:** ${DRAFT_CATEGORY_NAMES[fields.category]}`,
+    `⛓️ **Chain:** ${config.emoji} ${config.name}`,
+  ];
+
+  lines.push(`⚖️ **Resolves:** ${fields.resolution ? describeResolutionCriteria(fields.resolution) : 'manually'}`);
+  if (fields.targetUser) {
+    lines.push(`👤 **Subject:** ${fields.targetUser}${fields.targetAddress ? ` (${fields.targetAddress.slice(0, 6)}...${fields.targetAddress.slice(-4)})` : ''}`);
+  }
+  if (validation.errors.length > 0) {
+    lines.push('', `❌ **Needs fixing:**\n${validation.errors.map(e => `• ${e}`).join('\n')}`);
+  }
+  if (validation.warnings.length > 0) {
+    lines.push('', `⚠️ ${validation.warnings.join('\n⚠️ ')}`);
+  }
+
+  // Emoji is left out: a default emoji is never worth asking about
+  const defaulted = EDITABLE_DRAFT_FIELDS.filter(field => field !== 'emoji' && draft.provenance[field] === 'default');
+  if (defaulted.length > 0) {
+    lines.push('', `ℹ️ Defaults, not from you: ${defaulted.map(field => DRAFT_FIELD_LABELS[field]).join(', ')}`);
+  }
+
+  lines.push('', validation.isValid ? 'Would you like to create this prediction?' : 'Tell me what to change.');
+  return lines.join('\n');
+}
+
+/**
+ * Chat reply that hands a confirmed draft to the user's wallet (ChatInterface reads the WALLET_TRIGGER comment)
+ */
+export function formatWalletTrigger(transaction: DraftTransaction): string {
+  const config = CHAIN_CONFIG[transaction.chain];
+  return `🚀 **Ready to Create Prediction!**\n\n**${transaction.title}**\n\n${config.emoji} **Chain:** ${config.name}\n💰 **Gas:** ~$0.01\n\n⚡ **Sending to your wallet now...**\n\n_Please sign the transaction to create your prediction!_\n\n<!-- WALLET_TRIGGER:${JSON.stringify(transaction)} -->`;
+}
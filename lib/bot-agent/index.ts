@@ -0,0 +1,13 @@
+/**
+ * Bot Agent
+ * Tool-calling loop behind the prediction bot: the model drafts, edits and confirms predictions and
+ * looks things up through typed tools (server only: the default services read contracts and the index)
+ */
+
+export * from './conversation-draft';
+export * from './draft';
+export * from './loop';
+export * from './openai-model';
+export * from './services';
+export * from './tools';
+export type * from './types';
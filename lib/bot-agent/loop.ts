@@ -0,0 +1,114 @@
+/**
+ * Bot Agent Loop
+ * One chat turn: the model reads the conversation and calls tools until it answers in plain text.
+ * Drafts shown to the user are always the validated ones from the tool context, whatever the model says
+ */
+
+import type { ConversationMemory } from '../conversation-memory/types';
+import type { SupportedChain } from '../services/dual-chain-service';
+import { embedDraft } from '../prediction-draft';
+import { formatDraftForChat, formatWalletTrigger } from './draft';
+import { buildAgentSystemPrompt } from './prompt';
+import { AGENT_TOOLS, getAgentToolSpecs, type AgentTool, type AgentToolContext } from './tools';
+import type { AgentMessage, AgentModel, AgentServices, AgentToolCall, AgentTurnResult } from './types';
+
+// Model calls per turn before giving up (each may call several tools)
+export const MAX_AGENT_STEPS = 6;
+
+// Recent turns sent verbatim; anything older reaches the model through the memory summary
+export const AGENT_HISTORY_TURNS = 6;
+
+const GIVE_UP_REPLY = "Sorry, I couldn't work that out. Could you rephrase what you'd like to do?";
+
+export interface AgentTurnInput {
+  model: AgentModel;
+  memory: ConversationMemory; // With the user's message already recorded as the last turn
+  services: AgentServices;
+  defaultChain: SupportedChain; // Used when the user hasn't said which chain they prefer
+  userAddress?: string;
+  now?: number;
+  maxSteps?: number;
+  tools?: AgentTool<any>[];
+}
+
+async function executeToolCall(
+  call: AgentToolCall,
+  tools: AgentTool<any>[],
+  context: AgentToolContext
+): Promise<{ ok: boolean; result: unknown }> {
+  const tool = tools.find(t => t.name === call.name);
+  if (!tool) {
+    return { ok: false, result: { error: `Unknown tool: ${call.name}` } };
+  }
+
+  try {
+    const raw = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new Error('Arguments must be a JSON object');
+    }
+    return { ok: true, result: await tool.run(tool.parse(raw), context) };
+  } catch (error) {
+    return { ok: false, result: { error: error instanceof Error ? error.message : String(error) } };
+  }
+}
+
+export async function runAgentTurn(input: AgentTurnInput): Promise<AgentTurnResult> {
+  const now = input.now ?? Date.now();
+  const tools = input.tools ?? AGENT_TOOLS;
+  const specs = getAgentToolSpecs(tools);
+  const maxSteps = input.maxSteps ?? MAX_AGENT_STEPS;
+  const { memory } = input;
+
+  const context: AgentToolContext = {
+    draft: memory.draft ?? null,
+    draftChangedThisTurn: false,
+    transaction: null,
+    defaultChain: memory.facts.preferredChain ?? input.defaultChain,
+    defaultChainRemembered: Boolean(memory.facts.preferredChain),
+    userAddress: input.userAddress,
+    services: input.services,
+    now,
+  };
+
+  const messages: AgentMessage[] = [
+    { role: 'system', content: buildAgentSystemPrompt(memory, context.draft, now) },
+    ...memory.recentTurns.slice(-AGENT_HISTORY_TURNS).map(turn => ({ role: turn.role, content: turn.content })),
+  ];
+
+  const toolCalls: AgentTurnResult['toolCalls'] = [];
+  let reply: string | null = null;
+  let steps = 0;
+
+  while (steps < maxSteps && reply === null) {
+    steps++;
+    const response = await input.model.complete(messages, specs);
+
+    if (response.toolCalls.length === 0) {
+      reply = response.content?.trim() ?? '';
+      break;
+    }
+
+    messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+    for (const call of response.toolCalls) {
+      const { ok, result } = await executeToolCall(call, tools, context);
+      toolCalls.push({ name: call.name, ok });
+      messages.push({ role: 'tool', toolCallId: call.id, content: JSON.stringify(result) });
+    }
+  }
+
+  const parts = [reply ?? (context.draftChangedThisTurn || context.transaction ? '' : GIVE_UP_REPLY)];
+  if (context.transaction) {
+    parts.push(formatWalletTrigger(context.transaction));
+  } else if (context.draft && context.draftChangedThisTurn) {
+    // The chat renders an editable card from the embedded draft; the text card is for other clients
+    parts.push(`${embedDraft(context.draft)}\n${formatDraftForChat(context.draft)}`);
+  }
+
+  return {
+    reply: parts.filter(Boolean).join('\n\n'),
+    draft: context.draft,
+    transaction: context.transaction,
+    toolCalls,
+    steps,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * OpenAI Agent Model
+ * AgentModel on an OpenAI-compatible chat completions API with function tools
+ */
+
+import axios from 'axios';
+import { BOT_CONFIG } from '../xmtp-constants';
+import type { AgentMessage, AgentModel, AgentToolCall } from './types';
+
+const AI_MODEL_API = process.env.AI_MODEL_API || 'https://api.openai.com/v1/chat/completions';
+
+// Tool arguments (a whole draft) need more room than BOT_CONFIG.MAX_TOKENS allows a chat reply
+const AGENT_MAX_TOKENS = 600;
+
+function toApiMessage(message: AgentMessage) {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+export function createOpenAIAgentModel(apiKey: string, model: string = BOT_CONFIG.MODEL): AgentModel {
+  return {
+    async complete(messages, tools) {
+      const response = await axios.post(
+        AI_MODEL_API,
+        {
+          model,
+          messages: messages.map(toApiMessage),
+          tools: tools.map(tool => ({ type: 'function', function: tool })),
+          tool_choice: 'auto',
+          max_tokens: AGENT_MAX_TOKENS,
+          temperature: BOT_CONFIG.TEMPERATURE,
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      const message = response.data.choices[0].message;
+      const toolCalls: AgentToolCall[] = (message.tool_calls ?? []).map((call: any) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments ?? '',
+      }));
+
+      return { content: message.content ?? null, toolCalls };
+    },
+  };
+}
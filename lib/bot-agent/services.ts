@@ -0,0 +1,61 @@
+/**
+ * Bot Agent Services
+ * Production data behind the read-only tools: contract market data, on-chain fitness and the portfolio
+ */
+
+import { resolveUsernameForPrediction } from '../basenames-integration';
+import { EXERCISES } from '../exercises';
+import { getResolutionCriteriaService } from '../resolution-criteria';
+import { getMarketSummaryForBot } from '../services/contract-data-service';
+import { getFitnessDataReader } from '../services/fitness-data-reader';
+import { getPortfolioService } from '../services/portfolio-service';
+import type { AgentServices, AgentUserStats } from './types';
+
+const STATS_WINDOW_SECONDS = 30 * 24 * 60 * 60;
+
+async function getUserStats(address: string): Promise<AgentUserStats> {
+  const windowEnd = Math.floor(Date.now() / 1000);
+  const tracked = Object.values(EXERCISES).filter(exercise => exercise.leaderboardField);
+
+  const [fitness, portfolio] = await Promise.all([
+    Promise.all(tracked.map(async exercise => {
+      const reading = await getFitnessDataReader().read({
+        addresses: [address],
+        exerciseType: exercise.id,
+        windowStart: windowEnd - STATS_WINDOW_SECONDS,
+        windowEnd,
+      });
+      return { exercise: exercise.displayName, last30Days: reading.amount };
+    })),
+    getPortfolioService().getPortfolio(address),
+  ]);
+
+  const positions = portfolio.positions;
+  return {
+    address,
+    fitness,
+    predictions: {
+      open: positions.filter(p => p.status === 'open').length,
+      won: positions.filter(p => p.status === 'won').length,
+      lost: positions.filter(p => p.status === 'lost').length,
+      claimable: positions.filter(p => p.unclaimed > 0).length,
+    },
+  };
+}
+
+export function createDefaultAgentServices(): AgentServices {
+  return {
+    getMarketSummary: getMarketSummaryForBot,
+    getUserStats,
+    async resolveBasename(name) {
+      const resolution = await resolveUsernameForPrediction(name);
+      return {
+        name,
+        address: resolution.address,
+        displayName: resolution.displayName,
+        resolved: resolution.isResolved,
+      };
+    },
+    registerResolutionCriteria: criteria => getResolutionCriteriaService().register(criteria),
+  };
+}
@@ -0,0 +1,314 @@
+/**
+ * Bot Agent Tools
+ * Typed tools the model can call. Each parses its own arguments (bad arguments come back to the model
+ * as an error to correct, never as a thrown turn) and works on the turn's AgentToolContext
+ */
+
+import { ethers } from 'ethers';
+import { CHAIN_CONFIG, type SupportedChain } from '../services/dual-chain-service';
+import { EXERCISES } from '../exercises';
+import { DRAFT_CATEGORIES, EDITABLE_DRAFT_FIELDS } from '../prediction-draft';
+import { CRITERIA_COMPARATORS, PRICE_SYMBOLS, parseCriteriaSubject, parseResolutionCriteria } from '../resolution-criteria/criteria';
+import type { ResolutionCriteria } from '../resolution-criteria/types';
+import {
+  DEFAULT_DRAFT_EMOJI,
+  createDraft,
+  draftToTransaction,
+  editDraft,
+  parseDraftValue,
+} from './draft';
+import type {
+  AgentServices,
+  AgentToolSpec,
+  DraftField,
+  DraftTransaction,
+  PredictionDraft,
+} from './types';
+
+export interface AgentToolContext {
+  draft: PredictionDraft | null;
+  draftChangedThisTurn: boolean;
+  transaction: DraftTransaction | null;
+  defaultChain: SupportedChain;
+  defaultChainRemembered: boolean; // defaultChain is the user's preferred chain, not the platform default
+  userAddress?: string;
+  services: AgentServices;
+  now: number;
+}
+
+export interface AgentTool<Args> extends AgentToolSpec {
+  parse(args: Record<string, unknown>): Args;
+  run(args: Args, context: AgentToolContext): Promise<unknown>;
+}
+
+function optional<T>(args: Record<string, unknown>, key: string, parse: (value: unknown) => T): T | undefined {
+  return args[key] === undefined || args[key] === null || args[key] === '' ? undefined : parse(args[key]);
+}
+
+function draftSnapshot(draft: PredictionDraft) {
+  return { id: draft.id, fields: draft.fields, provenance: draft.provenance, validation: draft.validation };
+}
+
+const DRAFT_ARGUMENT_FIELDS: DraftField[] = ['title', 'description', 'targetDate', 'targetValue', 'category', 'chain', 'emoji', 'targetUser'];
+
+const createPredictionDraft: AgentTool<{
+  title: string;
+  description: string;
+  targetDate: number;
+  targetValue: number;
+  category: PredictionDraft['fields']['category'];
+  chain?: SupportedChain;
+  emoji?: string;
+  targetUser?: string;
+  userStated: DraftField[];
+}> = {
+  name: 'createPredictionDraft',
+  description: 'Start a new prediction draft (replacing any current one). The draft is validated and shown to the user; nothing is created on-chain until confirmDraft.',
+  parameters: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', description: 'Concise title, 10-200 characters' },
+      description: { type: 'string', description: 'What has to happen, 20-1000 characters' },
+      targetDate: { type: 'string', description: 'Deadline as an ISO 8601 date or date-time, e.g. 2025-08-01' },
+      targetValue: { type: 'number', description: 'Reps, meters, price or other measurable target; 0 if none' },
+      category: { type: 'string', enum: Object.keys(DRAFT_CATEGORIES) },
+      chain: { type: 'string', enum: Object.keys(CHAIN_CONFIG), description: "Omit to use the user's preferred or the default chain" },
+      emoji: { type: 'string' },
+      targetUser: { type: 'string', description: 'ENS name, basename or Farcaster username the prediction is about' },
+      userStated: {
+        type: 'array',
+        items: { type: 'string', enum: DRAFT_ARGUMENT_FIELDS },
+        description: 'Fields whose values the user actually said; everything else you filled in is shown to them as a guess',
+      },
+    },
+    required: ['title', 'description', 'targetDate', 'category'],
+  },
+  parse(args) {
+    return {
+      title: parseDraftValue('title', args.title),
+      description: parseDraftValue('description', args.description),
+      targetDate: parseDraftValue('targetDate', args.targetDate) as number,
+      targetValue: optional(args, 'targetValue', value => parseDraftValue('targetValue', value)) ?? 0,
+      category: parseDraftValue('category', args.category),
+      chain: optional(args, 'chain', value => parseDraftValue('chain', value)),
+      emoji: optional(args, 'emoji', value => parseDraftValue('emoji', value)),
+      targetUser: optional(args, 'targetUser', value => parseDraftValue('targetUser', value)),
+      userStated: Array.isArray(args.userStated)
+        ? DRAFT_ARGUMENT_FIELDS.filter(field => (args.userStated as unknown[]).includes(field))
+        : [],
+    };
+  },
+  async run({ userStated, ...args }, context) {
+    const provenance: PredictionDraft['provenance'] = {};
+    for (const field of DRAFT_ARGUMENT_FIELDS) {
+      if (args[field as keyof typeof args] !== undefined) {
+        provenance[field] = userStated.includes(field) ? 'user' : 'inferred';
+      }
+    }
+    if (!args.chain) {
+      provenance.chain = context.defaultChainRemembered ? 'inferred' : 'default';
+    }
+    if (!args.emoji) {
+      provenance.emoji = 'default';
+    }
+    if (args.targetValue === 0 && !userStated.includes('targetValue')) {
+      provenance.targetValue = 'default';
+    }
+
+    context.draft = createDraft({
+      ...args,
+      chain: args.chain ?? context.defaultChain,
+      emoji: args.emoji ?? DEFAULT_DRAFT_EMOJI[args.category],
+    }, provenance, context.now);
+    context.draftChangedThisTurn = true;
+    return draftSnapshot(context.draft);
+  },
+};
+
+const editDraftField: AgentTool<{ field: DraftField; value: unknown }> = {
+  name: 'editDraftField',
+  description: 'Change one field of the current draft, e.g. when the user says "make it 50" or "on celo instead". The draft is re-validated and shown again; the field is marked as stated by the user.',
+  parameters: {
+    type: 'object',
+    properties: {
+      field: { type: 'string', enum: EDITABLE_DRAFT_FIELDS },
+      value: { type: ['string', 'number'], description: 'New value; dates as ISO 8601, categories and chains by name' },
+    },
+    required: ['field', 'value'],
+  },
+  parse(args) {
+    if (typeof args.field !== 'string' || !EDITABLE_DRAFT_FIELDS.includes(args.field as DraftField)) {
+      throw new Error(`field must be one of: ${EDITABLE_DRAFT_FIELDS.join(', ')}`);
+    }
+    const field = args.field as DraftField;
+    return { field, value: parseDraftValue(field, args.value) };
+  },
+  async run({ field, value }, context) {
+    if (!context.draft) {
+      throw new Error('There is no draft to edit; call createPredictionDraft first');
+    }
+    context.draft = editDraft(context.draft, field, value as never, 'user', context.now);
+    context.draftChangedThisTurn = true;
+    return draftSnapshot(context.draft);
+  },
+};
+
+const setResolutionCriteria: AgentTool<{ criteria: Record<string, unknown> | null }> = {
+  name: 'setResolutionCriteria',
+  description: "Set how the current draft resolves automatically: a subject's exercise total or a token's price at the deadline. Drafts get inferred criteria when they name a tracked exercise or a token price; use this to correct them, or source 'manual' when nothing can be checked automatically.",
+  parameters: {
+    type: 'object',
+    properties: {
+      source: { type: 'string', enum: ['fitness', 'price', 'manual'] },
+      exercise: { type: 'string', enum: Object.keys(EXERCISES).filter(id => id !== 'custom'), description: 'fitness only' },
+      subject: { type: 'string', description: 'fitness only: "creator" (default, or the draft\'s resolved subject), a 0x address or "fid:<number>"' },
+      symbol: { type: 'string', enum: PRICE_SYMBOLS, description: 'price only' },
+      comparator: { type: 'string', enum: CRITERIA_COMPARATORS, description: 'gte (default), gt, lte or lt' },
+      value: { type: 'number', description: 'Reps, meters for distance exercises, or USD' },
+    },
+    required: ['source'],
+  },
+  parse(args) {
+    if (args.source === 'manual') {
+      return { criteria: null };
+    }
+    if (args.source !== 'fitness' && args.source !== 'price') {
+      throw new Error("source must be 'fitness', 'price' or 'manual'");
+    }
+    // Checked here for the model's sake; the deadline is filled in from the draft in run
+    const subject = optional(args, 'subject', parseCriteriaSubject);
+    return { criteria: { ...args, subject } };
+  },
+  async run({ criteria }, context) {
+    const { draft } = context;
+    if (!draft) {
+      throw new Error('There is no draft; call createPredictionDraft first');
+    }
+
+    let resolution: ResolutionCriteria | undefined;
+    if (criteria) {
+      const deadline = draft.fields.targetDate;
+      if (deadline === null) {
+        throw new Error('Set the draft\'s targetDate before its resolution criteria');
+      }
+      const defaultSubject = draft.fields.targetAddress ?? 'creator';
+      resolution = parseResolutionCriteria({
+        ...criteria,
+        subject: criteria.subject ?? defaultSubject,
+        window: { start: null, end: deadline },
+        at: deadline,
+      });
+    }
+
+    context.draft = editDraft(draft, 'resolution', resolution, 'inferred', context.now);
+    context.draftChangedThisTurn = true;
+    return draftSnapshot(context.draft);
+  },
+};
+
+const confirmDraft: AgentTool<Record<string, never>> = {
+  name: 'confirmDraft',
+  description: 'The user accepted the draft exactly as last shown to them: send it to their wallet to sign. Only call on an unconditional yes.',
+  parameters: { type: 'object', properties: {} },
+  parse() {
+    return {};
+  },
+  async run(_args, context) {
+    const { draft } = context;
+    if (!draft) {
+      throw new Error('There is no draft to confirm');
+    }
+    if (context.draftChangedThisTurn) {
+      throw new Error('The draft changed during this turn; show it to the user and wait for them to confirm it');
+    }
+    if (!draft.validation.isValid) {
+      throw new Error(`The draft is not valid yet: ${draft.validation.errors.join('; ')}`);
+    }
+
+    // Stored before the wallet sees the transaction, so the hash in its description always resolves
+    if (draft.fields.resolution) {
+      await context.services.registerResolutionCriteria(draft.fields.resolution);
+    }
+    context.transaction = draftToTransaction(draft);
+    context.draft = null;
+    return { confirmed: true, chain: context.transaction.chain };
+  },
+};
+
+const getMarketSummary: AgentTool<Record<string, never>> = {
+  name: 'getMarketSummary',
+  description: 'Current prediction markets across chains: active counts, volume and the biggest markets.',
+  parameters: { type: 'object', properties: {} },
+  parse() {
+    return {};
+  },
+  async run(_args, context) {
+    return { summary: await context.services.getMarketSummary() };
+  },
+};
+
+const getUserStats: AgentTool<{ address?: string }> = {
+  name: 'getUserStats',
+  description: "A wallet's tracked exercise over the last 30 days and its prediction record. Defaults to the user's own wallet.",
+  parameters: {
+    type: 'object',
+    properties: {
+      address: { type: 'string', description: '0x address; resolve names with resolveBasename first' },
+    },
+  },
+  parse(args) {
+    const address = optional(args, 'address', value => {
+      if (typeof value !== 'string' || !ethers.isAddress(value)) {
+        throw new Error('address must be a 0x address');
+      }
+      return value;
+    });
+    return { address };
+  },
+  async run({ address }, context) {
+    const target = address ?? context.userAddress;
+    if (!target) {
+      throw new Error("No address: ask the user for theirs or resolve a name with resolveBasename");
+    }
+    return context.services.getUserStats(target.toLowerCase());
+  },
+};
+
+const resolveBasename: AgentTool<{ name: string }> = {
+  name: 'resolveBasename',
+  description: 'Resolve a basename (.base.eth), ENS name or username to an address. Resolving the current draft\'s subject attaches the address to it.',
+  parameters: {
+    type: 'object',
+    properties: { name: { type: 'string' } },
+    required: ['name'],
+  },
+  parse(args) {
+    if (typeof args.name !== 'string' || !args.name.trim()) {
+      throw new Error('name must be non-empty text');
+    }
+    return { name: args.name.trim() };
+  },
+  async run({ name }, context) {
+    const lookup = await context.services.resolveBasename(name);
+    const { draft } = context;
+    if (lookup.resolved && lookup.address && draft?.fields.targetUser?.toLowerCase() === name.toLowerCase()) {
+      context.draft = editDraft(draft, 'targetAddress', lookup.address, 'inferred', context.now);
+      context.draftChangedThisTurn = true;
+    }
+    return lookup;
+  },
+};
+
+export const AGENT_TOOLS: AgentTool<any>[] = [
+  createPredictionDraft,
+  editDraftField,
+  setResolutionCriteria,
+  confirmDraft,
+  getMarketSummary,
+  getUserStats,
+  resolveBasename,
+];
+
+export function getAgentToolSpecs(tools: AgentTool<any>[] = AGENT_TOOLS): AgentToolSpec[] {
+  return tools.map(({ name, description, parameters }) => ({ name, description, parameters }));
+}
@@ -0,0 +1,76 @@
+/**
+ * Bot Agent Types
+ * The prediction bot's tool-calling loop: model interface, tool calls and the services behind them
+ */
+
+import type { DraftTransaction, PredictionDraft } from '../prediction-draft';
+import type { ResolutionCriteria } from '../resolution-criteria/types';
+
+export type {
+  DraftCategory,
+  DraftField,
+  DraftProvenance,
+  DraftTransaction,
+  PredictionDraft,
+  PredictionDraftFields,
+} from '../prediction-draft';
+
+export interface AgentToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON, as the model produced it
+}
+
+export type AgentMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; toolCalls?: AgentToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+export interface AgentToolSpec {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema for the arguments
+}
+
+export interface AgentModelResponse {
+  content: string | null;
+  toolCalls: AgentToolCall[];
+}
+
+/**
+ * One model completion: the OpenAI-compatible API in production, a scripted fake in tests
+ */
+export interface AgentModel {
+  complete(messages: AgentMessage[], tools: AgentToolSpec[]): Promise<AgentModelResponse>;
+}
+
+export interface AgentUserStats {
+  address: string;
+  fitness: Array<{ exercise: string; last30Days: number }>;
+  predictions: { open: number; won: number; lost: number; claimable: number }; // Position counts
+}
+
+export interface BasenameLookup {
+  name: string;
+  address: string | null;
+  displayName: string;
+  resolved: boolean;
+}
+
+/**
+ * Data the read-only tools use; swapped for fixtures in tests
+ */
+export interface AgentServices {
+  getMarketSummary(): Promise<string>;
+  getUserStats(address: string): Promise<AgentUserStats>;
+  resolveBasename(name: string): Promise<BasenameLookup>;
+  registerResolutionCriteria(criteria: ResolutionCriteria): Promise<string>; // Returns the hash to commit
+}
+
+export interface AgentTurnResult {
+  reply: string;
+  draft: PredictionDraft | null;
+  transaction: DraftTransaction | null; // Set when this turn confirmed the draft
+  toolCalls: Array<{ name: string; ok: boolean }>;
+  steps: number;
+}
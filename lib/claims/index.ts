@@ -0,0 +1,9 @@
+/**
+ * Claims
+ * Finding every reward a wallet can claim across chains (server only: the scanner reads the index and
+ * contracts) and the queue the UI claims them with (lib/claims/queue is safe to import client-side)
+ */
+
+export * from './queue';
+export * from './scanner';
+export type * from './types';
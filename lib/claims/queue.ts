@@ -0,0 +1,153 @@
+/**
+ * Claim Queue
+ * State for claiming every reward in a ClaimPlan: one claimReward transaction at a time, finishing
+ * a chain before switching the wallet to the next, with failed claims kept for a retry
+ * Pure (no wallet or network access) so it runs in the browser and in tests
+ */
+
+import type { SupportedChain } from '../services/dual-chain-service';
+import type {
+  ClaimItem,
+  ClaimPlan,
+  ClaimQueueAction,
+  ClaimQueueState,
+  ClaimQueueSummary,
+} from './types';
+
+export type ClaimStep =
+  | { kind: 'claim'; item: ClaimItem }
+  | { kind: 'switch'; chain: SupportedChain }
+  | { kind: 'busy' }  // A claim is waiting on the wallet or its receipt
+  | { kind: 'idle' }; // Stopped, or nothing left to claim
+
+export function createClaimQueue(plan: ClaimPlan | null): ClaimQueueState {
+  return {
+    items: (plan?.chains ?? []).flatMap(chain =>
+      chain.rewards.map(reward => ({ ...reward, status: 'pending' as const, attempts: 0, txHash: null, error: null }))
+    ),
+    running: false,
+    awaitingChain: null,
+  };
+}
+
+function updateItem(
+  state: ClaimQueueState,
+  chain: SupportedChain,
+  predictionId: number,
+  update: (item: ClaimItem) => ClaimItem
+): ClaimItem[] {
+  return state.items.map(item =>
+    item.chain === chain && item.predictionId === predictionId ? update(item) : item
+  );
+}
+
+export function claimQueueReducer(state: ClaimQueueState, action: ClaimQueueAction): ClaimQueueState {
+  switch (action.type) {
+    case 'load': {
+      // A refetch mid-run can't drop in-flight claims; otherwise rewards keep their attempts and
+      // failures, and claimed ones stay listed after the plan stops offering them
+      if (state.running) return state;
+
+      const fresh = createClaimQueue(action.plan).items;
+      const previous = new Map(state.items.map(item => [`${item.chain}:${item.predictionId}`, item]));
+      const items = fresh.map(item => {
+        const old = previous.get(`${item.chain}:${item.predictionId}`);
+        return old ? { ...item, status: old.status, attempts: old.attempts, txHash: old.txHash, error: old.error } : item;
+      });
+      const kept = state.items.filter(
+        item => item.status === 'claimed' && !fresh.some(f => f.chain === item.chain && f.predictionId === item.predictionId)
+      );
+
+      return { ...state, items: [...kept, ...items] };
+    }
+    case 'start':
+      return { ...state, running: true, awaitingChain: null };
+    case 'awaitChain':
+      return { ...state, awaitingChain: action.chain };
+    case 'submitting':
+      return {
+        ...state,
+        awaitingChain: null,
+        items: updateItem(state, action.chain, action.predictionId, item => ({
+          ...item,
+          status: 'submitting',
+          attempts: item.attempts + 1,
+          error: null,
+        })),
+      };
+    case 'submitted':
+      return {
+        ...state,
+        items: updateItem(state, action.chain, action.predictionId, item => ({
+          ...item,
+          status: 'confirming',
+          txHash: action.txHash,
+        })),
+      };
+    case 'claimed':
+      return {
+        ...state,
+        items: updateItem(state, action.chain, action.predictionId, item => ({ ...item, status: 'claimed', error: null })),
+      };
+    case 'failed':
+      return {
+        ...state,
+        running: action.stop ? false : state.running,
+        items: updateItem(state, action.chain, action.predictionId, item => ({ ...item, status: 'failed', error: action.error })),
+      };
+    case 'retryFailed':
+      return {
+        ...state,
+        running: true,
+        awaitingChain: null,
+        items: state.items.map(item => (item.status === 'failed' ? { ...item, status: 'pending' } : item)),
+      };
+    case 'stop':
+      return { ...state, running: false, awaitingChain: null };
+  }
+}
+
+/**
+ * What the queue should do next given the wallet's current chain: keep claiming there while it has
+ * pending rewards, otherwise ask for a switch to the next chain that does
+ */
+export function nextClaimStep(state: ClaimQueueState, walletChain: SupportedChain | null): ClaimStep {
+  if (!state.running) {
+    return { kind: 'idle' };
+  }
+  if (state.items.some(item => item.status === 'submitting' || item.status === 'confirming')) {
+    return { kind: 'busy' };
+  }
+
+  const pending = state.items.filter(item => item.status === 'pending');
+  const here = pending.find(item => item.chain === walletChain);
+  if (here) {
+    return { kind: 'claim', item: here };
+  }
+
+  return pending.length > 0 ? { kind: 'switch', chain: pending[0].chain } : { kind: 'idle' };
+}
+
+export function summarizeClaimQueue(state: ClaimQueueState): ClaimQueueSummary {
+  const claimedByChain: Partial<Record<SupportedChain, number>> = {};
+  for (const item of state.items.filter(i => i.status === 'claimed')) {
+    claimedByChain[item.chain] = (claimedByChain[item.chain] ?? 0) + item.amount;
+  }
+
+  return {
+    claimed: state.items.filter(item => item.status === 'claimed').length,
+    failed: state.items.filter(item => item.status === 'failed').length,
+    remaining: state.items.filter(item => !['claimed', 'failed'].includes(item.status)).length,
+    claimedByChain,
+  };
+}
+
+// The contract reverts with this when the reward was claimed elsewhere (another tab, or a stale plan)
+export function isAlreadyClaimedError(message: string): boolean {
+  return /already claimed/i.test(message);
+}
+
+// The user declined in their wallet: stop rather than prompting for the next claim straight away
+export function isUserRejection(message: string): boolean {
+  return /user rejected|user denied|rejected the request|denied transaction/i.test(message);
+}
@@ -0,0 +1,76 @@
+/**
+ * Claims Scanner
+ * Finds a wallet's resolved winning positions that haven't been claimed, on every chain in CHAIN_CONFIG
+ * with a market contract, and checks each against the contract before offering it
+ */
+
+import {
+  CHAIN_CONFIG,
+  getChainUserVote,
+  type SupportedChain,
+} from '../services/dual-chain-service';
+import { getPortfolioService, type PortfolioPosition } from '../services/portfolio-service';
+import type { ChainClaims, ClaimPlan, ClaimableReward } from './types';
+
+/**
+ * Claimable rewards grouped per chain, in CHAIN_CONFIG order (totals are in different currencies)
+ */
+export function buildClaimPlan(address: string, positions: PortfolioPosition[], now: number = Date.now()): ClaimPlan {
+  const byChain = new Map<SupportedChain, ClaimableReward[]>();
+
+  for (const position of positions) {
+    if (position.status !== 'won' || position.claimed || position.unclaimed <= 0) continue;
+
+    const rewards = byChain.get(position.chain) ?? [];
+    rewards.push({
+      chain: position.chain,
+      predictionId: position.predictionId,
+      title: position.title,
+      emoji: position.emoji,
+      amount: position.unclaimed,
+    });
+    byChain.set(position.chain, rewards);
+  }
+
+  const chains: ChainClaims[] = (Object.keys(CHAIN_CONFIG) as SupportedChain[])
+    .filter(chain => byChain.has(chain))
+    .map(chain => {
+      const rewards = byChain.get(chain)!;
+      const config = CHAIN_CONFIG[chain];
+      return {
+        chain,
+        chainId: config.id,
+        chainName: config.name,
+        currency: config.nativeCurrency.symbol,
+        contractAddress: config.contractAddress,
+        rewards: rewards.sort((a, b) => a.predictionId - b.predictionId),
+        total: rewards.reduce((sum, reward) => sum + reward.amount, 0),
+      };
+    });
+
+  return {
+    address: address.toLowerCase(),
+    chains,
+    rewardCount: chains.reduce((sum, chain) => sum + chain.rewards.length, 0),
+    generatedAt: new Date(now).toISOString(),
+  };
+}
+
+/**
+ * The wallet's claim plan; positions the index still shows as unclaimed but the contract has
+ * already paid out (claims inside the confirmation window) are left out
+ */
+export async function getClaimPlan(address: string): Promise<ClaimPlan> {
+  const portfolio = await getPortfolioService().getPortfolio(address);
+  const candidates = portfolio.positions.filter(p => p.status === 'won' && !p.claimed && p.unclaimed > 0);
+
+  const live = await Promise.all(
+    candidates.map(async position => {
+      const vote = await getChainUserVote(position.predictionId, address, position.chain);
+      // Keep the position when the contract can't be reached; claiming it again only reverts
+      return vote?.claimed ? null : position;
+    })
+  );
+
+  return buildClaimPlan(address, live.filter((p): p is PortfolioPosition => p !== null));
+}
@@ -0,0 +1,70 @@
+/**
+ * Claims Types
+ * Rewards a wallet can claim, grouped per chain, and the client-side queue that claims them
+ */
+
+import type { SupportedChain } from '../services/dual-chain-service';
+
+export interface ClaimableReward {
+  chain: SupportedChain;
+  predictionId: number;
+  title: string;
+  emoji: string;
+  amount: number; // Native units claimReward would pay now
+}
+
+export interface ChainClaims {
+  chain: SupportedChain;
+  chainId: number;
+  chainName: string;
+  currency: string;
+  contractAddress: string;
+  rewards: ClaimableReward[];
+  total: number;
+}
+
+export interface ClaimPlan {
+  address: string;
+  chains: ChainClaims[]; // Only chains with something to claim
+  rewardCount: number;
+  generatedAt: string;
+}
+
+export type ClaimStatus =
+  | 'pending'     // Not attempted yet (or queued again for a retry)
+  | 'submitting'  // Waiting for the wallet to sign
+  | 'confirming'  // Sent, waiting for the receipt
+  | 'claimed'
+  | 'failed';
+
+export interface ClaimItem extends ClaimableReward {
+  status: ClaimStatus;
+  attempts: number;
+  txHash: string | null;
+  error: string | null;
+}
+
+export interface ClaimQueueState {
+  items: ClaimItem[];
+  running: boolean;
+  // Chain the queue is paused on until the wallet switches to it
+  awaitingChain: SupportedChain | null;
+}
+
+export type ClaimQueueAction =
+  | { type: 'load'; plan: ClaimPlan | null }
+  | { type: 'start' }
+  | { type: 'awaitChain'; chain: SupportedChain }
+  | { type: 'submitting'; chain: SupportedChain; predictionId: number }
+  | { type: 'submitted'; chain: SupportedChain; predictionId: number; txHash: string }
+  | { type: 'claimed'; chain: SupportedChain; predictionId: number }
+  | { type: 'failed'; chain: SupportedChain; predictionId: number; error: string; stop: boolean }
+  | { type: 'retryFailed' }
+  | { type: 'stop' };
+
+export interface ClaimQueueSummary {
+  claimed: number;
+  failed: number;
+  remaining: number; // Pending or in flight
+  claimedByChain: Partial<Record<SupportedChain, number>>; // Native units
+}
@@ -0,0 +1,10 @@
+/**
+ * Conversation Memory
+ * Persistent per-conversation state for the AI bot: recent turns, a running summary of older ones,
+ * user facts (timezone, preferred chain, usual amounts) and a proposal awaiting confirmation
+ */
+
+export * from './memory';
+export * from './service';
+export * from './stores';
+export type * from './types';
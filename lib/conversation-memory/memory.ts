@@ -0,0 +1,224 @@
+/**
+ * Conversation Memory
+ * Pure state transitions for what the bot remembers: appending turns, picking up user facts,
+ * rolling old turns into the running summary, and the prompt section built from it all
+ */
+
+import { findPredictedExercise, formatExerciseAmount, type ExerciseId } from '../exercises';
+import { CHAIN_CONFIG, type SupportedChain } from '../services/dual-chain-service';
+import { isValidTimeZone } from '../services/timezone-service';
+import type { ConversationFacts, ConversationMemory, ConversationTurn } from './types';
+
+// Once a conversation has more than MAX_RECENT_TURNS turns, all but the last KEEP_RECENT_TURNS are
+// summarized in one go (so the summarizer runs every few turns, not on every message)
+export const MAX_RECENT_TURNS = 12;
+export const KEEP_RECENT_TURNS = 6;
+
+export const MAX_SUMMARY_CHARS = 1500;
+
+const MAX_AMOUNTS_PER_EXERCISE = 5;
+
+// Longest single turn kept in a fallback summary line
+const SUMMARY_LINE_CHARS = 160;
+
+export function createConversationMemory(conversationId: string, now: number = Date.now()): ConversationMemory {
+  return {
+    conversationId,
+    summary: '',
+    summarizedTurns: 0,
+    recentTurns: [],
+    facts: {},
+    awaitingConfirmation: false,
+    updatedAt: now,
+  };
+}
+
+const IANA_TIMEZONE_PATTERN = /\b([A-Z][a-z]+(?:_[A-Z][a-z]+)*\/[A-Z][A-Za-z]+(?:_[A-Z][A-Za-z]+)*)\b/;
+const OFFSET_TIMEZONE_PATTERN = /\b(UTC|GMT)\s*([+-])\s*(\d{1,2}(?::\d{2})?)\b/i;
+// Case-sensitive so "est" or "cat" in a sentence aren't taken for timezones
+const ABBREVIATED_TIMEZONE_PATTERN = /\b(EST|EDT|CST|CDT|MST|MDT|PST|PDT|GMT|UTC|BST|CET|CEST|EET|EEST|WAT|EAT|SAST|IST|JST|AEST|AEDT)\b/;
+
+function findTimezone(text: string): string | null {
+  const iana = text.match(IANA_TIMEZONE_PATTERN);
+  if (iana && isValidTimeZone(iana[1])) {
+    return iana[1];
+  }
+
+  const offset = text.match(OFFSET_TIMEZONE_PATTERN);
+  if (offset) {
+    return `${offset[1].toUpperCase()}${offset[2]}${offset[3]}`;
+  }
+
+  return text.match(ABBREVIATED_TIMEZONE_PATTERN)?.[1] ?? null;
+}
+
+// A chain the user asked for ("on celo", "use Base Sepolia", "bnb chain"), not a passing mention
+// of a word like "base" or a .base.eth name
+const CHAIN_PATTERNS: Array<[SupportedChain, RegExp]> = [
+  ['celo', /\b(?:on|use|using|prefer|via|with)\s+celo\b|\bcelo\s+(?:mainnet|chain|network)\b/i],
+  ['base', /\b(?:on|use|using|prefer|via|with)\s+base\b(?!\.)|\bbase\s+(?:sepolia|mainnet|chain|network)\b/i],
+  ['bsc', /\b(?:on|use|using|prefer|via|with)\s+(?:bsc|bnb)\b|\b(?:bnb|bsc)\s+(?:chain|mainnet|network)\b/i],
+];
+
+function findPreferredChain(text: string): SupportedChain | null {
+  let found: { chain: SupportedChain; index: number } | null = null;
+  for (const [chain, pattern] of CHAIN_PATTERNS) {
+    const match = text.match(pattern);
+    // The last chain named wins: "not on celo, use base instead"
+    if (match?.index !== undefined && (!found || match.index > found.index)) {
+      found = { chain, index: match.index };
+    }
+  }
+  return found?.chain ?? null;
+}
+
+/**
+ * Facts after a user message: timezone, preferred chain and exercise amounts it mentions
+ * Returns the same object when the message teaches us nothing
+ */
+export function extractFacts(text: string, facts: ConversationFacts): ConversationFacts {
+  const updated: ConversationFacts = { ...facts };
+  let changed = false;
+
+  const timezone = findTimezone(text);
+  if (timezone && timezone !== facts.timezone) {
+    updated.timezone = timezone;
+    changed = true;
+  }
+
+  const chain = findPreferredChain(text);
+  if (chain && chain !== facts.preferredChain) {
+    updated.preferredChain = chain;
+    changed = true;
+  }
+
+  const mention = findPredictedExercise(text);
+  if (mention && mention.amount !== null && mention.exercise.id !== 'custom') {
+    const id = mention.exercise.id;
+    const amounts = [...(facts.exerciseAmounts?.[id] ?? []), mention.amount].slice(-MAX_AMOUNTS_PER_EXERCISE);
+    updated.exerciseAmounts = { ...facts.exerciseAmounts, [id]: amounts };
+    changed = true;
+  }
+
+  return changed ? updated : facts;
+}
+
+/**
+ * Median of the amounts the user has mentioned for an exercise
+ */
+export function typicalAmount(amounts: number[]): number | null {
+  if (amounts.length === 0) {
+    return null;
+  }
+
+  const sorted = [...amounts].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  return Math.round(median);
+}
+
+/**
+ * Record a turn; user turns also update the facts
+ */
+export function appendTurn(memory: ConversationMemory, turn: ConversationTurn): ConversationMemory {
+  return {
+    ...memory,
+    recentTurns: [...memory.recentTurns, turn],
+    facts: turn.role === 'user' ? extractFacts(turn.content, memory.facts) : memory.facts,
+    updatedAt: turn.timestamp,
+  };
+}
+
+/**
+ * Turns due to be summarized, or null while the conversation is still short enough to keep whole
+ */
+export function turnsToRollUp(memory: ConversationMemory): ConversationTurn[] | null {
+  if (memory.recentTurns.length <= MAX_RECENT_TURNS) {
+    return null;
+  }
+  return memory.recentTurns.slice(0, memory.recentTurns.length - KEEP_RECENT_TURNS);
+}
+
+/**
+ * Replace the summarized turns with the new summary
+ */
+export function applyRollup(memory: ConversationMemory, summary: string, rolledTurns: number): ConversationMemory {
+  return {
+    ...memory,
+    summary: capSummary(summary),
+    summarizedTurns: memory.summarizedTurns + rolledTurns,
+    recentTurns: memory.recentTurns.slice(rolledTurns),
+  };
+}
+
+/**
+ * Keep a summary within MAX_SUMMARY_CHARS by dropping its oldest lines (the newest context matters most)
+ */
+export function capSummary(summary: string): string {
+  const lines = summary.trim().split('\n').filter(line => line.trim());
+  while (lines.length > 1 && lines.join('\n').length > MAX_SUMMARY_CHARS) {
+    lines.shift();
+  }
+
+  const capped = lines.join('\n');
+  return capped.length > MAX_SUMMARY_CHARS ? capped.slice(capped.length - MAX_SUMMARY_CHARS) : capped;
+}
+
+function summaryLine(turn: ConversationTurn): string {
+  // First meaningful line, without the markdown and hidden wallet payloads bot replies carry
+  const text = turn.content
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/[*_`#]/g, '')
+    .split('\n')
+    .map(line => line.trim())
+    .find(line => line.length > 0) ?? '';
+  const clipped = text.length > SUMMARY_LINE_CHARS ? `${text.slice(0, SUMMARY_LINE_CHARS - 1)}…` : text;
+  return `${turn.role === 'user' ? 'User' : 'Bot'}: ${clipped}`;
+}
+
+/**
+ * Deterministic summary: one clipped line per turn appended to the previous summary
+ * Used when no model is available or the LLM summarizer fails
+ */
+export function summarizeTurns(previousSummary: string, turns: ConversationTurn[]): string {
+  const lines = turns.map(summaryLine).filter(line => !line.endsWith(': '));
+  return capSummary([previousSummary, ...lines].filter(Boolean).join('\n'));
+}
+
+function describeChain(chain: SupportedChain): string {
+  return CHAIN_CONFIG[chain]?.name ?? chain;
+}
+
+/**
+ * Prompt section with everything remembered about the conversation; empty when there's nothing yet
+ */
+export function describeMemoryForPrompt(memory: ConversationMemory): string {
+  const lines: string[] = [];
+  const { facts } = memory;
+
+  if (memory.summary) {
+    lines.push(`- Earlier in this chat (${memory.summarizedTurns} messages, summarized):\n${memory.summary.split('\n').map(line => `  ${line}`).join('\n')}`);
+  }
+  if (facts.timezone) {
+    lines.push(`- User's timezone: ${facts.timezone} (use it for deadlines and dates)`);
+  }
+  if (facts.preferredChain) {
+    lines.push(`- Preferred chain: ${describeChain(facts.preferredChain)} (propose on this chain instead of the default)`);
+  }
+
+  const amounts = Object.entries(facts.exerciseAmounts ?? {})
+    .map(([id, values]) => {
+      const typical = typicalAmount(values ?? []);
+      return typical === null ? null : formatExerciseAmount(id as ExerciseId, typical);
+    })
+    .filter((amount): amount is string => amount !== null);
+  if (amounts.length > 0) {
+    lines.push(`- Amounts the user usually talks about: ${amounts.join(', ')} (use as a baseline when they don't give a number)`);
+  }
+
+  if (memory.awaitingConfirmation && memory.pendingProposal) {
+    lines.push(`- Proposal still awaiting the user's yes/no (revise it if they ask for changes):\n${memory.pendingProposal.replace(/<!--[\s\S]*?-->/g, '').trim()}`);
+  }
+
+  return lines.length > 0 ? `\n\nConversation Memory:\n${lines.join('\n')}` : '';
+}
@@ -0,0 +1,113 @@
+/**
+ * Conversation Memory Service
+ * Load, record and update what the bot remembers per conversation. The store is the source of truth;
+ * the last state seen per conversation is also kept in-process so a database outage degrades the bot
+ * to the old in-memory behaviour instead of breaking chats
+ */
+
+import { appendTurn, applyRollup, createConversationMemory, summarizeTurns, turnsToRollUp } from './memory';
+import { createPostgresConversationMemoryStore } from './stores';
+import type { ConversationMemory, ConversationMemoryStore, ConversationSummarizer, ConversationTurn } from './types';
+
+// Conversations kept in the in-process fallback
+const MAX_CACHED_CONVERSATIONS = 500;
+
+export type ConversationMemoryUpdate = Partial<Pick<ConversationMemory, 'awaitingConfirmation' | 'pendingProposal' | 'draft'>>;
+
+const fallbackSummarizer: ConversationSummarizer = async (previousSummary, turns) => summarizeTurns(previousSummary, turns);
+
+export class ConversationMemoryService {
+  private cache = new Map<string, ConversationMemory>();
+
+  constructor(
+    private store: ConversationMemoryStore,
+    private now: () => number = Date.now
+  ) {}
+
+  async get(conversationId: string): Promise<ConversationMemory> {
+    try {
+      const stored = await this.store.load(conversationId);
+      if (stored) {
+        this.remember(stored);
+        return stored;
+      }
+    } catch (error) {
+      console.warn(`⚠️ Conversation memory unavailable (${this.store.name}), using in-process state:`, error);
+    }
+
+    return this.cache.get(conversationId) ?? createConversationMemory(conversationId, this.now());
+  }
+
+  /**
+   * Append a turn, rolling older turns into the summary once the conversation gets long
+   * The summarizer falls back to summarizeTurns if it fails. Both writes go through the store's
+   * modify, so replies finishing at the same time can't overwrite each other's turns
+   */
+  async recordTurn(
+    conversationId: string,
+    role: ConversationTurn['role'],
+    content: string,
+    summarizer: ConversationSummarizer = fallbackSummarizer
+  ): Promise<ConversationMemory> {
+    const turn: ConversationTurn = { role, content, timestamp: this.now() };
+    const memory = await this.modify(conversationId, current => appendTurn(current, turn));
+
+    const rolled = turnsToRollUp(memory);
+    if (!rolled) {
+      return memory;
+    }
+
+    // Summarized outside the store lock; the model call can take seconds
+    let summary: string;
+    try {
+      summary = await summarizer(memory.summary, rolled);
+    } catch (error) {
+      console.warn('⚠️ Conversation summarizer failed, using the plain summary:', error);
+      summary = summarizeTurns(memory.summary, rolled);
+    }
+
+    // Turns added since are kept; if another reply rolled these turns up first, its summary stands
+    return this.modify(conversationId, current =>
+      current.summarizedTurns === memory.summarizedTurns ? applyRollup(current, summary, rolled.length) : current
+    );
+  }
+
+  async update(conversationId: string, updates: ConversationMemoryUpdate): Promise<ConversationMemory> {
+    return this.modify(conversationId, current => ({ ...current, ...updates, updatedAt: this.now() }));
+  }
+
+  private async modify(
+    conversationId: string,
+    change: (current: ConversationMemory) => ConversationMemory
+  ): Promise<ConversationMemory> {
+    const fromCache = () => this.cache.get(conversationId) ?? createConversationMemory(conversationId, this.now());
+
+    let memory: ConversationMemory;
+    try {
+      memory = await this.store.modify(conversationId, current => change(current ?? fromCache()));
+    } catch (error) {
+      console.warn(`⚠️ Could not save conversation memory (${this.store.name}):`, error);
+      memory = change(fromCache());
+    }
+
+    this.remember(memory);
+    return memory;
+  }
+
+  private remember(memory: ConversationMemory): void {
+    this.cache.delete(memory.conversationId);
+    this.cache.set(memory.conversationId, memory);
+    if (this.cache.size > MAX_CACHED_CONVERSATIONS) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+  }
+}
+
+let defaultService: ConversationMemoryService | null = null;
+
+export function getConversationMemoryService(): ConversationMemoryService {
+  if (!defaultService) {
+    defaultService = new ConversationMemoryService(createPostgresConversationMemoryStore());
+  }
+  return defaultService;
+}
@@ -0,0 +1,110 @@
+/**
+ * Conversation Memory Stores
+ * Postgres on the conversation_memory table (migration 010), one row per conversation,
+ * and a process-local store for tests and scripts without a database
+ */
+
+import type { PoolClient } from 'pg';
+import pool from '../db';
+import { ensureSchema } from '../migrations/runner';
+import type { ConversationMemory, ConversationMemoryStore } from './types';
+
+function mapMemoryRow(row: any): ConversationMemory {
+  return {
+    conversationId: row.conversation_id,
+    summary: row.summary,
+    summarizedTurns: row.summarized_turns,
+    recentTurns: row.recent_turns ?? [],
+    facts: row.facts ?? {},
+    awaitingConfirmation: row.awaiting_confirmation,
+    pendingProposal: row.pending_proposal ?? undefined,
+    draft: row.draft ?? undefined,
+    updatedAt: new Date(row.updated_at).getTime(),
+  };
+}
+
+async function saveMemoryRow(client: PoolClient, memory: ConversationMemory): Promise<void> {
+  await client.query(`
+    UPDATE conversation_memory SET
+      summary = $2,
+      summarized_turns = $3,
+      recent_turns = $4,
+      facts = $5,
+      awaiting_confirmation = $6,
+      pending_proposal = $7,
+      draft = $8,
+      updated_at = $9
+    WHERE conversation_id = $1
+  `, [
+    memory.conversationId,
+    memory.summary,
+    memory.summarizedTurns,
+    JSON.stringify(memory.recentTurns),
+    JSON.stringify(memory.facts),
+    memory.awaitingConfirmation,
+    memory.pendingProposal ?? null,
+    memory.draft ? JSON.stringify(memory.draft) : null,
+    new Date(memory.updatedAt),
+  ]);
+}
+
+export function createPostgresConversationMemoryStore(): ConversationMemoryStore {
+  return {
+    name: 'postgres',
+
+    async load(conversationId) {
+      await ensureSchema();
+      const result = await pool.query('SELECT * FROM conversation_memory WHERE conversation_id = $1', [conversationId]);
+      return result.rows[0] ? mapMemoryRow(result.rows[0]) : null;
+    },
+
+    async modify(conversationId, change) {
+      await ensureSchema();
+      const client = await pool.connect();
+
+      try {
+        await client.query('BEGIN');
+
+        // Insert first so there is always a row to lock: two first messages in a new conversation
+        // then queue on the insert instead of both starting from nothing
+        const created = await client.query(
+          'INSERT INTO conversation_memory (conversation_id) VALUES ($1) ON CONFLICT (conversation_id) DO NOTHING RETURNING conversation_id',
+          [conversationId]
+        );
+        const current = created.rows.length > 0
+          ? null
+          : mapMemoryRow((await client.query('SELECT * FROM conversation_memory WHERE conversation_id = $1 FOR UPDATE', [conversationId])).rows[0]);
+
+        const memory = change(current);
+        await saveMemoryRow(client, memory);
+        await client.query('COMMIT');
+        return memory;
+      } catch (error) {
+        await client.query('ROLLBACK').catch(() => undefined);
+        throw error;
+      } finally {
+        client.release();
+      }
+    },
+  };
+}
+
+export function createInMemoryConversationMemoryStore(): ConversationMemoryStore {
+  const memories = new Map<string, ConversationMemory>();
+
+  return {
+    name: 'memory',
+
+    async load(conversationId) {
+      const memory = memories.get(conversationId);
+      return memory ? structuredClone(memory) : null;
+    },
+
+    async modify(conversationId, change) {
+      const current = memories.get(conversationId);
+      const memory = change(current ? structuredClone(current) : null);
+      memories.set(conversationId, structuredClone(memory));
+      return structuredClone(memory);
+    },
+  };
+}
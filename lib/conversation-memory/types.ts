@@ -0,0 +1,55 @@
+/**
+ * Conversation Memory Types
+ * What the AI bot remembers about a conversation between messages (and restarts)
+ */
+
+import type { PredictionDraft } from '../bot-agent/types';
+import type { ExerciseId } from '../exercises';
+import type { SupportedChain } from '../services/dual-chain-service';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number; // Epoch ms
+}
+
+/**
+ * Things the user told us that should shape later proposals
+ */
+export interface ConversationFacts {
+  timezone?: string; // IANA name ("Europe/London"), abbreviation ("EST") or offset ("UTC+3"), as the user wrote it
+  preferredChain?: SupportedChain;
+  // Latest amounts mentioned per exercise (reps, or meters for distance exercises), newest last
+  exerciseAmounts?: Partial<Record<ExerciseId, number[]>>;
+}
+
+export interface ConversationMemory {
+  conversationId: string;
+  summary: string; // Running summary of every turn no longer in recentTurns
+  summarizedTurns: number;
+  recentTurns: ConversationTurn[];
+  facts: ConversationFacts;
+  awaitingConfirmation: boolean;
+  pendingProposal?: string; // Free-text proposal a "yes" would create (from before the bot agent)
+  draft?: PredictionDraft; // The bot agent's current draft
+  updatedAt: number;
+}
+
+/**
+ * Folds turns into the previous summary; the LLM summarizer, or summarizeTurns when there's no model
+ */
+export type ConversationSummarizer = (previousSummary: string, turns: ConversationTurn[]) => Promise<string>;
+
+export interface ConversationMemoryStore {
+  name: 'postgres' | 'memory';
+  load(conversationId: string): Promise<ConversationMemory | null>;
+  /**
+   * Read, change and save one conversation with no other write in between; change gets the stored
+   * memory (null if there is none) and returns what to save. Postgres holds the row lock meanwhile,
+   * so change must not wait on anything
+   */
+  modify(
+    conversationId: string,
+    change: (current: ConversationMemory | null) => ConversationMemory
+  ): Promise<ConversationMemory>;
+}
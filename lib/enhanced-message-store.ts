@@ -14,6 +14,7 @@ import { Pool } from 'pg';
 import Redis from 'ioredis';
 import { Redis as UpstashRedis } from '@upstash/redis';
 import { Client } from '@xmtp/node-sdk';
+import { migrateUp } from './migrations/runner';
 
 export interface StoredMessage {
   id: string;
@@ -162,51 +163,11 @@ export class EnhancedMessageStore {
   }
 
   /**
-   * Initialize database tables
+   * Initialize database tables (xmtp_* tables live in migration 001)
    */
   private async initializeDatabase(): Promise<void> {
     try {
-      // Create messages table
-      await this.pg.query(`
-        CREATE TABLE IF NOT EXISTS xmtp_messages (
-          id VARCHAR(255) PRIMARY KEY,
-          conversation_id VARCHAR(255) NOT NULL,
-          sender_address VARCHAR(255) NOT NULL,
-          sender_inbox_id VARCHAR(255),
-          content TEXT NOT NULL,
-          timestamp BIGINT NOT NULL,
-          message_type VARCHAR(50) NOT NULL,
-          metadata JSONB,
-          synced BOOLEAN DEFAULT false,
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-        );
-      `);
-
-      // Create conversations table
-      await this.pg.query(`
-        CREATE TABLE IF NOT EXISTS xmtp_conversations (
-          id VARCHAR(255) PRIMARY KEY,
-          peer_address VARCHAR(255) NOT NULL,
-          peer_inbox_id VARCHAR(255),
-          topic VARCHAR(255) NOT NULL,
-          created_at BIGINT NOT NULL,
-          last_message_at BIGINT NOT NULL,
-          message_count INTEGER DEFAULT 0,
-          is_active BOOLEAN DEFAULT true,
-          synced_at BIGINT
-        );
-      `);
-
-      // Create indexes for better performance
-      await this.pg.query(`
-        CREATE INDEX IF NOT EXISTS idx_messages_conversation_id ON xmtp_messages(conversation_id);
-        CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON xmtp_messages(timestamp);
-        CREATE INDEX IF NOT EXISTS idx_messages_sender ON xmtp_messages(sender_address);
-        CREATE INDEX IF NOT EXISTS idx_conversations_peer ON xmtp_conversations(peer_address);
-        CREATE INDEX IF NOT EXISTS idx_conversations_active ON xmtp_conversations(is_active);
-      `);
-
+      await migrateUp({ db: this.pg });
       console.log('✅ Database tables initialized successfully');
     } catch (error) {
       console.error('❌ Error initializing database:', error);
@@ -6,6 +6,10 @@
 import { ethers } from 'ethers';
 import { CHAIN_CONFIG, type SupportedChain } from '@/lib/services/dual-chain-service';
 import { unifiedPredictionMarketABI } from '@/lib/unified-prediction-market-abi';
+import {
+  createOnChainFitnessReader,
+  getFitnessDataReader,
+} from '@/lib/services/fitness-data-reader';
 
 // Interface for verification result
 interface VerificationResult {
@@ -19,61 +23,68 @@ interface VerificationResult {
 
 // Interface for cross-chain verification
 interface CrossChainVerification {
-  sourceChain: SupportedChain;
+  sourceChain: string; // Fitness network the reps were read from
   targetChain: SupportedChain;
-  exerciseType: string; // 'pushups', 'squats', 'pullups', etc.
+  exerciseType: string; // 'pushups', 'squats', 'total-exercises'
   userId: string;
   amount: number;
   timestamp: number;
+  blockNumber: number | null;
   verificationHash: string;
 }
 
+// Time window (unix seconds) that exercise must fall within to count
+export interface VerificationWindow {
+  start: number;
+  end: number;
+}
+
+function defaultWindow(): VerificationWindow {
+  return { start: 0, end: Math.floor(Date.now() / 1000) };
+}
+
 /**
- * Verify exercise completion on BNB Chain
+ * Verify exercise completion from on-chain fitness data
+ * Reads the given BNB Chain fitness contract, otherwise every fitness network the reader knows
  */
-export async function verifyBNBExerciseCompletion(
+export async function verifyExerciseCompletion(
   userId: string,
   exerciseType: string,
   requiredAmount: number,
-  contractAddress?: string
+  contractAddress?: string,
+  window: VerificationWindow = defaultWindow()
 ): Promise<VerificationResult> {
   try {
-    // Use BNB Chain provider
-    const config = CHAIN_CONFIG.bsc;
-    const provider = new ethers.JsonRpcProvider(config.rpcUrl);
-    
-    // If no specific contract address provided, use the default one
-    const contractAddr = contractAddress || config.contractAddress;
-    
-    // For demonstration purposes, we'll simulate verification
-    // In a real implementation, this would check on-chain fitness data
-    console.log(`Verifying ${exerciseType} completion for user ${userId} on BNB Chain`);
-    
-    // Simulate checking fitness data from on-chain contracts
-    const simulatedData = {
-      pushups: Math.floor(Math.random() * 2000), // Random amount between 0-2000
-      squats: Math.floor(Math.random() * 2000),
-      pullups: Math.floor(Math.random() * 500),
-      jumps: Math.floor(Math.random() * 1000),
-      situps: Math.floor(Math.random() * 2000),
-    };
-    
-    const actualAmount = simulatedData[exerciseType as keyof typeof simulatedData] || 0;
-    
-    const success = actualAmount >= requiredAmount;
-    const confidence = Math.min(100, Math.floor((actualAmount / requiredAmount) * 100));
-    
+    const reader = contractAddress
+      ? createOnChainFitnessReader({
+          bsc: { contractAddress, rpcUrls: [CHAIN_CONFIG.bsc.rpcUrl] },
+        })
+      : getFitnessDataReader();
+
+    console.log(`Verifying ${exerciseType} completion for user ${userId} on ${contractAddress ? 'BNB Chain' : 'every fitness network'}`);
+
+    const reading = await reader.read({
+      addresses: [userId],
+      exerciseType,
+      windowStart: window.start,
+      windowEnd: window.end,
+    });
+
+    const actualAmount = reading.amount;
+    const success = reading.confidence > 0 && actualAmount >= requiredAmount;
+
     return {
       success,
       verifiedAmount: actualAmount,
       totalRequired: requiredAmount,
-      confidence: success ? confidence : Math.max(0, confidence),
+      confidence: Math.round(reading.confidence * 100),
+      proof: reading.proofHash,
       message: success 
         ? `Successfully verified ${actualAmount} ${exerciseType} (required: ${requiredAmount})` 
         : `Verification failed: ${actualAmount} ${exerciseType} (required: ${requiredAmount})`,
     };
   } catch (error) {
-    console.error('Error in BNB exercise verification:', error);
+    console.error('Error in exercise verification:', error);
     return {
       success: false,
       verifiedAmount: 0,
@@ -86,46 +97,43 @@ export async function verifyBNBExerciseCompletion(
 
 /**
  * Cross-chain verification between different networks
+ * Returns one entry per fitness network that recorded activity in the window
  */
 export async function verifyCrossChainExercise(
   userId: string,
   exerciseType: string,
   requiredAmount: number,
-  sourceChains: SupportedChain[] = ['celo', 'base', 'bsc']
+  sourceChains: string[] = ['polygon', 'celo', 'monad', 'base'],
+  window: VerificationWindow = defaultWindow()
 ): Promise<CrossChainVerification[]> {
   const results: CrossChainVerification[] = [];
-  
+  const reader = getFitnessDataReader();
+
   for (const chain of sourceChains) {
     try {
-      // Get chain config
-      const config = CHAIN_CONFIG[chain];
-      const provider = new ethers.JsonRpcProvider(config.rpcUrl);
-      
-      // This would typically call a fitness tracking contract on each chain
-      // For simulation, we'll use the same logic as above
-      const simulatedData = {
-        pushups: Math.floor(Math.random() * 2000),
-        squats: Math.floor(Math.random() * 2000),
-        pullups: Math.floor(Math.random() * 500),
-        jumps: Math.floor(Math.random() * 1000),
-        situps: Math.floor(Math.random() * 2000),
-      };
-      
-      const actualAmount = simulatedData[exerciseType as keyof typeof simulatedData] || 0;
-      
-      if (actualAmount >= requiredAmount) {
-        const verification: CrossChainVerification = {
-          sourceChain: chain,
-          targetChain: 'bsc', // Assuming BNB Chain is the target
-          exerciseType,
-          userId,
-          amount: actualAmount,
-          timestamp: Date.now(),
-          verificationHash: `0x${Math.random().toString(16).substr(2, 64)}`, // Simulated hash
-        };
-        
-        results.push(verification);
+      const reading = await reader.read({
+        addresses: [userId],
+        exerciseType,
+        windowStart: window.start,
+        windowEnd: window.end,
+        networks: [chain],
+      });
+
+      const networkReading = reading.networks[0];
+      if (!networkReading?.ok || reading.amount === 0) {
+        continue;
       }
+
+      results.push({
+        sourceChain: chain,
+        targetChain: 'bsc', // Assuming BNB Chain is the target
+        exerciseType: reading.exerciseType,
+        userId,
+        amount: reading.amount,
+        timestamp: window.end * 1000,
+        blockNumber: networkReading.blockNumber,
+        verificationHash: reading.proofHash,
+      });
     } catch (error) {
       console.error(`Error verifying ${exerciseType} on ${chain}:`, error);
       // Continue with other chains even if one fails
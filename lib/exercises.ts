@@ -0,0 +1,291 @@
+/**
+ * Exercise Registry
+ * The exercises the platform understands: how they're named, measured, weighted against each other
+ * and, where the contracts can encode them, mapped onto SweatEquityBot's ExerciseType enum
+ * Shared by the browser (labels, emoji) and the server (parsers, validation, storage)
+ */
+
+export type ExerciseId =
+  | 'pushups'
+  | 'squats'
+  | 'pullups'
+  | 'situps'
+  | 'jumps'
+  | 'running'
+  | 'cycling'
+  | 'custom';
+
+export type ExerciseUnit = 'reps' | 'meters';
+
+export interface ExerciseDefinition {
+  id: ExerciseId;
+  displayName: string; // "Push-ups"
+  singular: string; // "push-up"
+  unit: ExerciseUnit;
+  emoji: string;
+  // Words that name the exercise in free text; "-" matches a space, hyphen or nothing and plurals are implied
+  aliases: string[];
+  // Effort points per unit, so a 5km run and 300 push-ups can share a leaderboard
+  effortPointsPerUnit: number;
+  // SweatEquityBot.ExerciseType value, null when the contract can't encode the exercise
+  contractExerciseType: number | null;
+  // Field of the fitness leaderboard Score struct that records it
+  leaderboardField: 'pushups' | 'squats' | null;
+  // Imported workout sport (lib/workout-import) that records it
+  workoutSport: 'running' | 'cycling' | null;
+  // Most a person can believably do in a day, used to flag implausible targets
+  dailyCeiling: number;
+}
+
+export const EXERCISES: Record<ExerciseId, ExerciseDefinition> = {
+  pushups: {
+    id: 'pushups',
+    displayName: 'Push-ups',
+    singular: 'push-up',
+    unit: 'reps',
+    emoji: '💪',
+    aliases: ['push-up', 'press-up'],
+    effortPointsPerUnit: 1,
+    contractExerciseType: 0,
+    leaderboardField: 'pushups',
+    workoutSport: null,
+    dailyCeiling: 3000,
+  },
+  squats: {
+    id: 'squats',
+    displayName: 'Squats',
+    singular: 'squat',
+    unit: 'reps',
+    emoji: '🦵',
+    aliases: ['squat'],
+    effortPointsPerUnit: 0.8,
+    contractExerciseType: 1,
+    leaderboardField: 'squats',
+    workoutSport: null,
+    dailyCeiling: 4000,
+  },
+  pullups: {
+    id: 'pullups',
+    displayName: 'Pull-ups',
+    singular: 'pull-up',
+    unit: 'reps',
+    emoji: '🏋️',
+    aliases: ['pull-up', 'chin-up'],
+    effortPointsPerUnit: 3,
+    contractExerciseType: null,
+    leaderboardField: null,
+    workoutSport: null,
+    dailyCeiling: 1000,
+  },
+  situps: {
+    id: 'situps',
+    displayName: 'Sit-ups',
+    singular: 'sit-up',
+    unit: 'reps',
+    emoji: '🧘',
+    aliases: ['sit-up', 'crunch'],
+    effortPointsPerUnit: 0.6,
+    contractExerciseType: null,
+    leaderboardField: null,
+    workoutSport: null,
+    dailyCeiling: 5000,
+  },
+  jumps: {
+    id: 'jumps',
+    displayName: 'Jumps',
+    singular: 'jump',
+    unit: 'reps',
+    emoji: '🦘',
+    aliases: ['jump', 'jumping-jack', 'star-jump'],
+    effortPointsPerUnit: 0.3,
+    contractExerciseType: null,
+    leaderboardField: null,
+    workoutSport: null,
+    dailyCeiling: 10000,
+  },
+  running: {
+    id: 'running',
+    displayName: 'Running',
+    singular: 'run',
+    unit: 'meters',
+    emoji: '🏃',
+    aliases: ['run', 'running', 'ran', 'jog', 'jogging'],
+    effortPointsPerUnit: 0.06,
+    contractExerciseType: null,
+    leaderboardField: null,
+    workoutSport: 'running',
+    dailyCeiling: 100000,
+  },
+  cycling: {
+    id: 'cycling',
+    displayName: 'Cycling',
+    singular: 'ride',
+    unit: 'meters',
+    emoji: '🚴',
+    aliases: ['ride', 'riding', 'rode', 'cycle', 'cycling', 'bike', 'biking'],
+    effortPointsPerUnit: 0.02,
+    contractExerciseType: null,
+    leaderboardField: null,
+    workoutSport: 'cycling',
+    dailyCeiling: 400000,
+  },
+  custom: {
+    id: 'custom',
+    displayName: 'Custom',
+    singular: 'rep',
+    unit: 'reps',
+    emoji: '🎯',
+    aliases: [],
+    effortPointsPerUnit: 1,
+    contractExerciseType: null,
+    leaderboardField: null,
+    workoutSport: null,
+    dailyCeiling: 10000,
+  },
+};
+
+export const EXERCISE_IDS = Object.keys(EXERCISES) as ExerciseId[];
+
+export function getExercise(id: ExerciseId): ExerciseDefinition {
+  return EXERCISES[id];
+}
+
+export function isExerciseId(value: unknown): value is ExerciseId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EXERCISES, value);
+}
+
+/**
+ * Whether results for the exercise can be read without a human: from the leaderboard contracts or imported workouts
+ */
+export function isAutoVerifiable(exercise: ExerciseDefinition): boolean {
+  return exercise.leaderboardField !== null || exercise.workoutSport !== null;
+}
+
+/**
+ * Exercises SweatEquityBot can hold a challenge for, in enum order
+ */
+export function getContractExercises(): ExerciseDefinition[] {
+  return Object.values(EXERCISES)
+    .filter(e => e.contractExerciseType !== null)
+    .sort((a, b) => (a.contractExerciseType as number) - (b.contractExerciseType as number));
+}
+
+export function fromContractExerciseType(exerciseType: number): ExerciseDefinition | null {
+  return getContractExercises().find(e => e.contractExerciseType === exerciseType) || null;
+}
+
+function aliasPattern(alias: string): string {
+  const escaped = alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/-/g, '[\\s-]?');
+  return `${escaped}(?:es|s)?`;
+}
+
+/**
+ * Regex source matching any alias of the given exercises as a whole word, longest alias first
+ */
+export function exerciseAliasPattern(ids: ExerciseId[] = EXERCISE_IDS): string {
+  const aliases = ids
+    .flatMap(id => EXERCISES[id].aliases)
+    .sort((a, b) => b.length - a.length)
+    .map(aliasPattern);
+
+  return aliases.length > 0 ? `\\b(?:${aliases.join('|')})\\b` : '(?!)';
+}
+
+/**
+ * Map a free-form exercise name ("Press-ups", "pull_up", "squats") onto a registry ID
+ */
+export function normalizeExerciseId(name: string): ExerciseId | null {
+  const trimmed = name.trim().toLowerCase().replace(/_/g, '-');
+  if (isExerciseId(trimmed)) {
+    return trimmed;
+  }
+
+  return EXERCISE_IDS.find(id => new RegExp(`^${exerciseAliasPattern([id])}$`, 'i').test(trimmed)) || null;
+}
+
+export interface ExerciseMention {
+  exercise: ExerciseDefinition;
+  amount: number | null; // Reps, or meters for distance exercises
+  text: string;
+}
+
+const DISTANCE_UNITS: Record<string, number> = { km: 1000, kilometer: 1000, kilometre: 1000, mi: 1609.344, mile: 1609.344, m: 1, meter: 1, metre: 1 };
+const DISTANCE_PATTERN = /(\d[\d,]*(?:\.\d+)?)\s*(km|kilomet(?:er|re)s?|mi|miles?|m|met(?:er|re)s?)\b/i;
+
+/**
+ * Convert "10 km", "3.1 miles" or "5000m" to meters
+ */
+export function parseDistanceMeters(text: string): number | null {
+  const match = text.match(DISTANCE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const unit = match[2].toLowerCase().replace(/s$/, '');
+  const meters = parseFloat(match[1].replace(/,/g, '')) * (DISTANCE_UNITS[unit] ?? NaN);
+  return Number.isFinite(meters) && meters > 0 ? meters : null;
+}
+
+/**
+ * First exercise named in free text, with the amount attached to it ("500 push-ups", "run 10km") if there is one
+ */
+export function findExerciseMention(text: string, ids: ExerciseId[] = EXERCISE_IDS): ExerciseMention | null {
+  const match = text.match(new RegExp(exerciseAliasPattern(ids), 'i'));
+  if (!match || match.index === undefined) {
+    return null;
+  }
+
+  const exercise = EXERCISES[normalizeExerciseId(match[0]) as ExerciseId];
+  let amount: number | null = null;
+
+  if (exercise.unit === 'meters') {
+    amount = parseDistanceMeters(text);
+  } else {
+    const before = text.slice(0, match.index).match(/(\d[\d,]*)\s*$/);
+    amount = before ? parseInt(before[1].replace(/,/g, ''), 10) : null;
+  }
+
+  return { exercise, amount, text: match[0] };
+}
+
+/**
+ * Exercise a prediction is about: a rep exercise, or a distance exercise with a distance ("run 10km", not "bull run")
+ */
+export function findPredictedExercise(text: string): ExerciseMention | null {
+  const mention = findExerciseMention(text);
+  return mention && (mention.exercise.unit === 'reps' || mention.amount !== null) ? mention : null;
+}
+
+export function toEffortPoints(id: ExerciseId, amount: number): number {
+  return Math.round(amount * EXERCISES[id].effortPointsPerUnit * 100) / 100;
+}
+
+/**
+ * "500 push-ups", "1 squat", "5.2 km running"
+ */
+export function formatExerciseAmount(id: ExerciseId, amount: number): string {
+  const exercise = EXERCISES[id];
+
+  if (exercise.unit === 'meters') {
+    return `${Number((amount / 1000).toFixed(1)).toLocaleString()} km ${exercise.displayName.toLowerCase()}`;
+  }
+  return `${amount.toLocaleString()} ${amount === 1 ? exercise.singular : exercise.displayName.toLowerCase()}`;
+}
+
+/**
+ * Supported-exercise section for LLM system prompts
+ */
+export function describeExercisesForPrompt(): string {
+  return Object.values(EXERCISES)
+    .filter(e => e.id !== 'custom')
+    .map(e => {
+      const unit = e.unit === 'meters' ? 'distance in meters' : 'reps';
+      const verification = e.leaderboardField
+        ? 'tracked on-chain, auto-resolvable'
+        : e.workoutSport
+          ? 'from imported GPS workouts, auto-resolvable'
+          : 'needs manual or community resolution';
+      return `- ${e.emoji} ${e.displayName} (${unit}): ${verification}`;
+    })
+    .join('\n');
+}
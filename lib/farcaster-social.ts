@@ -14,6 +14,10 @@ export interface FarcasterUser {
 const followsCache = new Map<number, { follows: number[], timestamp: number }>();
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
+// Relative in the browser; absolute on the server (e.g. community review panel selection)
+const apiUrl = (path: string): string =>
+  typeof window === 'undefined' ? `${process.env.NEXT_PUBLIC_URL || 'http://localhost:3000'}${path}` : path;
+
 /**
  * Fetch follows for a Farcaster user
  * @param fid Farcaster ID
@@ -30,7 +34,7 @@ export const fetchFollows = async (fid: number, limit: number = 100): Promise<nu
   try {
     // Use our server-side API route instead of directly accessing Neynar
     const response = await fetch(
-      `/api/farcaster/follows?fid=${fid}&limit=${limit}`,
+      apiUrl(`/api/farcaster/follows?fid=${fid}&limit=${limit}`),
       {
         method: 'GET',
         headers: {
@@ -88,7 +92,7 @@ export const addressToFid = async (address: string): Promise<number | null> => {
   try {
     // Use a server-side API route instead of directly accessing the Neynar API
     const response = await fetch(
-      `/api/farcaster/address-to-fid?address=${address}`,
+      apiUrl(`/api/farcaster/address-to-fid?address=${address}`),
       {
         method: 'GET',
         headers: {
@@ -178,7 +182,7 @@ export const batchAddressesToFids = async (addresses: string[]): Promise<Map<str
 
       // Use our server-side API route instead of directly accessing Neynar
       const response = await fetch(
-        `/api/farcaster/batch-addresses-to-fids?addresses=${batch.join(',')}`,
+        apiUrl(`/api/farcaster/batch-addresses-to-fids?addresses=${batch.join(',')}`),
         {
           method: 'GET',
           headers: {
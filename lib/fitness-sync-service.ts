@@ -1,5 +1,8 @@
 import { fetchAllNetworksDataServer, getMultiAddressFitnessDataServer, NetworkData, Score } from './services/blockchain-server';
-import { getUserStreak, UserStreak } from './streaks-service-pg';
+import { getUserStreak, capActivityDates, advanceStreak, UserStreak } from './streaks-service-pg';
+import { getLocalDateString } from './services/timezone-service';
+import { setExerciseTotals } from './services/exercise-totals';
+import { EXERCISES, type ExerciseId } from './exercises';
 import pool from './db';
 
 /**
@@ -174,8 +177,10 @@ async function updateUserFitnessData(fid: number, score: Score, network: string)
     const verifiedAddresses = await getVerifiedAddressesForFid(fid);
     
     // Check if this is new activity (more recent than last sync)
+    // The activity day is taken from the user's local calendar, not UTC
+    const timezone = currentStreak.timezone || 'UTC';
     const activityDate = new Date(score.timestamp * 1000);
-    const activityDateStr = activityDate.toISOString().split('T')[0];
+    const activityDateStr = getLocalDateString(activityDate, timezone);
     
     const lastSyncDate = currentStreak.lastFitnessSync ? 
       new Date(currentStreak.lastFitnessSync) : 
@@ -186,40 +191,26 @@ async function updateUserFitnessData(fid: number, score: Score, network: string)
     // Calculate if this should trigger a streak update
     let shouldUpdateStreak = false;
     let newActivityDates = [...currentStreak.activityDates];
+    let newActivityTimestamps = [...(currentStreak.activityTimestamps || [])];
     
     if (isNewActivity && !currentStreak.activityDates.includes(activityDateStr)) {
       shouldUpdateStreak = true;
-      newActivityDates.push(activityDateStr);
-      
-      // Keep only last 100 days for efficiency
-      if (newActivityDates.length > 100) {
-        newActivityDates.sort().reverse();
-        newActivityDates.length = 100;
-      }
+      newActivityDates = capActivityDates([...newActivityDates, activityDateStr]);
+      newActivityTimestamps = capActivityDates([...newActivityTimestamps, activityDate.toISOString()]);
     }
     
-    // Calculate new streak if needed
+    // Calculate new streak if needed (continuing, bridged by a freeze, or restarted)
     let newStreak = currentStreak.currentStreak;
     let newLongestStreak = currentStreak.longestStreak;
+    let freezeBalance = currentStreak.freezeBalance || 0;
+    let freezeHistory = currentStreak.freezeHistory || [];
     
     if (shouldUpdateStreak) {
-      // Calculate yesterday
-      const today = new Date();
-      today.setUTCHours(0, 0, 0, 0);
-      const yesterday = new Date(today);
-      yesterday.setDate(yesterday.getDate() - 1);
-      const yesterdayStr = yesterday.toISOString().split('T')[0];
-      
-      // Update streak logic
-      if (currentStreak.lastActivityDate === yesterdayStr) {
-        // Continuing streak
-        newStreak = currentStreak.currentStreak + 1;
-      } else {
-        // New streak or broken streak
-        newStreak = 1;
-      }
-      
-      newLongestStreak = Math.max(currentStreak.longestStreak, newStreak);
+      const next = advanceStreak(currentStreak, activityDateStr);
+      newStreak = next.currentStreak;
+      newLongestStreak = next.longestStreak;
+      freezeBalance = next.freezeBalance;
+      freezeHistory = next.freezeHistory;
     }
     
     // Update database
@@ -243,15 +234,23 @@ async function updateUserFitnessData(fid: number, score: Score, network: string)
         total_pushups,
         total_squats,
         last_fitness_sync,
-        wallet_addresses
+        wallet_addresses,
+        activity_timestamps,
+        timezone,
+        activity_dates_timezone,
+        freeze_balance,
+        freeze_history
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $11, $12, $12, $13, $14)
       ON CONFLICT (user_id)
       DO UPDATE SET
         current_streak = CASE WHEN $10 THEN $2 ELSE user_streaks.current_streak END,
         longest_streak = CASE WHEN $10 THEN $3 ELSE GREATEST(user_streaks.longest_streak, $3) END,
         last_activity_date = CASE WHEN $10 THEN $4 ELSE user_streaks.last_activity_date END,
         activity_dates = CASE WHEN $10 THEN $5 ELSE user_streaks.activity_dates END,
+        activity_timestamps = CASE WHEN $10 THEN $11 ELSE user_streaks.activity_timestamps END,
+        freeze_balance = CASE WHEN $10 THEN $13 ELSE user_streaks.freeze_balance END,
+        freeze_history = CASE WHEN $10 THEN $14 ELSE user_streaks.freeze_history END,
         total_pushups = $6,
         total_squats = $7,
         last_fitness_sync = $8,
@@ -266,9 +265,22 @@ async function updateUserFitnessData(fid: number, score: Score, network: string)
       score.squats,
       activityDate.toISOString(),
       JSON.stringify(verifiedAddresses),
-      shouldUpdateStreak // Parameter for conditional updates
+      shouldUpdateStreak, // Parameter for conditional updates
+      JSON.stringify(newActivityTimestamps),
+      timezone,
+      freezeBalance,
+      JSON.stringify(freezeHistory)
     ]);
 
+    // Per-exercise totals for every exercise the leaderboard contracts record
+    const leaderboardTotals: Partial<Record<ExerciseId, number>> = {};
+    for (const exercise of Object.values(EXERCISES)) {
+      if (exercise.leaderboardField) {
+        leaderboardTotals[exercise.id] = score[exercise.leaderboardField];
+      }
+    }
+    await setExerciseTotals(fid.toString(), 'leaderboard', leaderboardTotals, client);
+
     console.log(`[updateUserFitnessData] Database update completed successfully`);
     
     if (shouldUpdateStreak) {
@@ -4,23 +4,38 @@
  * Aligns with Base Batches Messaging Buildathon focus areas
  */
 
-import { enhancedMessageStore, StoredMessage } from './enhanced-message-store';
+import {
+  EXERCISES,
+  findExerciseMention,
+  formatExerciseAmount,
+  normalizeExerciseId,
+  parseDistanceMeters,
+  type ExerciseId,
+} from './exercises';
+import {
+  addParticipant,
+  createChallenge,
+  getActiveChallenges,
+  getChallenge,
+  recordProgress,
+  recordStake,
+} from './services/group-challenge-store';
 
 export interface GroupChallenge {
   id: string;
   name: string;
   description: string;
-  type: 'pushups' | 'squats' | 'custom';
-  target: number;
+  type: ExerciseId;
+  target: number; // In the exercise's unit (reps or meters)
   duration: number; // days
   participants: string[];
-  stakes: { [address: string]: number }; // ETH staked per participant
+  stakes: { [address: string]: number }; // ETH pledged per participant (recorded, never transferred)
   startDate: number;
   endDate: number;
   status: 'pending' | 'active' | 'completed';
   leaderboard: { address: string; score: number; lastUpdate: number }[];
   rewards: {
-    winner: number; // percentage of total stakes
+    winner: number; // percentage of total pledges
     participation: number; // percentage for completing challenge
   };
 }
@@ -30,7 +45,7 @@ export interface GroupFitnessCommands {
   '/join': 'Join an active challenge';
   '/progress': 'Update your progress in a challenge';
   '/leaderboard': 'View current challenge standings';
-  '/stake': 'Add ETH stake to increase motivation';
+  '/stake': 'Pledge ETH to the winners (a promise between members, no ETH moves)';
   '/motivate': 'Send motivational message to group';
 }
 
@@ -92,6 +107,17 @@ export async function processGroupFitnessCommand(
   return '';
 }
 
+// Intermediate-level challenge suggested per exercise, in the exercise's unit
+const CHALLENGE_SUGGESTIONS: Partial<Record<ExerciseId, { target: number; days: number }>> = {
+  pushups: { target: 1000, days: 7 },
+  squats: { target: 500, days: 5 },
+  pullups: { target: 200, days: 7 },
+  situps: { target: 700, days: 7 },
+  jumps: { target: 2000, days: 7 },
+  running: { target: 25000, days: 7 },
+  cycling: { target: 100000, days: 7 },
+};
+
 /**
  * Handle natural language challenge creation
  */
@@ -101,27 +127,17 @@ async function handleNaturalChallenge(
   conversationId: string
 ): Promise<string> {
   // Extract exercise type from message
-  const lowerMessage = message.toLowerCase();
-  let exerciseType = 'pushups'; // default
-
-  if (lowerMessage.includes('squat')) exerciseType = 'squats';
-  else if (lowerMessage.includes('pushup') || lowerMessage.includes('push-up')) exerciseType = 'pushups';
-  else if (lowerMessage.includes('pullup') || lowerMessage.includes('pull-up')) exerciseType = 'pullups';
+  const exercise = findExerciseMention(message)?.exercise ?? EXERCISES.pushups;
 
   // Suggest a reasonable challenge
-  const suggestions = {
-    pushups: { target: 1000, days: 7 },
-    squats: { target: 500, days: 5 },
-    pullups: { target: 200, days: 7 }
-  };
+  const suggestion = CHALLENGE_SUGGESTIONS[exercise.id] || CHALLENGE_SUGGESTIONS.pushups!;
+  const dailyTarget = Math.ceil(suggestion.target / suggestion.days);
 
-  const suggestion = suggestions[exerciseType as keyof typeof suggestions] || suggestions.pushups;
-
-  return `🏋️ **Let's Start a ${exerciseType.charAt(0).toUpperCase() + exerciseType.slice(1)} Challenge!**
+  return `${exercise.emoji} **Let's Start a ${exercise.displayName} Challenge!**
 
 🎯 **Suggested Challenge:**
-• **Goal:** ${suggestion.target} ${exerciseType} in ${suggestion.days} days
-• **Daily Target:** ~${Math.ceil(suggestion.target / suggestion.days)} ${exerciseType}/day
+• **Goal:** ${formatExerciseAmount(exercise.id, suggestion.target)} in ${suggestion.days} days
+• **Daily Target:** ~${formatExerciseAmount(exercise.id, dailyTarget)}/day
 • **Difficulty:** Intermediate
 
 💪 **Ready to commit?** Reply with:
@@ -150,41 +166,44 @@ async function handleCreateChallenge(
 **Examples:**
 • \`/challenge pushups 1000 7\` - 1000 push-ups in 7 days
 • \`/challenge squats 500 5\` - 500 squats in 5 days
+• \`/challenge running 10km 7\` - 10 km running in 7 days
 
-**Challenge Types:** pushups, squats, custom
+**Challenge Types:** ${Object.keys(EXERCISES).join(', ')}
 
 💡 **Tip:** Try natural language instead: "Start a pushup challenge with jesse.base.eth"`;
   }
 
-  const type = parts[1] as 'pushups' | 'squats' | 'custom';
-  const target = parseInt(parts[2]);
+  const type = normalizeExerciseId(parts[1]);
+  if (!type) {
+    return `❌ Unknown exercise "${parts[1]}". Try one of: ${Object.keys(EXERCISES).join(', ')}`;
+  }
+
+  // Distance exercises take meters or a unit ("10km")
+  const target = EXERCISES[type].unit === 'meters'
+    ? parseDistanceMeters(parts[2]) ?? parseInt(parts[2])
+    : parseInt(parts[2]);
   const days = parseInt(parts[3]);
 
   if (isNaN(target) || isNaN(days) || target <= 0 || days <= 0) {
     return '❌ Invalid target or duration. Use positive numbers only.';
   }
 
-  const challenge: GroupChallenge = {
+  const challenge = await createChallenge(conversationId, {
     id: `challenge_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    name: `${type.charAt(0).toUpperCase() + type.slice(1)} Challenge`,
-    description: `Complete ${target} ${type} in ${days} days`,
+    name: `${EXERCISES[type].displayName} Challenge`,
+    description: `Complete ${formatExerciseAmount(type, target)} in ${days} days`,
     type,
     target,
     duration: days,
-    participants: [senderAddress],
-    stakes: {},
+    creator: senderAddress,
     startDate: Date.now(),
     endDate: Date.now() + (days * 24 * 60 * 60 * 1000),
     status: 'pending',
-    leaderboard: [{ address: senderAddress, score: 0, lastUpdate: Date.now() }],
     rewards: {
       winner: 70, // 70% to winner
       participation: 30 // 30% split among participants who complete
     }
-  };
-
-  // Store challenge (in production, use proper database)
-  await storeChallengeData(conversationId, challenge);
+  });
 
   return `🎯 **Challenge Created!**
 
@@ -195,7 +214,7 @@ ${challenge.description}
 **Creator:** ${senderAddress.slice(0, 6)}...${senderAddress.slice(-4)}
 
 **To join:** \`/join ${challenge.id}\`
-**To add stakes:** \`/stake 0.01\` (ETH amount)
+**To pledge ETH:** \`/stake 0.01\` (a promise to the winners, settled between you)
 
 Challenge starts when first person joins! 💪`;
 }
@@ -214,38 +233,31 @@ async function handleJoinChallenge(
   }
 
   const challengeId = parts[1];
-  const challenge = await getChallengeData(conversationId, challengeId);
+  const challenge = await getChallenge(conversationId, challengeId);
 
-  if (!challenge) {
+  if (!challenge || challenge.status === 'completed') {
     return '❌ Challenge not found. Use `/leaderboard` to see active challenges.';
   }
 
-  if (challenge.participants.includes(senderAddress)) {
+  const joined = await addParticipant(challenge.id, senderAddress);
+  if (!joined) {
     return '✅ You\'re already in this challenge! Use `/progress [number]` to update your score.';
   }
 
-  // Add participant
-  challenge.participants.push(senderAddress);
-  challenge.leaderboard.push({ address: senderAddress, score: 0, lastUpdate: Date.now() });
-  
-  if (challenge.status === 'pending') {
-    challenge.status = 'active';
-  }
-
-  await storeChallengeData(conversationId, challenge);
+  const participantCount = challenge.participants.length + 1;
 
   return `🎉 **Joined Challenge!**
 
 **${challenge.name}**
 ${challenge.description}
 
-**Participants:** ${challenge.participants.length}
+**Participants:** ${participantCount}
 **Your current score:** 0 / ${challenge.target}
 
 **Commands:**
-• \`/progress [number]\` - Update your progress
+• \`/progress [number]\` - Log completed reps
 • \`/leaderboard\` - View standings
-• \`/stake [amount]\` - Add ETH stake
+• \`/stake [amount]\` - Pledge ETH to the winners
 
 Let's get moving! 🚀`;
 }
@@ -260,38 +272,34 @@ async function handleProgressUpdate(
 ): Promise<string> {
   const parts = message.split(' ');
   if (parts.length < 2) {
-    return '❌ Please specify your progress: `/progress [number]`\nExample: `/progress 50` (completed 50 reps)';
+    return '❌ Please specify your progress: `/progress [number]`\nExample: `/progress 50` (just completed 50 reps)';
   }
 
   const progress = parseInt(parts[1]);
-  if (isNaN(progress) || progress < 0) {
+  if (isNaN(progress) || progress <= 0) {
     return '❌ Invalid progress number. Use positive numbers only.';
   }
 
-  // Find active challenge for this user
+  // Most recent active challenge for this user
+  const address = senderAddress.toLowerCase();
   const challenges = await getActiveChallenges(conversationId);
-  const userChallenge = challenges.find(c => c.participants.includes(senderAddress));
+  const current = challenges.find(c => c.participants.includes(address));
 
-  if (!userChallenge) {
+  if (!current) {
     return '❌ You\'re not in any active challenges. Use `/join [challenge_id]` to join one!';
   }
 
-  // Update leaderboard
-  const userEntry = userChallenge.leaderboard.find(entry => entry.address === senderAddress);
-  if (userEntry) {
-    userEntry.score = progress;
-    userEntry.lastUpdate = Date.now();
-  }
-
-  await storeChallengeData(conversationId, userChallenge);
+  await recordProgress(current.id, address, progress);
+  const userChallenge = (await getChallenge(conversationId, current.id)) ?? current;
+  const score = userChallenge.leaderboard.find(entry => entry.address === address)?.score ?? progress;
 
-  const percentage = Math.min(100, (progress / userChallenge.target) * 100);
-  const isComplete = progress >= userChallenge.target;
+  const percentage = Math.min(100, (score / userChallenge.target) * 100);
+  const isComplete = score >= userChallenge.target;
 
   let response = `📊 **Progress Updated!**
 
 **${userChallenge.name}**
-Your score: ${progress} / ${userChallenge.target} (${percentage.toFixed(1)}%)
++${progress} logged • Your score: ${score} / ${userChallenge.target} (${percentage.toFixed(1)}%)
 
 ${getProgressBar(percentage)}`;
 
@@ -302,7 +310,7 @@ You've reached the target! Amazing work! 💪`;
 
   // Add leaderboard position
   const sortedLeaderboard = userChallenge.leaderboard.sort((a, b) => b.score - a.score);
-  const position = sortedLeaderboard.findIndex(entry => entry.address === senderAddress) + 1;
+  const position = sortedLeaderboard.findIndex(entry => entry.address === address) + 1;
   
   response += `\n\n🏆 **Current Position:** #${position} of ${userChallenge.participants.length}`;
 
@@ -330,9 +338,11 @@ Get the group moving! 💪`;
   for (const challenge of challenges) {
     const sortedLeaderboard = challenge.leaderboard.sort((a, b) => b.score - a.score);
     const daysLeft = Math.ceil((challenge.endDate - Date.now()) / (24 * 60 * 60 * 1000));
+    const pledged = Object.values(challenge.stakes).reduce((sum, amount) => sum + amount, 0);
 
     response += `**${challenge.name}**\n`;
-    response += `Target: ${challenge.target} | Days left: ${daysLeft}\n\n`;
+    response += `Target: ${challenge.target} | Days left: ${daysLeft}${pledged > 0 ? ` | Pledged: ${pledged} ETH` : ''}\n`;
+    response += `Join: \`/join ${challenge.id}\`\n\n`;
 
     sortedLeaderboard.slice(0, 5).forEach((entry, index) => {
       const percentage = (entry.score / challenge.target) * 100;
@@ -347,25 +357,54 @@ Get the group moving! 💪`;
 }
 
 /**
- * Add stake to challenge
+ * Pledge ETH to a challenge
+ * Pledges are only recorded: nothing is escrowed on-chain, so the copy must not promise a payout
  */
 async function handleStakeAdd(
   message: string,
   senderAddress: string,
   conversationId: string
 ): Promise<string> {
-  return `💰 **Staking Feature**
+  const parts = message.split(' ');
+  const amount = parseFloat(parts[1]);
+
+  if (parts.length < 2 || isNaN(amount) || amount <= 0) {
+    return '❌ Please specify an ETH amount to pledge: `/stake [amount]`\nExample: `/stake 0.01`';
+  }
+
+  const address = senderAddress.toLowerCase();
+  const challenges = await getActiveChallenges(conversationId);
+  const challenge = challenges.find(c => c.participants.includes(address));
+
+  if (!challenge) {
+    return '❌ You\'re not in any active challenges. Use `/join [challenge_id]` to join one!';
+  }
+
+  await recordStake(challenge.id, address, amount);
 
-To add stakes to challenges, use the prediction market:
+  return formatPledgeRecorded(challenge, address, amount);
+}
 
-1. Create a prediction about your fitness goal
-2. Stake ETH on your success
-3. Complete the challenge to win!
+/**
+ * Confirmation for a pledge just recorded, with the challenge's pledges before it
+ */
+export function formatPledgeRecorded(
+  challenge: Pick<GroupChallenge, 'name' | 'target' | 'stakes' | 'rewards'>,
+  address: string,
+  amount: number
+): string {
+  const yourPledge = (challenge.stakes[address] || 0) + amount;
+  const pledged = Object.values(challenge.stakes).reduce((sum, staked) => sum + staked, 0) + amount;
 
-**Example:**
-"I predict I'll complete 1000 pushups by [date]"
+  return `🤝 **Pledge Recorded!**
 
-This creates financial motivation for your fitness goals! 🎯`;
+**${challenge.name}**
+Your pledge: ${yourPledge} ETH
+Pledged in total: ${pledged} ETH
+
+**Suggested split:** ${challenge.rewards.winner}% to the winner, ${challenge.rewards.participation}% among everyone who hits ${challenge.target}
+
+Pledges are a promise between members: no ETH is transferred or held on-chain, so settle up with each other when the challenge ends. 🎯`;
 }
 
 /**
@@ -412,7 +451,7 @@ function getHelpMessage(): string {
 • **Progress Tracking** - Log your daily achievements
 • **Leaderboards** - See who's crushing their goals
 • **Motivation** - Get Goggins-style encouragement
-• **Stakes** - Add financial motivation to challenges
+• **Pledges** - Promise ETH to the winners (settled between you, not on-chain)
 
 🔥 **Legacy Commands** (still work):
 • \`/challenge pushups 1000 7\` - Create structured challenge
@@ -422,40 +461,6 @@ function getHelpMessage(): string {
 💪 **CARRY THE BOATS!** Just tell me what you want to do!`;
 }
 
-/**
- * Helper functions for data storage (simplified for demo)
- */
-async function storeChallengeData(conversationId: string, challenge: GroupChallenge): Promise<void> {
-  // In production, store in database
-  // For now, store in enhanced message store as metadata
-  const message: StoredMessage = {
-    id: `challenge_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    conversationId,
-    senderAddress: 'system',
-    content: `Challenge ${challenge.status}: ${challenge.name}`,
-    timestamp: Date.now(),
-    messageType: 'system',
-    metadata: {
-      actionType: 'general',
-      xmtpMessageId: `challenge_${challenge.id}`,
-    }
-  };
-
-  await enhancedMessageStore.addMessage(message);
-}
-
-async function getChallengeData(conversationId: string, challengeId: string): Promise<GroupChallenge | null> {
-  // In production, query database
-  // For demo, return mock data
-  return null;
-}
-
-async function getActiveChallenges(conversationId: string): Promise<GroupChallenge[]> {
-  // In production, query database for active challenges
-  // For demo, return empty array
-  return [];
-}
-
 function getProgressBar(percentage: number): string {
   const filled = Math.floor(percentage / 10);
   const empty = 10 - filled;
@@ -0,0 +1,171 @@
+/**
+ * 001 - Initial schema
+ * Every table that was previously created ad hoc at runtime (streaks, XMTP message store,
+ * resolution ledger, resolution disputes). Uses IF NOT EXISTS throughout so it can be applied
+ * as a baseline to databases those runtime initializers already created.
+ * Rolling it back leaves the adopted tables and their data alone.
+ */
+
+import type { Migration } from './types';
+
+const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+
+  async up(client) {
+    // Streaks (lib/streaks-service-pg.ts)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS user_streaks (
+        user_id TEXT PRIMARY KEY,
+        current_streak INTEGER NOT NULL DEFAULT 0,
+        longest_streak INTEGER NOT NULL DEFAULT 0,
+        last_activity_date TEXT,
+        activity_dates JSONB NOT NULL DEFAULT '[]'
+      )
+    `);
+
+    // Columns older databases gained one ALTER at a time
+    await client.query(`
+      ALTER TABLE user_streaks
+        ADD COLUMN IF NOT EXISTS total_pushups INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS total_squats INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS last_fitness_sync TEXT,
+        ADD COLUMN IF NOT EXISTS wallet_addresses JSONB NOT NULL DEFAULT '[]',
+        ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC',
+        ADD COLUMN IF NOT EXISTS activity_timestamps JSONB NOT NULL DEFAULT '[]',
+        ADD COLUMN IF NOT EXISTS activity_dates_timezone TEXT NOT NULL DEFAULT 'UTC',
+        ADD COLUMN IF NOT EXISTS freeze_balance INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS freeze_history JSONB NOT NULL DEFAULT '[]'
+    `);
+
+    // XMTP message store (lib/enhanced-message-store.ts)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS xmtp_messages (
+        id VARCHAR(255) PRIMARY KEY,
+        conversation_id VARCHAR(255) NOT NULL,
+        sender_address VARCHAR(255) NOT NULL,
+        sender_inbox_id VARCHAR(255),
+        content TEXT NOT NULL,
+        timestamp BIGINT NOT NULL,
+        message_type VARCHAR(50) NOT NULL,
+        metadata JSONB,
+        synced BOOLEAN DEFAULT false,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS xmtp_conversations (
+        id VARCHAR(255) PRIMARY KEY,
+        peer_address VARCHAR(255) NOT NULL,
+        peer_inbox_id VARCHAR(255),
+        topic VARCHAR(255) NOT NULL,
+        created_at BIGINT NOT NULL,
+        last_message_at BIGINT NOT NULL,
+        message_count INTEGER DEFAULT 0,
+        is_active BOOLEAN DEFAULT true,
+        synced_at BIGINT
+      )
+    `);
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_messages_conversation_id ON xmtp_messages(conversation_id);
+      CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON xmtp_messages(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_messages_sender ON xmtp_messages(sender_address);
+      CREATE INDEX IF NOT EXISTS idx_conversations_peer ON xmtp_conversations(peer_address);
+      CREATE INDEX IF NOT EXISTS idx_conversations_active ON xmtp_conversations(is_active);
+    `);
+
+    // Resolution ledger (lib/services/resolution-ledger.ts)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS resolution_queue (
+        prediction_id INTEGER NOT NULL,
+        chain TEXT NOT NULL,
+        title TEXT,
+        resolution_type TEXT NOT NULL DEFAULT 'manual',
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        last_error TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (prediction_id, chain)
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS resolution_attempts (
+        id SERIAL PRIMARY KEY,
+        prediction_id INTEGER NOT NULL,
+        chain TEXT NOT NULL,
+        attempt_number INTEGER NOT NULL,
+        resolution_type TEXT,
+        outcome TEXT NOT NULL,
+        confidence REAL NOT NULL DEFAULT 0,
+        sources JSONB NOT NULL DEFAULT '[]',
+        current_value NUMERIC,
+        target_value NUMERIC,
+        tx_hash TEXT,
+        error TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    // Raw source responses kept for dispute audits
+    await client.query(`ALTER TABLE resolution_attempts ADD COLUMN IF NOT EXISTS evidence JSONB`);
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_resolution_queue_due ON resolution_queue(status, next_attempt_at);
+      CREATE INDEX IF NOT EXISTS idx_resolution_attempts_prediction ON resolution_attempts(prediction_id, chain);
+    `);
+
+    // Resolution disputes (lib/services/resolution-disputes.ts)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS resolution_proposals (
+        prediction_id INTEGER NOT NULL,
+        chain TEXT NOT NULL,
+        title TEXT,
+        outcome TEXT NOT NULL,
+        confidence REAL NOT NULL,
+        source TEXT NOT NULL,
+        current_value NUMERIC,
+        target_value NUMERIC,
+        evidence JSONB,
+        status TEXT NOT NULL DEFAULT 'proposed',
+        proposed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        dispute_ends_at TIMESTAMPTZ NOT NULL,
+        announced_at TIMESTAMPTZ,
+        final_outcome TEXT,
+        tx_hash TEXT,
+        resolved_by TEXT,
+        last_error TEXT,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (prediction_id, chain)
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS resolution_disputes (
+        id SERIAL PRIMARY KEY,
+        prediction_id INTEGER NOT NULL,
+        chain TEXT NOT NULL,
+        staker TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        UNIQUE (prediction_id, chain, staker)
+      )
+    `);
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_resolution_proposals_status ON resolution_proposals(status, dispute_ends_at);
+    `);
+  },
+
+  async down() {
+    // These tables were adopted from the runtime initializers with production data in them, not created
+    // by this series, so rolling past 001 leaves them in place
+  }
+};
+
+export default migration;
@@ -0,0 +1,103 @@
+/**
+ * 002 - Streak local days
+ * Re-dates activity_dates stored in UTC (or a previous zone) into each user's own timezone.
+ * Only days with a recorded instant can move; legacy days saved before instants were kept stay on the UTC calendar.
+ * Data-only; activity_dates_timezone records the zone the dates are in, so there is nothing to undo.
+ *
+ * The backfill is plain SQL mirroring recomputeActivityDates and calculateStreak in streaks-service-pg:
+ * migrations load before the services that run them, so they can't import service code.
+ */
+
+import type { Migration } from './types';
+
+// Same cap as MAX_ACTIVITY_DAYS in streaks-service-pg
+const MAX_ACTIVITY_DAYS = 100;
+
+const migration: Migration = {
+  version: 2,
+  name: 'streak_local_days',
+
+  async up(client) {
+    const result = await client.query(`
+      WITH candidates AS (
+        SELECT user_id, timezone AS to_tz, activity_dates_timezone AS from_tz,
+               activity_dates, activity_timestamps, freeze_history
+        FROM user_streaks
+        WHERE timezone IS DISTINCT FROM activity_dates_timezone
+          AND jsonb_array_length(activity_timestamps) > 0
+      ),
+      instants AS (
+        SELECT c.user_id, i.value::timestamptz AS at
+        FROM candidates c, jsonb_array_elements_text(c.activity_timestamps) AS i(value)
+      ),
+      -- Stored days minus the ones the instants fell on in the old zone, plus their days in the user's zone
+      days AS (
+        SELECT c.user_id, d.value AS day
+        FROM candidates c, jsonb_array_elements_text(c.activity_dates) AS d(value)
+        WHERE d.value NOT IN (
+          SELECT to_char(i.at AT TIME ZONE c.from_tz, 'YYYY-MM-DD') FROM instants i WHERE i.user_id = c.user_id
+        )
+        UNION
+        SELECT c.user_id, to_char(i.at AT TIME ZONE c.to_tz, 'YYYY-MM-DD')
+        FROM instants i JOIN candidates c USING (user_id)
+      ),
+      kept AS (
+        SELECT user_id, day
+        FROM (SELECT user_id, day, ROW_NUMBER() OVER (PARTITION BY user_id ORDER BY day DESC) AS recency FROM days) ranked
+        WHERE recency <= $1
+      ),
+      frozen AS (
+        SELECT c.user_id, e->>'date' AS day
+        FROM candidates c, jsonb_array_elements(c.freeze_history) AS e
+        WHERE e->>'type' = 'used'
+      ),
+      -- A day continues the run after the previous day, or two days on when a freeze covered the one between
+      steps AS (
+        SELECT k.user_id, k.day,
+               LAG(k.day::date) OVER w = k.day::date - 1
+                 OR (LAG(k.day::date) OVER w = k.day::date - 2 AND EXISTS (
+                   SELECT 1 FROM frozen f WHERE f.user_id = k.user_id AND f.day = to_char(k.day::date - 1, 'YYYY-MM-DD')
+                 )) AS continues
+        FROM kept k
+        WINDOW w AS (PARTITION BY k.user_id ORDER BY k.day)
+      ),
+      runs AS (
+        SELECT user_id, day, SUM(CASE WHEN continues THEN 0 ELSE 1 END) OVER (PARTITION BY user_id ORDER BY day) AS run
+        FROM steps
+      ),
+      run_lengths AS (
+        SELECT user_id, run, COUNT(*)::int AS length FROM runs GROUP BY user_id, run
+      ),
+      streaks AS (
+        SELECT user_id,
+               (ARRAY_AGG(length ORDER BY run DESC))[1] AS current_streak,
+               MAX(length) AS longest_streak
+        FROM run_lengths GROUP BY user_id
+      ),
+      dates AS (
+        SELECT user_id, jsonb_agg(day ORDER BY day) AS activity_dates, MAX(day) AS last_activity_date
+        FROM kept GROUP BY user_id
+      )
+      UPDATE user_streaks s
+      SET activity_dates = d.activity_dates,
+          current_streak = t.current_streak,
+          longest_streak = GREATEST(s.longest_streak, t.longest_streak),
+          last_activity_date = d.last_activity_date,
+          activity_dates_timezone = c.to_tz
+      FROM candidates c
+      JOIN dates d USING (user_id)
+      JOIN streaks t USING (user_id)
+      WHERE s.user_id = c.user_id
+    `, [MAX_ACTIVITY_DAYS]);
+
+    if (result.rowCount) {
+      console.log(`Recomputed activity dates for ${result.rowCount} users in their local timezone`);
+    }
+  },
+
+  async down() {
+    // Rows keep their recomputed dates; activity_dates_timezone still describes them correctly
+  }
+};
+
+export default migration;
@@ -0,0 +1,80 @@
+/**
+ * 003 - Group challenges
+ * Storage for lib/group-fitness-agent.ts: challenges per XMTP conversation, their participants,
+ * logged progress entries and stake pledges.
+ */
+
+import type { Migration } from './types';
+
+const migration: Migration = {
+  version: 3,
+  name: 'group_challenges',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE group_challenges (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT NOT NULL,
+        type TEXT NOT NULL,
+        target INTEGER NOT NULL,
+        duration_days INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        creator TEXT NOT NULL,
+        reward_winner_pct INTEGER NOT NULL,
+        reward_participation_pct INTEGER NOT NULL,
+        start_date TIMESTAMPTZ NOT NULL,
+        end_date TIMESTAMPTZ NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE group_challenge_participants (
+        challenge_id TEXT NOT NULL REFERENCES group_challenges(id) ON DELETE CASCADE,
+        address TEXT NOT NULL,
+        joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (challenge_id, address)
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE group_challenge_progress (
+        id SERIAL PRIMARY KEY,
+        challenge_id TEXT NOT NULL REFERENCES group_challenges(id) ON DELETE CASCADE,
+        address TEXT NOT NULL,
+        reps INTEGER NOT NULL,
+        recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE group_challenge_stakes (
+        id SERIAL PRIMARY KEY,
+        challenge_id TEXT NOT NULL REFERENCES group_challenges(id) ON DELETE CASCADE,
+        address TEXT NOT NULL,
+        amount NUMERIC NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE INDEX idx_group_challenges_conversation ON group_challenges(conversation_id, status);
+      CREATE INDEX idx_group_challenge_progress_challenge ON group_challenge_progress(challenge_id, address);
+      CREATE INDEX idx_group_challenge_stakes_challenge ON group_challenge_stakes(challenge_id);
+    `);
+  },
+
+  async down(client) {
+    await client.query(`
+      DROP TABLE IF EXISTS group_challenge_stakes;
+      DROP TABLE IF EXISTS group_challenge_progress;
+      DROP TABLE IF EXISTS group_challenge_participants;
+      DROP TABLE IF EXISTS group_challenges;
+    `);
+  }
+};
+
+export default migration;
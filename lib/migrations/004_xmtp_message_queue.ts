@@ -0,0 +1,41 @@
+/**
+ * 004 - XMTP message queue
+ * Postgres backend for lib/xmtp-message-queue.ts (used when Redis isn't configured)
+ */
+
+import type { Migration } from './types';
+
+const migration: Migration = {
+  version: 4,
+  name: 'xmtp_message_queue',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE xmtp_message_queue (
+        id TEXT PRIMARY KEY,
+        user_address TEXT NOT NULL,
+        message TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        visible_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        response TEXT,
+        error TEXT,
+        dead_lettered_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE INDEX idx_xmtp_message_queue_visible ON xmtp_message_queue(visible_at)
+        WHERE status IN ('pending', 'processing');
+      CREATE INDEX idx_xmtp_message_queue_status ON xmtp_message_queue(status, created_at);
+    `);
+  },
+
+  async down(client) {
+    await client.query(`DROP TABLE IF EXISTS xmtp_message_queue`);
+  }
+};
+
+export default migration;
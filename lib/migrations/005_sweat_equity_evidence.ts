@@ -0,0 +1,61 @@
+/**
+ * 005 - Sweat equity evidence
+ * Uploaded proof files for recovery challenges (content-hashed) and the structured
+ * verification results produced from them.
+ */
+
+import type { Migration } from './types';
+
+const migration: Migration = {
+  version: 5,
+  name: 'sweat_equity_evidence',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE sweat_equity_evidence (
+        id SERIAL PRIMARY KEY,
+        challenge_id INTEGER NOT NULL,
+        method TEXT NOT NULL,
+        submitter TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        mime_type TEXT NOT NULL,
+        size_bytes INTEGER NOT NULL,
+        content BYTEA NOT NULL,
+        metadata JSONB NOT NULL DEFAULT '{}',
+        captured_at TIMESTAMPTZ NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        UNIQUE (challenge_id, content_hash)
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE sweat_equity_verifications (
+        id SERIAL PRIMARY KEY,
+        challenge_id INTEGER NOT NULL,
+        method TEXT NOT NULL,
+        proof_hash TEXT NOT NULL,
+        approved BOOLEAN NOT NULL,
+        score REAL NOT NULL,
+        checks JSONB NOT NULL DEFAULT '[]',
+        signals JSONB NOT NULL DEFAULT '[]',
+        tx_hash TEXT,
+        error TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE INDEX idx_sweat_equity_evidence_hash ON sweat_equity_evidence(content_hash);
+      CREATE INDEX idx_sweat_equity_verifications_challenge ON sweat_equity_verifications(challenge_id, created_at);
+    `);
+  },
+
+  async down(client) {
+    await client.query(`
+      DROP TABLE IF EXISTS sweat_equity_verifications;
+      DROP TABLE IF EXISTS sweat_equity_evidence;
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,70 @@
+/**
+ * 006 - Community review
+ * Peer-review panels for community-verified sweat equity challenges, the reviewers
+ * assigned to each panel with their votes, and reviewer reputation.
+ */
+
+import type { Migration } from './types';
+
+const migration: Migration = {
+  version: 6,
+  name: 'community_review',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE sweat_equity_reviews (
+        challenge_id INTEGER PRIMARY KEY,
+        challenger TEXT NOT NULL,
+        challenger_fid TEXT,
+        proof_hash TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        quorum INTEGER NOT NULL,
+        threshold REAL NOT NULL,
+        approve_weight REAL NOT NULL DEFAULT 0,
+        reject_weight REAL NOT NULL DEFAULT 0,
+        opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        expires_at TIMESTAMPTZ NOT NULL,
+        resolved_at TIMESTAMPTZ
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE sweat_equity_review_assignments (
+        challenge_id INTEGER NOT NULL REFERENCES sweat_equity_reviews(challenge_id) ON DELETE CASCADE,
+        reviewer_id TEXT NOT NULL,
+        wallet_addresses JSONB NOT NULL DEFAULT '[]',
+        weight REAL NOT NULL,
+        approve BOOLEAN,
+        reason TEXT,
+        assigned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        voted_at TIMESTAMPTZ,
+        PRIMARY KEY (challenge_id, reviewer_id)
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE sweat_equity_reviewer_reputation (
+        reviewer_id TEXT PRIMARY KEY,
+        reputation REAL NOT NULL DEFAULT 1,
+        reviews INTEGER NOT NULL DEFAULT 0,
+        agreements INTEGER NOT NULL DEFAULT 0,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE INDEX idx_sweat_equity_reviews_pending ON sweat_equity_reviews(status, expires_at);
+      CREATE INDEX idx_sweat_equity_review_assignments_reviewer ON sweat_equity_review_assignments(reviewer_id);
+    `);
+  },
+
+  async down(client) {
+    await client.query(`
+      DROP TABLE IF EXISTS sweat_equity_review_assignments;
+      DROP TABLE IF EXISTS sweat_equity_reviews;
+      DROP TABLE IF EXISTS sweat_equity_reviewer_reputation;
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,47 @@
+/**
+ * 007 - Imported workouts
+ * Normalized workouts imported from wearable exports (GPX/TCX/FIT/Apple Health), with their
+ * sample timeline, totals and sanity-check results.
+ */
+
+import type { Migration } from './types';
+
+const migration: Migration = {
+  version: 7,
+  name: 'imported_workouts',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE imported_workouts (
+        id SERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        source TEXT NOT NULL,
+        sport TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        start_time TIMESTAMPTZ NOT NULL,
+        end_time TIMESTAMPTZ NOT NULL,
+        duration_seconds REAL NOT NULL,
+        distance_meters REAL NOT NULL DEFAULT 0,
+        calories REAL,
+        avg_heart_rate REAL,
+        max_heart_rate REAL,
+        elevation_gain_meters REAL,
+        samples JSONB NOT NULL DEFAULT '[]',
+        issues JSONB NOT NULL DEFAULT '[]',
+        plausible BOOLEAN NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        UNIQUE (user_id, sport, start_time)
+      )
+    `);
+
+    await client.query(`
+      CREATE INDEX idx_imported_workouts_user_time ON imported_workouts(user_id, start_time);
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS imported_workouts');
+  }
+};
+
+export default migration;
@@ -0,0 +1,53 @@
+/**
+ * 008 - User exercise totals
+ * Lifetime totals per user, exercise (see lib/exercises.ts) and source, replacing the fixed
+ * total_pushups/total_squats columns as the place new exercises are stored. Those columns are still
+ * written by the fitness sync for existing readers.
+ */
+
+import type { Migration } from './types';
+
+const migration: Migration = {
+  version: 8,
+  name: 'user_exercise_totals',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE user_exercise_totals (
+        user_id TEXT NOT NULL,
+        exercise_id TEXT NOT NULL,
+        source TEXT NOT NULL,
+        amount DOUBLE PRECISION NOT NULL DEFAULT 0,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (user_id, exercise_id, source)
+      )
+    `);
+
+    await client.query(`
+      CREATE INDEX idx_user_exercise_totals_exercise ON user_exercise_totals(exercise_id, amount DESC);
+    `);
+
+    // Leaderboard totals synced so far
+    await client.query(`
+      INSERT INTO user_exercise_totals (user_id, exercise_id, source, amount)
+      SELECT user_id, 'pushups', 'leaderboard', total_pushups FROM user_streaks WHERE total_pushups > 0
+      UNION ALL
+      SELECT user_id, 'squats', 'leaderboard', total_squats FROM user_streaks WHERE total_squats > 0
+    `);
+
+    // Distance from plausible imported workouts
+    await client.query(`
+      INSERT INTO user_exercise_totals (user_id, exercise_id, source, amount)
+      SELECT user_id, sport, 'workouts', SUM(distance_meters)
+      FROM imported_workouts
+      WHERE plausible AND sport IN ('running', 'cycling')
+      GROUP BY user_id, sport
+    `);
+  },
+
+  async down(client) {
+    await client.query('DROP TABLE IF EXISTS user_exercise_totals');
+  }
+};
+
+export default migration;
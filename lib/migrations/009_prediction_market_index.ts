@@ -0,0 +1,129 @@
+/**
+ * 009 - Prediction market index
+ * UnifiedPredictionMarket events indexed per chain (see lib/prediction-index): predictions, votes,
+ * resolutions, reward claims and sweat equity releases. Every row keeps the block it came from so a
+ * reorg can be undone by deleting everything above the last block both sides agree on.
+ * Amounts are wei as NUMERIC(78,0), addresses are lowercase.
+ */
+
+import type { Migration } from './types';
+
+const EVENT_COLUMNS = `
+  block_number BIGINT NOT NULL,
+  block_timestamp BIGINT NOT NULL,
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL
+`;
+
+const migration: Migration = {
+  version: 9,
+  name: 'prediction_market_index',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE market_index_checkpoints (
+        chain TEXT PRIMARY KEY,
+        contract_address TEXT NOT NULL,
+        block_number BIGINT NOT NULL,
+        block_hash TEXT NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    // Hashes of recently indexed blocks, walked back to find where a reorg diverged
+    await client.query(`
+      CREATE TABLE market_index_blocks (
+        chain TEXT NOT NULL,
+        block_number BIGINT NOT NULL,
+        block_hash TEXT NOT NULL,
+        PRIMARY KEY (chain, block_number)
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE market_predictions (
+        chain TEXT NOT NULL,
+        prediction_id INTEGER NOT NULL,
+        creator TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL DEFAULT '',
+        target_date BIGINT NOT NULL,
+        target_value NUMERIC(78, 0) NOT NULL,
+        category SMALLINT NOT NULL DEFAULT 0,
+        network TEXT NOT NULL DEFAULT '',
+        emoji TEXT NOT NULL DEFAULT '',
+        auto_resolvable BOOLEAN NOT NULL DEFAULT FALSE,
+        created_at BIGINT NOT NULL,
+        ${EVENT_COLUMNS},
+        PRIMARY KEY (chain, prediction_id)
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE market_votes (
+        chain TEXT NOT NULL,
+        prediction_id INTEGER NOT NULL,
+        voter TEXT NOT NULL,
+        is_yes BOOLEAN NOT NULL,
+        amount NUMERIC(78, 0) NOT NULL,
+        ${EVENT_COLUMNS},
+        PRIMARY KEY (chain, block_number, log_index)
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE market_resolutions (
+        chain TEXT NOT NULL,
+        prediction_id INTEGER NOT NULL,
+        outcome BOOLEAN NOT NULL,
+        total_pool NUMERIC(78, 0) NOT NULL,
+        winning_pool NUMERIC(78, 0) NOT NULL,
+        ${EVENT_COLUMNS},
+        PRIMARY KEY (chain, prediction_id)
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE market_claims (
+        chain TEXT NOT NULL,
+        prediction_id INTEGER NOT NULL,
+        claimer TEXT NOT NULL,
+        amount NUMERIC(78, 0) NOT NULL,
+        ${EVENT_COLUMNS},
+        PRIMARY KEY (chain, block_number, log_index)
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE market_sweat_equity_releases (
+        chain TEXT NOT NULL,
+        prediction_id INTEGER NOT NULL,
+        user_address TEXT NOT NULL,
+        amount NUMERIC(78, 0) NOT NULL,
+        ${EVENT_COLUMNS},
+        PRIMARY KEY (chain, block_number, log_index)
+      )
+    `);
+
+    await client.query(`
+      CREATE INDEX idx_market_votes_prediction ON market_votes(chain, prediction_id);
+      CREATE INDEX idx_market_votes_voter ON market_votes(voter);
+      CREATE INDEX idx_market_claims_claimer ON market_claims(claimer);
+      CREATE INDEX idx_market_sweat_equity_releases_user ON market_sweat_equity_releases(user_address);
+    `);
+  },
+
+  async down(client) {
+    await client.query(`
+      DROP TABLE IF EXISTS market_sweat_equity_releases;
+      DROP TABLE IF EXISTS market_claims;
+      DROP TABLE IF EXISTS market_resolutions;
+      DROP TABLE IF EXISTS market_votes;
+      DROP TABLE IF EXISTS market_predictions;
+      DROP TABLE IF EXISTS market_index_blocks;
+      DROP TABLE IF EXISTS market_index_checkpoints;
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,38 @@
+/**
+ * 010 - Conversation memory
+ * Per-conversation state for the AI bot (see lib/conversation-memory): recent turns, the running
+ * summary older turns roll up into, facts learned about the user, and a proposal awaiting confirmation
+ */
+
+import type { Migration } from './types';
+
+const migration: Migration = {
+  version: 10,
+  name: 'conversation_memory',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE conversation_memory (
+        conversation_id TEXT PRIMARY KEY,
+        summary TEXT NOT NULL DEFAULT '',
+        summarized_turns INTEGER NOT NULL DEFAULT 0,
+        recent_turns JSONB NOT NULL DEFAULT '[]',
+        facts JSONB NOT NULL DEFAULT '{}',
+        awaiting_confirmation BOOLEAN NOT NULL DEFAULT FALSE,
+        pending_proposal TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE INDEX idx_conversation_memory_updated ON conversation_memory(updated_at)
+    `);
+  },
+
+  async down(client) {
+    await client.query(`DROP TABLE IF EXISTS conversation_memory`);
+  }
+};
+
+export default migration;
@@ -0,0 +1,21 @@
+/**
+ * 011 - Conversation drafts
+ * The bot agent's current prediction draft (see lib/bot-agent), kept with the rest of the conversation memory
+ */
+
+import type { Migration } from './types';
+
+const migration: Migration = {
+  version: 11,
+  name: 'conversation_drafts',
+
+  async up(client) {
+    await client.query(`ALTER TABLE conversation_memory ADD COLUMN draft JSONB`);
+  },
+
+  async down(client) {
+    await client.query(`ALTER TABLE conversation_memory DROP COLUMN IF EXISTS draft`);
+  }
+};
+
+export default migration;
@@ -0,0 +1,39 @@
+/**
+ * 012 - Resolution criteria
+ * Machine-checkable criteria (see lib/resolution-criteria) stored by the hash committed in a prediction's
+ * description, and which prediction on which chain each hash was found on
+ */
+
+import type { Migration } from './types';
+
+const migration: Migration = {
+  version: 12,
+  name: 'resolution_criteria',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE resolution_criteria (
+        hash TEXT PRIMARY KEY,
+        criteria JSONB NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE TABLE prediction_resolution_criteria (
+        prediction_id INTEGER NOT NULL,
+        chain TEXT NOT NULL,
+        hash TEXT NOT NULL REFERENCES resolution_criteria(hash),
+        bound_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (prediction_id, chain)
+      )
+    `);
+  },
+
+  async down(client) {
+    await client.query(`DROP TABLE IF EXISTS prediction_resolution_criteria`);
+    await client.query(`DROP TABLE IF EXISTS resolution_criteria`);
+  }
+};
+
+export default migration;
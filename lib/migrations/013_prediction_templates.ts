@@ -0,0 +1,64 @@
+/**
+ * 013 - Prediction templates
+ * Recurring prediction templates (see lib/prediction-templates) and the predictions each run created,
+ * linked to the one before
+ */
+
+import type { Migration } from './types';
+
+const migration: Migration = {
+  version: 13,
+  name: 'prediction_templates',
+
+  async up(client) {
+    await client.query(`
+      CREATE TABLE prediction_templates (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL,
+        category SMALLINT NOT NULL,
+        target_value NUMERIC NOT NULL,
+        emoji TEXT NOT NULL,
+        chain TEXT NOT NULL,
+        schedule TEXT NOT NULL,
+        duration_hours INTEGER,
+        criteria JSONB,
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        next_run_at TIMESTAMPTZ NOT NULL,
+        last_error TEXT,
+        created_by TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await client.query(`
+      CREATE INDEX idx_prediction_templates_due ON prediction_templates (next_run_at) WHERE enabled
+    `);
+
+    await client.query(`
+      CREATE TABLE prediction_template_instances (
+        template_id TEXT NOT NULL REFERENCES prediction_templates(id),
+        sequence INTEGER NOT NULL,
+        chain TEXT NOT NULL,
+        prediction_id INTEGER NOT NULL,
+        previous_prediction_id INTEGER,
+        title TEXT NOT NULL,
+        target_date BIGINT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        outcome TEXT NOT NULL DEFAULT 'pending',
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (template_id, sequence),
+        UNIQUE (chain, prediction_id)
+      )
+    `);
+  },
+
+  async down(client) {
+    await client.query(`DROP TABLE IF EXISTS prediction_template_instances`);
+    await client.query(`DROP TABLE IF EXISTS prediction_templates`);
+  }
+};
+
+export default migration;
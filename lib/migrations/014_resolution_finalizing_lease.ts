@@ -0,0 +1,41 @@
+/**
+ * 014 - Resolution finalizing lease
+ * A proposal claimed for finalization remembers the state it came from and when the claim lapses,
+ * so a finalizer that crashed mid-transaction doesn't leave it stuck in 'finalizing'
+ */
+
+import type { Migration } from './types';
+
+const migration: Migration = {
+  version: 14,
+  name: 'resolution_finalizing_lease',
+
+  async up(client) {
+    await client.query(`
+      ALTER TABLE resolution_proposals
+        ADD COLUMN finalizing_from TEXT,
+        ADD COLUMN finalizing_expires_at TIMESTAMPTZ
+    `);
+
+    // Claims from before the lease existed can't be told apart from live ones, so they lapse now
+    await client.query(`
+      UPDATE resolution_proposals
+      SET finalizing_from = CASE WHEN EXISTS (
+            SELECT 1 FROM resolution_disputes d
+            WHERE d.prediction_id = resolution_proposals.prediction_id AND d.chain = resolution_proposals.chain
+          ) THEN 'disputed' ELSE 'proposed' END,
+          finalizing_expires_at = NOW()
+      WHERE status = 'finalizing'
+    `);
+  },
+
+  async down(client) {
+    await client.query(`
+      ALTER TABLE resolution_proposals
+        DROP COLUMN IF EXISTS finalizing_expires_at,
+        DROP COLUMN IF EXISTS finalizing_from
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,21 @@
+/**
+ * 015 - XMTP queue conversation
+ * Queued messages remember the conversation they came from, so replies use that conversation's memory
+ */
+
+import type { Migration } from './types';
+
+const migration: Migration = {
+  version: 15,
+  name: 'xmtp_queue_conversation',
+
+  async up(client) {
+    await client.query(`ALTER TABLE xmtp_message_queue ADD COLUMN conversation_id TEXT`);
+  },
+
+  async down(client) {
+    await client.query(`ALTER TABLE xmtp_message_queue DROP COLUMN IF EXISTS conversation_id`);
+  }
+};
+
+export default migration;
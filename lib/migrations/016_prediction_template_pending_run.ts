@@ -0,0 +1,22 @@
+/**
+ * 016 - Prediction template pending run
+ * The signed createPrediction transaction of a run, kept until its instance is recorded, so a retried
+ * run waits for that transaction instead of creating a second prediction
+ */
+
+import type { Migration } from './types';
+
+const migration: Migration = {
+  version: 16,
+  name: 'prediction_template_pending_run',
+
+  async up(client) {
+    await client.query(`ALTER TABLE prediction_templates ADD COLUMN pending_run JSONB`);
+  },
+
+  async down(client) {
+    await client.query(`ALTER TABLE prediction_templates DROP COLUMN IF EXISTS pending_run`);
+  }
+};
+
+export default migration;
@@ -0,0 +1,43 @@
+/**
+ * Migration registry
+ * Add new migrations here in version order; never renumber or edit one that has shipped.
+ */
+
+import type { Migration } from './types';
+import initialSchema from './001_initial_schema';
+import streakLocalDays from './002_streak_local_days';
+import groupChallenges from './003_group_challenges';
+import xmtpMessageQueue from './004_xmtp_message_queue';
+import sweatEquityEvidence from './005_sweat_equity_evidence';
+import communityReview from './006_community_review';
+import importedWorkouts from './007_imported_workouts';
+import userExerciseTotals from './008_user_exercise_totals';
+import predictionMarketIndex from './009_prediction_market_index';
+import conversationMemory from './010_conversation_memory';
+import conversationDrafts from './011_conversation_drafts';
+import resolutionCriteria from './012_resolution_criteria';
+import predictionTemplates from './013_prediction_templates';
+import resolutionFinalizingLease from './014_resolution_finalizing_lease';
+import xmtpQueueConversation from './015_xmtp_queue_conversation';
+import predictionTemplatePendingRun from './016_prediction_template_pending_run';
+
+export const migrations: Migration[] = [
+  initialSchema,
+  streakLocalDays,
+  groupChallenges,
+  xmtpMessageQueue,
+  sweatEquityEvidence,
+  communityReview,
+  importedWorkouts,
+  userExerciseTotals,
+  predictionMarketIndex,
+  conversationMemory,
+  conversationDrafts,
+  resolutionCriteria,
+  predictionTemplates,
+  resolutionFinalizingLease,
+  xmtpQueueConversation,
+  predictionTemplatePendingRun,
+];
+
+export type { Migration, AppliedMigration, MigrationStatus } from './types';
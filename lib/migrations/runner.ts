@@ -0,0 +1,189 @@
+/**
+ * Migration Runner
+ * Applies the numbered migrations in lib/migrations and records them in schema_migrations.
+ * A Postgres advisory lock serializes runners, so concurrent app instances, the bot and the
+ * CLI can all call migrateUp() at startup without racing each other.
+ */
+
+import type { Pool, PoolClient } from 'pg';
+import defaultPool from '../db';
+import { migrations } from './index';
+import type { AppliedMigration, Migration, MigrationStatus } from './types';
+
+// Arbitrary, fixed key shared by every runner
+const MIGRATION_LOCK_KEY = 720_418_051;
+
+interface RunnerOptions {
+  db?: Pool;
+}
+
+function getSortedMigrations(): Migration[] {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+
+  sorted.forEach((migration, index) => {
+    if (index > 0 && sorted[index - 1].version === migration.version) {
+      throw new Error(`Duplicate migration version ${migration.version}`);
+    }
+  });
+
+  return sorted;
+}
+
+async function ensureMigrationsTable(client: PoolClient): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+}
+
+async function getAppliedMigrations(client: PoolClient): Promise<AppliedMigration[]> {
+  const result = await client.query(
+    'SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC'
+  );
+
+  return result.rows.map((row) => ({
+    version: row.version,
+    name: row.name,
+    appliedAt: new Date(row.applied_at).toISOString(),
+  }));
+}
+
+/**
+ * Run fn on a dedicated connection while holding the migration advisory lock
+ */
+async function withMigrationLock<T>(db: Pool, fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await db.connect();
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+
+    try {
+      await ensureMigrationsTable(client);
+      return await fn(client);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Run one migration step and its schema_migrations bookkeeping in a single transaction
+ */
+async function runStep(client: PoolClient, migration: Migration, direction: 'up' | 'down'): Promise<void> {
+  try {
+    await client.query('BEGIN');
+    await migration[direction](client);
+
+    if (direction === 'up') {
+      await client.query(
+        'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+        [migration.version, migration.name]
+      );
+    } else {
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw new Error(
+      `Migration ${migration.version}_${migration.name} (${direction}) failed: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Apply pending migrations up to and including target (default: latest)
+ */
+export async function migrateUp(options: RunnerOptions & { target?: number } = {}): Promise<AppliedMigration[]> {
+  const { db = defaultPool, target } = options;
+
+  return withMigrationLock(db, async (client) => {
+    const appliedVersions = new Set((await getAppliedMigrations(client)).map((m) => m.version));
+    const pending = getSortedMigrations().filter(
+      (m) => !appliedVersions.has(m.version) && (target === undefined || m.version <= target)
+    );
+
+    const applied: AppliedMigration[] = [];
+    for (const migration of pending) {
+      console.log(`⬆️ Applying migration ${migration.version}_${migration.name}`);
+      await runStep(client, migration, 'up');
+      applied.push({ version: migration.version, name: migration.name, appliedAt: new Date().toISOString() });
+    }
+
+    return applied;
+  });
+}
+
+/**
+ * Roll back the most recently applied migrations (default: one)
+ */
+export async function migrateDown(options: RunnerOptions & { steps?: number } = {}): Promise<AppliedMigration[]> {
+  const { db = defaultPool, steps = 1 } = options;
+
+  return withMigrationLock(db, async (client) => {
+    const known = new Map(getSortedMigrations().map((m) => [m.version, m]));
+    const toRevert = (await getAppliedMigrations(client)).reverse().slice(0, Math.max(0, steps));
+
+    const reverted: AppliedMigration[] = [];
+    for (const applied of toRevert) {
+      const migration = known.get(applied.version);
+      if (!migration) {
+        throw new Error(`Cannot roll back migration ${applied.version}_${applied.name}: not found in this build`);
+      }
+
+      console.log(`⬇️ Rolling back migration ${migration.version}_${migration.name}`);
+      await runStep(client, migration, 'down');
+      reverted.push(applied);
+    }
+
+    return reverted;
+  });
+}
+
+/**
+ * Compare schema_migrations with the migrations bundled in this build
+ */
+export async function getMigrationStatus(options: RunnerOptions = {}): Promise<MigrationStatus> {
+  const { db = defaultPool } = options;
+
+  return withMigrationLock(db, async (client) => {
+    const applied = await getAppliedMigrations(client);
+    const appliedVersions = new Set(applied.map((m) => m.version));
+    const sorted = getSortedMigrations();
+    const knownVersions = new Set(sorted.map((m) => m.version));
+
+    return {
+      applied: applied.filter((m) => knownVersions.has(m.version)),
+      pending: sorted
+        .filter((m) => !appliedVersions.has(m.version))
+        .map(({ version, name }) => ({ version, name })),
+      unknown: applied.filter((m) => !knownVersions.has(m.version)),
+    };
+  });
+}
+
+let schemaReady: Promise<void> | null = null;
+
+/**
+ * Apply pending migrations on the shared pool (runs once per process)
+ */
+export function ensureSchema(): Promise<void> {
+  if (!schemaReady) {
+    schemaReady = migrateUp()
+      .then(() => undefined)
+      .catch((error) => {
+        schemaReady = null; // Allow a later call to retry
+        throw error;
+      });
+  }
+
+  return schemaReady;
+}
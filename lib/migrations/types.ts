@@ -0,0 +1,24 @@
+/**
+ * Migration Types
+ */
+
+import type { PoolClient } from 'pg';
+
+export interface Migration {
+  version: number; // Strictly increasing, matches the file prefix (001_, 002_, ...)
+  name: string;
+  up: (client: PoolClient) => Promise<void>;
+  down: (client: PoolClient) => Promise<void>;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: string;
+}
+
+export interface MigrationStatus {
+  applied: AppliedMigration[];
+  pending: Array<Pick<Migration, 'version' | 'name'>>;
+  unknown: AppliedMigration[]; // Recorded in the database but missing from this build
+}
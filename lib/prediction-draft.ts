@@ -0,0 +1,157 @@
+/**
+ * Prediction Drafts
+ * The prediction the bot and the chat's draft card edit together before anything is signed.
+ * Shared by the server (lib/bot-agent validates and persists drafts) and ChatInterface, so this
+ * module only imports types
+ */
+
+import type { PredictionValidationResult } from './prediction-validation';
+import type { ResolutionCriteria } from './resolution-criteria/types';
+import type { SupportedChain } from './services/dual-chain-service';
+
+export type DraftCategory = 0 | 1 | 2 | 3; // FITNESS, CHAIN, COMMUNITY, CUSTOM
+
+export interface PredictionDraftFields {
+  title: string;
+  description: string;
+  targetDate: number | null; // Unix seconds
+  targetValue: number;
+  category: DraftCategory;
+  chain: SupportedChain;
+  emoji: string;
+  targetUser?: string; // Name as the user wrote it ("dwr.eth")
+  targetAddress?: string; // Resolved from targetUser
+  resolution?: ResolutionCriteria; // How it resolves automatically; none means manual resolution
+}
+
+export type DraftField = keyof PredictionDraftFields;
+
+/**
+ * Where a field's value came from: the user said it, the bot worked it out, or nothing set it
+ */
+export type DraftProvenance = 'user' | 'inferred' | 'default';
+
+export interface PredictionDraft {
+  id: string;
+  fields: PredictionDraftFields;
+  provenance: Partial<Record<DraftField, DraftProvenance>>;
+  validation: PredictionValidationResult;
+  fieldIssues: Partial<Record<DraftField, string[]>>; // validation.errors that belong to a field
+  createdAt: number; // Epoch ms
+  updatedAt: number;
+}
+
+/**
+ * What the user's wallet is asked to sign once a draft is confirmed (the chat's WALLET_TRIGGER payload)
+ */
+export interface DraftTransaction {
+  title: string;
+  description: string;
+  targetDate: number;
+  targetValue: number;
+  category: DraftCategory;
+  network: SupportedChain;
+  emoji: string;
+  autoResolvable: boolean;
+  chain: SupportedChain;
+  contractAddress: string;
+  chainId: number;
+  resolution?: ResolutionCriteria;
+  resolutionHash?: string; // Committed at the end of description
+}
+
+export const DRAFT_CATEGORIES: Record<string, DraftCategory> = {
+  fitness: 0,
+  chain: 1,
+  community: 2,
+  custom: 3,
+};
+
+export const DRAFT_CATEGORY_NAMES: Record<DraftCategory, string> = {
+  0: 'fitness',
+  1: 'chain',
+  2: 'community',
+  3: 'custom',
+};
+
+export const EDITABLE_DRAFT_FIELDS: DraftField[] = [
+  'title',
+  'description',
+  'targetDate',
+  'targetValue',
+  'category',
+  'chain',
+  'emoji',
+  'targetUser',
+];
+
+export const DRAFT_FIELD_LABELS: Record<DraftField, string> = {
+  title: 'Title',
+  description: 'Description',
+  targetDate: 'Deadline',
+  targetValue: 'Target',
+  category: 'Category',
+  chain: 'Chain',
+  emoji: 'Emoji',
+  targetUser: 'Subject',
+  targetAddress: 'Address',
+  resolution: 'Resolves when',
+};
+
+export const DRAFT_PROVENANCE_LABELS: Record<DraftProvenance, string> = {
+  user: 'you said',
+  inferred: 'bot guessed',
+  default: 'default',
+};
+
+// Leading words validatePrediction and validateExerciseTarget use for each field's errors
+const ISSUE_PREFIXES: Array<[DraftField, RegExp]> = [
+  ['title', /^title\b/i],
+  ['description', /^description\b/i],
+  ['targetDate', /^target date\b/i],
+  ['targetValue', /^target value\b|\btarget must be\b/i],
+  ['category', /^(invalid )?category\b/i],
+  ['chain', /^network\b/i],
+  ['resolution', /^resolution criteria\b/i],
+];
+
+/**
+ * Group validation errors by the field they're about; errors that match no field are left out
+ */
+export function issuesByField(validation: PredictionValidationResult): Partial<Record<DraftField, string[]>> {
+  const issues: Partial<Record<DraftField, string[]>> = {};
+  for (const error of validation.errors) {
+    const field = ISSUE_PREFIXES.find(([, pattern]) => pattern.test(error))?.[0];
+    if (field) {
+      issues[field] = [...(issues[field] ?? []), error];
+    }
+  }
+  return issues;
+}
+
+const DRAFT_MARKER_PATTERN = /<!-- PREDICTION_DRAFT:(.*?) -->/;
+
+/**
+ * Hidden comment carrying the draft in a bot reply, like WALLET_TRIGGER; the chat renders the card from it
+ */
+export function embedDraft(draft: PredictionDraft): string {
+  // Escaped so a "-->" typed into a field can't end the comment early
+  return `<!-- PREDICTION_DRAFT:${JSON.stringify(draft).replace(/-->/g, '--\\u003e')} -->`;
+}
+
+/**
+ * Split a bot reply into the text before its draft marker (the plain-text card after it is for chat
+ * clients that can't render the card) and the draft itself
+ */
+export function extractDraft(content: string): { text: string; draft: PredictionDraft | null } {
+  const match = content.match(DRAFT_MARKER_PATTERN);
+  if (!match || match.index === undefined) {
+    return { text: content, draft: null };
+  }
+
+  try {
+    return { text: content.slice(0, match.index).trim(), draft: JSON.parse(match[1]) };
+  } catch {
+    return { text: content.replace(DRAFT_MARKER_PATTERN, '').trim(), draft: null };
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Prediction Market Events
+ * Decodes UnifiedPredictionMarket logs into normalized MarketEvents
+ */
+
+import { ethers } from 'ethers';
+import { unifiedPredictionMarketABI } from '../unified-prediction-market-abi';
+import type { SupportedChain } from '../services/dual-chain-service';
+import type { MarketEvent, MarketEventType } from './types';
+
+export const MARKET_EVENT_TYPES: MarketEventType[] = [
+  'PredictionCreated',
+  'VoteCast',
+  'PredictionResolved',
+  'RewardClaimed',
+  'SweatEquityFundsReleased',
+];
+
+export const marketInterface = new ethers.Interface(unifiedPredictionMarketABI);
+
+// topic0 of every indexed event, for a single getLogs filter
+export const MARKET_EVENT_TOPICS = MARKET_EVENT_TYPES.map(type => marketInterface.getEvent(type)!.topicHash);
+
+export type PredictionDetails = Extract<MarketEvent, { type: 'PredictionCreated' }>['details'];
+
+/**
+ * Decode one log; returns null for logs that aren't an indexed market event
+ * PredictionCreated needs its details from getPrediction, passed in by the caller
+ */
+export function decodeMarketLog(
+  chain: SupportedChain,
+  log: ethers.Log,
+  blockTimestamp: number,
+  details?: PredictionDetails
+): MarketEvent | null {
+  let parsed: ethers.LogDescription | null;
+  try {
+    parsed = marketInterface.parseLog({ topics: [...log.topics], data: log.data });
+  } catch {
+    return null;
+  }
+  if (!parsed) {
+    return null;
+  }
+
+  const location = {
+    chain,
+    predictionId: Number(parsed.args.predictionId),
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    blockTimestamp,
+    txHash: log.transactionHash,
+    logIndex: log.index,
+  };
+
+  switch (parsed.name as MarketEventType) {
+    case 'PredictionCreated':
+      if (!details) {
+        throw new Error(`Prediction ${location.predictionId} on ${chain} needs its details to be indexed`);
+      }
+      return {
+        ...location,
+        type: 'PredictionCreated',
+        creator: String(parsed.args.creator).toLowerCase(),
+        title: parsed.args.title,
+        targetDate: Number(parsed.args.targetDate),
+        targetValue: parsed.args.targetValue.toString(),
+        details,
+      };
+    case 'VoteCast':
+      return {
+        ...location,
+        type: 'VoteCast',
+        voter: String(parsed.args.voter).toLowerCase(),
+        isYes: parsed.args.isYes,
+        amount: parsed.args.amount.toString(),
+      };
+    case 'PredictionResolved':
+      return {
+        ...location,
+        type: 'PredictionResolved',
+        outcome: parsed.args.outcome,
+        totalPool: parsed.args.totalPool.toString(),
+        winningPool: parsed.args.winningPool.toString(),
+      };
+    case 'RewardClaimed':
+      return {
+        ...location,
+        type: 'RewardClaimed',
+        claimer: String(parsed.args.claimer).toLowerCase(),
+        amount: parsed.args.amount.toString(),
+      };
+    case 'SweatEquityFundsReleased':
+      return {
+        ...location,
+        type: 'SweatEquityFundsReleased',
+        user: String(parsed.args.user).toLowerCase(),
+        amount: parsed.args.amount.toString(),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether a log is a PredictionCreated event (its details must be fetched before decoding)
+ */
+export function isPredictionCreatedLog(log: ethers.Log): boolean {
+  return log.topics[0] === MARKET_EVENT_TOPICS[0];
+}
@@ -0,0 +1,12 @@
+/**
+ * Prediction Index
+ * UnifiedPredictionMarket events indexed into Postgres per chain (server only: it uses lib/db)
+ */
+
+export * from './events';
+export * from './indexer';
+export * from './odds';
+export * from './pg-store';
+export * from './reader';
+export * from './sync';
+export type * from './types';
@@ -0,0 +1,219 @@
+/**
+ * Prediction Market Indexer
+ * Follows UnifiedPredictionMarket events on one chain and writes them to a PredictionIndexStore
+ * Only blocks `confirmations` deep are indexed; if the chain still reorgs below that, the indexer walks
+ * back through the block hashes it remembered, rolls the store back to the last block that still
+ * matches and re-indexes from there
+ */
+
+import { ethers } from 'ethers';
+import { CHAIN_CONFIG, type SupportedChain } from '../services/dual-chain-service';
+import { unifiedPredictionMarketABI } from '../unified-prediction-market-abi';
+import { MARKET_EVENT_TOPICS, decodeMarketLog, isPredictionCreatedLog, type PredictionDetails } from './events';
+import type { IndexCheckpoint, IndexedBlock, MarketEvent, PredictionIndexStore, SyncResult } from './types';
+
+export interface PredictionIndexerPolicy {
+  confirmations: number; // Blocks behind the head before a block is indexed
+  batchBlocks: number; // Block range per getLogs call (and per store commit)
+  maxReorgDepth: number; // Recent block hashes kept to find where a reorg diverged
+}
+
+export function getPredictionIndexerPolicy(): PredictionIndexerPolicy {
+  const confirmations = Number(process.env.PREDICTION_INDEXER_CONFIRMATIONS);
+  const batchBlocks = Number(process.env.PREDICTION_INDEXER_BATCH_BLOCKS);
+  const maxReorgDepth = Number(process.env.PREDICTION_INDEXER_MAX_REORG_DEPTH);
+
+  return {
+    confirmations: Number.isInteger(confirmations) && confirmations >= 0 ? confirmations : 12,
+    batchBlocks: Number.isInteger(batchBlocks) && batchBlocks > 0 ? batchBlocks : 2000,
+    maxReorgDepth: Number.isInteger(maxReorgDepth) && maxReorgDepth > 0 ? maxReorgDepth : 128,
+  };
+}
+
+export interface PredictionIndexerOptions {
+  provider: ethers.Provider;
+  contractAddress: string;
+  startBlock?: number; // Block the contract was deployed at; indexing starts here
+  policy?: PredictionIndexerPolicy;
+}
+
+export class PredictionMarketIndexer {
+  private contract: ethers.Contract;
+  private contractAddress: string;
+  private startBlock: number;
+  private policy: PredictionIndexerPolicy;
+
+  constructor(
+    readonly chain: SupportedChain,
+    private options: PredictionIndexerOptions,
+    private store: PredictionIndexStore
+  ) {
+    this.contractAddress = options.contractAddress.toLowerCase();
+    this.contract = new ethers.Contract(options.contractAddress, unifiedPredictionMarketABI, options.provider);
+    this.startBlock = options.startBlock ?? 0;
+    this.policy = options.policy ?? getPredictionIndexerPolicy();
+  }
+
+  /**
+   * Index confirmed blocks since the checkpoint, at most maxBatches ranges of policy.batchBlocks
+   */
+  async sync(maxBatches: number = Infinity): Promise<SyncResult> {
+    const { provider } = this.options;
+    const head = await provider.getBlockNumber();
+    const safeHead = head - this.policy.confirmations;
+
+    let checkpoint = await this.store.getCheckpoint(this.chain);
+    let rolledBackTo: number | null = null;
+
+    // A different contract means none of the indexed rows apply any more
+    if (checkpoint && checkpoint.contractAddress !== this.contractAddress) {
+      console.warn(`[PredictionIndexer] ${this.chain} contract changed to ${this.contractAddress}, re-indexing`);
+      await this.store.rollback(this.chain, null);
+      checkpoint = null;
+      rolledBackTo = this.startBlock - 1;
+    }
+
+    if (checkpoint) {
+      const ancestor = await this.findCommonAncestor(checkpoint);
+      if (!ancestor || ancestor.number !== checkpoint.block.number) {
+        rolledBackTo = ancestor ? ancestor.number : this.startBlock - 1;
+        console.warn(`[PredictionIndexer] ${this.chain} reorg below block ${checkpoint.block.number}, rolling back to ${rolledBackTo}`);
+        await this.store.rollback(this.chain, ancestor ? { contractAddress: this.contractAddress, block: ancestor } : null);
+      }
+    }
+
+    const fromBlock = rolledBackTo !== null ? rolledBackTo + 1 : checkpoint ? checkpoint.block.number + 1 : this.startBlock;
+    let next = fromBlock;
+    let events = 0;
+
+    for (let batch = 0; batch < maxBatches && next <= safeHead; batch++) {
+      const to = Math.min(next + this.policy.batchBlocks - 1, safeHead);
+      events += await this.indexRange(next, to);
+      next = to + 1;
+    }
+
+    return {
+      chain: this.chain,
+      fromBlock,
+      toBlock: next - 1,
+      events,
+      rolledBackTo,
+      caughtUp: next > safeHead,
+    };
+  }
+
+  /**
+   * The newest remembered block the chain still agrees with, or null if none of them match
+   */
+  private async findCommonAncestor(checkpoint: IndexCheckpoint): Promise<IndexedBlock | null> {
+    const current = await this.options.provider.getBlock(checkpoint.block.number);
+    if (current?.hash === checkpoint.block.hash) {
+      return checkpoint.block;
+    }
+
+    const remembered = await this.store.getRecentBlocks(this.chain, this.policy.maxReorgDepth);
+    for (const block of remembered) {
+      if (block.number >= checkpoint.block.number) {
+        continue;
+      }
+      const onChain = await this.options.provider.getBlock(block.number);
+      if (onChain?.hash === block.hash) {
+        return block;
+      }
+    }
+
+    return null;
+  }
+
+  private async indexRange(fromBlock: number, toBlock: number): Promise<number> {
+    const { provider } = this.options;
+    const logs = await provider.getLogs({
+      address: this.options.contractAddress,
+      topics: [MARKET_EVENT_TOPICS],
+      fromBlock,
+      toBlock,
+    });
+    logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const blocks = new Map<number, ethers.Block>();
+    for (const number of new Set([...logs.map(log => log.blockNumber), toBlock])) {
+      const block = await provider.getBlock(number);
+      if (!block?.hash) {
+        throw new Error(`Block ${number} on ${this.chain} is not available`);
+      }
+      blocks.set(number, block);
+    }
+
+    const events: MarketEvent[] = [];
+    for (const log of logs) {
+      const block = blocks.get(log.blockNumber)!;
+      // Logs and blocks were read separately; if they disagree the chain moved underneath us
+      if (block.hash !== log.blockHash) {
+        throw new Error(`Block ${log.blockNumber} on ${this.chain} changed while indexing, retry the sync`);
+      }
+
+      const details = isPredictionCreatedLog(log) ? await this.readDetails(log) : undefined;
+      const event = decodeMarketLog(this.chain, log, block.timestamp, details);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    const checkpoint = { number: toBlock, hash: blocks.get(toBlock)!.hash! };
+    await this.store.commitBatch(this.chain, {
+      contractAddress: this.contractAddress,
+      events,
+      blocks: [...blocks.values()].map(block => ({ number: block.number, hash: block.hash! })),
+      checkpoint,
+      pruneBlocksBelow: toBlock - this.policy.maxReorgDepth,
+    });
+
+    return events.length;
+  }
+
+  // Fields PredictionCreated doesn't carry; they never change after creation, so the latest state is fine
+  private async readDetails(log: ethers.Log): Promise<PredictionDetails> {
+    const predictionId = BigInt(log.topics[1]);
+    const prediction = await this.contract.getPrediction(predictionId);
+
+    return {
+      description: prediction.description,
+      category: Number(prediction.category),
+      network: prediction.network,
+      emoji: prediction.emoji,
+      autoResolvable: prediction.autoResolvable,
+      createdAt: Number(prediction.createdAt),
+    };
+  }
+}
+
+/**
+ * Chains with a deployed market contract
+ */
+export function getIndexedChains(): SupportedChain[] {
+  return (Object.keys(CHAIN_CONFIG) as SupportedChain[]).filter(
+    chain => CHAIN_CONFIG[chain].contractAddress !== ethers.ZeroAddress
+  );
+}
+
+/**
+ * Indexer configured from the environment; PREDICTION_INDEXER_<CHAIN>_RPC_URL overrides the chain's RPC
+ * and PREDICTION_INDEXER_<CHAIN>_START_BLOCK skips the blocks before the contract was deployed
+ */
+export function createPredictionIndexer(chain: SupportedChain, store: PredictionIndexStore): PredictionMarketIndexer {
+  const config = CHAIN_CONFIG[chain];
+  const prefix = `PREDICTION_INDEXER_${chain.toUpperCase()}`;
+  const startBlock = Number(process.env[`${prefix}_START_BLOCK`]);
+
+  return new PredictionMarketIndexer(
+    chain,
+    {
+      provider: new ethers.JsonRpcProvider(process.env[`${prefix}_RPC_URL`] || config.rpcUrl, config.id, {
+        staticNetwork: true,
+      }),
+      contractAddress: config.contractAddress,
+      startBlock: Number.isInteger(startBlock) && startBlock >= 0 ? startBlock : 0,
+    },
+    store
+  );
+}
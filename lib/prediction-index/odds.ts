@@ -0,0 +1,234 @@
+/**
+ * Odds History
+ * How each market's YES/NO split moved over time, rebuilt from indexed VoteCast events
+ * (every vote is stored with its block timestamp, so the series survives reorgs with the votes)
+ * Chains the index doesn't serve only have their current pools
+ */
+
+import { ethers } from 'ethers';
+import pool from '../db';
+import { ensureSchema } from '../migrations/runner';
+import { getChainPrediction, type ChainPrediction, type SupportedChain } from '../services/dual-chain-service';
+import { getIndexedPrediction, getMarketPredictions, getServableChains } from './reader';
+import type { OddsHistory, OddsMomentum, OddsPoint } from './types';
+
+export const MOMENTUM_WINDOW_SECONDS = 24 * 60 * 60;
+
+// Points per series by default: enough for a sparkline, bounded however many votes a market has
+export const DEFAULT_ODDS_POINTS = 48;
+
+export interface VoteTick {
+  timestamp: number; // seconds
+  isYes: boolean;
+  amountWei: string;
+}
+
+function toNative(wei: bigint): number {
+  return Number(ethers.formatEther(wei));
+}
+
+// Same split as calculateOdds: 50/50 on an empty pool, YES rounded to a whole percent
+function splitOdds(yes: number, no: number): { yes: number; no: number } {
+  const total = yes + no;
+  if (total === 0) {
+    return { yes: 50, no: 50 };
+  }
+  const yesPercent = Math.round((yes / total) * 100);
+  return { yes: yesPercent, no: 100 - yesPercent };
+}
+
+function yesShare(yes: bigint, no: bigint): number {
+  const total = yes + no;
+  return total === BigInt(0) ? 0.5 : Number((yes * BigInt(1_000_000)) / total) / 1_000_000;
+}
+
+/**
+ * Odds after each bucket of votes; ticks must be in chain order. Buckets split the time between the
+ * first and last vote evenly so a series never has more than maxPoints points
+ */
+export function buildOddsSeries(ticks: VoteTick[], maxPoints: number = DEFAULT_ODDS_POINTS): OddsPoint[] {
+  if (ticks.length === 0) {
+    return [];
+  }
+
+  const first = ticks[0].timestamp;
+  const span = ticks[ticks.length - 1].timestamp - first + 1;
+  const bucketSeconds = Math.max(1, Math.ceil(span / Math.max(1, maxPoints)));
+
+  const points: OddsPoint[] = [];
+  let lastBucket = -1;
+  let yes = BigInt(0);
+  let no = BigInt(0);
+  let volume = BigInt(0);
+  let votes = 0;
+
+  for (const tick of ticks) {
+    const bucket = Math.floor((tick.timestamp - first) / bucketSeconds);
+    if (bucket !== lastBucket) {
+      volume = BigInt(0);
+      votes = 0;
+    }
+
+    const amount = BigInt(tick.amountWei);
+    if (tick.isYes) yes += amount;
+    else no += amount;
+    volume += amount;
+    votes++;
+
+    const point: OddsPoint = {
+      timestamp: tick.timestamp,
+      ...splitOdds(toNative(yes), toNative(no)),
+      yesPool: toNative(yes),
+      noPool: toNative(no),
+      volume: toNative(volume),
+      votes,
+    };
+    if (bucket === lastBucket) {
+      points[points.length - 1] = point;
+    } else {
+      points.push(point);
+      lastBucket = bucket;
+    }
+  }
+
+  return points;
+}
+
+/**
+ * How far the YES share moved over the last window, and on how many votes
+ * A market one vote pushed from 50/50 to 100/0 scores below one that a dozen votes moved half as far
+ */
+export function computeMomentum(
+  ticks: VoteTick[],
+  now: number = Math.floor(Date.now() / 1000),
+  windowSeconds: number = MOMENTUM_WINDOW_SECONDS
+): OddsMomentum {
+  const windowStart = now - windowSeconds;
+  let yesBefore = BigInt(0);
+  let noBefore = BigInt(0);
+  let yes = BigInt(0);
+  let no = BigInt(0);
+  let windowVolume = BigInt(0);
+  let windowVotes = 0;
+
+  for (const tick of ticks) {
+    const amount = BigInt(tick.amountWei);
+    if (tick.isYes) yes += amount;
+    else no += amount;
+
+    if (tick.timestamp < windowStart) {
+      if (tick.isYes) yesBefore += amount;
+      else noBefore += amount;
+    } else {
+      windowVolume += amount;
+      windowVotes++;
+    }
+  }
+
+  const oddsChange = Math.round((yesShare(yes, no) - yesShare(yesBefore, noBefore)) * 1000) / 10;
+
+  return {
+    windowSeconds,
+    oddsChange,
+    windowVotes,
+    windowVolume: toNative(windowVolume),
+    score: Math.round(Math.abs(oddsChange) * Math.log2(1 + windowVotes) * 100) / 100,
+  };
+}
+
+function currentOnly(prediction: ChainPrediction, now: number): OddsHistory {
+  return {
+    chain: prediction.chain,
+    predictionId: prediction.id,
+    source: 'current',
+    points: [{
+      timestamp: now,
+      ...splitOdds(prediction.yesVotes, prediction.noVotes),
+      yesPool: prediction.yesVotes,
+      noPool: prediction.noVotes,
+      volume: 0,
+      votes: 0,
+    }],
+    momentum: computeMomentum([], now),
+  };
+}
+
+/**
+ * Indexed votes per market ("chain:id"), oldest first
+ */
+async function getVoteTicks(chain?: SupportedChain, predictionId?: number): Promise<Map<string, VoteTick[]>> {
+  await ensureSchema();
+  const result = await pool.query(`
+    SELECT chain, prediction_id, is_yes, amount, block_timestamp
+    FROM market_votes
+    WHERE ($1::text IS NULL OR chain = $1) AND ($2::int IS NULL OR prediction_id = $2)
+    ORDER BY chain, prediction_id, block_number, log_index
+  `, [chain ?? null, predictionId ?? null]);
+
+  const ticks = new Map<string, VoteTick[]>();
+  for (const row of result.rows) {
+    const key = `${row.chain}:${row.prediction_id}`;
+    const list = ticks.get(key) ?? [];
+    list.push({ timestamp: Number(row.block_timestamp), isYes: row.is_yes, amountWei: String(row.amount) });
+    ticks.set(key, list);
+  }
+  return ticks;
+}
+
+async function servableChains(): Promise<Set<SupportedChain>> {
+  try {
+    return await getServableChains();
+  } catch (error) {
+    console.error('[PredictionIndex] Index unavailable, serving current odds only:', error);
+    return new Set();
+  }
+}
+
+/**
+ * One market's odds history, or null if the prediction doesn't exist
+ */
+export async function getOddsHistory(
+  chain: SupportedChain,
+  predictionId: number,
+  maxPoints: number = DEFAULT_ODDS_POINTS
+): Promise<OddsHistory | null> {
+  const now = Math.floor(Date.now() / 1000);
+
+  if ((await servableChains()).has(chain)) {
+    if (!(await getIndexedPrediction(chain, predictionId))) {
+      return null;
+    }
+    const ticks = (await getVoteTicks(chain, predictionId)).get(`${chain}:${predictionId}`) ?? [];
+    return { chain, predictionId, source: 'index', points: buildOddsSeries(ticks, maxPoints), momentum: computeMomentum(ticks, now) };
+  }
+
+  const prediction = await getChainPrediction(predictionId, chain);
+  return prediction ? currentOnly(prediction, now) : null;
+}
+
+/**
+ * Odds histories for every market (or one chain's), e.g. for sparklines and the momentum sort
+ */
+export async function getOddsHistories(
+  chain?: SupportedChain,
+  maxPoints: number = DEFAULT_ODDS_POINTS
+): Promise<OddsHistory[]> {
+  const now = Math.floor(Date.now() / 1000);
+  const [predictions, servable] = await Promise.all([getMarketPredictions(chain), servableChains()]);
+  const ticks = [...servable].some(c => !chain || c === chain) ? await getVoteTicks(chain) : new Map<string, VoteTick[]>();
+
+  return predictions.map(prediction => {
+    if (!servable.has(prediction.chain)) {
+      return currentOnly(prediction, now);
+    }
+
+    const marketTicks = ticks.get(`${prediction.chain}:${prediction.id}`) ?? [];
+    return {
+      chain: prediction.chain,
+      predictionId: prediction.id,
+      source: 'index' as const,
+      points: buildOddsSeries(marketTicks, maxPoints),
+      momentum: computeMomentum(marketTicks, now),
+    };
+  });
+}
@@ -0,0 +1,166 @@
+/**
+ * Postgres Prediction Index Store
+ * Writes indexer batches into the market_* tables (migration 009), one transaction per batch
+ */
+
+import type { PoolClient } from 'pg';
+import pool from '../db';
+import { ensureSchema } from '../migrations/runner';
+import type { SupportedChain } from '../services/dual-chain-service';
+import type { IndexBatch, IndexCheckpoint, IndexedBlock, MarketEvent, PredictionIndexStore } from './types';
+
+// Tables holding indexed events, cleared above the rollback block on a reorg
+const EVENT_TABLES = [
+  'market_predictions',
+  'market_votes',
+  'market_resolutions',
+  'market_claims',
+  'market_sweat_equity_releases',
+];
+
+async function insertEvent(client: PoolClient, event: MarketEvent): Promise<void> {
+  const location = [event.chain, event.predictionId, event.blockNumber, event.blockTimestamp, event.txHash, event.logIndex];
+
+  // Re-running a batch (e.g. two indexers racing) must not duplicate rows
+  switch (event.type) {
+    case 'PredictionCreated':
+      await client.query(`
+        INSERT INTO market_predictions (
+          chain, prediction_id, block_number, block_timestamp, tx_hash, log_index,
+          creator, title, description, target_date, target_value, category, network, emoji, auto_resolvable, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+        ON CONFLICT (chain, prediction_id) DO NOTHING
+      `, [
+        ...location,
+        event.creator,
+        event.title,
+        event.details.description,
+        event.targetDate,
+        event.targetValue,
+        event.details.category,
+        event.details.network,
+        event.details.emoji,
+        event.details.autoResolvable,
+        event.details.createdAt,
+      ]);
+      break;
+    case 'VoteCast':
+      await client.query(`
+        INSERT INTO market_votes (chain, prediction_id, block_number, block_timestamp, tx_hash, log_index, voter, is_yes, amount)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        ON CONFLICT DO NOTHING
+      `, [...location, event.voter, event.isYes, event.amount]);
+      break;
+    case 'PredictionResolved':
+      await client.query(`
+        INSERT INTO market_resolutions (chain, prediction_id, block_number, block_timestamp, tx_hash, log_index, outcome, total_pool, winning_pool)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        ON CONFLICT DO NOTHING
+      `, [...location, event.outcome, event.totalPool, event.winningPool]);
+      break;
+    case 'RewardClaimed':
+      await client.query(`
+        INSERT INTO market_claims (chain, prediction_id, block_number, block_timestamp, tx_hash, log_index, claimer, amount)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT DO NOTHING
+      `, [...location, event.claimer, event.amount]);
+      break;
+    case 'SweatEquityFundsReleased':
+      await client.query(`
+        INSERT INTO market_sweat_equity_releases (chain, prediction_id, block_number, block_timestamp, tx_hash, log_index, user_address, amount)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT DO NOTHING
+      `, [...location, event.user, event.amount]);
+      break;
+  }
+}
+
+async function writeCheckpoint(client: PoolClient, chain: SupportedChain, contractAddress: string, block: IndexedBlock) {
+  await client.query(`
+    INSERT INTO market_index_checkpoints (chain, contract_address, block_number, block_hash, updated_at)
+    VALUES ($1, $2, $3, $4, NOW())
+    ON CONFLICT (chain) DO UPDATE SET
+      contract_address = EXCLUDED.contract_address,
+      block_number = EXCLUDED.block_number,
+      block_hash = EXCLUDED.block_hash,
+      updated_at = NOW()
+  `, [chain, contractAddress, block.number, block.hash]);
+}
+
+async function inTransaction(fn: (client: PoolClient) => Promise<void>): Promise<void> {
+  await ensureSchema();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    await fn(client);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export class PgPredictionIndexStore implements PredictionIndexStore {
+  async getCheckpoint(chain: SupportedChain): Promise<IndexCheckpoint | null> {
+    await ensureSchema();
+    const result = await pool.query('SELECT * FROM market_index_checkpoints WHERE chain = $1', [chain]);
+    const row = result.rows[0];
+
+    return row
+      ? {
+          chain: row.chain,
+          contractAddress: row.contract_address,
+          block: { number: Number(row.block_number), hash: row.block_hash },
+          updatedAt: new Date(row.updated_at).toISOString(),
+        }
+      : null;
+  }
+
+  async getRecentBlocks(chain: SupportedChain, limit: number): Promise<IndexedBlock[]> {
+    await ensureSchema();
+    const result = await pool.query(
+      'SELECT block_number, block_hash FROM market_index_blocks WHERE chain = $1 ORDER BY block_number DESC LIMIT $2',
+      [chain, limit]
+    );
+
+    return result.rows.map(row => ({ number: Number(row.block_number), hash: row.block_hash }));
+  }
+
+  async commitBatch(chain: SupportedChain, batch: IndexBatch): Promise<void> {
+    await inTransaction(async client => {
+      for (const event of batch.events) {
+        await insertEvent(client, event);
+      }
+
+      if (batch.blocks.length > 0) {
+        await client.query(`
+          INSERT INTO market_index_blocks (chain, block_number, block_hash)
+          SELECT $1, block_number, block_hash FROM UNNEST($2::bigint[], $3::text[]) AS t(block_number, block_hash)
+          ON CONFLICT (chain, block_number) DO UPDATE SET block_hash = EXCLUDED.block_hash
+        `, [chain, batch.blocks.map(block => block.number), batch.blocks.map(block => block.hash)]);
+      }
+
+      await client.query('DELETE FROM market_index_blocks WHERE chain = $1 AND block_number < $2', [chain, batch.pruneBlocksBelow]);
+      await writeCheckpoint(client, chain, batch.contractAddress, batch.checkpoint);
+    });
+  }
+
+  async rollback(chain: SupportedChain, to: { contractAddress: string; block: IndexedBlock } | null): Promise<void> {
+    await inTransaction(async client => {
+      const above = to ? to.block.number : -1;
+
+      for (const table of [...EVENT_TABLES, 'market_index_blocks']) {
+        await client.query(`DELETE FROM ${table} WHERE chain = $1 AND block_number > $2`, [chain, above]);
+      }
+
+      if (to) {
+        await writeCheckpoint(client, chain, to.contractAddress, to.block);
+      } else {
+        await client.query('DELETE FROM market_index_checkpoints WHERE chain = $1', [chain]);
+      }
+    });
+  }
+}
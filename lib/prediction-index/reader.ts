@@ -0,0 +1,244 @@
+/**
+ * Prediction Index Reader
+ * Server-side reads of the indexed market tables, replacing per-ID getPrediction scans
+ * Chains the indexer hasn't reached recently fall back to the RPC scan
+ */
+
+import { ethers } from 'ethers';
+import pool from '../db';
+import { ensureSchema } from '../migrations/runner';
+import {
+  CHAIN_CONFIG,
+  getChainPredictions,
+  type ChainPrediction,
+  type SupportedChain,
+} from '../services/dual-chain-service';
+import { getIndexedChains } from './indexer';
+import type { IndexCheckpoint, IndexedPrediction, IndexedUserVote, MarketActivityEvent } from './types';
+
+// Checkpoints older than this mean the indexer has stopped, so the chain is read over RPC instead
+export function getPredictionIndexMaxLagSeconds(): number {
+  const maxLag = Number(process.env.PREDICTION_INDEX_MAX_LAG_SECONDS);
+  return Number.isFinite(maxLag) && maxLag > 0 ? maxLag : 15 * 60;
+}
+
+const PREDICTIONS_SQL = `
+  SELECT
+    p.*,
+    COALESCE(v.yes_wei, 0) AS yes_wei,
+    COALESCE(v.no_wei, 0) AS no_wei,
+    COALESCE(v.voter_count, 0) AS voter_count,
+    r.outcome AS resolved_outcome,
+    r.block_timestamp AS resolved_at
+  FROM market_predictions p
+  LEFT JOIN (
+    SELECT
+      chain,
+      prediction_id,
+      SUM(amount) FILTER (WHERE is_yes) AS yes_wei,
+      SUM(amount) FILTER (WHERE NOT is_yes) AS no_wei,
+      COUNT(DISTINCT voter) AS voter_count
+    FROM market_votes
+    GROUP BY chain, prediction_id
+  ) v ON v.chain = p.chain AND v.prediction_id = p.prediction_id
+  LEFT JOIN market_resolutions r ON r.chain = p.chain AND r.prediction_id = p.prediction_id
+`;
+
+function mapPredictionRow(row: any): IndexedPrediction {
+  const resolved = row.resolved_outcome !== null && row.resolved_outcome !== undefined;
+  const yes = BigInt(row.yes_wei);
+  const no = BigInt(row.no_wei);
+
+  return {
+    chain: row.chain,
+    id: Number(row.prediction_id),
+    creator: row.creator,
+    title: row.title,
+    description: row.description,
+    targetDate: Number(row.target_date),
+    targetValue: String(row.target_value),
+    category: Number(row.category),
+    network: row.network,
+    emoji: row.emoji,
+    autoResolvable: row.auto_resolvable,
+    createdAt: Number(row.created_at),
+    yesVotesWei: yes.toString(),
+    noVotesWei: no.toString(),
+    totalStakedWei: (yes + no).toString(),
+    voterCount: Number(row.voter_count),
+    status: resolved ? 1 : 0,
+    outcome: resolved ? (row.resolved_outcome ? 1 : 2) : 0,
+    resolvedAt: resolved ? Number(row.resolved_at) : null,
+  };
+}
+
+/**
+ * The ChainPrediction shape the UI and bot already use
+ */
+export function toChainPrediction(prediction: IndexedPrediction): ChainPrediction {
+  const config = CHAIN_CONFIG[prediction.chain];
+
+  return {
+    id: prediction.id,
+    chain: prediction.chain,
+    creator: prediction.creator,
+    title: prediction.title,
+    description: prediction.description,
+    targetDate: prediction.targetDate,
+    targetValue: Number(prediction.targetValue),
+    currentValue: 0, // Never written by the contract
+    category: prediction.category,
+    network: prediction.network,
+    emoji: prediction.emoji,
+    totalStaked: Number(ethers.formatEther(prediction.totalStakedWei)),
+    yesVotes: Number(ethers.formatEther(prediction.yesVotesWei)),
+    noVotes: Number(ethers.formatEther(prediction.noVotesWei)),
+    status: prediction.status,
+    outcome: prediction.outcome,
+    createdAt: prediction.createdAt,
+    autoResolvable: prediction.autoResolvable,
+    chainMetadata: {
+      currency: config.nativeCurrency.symbol,
+      explorerUrl: config.blockExplorer,
+      isProduction: config.isProduction,
+    },
+  };
+}
+
+export async function getIndexedPredictions(chain?: SupportedChain): Promise<IndexedPrediction[]> {
+  await ensureSchema();
+  const result = await pool.query(
+    `${PREDICTIONS_SQL} WHERE ($1::text IS NULL OR p.chain = $1) ORDER BY p.chain, p.prediction_id`,
+    [chain ?? null]
+  );
+
+  return result.rows.map(mapPredictionRow);
+}
+
+export async function getIndexedPrediction(chain: SupportedChain, predictionId: number): Promise<IndexedPrediction | null> {
+  await ensureSchema();
+  const result = await pool.query(`${PREDICTIONS_SQL} WHERE p.chain = $1 AND p.prediction_id = $2`, [chain, predictionId]);
+
+  return result.rows[0] ? mapPredictionRow(result.rows[0]) : null;
+}
+
+/**
+ * Every prediction a wallet has staked on, with what it claimed and recovered through sweat equity
+ */
+export async function getIndexedUserVotes(address: string): Promise<IndexedUserVote[]> {
+  await ensureSchema();
+  const result = await pool.query(`
+    SELECT
+      v.chain,
+      v.prediction_id,
+      BOOL_OR(v.is_yes) AS is_yes,
+      SUM(v.amount) AS amount,
+      MIN(v.block_timestamp) AS first_voted_at,
+      (SELECT SUM(c.amount) FROM market_claims c
+        WHERE c.chain = v.chain AND c.prediction_id = v.prediction_id AND c.claimer = $1) AS claimed,
+      (SELECT COALESCE(SUM(s.amount), 0) FROM market_sweat_equity_releases s
+        WHERE s.chain = v.chain AND s.prediction_id = v.prediction_id AND s.user_address = $1) AS released
+    FROM market_votes v
+    WHERE v.voter = $1
+    GROUP BY v.chain, v.prediction_id
+    ORDER BY first_voted_at DESC
+  `, [address.toLowerCase()]);
+
+  return result.rows.map(row => ({
+    chain: row.chain,
+    predictionId: Number(row.prediction_id),
+    isYes: row.is_yes,
+    amountWei: String(row.amount),
+    firstVotedAt: Number(row.first_voted_at),
+    claimedWei: row.claimed === null ? null : String(row.claimed),
+    sweatEquityReleasedWei: String(row.released),
+  }));
+}
+
+/**
+ * Most recent creations, votes, resolutions and claims across chains
+ */
+export async function getRecentMarketActivity(limit: number = 10): Promise<MarketActivityEvent[]> {
+  await ensureSchema();
+  const result = await pool.query(`
+    SELECT a.*, p.title FROM (
+      SELECT 'create' AS type, chain, prediction_id, creator AS account, NULL::numeric AS amount, block_timestamp, block_number, log_index
+        FROM market_predictions
+      UNION ALL
+      SELECT 'vote', chain, prediction_id, voter, amount, block_timestamp, block_number, log_index FROM market_votes
+      UNION ALL
+      SELECT 'resolve', chain, prediction_id, NULL, total_pool, block_timestamp, block_number, log_index FROM market_resolutions
+      UNION ALL
+      SELECT 'claim', chain, prediction_id, claimer, amount, block_timestamp, block_number, log_index FROM market_claims
+    ) a
+    JOIN market_predictions p ON p.chain = a.chain AND p.prediction_id = a.prediction_id
+    ORDER BY a.block_timestamp DESC, a.block_number DESC, a.log_index DESC
+    LIMIT $1
+  `, [limit]);
+
+  return result.rows.map(row => ({
+    type: row.type,
+    chain: row.chain,
+    predictionId: Number(row.prediction_id),
+    predictionTitle: row.title,
+    account: row.account,
+    amountWei: row.amount === null ? null : String(row.amount),
+    timestamp: Number(row.block_timestamp),
+  }));
+}
+
+export async function getIndexCheckpoints(): Promise<IndexCheckpoint[]> {
+  await ensureSchema();
+  const result = await pool.query('SELECT * FROM market_index_checkpoints ORDER BY chain');
+
+  return result.rows.map(row => ({
+    chain: row.chain,
+    contractAddress: row.contract_address,
+    block: { number: Number(row.block_number), hash: row.block_hash },
+    updatedAt: new Date(row.updated_at).toISOString(),
+  }));
+}
+
+/**
+ * Chains whose index is current enough to serve reads
+ */
+export async function getServableChains(now: number = Date.now()): Promise<Set<SupportedChain>> {
+  const maxLagMs = getPredictionIndexMaxLagSeconds() * 1000;
+  const checkpoints = await getIndexCheckpoints();
+
+  return new Set(
+    checkpoints
+      .filter(checkpoint => now - Date.parse(checkpoint.updatedAt) <= maxLagMs)
+      .filter(checkpoint => checkpoint.contractAddress === CHAIN_CONFIG[checkpoint.chain]?.contractAddress.toLowerCase())
+      .map(checkpoint => checkpoint.chain)
+  );
+}
+
+/**
+ * All predictions across chains (or one chain): from the index where it's current, otherwise (or if the
+ * database is unreachable) by scanning the contract
+ */
+export async function getMarketPredictions(chain?: SupportedChain): Promise<ChainPrediction[]> {
+  const chains = chain ? [chain] : getIndexedChains();
+  let servable = new Set<SupportedChain>();
+  let indexed: IndexedPrediction[] = [];
+
+  try {
+    servable = await getServableChains();
+    indexed = chains.some(c => servable.has(c)) ? await getIndexedPredictions(chain) : [];
+  } catch (error) {
+    console.error('[PredictionIndex] Index unavailable, reading predictions over RPC:', error);
+    servable = new Set();
+  }
+
+  const predictions: ChainPrediction[] = [];
+  for (const c of chains) {
+    if (servable.has(c)) {
+      predictions.push(...indexed.filter(p => p.chain === c).map(toChainPrediction));
+    } else {
+      predictions.push(...(await getChainPredictions(c)));
+    }
+  }
+
+  return predictions;
+}
@@ -0,0 +1,55 @@
+/**
+ * Prediction Index Sync
+ * Runs the indexer for every chain with a deployed market, from the CLI loop or the API
+ */
+
+import type { SupportedChain } from '../services/dual-chain-service';
+import { createPredictionIndexer, getIndexedChains, type PredictionMarketIndexer } from './indexer';
+import { PgPredictionIndexStore } from './pg-store';
+import type { PredictionIndexStore, SyncResult } from './types';
+
+export type ChainSyncResult = SyncResult | { chain: SupportedChain; error: string };
+
+let store: PredictionIndexStore = new PgPredictionIndexStore();
+const indexers = new Map<SupportedChain, PredictionMarketIndexer>();
+const inFlight = new Map<SupportedChain, Promise<SyncResult>>();
+
+/**
+ * Swap the store the default indexers write to (e.g. for an in-memory one)
+ */
+export function setPredictionIndexStore(next: PredictionIndexStore): void {
+  store = next;
+  indexers.clear();
+}
+
+function getIndexer(chain: SupportedChain): PredictionMarketIndexer {
+  let indexer = indexers.get(chain);
+  if (!indexer) {
+    indexer = createPredictionIndexer(chain, store);
+    indexers.set(chain, indexer);
+  }
+  return indexer;
+}
+
+/**
+ * One sync pass per chain; a failing chain is reported without stopping the others
+ * Concurrent calls for the same chain share one pass
+ */
+export async function syncPredictionIndex(options: { maxBatches?: number } = {}): Promise<ChainSyncResult[]> {
+  return Promise.all(
+    getIndexedChains().map(async chain => {
+      try {
+        let pending = inFlight.get(chain);
+        if (!pending) {
+          pending = getIndexer(chain).sync(options.maxBatches).finally(() => inFlight.delete(chain));
+          inFlight.set(chain, pending);
+        }
+        return await pending;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[PredictionIndexer] ${chain} sync failed:`, message);
+        return { chain, error: message };
+      }
+    })
+  );
+}
@@ -0,0 +1,161 @@
+/**
+ * Prediction Index Types
+ * Normalized UnifiedPredictionMarket events, the store the indexer writes them to, and the rows read back
+ */
+
+import type { SupportedChain } from '../services/dual-chain-service';
+
+// Where on chain an event came from; amounts elsewhere are wei as decimal strings
+interface EventLocation {
+  chain: SupportedChain;
+  predictionId: number;
+  blockNumber: number;
+  blockHash: string;
+  blockTimestamp: number; // seconds
+  txHash: string;
+  logIndex: number;
+}
+
+export type MarketEvent = EventLocation & (
+  | {
+      type: 'PredictionCreated';
+      creator: string;
+      title: string;
+      targetDate: number;
+      targetValue: string;
+      // Not in the event; read once from getPrediction (these fields never change after creation)
+      details: {
+        description: string;
+        category: number;
+        network: string;
+        emoji: string;
+        autoResolvable: boolean;
+        createdAt: number;
+      };
+    }
+  | { type: 'VoteCast'; voter: string; isYes: boolean; amount: string }
+  | { type: 'PredictionResolved'; outcome: boolean; totalPool: string; winningPool: string }
+  | { type: 'RewardClaimed'; claimer: string; amount: string }
+  | { type: 'SweatEquityFundsReleased'; user: string; amount: string }
+);
+
+export type MarketEventType = MarketEvent['type'];
+
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+}
+
+export interface IndexCheckpoint {
+  chain: SupportedChain;
+  contractAddress: string;
+  block: IndexedBlock;
+  updatedAt: string;
+}
+
+/**
+ * Everything one indexer batch writes; a store must apply it atomically
+ */
+export interface IndexBatch {
+  contractAddress: string;
+  events: MarketEvent[];
+  blocks: IndexedBlock[]; // Hashes to remember for reorg detection, including the checkpoint
+  checkpoint: IndexedBlock;
+  pruneBlocksBelow: number; // Remembered hashes below this are final and can be dropped
+}
+
+export interface PredictionIndexStore {
+  getCheckpoint(chain: SupportedChain): Promise<IndexCheckpoint | null>;
+  getRecentBlocks(chain: SupportedChain, limit: number): Promise<IndexedBlock[]>; // Newest first
+  commitBatch(chain: SupportedChain, batch: IndexBatch): Promise<void>;
+  // Drop everything indexed above the given block; null forgets the chain entirely
+  rollback(chain: SupportedChain, to: { contractAddress: string; block: IndexedBlock } | null): Promise<void>;
+}
+
+/**
+ * A prediction rebuilt from its events; status and pools are derived rather than read from the contract
+ */
+export interface IndexedPrediction {
+  chain: SupportedChain;
+  id: number;
+  creator: string;
+  title: string;
+  description: string;
+  targetDate: number;
+  targetValue: string;
+  category: number;
+  network: string;
+  emoji: string;
+  autoResolvable: boolean;
+  createdAt: number;
+  yesVotesWei: string;
+  noVotesWei: string;
+  totalStakedWei: string;
+  voterCount: number;
+  status: number; // 0: Active, 1: Resolved
+  outcome: number; // 0: Unresolved, 1: Yes, 2: No
+  resolvedAt: number | null;
+}
+
+/**
+ * One wallet's position in a prediction
+ * The contract only emits RewardClaimed for winners, so a losing vote never shows as claimed
+ */
+export interface IndexedUserVote {
+  chain: SupportedChain;
+  predictionId: number;
+  isYes: boolean;
+  amountWei: string;
+  firstVotedAt: number;
+  claimedWei: string | null;
+  sweatEquityReleasedWei: string;
+}
+
+export interface MarketActivityEvent {
+  type: 'create' | 'vote' | 'resolve' | 'claim';
+  chain: SupportedChain;
+  predictionId: number;
+  predictionTitle: string;
+  account: string | null;
+  amountWei: string | null;
+  timestamp: number; // seconds
+}
+
+export interface SyncResult {
+  chain: SupportedChain;
+  fromBlock: number;
+  toBlock: number; // Equal to fromBlock - 1 when there was nothing new to index
+  events: number;
+  rolledBackTo: number | null; // Set when a reorg (or contract change) discarded indexed blocks
+  caughtUp: boolean;
+}
+
+/**
+ * The market's odds after the votes in one bucket of time; pools are cumulative, volume is the bucket's
+ */
+export interface OddsPoint {
+  timestamp: number; // seconds, the bucket's last vote
+  yes: number; // Percent, rounded like calculateOdds
+  no: number;
+  yesPool: number; // Native units
+  noPool: number;
+  volume: number;
+  votes: number;
+}
+
+export interface OddsMomentum {
+  windowSeconds: number;
+  oddsChange: number; // Percentage points the YES side moved over the window
+  windowVotes: number;
+  windowVolume: number; // Native units
+  score: number; // Used by the momentum sort: |oddsChange| weighted by how many votes moved it
+}
+
+export interface OddsHistory {
+  chain: SupportedChain;
+  predictionId: number;
+  // 'index': built from indexed VoteCast events; 'current': chain not indexed, only today's pools
+  source: 'index' | 'current';
+  points: OddsPoint[];
+  momentum: OddsMomentum;
+}
@@ -0,0 +1,119 @@
+/**
+ * Template Chain Services
+ * The bot wallet that creates each instance, the criteria store, and where outcomes are read from: the
+ * prediction index while it's current, otherwise the contract over RPC
+ */
+
+import { ethers } from 'ethers';
+import { predictionMarketABI } from '../constants';
+import { getIndexedPrediction, getServableChains } from '../prediction-index';
+import { getResolutionCriteriaService } from '../resolution-criteria';
+import { CHAIN_CONFIG, getChainPrediction, type SupportedChain } from '../services/dual-chain-service';
+import type { InstanceOutcome, TemplateServices } from './types';
+
+// How long a run waits for its transaction before failing; the retry waits for the same one
+const SUBMIT_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * A prediction's status and outcome from the index where it's current, otherwise from the contract
+ */
+async function readPrediction(
+  chain: SupportedChain,
+  predictionId: number
+): Promise<{ status: number; outcome: number } | null> {
+  let servable = new Set<SupportedChain>();
+  try {
+    servable = await getServableChains();
+  } catch (error) {
+    console.error('[Templates] Index unavailable, reading outcomes over RPC:', error);
+  }
+
+  const prediction = servable.has(chain)
+    ? await getIndexedPrediction(chain, predictionId)
+    : await getChainPrediction(predictionId, chain);
+
+  // The contract returns its enums as bigints
+  return prediction ? { status: Number(prediction.status), outcome: Number(prediction.outcome) } : null;
+}
+
+export function createBotWalletTemplateServices(): TemplateServices {
+  return {
+    async signPrediction(transaction) {
+      const botPrivateKey = process.env.BOT_PRIVATE_KEY;
+      if (!botPrivateKey) {
+        throw new Error('Bot private key not configured');
+      }
+
+      const chainConfig = CHAIN_CONFIG[transaction.chain];
+      const provider = new ethers.JsonRpcProvider(chainConfig.rpcUrl);
+      const botWallet = new ethers.Wallet(botPrivateKey, provider);
+      const contract = new ethers.Contract(chainConfig.contractAddress, predictionMarketABI, botWallet);
+
+      const request = await contract.createPrediction.populateTransaction(
+        transaction.title,
+        transaction.description,
+        BigInt(transaction.targetDate),
+        BigInt(Math.round(transaction.targetValue)),
+        transaction.category,
+        transaction.network,
+        transaction.emoji,
+        transaction.autoResolvable
+      );
+      // Nonce, gas and fees are fixed here, so the hash is known before anything is sent
+      const rawTransaction = await botWallet.signTransaction(await botWallet.populateTransaction(request));
+      return { txHash: ethers.Transaction.from(rawTransaction).hash as string, rawTransaction };
+    },
+
+    async submitPrediction(chain, signed) {
+      const chainConfig = CHAIN_CONFIG[chain];
+      const provider = new ethers.JsonRpcProvider(chainConfig.rpcUrl);
+
+      if (!(await provider.getTransaction(signed.txHash))) {
+        try {
+          await provider.broadcastTransaction(signed.rawTransaction);
+        } catch (error) {
+          // The nonce was used by another transaction, so this one can never be mined
+          if (ethers.isError(error, 'NONCE_EXPIRED') && !(await provider.getTransactionReceipt(signed.txHash))) {
+            return null;
+          }
+          // Otherwise fine if a node already had it (a retry racing the first send)
+          if (!(await provider.getTransaction(signed.txHash))) {
+            throw error;
+          }
+        }
+      }
+
+      const receipt = await provider.waitForTransaction(signed.txHash, 1, SUBMIT_TIMEOUT_MS);
+      if (!receipt) {
+        throw new Error(`Transaction ${signed.txHash} not mined yet`);
+      }
+      // A reverted transaction created nothing
+      if (receipt.status === 0) {
+        return null;
+      }
+
+      // The new ID is only in the PredictionCreated event
+      const market = new ethers.Interface(predictionMarketABI);
+      for (const log of receipt.logs) {
+        const parsed = market.parseLog(log);
+        if (parsed?.name === 'PredictionCreated') {
+          return Number(parsed.args.predictionId);
+        }
+      }
+      throw new Error(`Prediction created in ${signed.txHash} but no PredictionCreated event was found`);
+    },
+
+    registerResolutionCriteria: criteria => getResolutionCriteriaService().register(criteria),
+
+    async getOutcome(chain, predictionId): Promise<InstanceOutcome> {
+      const prediction = await readPrediction(chain, predictionId);
+      if (!prediction || prediction.status === 0) {
+        return 'pending';
+      }
+      if (prediction.status === 2) {
+        return 'cancelled';
+      }
+      return prediction.outcome === 1 ? 'hit' : prediction.outcome === 2 ? 'missed' : 'pending';
+    },
+  };
+}
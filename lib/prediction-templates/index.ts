@@ -0,0 +1,12 @@
+/**
+ * Prediction Templates
+ * Recurring markets: templates with placeholders, instantiated by the bot wallet on a cron-like
+ * schedule, each instance linked to the previous one and carrying the series' track record
+ */
+
+export * from './chain';
+export * from './schedule';
+export * from './service';
+export * from './stores';
+export * from './template';
+export type * from './types';
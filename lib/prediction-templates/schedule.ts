@@ -0,0 +1,105 @@
+/**
+ * Template Schedules
+ * Five-field cron expressions in UTC ("0 9 * * 1" is Mondays at 09:00), plus @daily, @weekly and @monthly
+ */
+
+import type { CronSchedule } from './types';
+
+const SCHEDULE_ALIASES: Record<string, string> = {
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 1', // Mondays, so a "this week" market covers a calendar week
+  '@monthly': '0 0 1 * *',
+};
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }, // 7 is Sunday too
+];
+
+// No schedule needs this many steps to find its next run unless it can never run (31 February)
+const MAX_SEARCH_STEPS = 50000;
+
+function parseCronField(source: string, field: typeof CRON_FIELDS[number]): number[] {
+  const values = new Set<number>();
+
+  for (const part of source.split(',')) {
+    const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Schedule ${field.name} "${part}" must be *, a number, a range (1-5), a list (1,3) or a step (*/2)`);
+    }
+
+    const bounds = match[1].split('-').map(Number);
+    const step = match[2] ? Number(match[2]) : 1;
+    // "5/15" steps from 5 to the end of the field, as in cron
+    const [from, to] = match[1] === '*'
+      ? [field.min, field.max]
+      : [bounds[0], bounds.length === 2 ? bounds[1] : match[2] ? field.max : bounds[0]];
+
+    if (from < field.min || to > field.max || from > to || step < 1) {
+      throw new Error(`Schedule ${field.name} "${part}" must be between ${field.min} and ${field.max}`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+export function parseCronSchedule(expression: string): CronSchedule {
+  const normalized = SCHEDULE_ALIASES[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Schedule must be five cron fields (minute hour day-of-month month day-of-week) or @daily, @weekly, @monthly');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseCronField(field, CRON_FIELDS[i]));
+  return {
+    expression: expression.trim(),
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek: Array.from(new Set(daysOfWeek.map(day => day % 7))).sort((a, b) => a - b),
+    restrictsDayOfMonth: fields[2] !== '*',
+    restrictsDayOfWeek: fields[4] !== '*',
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.includes(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.includes(date.getUTCDay());
+  if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return schedule.restrictsDayOfMonth ? dayOfMonth : schedule.restrictsDayOfWeek ? dayOfWeek : true;
+}
+
+/**
+ * The first run strictly after a moment (Unix seconds)
+ */
+export function nextCronRun(schedule: CronSchedule, after: number): number {
+  const date = new Date((Math.floor(after / 60) + 1) * 60 * 1000);
+
+  // Skip whole months, days and hours that can't match before stepping through minutes
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!schedule.months.includes(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.includes(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.includes(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime() / 1000;
+    }
+  }
+
+  throw new Error(`Schedule "${schedule.expression}" never runs`);
+}
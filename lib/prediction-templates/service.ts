@@ -0,0 +1,232 @@
+/**
+ * Prediction Template Service
+ * Saves templates and runs the due ones: each run drafts the next instance from the template and the
+ * track record so far, validates it like a bot draft, commits its criteria and creates it with the bot wallet.
+ * The signed transaction is saved before it is sent, so a retried run never creates a second prediction
+ */
+
+import { randomUUID } from 'crypto';
+import { createDraft, draftToTransaction, editDraft } from '../bot-agent/draft';
+import { RequestError } from '../request-error';
+import { createBotWalletTemplateServices } from './chain';
+import { nextCronRun, parseCronSchedule } from './schedule';
+import { createPostgresPredictionTemplateStore } from './stores';
+import { instanceFields, parseTemplateInput, templateHistory } from './template';
+import type {
+  PendingTemplateRun,
+  PredictionTemplate,
+  PredictionTemplateStore,
+  RecurringPredictionInfo,
+  TemplateInput,
+  TemplateInstance,
+  TemplateRunResult,
+  TemplateServices,
+} from './types';
+
+// A claimed run that didn't finish (failed, or the process died) is retried after this
+export const TEMPLATE_RETRY_SECONDS = 15 * 60;
+
+export class PredictionTemplateService {
+  constructor(
+    private store: PredictionTemplateStore,
+    private services: TemplateServices,
+    private now: () => number = Date.now
+  ) {}
+
+  private seconds(): number {
+    return Math.floor(this.now() / 1000);
+  }
+
+  /**
+   * Create a template, or update one by ID; the next run is rescheduled when the schedule changes
+   * or the template is switched back on
+   * A create can name the new template's ID, and is refused if that ID is taken, so it only ever happens once
+   */
+  async saveTemplate(
+    input: unknown,
+    admin: string,
+    target: { id: string; create?: boolean } = { id: randomUUID(), create: true }
+  ): Promise<PredictionTemplate> {
+    let parsed: TemplateInput;
+    try {
+      parsed = parseTemplateInput(input);
+    } catch (error) {
+      throw new RequestError(error instanceof Error ? error.message : 'Invalid template');
+    }
+
+    const existing = await this.store.getTemplate(target.id);
+    if (target.create && existing) {
+      throw new RequestError(`Template ${target.id} already exists`, 409);
+    }
+    if (!target.create && !existing) {
+      throw new RequestError(`Template ${target.id} not found`, 404);
+    }
+
+    const reschedule = !existing || existing.schedule !== parsed.schedule || (!existing.enabled && parsed.enabled);
+    const template: PredictionTemplate = {
+      ...parsed,
+      id: target.id,
+      nextRunAt: reschedule ? nextCronRun(parseCronSchedule(parsed.schedule), this.seconds()) : (existing as PredictionTemplate).nextRunAt,
+      lastError: existing?.lastError,
+      createdBy: existing?.createdBy ?? admin.toLowerCase(),
+      createdAt: existing?.createdAt ?? this.now(),
+      updatedAt: this.now(),
+    };
+
+    await this.store.saveTemplate(template);
+    return template;
+  }
+
+  async listTemplates(): Promise<Array<PredictionTemplate & { instances: TemplateInstance[] }>> {
+    const templates = await this.store.listTemplates();
+    return Promise.all(templates.map(async template => ({
+      ...template,
+      instances: await this.refreshOutcomes(template.id),
+    })));
+  }
+
+  /**
+   * Every instance with the track record before it, for the prediction cards
+   */
+  async listRecurringPredictions(): Promise<RecurringPredictionInfo[]> {
+    const infos: RecurringPredictionInfo[] = [];
+    for (const template of await this.listTemplates()) {
+      template.instances.forEach((instance, i) => {
+        infos.push({
+          templateId: template.id,
+          templateName: template.name,
+          chain: instance.chain,
+          predictionId: instance.predictionId,
+          sequence: instance.sequence,
+          history: templateHistory(template.instances.slice(0, i)),
+        });
+      });
+    }
+    return infos;
+  }
+
+  async runDueTemplates(limit = 5): Promise<TemplateRunResult[]> {
+    const due = await this.store.listDueTemplates(this.seconds(), limit);
+    const results: TemplateRunResult[] = [];
+    for (const template of due) {
+      results.push(await this.runTemplate(template));
+    }
+    return results;
+  }
+
+  private async runTemplate(template: PredictionTemplate): Promise<TemplateRunResult> {
+    const now = this.seconds();
+    if (!(await this.store.claimRun(template.id, template.nextRunAt, now + TEMPLATE_RETRY_SECONDS))) {
+      return { templateId: template.id, status: 'skipped' };
+    }
+
+    try {
+      const schedule = parseCronSchedule(template.schedule);
+      const nextRunAt = nextCronRun(schedule, now);
+      // A run that signed its transaction and then failed is finished with that same transaction
+      const run = template.pendingRun ?? await this.signRun(template, now, nextRunAt);
+
+      const predictionId = await this.services.submitPrediction(run.chain, run.transaction);
+      if (predictionId === null) {
+        // Nothing was created, so the next attempt can safely sign a new transaction
+        await this.store.setPendingRun(template.id, null);
+        throw new Error(`Transaction ${run.transaction.txHash} can no longer create the prediction; signing a new one on retry`);
+      }
+
+      const instance: TemplateInstance = {
+        templateId: template.id,
+        sequence: run.sequence,
+        chain: run.chain,
+        predictionId,
+        previousPredictionId: run.previousPredictionId,
+        title: run.title,
+        targetDate: run.targetDate,
+        txHash: run.transaction.txHash,
+        outcome: 'pending',
+        createdAt: this.now(),
+      };
+      await this.store.addInstance(instance);
+      await this.store.completeRun(template.id, nextRunAt);
+
+      console.log(`🔁 Template "${template.name}" created prediction #${predictionId} on ${run.chain} (instance ${run.sequence})`);
+      return { templateId: template.id, status: 'created', instance };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Template "${template.name}" run failed:`, message);
+      await this.store.failRun(template.id, message);
+      return { templateId: template.id, status: 'failed', error: message };
+    }
+  }
+
+  /**
+   * Draft the next instance, commit its criteria and sign its transaction, saving the run before
+   * anything is sent so a retry can tell whether the prediction was created
+   */
+  private async signRun(template: PredictionTemplate, now: number, nextRunAt: number): Promise<PendingTemplateRun> {
+    const earlier = await this.refreshOutcomes(template.id);
+    const previous = earlier[earlier.length - 1];
+    const sequence = (previous?.sequence ?? 0) + 1;
+
+    const fields = instanceFields(template, {
+      sequence,
+      start: now,
+      end: template.durationHours ? now + template.durationHours * 60 * 60 : nextRunAt,
+      history: templateHistory(earlier),
+    });
+
+    let draft = createDraft(fields, {}, this.now());
+    // Drafts infer criteria from their wording; a template without criteria resolves manually
+    if (!template.criteria && draft.fields.resolution) {
+      draft = editDraft(draft, 'resolution', undefined, 'default', this.now());
+    }
+    if (!draft.validation.isValid) {
+      throw new Error(draft.validation.errors.join('; '));
+    }
+
+    const transaction = draftToTransaction(draft);
+    if (transaction.resolution) {
+      await this.services.registerResolutionCriteria(transaction.resolution);
+    }
+
+    const run: PendingTemplateRun = {
+      sequence,
+      chain: template.chain,
+      previousPredictionId: previous?.predictionId ?? null,
+      title: transaction.title,
+      targetDate: transaction.targetDate,
+      transaction: await this.services.signPrediction(transaction),
+      signedAt: this.now(),
+    };
+    await this.store.setPendingRun(template.id, run);
+    return run;
+  }
+
+  /**
+   * The template's instances with outcomes read again for the ones past their deadline
+   */
+  private async refreshOutcomes(templateId: string): Promise<TemplateInstance[]> {
+    const instances = await this.store.listInstances(templateId);
+    const now = this.seconds();
+
+    for (const instance of instances) {
+      if (instance.outcome !== 'pending' || instance.targetDate > now) {
+        continue;
+      }
+      const outcome = await this.services.getOutcome(instance.chain, instance.predictionId);
+      if (outcome !== 'pending') {
+        instance.outcome = outcome;
+        await this.store.setInstanceOutcome(templateId, instance.sequence, outcome);
+      }
+    }
+    return instances;
+  }
+}
+
+let defaultService: PredictionTemplateService | null = null;
+
+export function getPredictionTemplateService(): PredictionTemplateService {
+  if (!defaultService) {
+    defaultService = new PredictionTemplateService(createPostgresPredictionTemplateStore(), createBotWalletTemplateServices());
+  }
+  return defaultService;
+}
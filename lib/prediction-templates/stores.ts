@@ -0,0 +1,284 @@
+/**
+ * Prediction Template Stores
+ * Postgres on prediction_templates and prediction_template_instances (migrations 013 and 016), and a
+ * process-local store for tests and scripts without a database
+ */
+
+import pool from '../db';
+import { ensureSchema } from '../migrations/runner';
+import type { PredictionTemplate, PredictionTemplateStore, TemplateInstance } from './types';
+
+function mapTemplateRow(row: any): PredictionTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    title: row.title,
+    description: row.description,
+    category: row.category,
+    targetValue: Number(row.target_value),
+    emoji: row.emoji,
+    chain: row.chain,
+    schedule: row.schedule,
+    durationHours: row.duration_hours ?? undefined,
+    criteria: row.criteria ?? undefined,
+    enabled: row.enabled,
+    nextRunAt: Math.floor(new Date(row.next_run_at).getTime() / 1000),
+    lastError: row.last_error ?? undefined,
+    pendingRun: row.pending_run ?? undefined,
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at).getTime(),
+    updatedAt: new Date(row.updated_at).getTime(),
+  };
+}
+
+function mapInstanceRow(row: any): TemplateInstance {
+  return {
+    templateId: row.template_id,
+    sequence: row.sequence,
+    chain: row.chain,
+    predictionId: row.prediction_id,
+    previousPredictionId: row.previous_prediction_id,
+    title: row.title,
+    targetDate: Number(row.target_date),
+    txHash: row.tx_hash,
+    outcome: row.outcome,
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
+
+export function createPostgresPredictionTemplateStore(): PredictionTemplateStore {
+  return {
+    name: 'postgres',
+
+    async saveTemplate(template) {
+      await ensureSchema();
+      await pool.query(`
+        INSERT INTO prediction_templates (
+          id, name, title, description, category, target_value, emoji, chain, schedule,
+          duration_hours, criteria, enabled, next_run_at, last_error, created_by, created_at, updated_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, to_timestamp($13), $14, $15, $16, $17)
+        ON CONFLICT (id) DO UPDATE SET
+          name = EXCLUDED.name,
+          title = EXCLUDED.title,
+          description = EXCLUDED.description,
+          category = EXCLUDED.category,
+          target_value = EXCLUDED.target_value,
+          emoji = EXCLUDED.emoji,
+          chain = EXCLUDED.chain,
+          schedule = EXCLUDED.schedule,
+          duration_hours = EXCLUDED.duration_hours,
+          criteria = EXCLUDED.criteria,
+          enabled = EXCLUDED.enabled,
+          next_run_at = EXCLUDED.next_run_at,
+          updated_at = EXCLUDED.updated_at
+      `, [
+        template.id,
+        template.name,
+        template.title,
+        template.description,
+        template.category,
+        template.targetValue,
+        template.emoji,
+        template.chain,
+        template.schedule,
+        template.durationHours ?? null,
+        template.criteria ? JSON.stringify(template.criteria) : null,
+        template.enabled,
+        template.nextRunAt,
+        template.lastError ?? null,
+        template.createdBy,
+        new Date(template.createdAt),
+        new Date(template.updatedAt),
+      ]);
+    },
+
+    async getTemplate(id) {
+      await ensureSchema();
+      const result = await pool.query('SELECT * FROM prediction_templates WHERE id = $1', [id]);
+      return result.rows[0] ? mapTemplateRow(result.rows[0]) : null;
+    },
+
+    async listTemplates() {
+      await ensureSchema();
+      const result = await pool.query('SELECT * FROM prediction_templates ORDER BY created_at');
+      return result.rows.map(mapTemplateRow);
+    },
+
+    async listDueTemplates(now, limit) {
+      await ensureSchema();
+      const result = await pool.query(`
+        SELECT * FROM prediction_templates
+        WHERE enabled AND next_run_at <= to_timestamp($1)
+        ORDER BY next_run_at
+        LIMIT $2
+      `, [now, limit]);
+      return result.rows.map(mapTemplateRow);
+    },
+
+    async claimRun(id, scheduledAt, retryAt) {
+      await ensureSchema();
+      const result = await pool.query(`
+        UPDATE prediction_templates
+        SET next_run_at = to_timestamp($3)
+        WHERE id = $1 AND enabled AND next_run_at = to_timestamp($2)
+      `, [id, scheduledAt, retryAt]);
+      return (result.rowCount ?? 0) > 0;
+    },
+
+    async completeRun(id, nextRunAt) {
+      await ensureSchema();
+      await pool.query(`
+        UPDATE prediction_templates SET next_run_at = to_timestamp($2), last_error = NULL WHERE id = $1
+      `, [id, nextRunAt]);
+    },
+
+    async failRun(id, error) {
+      await ensureSchema();
+      await pool.query('UPDATE prediction_templates SET last_error = $2 WHERE id = $1', [id, error]);
+    },
+
+    async setPendingRun(id, run) {
+      await ensureSchema();
+      await pool.query('UPDATE prediction_templates SET pending_run = $2 WHERE id = $1', [id, run ? JSON.stringify(run) : null]);
+    },
+
+    async addInstance(instance) {
+      await ensureSchema();
+      const client = await pool.connect();
+
+      try {
+        await client.query('BEGIN');
+        await client.query(`
+          INSERT INTO prediction_template_instances (
+            template_id, sequence, chain, prediction_id, previous_prediction_id,
+            title, target_date, tx_hash, outcome, created_at
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        `, [
+          instance.templateId,
+          instance.sequence,
+          instance.chain,
+          instance.predictionId,
+          instance.previousPredictionId,
+          instance.title,
+          instance.targetDate,
+          instance.txHash,
+          instance.outcome,
+          new Date(instance.createdAt),
+        ]);
+        await client.query('UPDATE prediction_templates SET pending_run = NULL WHERE id = $1', [instance.templateId]);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK').catch(() => undefined);
+        throw error;
+      } finally {
+        client.release();
+      }
+    },
+
+    async listInstances(templateId) {
+      await ensureSchema();
+      const result = await pool.query(
+        'SELECT * FROM prediction_template_instances WHERE template_id = $1 ORDER BY sequence',
+        [templateId]
+      );
+      return result.rows.map(mapInstanceRow);
+    },
+
+    async setInstanceOutcome(templateId, sequence, outcome) {
+      await ensureSchema();
+      await pool.query(
+        'UPDATE prediction_template_instances SET outcome = $3 WHERE template_id = $1 AND sequence = $2',
+        [templateId, sequence, outcome]
+      );
+    },
+  };
+}
+
+export function createInMemoryPredictionTemplateStore(): PredictionTemplateStore {
+  const templates = new Map<string, PredictionTemplate>();
+  const instances = new Map<string, TemplateInstance[]>();
+
+  return {
+    name: 'memory',
+
+    async saveTemplate(template) {
+      // Like the upsert, saving never overwrites the last run's error or its pending run
+      const existing = templates.get(template.id);
+      const lastError = existing?.lastError ?? template.lastError;
+      templates.set(template.id, structuredClone({ ...template, lastError, pendingRun: existing?.pendingRun }));
+    },
+
+    async getTemplate(id) {
+      const template = templates.get(id);
+      return template ? structuredClone(template) : null;
+    },
+
+    async listTemplates() {
+      return Array.from(templates.values(), template => structuredClone(template));
+    },
+
+    async listDueTemplates(now, limit) {
+      return Array.from(templates.values())
+        .filter(template => template.enabled && template.nextRunAt <= now)
+        .sort((a, b) => a.nextRunAt - b.nextRunAt)
+        .slice(0, limit)
+        .map(template => structuredClone(template));
+    },
+
+    async claimRun(id, scheduledAt, retryAt) {
+      const template = templates.get(id);
+      if (!template?.enabled || template.nextRunAt !== scheduledAt) {
+        return false;
+      }
+      template.nextRunAt = retryAt;
+      return true;
+    },
+
+    async completeRun(id, nextRunAt) {
+      const template = templates.get(id);
+      if (template) {
+        template.nextRunAt = nextRunAt;
+        delete template.lastError;
+      }
+    },
+
+    async failRun(id, error) {
+      const template = templates.get(id);
+      if (template) {
+        template.lastError = error;
+      }
+    },
+
+    async setPendingRun(id, run) {
+      const template = templates.get(id);
+      if (template) {
+        template.pendingRun = run ? structuredClone(run) : undefined;
+      }
+    },
+
+    async addInstance(instance) {
+      const list = instances.get(instance.templateId) ?? [];
+      if (list.some(existing => existing.sequence === instance.sequence)) {
+        throw new Error(`Template ${instance.templateId} already has instance ${instance.sequence}`);
+      }
+      instances.set(instance.templateId, [...list, structuredClone(instance)].sort((a, b) => a.sequence - b.sequence));
+      const template = templates.get(instance.templateId);
+      if (template) {
+        delete template.pendingRun;
+      }
+    },
+
+    async listInstances(templateId) {
+      return (instances.get(templateId) ?? []).map(instance => structuredClone(instance));
+    },
+
+    async setInstanceOutcome(templateId, sequence, outcome) {
+      const instance = instances.get(templateId)?.find(existing => existing.sequence === sequence);
+      if (instance) {
+        instance.outcome = outcome;
+      }
+    },
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * Prediction Templates
+ * Pure helpers: parsing an untrusted template, filling its placeholders for one instance, the track
+ * record carried from earlier instances and the fields a new instance is drafted from
+ */
+
+import { DRAFT_CATEGORIES, type DraftCategory, type PredictionDraftFields } from '../prediction-draft';
+import { parseResolutionCriteria } from '../resolution-criteria/criteria';
+import type { ResolutionCriteria } from '../resolution-criteria/types';
+import { CHAIN_CONFIG, type SupportedChain } from '../services/dual-chain-service';
+import { nextCronRun, parseCronSchedule } from './schedule';
+import type { PredictionTemplate, TemplateCriteria, TemplateHistory, TemplateInput, TemplateInstance } from './types';
+
+export const TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+  n: 'Instance number, 1 for the first',
+  start: 'Date the instance opens (YYYY-MM-DD, UTC)',
+  end: 'Date the instance closes',
+  week: 'ISO week number of the start date',
+  month: 'Month of the start date ("January")',
+  year: 'Year of the start date',
+  target: 'The target value',
+  last_result: 'How the last resolved instance went ("hit", "missed" or "no result yet")',
+  record: 'Hits out of resolved instances ("3/5")',
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Predictions last at least a day (PREDICTION_REQUIREMENTS.targetDate), plus slack for a late scheduler
+const MIN_INSTANCE_SECONDS = 25 * 60 * 60;
+
+const MAX_DURATION_HOURS = 365 * 24;
+
+// Leaves room in the on-chain description for the track record and the criteria commitment
+const MAX_TEMPLATE_DESCRIPTION = 700;
+
+export function findPlaceholders(text: string): string[] {
+  return Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[1]);
+}
+
+function parseTemplateCriteria(input: unknown): TemplateCriteria {
+  const raw = input as Record<string, unknown> | null;
+  // Parsed as full criteria with stand-in value and times, so the rules live in one place
+  const criteria = parseResolutionCriteria({ ...raw, value: 1, at: 1, window: { end: 1 } });
+
+  if (criteria.source === 'price') {
+    return { source: 'price', symbol: criteria.symbol, comparator: criteria.comparator };
+  }
+
+  // The bot wallet creates every instance, so "the creator" would count the bot's reps
+  if (criteria.subject.type === 'creator') {
+    throw new Error('criteria.subject must be a 0x address or a Farcaster fid: the bot wallet creates these predictions');
+  }
+  return { source: 'fitness', subject: criteria.subject, exercise: criteria.exercise, comparator: criteria.comparator };
+}
+
+/**
+ * A template from untrusted input (an API body); throws with a message saying what to fix
+ */
+export function parseTemplateInput(input: unknown): TemplateInput {
+  const raw = input as Record<string, unknown> | null;
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Template must be an object');
+  }
+
+  const text = (field: string, max: number): string => {
+    const value = raw[field];
+    if (typeof value !== 'string' || !value.trim() || value.trim().length > max) {
+      throw new Error(`${field} is required (at most ${max} characters)`);
+    }
+    return value.trim();
+  };
+
+  const name = text('name', 80);
+  const title = text('title', 200);
+  const description = text('description', MAX_TEMPLATE_DESCRIPTION);
+
+  const unknown = [...findPlaceholders(title), ...findPlaceholders(description)].filter(p => !(p in TEMPLATE_PLACEHOLDERS));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown placeholder(s): ${unknown.map(p => `{{${p}}}`).join(', ')}. Use: ${Object.keys(TEMPLATE_PLACEHOLDERS).join(', ')}`);
+  }
+
+  const category = typeof raw.category === 'string' ? DRAFT_CATEGORIES[raw.category.toLowerCase()] : raw.category;
+  if (![0, 1, 2, 3].includes(category as number)) {
+    throw new Error(`category must be one of: ${Object.keys(DRAFT_CATEGORIES).join(', ')}`);
+  }
+
+  const targetValue = Number(raw.targetValue ?? 0);
+  if (!Number.isFinite(targetValue) || targetValue < 0) {
+    throw new Error('targetValue must be a number of zero or more');
+  }
+
+  if (typeof raw.chain !== 'string' || !(raw.chain in CHAIN_CONFIG)) {
+    throw new Error(`chain must be one of: ${Object.keys(CHAIN_CONFIG).join(', ')}`);
+  }
+
+  if (typeof raw.schedule !== 'string') {
+    throw new Error('schedule is required, e.g. "0 9 * * 1" for Mondays at 09:00 UTC');
+  }
+  const schedule = parseCronSchedule(raw.schedule);
+
+  let durationHours: number | undefined;
+  if (raw.durationHours !== undefined && raw.durationHours !== null) {
+    durationHours = Number(raw.durationHours);
+    if (!Number.isFinite(durationHours) || durationHours * 3600 < MIN_INSTANCE_SECONDS || durationHours > MAX_DURATION_HOURS) {
+      throw new Error(`durationHours must be between ${MIN_INSTANCE_SECONDS / 3600} and ${MAX_DURATION_HOURS}`);
+    }
+  } else {
+    // Each instance closes when the next opens, which has to leave it at least a day
+    const first = nextCronRun(schedule, Math.floor(Date.now() / 1000));
+    if (nextCronRun(schedule, first) - first < MIN_INSTANCE_SECONDS) {
+      throw new Error(`Schedule runs more often than predictions can last: set durationHours to at least ${MIN_INSTANCE_SECONDS / 3600}`);
+    }
+  }
+
+  return {
+    name,
+    title,
+    description,
+    category: category as DraftCategory,
+    targetValue,
+    emoji: typeof raw.emoji === 'string' && raw.emoji.trim() ? raw.emoji.trim() : '🔁',
+    chain: raw.chain as SupportedChain,
+    schedule: schedule.expression,
+    durationHours,
+    criteria: raw.criteria === undefined || raw.criteria === null ? undefined : parseTemplateCriteria(raw.criteria),
+    enabled: raw.enabled !== false,
+  };
+}
+
+/**
+ * The track record before an instance, from the instances that came before it (oldest first)
+ */
+export function templateHistory(earlier: TemplateInstance[]): TemplateHistory {
+  const summary = (instance?: TemplateInstance) =>
+    instance ? { sequence: instance.sequence, predictionId: instance.predictionId, outcome: instance.outcome } : null;
+  const resolved = earlier.filter(instance => instance.outcome === 'hit' || instance.outcome === 'missed');
+
+  return {
+    previous: summary(earlier[earlier.length - 1]),
+    lastResolved: summary(resolved[resolved.length - 1]),
+    hits: resolved.filter(instance => instance.outcome === 'hit').length,
+    resolved: resolved.length,
+  };
+}
+
+const OUTCOME_LABELS: Record<TemplateInstance['outcome'], string> = {
+  hit: '✅ hit',
+  missed: '❌ missed',
+  pending: '⏳ awaiting resolution',
+  cancelled: '🚫 cancelled',
+};
+
+/**
+ * Lines appended to each instance's description; empty for the first instance
+ */
+export function describeTemplateHistory(history: TemplateHistory): string[] {
+  const { previous, lastResolved } = history;
+  if (!previous) {
+    return [];
+  }
+
+  const lines = [`🔁 Previous: #${previous.predictionId} (instance ${previous.sequence}), ${OUTCOME_LABELS[previous.outcome]}`];
+  if (lastResolved && lastResolved.predictionId !== previous.predictionId) {
+    lines.push(`📌 Last result: #${lastResolved.predictionId} ${OUTCOME_LABELS[lastResolved.outcome]}`);
+  }
+  if (history.resolved > 0) {
+    lines.push(`📈 Track record: hit ${history.hits} of ${history.resolved}`);
+  }
+  return lines;
+}
+
+function isoWeek(date: Date): number {
+  // The week's Thursday decides which year the week belongs to
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 3 - ((date.getUTCDay() + 6) % 7)));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  return Math.ceil(((thursday.getTime() - yearStart) / (24 * 60 * 60 * 1000) + 1) / 7);
+}
+
+export function renderTemplateText(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+function instanceCriteria(criteria: TemplateCriteria, value: number, start: number, end: number): ResolutionCriteria {
+  return criteria.source === 'price'
+    ? { version: 1, ...criteria, value, at: end }
+    : { version: 1, ...criteria, value, window: { start, end } };
+}
+
+/**
+ * The fields the next instance is drafted from (see lib/bot-agent/draft)
+ */
+export function instanceFields(
+  template: PredictionTemplate,
+  params: { sequence: number; start: number; end: number; history: TemplateHistory }
+): PredictionDraftFields {
+  const { sequence, start, end, history } = params;
+  const startDate = new Date(start * 1000);
+  const values: Record<string, string> = {
+    n: String(sequence),
+    start: startDate.toISOString().slice(0, 10),
+    end: new Date(end * 1000).toISOString().slice(0, 10),
+    week: String(isoWeek(startDate)),
+    month: startDate.toLocaleString('en-US', { month: 'long', timeZone: 'UTC' }),
+    year: String(startDate.getUTCFullYear()),
+    target: template.targetValue.toLocaleString('en-US'),
+    last_result: history.lastResolved ? history.lastResolved.outcome : 'no result yet',
+    record: `${history.hits}/${history.resolved}`,
+  };
+
+  const historyLines = describeTemplateHistory(history);
+  return {
+    title: renderTemplateText(template.title, values),
+    description: [renderTemplateText(template.description, values), ...(historyLines.length ? ['', ...historyLines] : [])].join('\n'),
+    targetDate: end,
+    targetValue: template.targetValue,
+    category: template.category,
+    chain: template.chain,
+    emoji: template.emoji,
+    resolution: template.criteria ? instanceCriteria(template.criteria, template.targetValue, start, end) : undefined,
+  };
+}
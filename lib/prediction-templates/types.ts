@@ -0,0 +1,162 @@
+/**
+ * Prediction Template Types
+ * Markets a team runs on a schedule ("Will the group hit 5,000 push-ups this week?"): a template with
+ * placeholders, instantiated by the bot wallet on a cron-like schedule, each instance linked to the one before
+ */
+
+import type { DraftCategory, DraftTransaction } from '../prediction-draft';
+import type {
+  FitnessResolutionCriteria,
+  PriceResolutionCriteria,
+  ResolutionCriteria,
+} from '../resolution-criteria/types';
+import type { SupportedChain } from '../services/dual-chain-service';
+
+/**
+ * A five-field cron expression (minute hour day-of-month month day-of-week, in UTC) expanded to the
+ * values each field matches
+ */
+export interface CronSchedule {
+  expression: string;
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[]; // 1-12
+  daysOfWeek: number[]; // 0-6, Sunday is 0
+  // Cron matches either day field when both are restricted, otherwise the restricted one
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+}
+
+/**
+ * Criteria without the parts each instance fills in: the value is the template's targetValue and the
+ * window (or price time) is the instance's own
+ */
+export type TemplateCriteria =
+  | Omit<FitnessResolutionCriteria, 'version' | 'value' | 'window'>
+  | Omit<PriceResolutionCriteria, 'version' | 'value' | 'at'>;
+
+export interface PredictionTemplate {
+  id: string;
+  name: string;
+  title: string; // May contain {{placeholders}} (see TEMPLATE_PLACEHOLDERS)
+  description: string;
+  category: DraftCategory;
+  targetValue: number;
+  emoji: string;
+  chain: SupportedChain;
+  schedule: string; // Cron expression, UTC
+  durationHours?: number; // Otherwise each instance runs until the next one is created
+  criteria?: TemplateCriteria; // None means instances resolve manually
+  enabled: boolean;
+  nextRunAt: number; // Unix seconds
+  lastError?: string; // Why the last run failed; cleared by the next success
+  pendingRun?: PendingTemplateRun; // Signed but not yet recorded; the next attempt reconciles it
+  createdBy: string; // Admin address that saved it
+  createdAt: number; // Epoch ms
+  updatedAt: number;
+}
+
+export type TemplateInput = Pick<PredictionTemplate, 'name' | 'title' | 'description' | 'category' | 'targetValue' | 'emoji' | 'chain' | 'schedule' | 'durationHours' | 'criteria' | 'enabled'>;
+
+/**
+ * A run's instance between signing its createPrediction transaction and recording it. Saved before
+ * the transaction is sent, so a run that fails or dies after sending is retried by waiting for the
+ * same transaction rather than signing a second prediction
+ */
+export interface PendingTemplateRun {
+  sequence: number;
+  chain: SupportedChain;
+  previousPredictionId: number | null;
+  title: string;
+  targetDate: number; // Unix seconds
+  transaction: SignedPrediction;
+  signedAt: number; // Epoch ms
+}
+
+export interface SignedPrediction {
+  txHash: string;
+  rawTransaction: string;
+}
+
+/**
+ * How an instance went, from the prediction index; 'hit' is a YES resolution
+ */
+export type InstanceOutcome = 'pending' | 'hit' | 'missed' | 'cancelled';
+
+export interface TemplateInstance {
+  templateId: string;
+  sequence: number; // 1 for the first instance
+  chain: SupportedChain;
+  predictionId: number;
+  previousPredictionId: number | null;
+  title: string;
+  targetDate: number; // Unix seconds
+  txHash: string;
+  outcome: InstanceOutcome;
+  createdAt: number; // Epoch ms
+}
+
+/**
+ * The track record carried into each new instance
+ * - previous: the instance just before, resolved or not
+ * - lastResolved: the most recent instance with an outcome (usually the one before previous, since
+ *   previous closes as the new one opens and still has to be resolved)
+ */
+export interface TemplateHistory {
+  previous: Pick<TemplateInstance, 'sequence' | 'predictionId' | 'outcome'> | null;
+  lastResolved: Pick<TemplateInstance, 'sequence' | 'predictionId' | 'outcome'> | null;
+  hits: number;
+  resolved: number; // Instances that hit or missed
+}
+
+/**
+ * What a prediction card shows for an instance of a recurring template
+ */
+export interface RecurringPredictionInfo {
+  templateId: string;
+  templateName: string;
+  chain: SupportedChain;
+  predictionId: number;
+  sequence: number;
+  history: TemplateHistory; // As of this instance: only the instances before it
+}
+
+export interface TemplateRunResult {
+  templateId: string;
+  status: 'created' | 'failed' | 'skipped';
+  instance?: TemplateInstance;
+  error?: string;
+}
+
+/**
+ * What the service needs from outside: the bot wallet, the criteria store and the prediction index
+ */
+export interface TemplateServices {
+  signPrediction(transaction: DraftTransaction): Promise<SignedPrediction>;
+  // Sends the transaction unless the chain already has it and waits for it: the new prediction's ID,
+  // or null if it can never create one (it reverted, or its nonce went to another transaction)
+  submitPrediction(chain: SupportedChain, transaction: SignedPrediction): Promise<number | null>;
+  registerResolutionCriteria(criteria: ResolutionCriteria): Promise<string>;
+  getOutcome(chain: SupportedChain, predictionId: number): Promise<InstanceOutcome>;
+}
+
+/**
+ * Runs are claimed before anything is sent on-chain, so two schedulers never create the same instance:
+ * claiming moves nextRunAt to retryAt, and completing moves it to the following scheduled run.
+ * Saving a template never touches its pending run; adding the instance clears it
+ */
+export interface PredictionTemplateStore {
+  name: 'postgres' | 'memory';
+  saveTemplate(template: PredictionTemplate): Promise<void>;
+  getTemplate(id: string): Promise<PredictionTemplate | null>;
+  listTemplates(): Promise<PredictionTemplate[]>;
+  listDueTemplates(now: number, limit: number): Promise<PredictionTemplate[]>;
+  claimRun(id: string, scheduledAt: number, retryAt: number): Promise<boolean>;
+  completeRun(id: string, nextRunAt: number): Promise<void>;
+  failRun(id: string, error: string): Promise<void>;
+  setPendingRun(id: string, run: PendingTemplateRun | null): Promise<void>;
+  addInstance(instance: TemplateInstance): Promise<void>;
+  listInstances(templateId: string): Promise<TemplateInstance[]>; // Oldest first
+  setInstanceOutcome(templateId: string, sequence: number, outcome: InstanceOutcome): Promise<void>;
+}
@@ -6,6 +6,9 @@
 import { resolveAddress, type ResolvedProfile } from './services/address-resolution';
 import { parseNaturalDate, validatePredictionDate, formatDateWithTimezone } from './services/timezone-service';
 import { validateExternalData } from './services/external-data-service';
+import { findPredictedExercise, formatExerciseAmount, isAutoVerifiable } from './exercises';
+import { CRITERIA_COMMITMENT_LENGTH, validateResolutionCriteria } from './resolution-criteria/criteria';
+import type { ResolutionCriteria } from './resolution-criteria/types';
 
 export interface PredictionValidationResult {
   isValid: boolean;
@@ -31,6 +34,7 @@ export interface ValidatedPredictionData {
   targetAddress?: string; // Resolved from ENS if provided
   targetUser?: string; // Original ENS name or username
   verificationMethod?: 'platform_data' | 'manual' | 'external_api';
+  resolution?: ResolutionCriteria; // Committed by hash in the description (lib/resolution-criteria)
   platformSpecific?: {
     requiresAddress: boolean;
     dataSource: 'fitness_tracking' | 'blockchain_data' | 'external';
@@ -87,7 +91,8 @@ export const PREDICTION_CATEGORIES = {
  */
 export const PLATFORM_PATTERNS = {
   FITNESS_PREDICTION: {
-    keywords: ['pushup', 'push-up', 'squat', 'exercise', 'workout', 'fitness'],
+    // Exercise names ("500 push-ups", "run 10km") are matched from the registry in lib/exercises.ts
+    keywords: ['exercise', 'workout', 'fitness'],
     requiresAddress: true,
     dataSource: 'fitness_tracking' as const,
     verificationMethod: 'platform_data' as const
@@ -132,8 +137,10 @@ export function validatePrediction(data: Partial<ValidatedPredictionData>): Pred
     if (data.description.length < PREDICTION_REQUIREMENTS.description.minLength) {
       errors.push(`Description must be at least ${PREDICTION_REQUIREMENTS.description.minLength} characters`);
     }
-    if (data.description.length > PREDICTION_REQUIREMENTS.description.maxLength) {
-      errors.push(`Description must be less than ${PREDICTION_REQUIREMENTS.description.maxLength} characters`);
+    // The criteria commitment is appended on-chain, so it counts against the limit
+    const maxLength = PREDICTION_REQUIREMENTS.description.maxLength - (data.resolution ? CRITERIA_COMMITMENT_LENGTH : 0);
+    if (data.description.length > maxLength) {
+      errors.push(`Description must be less than ${maxLength} characters`);
     }
   }
 
@@ -179,6 +186,21 @@ export function validatePrediction(data: Partial<ValidatedPredictionData>): Pred
     errors.push('Target value cannot be negative');
   }
 
+  // Exercise targets in fitness predictions
+  if (data.category === PREDICTION_CATEGORIES.FITNESS) {
+    const exerciseCheck = validateExerciseTarget(`${data.title || ''} ${data.description || ''}`, data.targetDate);
+    errors.push(...exerciseCheck.errors);
+    warnings.push(...exerciseCheck.warnings);
+  }
+
+  if (data.resolution) {
+    const criteriaCheck = validateResolutionCriteria(data.resolution, data);
+    errors.push(...criteriaCheck.errors);
+    warnings.push(...criteriaCheck.warnings);
+  } else if (data.autoResolvable) {
+    warnings.push('Auto-resolvable predictions without resolution criteria are resolved from their wording');
+  }
+
   return {
     isValid: errors.length === 0,
     errors,
@@ -186,6 +208,44 @@ export function validatePrediction(data: Partial<ValidatedPredictionData>): Pred
   };
 }
 
+/**
+ * Check the exercise a fitness prediction names against the registry: a positive amount,
+ * a believable daily pace before the deadline, and whether it can be verified without a human
+ */
+export function validateExerciseTarget(
+  text: string,
+  targetDate?: number,
+  now: number = Math.floor(Date.now() / 1000)
+): { errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const mention = findPredictedExercise(text);
+  if (!mention) {
+    return { errors, warnings };
+  }
+
+  const { exercise, amount } = mention;
+
+  if (amount !== null && amount <= 0) {
+    errors.push(`${exercise.displayName} target must be greater than zero`);
+  } else if (amount !== null && targetDate && targetDate > now) {
+    const days = Math.max(1, Math.ceil((targetDate - now) / (24 * 60 * 60)));
+    const perDay = Math.ceil(amount / days);
+    if (perDay > exercise.dailyCeiling) {
+      warnings.push(
+        `Target works out to ${formatExerciseAmount(exercise.id, perDay)} a day, more than the ${formatExerciseAmount(exercise.id, exercise.dailyCeiling)} treated as plausible`
+      );
+    }
+  }
+
+  if (!isAutoVerifiable(exercise)) {
+    warnings.push(`${exercise.displayName} aren't tracked automatically, so this prediction will need manual or community resolution`);
+  }
+
+  return { errors, warnings };
+}
+
 /**
  * Sanitize and complete prediction data with defaults
  */
@@ -260,7 +320,7 @@ export async function parseAndValidatePredictionFromText(text: string): Promise<
   
   // Determine category based on keywords
   const lowerText = text.toLowerCase();
-  if (lowerText.includes('fitness') || lowerText.includes('exercise') || lowerText.includes('pushup') || lowerText.includes('squat')) {
+  if (lowerText.includes('fitness') || lowerText.includes('exercise') || findPredictedExercise(text)) {
     prediction.category = PREDICTION_CATEGORIES.FITNESS;
   } else if (lowerText.includes('blockchain') || lowerText.includes('crypto') || lowerText.includes('bitcoin') || lowerText.includes('ethereum')) {
     prediction.category = PREDICTION_CATEGORIES.CHAIN;
@@ -392,14 +452,18 @@ export async function enhancedValidatePrediction(text: string): Promise<{
   let platformSpecific: ValidatedPredictionData['platformSpecific'];
 
   // Check for fitness predictions
-  if (PLATFORM_PATTERNS.FITNESS_PREDICTION.keywords.some(keyword => lowerText.includes(keyword))) {
+  const exercise = findPredictedExercise(text);
+  if (exercise || PLATFORM_PATTERNS.FITNESS_PREDICTION.keywords.some(keyword => lowerText.includes(keyword))) {
+    const autoVerifiable = !exercise || isAutoVerifiable(exercise.exercise);
     platformSpecific = {
       requiresAddress: true,
       dataSource: 'fitness_tracking',
-      resolutionCriteria: 'User must have fitness data recorded on the platform'
+      resolutionCriteria: autoVerifiable
+        ? 'User must have fitness data recorded on the platform'
+        : `${exercise.exercise.displayName} must be confirmed manually or by community review`
     };
-    enhancedData.autoResolvable = true;
-    enhancedData.verificationMethod = 'platform_data';
+    enhancedData.autoResolvable = autoVerifiable;
+    enhancedData.verificationMethod = autoVerifiable ? 'platform_data' : 'manual';
   }
   // Check for user activity predictions
   else if (PLATFORM_PATTERNS.USER_ACTIVITY.keywords.some(keyword => lowerText.includes(keyword))) {
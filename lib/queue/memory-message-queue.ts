@@ -0,0 +1,105 @@
+/**
+ * In-Memory Message Queue
+ * MessageQueueBackend for tests and single-process development; same claim, retry and
+ * dead-letter rules as the Redis and Postgres backends, on an injectable clock
+ */
+
+import type {
+  ClaimOptions,
+  CleanupOptions,
+  FailOptions,
+  MessageQueueBackend,
+  QueuedMessage,
+} from './types';
+
+export function createInMemoryMessageQueue(now: () => number = Date.now): MessageQueueBackend {
+  const messages = new Map<string, QueuedMessage>();
+  let deadLetters: string[] = []; // Newest first
+
+  const deadLetter = (message: QueuedMessage, error: string) => {
+    Object.assign(message, { status: 'failed', error, deadLetteredAt: now() });
+    deadLetters.unshift(message.id);
+  };
+
+  return {
+    name: 'memory',
+
+    async enqueue(message) {
+      messages.set(message.id, { ...message });
+    },
+
+    async get(id) {
+      const message = messages.get(id);
+      return message ? { ...message } : null;
+    },
+
+    async claim({ limit, visibilityTimeoutMs, maxAttempts }: ClaimOptions) {
+      const visible = Array.from(messages.values())
+        .filter(m => (m.status === 'pending' || m.status === 'processing') && m.visibleAt <= now())
+        .sort((a, b) => a.visibleAt - b.visibleAt);
+
+      const claimed: QueuedMessage[] = [];
+      for (const message of visible) {
+        if (message.attempts >= maxAttempts) {
+          // Claims that timed out on their final attempt go to the dead-letter list instead
+          deadLetter(message, `Visibility timeout expired after ${message.attempts} attempts`);
+        } else if (claimed.length < limit) {
+          Object.assign(message, { status: 'processing', attempts: message.attempts + 1, visibleAt: now() + visibilityTimeoutMs });
+          claimed.push({ ...message });
+        }
+      }
+
+      return claimed;
+    },
+
+    async complete(id, response) {
+      const message = messages.get(id);
+      if (message && (message.status === 'pending' || message.status === 'processing')) {
+        Object.assign(message, { status: 'completed', response });
+      }
+    },
+
+    async fail(id, error, { maxAttempts, retryDelayMs }: FailOptions) {
+      const message = messages.get(id);
+      if (!message || (message.status !== 'pending' && message.status !== 'processing')) {
+        return null;
+      }
+
+      if (message.attempts >= maxAttempts) {
+        deadLetter(message, error);
+      } else {
+        Object.assign(message, { status: 'pending', error, visibleAt: now() + retryDelayMs });
+      }
+
+      return { ...message };
+    },
+
+    async getDeadLetters(limit) {
+      return deadLetters.slice(0, limit).map(id => ({ ...messages.get(id)! }));
+    },
+
+    async getStats() {
+      const stats = { total: messages.size, pending: 0, processing: 0, completed: 0, failed: 0 };
+      for (const message of messages.values()) {
+        stats[message.status]++;
+      }
+      return stats;
+    },
+
+    async cleanup({ completedBefore, deadLetteredBefore }: CleanupOptions) {
+      let removed = 0;
+      for (const message of Array.from(messages.values())) {
+        const expired = message.status === 'completed'
+          ? message.timestamp <= completedBefore
+          : message.status === 'failed' && (message.deadLetteredAt ?? message.timestamp) <= deadLetteredBefore;
+
+        if (expired) {
+          messages.delete(message.id);
+          deadLetters = deadLetters.filter(id => id !== message.id);
+          removed++;
+        }
+      }
+      return removed;
+    },
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Postgres Message Queue
+ * MessageQueueBackend on the xmtp_message_queue table (migrations 004 and 015)
+ * Claims use FOR UPDATE SKIP LOCKED so concurrent consumers never take the same message
+ */
+
+import pool from '../db';
+import { ensureSchema } from '../migrations/runner';
+import type {
+  ClaimOptions,
+  CleanupOptions,
+  FailOptions,
+  MessageQueueBackend,
+  QueuedMessage,
+} from './types';
+
+function mapQueueRow(row: any): QueuedMessage {
+  return {
+    id: row.id,
+    userAddress: row.user_address,
+    message: row.message,
+    conversationId: row.conversation_id ?? undefined,
+    timestamp: new Date(row.created_at).getTime(),
+    status: row.status,
+    attempts: row.attempts,
+    visibleAt: new Date(row.visible_at).getTime(),
+    response: row.response ?? undefined,
+    error: row.error ?? undefined,
+    deadLetteredAt: row.dead_lettered_at ? new Date(row.dead_lettered_at).getTime() : undefined,
+  };
+}
+
+export function createPostgresMessageQueue(): MessageQueueBackend {
+  return {
+    name: 'postgres',
+
+    async enqueue(message) {
+      await ensureSchema();
+      await pool.query(`
+        INSERT INTO xmtp_message_queue (id, user_address, message, conversation_id, status, attempts, visible_at, created_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `, [
+        message.id,
+        message.userAddress,
+        message.message,
+        message.conversationId ?? null,
+        message.status,
+        message.attempts,
+        new Date(message.visibleAt),
+        new Date(message.timestamp),
+      ]);
+    },
+
+    async get(id) {
+      await ensureSchema();
+      const result = await pool.query('SELECT * FROM xmtp_message_queue WHERE id = $1', [id]);
+      return result.rows.length > 0 ? mapQueueRow(result.rows[0]) : null;
+    },
+
+    async claim({ limit, visibilityTimeoutMs, maxAttempts }: ClaimOptions) {
+      await ensureSchema();
+      const client = await pool.connect();
+
+      try {
+        // Claims that timed out on their final attempt go to the dead-letter list instead
+        await client.query(`
+          UPDATE xmtp_message_queue
+          SET status = 'failed',
+              error = 'Visibility timeout expired after ' || attempts || ' attempts',
+              dead_lettered_at = NOW(),
+              updated_at = NOW()
+          WHERE status = 'processing' AND visible_at <= NOW() AND attempts >= $1
+        `, [maxAttempts]);
+
+        const result = await client.query(`
+          UPDATE xmtp_message_queue
+          SET status = 'processing',
+              attempts = attempts + 1,
+              visible_at = NOW() + ($2 * INTERVAL '1 millisecond'),
+              updated_at = NOW()
+          WHERE id IN (
+            SELECT id FROM xmtp_message_queue
+            WHERE status IN ('pending', 'processing') AND visible_at <= NOW() AND attempts < $3
+            ORDER BY visible_at ASC
+            LIMIT $1
+            FOR UPDATE SKIP LOCKED
+          )
+          RETURNING *
+        `, [limit, visibilityTimeoutMs, maxAttempts]);
+
+        return result.rows.map(mapQueueRow);
+      } finally {
+        client.release();
+      }
+    },
+
+    async complete(id, response) {
+      await ensureSchema();
+      await pool.query(`
+        UPDATE xmtp_message_queue
+        SET status = 'completed', response = $2, updated_at = NOW()
+        WHERE id = $1 AND status IN ('pending', 'processing')
+      `, [id, response]);
+    },
+
+    async fail(id, error, { maxAttempts, retryDelayMs }: FailOptions) {
+      await ensureSchema();
+      const result = await pool.query(`
+        UPDATE xmtp_message_queue
+        SET status = CASE WHEN attempts >= $3 THEN 'failed' ELSE 'pending' END,
+            dead_lettered_at = CASE WHEN attempts >= $3 THEN NOW() ELSE NULL END,
+            visible_at = NOW() + ($4 * INTERVAL '1 millisecond'),
+            error = $2,
+            updated_at = NOW()
+        WHERE id = $1 AND status IN ('pending', 'processing')
+        RETURNING *
+      `, [id, error, maxAttempts, retryDelayMs]);
+
+      return result.rows.length > 0 ? mapQueueRow(result.rows[0]) : null;
+    },
+
+    async getDeadLetters(limit) {
+      await ensureSchema();
+      const result = await pool.query(`
+        SELECT * FROM xmtp_message_queue
+        WHERE status = 'failed'
+        ORDER BY dead_lettered_at DESC
+        LIMIT $1
+      `, [limit]);
+
+      return result.rows.map(mapQueueRow);
+    },
+
+    async getStats() {
+      await ensureSchema();
+      const result = await pool.query(
+        'SELECT status, COUNT(*)::int AS count FROM xmtp_message_queue GROUP BY status'
+      );
+
+      const stats = { total: 0, pending: 0, processing: 0, completed: 0, failed: 0 };
+      for (const row of result.rows) {
+        if (row.status in stats) {
+          stats[row.status as keyof typeof stats] = row.count;
+        }
+        stats.total += row.count;
+      }
+
+      return stats;
+    },
+
+    async cleanup({ completedBefore, deadLetteredBefore }: CleanupOptions) {
+      await ensureSchema();
+      const result = await pool.query(`
+        DELETE FROM xmtp_message_queue
+        WHERE (status = 'completed' AND created_at <= $1)
+           OR (status = 'failed' AND dead_lettered_at <= $2)
+      `, [new Date(completedBefore), new Date(deadLetteredBefore)]);
+
+      return result.rowCount ?? 0;
+    },
+  };
+}
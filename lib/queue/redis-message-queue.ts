@@ -0,0 +1,245 @@
+/**
+ * Redis Message Queue
+ * Upstash-backed MessageQueueBackend; state changes run as Lua scripts so claims are atomic
+ *
+ * Layout (all under KEY_PREFIX):
+ * - msg:{id}        hash with the message fields
+ * - ready           sorted set of pending/processing ids scored by visibleAt
+ * - created         sorted set of every id scored by timestamp (for cleanup)
+ * - status:{status} set of ids per status (for stats)
+ * - dead            list of dead-lettered ids, newest first
+ */
+
+import type { Redis } from '@upstash/redis';
+import type {
+  ClaimOptions,
+  CleanupOptions,
+  FailOptions,
+  MessageQueueBackend,
+  QueuedMessage,
+  QueuedMessageStatus,
+} from './types';
+
+const KEY_PREFIX = 'xmtp:queue:';
+const READY_KEY = `${KEY_PREFIX}ready`;
+const CREATED_KEY = `${KEY_PREFIX}created`;
+const DEAD_KEY = `${KEY_PREFIX}dead`;
+const STATUSES: QueuedMessageStatus[] = ['pending', 'processing', 'completed', 'failed'];
+
+const messageKey = (id: string) => `${KEY_PREFIX}msg:${id}`;
+const statusKey = (status: QueuedMessageStatus) => `${KEY_PREFIX}status:${status}`;
+
+// KEYS: ready, dead | ARGV: prefix, now, visibilityTimeoutMs, limit, maxAttempts
+const CLAIM_SCRIPT = `
+local prefix, now, visibility = ARGV[1], tonumber(ARGV[2]), tonumber(ARGV[3])
+local limit, maxAttempts = tonumber(ARGV[4]), tonumber(ARGV[5])
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', now, 'LIMIT', 0, limit)
+local claimed = {}
+for _, id in ipairs(ids) do
+  local key = prefix .. 'msg:' .. id
+  local status = redis.call('HGET', key, 'status')
+  if not status then
+    redis.call('ZREM', KEYS[1], id)
+  else
+    local attempts = tonumber(redis.call('HGET', key, 'attempts') or '0')
+    if attempts >= maxAttempts then
+      redis.call('ZREM', KEYS[1], id)
+      redis.call('HSET', key, 'status', 'failed', 'deadLetteredAt', now,
+        'error', 'Visibility timeout expired after ' .. attempts .. ' attempts')
+      redis.call('SMOVE', prefix .. 'status:' .. status, prefix .. 'status:failed', id)
+      redis.call('LPUSH', KEYS[2], id)
+    else
+      redis.call('HSET', key, 'status', 'processing', 'attempts', attempts + 1, 'visibleAt', now + visibility)
+      redis.call('ZADD', KEYS[1], now + visibility, id)
+      redis.call('SMOVE', prefix .. 'status:' .. status, prefix .. 'status:processing', id)
+      table.insert(claimed, id)
+    end
+  end
+end
+return claimed
+`;
+
+// KEYS: ready | ARGV: prefix, id, response
+const COMPLETE_SCRIPT = `
+local prefix, id = ARGV[1], ARGV[2]
+local key = prefix .. 'msg:' .. id
+local status = redis.call('HGET', key, 'status')
+if not status or status == 'completed' or status == 'failed' then
+  return 0
+end
+redis.call('HSET', key, 'status', 'completed', 'response', ARGV[3])
+redis.call('ZREM', KEYS[1], id)
+redis.call('SMOVE', prefix .. 'status:' .. status, prefix .. 'status:completed', id)
+return 1
+`;
+
+// KEYS: ready, dead | ARGV: prefix, id, error, now, maxAttempts, retryDelayMs
+const FAIL_SCRIPT = `
+local prefix, id, err = ARGV[1], ARGV[2], ARGV[3]
+local now, maxAttempts, retryDelay = tonumber(ARGV[4]), tonumber(ARGV[5]), tonumber(ARGV[6])
+local key = prefix .. 'msg:' .. id
+local status = redis.call('HGET', key, 'status')
+if not status or status == 'completed' or status == 'failed' then
+  return false
+end
+local attempts = tonumber(redis.call('HGET', key, 'attempts') or '0')
+if attempts >= maxAttempts then
+  redis.call('HSET', key, 'status', 'failed', 'error', err, 'deadLetteredAt', now)
+  redis.call('ZREM', KEYS[1], id)
+  redis.call('SMOVE', prefix .. 'status:' .. status, prefix .. 'status:failed', id)
+  redis.call('LPUSH', KEYS[2], id)
+  return 'failed'
+end
+redis.call('HSET', key, 'status', 'pending', 'error', err, 'visibleAt', now + retryDelay)
+redis.call('ZADD', KEYS[1], now + retryDelay, id)
+redis.call('SMOVE', prefix .. 'status:' .. status, prefix .. 'status:pending', id)
+return 'pending'
+`;
+
+// KEYS: ready, created, dead | ARGV: prefix, completedBefore, deadLetteredBefore
+const CLEANUP_SCRIPT = `
+local prefix, completedBefore, deadBefore = ARGV[1], tonumber(ARGV[2]), tonumber(ARGV[3])
+local ids = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', math.max(completedBefore, deadBefore))
+local removed = 0
+for _, id in ipairs(ids) do
+  local key = prefix .. 'msg:' .. id
+  local fields = redis.call('HMGET', key, 'status', 'timestamp', 'deadLetteredAt')
+  local status = fields[1]
+  local remove = false
+  if not status then
+    remove = true
+  elseif status == 'completed' then
+    remove = tonumber(fields[2]) <= completedBefore
+  elseif status == 'failed' then
+    remove = tonumber(fields[3] or fields[2]) <= deadBefore
+  end
+  if remove then
+    redis.call('DEL', key)
+    redis.call('ZREM', KEYS[1], id)
+    redis.call('ZREM', KEYS[2], id)
+    redis.call('LREM', KEYS[3], 0, id)
+    if status then
+      redis.call('SREM', prefix .. 'status:' .. status, id)
+    end
+    removed = removed + 1
+  end
+end
+return removed
+`;
+
+function parseMessage(hash: Record<string, unknown> | null): QueuedMessage | null {
+  if (!hash || !hash.id) {
+    return null;
+  }
+
+  return {
+    id: String(hash.id),
+    userAddress: String(hash.userAddress),
+    message: String(hash.message),
+    conversationId: hash.conversationId !== undefined ? String(hash.conversationId) : undefined,
+    timestamp: Number(hash.timestamp),
+    status: hash.status as QueuedMessageStatus,
+    attempts: Number(hash.attempts || 0),
+    visibleAt: Number(hash.visibleAt || 0),
+    response: hash.response !== undefined ? String(hash.response) : undefined,
+    error: hash.error !== undefined ? String(hash.error) : undefined,
+    deadLetteredAt: hash.deadLetteredAt !== undefined ? Number(hash.deadLetteredAt) : undefined,
+  };
+}
+
+export function createRedisMessageQueue(redis: Redis): MessageQueueBackend {
+  const claimScript = redis.createScript(CLAIM_SCRIPT);
+  const completeScript = redis.createScript(COMPLETE_SCRIPT);
+  const failScript = redis.createScript(FAIL_SCRIPT);
+  const cleanupScript = redis.createScript(CLEANUP_SCRIPT);
+
+  async function getMany(ids: string[]): Promise<QueuedMessage[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const pipeline = redis.pipeline();
+    ids.forEach(id => pipeline.hgetall(messageKey(id)));
+    const hashes = await pipeline.exec<(Record<string, unknown> | null)[]>();
+
+    return hashes.map(parseMessage).filter((m): m is QueuedMessage => m !== null);
+  }
+
+  const backend: MessageQueueBackend = {
+    name: 'redis',
+
+    async enqueue(message) {
+      const fields: Record<string, string | number> = {
+        id: message.id,
+        userAddress: message.userAddress,
+        message: message.message,
+        timestamp: message.timestamp,
+        status: message.status,
+        attempts: message.attempts,
+        visibleAt: message.visibleAt,
+      };
+      if (message.conversationId) {
+        fields.conversationId = message.conversationId;
+      }
+
+      const tx = redis.multi();
+      tx.hset(messageKey(message.id), fields);
+      tx.zadd(READY_KEY, { score: message.visibleAt, member: message.id });
+      tx.zadd(CREATED_KEY, { score: message.timestamp, member: message.id });
+      tx.sadd(statusKey(message.status), message.id);
+      await tx.exec();
+    },
+
+    async get(id) {
+      return parseMessage(await redis.hgetall(messageKey(id)));
+    },
+
+    async claim({ limit, visibilityTimeoutMs, maxAttempts }: ClaimOptions) {
+      const ids = (await claimScript.exec(
+        [READY_KEY, DEAD_KEY],
+        [KEY_PREFIX, String(Date.now()), String(visibilityTimeoutMs), String(limit), String(maxAttempts)]
+      )) as string[] | null;
+      return getMany(ids || []);
+    },
+
+    async complete(id, response) {
+      await completeScript.exec([READY_KEY], [KEY_PREFIX, id, response]);
+    },
+
+    async fail(id, error, { maxAttempts, retryDelayMs }: FailOptions) {
+      const status = await failScript.exec(
+        [READY_KEY, DEAD_KEY],
+        [KEY_PREFIX, id, error, String(Date.now()), String(maxAttempts), String(retryDelayMs)]
+      );
+      return status ? backend.get(id) : null;
+    },
+
+    async getDeadLetters(limit) {
+      return getMany(await redis.lrange(DEAD_KEY, 0, limit - 1));
+    },
+
+    async getStats() {
+      const pipeline = redis.pipeline();
+      STATUSES.forEach(status => pipeline.scard(statusKey(status)));
+      const [pending, processing, completed, failed] = await pipeline.exec<number[]>();
+
+      return {
+        total: pending + processing + completed + failed,
+        pending,
+        processing,
+        completed,
+        failed,
+      };
+    },
+
+    async cleanup({ completedBefore, deadLetteredBefore }: CleanupOptions) {
+      const removed = await cleanupScript.exec(
+        [READY_KEY, CREATED_KEY, DEAD_KEY],
+        [KEY_PREFIX, String(completedBefore), String(deadLetteredBefore)]
+      );
+      return Number(removed) || 0;
+    },
+  };
+
+  return backend;
+}
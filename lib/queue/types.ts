@@ -0,0 +1,62 @@
+/**
+ * Message Queue Types
+ * Storage-agnostic contract shared by the Redis and Postgres queue backends
+ */
+
+export type QueuedMessageStatus =
+  | 'pending'     // Waiting to be claimed (new, or retrying after a failure)
+  | 'processing'  // Claimed; becomes claimable again once visibleAt passes
+  | 'completed'
+  | 'failed';     // Dead-lettered after exhausting its attempts
+
+export interface QueuedMessage {
+  id: string;
+  userAddress: string;
+  message: string;
+  conversationId?: string; // Chat the message came from, so the bot replies with that conversation's memory
+  timestamp: number;
+  status: QueuedMessageStatus;
+  attempts: number;
+  visibleAt: number; // Epoch ms when the message may next be claimed
+  response?: string;
+  error?: string;
+  deadLetteredAt?: number;
+}
+
+export interface QueueStats {
+  total: number;
+  pending: number;
+  processing: number;
+  completed: number;
+  failed: number;
+}
+
+export interface ClaimOptions {
+  limit: number;
+  visibilityTimeoutMs: number;
+  maxAttempts: number;
+}
+
+export interface FailOptions {
+  maxAttempts: number;
+  retryDelayMs: number;
+}
+
+export interface CleanupOptions {
+  completedBefore: number; // Epoch ms
+  deadLetteredBefore: number; // Epoch ms
+}
+
+export interface MessageQueueBackend {
+  readonly name: 'redis' | 'postgres' | 'memory';
+  enqueue(message: QueuedMessage): Promise<void>;
+  get(id: string): Promise<QueuedMessage | null>;
+  /** Claim visible messages; expired claims are redelivered, or dead-lettered on their final attempt */
+  claim(options: ClaimOptions): Promise<QueuedMessage[]>;
+  complete(id: string, response: string): Promise<void>;
+  /** Release a claim for retry, or dead-letter it once maxAttempts is reached */
+  fail(id: string, error: string, options: FailOptions): Promise<QueuedMessage | null>;
+  getDeadLetters(limit: number): Promise<QueuedMessage[]>;
+  getStats(): Promise<QueueStats>;
+  cleanup(options: CleanupOptions): Promise<number>;
+}
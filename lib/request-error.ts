@@ -0,0 +1,19 @@
+/**
+ * Request Errors
+ * Failures the caller can fix (bad input, a closed window, a missing stake), which API routes answer
+ * with their 4xx status. Anything else thrown while handling a request is a server failure (5xx)
+ */
+
+export class RequestError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+/**
+ * HTTP status for an error thrown by a handler: the RequestError's own, otherwise 500
+ */
+export function errorStatus(error: unknown): number {
+  return error instanceof RequestError ? error.status : 500;
+}
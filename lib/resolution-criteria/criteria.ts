@@ -0,0 +1,317 @@
+/**
+ * Resolution Criteria
+ * Pure helpers for the criteria DSL: parsing untrusted input, the canonical hash committed in a
+ * prediction's description, validation against the prediction, inference from a draft's fields and
+ * the comparison the resolver applies
+ */
+
+import { ethers } from 'ethers';
+import { EXERCISES, findPredictedExercise, formatExerciseAmount, isAutoVerifiable, isExerciseId } from '../exercises';
+import type {
+  CriteriaComparator,
+  CriteriaSubject,
+  PriceSymbol,
+  ResolutionCriteria,
+} from './types';
+
+export const CRITERIA_COMPARATORS: CriteriaComparator[] = ['gte', 'gt', 'lte', 'lt'];
+
+export const PRICE_SYMBOLS: PriceSymbol[] = ['BTC', 'ETH', 'CELO', 'MATIC'];
+
+const COMPARATOR_SYMBOLS: Record<CriteriaComparator, string> = { gte: '≥', gt: '>', lte: '≤', lt: '<' };
+
+// Appended to the description on-chain; the hash is 0x plus 64 hex characters
+export const CRITERIA_COMMITMENT_LABEL = 'Resolution criteria:';
+const COMMITMENT_PATTERN = /Resolution criteria:\s*(0x[0-9a-fA-F]{64})/;
+
+// Room the commitment takes in a description ("\n\n" + label + " " + hash)
+export const CRITERIA_COMMITMENT_LENGTH = 2 + CRITERIA_COMMITMENT_LABEL.length + 1 + 66;
+
+function parseNumber(field: string, value: unknown): number {
+  const parsed = typeof value === 'string' ? Number(value.replace(/[$,]/g, '')) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+    throw new Error(`${field} must be a number`);
+  }
+  return parsed;
+}
+
+function parseTimestamp(field: string, value: unknown): number {
+  const parsed = typeof value === 'string' && !/^\d+$/.test(value) ? Date.parse(value) / 1000 : parseNumber(field, value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${field} must be a Unix timestamp or an ISO 8601 date`);
+  }
+  return Math.floor(parsed > 1e12 ? parsed / 1000 : parsed);
+}
+
+function parseComparator(value: unknown): CriteriaComparator {
+  if (!CRITERIA_COMPARATORS.includes(value as CriteriaComparator)) {
+    throw new Error(`comparator must be one of: ${CRITERIA_COMPARATORS.join(', ')}`);
+  }
+  return value as CriteriaComparator;
+}
+
+export function parseCriteriaSubject(value: unknown): CriteriaSubject {
+  if (value === undefined || value === null || value === 'creator') {
+    return { type: 'creator' };
+  }
+  if (typeof value === 'string' && ethers.isAddress(value)) {
+    return { type: 'address', address: value.toLowerCase() };
+  }
+  if (typeof value === 'string' && /^fid[:#]?\d+$/i.test(value)) {
+    return { type: 'fid', fid: parseInt(value.replace(/\D/g, ''), 10) };
+  }
+
+  const subject = value as Partial<CriteriaSubject> | null;
+  if (subject?.type === 'creator') {
+    return { type: 'creator' };
+  }
+  if (subject?.type === 'address' && typeof subject.address === 'string' && ethers.isAddress(subject.address)) {
+    return { type: 'address', address: subject.address.toLowerCase() };
+  }
+  if (subject?.type === 'fid' && Number.isInteger(subject.fid) && (subject.fid as number) > 0) {
+    return { type: 'fid', fid: subject.fid as number };
+  }
+  throw new Error('subject must be "creator", a 0x address or a Farcaster fid such as "fid:3"');
+}
+
+/**
+ * Criteria from untrusted input (a tool call, an API body, a stored row); throws with a message
+ * saying what to fix
+ */
+export function parseResolutionCriteria(input: unknown): ResolutionCriteria {
+  const raw = input as Record<string, unknown> | null;
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Resolution criteria must be an object');
+  }
+
+  if (raw.source === 'fitness') {
+    const exercise = typeof raw.exercise === 'string' ? raw.exercise.toLowerCase() : raw.exercise;
+    if (!isExerciseId(exercise) || exercise === 'custom') {
+      throw new Error(`exercise must be one of: ${Object.keys(EXERCISES).filter(id => id !== 'custom').join(', ')}`);
+    }
+    const window = (raw.window ?? {}) as Record<string, unknown>;
+    return {
+      version: 1,
+      source: 'fitness',
+      subject: parseCriteriaSubject(raw.subject),
+      exercise,
+      comparator: parseComparator(raw.comparator ?? 'gte'),
+      value: parseNumber('value', raw.value),
+      window: {
+        start: window.start === undefined || window.start === null ? null : parseTimestamp('window.start', window.start),
+        end: parseTimestamp('window.end', window.end),
+      },
+    };
+  }
+
+  if (raw.source === 'price') {
+    const symbol = typeof raw.symbol === 'string' ? raw.symbol.toUpperCase() : raw.symbol;
+    if (!PRICE_SYMBOLS.includes(symbol as PriceSymbol)) {
+      throw new Error(`symbol must be one of: ${PRICE_SYMBOLS.join(', ')}`);
+    }
+    return {
+      version: 1,
+      source: 'price',
+      symbol: symbol as PriceSymbol,
+      comparator: parseComparator(raw.comparator ?? 'gte'),
+      value: parseNumber('value', raw.value),
+      at: parseTimestamp('at', raw.at),
+    };
+  }
+
+  throw new Error('source must be "fitness" or "price"');
+}
+
+/**
+ * JSON with a fixed key order, so the same criteria always hash the same
+ */
+export function canonicalCriteriaJson(criteria: ResolutionCriteria): string {
+  if (criteria.source === 'fitness') {
+    const { subject } = criteria;
+    return JSON.stringify({
+      version: criteria.version,
+      source: criteria.source,
+      subject: subject.type === 'address'
+        ? { type: subject.type, address: subject.address.toLowerCase() }
+        : subject.type === 'fid' ? { type: subject.type, fid: subject.fid } : { type: subject.type },
+      exercise: criteria.exercise,
+      comparator: criteria.comparator,
+      value: criteria.value,
+      window: { start: criteria.window.start, end: criteria.window.end },
+    });
+  }
+
+  return JSON.stringify({
+    version: criteria.version,
+    source: criteria.source,
+    symbol: criteria.symbol,
+    comparator: criteria.comparator,
+    value: criteria.value,
+    at: criteria.at,
+  });
+}
+
+export function hashResolutionCriteria(criteria: ResolutionCriteria): string {
+  return ethers.id(canonicalCriteriaJson(criteria));
+}
+
+/**
+ * The description as it goes on-chain, ending with the criteria hash
+ */
+export function commitCriteria(description: string, hash: string): string {
+  return `${description.trim()}\n\n${CRITERIA_COMMITMENT_LABEL} ${hash}`;
+}
+
+export function findCriteriaCommitment(description: string): string | null {
+  return description.match(COMMITMENT_PATTERN)?.[1].toLowerCase() ?? null;
+}
+
+export function compareCriteriaValue(actual: number, comparator: CriteriaComparator, value: number): boolean {
+  switch (comparator) {
+    case 'gte':
+      return actual >= value;
+    case 'gt':
+      return actual > value;
+    case 'lte':
+      return actual <= value;
+    case 'lt':
+      return actual < value;
+  }
+}
+
+function formatTimestamp(seconds: number): string {
+  return new Date(seconds * 1000).toISOString().replace(/:\d{2}\.\d{3}Z$/, ' UTC').replace('T', ' ');
+}
+
+function describeSubject(subject: CriteriaSubject): string {
+  switch (subject.type) {
+    case 'creator':
+      return 'the creator';
+    case 'address':
+      return `${subject.address.slice(0, 6)}...${subject.address.slice(-4)}`;
+    case 'fid':
+      return `FID ${subject.fid}`;
+  }
+}
+
+/**
+ * One line for people: "Push-ups by the creator ≥ 100 push-ups from creation to 2025-08-01 23:59 UTC"
+ */
+export function describeResolutionCriteria(criteria: ResolutionCriteria): string {
+  const comparator = COMPARATOR_SYMBOLS[criteria.comparator];
+  if (criteria.source === 'price') {
+    return `${criteria.symbol} price ${comparator} $${criteria.value.toLocaleString()} at ${formatTimestamp(criteria.at)}`;
+  }
+
+  const exercise = EXERCISES[criteria.exercise];
+  const from = criteria.window.start === null ? 'creation' : formatTimestamp(criteria.window.start);
+  return `${exercise.displayName} by ${describeSubject(criteria.subject)} ${comparator} ${formatExerciseAmount(criteria.exercise, criteria.value)} from ${from} to ${formatTimestamp(criteria.window.end)}`;
+}
+
+/**
+ * Check criteria against the prediction they'll resolve; every error starts with "Resolution criteria"
+ */
+export function validateResolutionCriteria(
+  criteria: ResolutionCriteria,
+  prediction: { targetDate?: number | null; targetValue?: number }
+): { errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const { targetDate, targetValue } = prediction;
+
+  if (!(criteria.value > 0)) {
+    errors.push('Resolution criteria value must be greater than zero');
+  }
+
+  if (criteria.source === 'fitness') {
+    const exercise = EXERCISES[criteria.exercise];
+    if (!isAutoVerifiable(exercise)) {
+      errors.push(`Resolution criteria can't use ${exercise.displayName}: they aren't tracked automatically`);
+    }
+    if (criteria.window.start !== null && criteria.window.start >= criteria.window.end) {
+      errors.push('Resolution criteria window must start before it ends');
+    }
+    if (targetDate && criteria.window.end > targetDate) {
+      errors.push('Resolution criteria window must end by the target date');
+    }
+    if (exercise.unit === 'reps' && targetValue && targetValue !== criteria.value) {
+      warnings.push(`Resolution criteria check ${criteria.value.toLocaleString()} ${exercise.displayName.toLowerCase()}, not the target value of ${targetValue.toLocaleString()}`);
+    }
+  } else {
+    if (targetDate && criteria.at > targetDate) {
+      errors.push('Resolution criteria price time must be by the target date');
+    }
+    if (targetValue && targetValue !== criteria.value) {
+      warnings.push(`Resolution criteria check $${criteria.value.toLocaleString()}, not the target value of ${targetValue.toLocaleString()}`);
+    }
+  }
+
+  return { errors, warnings };
+}
+
+// Token names in price predictions; "dwr.eth" is a name, not ETH
+const SYMBOL_PATTERN = /(?:^|[^.\w])(bitcoin|btc|ethereum|eth|celo|matic)\b/i;
+const SYMBOL_NAMES: Record<string, PriceSymbol> = {
+  bitcoin: 'BTC',
+  btc: 'BTC',
+  ethereum: 'ETH',
+  eth: 'ETH',
+  celo: 'CELO',
+  matic: 'MATIC',
+};
+const BELOW_PATTERN = /\b(below|under|less than|drops?|falls?|dips?)\b/i;
+
+/**
+ * Criteria the bot can work out from a prediction's fields: a tracked exercise in a fitness
+ * prediction, or a token and price in a chain prediction. Null when there's nothing checkable
+ */
+export function inferResolutionCriteria(fields: {
+  title: string;
+  description: string;
+  category: number;
+  targetValue: number;
+  targetDate: number | null;
+  targetAddress?: string;
+}): ResolutionCriteria | null {
+  if (fields.targetDate === null) {
+    return null;
+  }
+  const text = `${fields.title} ${fields.description}`;
+
+  if (fields.category === 0) {
+    const mention = findPredictedExercise(text);
+    if (!mention || !isAutoVerifiable(mention.exercise)) {
+      return null;
+    }
+    const value = mention.exercise.unit === 'meters' ? mention.amount : fields.targetValue || mention.amount;
+    if (!value) {
+      return null;
+    }
+    return {
+      version: 1,
+      source: 'fitness',
+      subject: fields.targetAddress ? { type: 'address', address: fields.targetAddress.toLowerCase() } : { type: 'creator' },
+      exercise: mention.exercise.id,
+      comparator: 'gte',
+      value: Math.round(value),
+      window: { start: null, end: fields.targetDate },
+    };
+  }
+
+  if (fields.category === 1) {
+    const symbol = text.match(SYMBOL_PATTERN)?.[1].toLowerCase();
+    if (!symbol || !fields.targetValue) {
+      return null;
+    }
+    return {
+      version: 1,
+      source: 'price',
+      symbol: SYMBOL_NAMES[symbol],
+      comparator: BELOW_PATTERN.test(text) ? 'lt' : 'gte',
+      value: fields.targetValue,
+      at: fields.targetDate,
+    };
+  }
+
+  return null;
+}
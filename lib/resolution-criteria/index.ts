@@ -0,0 +1,10 @@
+/**
+ * Resolution Criteria
+ * Typed, hash-committed statements of how a prediction resolves (a fitness total or a token price),
+ * generated by the bot, checked by validation and executed by the resolver
+ */
+
+export * from './criteria';
+export * from './service';
+export * from './stores';
+export type * from './types';
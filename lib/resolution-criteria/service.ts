@@ -0,0 +1,57 @@
+/**
+ * Resolution Criteria Service
+ * Stores criteria when a prediction is confirmed and finds them again for the resolver: by the
+ * prediction's chain and ID once bound, otherwise by the hash committed in its description
+ */
+
+import type { SupportedChain } from '../services/dual-chain-service';
+import { findCriteriaCommitment, hashResolutionCriteria, parseResolutionCriteria } from './criteria';
+import { createPostgresResolutionCriteriaStore } from './stores';
+import type { CriteriaLookup, ResolutionCriteriaStore } from './types';
+
+export class ResolutionCriteriaService {
+  constructor(
+    private store: ResolutionCriteriaStore,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Store criteria ahead of the prediction being created; returns the hash to commit in its description
+   */
+  async register(input: unknown): Promise<string> {
+    const criteria = parseResolutionCriteria(input);
+    const hash = hashResolutionCriteria(criteria);
+    await this.store.save({ hash, criteria, createdAt: this.now() });
+    return hash;
+  }
+
+  async forPrediction(prediction: { id: number; chain: SupportedChain; description: string }): Promise<CriteriaLookup> {
+    const committed = findCriteriaCommitment(prediction.description);
+    if (!committed) {
+      return { status: 'none' };
+    }
+
+    const bound = await this.store.findByPrediction(prediction.chain, prediction.id);
+    if (bound?.hash === committed) {
+      return { status: 'found', hash: bound.hash, criteria: bound.criteria };
+    }
+
+    const stored = await this.store.findByHash(committed);
+    // Recomputed rather than trusted, so a row edited after the commitment doesn't resolve anything
+    if (!stored || hashResolutionCriteria(stored.criteria) !== committed) {
+      return { status: 'missing', hash: committed };
+    }
+
+    await this.store.bind(prediction.chain, prediction.id, committed);
+    return { status: 'found', hash: committed, criteria: stored.criteria };
+  }
+}
+
+let defaultService: ResolutionCriteriaService | null = null;
+
+export function getResolutionCriteriaService(): ResolutionCriteriaService {
+  if (!defaultService) {
+    defaultService = new ResolutionCriteriaService(createPostgresResolutionCriteriaStore());
+  }
+  return defaultService;
+}
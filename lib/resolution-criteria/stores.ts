@@ -0,0 +1,92 @@
+/**
+ * Resolution Criteria Stores
+ * Postgres on the resolution_criteria and prediction_resolution_criteria tables (migration 012),
+ * and a process-local store for tests and scripts without a database
+ */
+
+import pool from '../db';
+import { ensureSchema } from '../migrations/runner';
+import { parseResolutionCriteria } from './criteria';
+import type { ResolutionCriteriaStore, StoredResolutionCriteria } from './types';
+
+function mapCriteriaRow(row: any): StoredResolutionCriteria {
+  return {
+    hash: row.hash,
+    criteria: parseResolutionCriteria(row.criteria),
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
+
+export function createPostgresResolutionCriteriaStore(): ResolutionCriteriaStore {
+  return {
+    name: 'postgres',
+
+    async save(record) {
+      await ensureSchema();
+      // Criteria are content-addressed: the same hash always holds the same criteria
+      await pool.query(`
+        INSERT INTO resolution_criteria (hash, criteria, created_at)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (hash) DO NOTHING
+      `, [record.hash, JSON.stringify(record.criteria), new Date(record.createdAt)]);
+    },
+
+    async findByHash(hash) {
+      await ensureSchema();
+      const result = await pool.query('SELECT * FROM resolution_criteria WHERE hash = $1', [hash]);
+      return result.rows[0] ? mapCriteriaRow(result.rows[0]) : null;
+    },
+
+    async findByPrediction(chain, predictionId) {
+      await ensureSchema();
+      const result = await pool.query(`
+        SELECT c.*
+        FROM prediction_resolution_criteria p
+        JOIN resolution_criteria c ON c.hash = p.hash
+        WHERE p.prediction_id = $1 AND p.chain = $2
+      `, [predictionId, chain]);
+      return result.rows[0] ? mapCriteriaRow(result.rows[0]) : null;
+    },
+
+    async bind(chain, predictionId, hash) {
+      await ensureSchema();
+      await pool.query(`
+        INSERT INTO prediction_resolution_criteria (prediction_id, chain, hash)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (prediction_id, chain) DO NOTHING
+      `, [predictionId, chain, hash]);
+    },
+  };
+}
+
+export function createInMemoryResolutionCriteriaStore(): ResolutionCriteriaStore {
+  const records = new Map<string, StoredResolutionCriteria>();
+  const bindings = new Map<string, string>();
+
+  return {
+    name: 'memory',
+
+    async save(record) {
+      if (!records.has(record.hash)) {
+        records.set(record.hash, structuredClone(record));
+      }
+    },
+
+    async findByHash(hash) {
+      const record = records.get(hash);
+      return record ? structuredClone(record) : null;
+    },
+
+    async findByPrediction(chain, predictionId) {
+      const hash = bindings.get(`${chain}:${predictionId}`);
+      return hash ? this.findByHash(hash) : null;
+    },
+
+    async bind(chain, predictionId, hash) {
+      const key = `${chain}:${predictionId}`;
+      if (!bindings.has(key)) {
+        bindings.set(key, hash);
+      }
+    },
+  };
+}
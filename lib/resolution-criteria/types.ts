@@ -0,0 +1,75 @@
+/**
+ * Resolution Criteria Types
+ * A machine-checkable statement of what makes a prediction resolve YES, stored off-chain and
+ * committed to by hash in the prediction's description
+ */
+
+import type { ExerciseId } from '../exercises';
+import type { SupportedChain } from '../services/dual-chain-service';
+
+export type CriteriaComparator = 'gte' | 'gt' | 'lte' | 'lt';
+
+export type PriceSymbol = 'BTC' | 'ETH' | 'CELO' | 'MATIC';
+
+export type CriteriaSubject =
+  | { type: 'creator' } // Whoever created the prediction
+  | { type: 'address'; address: string }
+  | { type: 'fid'; fid: number };
+
+/**
+ * The subject's total for an exercise over a window compared with a value
+ */
+export interface FitnessResolutionCriteria {
+  version: 1;
+  source: 'fitness';
+  subject: CriteriaSubject;
+  exercise: ExerciseId;
+  comparator: CriteriaComparator;
+  value: number; // Reps, or meters for distance exercises
+  window: {
+    start: number | null; // Unix seconds; null counts from when the prediction was created
+    end: number;
+  };
+}
+
+/**
+ * A token's USD closing price at a moment compared with a value
+ */
+export interface PriceResolutionCriteria {
+  version: 1;
+  source: 'price';
+  symbol: PriceSymbol;
+  comparator: CriteriaComparator;
+  value: number; // USD
+  at: number; // Unix seconds
+}
+
+export type ResolutionCriteria = FitnessResolutionCriteria | PriceResolutionCriteria;
+
+export interface StoredResolutionCriteria {
+  hash: string;
+  criteria: ResolutionCriteria;
+  createdAt: number; // Epoch ms
+}
+
+/**
+ * Criteria are stored by hash when a draft is confirmed, and bound to the prediction's chain and ID
+ * the first time the resolver finds the hash committed in its description
+ */
+export interface ResolutionCriteriaStore {
+  name: 'postgres' | 'memory';
+  save(record: StoredResolutionCriteria): Promise<void>;
+  findByHash(hash: string): Promise<StoredResolutionCriteria | null>;
+  findByPrediction(chain: SupportedChain, predictionId: number): Promise<StoredResolutionCriteria | null>;
+  bind(chain: SupportedChain, predictionId: number, hash: string): Promise<void>;
+}
+
+/**
+ * What the resolver knows about a prediction's criteria
+ * - none: no commitment in the description (created before criteria existed)
+ * - missing: a commitment whose criteria were never stored, or don't match their hash
+ */
+export type CriteriaLookup =
+  | { status: 'none' }
+  | { status: 'missing'; hash: string }
+  | { status: 'found'; hash: string; criteria: ResolutionCriteria };
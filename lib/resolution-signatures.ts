@@ -0,0 +1,55 @@
+/**
+ * Resolution Signatures
+ * Messages stakers and admins sign to dispute or rule on a proposed resolution
+ * Shared by the browser (to build the message) and the API (to recover the signer)
+ */
+
+import { ethers } from 'ethers';
+import { RequestError } from './request-error';
+
+// Signed requests older than this are rejected to stop replays
+export const SIGNATURE_MAX_AGE_SECONDS = 10 * 60;
+
+export function buildDisputeMessage(params: {
+  predictionId: number;
+  chain: string;
+  reason: string;
+  issuedAt: number;
+}): string {
+  return [
+    'Dispute prediction resolution',
+    `Prediction: ${params.predictionId} (${params.chain})`,
+    `Reason: ${params.reason.trim()}`,
+    `Issued: ${params.issuedAt}`
+  ].join('\n');
+}
+
+export function buildAdminResolutionMessage(params: {
+  predictionId: number;
+  chain: string;
+  outcome: 'YES' | 'NO';
+  issuedAt: number;
+}): string {
+  return [
+    'Admin ruling on disputed resolution',
+    `Prediction: ${params.predictionId} (${params.chain})`,
+    `Outcome: ${params.outcome}`,
+    `Issued: ${params.issuedAt}`
+  ].join('\n');
+}
+
+/**
+ * Recover the signer of a resolution message, rejecting stale or malformed signatures
+ */
+export function recoverResolutionSigner(message: string, signature: string, issuedAt: number): string {
+  const now = Math.floor(Date.now() / 1000);
+  if (!Number.isFinite(issuedAt) || Math.abs(now - issuedAt) > SIGNATURE_MAX_AGE_SECONDS) {
+    throw new RequestError('Signature has expired, please sign again', 401);
+  }
+
+  try {
+    return ethers.verifyMessage(message, signature).toLowerCase();
+  } catch {
+    throw new RequestError('Invalid signature', 401);
+  }
+}
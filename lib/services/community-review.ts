@@ -0,0 +1,474 @@
+/**
+ * Community Review
+ * Peer review for sweat equity challenges verified with method "community"
+ *
+ * - A panel of reviewers is drawn at random from users with an active streak
+ * - Reviewers who mutually follow the challenger (or each other) on Farcaster are skipped
+ * - Votes are weighted by reviewer reputation; a quorum of votes and a weighted approval
+ *   threshold decide the outcome, which feeds the community_review evidence check
+ * - Reviewers who agree with the outcome gain reputation, those who don't lose it
+ * - One review per challenge, so a challenger can't re-roll the panel
+ */
+
+import type { PoolClient } from 'pg';
+import pool from '../db';
+import { ensureSchema } from '../migrations/runner';
+import { RequestError } from '../request-error';
+import { SWEAT_EQUITY_WINDOW_SECONDS } from './sweat-equity-evidence';
+import type { SweatEquityChallenge } from '../sweat-equity-bot-integration';
+
+export type CommunityReviewStatus =
+  | 'pending'   // Waiting for votes
+  | 'approved'  // Quorum reached, weighted approval at or above the threshold
+  | 'rejected'  // Quorum reached, weighted approval below the threshold
+  | 'expired';  // Challenge window closed before quorum
+
+export interface ReviewAssignment {
+  reviewerId: string; // Farcaster ID (user_streaks.user_id)
+  walletAddresses: string[];
+  weight: number; // Reputation when assigned
+  approve: boolean | null;
+  reason: string | null;
+  votedAt: string | null;
+}
+
+export interface CommunityReview {
+  challengeId: number;
+  challenger: string;
+  proofHash: string;
+  status: CommunityReviewStatus;
+  quorum: number;
+  threshold: number;
+  approveWeight: number;
+  rejectWeight: number;
+  openedAt: string;
+  expiresAt: string;
+  resolvedAt: string | null;
+  assignments: ReviewAssignment[];
+}
+
+export interface ReviewerCandidate {
+  reviewerId: string;
+  walletAddresses: string[];
+  weight: number;
+}
+
+export interface ReviewTally {
+  status: CommunityReviewStatus;
+  votes: number;
+  approveWeight: number;
+  rejectWeight: number;
+}
+
+// Reputation bounds and steps; new reviewers start at 1
+const INITIAL_REPUTATION = 1;
+const MIN_REPUTATION = 0.2;
+const MAX_REPUTATION = 3;
+const AGREEMENT_REWARD = 0.1;
+const DISAGREEMENT_PENALTY = 0.25;
+
+// Reviewers below this reputation are no longer drawn for panels
+const MIN_REVIEWER_REPUTATION = 0.5;
+
+// A streak counts as active if its last activity day is this recent (covers timezone offsets)
+const ACTIVE_STREAK_DAYS = 2;
+
+// Candidates drawn per panel seat, so skipped reviewers can be replaced
+const CANDIDATE_OVERSAMPLE = 4;
+
+export const MAX_REVIEW_REASON_LENGTH = 280;
+
+export function getReviewPolicy(): { panelSize: number; quorum: number; threshold: number } {
+  const panelSize = Number(process.env.COMMUNITY_REVIEW_PANEL_SIZE);
+  const quorum = Number(process.env.COMMUNITY_REVIEW_QUORUM);
+  const threshold = Number(process.env.COMMUNITY_REVIEW_THRESHOLD);
+
+  const size = Number.isInteger(panelSize) && panelSize > 0 ? panelSize : 5;
+  return {
+    panelSize: size,
+    quorum: Number.isInteger(quorum) && quorum > 0 ? Math.min(quorum, size) : Math.min(3, size),
+    threshold: Number.isFinite(threshold) && threshold > 0 && threshold <= 1 ? threshold : 2 / 3,
+  };
+}
+
+/**
+ * Decide a review from its votes; pure so it can be tested without a database
+ * Resolves early once the remaining reviewers could no longer change the outcome
+ */
+export function tallyReview(params: {
+  votes: { approve: boolean; weight: number }[];
+  pendingWeights: number[];
+  quorum: number;
+  threshold: number;
+  expired: boolean;
+}): ReviewTally {
+  const approveWeight = params.votes.filter(v => v.approve).reduce((sum, v) => sum + v.weight, 0);
+  const rejectWeight = params.votes.filter(v => !v.approve).reduce((sum, v) => sum + v.weight, 0);
+  const pendingWeight = params.pendingWeights.reduce((sum, w) => sum + w, 0);
+  const tally = { votes: params.votes.length, approveWeight, rejectWeight };
+
+  const passes = (approve: number, reject: number) => approve + reject > 0 && approve / (approve + reject) >= params.threshold;
+
+  if (params.votes.length < params.quorum) {
+    const quorumReachable = params.votes.length + params.pendingWeights.length >= params.quorum;
+    return { ...tally, status: params.expired || !quorumReachable ? 'expired' : 'pending' };
+  }
+
+  const current = passes(approveWeight, rejectWeight) ? 'approved' : 'rejected';
+  if (params.expired || params.pendingWeights.length === 0) {
+    return { ...tally, status: current };
+  }
+
+  // Would the outstanding votes flip it if they all went the other way?
+  const flipped = current === 'approved'
+    ? !passes(approveWeight, rejectWeight + pendingWeight)
+    : passes(approveWeight + pendingWeight, rejectWeight);
+
+  return { ...tally, status: flipped ? 'pending' : current };
+}
+
+/**
+ * Reputation after a resolved review: up for agreeing with the outcome, down for not
+ */
+export function nextReputation(current: number, agreed: boolean): number {
+  const next = agreed ? current + AGREEMENT_REWARD : current - DISAGREEMENT_PENALTY;
+  return Math.round(Math.min(MAX_REPUTATION, Math.max(MIN_REPUTATION, next)) * 1000) / 1000;
+}
+
+function mapReviewRow(row: any, assignments: any[]): CommunityReview {
+  return {
+    challengeId: row.challenge_id,
+    challenger: row.challenger,
+    proofHash: row.proof_hash,
+    status: row.status,
+    quorum: row.quorum,
+    threshold: Number(row.threshold),
+    approveWeight: Number(row.approve_weight),
+    rejectWeight: Number(row.reject_weight),
+    openedAt: new Date(row.opened_at).toISOString(),
+    expiresAt: new Date(row.expires_at).toISOString(),
+    resolvedAt: row.resolved_at ? new Date(row.resolved_at).toISOString() : null,
+    assignments: assignments.map(a => ({
+      reviewerId: a.reviewer_id,
+      walletAddresses: a.wallet_addresses || [],
+      weight: Number(a.weight),
+      approve: a.approve,
+      reason: a.reason,
+      votedAt: a.voted_at ? new Date(a.voted_at).toISOString() : null,
+    })),
+  };
+}
+
+async function loadReview(client: PoolClient, challengeId: number, forUpdate = false): Promise<CommunityReview | null> {
+  const review = await client.query(
+    `SELECT * FROM sweat_equity_reviews WHERE challenge_id = $1${forUpdate ? ' FOR UPDATE' : ''}`,
+    [challengeId]
+  );
+
+  if (review.rows.length === 0) {
+    return null;
+  }
+
+  const assignments = await client.query(
+    'SELECT * FROM sweat_equity_review_assignments WHERE challenge_id = $1 ORDER BY assigned_at ASC, reviewer_id ASC',
+    [challengeId]
+  );
+
+  return mapReviewRow(review.rows[0], assignments.rows);
+}
+
+/**
+ * Tally a pending review and, if it resolved, store the outcome and update reviewer reputation
+ * Must run inside a transaction holding the review row lock
+ */
+async function settleReview(client: PoolClient, review: CommunityReview): Promise<CommunityReview> {
+  if (review.status !== 'pending') {
+    return review;
+  }
+
+  const voted = review.assignments.filter(a => a.approve !== null);
+  const tally = tallyReview({
+    votes: voted.map(a => ({ approve: a.approve as boolean, weight: a.weight })),
+    pendingWeights: review.assignments.filter(a => a.approve === null).map(a => a.weight),
+    quorum: review.quorum,
+    threshold: review.threshold,
+    expired: new Date(review.expiresAt).getTime() <= Date.now(),
+  });
+
+  await client.query(`
+    UPDATE sweat_equity_reviews
+    SET status = $2, approve_weight = $3, reject_weight = $4,
+        resolved_at = CASE WHEN $2 = 'pending' THEN NULL ELSE NOW() END
+    WHERE challenge_id = $1
+  `, [review.challengeId, tally.status, tally.approveWeight, tally.rejectWeight]);
+
+  if (tally.status === 'approved' || tally.status === 'rejected') {
+    const outcome = tally.status === 'approved';
+
+    for (const assignment of voted) {
+      const agreed = assignment.approve === outcome;
+      const current = await client.query(
+        'SELECT reputation FROM sweat_equity_reviewer_reputation WHERE reviewer_id = $1 FOR UPDATE',
+        [assignment.reviewerId]
+      );
+      const reputation = current.rows.length > 0 ? Number(current.rows[0].reputation) : INITIAL_REPUTATION;
+
+      await client.query(`
+        INSERT INTO sweat_equity_reviewer_reputation (reviewer_id, reputation, reviews, agreements, updated_at)
+        VALUES ($1, $2, 1, $3, NOW())
+        ON CONFLICT (reviewer_id) DO UPDATE
+        SET reputation = EXCLUDED.reputation,
+            reviews = sweat_equity_reviewer_reputation.reviews + 1,
+            agreements = sweat_equity_reviewer_reputation.agreements + EXCLUDED.agreements,
+            updated_at = NOW()
+      `, [assignment.reviewerId, nextReputation(reputation, agreed), agreed ? 1 : 0]);
+    }
+  }
+
+  return { ...review, ...tally, resolvedAt: tally.status === 'pending' ? null : new Date().toISOString() };
+}
+
+/**
+ * Seat candidates in draw order, skipping anyone who mutually follows the challenger or a reviewer
+ * already seated; pure so the anti-collusion rules can be tested without Farcaster or a database
+ */
+export function pickPanel(params: {
+  candidates: ReviewerCandidate[];
+  follows: Map<string, Set<number>>; // Farcaster IDs each candidate (and the challenger) follows
+  challengerFid: string | null;
+  panelSize: number;
+}): ReviewerCandidate[] {
+  const followsOf = (id: string) => params.follows.get(id) ?? new Set<number>();
+  const mutual = (a: string, b: string | null) =>
+    b !== null && followsOf(a).has(Number(b)) && followsOf(b).has(Number(a));
+
+  const panel: ReviewerCandidate[] = [];
+  for (const candidate of params.candidates) {
+    if (panel.length >= params.panelSize) break;
+    if (mutual(candidate.reviewerId, params.challengerFid)) continue;
+    if (panel.some(member => mutual(candidate.reviewerId, member.reviewerId))) continue;
+    panel.push(candidate);
+  }
+
+  return panel;
+}
+
+/**
+ * Draw a panel at random from active-streak users, skipping the challenger and mutual follows
+ * Reads and Farcaster lookups happen here, before openCommunityReview takes its transaction
+ */
+async function selectReviewers(
+  challenger: string,
+  challengerFid: string | null,
+  panelSize: number
+): Promise<ReviewerCandidate[]> {
+  const { fetchFollows } = await import('../farcaster-social');
+
+  const activeSince = new Date(Date.now() - ACTIVE_STREAK_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const result = await pool.query(`
+    SELECT s.user_id, s.wallet_addresses, COALESCE(r.reputation, $4) AS reputation
+    FROM user_streaks s
+    LEFT JOIN sweat_equity_reviewer_reputation r ON r.reviewer_id = s.user_id
+    WHERE s.current_streak > 0
+      AND s.last_activity_date >= $1
+      AND jsonb_array_length(s.wallet_addresses) > 0
+      AND NOT (s.wallet_addresses ? $2)
+      AND s.user_id <> COALESCE($3, '')
+      AND COALESCE(r.reputation, $4) >= $5
+    ORDER BY random()
+    LIMIT $6
+  `, [activeSince, challenger, challengerFid, INITIAL_REPUTATION, MIN_REVIEWER_REPUTATION, panelSize * CANDIDATE_OVERSAMPLE]);
+
+  const candidates: ReviewerCandidate[] = result.rows.map(row => ({
+    reviewerId: String(row.user_id),
+    walletAddresses: (row.wallet_addresses || []).map((a: string) => a.toLowerCase()),
+    weight: Number(row.reputation),
+  }));
+
+  // Follow lists are only available for Farcaster IDs; anyone else is compared by wallet alone
+  const ids = [challengerFid, ...candidates.map(c => c.reviewerId)]
+    .filter((id): id is string => id !== null && Number.isInteger(Number(id)) && Number(id) > 0);
+  const follows = new Map(await Promise.all(
+    ids.map(async id => [id, new Set(await fetchFollows(Number(id)))] as const)
+  ));
+
+  return pickPanel({ candidates, follows, challengerFid, panelSize });
+}
+
+/**
+ * Open peer review for a challenge and assign its panel
+ * The review must finish inside the challenge window, since approval is rejected on-chain after it
+ */
+export async function openCommunityReview(params: {
+  challengeId: number;
+  challenge: Pick<SweatEquityChallenge, 'user' | 'createdAt' | 'deadline'>;
+  proofHash: string;
+}): Promise<CommunityReview> {
+  const { challengeId, challenge, proofHash } = params;
+  const policy = getReviewPolicy();
+  const challenger = challenge.user.toLowerCase();
+
+  const windowEnd = Math.min(challenge.createdAt + SWEAT_EQUITY_WINDOW_SECONDS, challenge.deadline || Infinity);
+  if (windowEnd * 1000 <= Date.now()) {
+    throw new RequestError('Challenge window has closed', 409);
+  }
+
+  // Resolve the challenger's Farcaster ID for the follow-graph checks
+  const { findUserStreakByAddress } = await import('../streaks-service-pg');
+  const { addressToFid } = await import('../farcaster-social');
+  const challengerStreak = await findUserStreakByAddress(challenger);
+  const challengerFid = challengerStreak?.userId ?? (await addressToFid(challenger))?.toString() ?? null;
+
+  await ensureSchema();
+  const existing = await pool.query('SELECT 1 FROM sweat_equity_reviews WHERE challenge_id = $1', [challengeId]);
+  if (existing.rows.length > 0) {
+    throw new RequestError('Community review already opened for this challenge', 409);
+  }
+
+  const panel = await selectReviewers(challenger, challengerFid, policy.panelSize);
+  if (panel.length < policy.quorum) {
+    throw new RequestError(`Not enough eligible reviewers (${panel.length} of ${policy.quorum} needed)`, 409);
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const inserted = await client.query(`
+      INSERT INTO sweat_equity_reviews (challenge_id, challenger, challenger_fid, proof_hash, quorum, threshold, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6, to_timestamp($7))
+      ON CONFLICT (challenge_id) DO NOTHING
+      RETURNING challenge_id
+    `, [challengeId, challenger, challengerFid, proofHash.toLowerCase(), policy.quorum, policy.threshold, windowEnd]);
+
+    // A concurrent request may have opened it since the check above
+    if (inserted.rows.length === 0) {
+      throw new RequestError('Community review already opened for this challenge', 409);
+    }
+
+    for (const reviewer of panel) {
+      await client.query(`
+        INSERT INTO sweat_equity_review_assignments (challenge_id, reviewer_id, wallet_addresses, weight)
+        VALUES ($1, $2, $3, $4)
+      `, [challengeId, reviewer.reviewerId, JSON.stringify(reviewer.walletAddresses), reviewer.weight]);
+    }
+
+    const review = await loadReview(client, challengeId);
+    await client.query('COMMIT');
+    return review as CommunityReview;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Record a panel member's vote; the signer must be one of the reviewer's linked wallets
+ * Returns the review, resolved if this vote decided it
+ */
+export async function castReviewVote(params: {
+  challengeId: number;
+  reviewer: string;
+  approve: boolean;
+  reason?: string;
+}): Promise<CommunityReview> {
+  const reviewer = params.reviewer.toLowerCase();
+
+  await ensureSchema();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    let review = await loadReview(client, params.challengeId, true);
+    if (!review) {
+      throw new RequestError('No community review for this challenge', 404);
+    }
+
+    review = await settleReview(client, review);
+    if (review.status !== 'pending') {
+      await client.query('COMMIT');
+      throw new RequestError(`Review is already ${review.status}`, 409);
+    }
+
+    const assignment = review.assignments.find(a => a.walletAddresses.includes(reviewer));
+    if (!assignment) {
+      throw new RequestError('Not a reviewer for this challenge', 403);
+    }
+
+    if (assignment.approve !== null) {
+      throw new RequestError('Already voted on this challenge', 409);
+    }
+
+    await client.query(`
+      UPDATE sweat_equity_review_assignments
+      SET approve = $3, reason = $4, voted_at = NOW()
+      WHERE challenge_id = $1 AND reviewer_id = $2
+    `, [params.challengeId, assignment.reviewerId, params.approve, params.reason?.trim().slice(0, MAX_REVIEW_REASON_LENGTH) || null]);
+
+    const updated = await loadReview(client, params.challengeId);
+    const settled = await settleReview(client, updated as CommunityReview);
+
+    await client.query('COMMIT');
+    return settled;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * A challenge's review, settling it first if its window has closed
+ */
+export async function getCommunityReview(challengeId: number): Promise<CommunityReview | null> {
+  await ensureSchema();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    const review = await loadReview(client, challengeId, true);
+    const settled = review ? await settleReview(client, review) : null;
+    await client.query('COMMIT');
+    return settled;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Whether a wallet is on the panel reviewing a challenge
+ */
+export async function isAssignedReviewer(challengeId: number, address: string): Promise<boolean> {
+  await ensureSchema();
+  const result = await pool.query(
+    'SELECT 1 FROM sweat_equity_review_assignments WHERE challenge_id = $1 AND wallet_addresses ? $2',
+    [challengeId, address.toLowerCase()]
+  );
+
+  return result.rows.length > 0;
+}
+
+/**
+ * Pending reviews a wallet has been assigned to and not yet voted on
+ */
+export async function getPendingReviewsFor(address: string): Promise<number[]> {
+  await ensureSchema();
+  const result = await pool.query(`
+    SELECT r.challenge_id
+    FROM sweat_equity_review_assignments a
+    JOIN sweat_equity_reviews r ON r.challenge_id = a.challenge_id
+    WHERE a.wallet_addresses ? $1 AND a.approve IS NULL
+      AND r.status = 'pending' AND r.expires_at > NOW()
+    ORDER BY r.expires_at ASC
+  `, [address.toLowerCase()]);
+
+  return result.rows.map(row => row.challenge_id);
+}
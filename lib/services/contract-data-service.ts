@@ -7,7 +7,7 @@
 import { ethers } from "ethers";
 import { type Prediction } from "../prediction-market-v2";
 import { fetchAllNetworksDataServer, type NetworkData } from "./blockchain-server";
-import { getAllChainPredictions, getChainPrediction, type ChainPrediction } from "./dual-chain-service";
+import { getMarketPredictions, getRecentMarketActivity } from "../prediction-index";
 
 // Types for enhanced contract data
 export interface LiveMarketData {
@@ -72,8 +72,8 @@ export async function getLiveMarketData(forceRefresh = false): Promise<LiveMarke
   try {
     console.log("🔄 Fetching fresh contract data for AI bot...");
 
-    // Fetch predictions from all chains
-    const chainPredictions = await getAllChainPredictions();
+    // Fetch predictions from all chains (event index, RPC for chains it hasn't reached)
+    const chainPredictions = await getMarketPredictions();
     // Convert to legacy format for compatibility
     const predictions: Prediction[] = chainPredictions.map(cp => ({
       id: cp.id,
@@ -101,7 +101,7 @@ export async function getLiveMarketData(forceRefresh = false): Promise<LiveMarke
     // Calculate metrics
     const metrics = calculateContractMetrics(predictions);
     const networkStats = calculateNetworkStats(networkData);
-    const recentActivity = generateRecentActivity(predictions);
+    const recentActivity = await getRecentActivity(predictions);
 
     const liveData: LiveMarketData = {
       predictions: predictions.filter(p => p.status === 0), // Active predictions only
@@ -183,7 +183,32 @@ function calculateNetworkStats(networkData: NetworkData): NetworkStats[] {
 }
 
 /**
- * Generate recent activity data (simulated for now, could be enhanced with event logs)
+ * Recent activity from indexed market events, or estimated from the predictions when the index is empty
+ */
+async function getRecentActivity(predictions: Prediction[]): Promise<MarketActivity[]> {
+  try {
+    const events = await getRecentMarketActivity(10);
+    if (events.length > 0) {
+      return events
+        .filter(event => event.type !== 'claim')
+        .map(event => ({
+          type: event.type as MarketActivity['type'],
+          predictionId: event.predictionId,
+          predictionTitle: event.predictionTitle,
+          amount: event.amountWei !== null ? Number(ethers.formatEther(event.amountWei)) : undefined,
+          timestamp: event.timestamp * 1000,
+          network: event.chain,
+        }));
+    }
+  } catch (error) {
+    console.error("⚠️ Indexed market activity unavailable:", error);
+  }
+
+  return generateRecentActivity(predictions);
+}
+
+/**
+ * Generate recent activity data from prediction totals (used until the event index has data)
  */
 function generateRecentActivity(predictions: Prediction[]): MarketActivity[] {
   const activities: MarketActivity[] = [];
@@ -228,7 +253,7 @@ function generateRecentActivity(predictions: Prediction[]): MarketActivity[] {
 export async function getMarketSummaryForBot(): Promise<string> {
   try {
     // Get predictions from both chains
-    const chainPredictions = await getAllChainPredictions();
+    const chainPredictions = await getMarketPredictions();
 
     if (chainPredictions.length === 0) {
       return "No active prediction markets found on either chain. You can suggest creating new predictions on CELO Mainnet or Base Sepolia!";
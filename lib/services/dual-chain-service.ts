@@ -120,130 +120,139 @@ export function getChainContract(
 /**
  * Get all predictions from both chains
  * Uses reliable ethers providers
+ * Scans getPrediction per ID; server code should prefer the event index (lib/prediction-index)
  */
 export async function getAllChainPredictions(): Promise<ChainPrediction[]> {
   const allPredictions: ChainPrediction[] = [];
 
-  for (const [chainKey, config] of Object.entries(CHAIN_CONFIG)) {
-    const chain = chainKey as SupportedChain;
+  for (const chain of Object.keys(CHAIN_CONFIG) as SupportedChain[]) {
+    allPredictions.push(...(await getChainPredictions(chain)));
+  }
 
-    try {
-      console.log(`🔄 Fetching predictions from ${config.name}...`);
-      const contract = getChainContract(chain);
+  return allPredictions;
+}
+
+/**
+ * Get all predictions from one chain by scanning getPrediction per ID
+ */
+export async function getChainPredictions(chain: SupportedChain): Promise<ChainPrediction[]> {
+  const allPredictions: ChainPrediction[] = [];
+  const config = CHAIN_CONFIG[chain];
 
-      // For Base mainnet, limit to recent SweatEquityBot-relevant predictions only
-      let totalPredictions = 0;
-      if (chain === "base") {
-        // Only show recent predictions to focus on SweatEquityBot innovation
-        totalPredictions = 10; // Limit Base to avoid showing old test predictions
+  try {
+    console.log(`🔄 Fetching predictions from ${config.name}...`);
+    const contract = getChainContract(chain);
+
+    // For Base mainnet, limit to recent SweatEquityBot-relevant predictions only
+    let totalPredictions = 0;
+    if (chain === "base") {
+      // Only show recent predictions to focus on SweatEquityBot innovation
+      totalPredictions = 10; // Limit Base to avoid showing old test predictions
+      console.log(
+        `🎯 ${config.name} - limiting to ${totalPredictions} recent predictions for SweatEquityBot focus`
+      );
+    } else {
+      try {
+        // Try to get the prediction count from contract (if available)
+        const contractTotal = await contract.getTotalPredictions();
+        totalPredictions = Number(contractTotal.toString()); // Convert BigInt to number
         console.log(
-          `🎯 ${config.name} - limiting to ${totalPredictions} recent predictions for SweatEquityBot focus`
+          `📊 ${config.name} has ${totalPredictions} total predictions`
         );
-      } else {
-        try {
-          // Try to get the prediction count from contract (if available)
-          const contractTotal = await contract.getTotalPredictions();
-          totalPredictions = Number(contractTotal.toString()); // Convert BigInt to number
-          console.log(
-            `📊 ${config.name} has ${totalPredictions} total predictions`
-          );
-        } catch (error) {
-          // Fallback: scan for predictions up to a reasonable limit
+      } catch (error) {
+        // Fallback: scan for predictions up to a reasonable limit
+        console.log(
+          `⚠️ No getTotalPredictions() method, scanning for predictions...`
+        );
+        totalPredictions = 100; // Increased scan limit to catch more predictions
+      }
+    }
+
+    // Fetch all predictions dynamically - scan more comprehensively
+    // Start from ID 1 since our contract predictions start from 1, not 0
+    const maxId = Math.max(totalPredictions, 50); // Ensure we scan at least 50 IDs
+    let foundPredictions = 0;
+    let consecutiveFailures = 0;
+
+    for (let id = 1; id <= maxId; id++) {
+      try {
+        const prediction = await contract.getPrediction(id);
+
+        const chainPrediction: ChainPrediction = {
+          id: Number(prediction.id.toString()),
+          chain,
+          creator: prediction.creator,
+          title: prediction.title,
+          description: prediction.description,
+          targetDate: Number(prediction.targetDate.toString()),
+          targetValue: Number(prediction.targetValue.toString()),
+          currentValue: Number(prediction.currentValue.toString()),
+          category: Number(prediction.category.toString()),
+          network: prediction.network,
+          emoji: prediction.emoji,
+          totalStaked: Number(ethers.formatEther(prediction.totalStaked)),
+          yesVotes: Number(ethers.formatEther(prediction.yesVotes)),
+          noVotes: Number(ethers.formatEther(prediction.noVotes)),
+          status: Number(prediction.status.toString()),
+          outcome: Number(prediction.outcome.toString()),
+          createdAt: Number(prediction.createdAt.toString()),
+          autoResolvable: prediction.autoResolvable,
+          chainMetadata: {
+            currency: config.nativeCurrency.symbol,
+            explorerUrl: config.blockExplorer,
+            isProduction: config.isProduction,
+          },
+        };
+
+        allPredictions.push(chainPrediction);
+        foundPredictions++;
+        consecutiveFailures = 0; // Reset failure counter
+      } catch (error) {
+        consecutiveFailures++;
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+
+        // If we hit 5 consecutive failures and haven't found any predictions, likely no predictions exist
+        if (consecutiveFailures >= 5 && foundPredictions === 0) {
           console.log(
-            `⚠️ No getTotalPredictions() method, scanning for predictions...`
+            `📍 No predictions found after ${consecutiveFailures} attempts on ${config.name}`
           );
-          totalPredictions = 100; // Increased scan limit to catch more predictions
+          break;
         }
-      }
-
-      // Fetch all predictions dynamically - scan more comprehensively
-      // Start from ID 1 since our contract predictions start from 1, not 0
-      const maxId = Math.max(totalPredictions, 50); // Ensure we scan at least 50 IDs
-      let foundPredictions = 0;
-      let consecutiveFailures = 0;
-
-      for (let id = 1; id <= maxId; id++) {
-        try {
-          const prediction = await contract.getPrediction(id);
-
-          const chainPrediction: ChainPrediction = {
-            id: Number(prediction.id.toString()),
-            chain,
-            creator: prediction.creator,
-            title: prediction.title,
-            description: prediction.description,
-            targetDate: Number(prediction.targetDate.toString()),
-            targetValue: Number(prediction.targetValue.toString()),
-            currentValue: Number(prediction.currentValue.toString()),
-            category: Number(prediction.category.toString()),
-            network: prediction.network,
-            emoji: prediction.emoji,
-            totalStaked: Number(ethers.formatEther(prediction.totalStaked)),
-            yesVotes: Number(ethers.formatEther(prediction.yesVotes)),
-            noVotes: Number(ethers.formatEther(prediction.noVotes)),
-            status: Number(prediction.status.toString()),
-            outcome: Number(prediction.outcome.toString()),
-            createdAt: Number(prediction.createdAt.toString()),
-            autoResolvable: prediction.autoResolvable,
-            chainMetadata: {
-              currency: config.nativeCurrency.symbol,
-              explorerUrl: config.blockExplorer,
-              isProduction: config.isProduction,
-            },
-          };
-
-          allPredictions.push(chainPrediction);
-          foundPredictions++;
-          consecutiveFailures = 0; // Reset failure counter
-        } catch (error) {
-          consecutiveFailures++;
-          const errorMessage =
-            error instanceof Error ? error.message : String(error);
-
-          // If we hit 5 consecutive failures and haven't found any predictions, likely no predictions exist
-          if (consecutiveFailures >= 5 && foundPredictions === 0) {
-            console.log(
-              `📍 No predictions found after ${consecutiveFailures} attempts on ${config.name}`
-            );
-            break;
-          }
-
-          // If we've found predictions but hit 3 consecutive failures, we've likely reached the end
-          if (consecutiveFailures >= 3 && foundPredictions > 0) {
-            console.log(
-              `📍 Reached end of predictions at ID ${
-                id - consecutiveFailures
-              } on ${config.name}`
-            );
-            break;
-          }
-
-          if (
-            errorMessage?.includes("revert") ||
-            errorMessage?.includes("invalid")
-          ) {
-            // This is expected for non-existent predictions, continue scanning
-            continue;
-          }
 
+        // If we've found predictions but hit 3 consecutive failures, we've likely reached the end
+        if (consecutiveFailures >= 3 && foundPredictions > 0) {
           console.log(
-            `⚠️ Error fetching prediction ${id} on ${config.name}:`,
-            errorMessage
+            `📍 Reached end of predictions at ID ${
+              id - consecutiveFailures
+            } on ${config.name}`
           );
+          break;
         }
-      }
 
-      console.log(
-        `✅ Found ${
-          allPredictions.filter((p) => p.chain === chain).length
-        } predictions on ${config.name}`
-      );
-    } catch (error) {
-      console.error(
-        `❌ Error fetching predictions from ${config.name}:`,
-        error
-      );
+        if (
+          errorMessage?.includes("revert") ||
+          errorMessage?.includes("invalid")
+        ) {
+          // This is expected for non-existent predictions, continue scanning
+          continue;
+        }
+
+        console.log(
+          `⚠️ Error fetching prediction ${id} on ${config.name}:`,
+          errorMessage
+        );
+      }
     }
+
+    console.log(
+      `✅ Found ${allPredictions.length} predictions on ${config.name}`
+    );
+  } catch (error) {
+    console.error(
+      `❌ Error fetching predictions from ${config.name}:`,
+      error
+    );
   }
 
   return allPredictions;
@@ -0,0 +1,128 @@
+/**
+ * Exercise Totals
+ * Postgres-backed lifetime totals per user and exercise (see lib/exercises.ts), keyed by Farcaster ID like user_streaks
+ * Each source keeps its own row: the leaderboard sync overwrites absolute on-chain counts,
+ * imported workouts are re-summed after every import
+ */
+
+import type { PoolClient } from 'pg';
+import pool from '../db';
+import { ensureSchema } from '../migrations/runner';
+import { EXERCISES, isExerciseId, toEffortPoints, type ExerciseId } from '../exercises';
+
+export type ExerciseTotalSource = 'leaderboard' | 'workouts';
+
+export interface ExerciseTotal {
+  exerciseId: ExerciseId;
+  amount: number;
+  effortPoints: number;
+  sources: Partial<Record<ExerciseTotalSource, number>>;
+}
+
+export interface UserExerciseTotals {
+  userId: string;
+  exercises: ExerciseTotal[];
+  effortPoints: number;
+}
+
+/**
+ * Group per-source rows into per-exercise totals; rows for exercises the registry no longer knows are dropped
+ */
+export function summarizeExerciseTotals(
+  userId: string,
+  rows: { exercise_id: string; source: string; amount: number | string }[]
+): UserExerciseTotals {
+  const byExercise = new Map<ExerciseId, ExerciseTotal>();
+
+  for (const row of rows) {
+    if (!isExerciseId(row.exercise_id)) {
+      continue;
+    }
+
+    const total = byExercise.get(row.exercise_id) || {
+      exerciseId: row.exercise_id,
+      amount: 0,
+      effortPoints: 0,
+      sources: {},
+    };
+    total.amount += Number(row.amount);
+    total.sources[row.source as ExerciseTotalSource] = Number(row.amount);
+    byExercise.set(row.exercise_id, total);
+  }
+
+  const exercises = [...byExercise.values()]
+    .map(total => ({ ...total, effortPoints: toEffortPoints(total.exerciseId, total.amount) }))
+    .sort((a, b) => b.effortPoints - a.effortPoints);
+
+  return {
+    userId,
+    exercises,
+    effortPoints: Math.round(exercises.reduce((sum, e) => sum + e.effortPoints, 0) * 100) / 100,
+  };
+}
+
+/**
+ * Replace a source's totals for the given exercises
+ * Pass the caller's client to write inside its connection
+ */
+export async function setExerciseTotals(
+  userId: string,
+  source: ExerciseTotalSource,
+  totals: Partial<Record<ExerciseId, number>>,
+  client?: PoolClient
+): Promise<void> {
+  await ensureSchema();
+
+  const entries = Object.entries(totals).filter(([, amount]) => Number.isFinite(amount));
+  if (entries.length === 0) {
+    return;
+  }
+
+  const sql = `
+    INSERT INTO user_exercise_totals (user_id, exercise_id, source, amount, updated_at)
+    SELECT $1, exercise_id, $2, amount, NOW()
+    FROM UNNEST($3::text[], $4::double precision[]) AS t(exercise_id, amount)
+    ON CONFLICT (user_id, exercise_id, source)
+    DO UPDATE SET amount = EXCLUDED.amount, updated_at = NOW()
+  `;
+  const values = [userId, source, entries.map(([id]) => id), entries.map(([, amount]) => amount)];
+
+  if (client) {
+    await client.query(sql, values);
+  } else {
+    await pool.query(sql, values);
+  }
+}
+
+/**
+ * Re-sum a user's plausible imported workouts into their distance exercise totals
+ */
+export async function refreshWorkoutExerciseTotals(userId: string): Promise<void> {
+  await ensureSchema();
+  const result = await pool.query(`
+    SELECT sport, COALESCE(SUM(distance_meters), 0) AS distance_meters
+    FROM imported_workouts
+    WHERE user_id = $1 AND plausible
+    GROUP BY sport
+  `, [userId]);
+
+  const totals: Partial<Record<ExerciseId, number>> = {};
+  for (const exercise of Object.values(EXERCISES)) {
+    if (exercise.workoutSport) {
+      const row = result.rows.find(r => r.sport === exercise.workoutSport);
+      totals[exercise.id] = row ? Number(row.distance_meters) : 0;
+    }
+  }
+
+  await setExerciseTotals(userId, 'workouts', totals);
+}
+
+export async function getExerciseTotals(userId: string): Promise<UserExerciseTotals> {
+  await ensureSchema();
+  const result = await pool.query(
+    'SELECT exercise_id, source, amount FROM user_exercise_totals WHERE user_id = $1',
+    [userId]
+  );
+
+  return summarizeExerciseTotals(userId, result.rows);
+}
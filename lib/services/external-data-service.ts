@@ -26,35 +26,184 @@ export interface SportsData {
   source: string;
 }
 
+// Injectable HTTP client so price sources can be exercised against local fixtures
+export type HttpFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+interface PriceQuote {
+  price: number;
+  timestamp: number;
+  raw: unknown;
+}
+
+interface PriceSource {
+  name: string;
+  confidence: number;
+  isConfigured: () => boolean;
+  fetchQuote: (symbol: string, fetchImpl: HttpFetch) => Promise<PriceQuote | null>;
+}
+
+export interface PriceSourceResponse {
+  source: string;
+  price: number | null;
+  timestamp: number | null;
+  fetchedAt: number;
+  raw: unknown;
+  error?: string;
+}
+
+export interface PriceConsensus {
+  symbol: string;
+  price: number; // Median of the accepted sources
+  timestamp: number;
+  confidence: number; // Share of configured sources that agree with the median
+  maxDeviation: number;
+  accepted: string[];
+  rejected: string[];
+  responses: PriceSourceResponse[];
+}
+
+export interface PriceConsensusOptions {
+  maxDeviation?: number; // Fractional distance from the median, e.g. 0.02 = 2%
+  fetchImpl?: HttpFetch;
+  sources?: string[];
+}
+
+const DEFAULT_MAX_PRICE_DEVIATION = parseFloat(process.env.PRICE_CONSENSUS_MAX_DEVIATION || '0.02');
+
+const PRICE_SOURCES: PriceSource[] = [
+  {
+    name: 'coingecko',
+    confidence: 0.95,
+    isConfigured: () => true,
+    fetchQuote: getCoinGeckoPrice
+  },
+  {
+    name: 'coinmarketcap',
+    confidence: 0.98,
+    isConfigured: () => !!process.env.COINMARKETCAP_API_KEY,
+    fetchQuote: getCoinMarketCapPrice
+  },
+  {
+    name: 'binance',
+    confidence: 0.90,
+    isConfigured: () => true,
+    fetchQuote: getBinancePrice
+  }
+];
+
 /**
- * Get cryptocurrency price from multiple sources
+ * Get cryptocurrency price from multiple sources (first one that answers wins)
  */
-export async function getCryptoPriceData(symbol: string): Promise<PriceData | null> {
-  const sources = [
-    () => getCoinGeckoPrice(symbol),
-    () => getCoinMarketCapPrice(symbol),
-    () => getBinancePrice(symbol)
-  ];
-
-  for (const source of sources) {
+export async function getCryptoPriceData(
+  symbol: string,
+  fetchImpl: HttpFetch = fetch
+): Promise<PriceData | null> {
+  for (const source of PRICE_SOURCES) {
+    if (!source.isConfigured()) continue;
+
     try {
-      const data = await source();
-      if (data) return data;
+      const quote = await source.fetchQuote(symbol, fetchImpl);
+      if (quote) {
+        return {
+          symbol: symbol.toUpperCase(),
+          price: quote.price,
+          timestamp: quote.timestamp,
+          source: source.name,
+          confidence: source.confidence
+        };
+      }
     } catch (error) {
-      console.warn(`Price source failed for ${symbol}:`, error);
+      console.warn(`Price source ${source.name} failed for ${symbol}:`, error);
     }
   }
 
   return null;
 }
 
+/**
+ * Query every configured price source and agree on a single price
+ * Outliers beyond maxDeviation from the median are rejected, and the raw
+ * response from each source is kept so a disputed resolution can be audited
+ */
+export async function getCryptoPriceConsensus(
+  symbol: string,
+  options: PriceConsensusOptions = {}
+): Promise<PriceConsensus | null> {
+  const fetchImpl = options.fetchImpl || fetch;
+  const maxDeviation = options.maxDeviation ?? DEFAULT_MAX_PRICE_DEVIATION;
+  const sources = PRICE_SOURCES.filter(
+    (source) =>
+      source.isConfigured() && (!options.sources || options.sources.includes(source.name))
+  );
+
+  const responses: PriceSourceResponse[] = await Promise.all(
+    sources.map(async (source) => {
+      const fetchedAt = Math.floor(Date.now() / 1000);
+      try {
+        const quote = await source.fetchQuote(symbol, fetchImpl);
+        return {
+          source: source.name,
+          price: quote?.price ?? null,
+          timestamp: quote?.timestamp ?? null,
+          fetchedAt,
+          raw: quote?.raw ?? null,
+          error: quote ? undefined : 'No price returned'
+        };
+      } catch (error) {
+        return {
+          source: source.name,
+          price: null,
+          timestamp: null,
+          fetchedAt,
+          raw: null,
+          error: error instanceof Error ? error.message : String(error)
+        };
+      }
+    })
+  );
+
+  const priced = responses.filter(
+    (r): r is PriceSourceResponse & { price: number } =>
+      typeof r.price === 'number' && Number.isFinite(r.price) && r.price > 0
+  );
+  if (priced.length === 0) {
+    return null;
+  }
+
+  const initialMedian = median(priced.map((r) => r.price));
+  const accepted = priced.filter(
+    (r) => Math.abs(r.price - initialMedian) / initialMedian <= maxDeviation
+  );
+  const acceptedNames = accepted.map((r) => r.source);
+
+  // No source sits near the median (e.g. two sources that disagree): report it with zero agreement
+  const agreed = accepted.length > 0 ? accepted : priced;
+
+  return {
+    symbol: symbol.toUpperCase(),
+    price: median(agreed.map((r) => r.price)),
+    timestamp: Math.max(...agreed.map((r) => r.timestamp ?? r.fetchedAt)),
+    confidence: accepted.length / sources.length,
+    maxDeviation,
+    accepted: acceptedNames,
+    rejected: responses.map((r) => r.source).filter((name) => !acceptedNames.includes(name)),
+    responses
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
 /**
  * CoinGecko API integration
  */
-async function getCoinGeckoPrice(symbol: string): Promise<PriceData | null> {
+async function getCoinGeckoPrice(symbol: string, fetchImpl: HttpFetch): Promise<PriceQuote | null> {
   try {
     const coinId = getCoinGeckoId(symbol);
-    const response = await fetch(
+    const response = await fetchImpl(
       `https://api.coingecko.com/api/v3/simple/price?ids=${coinId}&vs_currencies=usd&include_last_updated_at=true`,
       {
         headers: {
@@ -73,11 +222,9 @@ async function getCoinGeckoPrice(symbol: string): Promise<PriceData | null> {
     if (!coinData) return null;
 
     return {
-      symbol: symbol.toUpperCase(),
       price: coinData.usd,
       timestamp: coinData.last_updated_at,
-      source: 'coingecko',
-      confidence: 0.95
+      raw: data
     };
   } catch (error) {
     console.warn('CoinGecko API failed:', error);
@@ -88,12 +235,12 @@ async function getCoinGeckoPrice(symbol: string): Promise<PriceData | null> {
 /**
  * CoinMarketCap API integration (requires API key)
  */
-async function getCoinMarketCapPrice(symbol: string): Promise<PriceData | null> {
+async function getCoinMarketCapPrice(symbol: string, fetchImpl: HttpFetch): Promise<PriceQuote | null> {
   const apiKey = process.env.COINMARKETCAP_API_KEY;
   if (!apiKey) return null;
 
   try {
-    const response = await fetch(
+    const response = await fetchImpl(
       `https://pro-api.coinmarketcap.com/v1/cryptocurrency/quotes/latest?symbol=${symbol.toUpperCase()}`,
       {
         headers: {
@@ -112,11 +259,9 @@ async function getCoinMarketCapPrice(symbol: string): Promise<PriceData | null>
     if (!coinData) return null;
 
     return {
-      symbol: symbol.toUpperCase(),
       price: coinData.quote.USD.price,
       timestamp: Math.floor(new Date(coinData.last_updated).getTime() / 1000),
-      source: 'coinmarketcap',
-      confidence: 0.98
+      raw: data
     };
   } catch (error) {
     console.warn('CoinMarketCap API failed:', error);
@@ -127,10 +272,10 @@ async function getCoinMarketCapPrice(symbol: string): Promise<PriceData | null>
 /**
  * Binance API integration (public endpoint)
  */
-async function getBinancePrice(symbol: string): Promise<PriceData | null> {
+async function getBinancePrice(symbol: string, fetchImpl: HttpFetch): Promise<PriceQuote | null> {
   try {
     const tradingPair = `${symbol.toUpperCase()}USDT`;
-    const response = await fetch(
+    const response = await fetchImpl(
       `https://api.binance.com/api/v3/ticker/price?symbol=${tradingPair}`,
       {
         signal: AbortSignal.timeout(10000)
@@ -142,11 +287,9 @@ async function getBinancePrice(symbol: string): Promise<PriceData | null> {
     const data = await response.json();
 
     return {
-      symbol: symbol.toUpperCase(),
       price: parseFloat(data.price),
       timestamp: Math.floor(Date.now() / 1000),
-      source: 'binance',
-      confidence: 0.90
+      raw: data
     };
   } catch (error) {
     console.warn('Binance API failed:', error);
@@ -154,6 +297,228 @@ async function getBinancePrice(symbol: string): Promise<PriceData | null> {
   }
 }
 
+export interface PriceCandle {
+  symbol: string;
+  source: string;
+  openTime: number; // Unix seconds
+  closeTime: number; // Unix seconds
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+  raw: unknown;
+}
+
+export interface CandleCrossCheck {
+  source: string;
+  candle: PriceCandle | null;
+  agrees: boolean; // The primary close sits inside this candle's range, give or take maxDeviation
+  error?: string;
+}
+
+export interface HistoricalPriceResult {
+  candle: PriceCandle;
+  requestedAt: number;
+  exact: boolean; // The candle spans the requested timestamp
+  offsetSeconds: number; // Distance from the requested timestamp when not exact
+  closed: boolean; // False while the candle is still forming
+  confidence: number;
+  crossChecks: CandleCrossCheck[]; // Every other candle source, so a disputed resolution can be audited
+}
+
+export interface HistoricalPriceOptions {
+  toleranceSeconds?: number; // How far away the nearest candle may be
+  maxDeviation?: number; // Fractional slack around the cross-check candle's range
+  fetchImpl?: HttpFetch;
+}
+
+export const PRICE_HISTORY_TOLERANCE_SECONDS = parseInt(
+  process.env.PRICE_HISTORY_TOLERANCE_SECONDS || '3600'
+);
+
+const CANDLE_SOURCES = [
+  { name: 'binance', confidence: 0.95, fetchCandles: getBinanceCandles },
+  { name: 'coingecko', confidence: 0.9, fetchCandles: getCoinGeckoCandles }
+];
+
+/**
+ * Get the OHLC candle covering a timestamp, falling back to the nearest candle
+ * within the tolerance window when no candle spans it exactly
+ * Every candle source is asked: the first match sets the price and the others cross-check it,
+ * so confidence scales with the share of sources that agree, like the spot price consensus
+ */
+export async function getHistoricalPriceCandle(
+  symbol: string,
+  timestamp: number,
+  options: HistoricalPriceOptions = {}
+): Promise<HistoricalPriceResult | null> {
+  const fetchImpl = options.fetchImpl || fetch;
+  const toleranceSeconds = options.toleranceSeconds ?? PRICE_HISTORY_TOLERANCE_SECONDS;
+  const maxDeviation = options.maxDeviation ?? DEFAULT_MAX_PRICE_DEVIATION;
+
+  const matches = await Promise.all(
+    CANDLE_SOURCES.map(async (source) => {
+      try {
+        const candles = await source.fetchCandles(symbol, timestamp, toleranceSeconds, fetchImpl);
+        return { source, match: pickCandle(candles, timestamp, toleranceSeconds) };
+      } catch (error) {
+        console.warn(`Historical price source ${source.name} failed for ${symbol}:`, error);
+        return { source, match: null, error: error instanceof Error ? error.message : String(error) };
+      }
+    })
+  );
+
+  const primary = matches.find((m) => m.match);
+  if (!primary?.match) return null;
+
+  const now = Math.floor(Date.now() / 1000);
+  const { candle, exact, offsetSeconds } = primary.match;
+
+  const crossChecks: CandleCrossCheck[] = matches
+    .filter((m) => m !== primary)
+    .map((m) => ({
+      source: m.source.name,
+      candle: m.match?.candle ?? null,
+      agrees: !!m.match &&
+        candle.close >= m.match.candle.low * (1 - maxDeviation) &&
+        candle.close <= m.match.candle.high * (1 + maxDeviation),
+      error: m.match ? undefined : m.error ?? 'No candle near the timestamp'
+    }));
+  const agreeing = 1 + crossChecks.filter((c) => c.agrees).length;
+
+  // Nearest-candle fallbacks lose confidence the further away they are
+  const sourceConfidence = exact
+    ? primary.source.confidence
+    : primary.source.confidence * (1 - 0.5 * (offsetSeconds / Math.max(toleranceSeconds, 1)));
+
+  return {
+    candle,
+    requestedAt: timestamp,
+    exact,
+    offsetSeconds,
+    closed: candle.closeTime <= now,
+    confidence: sourceConfidence * (agreeing / CANDLE_SOURCES.length),
+    crossChecks
+  };
+}
+
+/**
+ * Pick the candle spanning the timestamp, or the nearest one within tolerance
+ */
+function pickCandle(
+  candles: PriceCandle[],
+  timestamp: number,
+  toleranceSeconds: number
+): { candle: PriceCandle; exact: boolean; offsetSeconds: number } | null {
+  const spanning = candles.find((c) => c.openTime <= timestamp && timestamp <= c.closeTime);
+  if (spanning) {
+    return { candle: spanning, exact: true, offsetSeconds: 0 };
+  }
+
+  let nearest: { candle: PriceCandle; exact: boolean; offsetSeconds: number } | null = null;
+  for (const candle of candles) {
+    const offsetSeconds = timestamp < candle.openTime
+      ? candle.openTime - timestamp
+      : timestamp - candle.closeTime;
+
+    if (offsetSeconds <= toleranceSeconds && (!nearest || offsetSeconds < nearest.offsetSeconds)) {
+      nearest = { candle, exact: false, offsetSeconds };
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Binance klines (minute candles when the tolerance allows, hourly otherwise)
+ */
+async function getBinanceCandles(
+  symbol: string,
+  timestamp: number,
+  toleranceSeconds: number,
+  fetchImpl: HttpFetch
+): Promise<PriceCandle[]> {
+  const tradingPair = `${symbol.toUpperCase()}USDT`;
+  const interval = toleranceSeconds <= 12 * 3600 ? '1m' : '1h';
+  const startTime = (timestamp - toleranceSeconds) * 1000;
+  const endTime = (timestamp + toleranceSeconds) * 1000;
+
+  const response = await fetchImpl(
+    `https://api.binance.com/api/v3/klines?symbol=${tradingPair}&interval=${interval}&startTime=${startTime}&endTime=${endTime}&limit=1000`,
+    {
+      signal: AbortSignal.timeout(10000)
+    }
+  );
+
+  if (!response.ok) return [];
+
+  const data = await response.json();
+  if (!Array.isArray(data)) return [];
+
+  return data.map((kline: any[]) => ({
+    symbol: symbol.toUpperCase(),
+    source: 'binance',
+    openTime: Math.floor(Number(kline[0]) / 1000),
+    closeTime: Math.floor(Number(kline[6]) / 1000),
+    open: parseFloat(kline[1]),
+    high: parseFloat(kline[2]),
+    low: parseFloat(kline[3]),
+    close: parseFloat(kline[4]),
+    volume: parseFloat(kline[5]),
+    raw: kline
+  }));
+}
+
+/**
+ * CoinGecko OHLC (coarse: 30m candles for the last day, 4h up to a month, 4d beyond)
+ */
+async function getCoinGeckoCandles(
+  symbol: string,
+  timestamp: number,
+  _toleranceSeconds: number,
+  fetchImpl: HttpFetch
+): Promise<PriceCandle[]> {
+  const coinId = getCoinGeckoId(symbol);
+  const ageDays = (Date.now() / 1000 - timestamp) / 86400;
+  const days = [1, 7, 14, 30, 90, 180, 365].find((d) => d >= ageDays + 1);
+  if (!days) return [];
+
+  const granularitySeconds = days <= 2 ? 1800 : days <= 30 ? 4 * 3600 : 4 * 86400;
+
+  const response = await fetchImpl(
+    `https://api.coingecko.com/api/v3/coins/${coinId}/ohlc?vs_currency=usd&days=${days}`,
+    {
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'Imperfect-Form/1.0'
+      },
+      signal: AbortSignal.timeout(10000)
+    }
+  );
+
+  if (!response.ok) return [];
+
+  const data = await response.json();
+  if (!Array.isArray(data)) return [];
+
+  // CoinGecko timestamps mark the candle close
+  return data.map((row: number[]) => {
+    const closeTime = Math.floor(row[0] / 1000);
+    return {
+      symbol: symbol.toUpperCase(),
+      source: 'coingecko',
+      openTime: closeTime - granularitySeconds,
+      closeTime,
+      open: row[1],
+      high: row[2],
+      low: row[3],
+      close: row[4],
+      raw: row
+    };
+  });
+}
+
 /**
  * Get weather data for location-based predictions
  */
@@ -204,6 +569,7 @@ function getCoinGeckoId(symbol: string): string {
     'BTC': 'bitcoin',
     'ETH': 'ethereum',
     'CELO': 'celo',
+    'BNB': 'binancecoin',
     'MATIC': 'matic-network',
     'USDC': 'usd-coin',
     'USDT': 'tether',
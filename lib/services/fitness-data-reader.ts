@@ -0,0 +1,267 @@
+/**
+ * Fitness Data Reader
+ * Reads exercise counts from the per-network fitness leaderboard contracts
+ * Every read is pinned to a block number so the same query always yields the same proof hash
+ */
+
+import { ethers } from "ethers";
+import { fitnessLeaderboardABI, RPC_URLS } from "../constants";
+import { CONTRACT_ADDRESSES, type Score } from "./blockchain-server";
+import { EXERCISES, normalizeExerciseId, type ExerciseDefinition } from "../exercises";
+
+// Exercises tracked by the leaderboard contracts
+export type TrackedExercise = NonNullable<ExerciseDefinition["leaderboardField"]> | "total-exercises";
+
+export interface FitnessNetworkSource {
+  contractAddress: string;
+  rpcUrls: string[];
+}
+
+export interface FitnessReadQuery {
+  addresses: string[];
+  exerciseType: string;
+  windowStart: number; // Unix seconds, inclusive
+  windowEnd: number; // Unix seconds, inclusive
+  networks?: string[];
+  // Pin reads to specific blocks (per network) to reproduce an earlier reading
+  blockTags?: Record<string, number>;
+}
+
+export interface FitnessNetworkReading {
+  network: string;
+  contractAddress: string;
+  blockNumber: number | null;
+  amount: number;
+  entries: number;
+  ok: boolean;
+  error?: string;
+}
+
+export interface FitnessReading {
+  addresses: string[];
+  exerciseType: string;
+  windowStart: number;
+  windowEnd: number;
+  amount: number;
+  networks: FitnessNetworkReading[];
+  confidence: number; // 0-1
+  proofHash: string;
+}
+
+export interface FitnessDataReader {
+  read(query: FitnessReadQuery): Promise<FitnessReading>;
+}
+
+/**
+ * Map free-form exercise names onto the fields the contracts actually store
+ */
+export function normalizeTrackedExercise(exerciseType: string): TrackedExercise | null {
+  const exerciseId = normalizeExerciseId(exerciseType);
+  if (exerciseId) {
+    return EXERCISES[exerciseId].leaderboardField;
+  }
+
+  const normalized = exerciseType.toLowerCase().replace(/[\s_-]/g, "");
+  if (["totalexercises", "total", "exercises", "reps"].includes(normalized)) {
+    return "total-exercises";
+  }
+
+  return null;
+}
+
+/**
+ * Count the reps of a tracked exercise in a single leaderboard entry
+ */
+function countForExercise(score: Score, exercise: TrackedExercise): number {
+  switch (exercise) {
+    case "pushups":
+      return score.pushups;
+    case "squats":
+      return score.squats;
+    case "total-exercises":
+      return score.pushups + score.squats;
+  }
+}
+
+/**
+ * Build a reproducible hash over everything that determined a reading
+ */
+export function computeFitnessProofHash(
+  reading: Omit<FitnessReading, "proofHash" | "confidence">
+): string {
+  const canonical = {
+    addresses: [...reading.addresses].map((a) => a.toLowerCase()).sort(),
+    exerciseType: reading.exerciseType,
+    windowStart: reading.windowStart,
+    windowEnd: reading.windowEnd,
+    amount: reading.amount,
+    networks: [...reading.networks]
+      .sort((a, b) => a.network.localeCompare(b.network))
+      .map((n) => ({
+        network: n.network,
+        contractAddress: n.contractAddress.toLowerCase(),
+        blockNumber: n.blockNumber,
+        amount: n.amount,
+        entries: n.entries,
+        ok: n.ok,
+      })),
+  };
+
+  return ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(canonical)));
+}
+
+/**
+ * Reads fitness data directly from the leaderboard contracts
+ * Sources default to the same contracts fetchAllNetworksDataServer uses,
+ * but can be swapped for a local Hardhat node in tests
+ */
+export class OnChainFitnessReader implements FitnessDataReader {
+  private sources: Record<string, FitnessNetworkSource>;
+
+  constructor(sources?: Record<string, FitnessNetworkSource>) {
+    this.sources =
+      sources ||
+      Object.fromEntries(
+        Object.entries(CONTRACT_ADDRESSES).map(([network, contractAddress]) => [
+          network,
+          {
+            contractAddress,
+            rpcUrls: RPC_URLS[network as keyof typeof RPC_URLS],
+          },
+        ])
+      );
+  }
+
+  getNetworks(): string[] {
+    return Object.keys(this.sources);
+  }
+
+  async read(query: FitnessReadQuery): Promise<FitnessReading> {
+    const exercise = normalizeTrackedExercise(query.exerciseType);
+    const networks = (query.networks || this.getNetworks()).filter(
+      (network) => this.sources[network]
+    );
+    const addresses = query.addresses.map((a) => a.toLowerCase());
+
+    const networkReadings = await Promise.all(
+      networks.map((network) =>
+        this.readNetwork(network, addresses, exercise, query)
+      )
+    );
+
+    const amount = networkReadings.reduce((sum, n) => sum + n.amount, 0);
+    const succeeded = networkReadings.filter((n) => n.ok).length;
+
+    // Unsupported exercises can't be verified on-chain at all
+    const confidence =
+      exercise && networkReadings.length > 0
+        ? succeeded / networkReadings.length
+        : 0;
+
+    const reading = {
+      addresses,
+      exerciseType: exercise || query.exerciseType,
+      windowStart: query.windowStart,
+      windowEnd: query.windowEnd,
+      amount,
+      networks: networkReadings,
+    };
+
+    return {
+      ...reading,
+      confidence,
+      proofHash: computeFitnessProofHash(reading),
+    };
+  }
+
+  /**
+   * Read a single network, trying each RPC URL in turn
+   */
+  private async readNetwork(
+    network: string,
+    addresses: string[],
+    exercise: TrackedExercise | null,
+    query: FitnessReadQuery
+  ): Promise<FitnessNetworkReading> {
+    const source = this.sources[network];
+    const result: FitnessNetworkReading = {
+      network,
+      contractAddress: source.contractAddress,
+      blockNumber: null,
+      amount: 0,
+      entries: 0,
+      ok: false,
+    };
+
+    if (!exercise) {
+      result.error = `Exercise "${query.exerciseType}" is not tracked on-chain`;
+      return result;
+    }
+
+    for (const rpcUrl of source.rpcUrls) {
+      try {
+        const provider = new ethers.JsonRpcProvider(rpcUrl);
+        const contract = new ethers.Contract(
+          source.contractAddress,
+          fitnessLeaderboardABI,
+          provider
+        );
+
+        const blockNumber =
+          query.blockTags?.[network] ?? (await provider.getBlockNumber());
+        const data = await contract.getLeaderboard({ blockTag: blockNumber });
+
+        let amount = 0;
+        let entries = 0;
+        for (const item of data) {
+          const score: Score = {
+            user: item.user,
+            pushups: Number(item.pushups),
+            squats: Number(item.squats),
+            timestamp: Number(item.timestamp),
+          };
+
+          if (
+            addresses.includes(score.user.toLowerCase()) &&
+            score.timestamp >= query.windowStart &&
+            score.timestamp <= query.windowEnd
+          ) {
+            amount += countForExercise(score, exercise);
+            entries++;
+          }
+        }
+
+        return { ...result, blockNumber, amount, entries, ok: true };
+      } catch (error) {
+        console.error(
+          `[FitnessReader] Error reading ${network} via ${rpcUrl}:`,
+          error
+        );
+        result.error = error instanceof Error ? error.message : String(error);
+        // Continue to next RPC URL
+      }
+    }
+
+    return result;
+  }
+}
+
+// Default reader used by the oracle and resolution services
+let defaultReader: FitnessDataReader = new OnChainFitnessReader();
+
+export function getFitnessDataReader(): FitnessDataReader {
+  return defaultReader;
+}
+
+/**
+ * Swap the reader (e.g. for a local Hardhat node or a fixture-backed fake)
+ */
+export function setFitnessDataReader(reader: FitnessDataReader): void {
+  defaultReader = reader;
+}
+
+export const createOnChainFitnessReader = (
+  sources?: Record<string, FitnessNetworkSource>
+) => {
+  return new OnChainFitnessReader(sources);
+};
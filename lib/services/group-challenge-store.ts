@@ -0,0 +1,251 @@
+/**
+ * Group Challenge Store
+ * Postgres-backed state for group fitness challenges, keyed by XMTP conversation ID
+ * Participants, progress entries and stake pledges are kept as rows; GroupChallenge is assembled from them
+ */
+
+import type { PoolClient } from 'pg';
+import pool from '../db';
+import { ensureSchema } from '../migrations/runner';
+import type { GroupChallenge } from '../group-fitness-agent';
+
+export type NewGroupChallenge = Omit<GroupChallenge, 'participants' | 'stakes' | 'leaderboard'> & {
+  creator: string;
+};
+
+function normalizeAddress(address: string): string {
+  return address.toLowerCase();
+}
+
+/**
+ * Load the participant, progress and stake rows for the given challenges and build GroupChallenge objects
+ */
+async function hydrateChallenges(client: PoolClient, rows: any[]): Promise<GroupChallenge[]> {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const ids = rows.map(row => row.id);
+
+  const [participants, progress, stakes] = await Promise.all([
+    client.query(
+      'SELECT challenge_id, address, joined_at FROM group_challenge_participants WHERE challenge_id = ANY($1) ORDER BY joined_at ASC',
+      [ids]
+    ),
+    client.query(`
+      SELECT challenge_id, address, SUM(reps)::int AS score, MAX(recorded_at) AS last_update
+      FROM group_challenge_progress
+      WHERE challenge_id = ANY($1)
+      GROUP BY challenge_id, address
+    `, [ids]),
+    client.query(`
+      SELECT challenge_id, address, SUM(amount) AS amount
+      FROM group_challenge_stakes
+      WHERE challenge_id = ANY($1)
+      GROUP BY challenge_id, address
+    `, [ids]),
+  ]);
+
+  return rows.map(row => {
+    const challengeParticipants = participants.rows.filter(p => p.challenge_id === row.id);
+    const challengeProgress = new Map<string, { score: number; lastUpdate: number }>(
+      progress.rows
+        .filter(p => p.challenge_id === row.id)
+        .map(p => [p.address, { score: p.score, lastUpdate: new Date(p.last_update).getTime() }])
+    );
+
+    const challengeStakes: GroupChallenge['stakes'] = {};
+    for (const stake of stakes.rows.filter(s => s.challenge_id === row.id)) {
+      challengeStakes[stake.address] = Number(stake.amount);
+    }
+
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      type: row.type,
+      target: row.target,
+      duration: row.duration_days,
+      participants: challengeParticipants.map(p => p.address),
+      stakes: challengeStakes,
+      startDate: new Date(row.start_date).getTime(),
+      endDate: new Date(row.end_date).getTime(),
+      status: row.status,
+      leaderboard: challengeParticipants.map(p => ({
+        address: p.address,
+        score: challengeProgress.get(p.address)?.score ?? 0,
+        lastUpdate: challengeProgress.get(p.address)?.lastUpdate ?? new Date(p.joined_at).getTime(),
+      })),
+      rewards: {
+        winner: row.reward_winner_pct,
+        participation: row.reward_participation_pct,
+      },
+    };
+  });
+}
+
+/**
+ * Create a challenge in a conversation; the creator is its first participant
+ */
+export async function createChallenge(conversationId: string, challenge: NewGroupChallenge): Promise<GroupChallenge> {
+  await ensureSchema();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(`
+      INSERT INTO group_challenges (
+        id, conversation_id, name, description, type, target, duration_days, status,
+        creator, reward_winner_pct, reward_participation_pct, start_date, end_date
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      RETURNING *
+    `, [
+      challenge.id,
+      conversationId,
+      challenge.name,
+      challenge.description,
+      challenge.type,
+      challenge.target,
+      challenge.duration,
+      challenge.status,
+      normalizeAddress(challenge.creator),
+      challenge.rewards.winner,
+      challenge.rewards.participation,
+      new Date(challenge.startDate),
+      new Date(challenge.endDate),
+    ]);
+
+    await client.query(
+      'INSERT INTO group_challenge_participants (challenge_id, address) VALUES ($1, $2)',
+      [challenge.id, normalizeAddress(challenge.creator)]
+    );
+
+    await client.query('COMMIT');
+
+    const [created] = await hydrateChallenges(client, result.rows);
+    return created;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * A challenge by ID, only if it belongs to the conversation
+ */
+export async function getChallenge(conversationId: string, challengeId: string): Promise<GroupChallenge | null> {
+  await ensureSchema();
+  const client = await pool.connect();
+
+  try {
+    const result = await client.query(
+      'SELECT * FROM group_challenges WHERE id = $1 AND conversation_id = $2',
+      [challengeId, conversationId]
+    );
+
+    const [challenge] = await hydrateChallenges(client, result.rows);
+    return challenge ?? null;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Pending and active challenges in a conversation, newest first
+ * Challenges past their end date are marked completed on the way
+ */
+export async function getActiveChallenges(conversationId: string): Promise<GroupChallenge[]> {
+  await ensureSchema();
+  const client = await pool.connect();
+
+  try {
+    await client.query(`
+      UPDATE group_challenges
+      SET status = 'completed', updated_at = NOW()
+      WHERE conversation_id = $1 AND status IN ('pending', 'active') AND end_date <= NOW()
+    `, [conversationId]);
+
+    const result = await client.query(`
+      SELECT * FROM group_challenges
+      WHERE conversation_id = $1 AND status IN ('pending', 'active')
+      ORDER BY created_at DESC
+    `, [conversationId]);
+
+    return hydrateChallenges(client, result.rows);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Add a participant; the first join beyond the creator activates a pending challenge
+ * Returns false if the address had already joined
+ */
+export async function addParticipant(challengeId: string, address: string): Promise<boolean> {
+  await ensureSchema();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const inserted = await client.query(`
+      INSERT INTO group_challenge_participants (challenge_id, address)
+      VALUES ($1, $2)
+      ON CONFLICT (challenge_id, address) DO NOTHING
+    `, [challengeId, normalizeAddress(address)]);
+
+    if (inserted.rowCount) {
+      await client.query(`
+        UPDATE group_challenges
+        SET status = 'active', updated_at = NOW()
+        WHERE id = $1 AND status = 'pending'
+      `, [challengeId]);
+    }
+
+    await client.query('COMMIT');
+    return !!inserted.rowCount;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Log reps for a participant; their score is the sum of all entries
+ */
+export async function recordProgress(challengeId: string, address: string, reps: number): Promise<void> {
+  await ensureSchema();
+  const client = await pool.connect();
+
+  try {
+    await client.query(
+      'INSERT INTO group_challenge_progress (challenge_id, address, reps) VALUES ($1, $2, $3)',
+      [challengeId, normalizeAddress(address), reps]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Record a participant's ETH stake pledge
+ */
+export async function recordStake(challengeId: string, address: string, amount: number): Promise<void> {
+  await ensureSchema();
+  const client = await pool.connect();
+
+  try {
+    await client.query(
+      'INSERT INTO group_challenge_stakes (challenge_id, address, amount) VALUES ($1, $2, $3)',
+      [challengeId, normalizeAddress(address), amount]
+    );
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,365 @@
+/**
+ * Portfolio Service
+ * Per-wallet positions and P&L across chains: open stakes, realized P&L after fees,
+ * unclaimed rewards and sweat equity recovered, in native units and USD
+ *
+ * Votes come from the prediction index for chains it serves, otherwise from getChainUserVote
+ * per prediction. Payouts follow claimReward: stake * (totalPool - fees) / winningPool,
+ * using the chain's current fee (the one a claim made now would pay)
+ */
+
+import { ethers } from 'ethers';
+import {
+  CHAIN_CONFIG,
+  getChainFeeInfo,
+  getChainUserVote,
+  type ChainPrediction,
+  type SupportedChain,
+} from './dual-chain-service';
+import { getCryptoPriceData } from './external-data-service';
+import {
+  getIndexedChains,
+  getIndexedUserVotes,
+  getMarketPredictions,
+  getServableChains,
+} from '../prediction-index';
+
+// Contract default (15% charity + 5% maintenance), used when the chain can't be read
+export const DEFAULT_FEE_PERCENTAGE = 20;
+
+// Fees change rarely; prices are only indicative
+const FEE_CACHE_MS = 10 * 60 * 1000;
+const PRICE_CACHE_MS = 5 * 60 * 1000;
+
+export type PositionStatus =
+  | 'open' // Prediction not resolved yet
+  | 'won'
+  | 'lost';
+
+export interface PositionInput {
+  prediction: ChainPrediction;
+  isYes: boolean;
+  stake: number; // Native units
+  claimed: boolean;
+  claimedAmount: number | null; // Reward actually paid out, when known (indexed claims)
+  sweatEquityRecovered: number;
+  votedAt: number | null; // Unix seconds
+}
+
+export interface PortfolioPosition {
+  chain: SupportedChain;
+  predictionId: number;
+  title: string;
+  emoji: string;
+  isYes: boolean;
+  stake: number;
+  status: PositionStatus;
+  claimed: boolean;
+  payout: number; // What a won position pays (claimed or not); 0 otherwise
+  potentialPayout: number | null; // Open positions: payout if the current pools resolved in the user's favour
+  realizedPnl: number | null; // payout - stake + sweat equity recovered; null while open
+  unclaimed: number;
+  sweatEquityRecovered: number;
+  votedAt: number | null;
+}
+
+export interface PortfolioAmounts {
+  staked: number;
+  openStake: number;
+  realizedPnl: number;
+  unclaimedRewards: number;
+  sweatEquityRecovered: number;
+}
+
+export interface ChainPortfolio extends PortfolioAmounts {
+  chain: SupportedChain;
+  currency: string;
+  source: 'index' | 'rpc';
+  feePercentage: number;
+  feeIsDefault: boolean; // Fee couldn't be read from the contract
+  usdPrice: number | null;
+  usd: PortfolioAmounts | null; // null when the currency has no price
+  positions: number;
+  openPositions: number;
+  wins: number;
+  losses: number;
+}
+
+export interface Portfolio {
+  address: string;
+  positions: PortfolioPosition[];
+  chains: ChainPortfolio[];
+  totals: {
+    usd: PortfolioAmounts;
+    unpricedChains: SupportedChain[]; // Chains with positions left out of the USD totals
+  };
+  generatedAt: string;
+}
+
+export interface ChainPortfolioInfo {
+  source: 'index' | 'rpc';
+  feePercentage: number | null; // null: fall back to DEFAULT_FEE_PERCENTAGE
+  usdPrice: number | null;
+}
+
+/**
+ * One position's outcome, as claimReward would pay it
+ */
+export function computePosition(input: PositionInput, feePercentage: number): PortfolioPosition {
+  const { prediction, isYes, stake } = input;
+  const rewardPool = prediction.totalStaked * (100 - feePercentage) / 100;
+  const sidePool = isYes ? prediction.yesVotes : prediction.noVotes;
+
+  const base = {
+    chain: prediction.chain,
+    predictionId: prediction.id,
+    title: prediction.title,
+    emoji: prediction.emoji,
+    isYes,
+    stake,
+    claimed: input.claimed,
+    sweatEquityRecovered: input.sweatEquityRecovered,
+    votedAt: input.votedAt,
+  };
+
+  if (prediction.status !== 1) {
+    return {
+      ...base,
+      status: 'open',
+      payout: 0,
+      potentialPayout: sidePool > 0 ? stake * rewardPool / sidePool : null,
+      realizedPnl: null,
+      unclaimed: 0,
+    };
+  }
+
+  const won = (prediction.outcome === 1 && isYes) || (prediction.outcome === 2 && !isYes);
+  const payout = won && sidePool > 0 ? input.claimedAmount ?? stake * rewardPool / sidePool : 0;
+
+  return {
+    ...base,
+    status: won ? 'won' : 'lost',
+    payout,
+    potentialPayout: null,
+    realizedPnl: payout - stake + input.sweatEquityRecovered,
+    unclaimed: won && !input.claimed ? payout : 0,
+  };
+}
+
+function emptyAmounts(): PortfolioAmounts {
+  return { staked: 0, openStake: 0, realizedPnl: 0, unclaimedRewards: 0, sweatEquityRecovered: 0 };
+}
+
+function addAmounts(total: PortfolioAmounts, amounts: PortfolioAmounts, scale: number = 1): void {
+  for (const key of Object.keys(total) as (keyof PortfolioAmounts)[]) {
+    total[key] += amounts[key] * scale;
+  }
+}
+
+/**
+ * Positions, per-chain breakdowns and USD totals for a wallet
+ */
+export function summarizePortfolio(
+  address: string,
+  inputs: PositionInput[],
+  chains: Partial<Record<SupportedChain, ChainPortfolioInfo>>,
+  now: number = Date.now()
+): Portfolio {
+  const positions = inputs
+    .map(input => computePosition(
+      input,
+      chains[input.prediction.chain]?.feePercentage ?? DEFAULT_FEE_PERCENTAGE
+    ))
+    .sort((a, b) => (b.votedAt ?? 0) - (a.votedAt ?? 0));
+
+  const usd = emptyAmounts();
+  const unpricedChains: SupportedChain[] = [];
+
+  const breakdowns = (Object.keys(chains) as SupportedChain[]).map(chain => {
+    const info = chains[chain]!;
+    const chainPositions = positions.filter(p => p.chain === chain);
+    const amounts = emptyAmounts();
+
+    for (const position of chainPositions) {
+      amounts.staked += position.stake;
+      amounts.unclaimedRewards += position.unclaimed;
+      amounts.sweatEquityRecovered += position.sweatEquityRecovered;
+      if (position.status === 'open') {
+        amounts.openStake += position.stake;
+      } else {
+        amounts.realizedPnl += position.realizedPnl ?? 0;
+      }
+    }
+
+    let chainUsd: PortfolioAmounts | null = null;
+    if (info.usdPrice !== null) {
+      chainUsd = emptyAmounts();
+      addAmounts(chainUsd, amounts, info.usdPrice);
+      addAmounts(usd, chainUsd);
+    } else if (chainPositions.length > 0) {
+      unpricedChains.push(chain);
+    }
+
+    return {
+      chain,
+      currency: CHAIN_CONFIG[chain].nativeCurrency.symbol,
+      source: info.source,
+      feePercentage: info.feePercentage ?? DEFAULT_FEE_PERCENTAGE,
+      feeIsDefault: info.feePercentage === null,
+      usdPrice: info.usdPrice,
+      ...amounts,
+      usd: chainUsd,
+      positions: chainPositions.length,
+      openPositions: chainPositions.filter(p => p.status === 'open').length,
+      wins: chainPositions.filter(p => p.status === 'won').length,
+      losses: chainPositions.filter(p => p.status === 'lost').length,
+    };
+  });
+
+  return {
+    address: address.toLowerCase(),
+    positions,
+    chains: breakdowns,
+    totals: { usd, unpricedChains },
+    generatedAt: new Date(now).toISOString(),
+  };
+}
+
+export interface PortfolioSources {
+  /**
+   * The wallet's positions, and whether each chain was read from the index or over RPC
+   */
+  loadPositions(address: string): Promise<{
+    positions: PositionInput[];
+    sources: Record<SupportedChain, 'index' | 'rpc'>;
+  }>;
+  getFeePercentage(chain: SupportedChain): Promise<number | null>;
+  getUsdPrice(symbol: string): Promise<number | null>;
+}
+
+/**
+ * Indexed chains answer from the vote tables; the rest read the user's vote on each prediction
+ */
+async function loadPositions(address: string) {
+  const chains = getIndexedChains();
+  const predictions = await getMarketPredictions();
+  const positions: PositionInput[] = [];
+
+  let servable = new Set<SupportedChain>();
+  try {
+    servable = await getServableChains();
+    if (chains.some(c => servable.has(c))) {
+      for (const vote of await getIndexedUserVotes(address)) {
+        const prediction = predictions.find(p => p.chain === vote.chain && p.id === vote.predictionId);
+        if (!servable.has(vote.chain) || !prediction) continue;
+
+        positions.push({
+          prediction,
+          isYes: vote.isYes,
+          stake: Number(ethers.formatEther(vote.amountWei)),
+          claimed: vote.claimedWei !== null,
+          claimedAmount: vote.claimedWei !== null ? Number(ethers.formatEther(vote.claimedWei)) : null,
+          sweatEquityRecovered: Number(ethers.formatEther(vote.sweatEquityReleasedWei)),
+          votedAt: vote.firstVotedAt,
+        });
+      }
+    }
+  } catch (error) {
+    console.error('[Portfolio] Vote index unavailable, reading votes over RPC:', error);
+    servable = new Set();
+  }
+
+  // Sweat equity releases are only known from indexed events, so RPC chains report none
+  for (const prediction of predictions.filter(p => !servable.has(p.chain))) {
+    const vote = await getChainUserVote(prediction.id, address, prediction.chain);
+    if (vote && vote.amount > 0) {
+      positions.push({
+        prediction,
+        isYes: vote.isYes,
+        stake: vote.amount,
+        claimed: vote.claimed,
+        claimedAmount: null,
+        sweatEquityRecovered: 0,
+        votedAt: null,
+      });
+    }
+  }
+
+  const sources = Object.fromEntries(
+    chains.map(c => [c, servable.has(c) ? 'index' : 'rpc'])
+  ) as Record<SupportedChain, 'index' | 'rpc'>;
+
+  return { positions, sources };
+}
+
+export function createDefaultPortfolioSources(): PortfolioSources {
+  return {
+    loadPositions,
+    getFeePercentage: async chain => (await getChainFeeInfo(chain))?.totalFeePercentage ?? null,
+    getUsdPrice: async symbol => (await getCryptoPriceData(symbol))?.price ?? null,
+  };
+}
+
+interface CachedValue {
+  value: number | null;
+  fetchedAt: number; // ms
+}
+
+export class PortfolioService {
+  private fees = new Map<SupportedChain, CachedValue>();
+  private prices = new Map<string, CachedValue>();
+
+  constructor(
+    private sources: PortfolioSources,
+    private now: () => number = Date.now
+  ) {}
+
+  async getPortfolio(address: string): Promise<Portfolio> {
+    const { positions, sources } = await this.sources.loadPositions(address);
+    const chains = Object.keys(sources) as SupportedChain[];
+
+    const infos = await Promise.all(chains.map(async chain => {
+      const [feePercentage, usdPrice] = await Promise.all([
+        this.cached(this.fees, chain, FEE_CACHE_MS, () => this.sources.getFeePercentage(chain)),
+        this.cached(this.prices, CHAIN_CONFIG[chain].nativeCurrency.symbol, PRICE_CACHE_MS, symbol =>
+          this.sources.getUsdPrice(symbol)
+        ),
+      ]);
+      return [chain, { source: sources[chain], feePercentage, usdPrice }] as const;
+    }));
+
+    return summarizePortfolio(address, positions, Object.fromEntries(infos), this.now());
+  }
+
+  // Failed lookups (null) are cached too, so a down price API isn't hit on every request
+  private async cached<K>(
+    cache: Map<K, CachedValue>,
+    key: K,
+    ttlMs: number,
+    load: (key: K) => Promise<number | null>
+  ): Promise<number | null> {
+    const entry = cache.get(key);
+    if (entry && this.now() - entry.fetchedAt < ttlMs) {
+      return entry.value;
+    }
+
+    let value: number | null = null;
+    try {
+      value = await load(key);
+    } catch (error) {
+      console.warn(`[Portfolio] Lookup failed for ${String(key)}:`, error);
+    }
+    cache.set(key, { value, fetchedAt: this.now() });
+    return value;
+  }
+}
+
+// Default service used by the API; fee and price caches live for the lifetime of the server process
+let defaultService: PortfolioService | null = null;
+
+export function getPortfolioService(): PortfolioService {
+  if (!defaultService) {
+    defaultService = new PortfolioService(createDefaultPortfolioSources());
+  }
+  return defaultService;
+}
@@ -9,13 +9,57 @@
 import { ethers } from 'ethers';
 import {
   validateExternalData,
-  getCryptoPriceData,
+  getCryptoPriceConsensus,
+  getHistoricalPriceCandle,
+  PRICE_HISTORY_TOLERANCE_SECONDS,
   getWeatherData,
   getUserLocationFromIP
 } from './external-data-service';
 import { parseNaturalDate } from './timezone-service';
 import { predictionMarketABI } from '../constants';
-import { getChainPrediction, getAllChainPredictions, CHAIN_CONFIG } from './dual-chain-service';
+import {
+  getChainPrediction,
+  getChainUserVote,
+  CHAIN_CONFIG,
+  type ChainPrediction,
+  type SupportedChain
+} from './dual-chain-service';
+import { getMarketPredictions } from '../prediction-index';
+import {
+  ensureResolutionLedger,
+  enqueueResolution,
+  recordResolutionAttempt,
+  getDueResolutions,
+  getLedgerSummary
+} from './resolution-ledger';
+import {
+  proposeResolution,
+  recordDispute,
+  getDueFinalizations,
+  claimProposalForFinalization,
+  completeFinalization,
+  releaseExpiredFinalizations,
+  getProposal,
+  type ProposalStatus,
+  type ResolutionProposal
+} from './resolution-disputes';
+import {
+  getFitnessDataReader,
+  normalizeTrackedExercise,
+  type FitnessReading,
+  type TrackedExercise
+} from './fitness-data-reader';
+import { EXERCISE_IDS, EXERCISES, findExerciseMention, findPredictedExercise } from '../exercises';
+import { getUserStreak, findUserStreakByAddress, type UserStreak } from '../streaks-service-pg';
+import { getWorkoutTotals } from './workout-store';
+import { RequestError } from '../request-error';
+import {
+  compareCriteriaValue,
+  getResolutionCriteriaService,
+  type CriteriaComparator,
+  type PriceSymbol,
+  type ResolutionCriteria
+} from '../resolution-criteria';
 
 // Types for prediction resolution
 export interface ResolutionResult {
@@ -28,6 +72,11 @@ export interface ResolutionResult {
   targetValue?: number;
   transactionHash?: string;
   error?: string;
+  chain?: SupportedChain;
+  attemptNumber?: number;
+  resolvedAt?: string;
+  evidence?: Record<string, unknown>;
+  disputeEndsAt?: string;
 }
 
 export interface PendingResolution {
@@ -43,31 +92,74 @@ export interface PendingResolution {
   lastChecked: number;
 }
 
-// Resolution monitoring state
-const pendingResolutions = new Map<number, PendingResolution>();
-const resolutionHistory = new Map<number, ResolutionResult>();
-
 /**
  * Initialize prediction resolution system (on-demand only)
- * No background monitoring - resolutions are triggered manually
+ * No background monitoring - resolutions are triggered manually,
+ * queue and history live in the Postgres resolution ledger
  */
 export async function initializePredictionResolution(): Promise<void> {
   console.log('🎯 Prediction resolution system initialized (on-demand mode)');
   console.log('📝 Predictions will be resolved when manually triggered');
 
-  // Clear any existing monitoring state
-  pendingResolutions.clear();
-  resolutionHistory.clear();
+  await ensureResolutionLedger();
 
   console.log('✅ Ready for on-demand prediction resolution');
 }
 
+interface ResolverOutcome {
+  outcome: 'YES' | 'NO' | 'UNRESOLVED';
+  confidence: number;
+  source: string;
+  currentValue?: number;
+  evidence?: Record<string, unknown>;
+}
+
 /**
- * Determine the type of resolution needed for a prediction
+ * How a prediction will be resolved: the criteria committed in its description, or - for predictions
+ * created before criteria existed - a type guessed from its wording
  */
-function determineResolutionType(title: string, description: string): 'crypto_price' | 'weather' | 'fitness' | 'manual' {
+type ResolutionPlan =
+  | { kind: 'criteria'; hash: string; criteria: ResolutionCriteria }
+  | { kind: 'missing'; hash: string }
+  | { kind: 'legacy'; resolutionType: PendingResolution['resolutionType'] };
+
+async function planResolution(prediction: ChainPrediction): Promise<ResolutionPlan> {
+  const lookup = await getResolutionCriteriaService().forPrediction(prediction);
+
+  switch (lookup.status) {
+    case 'found':
+      return { kind: 'criteria', hash: lookup.hash, criteria: lookup.criteria };
+    case 'missing':
+      // A commitment is authoritative: never fall back to guessing from the wording
+      return { kind: 'missing', hash: lookup.hash };
+    case 'none':
+      return { kind: 'legacy', resolutionType: guessLegacyResolutionType(prediction.title, prediction.description) };
+  }
+}
+
+function resolutionTypeOf(plan: ResolutionPlan): PendingResolution['resolutionType'] {
+  switch (plan.kind) {
+    case 'criteria':
+      return plan.criteria.source === 'price' ? 'crypto_price' : 'fitness';
+    case 'missing':
+      return 'manual';
+    case 'legacy':
+      return plan.resolutionType;
+  }
+}
+
+/**
+ * Guess the resolution type from a prediction's wording
+ * Only for predictions without committed resolution criteria
+ */
+function guessLegacyResolutionType(title: string, description: string): 'crypto_price' | 'weather' | 'fitness' | 'manual' {
   const text = `${title} ${description}`.toLowerCase();
   
+  // Fitness predictions (checked first - "reach 500 pushups" is not a price target)
+  if (findPredictedExercise(text) || text.match(/\b(exercises?|workouts?|fitness|reps)\b/)) {
+    return 'fitness';
+  }
+  
   // Crypto price predictions
   if (text.match(/\b(bitcoin|btc|ethereum|eth|celo|matic|price|reach|\$)\b/)) {
     return 'crypto_price';
@@ -78,31 +170,23 @@ function determineResolutionType(title: string, description: string): 'crypto_pr
     return 'weather';
   }
   
-  // Fitness predictions (platform-specific)
-  if (text.match(/\b(pushups|squats|exercise|workout|fitness|reps)\b/)) {
-    return 'fitness';
-  }
-  
   return 'manual';
 }
 
 /**
  * Check if a prediction is eligible for resolution
+ * IDs are per contract, so the same ID on another chain is a different prediction
  */
-export async function checkPredictionEligibility(predictionId: number): Promise<{
+export async function checkPredictionEligibility(predictionId: number, chain: SupportedChain): Promise<{
   eligible: boolean;
   reason: string;
   prediction?: any;
 }> {
   try {
-    // Try to find prediction on both chains
-    let prediction = await getChainPrediction(predictionId, 'celo');
-    if (!prediction) {
-      prediction = await getChainPrediction(predictionId, 'base');
-    }
+    const prediction = await getChainPrediction(predictionId, chain);
 
     if (!prediction) {
-      return { eligible: false, reason: 'Prediction not found on any chain' };
+      return { eligible: false, reason: `Prediction not found on ${chain}` };
     }
 
     if (prediction.status !== 0) {
@@ -130,135 +214,391 @@ export async function checkPredictionEligibility(predictionId: number): Promise<
 
 /**
  * Resolve a specific prediction using external data (on-demand)
+ * Every attempt past the eligibility check is recorded in the resolution ledger
  */
-export async function resolvePrediction(predictionId: number): Promise<ResolutionResult> {
-  console.log(`🎯 Attempting to resolve prediction ${predictionId}`);
+export async function resolvePrediction(predictionId: number, chain: SupportedChain): Promise<ResolutionResult> {
+  console.log(`🎯 Attempting to resolve prediction ${predictionId} on ${chain}`);
+
+  // First check if prediction is eligible
+  const eligibility = await checkPredictionEligibility(predictionId, chain);
+  if (!eligibility.eligible) {
+    return {
+      success: false,
+      predictionId,
+      outcome: 'UNRESOLVED',
+      confidence: 0,
+      source: 'eligibility_check',
+      error: eligibility.reason,
+      chain
+    };
+  }
+
+  const prediction: ChainPrediction = eligibility.prediction;
 
+  // Until the plan is known (the criteria store may be down), the wording's guess labels the attempt
+  let resolutionType = guessLegacyResolutionType(prediction.title, prediction.description);
+  let result: ResolutionResult;
   try {
-    // First check if prediction is eligible
-    const eligibility = await checkPredictionEligibility(predictionId);
-    if (!eligibility.eligible) {
+    const plan = await planResolution(prediction);
+    resolutionType = resolutionTypeOf(plan);
+    result = await attemptResolution(prediction, plan);
+  } catch (error) {
+    result = {
+      success: false,
+      predictionId,
+      outcome: 'UNRESOLVED',
+      confidence: 0,
+      source: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+
+  try {
+    const entry = await recordResolutionAttempt({
+      predictionId,
+      chain: prediction.chain,
+      title: prediction.title,
+      resolutionType,
+      success: result.success,
+      outcome: result.outcome,
+      confidence: result.confidence,
+      sources: result.source.split('+'),
+      currentValue: result.currentValue,
+      targetValue: result.targetValue,
+      transactionHash: result.transactionHash,
+      evidence: result.evidence,
+      error: result.error
+    });
+    result.attemptNumber = entry.attempts;
+  } catch (error) {
+    console.error(`❌ Failed to record resolution attempt for prediction ${predictionId}:`, error);
+  }
+
+  return { ...result, chain: prediction.chain };
+}
+
+/**
+ * Run the resolver for a prediction's plan and propose the outcome when confident
+ * Settlement happens later, once the dispute window closes (see finalizeProposal)
+ */
+async function attemptResolution(
+  prediction: ChainPrediction,
+  plan: ResolutionPlan
+): Promise<ResolutionResult> {
+  const predictionId = prediction.id;
+
+  let resolved: ResolverOutcome | null;
+  switch (plan.kind) {
+    case 'criteria':
+      resolved = await executeResolutionCriteria(prediction, plan.criteria);
+      resolved = {
+        ...resolved,
+        evidence: { ...resolved.evidence, criteriaHash: plan.hash, criteria: plan.criteria }
+      };
+      break;
+
+    case 'missing':
       return {
         success: false,
         predictionId,
         outcome: 'UNRESOLVED',
         confidence: 0,
-        source: 'eligibility_check',
-        error: eligibility.reason
-      };
-    }
-
-    const prediction = eligibility.prediction;
-    const resolutionType = determineResolutionType(prediction.title, prediction.description);
-    const criteria = `${prediction.title} ${prediction.description}`;
-
-    let outcome: 'YES' | 'NO' | 'UNRESOLVED' = 'UNRESOLVED';
-    let confidence = 0;
-    let source = 'unknown';
-    let currentValue: number | undefined;
-
-    switch (resolutionType) {
-      case 'crypto_price':
-        const cryptoResult = await resolveCryptoPrediction({
-          predictionId,
-          targetValue: prediction.targetValue,
-          criteria
-        });
-        outcome = cryptoResult.outcome;
-        confidence = cryptoResult.confidence;
-        source = cryptoResult.source;
-        currentValue = cryptoResult.currentValue;
-        break;
-
-      case 'weather':
-        const weatherResult = await resolveWeatherPrediction({
-          predictionId,
-          criteria
-        });
-        outcome = weatherResult.outcome;
-        confidence = weatherResult.confidence;
-        source = weatherResult.source;
-        break;
-
-      case 'fitness':
-        const fitnessResult = await resolveFitnessPrediction({
-          predictionId,
-          targetValue: prediction.targetValue,
-          criteria
-        });
-        outcome = fitnessResult.outcome;
-        confidence = fitnessResult.confidence;
-        source = fitnessResult.source;
-        currentValue = fitnessResult.currentValue;
-        break;
-
-      default:
-        return {
-          success: false,
-          predictionId,
-          outcome: 'UNRESOLVED',
-          confidence: 0,
-          source: 'manual',
-          error: 'Manual resolution required'
-        };
-    }
-
-    // Only resolve if confidence is high enough
-    if (confidence >= 0.8 && outcome !== 'UNRESOLVED') {
-      const txHash = await executeContractResolution(predictionId, outcome);
-
-      // Store in resolution history
-      const result: ResolutionResult = {
-        success: true,
-        predictionId,
-        outcome,
-        confidence,
-        source,
-        currentValue,
-        targetValue: prediction.targetValue,
-        transactionHash: txHash
+        source: 'manual',
+        error: `Committed resolution criteria ${plan.hash} not found`
       };
 
-      resolutionHistory.set(predictionId, result);
-      return result;
-    }
+    case 'legacy':
+      resolved = await runLegacyResolver(prediction, plan.resolutionType);
+      break;
+  }
 
+  if (!resolved) {
     return {
       success: false,
       predictionId,
+      outcome: 'UNRESOLVED',
+      confidence: 0,
+      source: 'manual',
+      error: 'Manual resolution required'
+    };
+  }
+
+  const { outcome, confidence, source, currentValue, evidence } = resolved;
+
+  // Only propose if confidence is high enough
+  if (confidence >= 0.8 && outcome !== 'UNRESOLVED') {
+    const proposal = await proposeResolution({
+      predictionId,
+      chain: prediction.chain,
+      title: prediction.title,
       outcome,
       confidence,
       source,
       currentValue,
       targetValue: prediction.targetValue,
-      error: `Insufficient confidence: ${confidence}`
-    };
+      evidence
+    });
 
-  } catch (error) {
+    // An earlier proposal is kept rather than replaced, so report the one that stands
     return {
-      success: false,
+      success: true,
       predictionId,
-      outcome: 'UNRESOLVED',
-      confidence: 0,
-      source: 'error',
-      error: error instanceof Error ? error.message : 'Unknown error'
+      outcome: proposal.outcome,
+      confidence: proposal.confidence,
+      source: proposal.source,
+      currentValue: proposal.currentValue,
+      targetValue: proposal.targetValue ?? prediction.targetValue,
+      evidence: proposal.evidence,
+      disputeEndsAt: proposal.disputeEndsAt
     };
   }
+
+  return {
+    success: false,
+    predictionId,
+    outcome,
+    confidence,
+    source,
+    currentValue,
+    targetValue: prediction.targetValue,
+    evidence,
+    error: `Insufficient confidence: ${confidence}`
+  };
+}
+
+/**
+ * Execute committed criteria: the subject's exercise total over the window, or the token's price at the deadline
+ */
+async function executeResolutionCriteria(
+  prediction: ChainPrediction,
+  criteria: ResolutionCriteria
+): Promise<ResolverOutcome> {
+  if (criteria.source === 'price') {
+    return resolvePriceCriteria(criteria);
+  }
+
+  const subject: FitnessCriteria['subject'] = criteria.subject.type === 'creator'
+    ? { type: 'address', address: prediction.creator.toLowerCase() }
+    : criteria.subject;
+  const windowStart = criteria.window.start ?? prediction.createdAt;
+  const exercise = EXERCISES[criteria.exercise];
+
+  if (exercise.workoutSport) {
+    return resolveWorkoutPrediction({
+      predictionId: prediction.id,
+      criteria: { sport: exercise.workoutSport, targetMeters: criteria.value, subject, windowStart, deadline: criteria.window.end },
+      comparator: criteria.comparator
+    });
+  }
+
+  const exerciseType = normalizeTrackedExercise(criteria.exercise);
+  if (!exerciseType) {
+    return { outcome: 'UNRESOLVED', confidence: 0, source: 'criteria_exercise_untracked' };
+  }
+
+  return resolveFitnessCriteria({
+    predictionId: prediction.id,
+    criteria: { exerciseType, targetAmount: criteria.value, subject, windowStart, deadline: criteria.window.end },
+    comparator: criteria.comparator
+  });
+}
+
+/**
+ * Resolvers for predictions without committed criteria, which work their criteria out of the wording
+ * Null when the prediction needs a human
+ */
+async function runLegacyResolver(
+  prediction: ChainPrediction,
+  resolutionType: PendingResolution['resolutionType']
+): Promise<ResolverOutcome | null> {
+  const criteria = `${prediction.title} ${prediction.description}`;
+
+  switch (resolutionType) {
+    case 'crypto_price':
+      return resolveCryptoPrediction({
+        predictionId: prediction.id,
+        targetValue: prediction.targetValue,
+        targetDate: prediction.targetDate,
+        criteria
+      });
+
+    case 'weather':
+      return resolveWeatherPrediction({ predictionId: prediction.id, criteria });
+
+    case 'fitness':
+      return resolveFitnessPrediction({ predictionId: prediction.id, prediction });
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Retry queued predictions whose backoff has elapsed, each on the chain it was queued for
+ */
+export async function processDueResolutions(
+  limit = 10,
+  resolve: (predictionId: number, chain: SupportedChain) => Promise<ResolutionResult> = resolvePrediction
+): Promise<ResolutionResult[]> {
+  const due = await getDueResolutions(limit);
+  const results: ResolutionResult[] = [];
+
+  for (const entry of due) {
+    results.push(await resolve(entry.predictionId, entry.chain));
+  }
+
+  return results;
+}
+
+/**
+ * Settle proposals whose dispute window closed without a dispute
+ */
+export async function processDueFinalizations(limit = 10): Promise<ResolutionProposal[]> {
+  const released = await releaseExpiredFinalizations();
+  if (released > 0) {
+    console.warn(`⚠️ Released ${released} resolution proposal(s) whose finalizing lease expired`);
+  }
+
+  const due = await getDueFinalizations(limit);
+  const results: ResolutionProposal[] = [];
+
+  for (const proposal of due) {
+    const finalized = await finalizeProposal({
+      predictionId: proposal.predictionId,
+      chain: proposal.chain,
+      from: 'proposed',
+      resolvedBy: 'auto'
+    });
+    if (finalized) {
+      results.push(finalized);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Send a proposal's outcome (or an admin's override) on-chain
+ * Returns null if another caller already claimed it or it isn't in an allowed state
+ */
+async function finalizeProposal(params: {
+  predictionId: number;
+  chain: SupportedChain;
+  from: Extract<ProposalStatus, 'proposed' | 'disputed'>;
+  resolvedBy: string;
+  outcome?: 'YES' | 'NO';
+}): Promise<ResolutionProposal | null> {
+  const claimed = await claimProposalForFinalization({
+    predictionId: params.predictionId,
+    chain: params.chain,
+    from: [params.from],
+    requireWindowClosed: params.resolvedBy === 'auto'
+  });
+
+  if (!claimed) {
+    return null;
+  }
+
+  let finalOutcome = params.outcome || claimed.outcome;
+
+  try {
+    // A finalizer whose lease lapsed may already have settled it: record that instead of sending again
+    const onChain = await getChainPrediction(params.predictionId, params.chain);
+    const settled = onChain && Number(onChain.status) === 1;
+    if (settled) {
+      finalOutcome = Number(onChain.outcome) === 1 ? 'YES' : 'NO';
+    }
+
+    const txHash = settled
+      ? undefined
+      : await executeContractResolution(params.predictionId, finalOutcome, params.chain);
+    await completeFinalization({
+      predictionId: params.predictionId,
+      chain: params.chain,
+      finalOutcome,
+      transactionHash: txHash,
+      resolvedBy: params.resolvedBy,
+      revertTo: params.from
+    });
+    console.log(`✅ Prediction ${params.predictionId} finalized as ${finalOutcome} (${params.resolvedBy})`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`❌ Failed to finalize prediction ${params.predictionId}:`, error);
+    await completeFinalization({
+      predictionId: params.predictionId,
+      chain: params.chain,
+      resolvedBy: params.resolvedBy,
+      error: message,
+      revertTo: params.from
+    });
+  }
+
+  return getProposal(params.predictionId, params.chain);
+}
+
+/**
+ * File a staker's dispute against a proposed resolution
+ * Only addresses with a stake in the prediction may dispute
+ */
+export async function disputeProposedResolution(params: {
+  predictionId: number;
+  chain: SupportedChain;
+  staker: string;
+  reason: string;
+}): Promise<ResolutionProposal> {
+  const vote = await getChainUserVote(params.predictionId, params.staker, params.chain);
+  if (!vote || vote.amount <= 0) {
+    throw new RequestError('Only stakers in this prediction can dispute its resolution', 403);
+  }
+
+  return recordDispute(params);
+}
+
+/**
+ * Whether an address may rule on disputed resolutions (RESOLUTION_ADMIN_ADDRESSES)
+ */
+export function isResolutionAdmin(address: string): boolean {
+  const admins = (process.env.RESOLUTION_ADMIN_ADDRESSES || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+  return admins.includes(address.toLowerCase());
 }
 
 /**
- * Resolve crypto price predictions
+ * Admin ruling on a disputed proposal - upholds it or settles the opposite outcome
+ */
+export async function ruleOnDisputedResolution(params: {
+  predictionId: number;
+  chain: SupportedChain;
+  outcome: 'YES' | 'NO';
+  admin: string;
+}): Promise<ResolutionProposal> {
+  const finalized = await finalizeProposal({
+    predictionId: params.predictionId,
+    chain: params.chain,
+    from: 'disputed',
+    resolvedBy: params.admin.toLowerCase(),
+    outcome: params.outcome
+  });
+
+  if (!finalized) {
+    throw new RequestError(`Prediction ${params.predictionId} has no disputed resolution awaiting a ruling`, 409);
+  }
+
+  return finalized;
+}
+
+/**
+ * Resolve crypto price predictions without criteria, reading the token and direction from the wording
  */
 async function resolveCryptoPrediction(params: {
   predictionId: number;
   targetValue: number;
+  targetDate: number;
   criteria: string;
-}): Promise<{
-  outcome: 'YES' | 'NO' | 'UNRESOLVED';
-  confidence: number;
-  source: string;
-  currentValue?: number;
-}> {
+}): Promise<ResolverOutcome> {
   // Extract crypto symbol from prediction text
   const symbolMatch = params.criteria.match(/\b(bitcoin|btc|ethereum|eth|celo|matic)\b/i);
   if (!symbolMatch) {
@@ -266,7 +606,7 @@ async function resolveCryptoPrediction(params: {
   }
 
   const symbol = symbolMatch[1].toLowerCase();
-  const symbolMap: Record<string, string> = {
+  const symbolMap: Record<string, PriceSymbol> = {
     'bitcoin': 'BTC',
     'btc': 'BTC',
     'ethereum': 'ETH',
@@ -280,18 +620,68 @@ async function resolveCryptoPrediction(params: {
     return { outcome: 'UNRESOLVED', confidence: 0, source: 'unknown_symbol' };
   }
 
-  const priceData = await getCryptoPriceData(cryptoSymbol);
-  if (!priceData) {
-    return { outcome: 'UNRESOLVED', confidence: 0, source: 'no_price_data' };
+  const below = /\b(below|under|less than|drops?|falls?|dips?)\b/i.test(params.criteria);
+
+  return resolvePriceCriteria({
+    symbol: cryptoSymbol,
+    comparator: below ? 'lt' : 'gte',
+    value: params.targetValue,
+    at: params.targetDate
+  });
+}
+
+/**
+ * Compare a token's price at a moment with a value: the closing candle when history has it,
+ * otherwise the spot price while still close enough to the moment
+ */
+async function resolvePriceCriteria(params: {
+  symbol: PriceSymbol;
+  comparator: CriteriaComparator;
+  value: number;
+  at: number;
+}): Promise<ResolverOutcome> {
+  let price: number;
+  let confidence: number;
+  let source: string;
+  let evidence: Record<string, unknown>;
+
+  const historical = await getHistoricalPriceCandle(params.symbol, params.at);
+  const secondsLate = Math.floor(Date.now() / 1000) - params.at;
+
+  if (historical) {
+    if (!historical.closed) {
+      // Deadline candle is still forming - leave it for a retry
+      return { outcome: 'UNRESOLVED', confidence: 0, source: 'price_candle_open' };
+    }
+
+    price = historical.candle.close;
+    confidence = historical.confidence;
+    source = [historical.candle.source, ...historical.crossChecks.filter(c => c.agrees).map(c => c.source)].join('+') + '_ohlc';
+    evidence = { historicalPrice: historical };
+  } else if (secondsLate <= PRICE_HISTORY_TOLERANCE_SECONDS) {
+    // Still within the tolerance window, so the spot price stands in for the deadline price
+    const consensus = await getCryptoPriceConsensus(params.symbol);
+    if (!consensus) {
+      return { outcome: 'UNRESOLVED', confidence: 0, source: 'no_price_data' };
+    }
+
+    price = consensus.price;
+    confidence = consensus.confidence;
+    source = consensus.accepted.join('+');
+    evidence = { priceConsensus: consensus, secondsLate };
+  } else {
+    // Too late for spot prices and no candle near the deadline
+    return { outcome: 'UNRESOLVED', confidence: 0, source: 'no_historical_price' };
   }
 
-  const outcome = priceData.price >= params.targetValue ? 'YES' : 'NO';
+  const hit = compareCriteriaValue(price, params.comparator, params.value);
 
   return {
-    outcome,
-    confidence: priceData.confidence,
-    source: priceData.source,
-    currentValue: priceData.price
+    outcome: hit ? 'YES' : 'NO',
+    confidence,
+    source,
+    currentValue: price,
+    evidence: { ...evidence, comparator: params.comparator, deadline: params.at }
   };
 }
 
@@ -338,48 +728,293 @@ async function resolveWeatherPrediction(params: {
   };
 }
 
+const REP_EXERCISE_IDS = EXERCISE_IDS.filter(id => EXERCISES[id].unit === 'reps');
+const DISTANCE_EXERCISE_IDS = EXERCISE_IDS.filter(id => EXERCISES[id].unit === 'meters');
+
+export interface FitnessCriteria {
+  exerciseType: TrackedExercise;
+  targetAmount: number;
+  subject: { type: 'address'; address: string } | { type: 'fid'; fid: number };
+  windowStart: number;
+  deadline: number;
+}
+
 /**
- * Resolve fitness predictions (platform-specific)
+ * Parse the exercise, amount, subject and window out of a fitness prediction
+ * Falls back to the on-chain targetValue and the creator when the text doesn't say
  */
-async function resolveFitnessPrediction(params: {
-  predictionId: number;
+export function parseFitnessCriteria(prediction: {
+  title: string;
+  description: string;
   targetValue: number;
-  criteria: string;
-}): Promise<{
-  outcome: 'YES' | 'NO' | 'UNRESOLVED';
-  confidence: number;
-  source: string;
-  currentValue?: number;
-}> {
-  // This would integrate with your fitness tracking system
-  // For now, return unresolved as it requires platform-specific data
+  targetDate: number;
+  createdAt: number;
+  creator: string;
+}): FitnessCriteria | null {
+  const text = `${prediction.title} ${prediction.description}`;
+
+  const mention = findExerciseMention(text, REP_EXERCISE_IDS);
+
+  // Exercises the leaderboard contracts don't record (pull-ups, sit-ups...) can't be read on-chain
+  if (mention && !mention.exercise.leaderboardField) {
+    return null;
+  }
+
+  const exerciseType =
+    (mention && normalizeTrackedExercise(mention.exercise.id)) || 'total-exercises';
+
+  const genericAmount = text.match(/(\d[\d,]*)\s*(?:reps|exercises)\b/i);
+  const targetAmount =
+    mention?.amount ??
+    (genericAmount ? parseInt(genericAmount[1].replace(/,/g, ''), 10) : prediction.targetValue);
+
+  if (!targetAmount || targetAmount <= 0) {
+    return null;
+  }
+
   return {
-    outcome: 'UNRESOLVED',
-    confidence: 0,
-    source: 'fitness_platform_required'
+    exerciseType,
+    targetAmount,
+    subject: parseFitnessSubject(text, prediction.creator),
+    windowStart: prediction.createdAt,
+    deadline: prediction.targetDate
   };
 }
 
 /**
- * Execute contract resolution transaction
+ * Who a fitness prediction is about: an address or FID in the text, otherwise its creator
  */
-async function executeContractResolution(predictionId: number, outcome: 'YES' | 'NO'): Promise<string> {
-  const botPrivateKey = process.env.BOT_PRIVATE_KEY;
-  if (!botPrivateKey) {
-    throw new Error('Bot private key not configured');
+function parseFitnessSubject(text: string, creator: string): FitnessCriteria['subject'] {
+  const addressMatch = text.match(/\b(0x[a-fA-F0-9]{40})\b/);
+  const fidMatch = text.match(/\bfid[:#\s]*(\d+)\b/i);
+
+  if (addressMatch) {
+    return { type: 'address', address: addressMatch[1].toLowerCase() };
+  }
+  if (fidMatch) {
+    return { type: 'fid', fid: parseInt(fidMatch[1], 10) };
+  }
+  return { type: 'address', address: creator.toLowerCase() };
+}
+
+export interface WorkoutCriteria {
+  sport: 'running' | 'cycling';
+  targetMeters: number;
+  subject: FitnessCriteria['subject'];
+  windowStart: number;
+  deadline: number;
+}
+
+/**
+ * Parse distance predictions ("run 10km", "ride 50 miles") resolved from imported workouts
+ */
+export function parseWorkoutCriteria(prediction: {
+  title: string;
+  description: string;
+  targetDate: number;
+  createdAt: number;
+  creator: string;
+}): WorkoutCriteria | null {
+  const text = `${prediction.title} ${prediction.description}`;
+
+  // Rep predictions ("100 push-ups before my run") stay with the on-chain reader
+  if (findExerciseMention(text, REP_EXERCISE_IDS)) {
+    return null;
+  }
+
+  const mention = findExerciseMention(text, DISTANCE_EXERCISE_IDS);
+  if (!mention?.exercise.workoutSport || mention.amount === null) {
+    return null;
+  }
+
+  return {
+    sport: mention.exercise.workoutSport,
+    targetMeters: mention.amount,
+    subject: parseFitnessSubject(text, prediction.creator),
+    windowStart: prediction.createdAt,
+    deadline: prediction.targetDate
+  };
+}
+
+/**
+ * Lifetime total for an exercise as recorded in user_streaks
+ */
+function streakTotalFor(streak: Pick<UserStreak, 'totalPushups' | 'totalSquats'>, exerciseType: TrackedExercise): number {
+  const pushups = streak.totalPushups || 0;
+  const squats = streak.totalSquats || 0;
+
+  switch (exerciseType) {
+    case 'pushups':
+      return pushups;
+    case 'squats':
+      return squats;
+    case 'total-exercises':
+      return pushups + squats;
+  }
+}
+
+/**
+ * Resolve fitness predictions from on-chain Score data, cross-checked against user_streaks
+ */
+async function resolveFitnessPrediction(params: {
+  predictionId: number;
+  prediction: ChainPrediction;
+}): Promise<ResolverOutcome> {
+  const workoutCriteria = parseWorkoutCriteria(params.prediction);
+  if (workoutCriteria) {
+    return resolveWorkoutPrediction({ predictionId: params.predictionId, criteria: workoutCriteria, comparator: 'gte' });
+  }
+
+  const criteria = parseFitnessCriteria(params.prediction);
+  if (!criteria) {
+    return { outcome: 'UNRESOLVED', confidence: 0, source: 'fitness_criteria_unparsed' };
+  }
+
+  return resolveFitnessCriteria({ predictionId: params.predictionId, criteria, comparator: 'gte' });
+}
+
+/**
+ * Compare the subject's on-chain exercise total over the window with the target
+ */
+async function resolveFitnessCriteria(params: {
+  predictionId: number;
+  criteria: FitnessCriteria;
+  comparator: CriteriaComparator;
+}): Promise<ResolverOutcome> {
+  const { criteria, comparator } = params;
+
+  // Resolve the subject to wallet addresses plus their streak record (if synced)
+  let addresses: string[];
+  let streak: UserStreak | null;
+
+  if (criteria.subject.type === 'fid') {
+    streak = await getUserStreak(criteria.subject.fid.toString());
+    addresses = streak.walletAddresses || [];
+  } else {
+    addresses = [criteria.subject.address];
+    streak = await findUserStreakByAddress(criteria.subject.address);
+  }
+
+  if (addresses.length === 0) {
+    return { outcome: 'UNRESOLVED', confidence: 0, source: 'fitness_no_wallets' };
+  }
+
+  const reading = await getFitnessDataReader().read({
+    addresses,
+    exerciseType: criteria.exerciseType,
+    windowStart: criteria.windowStart,
+    windowEnd: criteria.deadline
+  });
+
+  if (reading.confidence === 0) {
+    return { outcome: 'UNRESOLVED', confidence: 0, source: 'fitness_onchain_unavailable' };
   }
 
-  // Determine which chain the prediction is on
-  let prediction = await getChainPrediction(predictionId, 'celo');
-  let chain: 'celo' | 'base' = 'celo';
+  console.log(
+    `💪 Prediction ${params.predictionId}: ${reading.amount}/${criteria.targetAmount} ${criteria.exerciseType} (proof ${reading.proofHash})`
+  );
 
-  if (!prediction) {
-    prediction = await getChainPrediction(predictionId, 'base');
-    chain = 'base';
+  return judgeFitnessReading({ predictionId: params.predictionId, criteria, comparator, reading, streak });
+}
+
+/**
+ * Outcome and confidence of an on-chain reading against fitness criteria, cross-checked against
+ * the subject's synced streak totals when they cover the deadline
+ */
+export function judgeFitnessReading(params: {
+  predictionId: number;
+  criteria: FitnessCriteria;
+  comparator: CriteriaComparator;
+  reading: Pick<FitnessReading, 'amount' | 'confidence'>;
+  streak: Pick<UserStreak, 'lastFitnessSync' | 'totalPushups' | 'totalSquats'> | null;
+}): ResolverOutcome {
+  const { criteria, comparator, reading, streak } = params;
+  const outcome = compareCriteriaValue(reading.amount, comparator, criteria.targetAmount) ? 'YES' : 'NO';
+
+  // Networks that failed to respond can only add reps, so they can't overturn an amount already
+  // past the target: a YES for "at least", a NO for "at most"
+  const atLeast = comparator === 'gte' || comparator === 'gt';
+  let confidence = (outcome === 'YES') === atLeast ? 1 : reading.confidence;
+  let source = 'fitness_onchain';
+
+  // Cross-check against the synced streak totals when they cover the deadline
+  const syncedAfterDeadline =
+    !!streak?.lastFitnessSync &&
+    new Date(streak.lastFitnessSync).getTime() / 1000 >= criteria.deadline;
+
+  if (streak && syncedAfterDeadline) {
+    source = 'fitness_onchain+streaks';
+    if (streakTotalFor(streak, criteria.exerciseType) < reading.amount) {
+      console.warn(
+        `⚠️ Prediction ${params.predictionId}: on-chain ${criteria.exerciseType} (${reading.amount}) exceed synced streak totals`
+      );
+      confidence *= 0.5;
+    }
+  } else {
+    // Single source only
+    confidence *= 0.9;
   }
 
-  if (!prediction) {
-    throw new Error(`Prediction ${predictionId} not found on any chain`);
+  return {
+    outcome,
+    confidence,
+    source,
+    currentValue: reading.amount
+  };
+}
+
+/**
+ * Resolve run/ride distance predictions from the subject's imported wearable workouts
+ */
+async function resolveWorkoutPrediction(params: {
+  predictionId: number;
+  criteria: WorkoutCriteria;
+  comparator: CriteriaComparator;
+}): Promise<ResolverOutcome> {
+  const { criteria } = params;
+
+  const userId = criteria.subject.type === 'fid'
+    ? criteria.subject.fid.toString()
+    : (await findUserStreakByAddress(criteria.subject.address))?.userId;
+
+  if (!userId) {
+    return { outcome: 'UNRESOLVED', confidence: 0, source: 'workouts_unknown_user' };
+  }
+
+  const totals = await getWorkoutTotals({
+    userId,
+    sport: criteria.sport,
+    from: criteria.windowStart,
+    to: criteria.deadline
+  });
+
+  const outcome = compareCriteriaValue(totals.distanceMeters, params.comparator, criteria.targetMeters) ? 'YES' : 'NO';
+
+  console.log(
+    `🏃 Prediction ${params.predictionId}: ${Math.round(totals.distanceMeters)}/${Math.round(criteria.targetMeters)} m ${criteria.sport} over ${totals.workouts} imported workout(s)`
+  );
+
+  // Sanity-checked device data, but the subject uploads the files themselves and a track can be
+  // hand-written, so it stays under the auto-propose bar and is left for manual review
+  return {
+    outcome,
+    confidence: 0.7,
+    source: 'fitness_workouts',
+    currentValue: Math.round(totals.distanceMeters)
+  };
+}
+
+/**
+ * Execute contract resolution transaction
+ */
+async function executeContractResolution(
+  predictionId: number,
+  outcome: 'YES' | 'NO',
+  chain: SupportedChain
+): Promise<string> {
+  const botPrivateKey = process.env.BOT_PRIVATE_KEY;
+  if (!botPrivateKey) {
+    throw new Error('Bot private key not configured');
   }
 
   const chainConfig = CHAIN_CONFIG[chain];
@@ -387,10 +1022,8 @@ async function executeContractResolution(predictionId: number, outcome: 'YES' |
   const botWallet = new ethers.Wallet(botPrivateKey, provider);
   const contract = new ethers.Contract(chainConfig.contractAddress, predictionMarketABI, botWallet);
 
-  // Convert outcome to contract enum (1 = YES, 2 = NO)
-  const contractOutcome = outcome === 'YES' ? 1 : 2;
-
-  const tx = await contract.resolvePrediction(predictionId, contractOutcome);
+  // resolvePrediction takes a bool; the contract stores it as 1 = YES, 2 = NO
+  const tx = await contract.resolvePrediction(predictionId, outcome === 'YES');
   await tx.wait();
 
   return tx.hash;
@@ -399,19 +1032,33 @@ async function executeContractResolution(predictionId: number, outcome: 'YES' |
 /**
  * Get resolution status for UI display
  */
-export function getResolutionStatus(): {
+export async function getResolutionStatus(): Promise<{
   pending: number;
   resolved: number;
+  failed: number;
+  manual: number;
   recent: ResolutionResult[];
-} {
-  const recent = Array.from(resolutionHistory.values())
-    .sort((a, b) => b.predictionId - a.predictionId)
-    .slice(0, 10);
+}> {
+  const { counts, recent } = await getLedgerSummary(10);
 
   return {
-    pending: 0, // No background monitoring
-    resolved: resolutionHistory.size,
-    recent
+    ...counts,
+    // Attempts only propose; one succeeded if it reached an outcome without an error
+    recent: recent.map((attempt) => ({
+      success: attempt.outcome !== 'UNRESOLVED' && !attempt.error,
+      predictionId: attempt.predictionId,
+      outcome: attempt.outcome,
+      confidence: attempt.confidence,
+      source: attempt.sources.join('+'),
+      currentValue: attempt.currentValue,
+      targetValue: attempt.targetValue,
+      transactionHash: attempt.transactionHash,
+      evidence: attempt.evidence,
+      error: attempt.error,
+      chain: attempt.chain,
+      attemptNumber: attempt.attemptNumber,
+      resolvedAt: attempt.createdAt
+    }))
   };
 }
 
@@ -427,12 +1074,20 @@ export async function getEligiblePredictions(): Promise<Array<{
   reason: string;
 }>> {
   try {
-    const chainPredictions = await getAllChainPredictions();
+    const chainPredictions = await getMarketPredictions();
     const eligibleList = [];
 
     for (const prediction of chainPredictions) {
       if (prediction.status === 0 && prediction.autoResolvable) { // ACTIVE and auto-resolvable
-        const eligibility = await checkPredictionEligibility(prediction.id);
+        const eligibility = await checkPredictionEligibility(prediction.id, prediction.chain);
+        if (eligibility.eligible) {
+          await enqueueResolution({
+            predictionId: prediction.id,
+            chain: prediction.chain,
+            title: prediction.title,
+            resolutionType: resolutionTypeOf(await planResolution(prediction))
+          });
+        }
         eligibleList.push({
           predictionId: prediction.id,
           title: prediction.title,
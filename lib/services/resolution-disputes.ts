@@ -0,0 +1,446 @@
+/**
+ * Resolution Disputes
+ * Postgres-backed proposals for auto-resolved predictions and the disputes stakers file against them
+ * A proposal only settles on-chain after its dispute window closes undisputed, or an admin rules on it
+ */
+
+import pool from '../db';
+import { ensureSchema } from '../migrations/runner';
+import { RequestError } from '../request-error';
+import type { SupportedChain } from './dual-chain-service';
+
+export type ProposalStatus =
+  | 'proposed'    // Dispute window open
+  | 'disputed'    // Flagged by a staker, waiting for an admin
+  | 'finalizing'  // Claimed by a finalizer, transaction in flight
+  | 'finalized'   // Settled on-chain with the proposed outcome
+  | 'overturned'; // Settled on-chain with the opposite outcome by an admin
+
+export interface ResolutionDispute {
+  id: number;
+  staker: string;
+  reason: string;
+  createdAt: string;
+}
+
+export interface ResolutionProposal {
+  predictionId: number;
+  chain: SupportedChain;
+  title: string | null;
+  outcome: 'YES' | 'NO';
+  confidence: number;
+  source: string;
+  currentValue?: number;
+  targetValue?: number;
+  evidence?: Record<string, unknown>;
+  status: ProposalStatus;
+  proposedAt: string;
+  disputeEndsAt: string;
+  announcedAt: string | null;
+  finalOutcome: 'YES' | 'NO' | null;
+  transactionHash: string | null;
+  resolvedBy: string | null;
+  lastError: string | null;
+  disputes: ResolutionDispute[];
+}
+
+export interface ProposeResolutionParams {
+  predictionId: number;
+  chain: SupportedChain;
+  title?: string;
+  outcome: 'YES' | 'NO';
+  confidence: number;
+  source: string;
+  currentValue?: number;
+  targetValue?: number;
+  evidence?: Record<string, unknown>;
+}
+
+// Dispute policy
+const DEFAULT_DISPUTE_WINDOW_SECONDS = 2 * 60 * 60; // 2 hours, same as the oracle challenge window
+export const MAX_DISPUTE_REASON_LENGTH = 500;
+
+// How long a finalizer may hold a proposal before it goes back to the state it was claimed from
+export const FINALIZING_LEASE_SECONDS = 10 * 60;
+
+/**
+ * How long stakers have to dispute a proposed outcome
+ */
+export function getDisputeWindowSeconds(): number {
+  const configured = Number(process.env.RESOLUTION_DISPUTE_WINDOW_SECONDS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_DISPUTE_WINDOW_SECONDS;
+}
+
+/**
+ * Make sure the proposal and dispute tables exist (migration 001, applied once per process)
+ */
+export function ensureDisputeTables(): Promise<void> {
+  return ensureSchema();
+}
+
+/**
+ * Publish a proposed outcome and open its dispute window
+ * A proposal that is already open or settled is left untouched
+ */
+export async function proposeResolution(params: ProposeResolutionParams): Promise<ResolutionProposal> {
+  await ensureDisputeTables();
+  const client = await pool.connect();
+
+  try {
+    const disputeEndsAt = new Date(Date.now() + getDisputeWindowSeconds() * 1000);
+
+    await client.query(`
+      INSERT INTO resolution_proposals (
+        prediction_id, chain, title, outcome, confidence, source,
+        current_value, target_value, evidence, dispute_ends_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      ON CONFLICT (prediction_id, chain) DO NOTHING
+    `, [
+      params.predictionId,
+      params.chain,
+      params.title || null,
+      params.outcome,
+      params.confidence,
+      params.source,
+      params.currentValue ?? null,
+      params.targetValue ?? null,
+      params.evidence ? JSON.stringify(params.evidence) : null,
+      disputeEndsAt
+    ]);
+  } finally {
+    client.release();
+  }
+
+  const proposal = await getProposal(params.predictionId, params.chain);
+  if (!proposal) {
+    throw new Error(`Failed to store proposal for prediction ${params.predictionId}`);
+  }
+  return proposal;
+}
+
+/**
+ * Proposal for one prediction, with its disputes
+ */
+export async function getProposal(
+  predictionId: number,
+  chain: SupportedChain
+): Promise<ResolutionProposal | null> {
+  await ensureDisputeTables();
+  const client = await pool.connect();
+
+  try {
+    const result = await client.query(
+      'SELECT * FROM resolution_proposals WHERE prediction_id = $1 AND chain = $2',
+      [predictionId, chain]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const disputes = await client.query(
+      'SELECT * FROM resolution_disputes WHERE prediction_id = $1 AND chain = $2 ORDER BY id ASC',
+      [predictionId, chain]
+    );
+
+    return mapProposalRow(result.rows[0], disputes.rows.map(mapDisputeRow));
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Proposals in the given states, oldest first, with their disputes
+ */
+export async function listProposals(statuses: ProposalStatus[], limit = 50): Promise<ResolutionProposal[]> {
+  await ensureDisputeTables();
+  const client = await pool.connect();
+
+  try {
+    const result = await client.query(`
+      SELECT * FROM resolution_proposals
+      WHERE status = ANY($1)
+      ORDER BY proposed_at ASC
+      LIMIT $2
+    `, [statuses, limit]);
+
+    if (result.rows.length === 0) {
+      return [];
+    }
+
+    const disputes = await client.query(`
+      SELECT * FROM resolution_disputes
+      WHERE (prediction_id, chain) IN (
+        SELECT prediction_id, chain FROM resolution_proposals WHERE status = ANY($1)
+      )
+      ORDER BY id ASC
+    `, [statuses]);
+
+    return result.rows.map((row) => mapProposalRow(
+      row,
+      disputes.rows
+        .filter((d) => d.prediction_id === row.prediction_id && d.chain === row.chain)
+        .map(mapDisputeRow)
+    ));
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Record a staker's dispute and escalate the proposal to the admin queue
+ * Throws if the window has closed or the staker already disputed this proposal
+ */
+export async function recordDispute(params: {
+  predictionId: number;
+  chain: SupportedChain;
+  staker: string;
+  reason: string;
+}): Promise<ResolutionProposal> {
+  const reason = params.reason.trim();
+  if (!reason) {
+    throw new RequestError('A reason is required to dispute a resolution');
+  }
+  if (reason.length > MAX_DISPUTE_REASON_LENGTH) {
+    throw new RequestError(`Dispute reason must be ${MAX_DISPUTE_REASON_LENGTH} characters or fewer`);
+  }
+
+  await ensureDisputeTables();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const existing = await client.query(
+      'SELECT status, dispute_ends_at FROM resolution_proposals WHERE prediction_id = $1 AND chain = $2 FOR UPDATE',
+      [params.predictionId, params.chain]
+    );
+    const row = existing.rows[0];
+
+    if (!row) {
+      throw new RequestError(`No proposed resolution for prediction ${params.predictionId}`, 404);
+    }
+    if (row.status !== 'proposed' && row.status !== 'disputed') {
+      throw new RequestError(`Resolution for prediction ${params.predictionId} is already ${row.status}`, 409);
+    }
+    if (new Date(row.dispute_ends_at).getTime() <= Date.now()) {
+      throw new RequestError(`Dispute window for prediction ${params.predictionId} has closed`, 409);
+    }
+
+    const inserted = await client.query(`
+      INSERT INTO resolution_disputes (prediction_id, chain, staker, reason)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (prediction_id, chain, staker) DO NOTHING
+      RETURNING id
+    `, [params.predictionId, params.chain, params.staker.toLowerCase(), reason]);
+
+    if (inserted.rows.length === 0) {
+      throw new RequestError('You have already disputed this resolution', 409);
+    }
+
+    await client.query(`
+      UPDATE resolution_proposals
+      SET status = 'disputed', updated_at = NOW()
+      WHERE prediction_id = $1 AND chain = $2
+    `, [params.predictionId, params.chain]);
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return (await getProposal(params.predictionId, params.chain))!;
+}
+
+/**
+ * Undisputed proposals whose window has closed
+ */
+export async function getDueFinalizations(limit = 10): Promise<ResolutionProposal[]> {
+  await ensureDisputeTables();
+  const client = await pool.connect();
+
+  try {
+    const result = await client.query(`
+      SELECT * FROM resolution_proposals
+      WHERE status = 'proposed' AND dispute_ends_at <= NOW()
+      ORDER BY dispute_ends_at ASC
+      LIMIT $1
+    `, [limit]);
+
+    return result.rows.map((row) => mapProposalRow(row, []));
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Atomically move a proposal to 'finalizing' so only one caller sends the transaction
+ * The claim is a lease: see releaseExpiredFinalizations. Automatic finalization additionally
+ * requires the dispute window to have closed
+ */
+export async function claimProposalForFinalization(params: {
+  predictionId: number;
+  chain: SupportedChain;
+  from: ProposalStatus[];
+  requireWindowClosed: boolean;
+}): Promise<ResolutionProposal | null> {
+  await ensureDisputeTables();
+  const client = await pool.connect();
+
+  try {
+    const result = await client.query(`
+      UPDATE resolution_proposals
+      SET status = 'finalizing',
+          finalizing_from = status,
+          finalizing_expires_at = NOW() + make_interval(secs => $5),
+          updated_at = NOW()
+      WHERE prediction_id = $1 AND chain = $2
+        AND status = ANY($3)
+        AND (NOT $4 OR dispute_ends_at <= NOW())
+      RETURNING *
+    `, [params.predictionId, params.chain, params.from, params.requireWindowClosed, FINALIZING_LEASE_SECONDS]);
+
+    return result.rows[0] ? mapProposalRow(result.rows[0], []) : null;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Settle a claimed proposal, or hand it back to its previous state if the transaction failed
+ */
+export async function completeFinalization(params: {
+  predictionId: number;
+  chain: SupportedChain;
+  finalOutcome?: 'YES' | 'NO';
+  transactionHash?: string;
+  resolvedBy: string;
+  error?: string;
+  revertTo: ProposalStatus;
+}): Promise<void> {
+  await ensureDisputeTables();
+  const client = await pool.connect();
+
+  try {
+    if (params.error || !params.finalOutcome) {
+      await client.query(`
+        UPDATE resolution_proposals
+        SET status = $3, last_error = $4, finalizing_from = NULL, finalizing_expires_at = NULL, updated_at = NOW()
+        WHERE prediction_id = $1 AND chain = $2 AND status = 'finalizing'
+      `, [params.predictionId, params.chain, params.revertTo, params.error || 'No final outcome']);
+      return;
+    }
+
+    await client.query(`
+      UPDATE resolution_proposals
+      SET status = CASE WHEN outcome = $3 THEN 'finalized' ELSE 'overturned' END,
+          final_outcome = $3,
+          tx_hash = $4,
+          resolved_by = $5,
+          last_error = NULL,
+          finalizing_from = NULL,
+          finalizing_expires_at = NULL,
+          updated_at = NOW()
+      WHERE prediction_id = $1 AND chain = $2 AND status = 'finalizing'
+    `, [params.predictionId, params.chain, params.finalOutcome, params.transactionHash || null, params.resolvedBy]);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Hand proposals whose finalizing lease lapsed (the finalizer crashed or timed out) back to the
+ * state they were claimed from, so they are retried or ruled on again
+ * Returns how many were released
+ */
+export async function releaseExpiredFinalizations(): Promise<number> {
+  await ensureDisputeTables();
+  const client = await pool.connect();
+
+  try {
+    const result = await client.query(`
+      UPDATE resolution_proposals
+      SET status = COALESCE(finalizing_from, 'proposed'),
+          last_error = 'Finalization lease expired before the transaction was confirmed',
+          finalizing_from = NULL,
+          finalizing_expires_at = NULL,
+          updated_at = NOW()
+      WHERE status = 'finalizing' AND finalizing_expires_at <= NOW()
+    `);
+
+    return result.rowCount ?? 0;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Proposals the bot hasn't announced yet
+ */
+export async function getUnannouncedProposals(limit = 10): Promise<ResolutionProposal[]> {
+  await ensureDisputeTables();
+  const client = await pool.connect();
+
+  try {
+    const result = await client.query(`
+      SELECT * FROM resolution_proposals
+      WHERE announced_at IS NULL AND status IN ('proposed', 'disputed')
+      ORDER BY proposed_at ASC
+      LIMIT $1
+    `, [limit]);
+
+    return result.rows.map((row) => mapProposalRow(row, []));
+  } finally {
+    client.release();
+  }
+}
+
+export async function markProposalAnnounced(predictionId: number, chain: SupportedChain): Promise<void> {
+  await ensureDisputeTables();
+  const client = await pool.connect();
+
+  try {
+    await client.query(
+      'UPDATE resolution_proposals SET announced_at = NOW() WHERE prediction_id = $1 AND chain = $2',
+      [predictionId, chain]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+function mapDisputeRow(row: any): ResolutionDispute {
+  return {
+    id: row.id,
+    staker: row.staker,
+    reason: row.reason,
+    createdAt: new Date(row.created_at).toISOString()
+  };
+}
+
+function mapProposalRow(row: any, disputes: ResolutionDispute[]): ResolutionProposal {
+  return {
+    predictionId: row.prediction_id,
+    chain: row.chain,
+    title: row.title,
+    outcome: row.outcome,
+    confidence: Number(row.confidence),
+    source: row.source,
+    currentValue: row.current_value !== null ? Number(row.current_value) : undefined,
+    targetValue: row.target_value !== null ? Number(row.target_value) : undefined,
+    evidence: row.evidence || undefined,
+    status: row.status,
+    proposedAt: new Date(row.proposed_at).toISOString(),
+    disputeEndsAt: new Date(row.dispute_ends_at).toISOString(),
+    announcedAt: row.announced_at ? new Date(row.announced_at).toISOString() : null,
+    finalOutcome: row.final_outcome,
+    transactionHash: row.tx_hash,
+    resolvedBy: row.resolved_by,
+    lastError: row.last_error,
+    disputes
+  };
+}
@@ -0,0 +1,474 @@
+/**
+ * Resolution Ledger
+ * Postgres-backed queue and history of prediction resolution attempts, keyed by prediction and chain
+ * Survives bot restarts and serverless cold starts, unlike the old in-memory Maps; the in-memory
+ * store is for tests and scripts without a database
+ */
+
+import pool from '../db';
+import { ensureSchema } from '../migrations/runner';
+import type { SupportedChain } from './dual-chain-service';
+
+export type ResolutionQueueStatus = 'pending' | 'resolved' | 'failed' | 'manual';
+
+export interface ResolutionAttemptRecord {
+  id: number;
+  predictionId: number;
+  chain: SupportedChain;
+  attemptNumber: number;
+  resolutionType: string | null;
+  outcome: 'YES' | 'NO' | 'UNRESOLVED';
+  confidence: number;
+  sources: string[];
+  currentValue?: number;
+  targetValue?: number;
+  transactionHash?: string;
+  evidence?: Record<string, unknown>;
+  error?: string;
+  createdAt: string;
+}
+
+export interface ResolutionQueueEntry {
+  predictionId: number;
+  chain: SupportedChain;
+  title: string | null;
+  resolutionType: string;
+  status: ResolutionQueueStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+}
+
+export interface RecordAttemptParams {
+  predictionId: number;
+  chain: SupportedChain;
+  title?: string;
+  resolutionType: string;
+  success: boolean;
+  outcome: 'YES' | 'NO' | 'UNRESOLVED';
+  confidence: number;
+  sources: string[];
+  currentValue?: number;
+  targetValue?: number;
+  transactionHash?: string;
+  evidence?: Record<string, unknown>;
+  error?: string;
+}
+
+// Retry policy
+export const MAX_RESOLUTION_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+export interface ResolutionLedgerStore {
+  name: string;
+  enqueue(params: EnqueueResolutionParams): Promise<void>;
+  recordAttempt(params: RecordAttemptParams): Promise<ResolutionQueueEntry>;
+  isDue(predictionId: number, chain: SupportedChain): Promise<boolean>;
+  getDue(limit: number): Promise<ResolutionQueueEntry[]>;
+  getSummary(recentLimit: number): Promise<LedgerSummary>;
+  getHistory(predictionId: number, chain?: SupportedChain): Promise<ResolutionAttemptRecord[]>;
+}
+
+export interface EnqueueResolutionParams {
+  predictionId: number;
+  chain: SupportedChain;
+  title?: string;
+  resolutionType: string;
+}
+
+export interface LedgerSummary {
+  counts: Record<ResolutionQueueStatus, number>;
+  recent: ResolutionAttemptRecord[];
+}
+
+/**
+ * Make sure the ledger tables exist (migration 001, applied once per process)
+ */
+export function ensureResolutionLedger(): Promise<void> {
+  return ensureSchema();
+}
+
+/**
+ * Exponential backoff delay after a given number of failed attempts
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Queue state after an attempt: resolved, parked for a human, given up on, or retried after a backoff
+ */
+function nextQueueStatus(params: RecordAttemptParams, attempts: number): ResolutionQueueStatus {
+  if (params.success) {
+    return 'resolved';
+  }
+  if (params.resolutionType === 'manual') {
+    return 'manual';
+  }
+  return attempts >= MAX_RESOLUTION_ATTEMPTS ? 'failed' : 'pending';
+}
+
+async function postgresEnqueue(params: EnqueueResolutionParams): Promise<void> {
+  await ensureResolutionLedger();
+  const client = await pool.connect();
+
+  try {
+    await client.query(`
+      INSERT INTO resolution_queue (prediction_id, chain, title, resolution_type)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (prediction_id, chain) DO NOTHING
+    `, [params.predictionId, params.chain, params.title || null, params.resolutionType]);
+  } finally {
+    client.release();
+  }
+}
+
+async function postgresRecordAttempt(params: RecordAttemptParams): Promise<ResolutionQueueEntry> {
+  await ensureResolutionLedger();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const existing = await client.query(
+      'SELECT attempts FROM resolution_queue WHERE prediction_id = $1 AND chain = $2 FOR UPDATE',
+      [params.predictionId, params.chain]
+    );
+    const attempts = (existing.rows[0]?.attempts || 0) + 1;
+    const status = nextQueueStatus(params, attempts);
+    const nextAttemptAt = new Date(Date.now() + getRetryDelayMs(attempts));
+
+    const queueResult = await client.query(`
+      INSERT INTO resolution_queue (
+        prediction_id, chain, title, resolution_type, status, attempts, next_attempt_at, last_error
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (prediction_id, chain)
+      DO UPDATE SET
+        title = COALESCE($3, resolution_queue.title),
+        resolution_type = $4,
+        status = $5,
+        attempts = $6,
+        next_attempt_at = $7,
+        last_error = $8,
+        updated_at = NOW()
+      RETURNING *
+    `, [
+      params.predictionId,
+      params.chain,
+      params.title || null,
+      params.resolutionType,
+      status,
+      attempts,
+      nextAttemptAt,
+      params.error || null
+    ]);
+
+    await client.query(`
+      INSERT INTO resolution_attempts (
+        prediction_id, chain, attempt_number, resolution_type, outcome,
+        confidence, sources, current_value, target_value, tx_hash, error, evidence
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    `, [
+      params.predictionId,
+      params.chain,
+      attempts,
+      params.resolutionType,
+      params.outcome,
+      params.confidence,
+      JSON.stringify(params.sources),
+      params.currentValue ?? null,
+      params.targetValue ?? null,
+      params.transactionHash || null,
+      params.error || null,
+      params.evidence ? JSON.stringify(params.evidence) : null
+    ]);
+
+    await client.query('COMMIT');
+    return mapQueueRow(queueResult.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function postgresIsDue(predictionId: number, chain: SupportedChain): Promise<boolean> {
+  await ensureResolutionLedger();
+  const client = await pool.connect();
+
+  try {
+    const result = await client.query(
+      'SELECT status, next_attempt_at FROM resolution_queue WHERE prediction_id = $1 AND chain = $2',
+      [predictionId, chain]
+    );
+
+    if (result.rows.length === 0) {
+      return true;
+    }
+
+    const row = result.rows[0];
+    return row.status === 'pending' && new Date(row.next_attempt_at).getTime() <= Date.now();
+  } finally {
+    client.release();
+  }
+}
+
+async function postgresGetDue(limit: number): Promise<ResolutionQueueEntry[]> {
+  await ensureResolutionLedger();
+  const client = await pool.connect();
+
+  try {
+    const result = await client.query(`
+      SELECT * FROM resolution_queue
+      WHERE status = 'pending' AND next_attempt_at <= NOW()
+      ORDER BY next_attempt_at ASC
+      LIMIT $1
+    `, [limit]);
+
+    return result.rows.map(mapQueueRow);
+  } finally {
+    client.release();
+  }
+}
+
+async function postgresGetSummary(recentLimit: number): Promise<LedgerSummary> {
+  await ensureResolutionLedger();
+  const client = await pool.connect();
+
+  try {
+    const countResult = await client.query(
+      'SELECT status, COUNT(*)::int AS count FROM resolution_queue GROUP BY status'
+    );
+    const counts: Record<ResolutionQueueStatus, number> = {
+      pending: 0,
+      resolved: 0,
+      failed: 0,
+      manual: 0
+    };
+    for (const row of countResult.rows) {
+      counts[row.status as ResolutionQueueStatus] = row.count;
+    }
+
+    const recentResult = await client.query(
+      'SELECT * FROM resolution_attempts ORDER BY created_at DESC, id DESC LIMIT $1',
+      [recentLimit]
+    );
+
+    return { counts, recent: recentResult.rows.map(mapAttemptRow) };
+  } finally {
+    client.release();
+  }
+}
+
+async function postgresGetHistory(predictionId: number, chain?: SupportedChain): Promise<ResolutionAttemptRecord[]> {
+  await ensureResolutionLedger();
+  const client = await pool.connect();
+
+  try {
+    const result = chain
+      ? await client.query(
+          'SELECT * FROM resolution_attempts WHERE prediction_id = $1 AND chain = $2 ORDER BY id ASC',
+          [predictionId, chain]
+        )
+      : await client.query(
+          'SELECT * FROM resolution_attempts WHERE prediction_id = $1 ORDER BY id ASC',
+          [predictionId]
+        );
+
+    return result.rows.map(mapAttemptRow);
+  } finally {
+    client.release();
+  }
+}
+
+export function createPostgresResolutionLedgerStore(): ResolutionLedgerStore {
+  return {
+    name: 'postgres',
+    enqueue: postgresEnqueue,
+    recordAttempt: postgresRecordAttempt,
+    isDue: postgresIsDue,
+    getDue: postgresGetDue,
+    getSummary: postgresGetSummary,
+    getHistory: postgresGetHistory
+  };
+}
+
+/**
+ * Process-local ledger with the same queue semantics as the Postgres store
+ */
+export function createInMemoryResolutionLedgerStore(now: () => number = Date.now): ResolutionLedgerStore {
+  const queue = new Map<string, ResolutionQueueEntry>();
+  const attempts: ResolutionAttemptRecord[] = [];
+  const keyOf = (predictionId: number, chain: SupportedChain) => `${chain}:${predictionId}`;
+
+  return {
+    name: 'memory',
+
+    async enqueue(params) {
+      const key = keyOf(params.predictionId, params.chain);
+      if (!queue.has(key)) {
+        queue.set(key, {
+          predictionId: params.predictionId,
+          chain: params.chain,
+          title: params.title || null,
+          resolutionType: params.resolutionType,
+          status: 'pending',
+          attempts: 0,
+          nextAttemptAt: new Date(now()).toISOString(),
+          lastError: null
+        });
+      }
+    },
+
+    async recordAttempt(params) {
+      const key = keyOf(params.predictionId, params.chain);
+      const existing = queue.get(key);
+      const attemptNumber = (existing?.attempts || 0) + 1;
+
+      const entry: ResolutionQueueEntry = {
+        predictionId: params.predictionId,
+        chain: params.chain,
+        title: params.title || existing?.title || null,
+        resolutionType: params.resolutionType,
+        status: nextQueueStatus(params, attemptNumber),
+        attempts: attemptNumber,
+        nextAttemptAt: new Date(now() + getRetryDelayMs(attemptNumber)).toISOString(),
+        lastError: params.error || null
+      };
+      queue.set(key, entry);
+
+      attempts.push({
+        id: attempts.length + 1,
+        predictionId: params.predictionId,
+        chain: params.chain,
+        attemptNumber,
+        resolutionType: params.resolutionType,
+        outcome: params.outcome,
+        confidence: params.confidence,
+        sources: params.sources,
+        currentValue: params.currentValue,
+        targetValue: params.targetValue,
+        transactionHash: params.transactionHash,
+        evidence: params.evidence,
+        error: params.error,
+        createdAt: new Date(now()).toISOString()
+      });
+
+      return { ...entry };
+    },
+
+    async isDue(predictionId, chain) {
+      const entry = queue.get(keyOf(predictionId, chain));
+      return !entry || (entry.status === 'pending' && Date.parse(entry.nextAttemptAt) <= now());
+    },
+
+    async getDue(limit) {
+      return Array.from(queue.values())
+        .filter((entry) => entry.status === 'pending' && Date.parse(entry.nextAttemptAt) <= now())
+        .sort((a, b) => Date.parse(a.nextAttemptAt) - Date.parse(b.nextAttemptAt))
+        .slice(0, limit)
+        .map((entry) => ({ ...entry }));
+    },
+
+    async getSummary(recentLimit) {
+      const counts: Record<ResolutionQueueStatus, number> = { pending: 0, resolved: 0, failed: 0, manual: 0 };
+      for (const entry of queue.values()) {
+        counts[entry.status]++;
+      }
+      return { counts, recent: attempts.slice(-recentLimit).reverse() };
+    },
+
+    async getHistory(predictionId, chain) {
+      return attempts.filter((attempt) =>
+        attempt.predictionId === predictionId && (!chain || attempt.chain === chain)
+      );
+    }
+  };
+}
+
+let ledgerStore: ResolutionLedgerStore = createPostgresResolutionLedgerStore();
+
+/**
+ * Swap the ledger store (e.g. the in-memory one in tests); null restores Postgres
+ */
+export function setResolutionLedgerStore(store: ResolutionLedgerStore | null): void {
+  ledgerStore = store ?? createPostgresResolutionLedgerStore();
+}
+
+/**
+ * Add a prediction to the queue (no-op if it's already there)
+ */
+export function enqueueResolution(params: EnqueueResolutionParams): Promise<void> {
+  return ledgerStore.enqueue(params);
+}
+
+/**
+ * Record a resolution attempt and move the queue entry to its next state
+ */
+export function recordResolutionAttempt(params: RecordAttemptParams): Promise<ResolutionQueueEntry> {
+  return ledgerStore.recordAttempt(params);
+}
+
+/**
+ * Whether a prediction may be attempted now (not yet queued, or pending and past its backoff)
+ */
+export function isResolutionDue(predictionId: number, chain: SupportedChain): Promise<boolean> {
+  return ledgerStore.isDue(predictionId, chain);
+}
+
+/**
+ * Queue entries that are pending and past their backoff
+ */
+export function getDueResolutions(limit = 10): Promise<ResolutionQueueEntry[]> {
+  return ledgerStore.getDue(limit);
+}
+
+/**
+ * Queue counts by status plus the most recent attempts
+ */
+export function getLedgerSummary(recentLimit = 10): Promise<LedgerSummary> {
+  return ledgerStore.getSummary(recentLimit);
+}
+
+/**
+ * Full attempt history for one prediction, oldest first
+ */
+export function getResolutionHistory(predictionId: number, chain?: SupportedChain): Promise<ResolutionAttemptRecord[]> {
+  return ledgerStore.getHistory(predictionId, chain);
+}
+
+function mapQueueRow(row: any): ResolutionQueueEntry {
+  return {
+    predictionId: row.prediction_id,
+    chain: row.chain,
+    title: row.title,
+    resolutionType: row.resolution_type,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: new Date(row.next_attempt_at).toISOString(),
+    lastError: row.last_error
+  };
+}
+
+function mapAttemptRow(row: any): ResolutionAttemptRecord {
+  return {
+    id: row.id,
+    predictionId: row.prediction_id,
+    chain: row.chain,
+    attemptNumber: row.attempt_number,
+    resolutionType: row.resolution_type,
+    outcome: row.outcome,
+    confidence: Number(row.confidence),
+    sources: row.sources || [],
+    currentValue: row.current_value !== null ? Number(row.current_value) : undefined,
+    targetValue: row.target_value !== null ? Number(row.target_value) : undefined,
+    transactionHash: row.tx_hash || undefined,
+    evidence: row.evidence || undefined,
+    error: row.error || undefined,
+    createdAt: new Date(row.created_at).toISOString()
+  };
+}
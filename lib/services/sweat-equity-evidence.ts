@@ -0,0 +1,585 @@
+/**
+ * Sweat Equity Evidence
+ * Content-hashed storage for recovery challenge proofs and the checks that turn them into a verdict
+ *
+ * A verdict is built from:
+ * - hard rule checks that must all pass (count vs target, 24h window, duplicates, proof hash, content type,
+ *   and a peer review for photo, video and community proofs, whose rep counts are only self-reported)
+ * - weighted signals (rule plausibility, LLM review, community votes) combined into a 0..1 score
+ */
+
+import { createHash } from 'crypto';
+import pool from '../db';
+import type { Pool, PoolClient } from 'pg';
+import { ensureSchema } from '../migrations/runner';
+import { BOT_CONFIG } from '../xmtp-constants';
+import { importWorkouts, toVerificationMetadata } from '../workout-import';
+import { fromContractExerciseType } from '../exercises';
+import type { SweatEquityChallenge, VerificationProof } from '../sweat-equity-bot-integration';
+import type { CommunityReview } from './community-review';
+
+export type EvidenceMethod = VerificationProof['method'];
+
+// Mirrors SweatEquityBot.SWEAT_EQUITY_WINDOW
+export const SWEAT_EQUITY_WINDOW_SECONDS = 24 * 60 * 60;
+
+// Weighted score needed for approval once every hard check passes
+export const APPROVAL_THRESHOLD = 0.7;
+
+// Fastest believable sustained pace for push-ups/squats
+const MAX_REPS_PER_MINUTE = 60;
+
+// Evidence timestamps may run slightly ahead of the server clock
+const CLOCK_SKEW_SECONDS = 5 * 60;
+
+const SIGNAL_WEIGHTS = {
+  rules: 0.6,
+  llm: 0.4,
+  community: 0.6,
+} as const;
+
+const ACCEPTED_MIME_TYPES: Record<EvidenceMethod, string[]> = {
+  photo: ['image/jpeg', 'image/png', 'image/webp', 'image/heic'],
+  video: ['video/mp4', 'video/quicktime', 'video/webm'],
+  wearable: ['application/json', 'application/xml', 'text/xml', 'application/gpx+xml', 'application/vnd.garmin.tcx+xml', 'application/octet-stream'],
+  community: ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'video/mp4', 'video/quicktime', 'video/webm', 'application/json'],
+};
+
+export function getMaxEvidenceBytes(): number {
+  const configured = Number(process.env.SWEAT_EQUITY_EVIDENCE_MAX_BYTES);
+  return Number.isFinite(configured) && configured > 0 ? configured : 8 * 1024 * 1024;
+}
+
+export interface EvidenceMetadata {
+  exerciseCount?: number;
+  duration?: number; // seconds
+  distance?: number;
+  calories?: number;
+  heartRate?: number;
+  plausible?: boolean; // Wearable files: outcome of the workout sanity checks
+  issues?: string[]; // Wearable files: sanity-check issue codes
+}
+
+export interface EvidenceRecord {
+  id: number;
+  challengeId: number;
+  method: EvidenceMethod;
+  submitter: string;
+  contentHash: string;
+  mimeType: string;
+  sizeBytes: number;
+  metadata: EvidenceMetadata;
+  capturedAt: string;
+  createdAt: string;
+  duplicateOf: number[]; // Other challenges that already used this content
+}
+
+export interface EvidenceCheck {
+  name: string;
+  passed: boolean;
+  hard: boolean; // Hard checks veto approval; soft checks feed the rules signal
+  detail: string;
+}
+
+export interface VerificationSignal {
+  source: keyof typeof SIGNAL_WEIGHTS;
+  weight: number;
+  score: number; // 0..1, how strongly this source supports approval
+  detail: string;
+}
+
+export interface LlmVerdict {
+  verdict: 'APPROVE' | 'REJECT';
+  confidence: number;
+  reasoning: string;
+}
+
+export type CommunityReviewSummary = Pick<CommunityReview, 'status' | 'proofHash' | 'approveWeight' | 'rejectWeight'>;
+
+export interface EvidenceVerificationResult {
+  challengeId: number;
+  method: EvidenceMethod;
+  proofHash: string;
+  approved: boolean;
+  score: number;
+  threshold: number;
+  checks: EvidenceCheck[];
+  signals: VerificationSignal[];
+  llm?: LlmVerdict;
+  communityReview?: CommunityReviewSummary;
+  evidenceIds: number[];
+  transactionHash?: string;
+  error?: string;
+}
+
+export function hashEvidenceContent(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * The proof hash submitted on-chain: a hash over the challenge's evidence hashes, order-independent
+ */
+export function computeEvidenceBundleHash(challengeId: number, contentHashes: string[]): string {
+  const sorted = [...contentHashes].sort();
+  return `0x${createHash('sha256').update(`${challengeId}:${sorted.join(',')}`).digest('hex')}`;
+}
+
+/**
+ * Sniff the real content type from magic bytes so a renamed file can't pass as a photo or video
+ */
+export function detectContentType(content: Buffer): string | null {
+  if (content.length >= 3 && content[0] === 0xff && content[1] === 0xd8 && content[2] === 0xff) return 'image/jpeg';
+  if (content.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (content.subarray(0, 4).toString('ascii') === 'RIFF' && content.subarray(8, 12).toString('ascii') === 'WEBP') return 'image/webp';
+  if (content.subarray(0, 4).equals(Buffer.from([0x1a, 0x45, 0xdf, 0xa3]))) return 'video/webm';
+
+  if (content.subarray(4, 8).toString('ascii') === 'ftyp') {
+    const brand = content.subarray(8, 12).toString('ascii');
+    if (brand.startsWith('heic') || brand.startsWith('heix') || brand.startsWith('mif1')) return 'image/heic';
+    if (brand === 'qt  ') return 'video/quicktime';
+    return 'video/mp4';
+  }
+
+  // FIT files carry ".FIT" at byte 8
+  if (content.subarray(8, 12).toString('ascii') === '.FIT') return 'application/octet-stream';
+
+  const head = content.subarray(0, 256).toString('utf8').trimStart();
+  if (head.startsWith('{') || head.startsWith('[')) return 'application/json';
+  if (head.startsWith('<')) return 'application/xml';
+
+  return null;
+}
+
+function isCompatibleType(method: EvidenceMethod, declared: string, detected: string | null): boolean {
+  if (!detected || !ACCEPTED_MIME_TYPES[method].includes(declared)) {
+    return false;
+  }
+
+  const family = (type: string) => (type.endsWith('xml') || type === 'text/xml' ? 'xml' : type);
+  return family(declared) === family(detected) || (method === 'wearable' && detected === 'application/octet-stream');
+}
+
+function mapEvidenceRow(row: any): EvidenceRecord {
+  return {
+    id: row.id,
+    challengeId: row.challenge_id,
+    method: row.method,
+    submitter: row.submitter,
+    contentHash: row.content_hash,
+    mimeType: row.mime_type,
+    sizeBytes: row.size_bytes,
+    metadata: row.metadata || {},
+    capturedAt: new Date(row.captured_at).toISOString(),
+    createdAt: new Date(row.created_at).toISOString(),
+    duplicateOf: (row.duplicate_of || []).map(Number),
+  };
+}
+
+/**
+ * Store an uploaded evidence file; re-uploading the same content to a challenge is a no-op
+ */
+export async function storeEvidence(params: {
+  challengeId: number;
+  method: EvidenceMethod;
+  submitter: string;
+  mimeType: string;
+  content: Buffer;
+  capturedAt: Date;
+  metadata?: EvidenceMetadata;
+}): Promise<EvidenceRecord> {
+  if (params.content.length === 0) {
+    throw new Error('Evidence file is empty');
+  }
+
+  if (params.content.length > getMaxEvidenceBytes()) {
+    throw new Error(`Evidence file exceeds ${getMaxEvidenceBytes()} bytes`);
+  }
+
+  if (Number.isNaN(params.capturedAt.getTime())) {
+    throw new Error('Invalid capture timestamp');
+  }
+
+  if (!isCompatibleType(params.method, params.mimeType, detectContentType(params.content))) {
+    throw new Error(`File content does not match a ${params.method} upload (${params.mimeType})`);
+  }
+
+  // Wearable files are parsed so the device's numbers replace whatever the client reported, reps
+  // included: a file without a rep count proves none
+  let { metadata, capturedAt } = params;
+  if (params.method === 'wearable') {
+    const workouts = importWorkouts(params.content);
+    const workout = workouts.sort((a, b) => b.totals.durationSeconds - a.totals.durationSeconds)[0];
+    if (!workout) {
+      throw new Error('No workout found in wearable file');
+    }
+
+    const derived = Object.fromEntries(
+      Object.entries(toVerificationMetadata(workout)).filter(([, value]) => value !== undefined)
+    );
+    metadata = { ...metadata, exerciseCount: undefined, ...derived, plausible: workout.plausible, issues: workout.issues.map(i => i.code) };
+    capturedAt = new Date(workout.startTime);
+  }
+
+  await ensureSchema();
+  const client = await pool.connect();
+
+  try {
+    const contentHash = hashEvidenceContent(params.content);
+
+    await client.query(`
+      INSERT INTO sweat_equity_evidence (
+        challenge_id, method, submitter, content_hash, mime_type, size_bytes, content, metadata, captured_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (challenge_id, content_hash) DO NOTHING
+    `, [
+      params.challengeId,
+      params.method,
+      params.submitter.toLowerCase(),
+      contentHash,
+      params.mimeType,
+      params.content.length,
+      params.content,
+      JSON.stringify(metadata || {}),
+      capturedAt,
+    ]);
+
+    const [record] = await selectEvidence(client, params.challengeId, contentHash);
+    return record;
+  } finally {
+    client.release();
+  }
+}
+
+async function selectEvidence(client: PoolClient | Pool, challengeId: number, contentHash?: string): Promise<EvidenceRecord[]> {
+  const result = await client.query(`
+    SELECT e.id, e.challenge_id, e.method, e.submitter, e.content_hash, e.mime_type, e.size_bytes,
+           e.metadata, e.captured_at, e.created_at,
+           ARRAY(
+             SELECT DISTINCT other.challenge_id FROM sweat_equity_evidence other
+             WHERE other.content_hash = e.content_hash AND other.challenge_id <> e.challenge_id
+           ) AS duplicate_of
+    FROM sweat_equity_evidence e
+    WHERE e.challenge_id = $1 AND ($2::text IS NULL OR e.content_hash = $2)
+    ORDER BY e.created_at ASC
+  `, [challengeId, contentHash ?? null]);
+
+  return result.rows.map(mapEvidenceRow);
+}
+
+/**
+ * All evidence uploaded for a challenge, with cross-challenge duplicates flagged
+ */
+export async function getChallengeEvidence(challengeId: number): Promise<EvidenceRecord[]> {
+  await ensureSchema();
+  const client = await pool.connect();
+
+  try {
+    return await selectEvidence(client, challengeId);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Raw content of one evidence file, for peer reviewers
+ */
+export async function getEvidenceContent(challengeId: number, evidenceId: number): Promise<{ mimeType: string; content: Buffer } | null> {
+  await ensureSchema();
+  const result = await pool.query(
+    'SELECT mime_type, content FROM sweat_equity_evidence WHERE challenge_id = $1 AND id = $2',
+    [challengeId, evidenceId]
+  );
+
+  return result.rows.length > 0 ? { mimeType: result.rows[0].mime_type, content: result.rows[0].content } : null;
+}
+
+/**
+ * Deterministic checks over the stored evidence; pure so it can be tested without a database
+ */
+export function runEvidenceChecks(params: {
+  challenge: Pick<SweatEquityChallenge, 'user' | 'targetAmount' | 'createdAt' | 'deadline'>;
+  proof: Pick<VerificationProof, 'challengeId' | 'method' | 'proofHash' | 'metadata'>;
+  evidence: EvidenceRecord[];
+  communityReview?: CommunityReviewSummary | null;
+  now?: number; // Epoch seconds
+}): EvidenceCheck[] {
+  const { challenge, proof, evidence, communityReview } = params;
+  const now = params.now ?? Math.floor(Date.now() / 1000);
+  const checks: EvidenceCheck[] = [];
+
+  checks.push({
+    name: 'evidence_present',
+    passed: evidence.length > 0,
+    hard: true,
+    detail: `${evidence.length} evidence file(s) uploaded`,
+  });
+
+  const wrongMethod = evidence.filter(e => e.method !== proof.method);
+  checks.push({
+    name: 'method_consistent',
+    passed: wrongMethod.length === 0,
+    hard: true,
+    detail: wrongMethod.length === 0 ? `All evidence is ${proof.method}` : `${wrongMethod.length} file(s) uploaded for another method`,
+  });
+
+  const foreignSubmitters = evidence.filter(e => e.submitter !== challenge.user.toLowerCase());
+  checks.push({
+    name: 'submitted_by_challenger',
+    passed: foreignSubmitters.length === 0,
+    hard: true,
+    detail: foreignSubmitters.length === 0 ? 'Uploaded by the challenge owner' : `${foreignSubmitters.length} file(s) uploaded by someone else`,
+  });
+
+  const expectedHash = computeEvidenceBundleHash(proof.challengeId, evidence.map(e => e.contentHash));
+  checks.push({
+    name: 'proof_hash_matches',
+    passed: proof.proofHash.toLowerCase() === expectedHash,
+    hard: true,
+    detail: `Expected ${expectedHash}`,
+  });
+
+  // The challenge window is SWEAT_EQUITY_WINDOW from creation; the on-chain deadline wins if earlier
+  const windowEnd = Math.min(challenge.createdAt + SWEAT_EQUITY_WINDOW_SECONDS, challenge.deadline || Infinity);
+  const outsideWindow = evidence.filter(e => {
+    const captured = Math.floor(new Date(e.capturedAt).getTime() / 1000);
+    return captured < challenge.createdAt || captured > windowEnd || captured > now + CLOCK_SKEW_SECONDS;
+  });
+  checks.push({
+    name: 'within_window',
+    passed: outsideWindow.length === 0 && now <= windowEnd,
+    hard: true,
+    detail: outsideWindow.length > 0
+      ? `${outsideWindow.length} file(s) captured outside the 24h challenge window`
+      : now > windowEnd ? 'Challenge window has closed' : 'All evidence captured inside the 24h challenge window',
+  });
+
+  // Only wearable files yield rep counts from the data itself; photo, video and community reps are
+  // whatever the user typed, so peer review must have approved this exact evidence bundle
+  if (proof.method !== 'wearable') {
+    const reviewedHash = communityReview?.proofHash.toLowerCase();
+    checks.push({
+      name: 'community_review',
+      passed: communityReview?.status === 'approved' && reviewedHash === proof.proofHash.toLowerCase(),
+      hard: true,
+      detail: !communityReview
+        ? `No community review opened: ${proof.method} rep counts are self-reported`
+        : reviewedHash !== proof.proofHash.toLowerCase()
+          ? 'Evidence changed after the review was opened'
+          : `Community review ${communityReview.status}`,
+    });
+  }
+
+  // Wearable files must pass the workout sanity checks run when they were uploaded
+  if (proof.method === 'wearable') {
+    const implausible = evidence.filter(e => e.metadata.plausible === false);
+    checks.push({
+      name: 'wearable_plausible',
+      passed: implausible.length === 0,
+      hard: true,
+      detail: implausible.length === 0
+        ? 'Wearable data passed pace and heart-rate sanity checks'
+        : `Implausible wearable data: ${Array.from(new Set(implausible.flatMap(e => e.metadata.issues || []))).join(', ')}`,
+    });
+  }
+
+  const duplicates = evidence.filter(e => e.duplicateOf.length > 0);
+  checks.push({
+    name: 'no_duplicate_evidence',
+    passed: duplicates.length === 0,
+    hard: true,
+    detail: duplicates.length === 0
+      ? 'No evidence reused from other challenges'
+      : `Reused from challenge(s) ${Array.from(new Set(duplicates.flatMap(e => e.duplicateOf))).join(', ')}`,
+  });
+
+  // Reported reps: the proof's metadata, or the sum across evidence files; wearable proofs only
+  // count what the device files recorded
+  const evidenceCount = evidence.reduce((sum, e) => sum + (e.metadata.exerciseCount || 0), 0);
+  const reportedCount = proof.method === 'wearable' ? evidenceCount : proof.metadata?.exerciseCount ?? evidenceCount;
+  checks.push({
+    name: 'count_meets_target',
+    passed: reportedCount >= challenge.targetAmount,
+    hard: true,
+    detail: `${reportedCount} of ${challenge.targetAmount} reps reported`,
+  });
+
+  const evidenceCounts = evidence.map(e => e.metadata.exerciseCount).filter((c): c is number => typeof c === 'number');
+  const evidenceTotal = evidenceCounts.reduce((sum, c) => sum + c, 0);
+  checks.push({
+    name: 'counts_consistent',
+    passed: evidenceCounts.length === 0 || proof.metadata?.exerciseCount === undefined || evidenceTotal >= proof.metadata.exerciseCount,
+    hard: false,
+    detail: evidenceCounts.length === 0 ? 'No per-file counts to compare' : `Files report ${evidenceTotal} reps in total`,
+  });
+
+  const duration = proof.metadata?.duration;
+  const pace = duration && duration > 0 ? reportedCount / (duration / 60) : undefined;
+  checks.push({
+    name: 'plausible_pace',
+    passed: pace === undefined || pace <= MAX_REPS_PER_MINUTE,
+    hard: false,
+    detail: pace === undefined ? 'No duration reported' : `${pace.toFixed(1)} reps/min (max ${MAX_REPS_PER_MINUTE})`,
+  });
+
+  checks.push({
+    name: 'duration_reported',
+    passed: duration !== undefined && duration > 0,
+    hard: false,
+    detail: duration ? `${Math.round(duration / 60)} min of activity` : 'No duration reported',
+  });
+
+  return checks;
+}
+
+/**
+ * Combine hard checks and weighted signals into a verdict; signals missing a source are renormalized
+ */
+export function scoreVerification(checks: EvidenceCheck[], llm?: LlmVerdict, community?: CommunityReviewSummary): {
+  approved: boolean;
+  score: number;
+  signals: VerificationSignal[];
+} {
+  const soft = checks.filter(c => !c.hard);
+  const signals: VerificationSignal[] = [{
+    source: 'rules',
+    weight: SIGNAL_WEIGHTS.rules,
+    score: soft.length > 0 ? soft.filter(c => c.passed).length / soft.length : 1,
+    detail: `${soft.filter(c => c.passed).length}/${soft.length} plausibility checks passed`,
+  }];
+
+  if (llm) {
+    signals.push({
+      source: 'llm',
+      weight: SIGNAL_WEIGHTS.llm,
+      score: llm.verdict === 'APPROVE' ? llm.confidence : 1 - llm.confidence,
+      detail: `${llm.verdict} (${Math.round(llm.confidence * 100)}%): ${llm.reasoning}`,
+    });
+  }
+
+  const communityWeight = community ? community.approveWeight + community.rejectWeight : 0;
+  if (community && communityWeight > 0) {
+    signals.push({
+      source: 'community',
+      weight: SIGNAL_WEIGHTS.community,
+      score: community.approveWeight / communityWeight,
+      detail: `${community.status}: ${community.approveWeight.toFixed(2)} approve vs ${community.rejectWeight.toFixed(2)} reject (reputation-weighted)`,
+    });
+  }
+
+  const totalWeight = signals.reduce((sum, s) => sum + s.weight, 0);
+  const score = signals.reduce((sum, s) => sum + s.weight * s.score, 0) / totalWeight;
+  const hardPassed = checks.filter(c => c.hard).every(c => c.passed);
+
+  return { approved: hardPassed && score >= APPROVAL_THRESHOLD, score, signals };
+}
+
+/**
+ * Parse the reviewer's JSON reply; anything malformed counts as no signal rather than a guess
+ */
+export function parseLlmVerdict(reply: string): LlmVerdict | undefined {
+  try {
+    const parsed = JSON.parse(reply.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    const verdict = String(parsed.verdict || '').toUpperCase();
+    const confidence = Number(parsed.confidence);
+
+    if ((verdict !== 'APPROVE' && verdict !== 'REJECT') || !Number.isFinite(confidence)) {
+      return undefined;
+    }
+
+    return {
+      verdict,
+      confidence: Math.min(1, Math.max(0, confidence)),
+      reasoning: String(parsed.reasoning || '').slice(0, 500),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Ask the model to review the evidence summary and rule results; returns undefined if unavailable
+ */
+export async function requestLlmVerdict(params: {
+  challenge: Pick<SweatEquityChallenge, 'exerciseType' | 'targetAmount'>;
+  proof: Pick<VerificationProof, 'challengeId' | 'method' | 'metadata'>;
+  evidence: EvidenceRecord[];
+  checks: EvidenceCheck[];
+}): Promise<LlmVerdict | undefined> {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    return undefined;
+  }
+
+  const summary = {
+    challengeId: params.proof.challengeId,
+    exercise: fromContractExerciseType(params.challenge.exerciseType)?.id ?? `unknown (${params.challenge.exerciseType})`,
+    targetAmount: params.challenge.targetAmount,
+    method: params.proof.method,
+    reportedMetadata: params.proof.metadata || {},
+    evidence: params.evidence.map(e => ({
+      mimeType: e.mimeType,
+      sizeBytes: e.sizeBytes,
+      capturedAt: e.capturedAt,
+      metadata: e.metadata,
+    })),
+    ruleChecks: params.checks.map(({ name, passed, detail }) => ({ name, passed, detail })),
+  };
+
+  try {
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: BOT_CONFIG.MODEL,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          {
+            role: 'system',
+            content: 'You review exercise evidence for a fitness stake-recovery challenge. ' +
+              'Judge whether the metadata is internally consistent and plausible for a real workout. ' +
+              'Reply with JSON only: {"verdict":"APPROVE"|"REJECT","confidence":0..1,"reasoning":"<one sentence>"}',
+          },
+          { role: 'user', content: JSON.stringify(summary) },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return parseLlmVerdict(data.choices?.[0]?.message?.content || '');
+  } catch (error) {
+    console.error('❌ LLM evidence review failed:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Persist a verification result for auditing
+ */
+export async function recordVerification(result: EvidenceVerificationResult): Promise<void> {
+  await ensureSchema();
+  await pool.query(`
+    INSERT INTO sweat_equity_verifications (
+      challenge_id, method, proof_hash, approved, score, checks, signals, tx_hash, error
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+  `, [
+    result.challengeId,
+    result.method,
+    result.proofHash,
+    result.approved,
+    result.score,
+    JSON.stringify(result.checks),
+    JSON.stringify(result.signals),
+    result.transactionHash || null,
+    result.error || null,
+  ]);
+}
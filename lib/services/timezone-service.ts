@@ -244,7 +244,7 @@ function parseRelativeDate(dateText: string, timezone: string): Date {
 /**
  * Detect user timezone from location or browser
  */
-async function detectUserTimezone(userLocation?: string): Promise<string | null> {
+export async function detectUserTimezone(userLocation?: string): Promise<string | null> {
   if (userLocation) {
     // Use timezone API to get timezone from location
     try {
@@ -336,3 +336,41 @@ export function validatePredictionDate(timestamp: number): {
     warnings
   };
 }
+
+/**
+ * Whether a string is an IANA timezone the runtime understands (e.g. "America/Los_Angeles")
+ */
+export function isValidTimeZone(timezone: string): boolean {
+  if (!timezone) return false;
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant as seen in a timezone
+ * DST-safe: the offset is resolved for that exact instant by Intl
+ */
+export function getLocalDateString(instant: Date | number, timezone: string = 'UTC'): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(instant);
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value;
+  return `${get('year')}-${get('month')}-${get('day')}`;
+}
+
+/**
+ * Move a YYYY-MM-DD calendar date by whole days (pure calendar math, no timezone involved)
+ */
+export function shiftDateString(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
@@ -0,0 +1,209 @@
+/**
+ * Workout Store
+ * Postgres-backed imported workouts (see lib/workout-import), keyed by Farcaster ID like user_streaks
+ * Plausible workouts mark their day active in the user's streak and count toward distance predictions
+ * and the user's running/cycling exercise totals
+ */
+
+import pool from '../db';
+import { ensureSchema } from '../migrations/runner';
+import { refreshWorkoutExerciseTotals } from './exercise-totals';
+import type { NormalizedWorkout, WorkoutIssue, WorkoutSport, WorkoutTotals } from '../workout-import';
+
+// Timeline points kept per workout; longer recordings are evenly thinned
+const MAX_STORED_SAMPLES = 2000;
+
+export interface StoredWorkout {
+  id: number;
+  userId: string;
+  source: NormalizedWorkout['source'];
+  sport: WorkoutSport;
+  startTime: string;
+  endTime: string;
+  totals: WorkoutTotals;
+  issues: WorkoutIssue[];
+  plausible: boolean;
+  sampleCount: number;
+  createdAt: string;
+}
+
+export interface WorkoutImportResult {
+  saved: StoredWorkout[];
+  duplicates: number; // Workouts overlapping one already imported (e.g. the same run from two devices)
+}
+
+export function thinSamples<T>(samples: T[], max: number = MAX_STORED_SAMPLES): T[] {
+  if (samples.length <= max) {
+    return samples;
+  }
+
+  const step = (samples.length - 1) / (max - 1);
+  return Array.from({ length: max }, (_, i) => samples[Math.round(i * step)]);
+}
+
+function mapWorkoutRow(row: any): StoredWorkout {
+  const optional = (value: unknown) => (value === null || value === undefined ? undefined : Number(value));
+
+  return {
+    id: row.id,
+    userId: row.user_id,
+    source: row.source,
+    sport: row.sport,
+    startTime: new Date(row.start_time).toISOString(),
+    endTime: new Date(row.end_time).toISOString(),
+    totals: {
+      durationSeconds: Number(row.duration_seconds),
+      distanceMeters: Number(row.distance_meters),
+      calories: optional(row.calories),
+      avgHeartRate: optional(row.avg_heart_rate),
+      maxHeartRate: optional(row.max_heart_rate),
+      elevationGainMeters: optional(row.elevation_gain_meters),
+      avgSpeed: Number(row.duration_seconds) > 0 ? Number(row.distance_meters) / Number(row.duration_seconds) : undefined,
+    },
+    issues: row.issues || [],
+    plausible: row.plausible,
+    sampleCount: Number(row.sample_count ?? 0),
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+const WORKOUT_COLUMNS = `
+  id, user_id, source, sport, start_time, end_time, duration_seconds, distance_meters, calories,
+  avg_heart_rate, max_heart_rate, elevation_gain_meters, issues, plausible, created_at,
+  jsonb_array_length(samples) AS sample_count
+`;
+
+/**
+ * Store imported workouts and mark the days of plausible ones active in the user's streak
+ * A workout of the same sport overlapping one already stored is skipped, so files can't be double counted
+ */
+export async function saveImportedWorkouts(
+  userId: string,
+  workouts: NormalizedWorkout[],
+  contentHash: string
+): Promise<WorkoutImportResult> {
+  await ensureSchema();
+  const client = await pool.connect();
+  const saved: StoredWorkout[] = [];
+  let duplicates = 0;
+
+  try {
+    await client.query('BEGIN');
+
+    for (const workout of workouts) {
+      const result = await client.query(`
+        INSERT INTO imported_workouts (
+          user_id, source, sport, content_hash, start_time, end_time, duration_seconds, distance_meters,
+          calories, avg_heart_rate, max_heart_rate, elevation_gain_meters, samples, issues, plausible
+        )
+        SELECT $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15
+        WHERE NOT EXISTS (
+          SELECT 1 FROM imported_workouts
+          WHERE user_id = $1 AND sport = $3 AND start_time < $6 AND end_time > $5
+        )
+        ON CONFLICT (user_id, sport, start_time) DO NOTHING
+        RETURNING ${WORKOUT_COLUMNS}
+      `, [
+        userId,
+        workout.source,
+        workout.sport,
+        contentHash,
+        workout.startTime,
+        workout.endTime,
+        workout.totals.durationSeconds,
+        workout.totals.distanceMeters,
+        workout.totals.calories ?? null,
+        workout.totals.avgHeartRate ?? null,
+        workout.totals.maxHeartRate ?? null,
+        workout.totals.elevationGainMeters ?? null,
+        JSON.stringify(thinSamples(workout.samples)),
+        JSON.stringify(workout.issues),
+        workout.plausible,
+      ]);
+
+      if (result.rows.length === 0) {
+        duplicates++;
+      } else {
+        saved.push(mapWorkoutRow(result.rows[0]));
+      }
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  // Each plausible workout counts as activity on its (local) day
+  const { updateUserStreak } = await import('../streaks-service-pg');
+  for (const workout of saved.filter(w => w.plausible)) {
+    await updateUserStreak(userId, new Date(workout.startTime));
+  }
+
+  if (saved.some(w => w.plausible)) {
+    await refreshWorkoutExerciseTotals(userId);
+  }
+
+  return { saved, duplicates };
+}
+
+/**
+ * A user's most recent imported workouts, without their timelines
+ */
+export async function getRecentWorkouts(userId: string, limit: number = 20): Promise<StoredWorkout[]> {
+  await ensureSchema();
+  const result = await pool.query(`
+    SELECT ${WORKOUT_COLUMNS}
+    FROM imported_workouts
+    WHERE user_id = $1
+    ORDER BY start_time DESC
+    LIMIT $2
+  `, [userId, limit]);
+
+  return result.rows.map(mapWorkoutRow);
+}
+
+/**
+ * Sample timeline for one workout
+ */
+export async function getWorkoutSamples(userId: string, workoutId: number): Promise<NormalizedWorkout['samples'] | null> {
+  await ensureSchema();
+  const result = await pool.query(
+    'SELECT samples FROM imported_workouts WHERE user_id = $1 AND id = $2',
+    [userId, workoutId]
+  );
+
+  return result.rows.length > 0 ? result.rows[0].samples : null;
+}
+
+/**
+ * Distance and time covered by a user's plausible workouts of one sport that started inside a window
+ * Only workouts imported by the window's end count; files uploaded after the deadline can't change
+ * an outcome automatically and have to be raised through a resolution dispute instead
+ */
+export async function getWorkoutTotals(params: {
+  userId: string;
+  sport: WorkoutSport;
+  from: number; // Epoch seconds
+  to: number;
+}): Promise<{ workouts: number; distanceMeters: number; durationSeconds: number }> {
+  await ensureSchema();
+  const result = await pool.query(`
+    SELECT COUNT(*)::int AS workouts,
+           COALESCE(SUM(distance_meters), 0) AS distance_meters,
+           COALESCE(SUM(duration_seconds), 0) AS duration_seconds
+    FROM imported_workouts
+    WHERE user_id = $1 AND sport = $2 AND plausible
+      AND start_time >= to_timestamp($3) AND start_time <= to_timestamp($4)
+      AND created_at <= to_timestamp($4)
+  `, [params.userId, params.sport, params.from, params.to]);
+
+  const row = result.rows[0];
+  return {
+    workouts: row.workouts,
+    distanceMeters: Number(row.distance_meters),
+    durationSeconds: Number(row.duration_seconds),
+  };
+}
@@ -191,7 +191,7 @@ export class XMTPAgentService {
 
       // Handle prediction market queries
       if (!response && this.config.enablePredictionMarkets) {
-        response = await this.handlePredictionQuery(message.content, senderAddress);
+        response = await this.handlePredictionQuery(message.content, senderAddress, message.conversationId);
       }
 
       // Handle general fitness queries
@@ -241,8 +241,9 @@ export class XMTPAgentService {
 
   /**
    * Handle prediction market queries
+   * Proposals remember the XMTP conversation they came from, so drafts and confirmations carry over
    */
-  private async handlePredictionQuery(content: string, senderAddress: string): Promise<string | null> {
+  private async handlePredictionQuery(content: string, senderAddress: string, conversationId: string): Promise<string | null> {
     const lowerContent = content.toLowerCase();
 
     // Check for prediction intent
@@ -255,7 +256,7 @@ export class XMTPAgentService {
           return "🤖 Prediction markets are temporarily unavailable. Please try again later!";
         }
 
-        return await generatePredictionProposal(content, apiKey, `agent_${Date.now()}`);
+        return await generatePredictionProposal(content, apiKey, conversationId);
       } catch (error) {
         console.error("❌ Error generating prediction proposal:", error);
         return null;
@@ -0,0 +1,172 @@
+/**
+ * Sports Central Adapters
+ * Read one source app's exercise totals, either from its HTTP stats endpoint or its leaderboard contracts
+ */
+
+import { z } from 'zod';
+import { EXERCISES, normalizeExerciseId, type ExerciseId } from '../exercises';
+import { fetchAllNetworksDataServer, type NetworkData } from '../services/blockchain-server';
+import { SPORTS_APPS } from './apps';
+import type { SourceSnapshot, SportsApp, SportsSourceAdapter } from './types';
+
+/**
+ * What a source app's stats endpoint must return, globally or for ?user=0x...
+ */
+export const sourceResponseSchema = z.object({
+  totals: z.record(z.string(), z.number().finite().nonnegative()),
+  users: z.array(z.string()).default([]),
+  updatedAt: z.union([z.string().datetime(), z.number().int().positive()]).optional(),
+});
+
+/**
+ * Validate a stats payload and keep only the exercises the app is registered for
+ */
+export function parseSourceResponse(app: SportsApp, payload: unknown): SourceSnapshot {
+  const parsed = sourceResponseSchema.safeParse(payload);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`);
+    throw new Error(`Invalid ${SPORTS_APPS[app].name} response (${issues.join('; ')})`);
+  }
+
+  const totals: Partial<Record<ExerciseId, number>> = {};
+  for (const [name, amount] of Object.entries(parsed.data.totals)) {
+    const exerciseId = normalizeExerciseId(name);
+    if (exerciseId && SPORTS_APPS[app].exercises.includes(exerciseId)) {
+      totals[exerciseId] = (totals[exerciseId] || 0) + amount;
+    }
+  }
+
+  const { updatedAt } = parsed.data;
+  return {
+    totals,
+    users: [...new Set(parsed.data.users.map(user => user.toLowerCase()))],
+    sourceUpdatedAt:
+      updatedAt === undefined
+        ? undefined
+        : new Date(typeof updatedAt === 'number' ? updatedAt * 1000 : updatedAt).toISOString(),
+  };
+}
+
+/**
+ * Source app exposing GET <url> (and <url>?user=0x...) in the sourceResponseSchema shape
+ */
+export class HttpSourceAdapter implements SportsSourceAdapter {
+  readonly kind = 'http' as const;
+
+  constructor(
+    readonly id: SportsApp,
+    private url: string,
+    private timeoutMs: number = 5000
+  ) {}
+
+  async fetchGlobal(): Promise<SourceSnapshot> {
+    return this.request(this.url);
+  }
+
+  async fetchUser(address: string): Promise<SourceSnapshot> {
+    const url = new URL(this.url);
+    url.searchParams.set('user', address.toLowerCase());
+    return this.request(url.toString());
+  }
+
+  private async request(url: string): Promise<SourceSnapshot> {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${SPORTS_APPS[this.id].name} responded with ${response.status}`);
+    }
+
+    return parseSourceResponse(this.id, await response.json());
+  }
+}
+
+/**
+ * Totals from the fitness leaderboard contracts on every network (ImperfectForm)
+ * The whole leaderboard is read once per cacheMs and filtered for each user, so looking up
+ * arbitrary addresses doesn't multiply RPC calls
+ */
+export class OnChainLeaderboardAdapter implements SportsSourceAdapter {
+  readonly kind = 'onchain' as const;
+  private leaderboard: { data: NetworkData; loadedAt: number } | null = null;
+  private pending: Promise<NetworkData> | null = null;
+
+  constructor(
+    readonly id: SportsApp = 'imperfectform',
+    private loadLeaderboard: () => Promise<NetworkData> = () => fetchAllNetworksDataServer(),
+    private cacheMs: number = 60_000,
+    private now: () => number = Date.now
+  ) {}
+
+  async fetchGlobal(): Promise<SourceSnapshot> {
+    return this.summarize(await this.load());
+  }
+
+  async fetchUser(address: string): Promise<SourceSnapshot> {
+    const user = address.toLowerCase();
+    const data = await this.load();
+
+    return this.summarize(
+      Object.fromEntries(
+        Object.entries(data).map(([network, scores]) => [network, scores.filter(s => s.user.toLowerCase() === user)])
+      )
+    );
+  }
+
+  private async load(): Promise<NetworkData> {
+    if (this.leaderboard && this.now() - this.leaderboard.loadedAt < this.cacheMs) {
+      return this.leaderboard.data;
+    }
+
+    // Concurrent lookups share one read
+    if (!this.pending) {
+      this.pending = this.read().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async read(): Promise<NetworkData> {
+    const data = await this.loadLeaderboard();
+
+    // The leaderboard reader swallows RPC failures as empty networks; all empty means nothing was read
+    if (Object.values(data).every(scores => scores.length === 0)) {
+      throw new Error('No leaderboard data from any network');
+    }
+
+    this.leaderboard = { data, loadedAt: this.now() };
+    return data;
+  }
+
+  private summarize(data: NetworkData): SourceSnapshot {
+    const exercises = SPORTS_APPS[this.id].exercises
+      .map(id => EXERCISES[id])
+      .filter(exercise => exercise.leaderboardField !== null);
+
+    const totals: Partial<Record<ExerciseId, number>> = {};
+    const users = new Set<string>();
+
+    for (const scores of Object.values(data)) {
+      for (const score of scores) {
+        let reps = 0;
+        for (const exercise of exercises) {
+          const amount = score[exercise.leaderboardField as 'pushups' | 'squats'];
+          totals[exercise.id] = (totals[exercise.id] || 0) + amount;
+          reps += amount;
+        }
+        if (reps > 0) {
+          users.add(score.user.toLowerCase());
+        }
+      }
+    }
+
+    for (const exercise of exercises) {
+      totals[exercise.id] = totals[exercise.id] || 0;
+    }
+
+    return { totals, users: [...users] };
+  }
+}
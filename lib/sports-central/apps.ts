@@ -0,0 +1,22 @@
+/**
+ * Sports Central Apps
+ * The source apps aggregated by Sports Central and the exercises each one records
+ */
+
+import type { ExerciseId } from '../exercises';
+import type { SportsApp } from './types';
+
+export interface SportsAppDefinition {
+  id: SportsApp;
+  name: string;
+  emoji: string;
+  exercises: ExerciseId[];
+}
+
+export const SPORTS_APPS: Record<SportsApp, SportsAppDefinition> = {
+  imperfectform: { id: 'imperfectform', name: 'ImperfectForm', emoji: '💪', exercises: ['pushups', 'squats'] },
+  imperfectcoach: { id: 'imperfectcoach', name: 'ImperfectCoach', emoji: '🏋️', exercises: ['pullups', 'jumps'] },
+  imperfectabs: { id: 'imperfectabs', name: 'ImperfectAbs', emoji: '🏃', exercises: ['situps'] },
+};
+
+export const SPORTS_APP_IDS = Object.keys(SPORTS_APPS) as SportsApp[];
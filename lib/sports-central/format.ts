@@ -0,0 +1,25 @@
+/**
+ * Sports Central Formatting
+ * Client-safe labels for source freshness
+ */
+
+import type { SourceStatus } from './types';
+
+function formatAge(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 60 * 60) return `${Math.floor(seconds / 60)}m`;
+  return `${Math.floor(seconds / (60 * 60))}h`;
+}
+
+/**
+ * "Live", "Stale (12m old)" or "Unavailable"
+ */
+export function describeSourceStatus(status: SourceStatus | undefined): string {
+  if (!status || status.status === 'unavailable') {
+    return 'Unavailable';
+  }
+  if (status.status === 'stale') {
+    return `Stale (${formatAge(status.ageSeconds ?? 0)} old)`;
+  }
+  return 'Live';
+}
@@ -0,0 +1,15 @@
+/**
+ * Sports Central
+ * Cross-app fitness aggregation: one adapter per source app (HTTP or on-chain), cached per source
+ */
+
+export { SPORTS_APPS, SPORTS_APP_IDS, type SportsAppDefinition } from './apps';
+export { HttpSourceAdapter, OnChainLeaderboardAdapter, parseSourceResponse, sourceResponseSchema } from './adapters';
+export {
+  SportsCentralService,
+  createDefaultSportsAdapters,
+  getSportsCentralPolicy,
+  getSportsCentralService,
+  type SportsCentralPolicy,
+} from './service';
+export type * from './types';
@@ -0,0 +1,222 @@
+/**
+ * Sports Central Service
+ * Aggregates every source app's adapter into global or per-user CrossPlatformData
+ * Each source is cached separately; when a refresh fails the last good snapshot is served
+ * (marked stale) until it is older than the max stale age
+ */
+
+import { EXERCISES, toEffortPoints, type ExerciseId } from '../exercises';
+import { SPORTS_APPS, SPORTS_APP_IDS } from './apps';
+import { HttpSourceAdapter, OnChainLeaderboardAdapter } from './adapters';
+import type {
+  CrossPlatformData,
+  SourceSnapshot,
+  SourceStatus,
+  SportsApp,
+  SportsData,
+  SportsSourceAdapter,
+} from './types';
+
+// Per-user entries are evicted oldest first beyond this
+const MAX_CACHE_ENTRIES = 1000;
+
+export interface SportsCentralPolicy {
+  cacheSeconds: number; // Snapshots younger than this are served without refetching
+  maxStaleSeconds: number; // Oldest snapshot served when a source is failing
+}
+
+export function getSportsCentralPolicy(): SportsCentralPolicy {
+  const cacheSeconds = Number(process.env.SPORTS_CENTRAL_CACHE_SECONDS);
+  const maxStaleSeconds = Number(process.env.SPORTS_CENTRAL_MAX_STALE_SECONDS);
+
+  return {
+    cacheSeconds: Number.isFinite(cacheSeconds) && cacheSeconds >= 0 ? cacheSeconds : 60,
+    maxStaleSeconds: Number.isFinite(maxStaleSeconds) && maxStaleSeconds >= 0 ? maxStaleSeconds : 24 * 60 * 60,
+  };
+}
+
+interface CacheEntry {
+  snapshot: SourceSnapshot;
+  fetchedAt: number; // ms
+}
+
+export class SportsCentralService {
+  private cache = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<SourceSnapshot>>();
+
+  constructor(
+    private adapters: Partial<Record<SportsApp, SportsSourceAdapter>>,
+    private policy: SportsCentralPolicy = getSportsCentralPolicy(),
+    private now: () => number = Date.now
+  ) {}
+
+  async getGlobal(): Promise<CrossPlatformData> {
+    return this.aggregate(adapter => ({ key: `${adapter.id}:global`, load: () => adapter.fetchGlobal() }));
+  }
+
+  async getUser(address: string): Promise<CrossPlatformData> {
+    const user = address.toLowerCase();
+    const data = await this.aggregate(adapter => ({ key: `${adapter.id}:user:${user}`, load: () => adapter.fetchUser(user) }));
+    return { ...data, user };
+  }
+
+  /**
+   * Drop cached snapshots, e.g. after a source reports new activity
+   */
+  invalidate(source?: SportsApp): void {
+    for (const key of [...this.cache.keys()]) {
+      if (!source || key.startsWith(`${source}:`)) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  private async aggregate(
+    request: (adapter: SportsSourceAdapter) => { key: string; load: () => Promise<SourceSnapshot> }
+  ): Promise<CrossPlatformData> {
+    const results = await Promise.all(
+      SPORTS_APP_IDS.map(async id => {
+        const adapter = this.adapters[id];
+        if (!adapter) {
+          return { id, snapshot: null, status: this.status(id, null, 'unavailable', null, 'Source not configured') };
+        }
+
+        const { key, load } = request(adapter);
+        return { id, ...(await this.read(adapter, key, load)) };
+      })
+    );
+
+    const apps = {} as Record<SportsApp, SportsData>;
+    const sources = {} as Record<SportsApp, SourceStatus>;
+    const totals: Partial<Record<ExerciseId, number>> = {};
+
+    for (const { id, snapshot, status } of results) {
+      sources[id] = status;
+      apps[id] = { users: snapshot?.users ?? [] };
+
+      for (const exerciseId of SPORTS_APPS[id].exercises) {
+        const amount = snapshot?.totals[exerciseId] ?? 0;
+        apps[id][exerciseId] = amount;
+        totals[exerciseId] = (totals[exerciseId] || 0) + amount;
+      }
+    }
+
+    const entries = Object.entries(totals) as [ExerciseId, number][];
+    return {
+      ...apps,
+      totals: {
+        ...totals,
+        totalExercises: entries.filter(([id]) => EXERCISES[id].unit === 'reps').reduce((sum, [, amount]) => sum + amount, 0),
+        effortPoints: Math.round(entries.reduce((sum, [id, amount]) => sum + toEffortPoints(id, amount), 0) * 100) / 100,
+      },
+      sources,
+      generatedAt: new Date(this.now()).toISOString(),
+    };
+  }
+
+  private async read(
+    adapter: SportsSourceAdapter,
+    key: string,
+    load: () => Promise<SourceSnapshot>
+  ): Promise<{ snapshot: SourceSnapshot | null; status: SourceStatus }> {
+    const cached = this.cache.get(key);
+    if (cached && this.ageSeconds(cached) < this.policy.cacheSeconds) {
+      return { snapshot: cached.snapshot, status: this.status(adapter.id, adapter, 'fresh', cached) };
+    }
+
+    try {
+      const snapshot = await this.load(key, load);
+      const entry = { snapshot, fetchedAt: this.now() };
+      this.remember(key, entry);
+      return { snapshot, status: this.status(adapter.id, adapter, 'fresh', entry) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[SportsCentral] ${adapter.id} refresh failed:`, message);
+
+      if (cached && this.ageSeconds(cached) <= this.policy.maxStaleSeconds) {
+        return { snapshot: cached.snapshot, status: this.status(adapter.id, adapter, 'stale', cached, message) };
+      }
+      return { snapshot: null, status: this.status(adapter.id, adapter, 'unavailable', null, message) };
+    }
+  }
+
+  // Concurrent requests for the same snapshot share one fetch
+  private load(key: string, load: () => Promise<SourceSnapshot>): Promise<SourceSnapshot> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const request = load().finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private remember(key: string, entry: CacheEntry): void {
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+
+    while (this.cache.size > MAX_CACHE_ENTRIES) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+  }
+
+  private ageSeconds(entry: CacheEntry): number {
+    return Math.max(0, Math.floor((this.now() - entry.fetchedAt) / 1000));
+  }
+
+  private status(
+    id: SportsApp,
+    adapter: SportsSourceAdapter | null,
+    status: SourceStatus['status'],
+    entry: CacheEntry | null,
+    error?: string
+  ): SourceStatus {
+    return {
+      source: id,
+      name: SPORTS_APPS[id].name,
+      kind: adapter?.kind ?? null,
+      status,
+      fetchedAt: entry ? new Date(entry.fetchedAt).toISOString() : null,
+      ageSeconds: entry ? this.ageSeconds(entry) : null,
+      sourceUpdatedAt: entry?.snapshot.sourceUpdatedAt,
+      error,
+    };
+  }
+}
+
+/**
+ * Adapters configured from the environment: ImperfectForm reads the leaderboard contracts by default,
+ * and any app with SPORTS_<APP>_URL set (e.g. SPORTS_IMPERFECTCOACH_URL) is read over HTTP
+ */
+export function createDefaultSportsAdapters(): Partial<Record<SportsApp, SportsSourceAdapter>> {
+  const timeout = Number(process.env.SPORTS_CENTRAL_TIMEOUT_MS);
+  const timeoutMs = Number.isFinite(timeout) && timeout > 0 ? timeout : 5000;
+
+  const adapters: Partial<Record<SportsApp, SportsSourceAdapter>> = {
+    imperfectform: new OnChainLeaderboardAdapter(
+      'imperfectform',
+      undefined,
+      getSportsCentralPolicy().cacheSeconds * 1000
+    ),
+  };
+
+  for (const id of SPORTS_APP_IDS) {
+    const url = process.env[`SPORTS_${id.toUpperCase()}_URL`];
+    if (url) {
+      adapters[id] = new HttpSourceAdapter(id, url, timeoutMs);
+    }
+  }
+
+  return adapters;
+}
+
+// Default service used by the API; its caches live for the lifetime of the server process
+let defaultService: SportsCentralService | null = null;
+
+export function getSportsCentralService(): SportsCentralService {
+  if (!defaultService) {
+    defaultService = new SportsCentralService(createDefaultSportsAdapters());
+  }
+  return defaultService;
+}
@@ -0,0 +1,53 @@
+/**
+ * Sports Central Types
+ * Shared by the aggregation service, the API route and the pages that render it
+ */
+
+import type { ExerciseId } from '../exercises';
+
+export type SportsApp = 'imperfectform' | 'imperfectcoach' | 'imperfectabs';
+
+// Exercise totals reported by one source app, plus the users they came from
+export type SportsData = Partial<Record<ExerciseId, number>> & {
+  users?: string[];
+};
+
+export interface SourceSnapshot {
+  totals: Partial<Record<ExerciseId, number>>;
+  users: string[];
+  sourceUpdatedAt?: string; // When the source says its data was last updated, if it does
+}
+
+/**
+ * One adapter per source app; it reads either the app's HTTP API or its contracts
+ */
+export interface SportsSourceAdapter {
+  id: SportsApp;
+  kind: 'http' | 'onchain';
+  fetchGlobal(): Promise<SourceSnapshot>;
+  fetchUser(address: string): Promise<SourceSnapshot>;
+}
+
+export interface SourceStatus {
+  source: SportsApp;
+  name: string;
+  kind: SportsSourceAdapter['kind'] | null; // null when the source isn't configured
+  status: 'fresh' | 'stale' | 'unavailable';
+  fetchedAt: string | null;
+  ageSeconds: number | null;
+  sourceUpdatedAt?: string;
+  error?: string;
+}
+
+export interface CrossPlatformData {
+  imperfectform: SportsData;
+  imperfectcoach: SportsData;
+  imperfectabs: SportsData;
+  totals: Partial<Record<ExerciseId, number>> & {
+    totalExercises: number; // Reps across every rep-based exercise
+    effortPoints: number;
+  };
+  sources: Record<SportsApp, SourceStatus>;
+  user?: string; // Set when the data is scoped to one wallet
+  generatedAt: string;
+}
@@ -0,0 +1,18 @@
+/**
+ * Streak Signatures
+ * Message a user signs to change the timezone their streak days are counted in
+ * Shared by the browser (to build the message) and the API (which recovers it with recoverResolutionSigner)
+ */
+
+export function buildTimezoneMessage(params: {
+  fid: string;
+  timezone: string;
+  issuedAt: number;
+}): string {
+  return [
+    'Set streak timezone',
+    `FID: ${params.fid}`,
+    `Timezone: ${params.timezone}`,
+    `Issued: ${params.issuedAt}`
+  ].join('\n');
+}
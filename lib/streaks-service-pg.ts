@@ -1,4 +1,24 @@
 import pool from './db';
+import { migrateUp } from './migrations/runner';
+import { getLocalDateString, shiftDateString, isValidTimeZone } from './services/timezone-service';
+
+// Keep only the most recent days/timestamps for efficiency (migration 002 backfills with the same cap)
+const MAX_ACTIVITY_DAYS = 100;
+
+// Streak freezes: one earned per STREAK_FREEZE_EARN_DAYS-day streak, capped at STREAK_FREEZE_MAX
+export const STREAK_FREEZE_EARN_DAYS = 7;
+const MAX_FREEZE_HISTORY = 50;
+
+export function getMaxStreakFreezes(): number {
+  const configured = Number(process.env.STREAK_FREEZE_MAX);
+  return Number.isInteger(configured) && configured >= 0 ? configured : 2;
+}
+
+export interface StreakFreezeEvent {
+  type: 'earned' | 'used';
+  date: string; // Day earned on, or the missed day a freeze covered
+  streak: number; // Streak length at the time
+}
 
 export interface UserStreak {
   userId: string;
@@ -9,10 +29,15 @@ export interface UserStreak {
   totalPushups?: number;
   totalSquats?: number;
   lastFitnessSync?: string;
+  walletAddresses?: string[];
+  timezone?: string; // IANA zone activity days are counted in
+  activityTimestamps?: string[]; // ISO instants behind activity_dates, so they can be re-dated
+  freezeBalance?: number;
+  freezeHistory?: StreakFreezeEvent[];
 }
 
 /**
- * Initialize the database schema
+ * Initialize the database schema by applying any pending migrations (see lib/migrations)
  */
 export async function initializeDatabase() {
   // Skip database initialization during build time
@@ -21,70 +46,15 @@ export async function initializeDatabase() {
     return;
   }
 
-  let client;
-
   try {
-    client = await pool.connect();
-
-    // Create the streaks table if it doesn't exist
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS user_streaks (
-        user_id TEXT PRIMARY KEY,
-        current_streak INTEGER NOT NULL DEFAULT 0,
-        longest_streak INTEGER NOT NULL DEFAULT 0,
-        last_activity_date TEXT,
-        activity_dates JSONB NOT NULL DEFAULT '[]'
-      )
-    `);
-
-    // Add new columns if they don't exist (for migration)
-    try {
-      await client.query(`ALTER TABLE user_streaks ADD COLUMN total_pushups INTEGER NOT NULL DEFAULT 0`);
-      console.log('Added total_pushups column');
-    } catch (error: any) {
-      if (!error.message.includes('already exists')) {
-        console.error('Error adding total_pushups column:', error);
-      }
-    }
-
-    try {
-      await client.query(`ALTER TABLE user_streaks ADD COLUMN total_squats INTEGER NOT NULL DEFAULT 0`);
-      console.log('Added total_squats column');
-    } catch (error: any) {
-      if (!error.message.includes('already exists')) {
-        console.error('Error adding total_squats column:', error);
-      }
-    }
-
-    try {
-      await client.query(`ALTER TABLE user_streaks ADD COLUMN last_fitness_sync TEXT`);
-      console.log('Added last_fitness_sync column');
-    } catch (error: any) {
-      if (!error.message.includes('already exists')) {
-        console.error('Error adding last_fitness_sync column:', error);
-      }
-    }
-
-    try {
-      await client.query(`ALTER TABLE user_streaks ADD COLUMN wallet_addresses JSONB NOT NULL DEFAULT '[]'`);
-      console.log('Added wallet_addresses column');
-    } catch (error: any) {
-      if (!error.message.includes('already exists')) {
-        console.error('Error adding wallet_addresses column:', error);
-      }
-    }
-
-    console.log('Database schema initialized');
+    const applied = await migrateUp();
+    console.log(`Database schema initialized (${applied.length} migration(s) applied)`);
   } catch (error) {
     console.error('Error initializing database schema:', error);
     // Don't throw error during build time
     if (process.env.NODE_ENV !== 'production') {
       throw error;
     }
-  } finally {
-    if (client) {
-      client.release();
-    }
   }
 }
 
@@ -111,7 +81,12 @@ export async function getUserStreak(userId: string): Promise<UserStreak> {
         activityDates: [],
         totalPushups: 0,
         totalSquats: 0,
-        lastFitnessSync: ''
+        lastFitnessSync: '',
+        walletAddresses: [],
+        timezone: 'UTC',
+        activityTimestamps: [],
+        freezeBalance: 0,
+        freezeHistory: []
       };
     }
     
@@ -125,7 +100,12 @@ export async function getUserStreak(userId: string): Promise<UserStreak> {
       activityDates: userData.activity_dates || [],
       totalPushups: userData.total_pushups || 0,
       totalSquats: userData.total_squats || 0,
-      lastFitnessSync: userData.last_fitness_sync || ''
+      lastFitnessSync: userData.last_fitness_sync || '',
+      walletAddresses: userData.wallet_addresses || [],
+      timezone: userData.timezone || 'UTC',
+      activityTimestamps: userData.activity_timestamps || [],
+      freezeBalance: userData.freeze_balance || 0,
+      freezeHistory: userData.freeze_history || []
     };
   } catch (error) {
     console.error('Error getting user streak:', error);
@@ -143,55 +123,48 @@ export async function getUserStreak(userId: string): Promise<UserStreak> {
 
 /**
  * Update a user's streak based on new activity
+ * Days are counted in the user's local calendar (see setUserTimezone)
+ * Pass `at` to record activity from the past (e.g. an imported workout); earlier days recount the streak
  */
-export async function updateUserStreak(userId: string): Promise<UserStreak> {
+export async function updateUserStreak(userId: string, at: Date = new Date()): Promise<UserStreak> {
   const client = await pool.connect();
   
   try {
     // Get current streak data
     const userStreak = await getUserStreak(userId);
     
-    // Get today's date (normalized to start of day in UTC)
-    const today = new Date();
-    today.setUTCHours(0, 0, 0, 0);
-    const todayStr = today.toISOString().split('T')[0];
+    // Get the activity's date in the user's timezone
+    const timezone = userStreak.timezone || 'UTC';
+    const todayStr = getLocalDateString(at, timezone);
     
-    // Check if already logged today
+    // Check if already logged that day
     if (userStreak.activityDates.includes(todayStr)) {
-      return userStreak; // Already logged today, no changes needed
+      return userStreak; // Already logged, no changes needed
     }
     
-    // Add today to activity dates
-    const activityDates = [...userStreak.activityDates, todayStr];
-    
-    // Keep only last 100 days for efficiency
-    if (activityDates.length > 100) {
-      activityDates.sort().reverse();
-      activityDates.length = 100;
-    }
+    // Add the day to activity dates
+    const activityDates = capActivityDates([...userStreak.activityDates, todayStr]);
+    const activityTimestamps = capActivityDates([...(userStreak.activityTimestamps || []), at.toISOString()]);
     
-    // Calculate yesterday
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
-    const yesterdayStr = yesterday.toISOString().split('T')[0];
-    
-    // Update streak
-    let newStreak = 1; // Default to 1 if streak is broken
-    if (userStreak.lastActivityDate === yesterdayStr) {
-      // Continuing streak
-      newStreak = userStreak.currentStreak + 1;
-    }
-    
-    // Update longest streak if needed
-    const newLongestStreak = Math.max(userStreak.longestStreak, newStreak);
+    // Continue, freeze-bridge or restart the streak, and earn any freeze
+    // A backfilled day can only join up existing days, so the calendar is recounted instead
+    const next = todayStr > userStreak.lastActivityDate
+      ? advanceStreak(userStreak, todayStr)
+      : {
+          ...calculateStreak(activityDates, frozenDatesOf(userStreak.freezeHistory)),
+          freezeBalance: userStreak.freezeBalance || 0,
+          freezeHistory: userStreak.freezeHistory || []
+        };
+    next.longestStreak = Math.max(next.longestStreak, userStreak.longestStreak);
+    const { currentStreak: newStreak, longestStreak: newLongestStreak } = next;
     
     // Create updated streak object
     const updatedStreak: UserStreak = {
-      userId,
-      currentStreak: newStreak,
-      longestStreak: newLongestStreak,
-      lastActivityDate: todayStr,
-      activityDates
+      ...userStreak,
+      ...next,
+      activityDates,
+      timezone,
+      activityTimestamps
     };
     
     // Save updated data
@@ -201,21 +174,33 @@ export async function updateUserStreak(userId: string): Promise<UserStreak> {
         current_streak, 
         longest_streak, 
         last_activity_date, 
-        activity_dates
+        activity_dates,
+        activity_timestamps,
+        timezone,
+        activity_dates_timezone,
+        freeze_balance,
+        freeze_history
       ) 
-      VALUES ($1, $2, $3, $4, $5)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $7, $8, $9)
       ON CONFLICT (user_id) 
       DO UPDATE SET 
         current_streak = $2, 
         longest_streak = $3, 
         last_activity_date = $4, 
-        activity_dates = $5
+        activity_dates = $5,
+        activity_timestamps = $6,
+        freeze_balance = $8,
+        freeze_history = $9
     `, [
       userId,
       newStreak,
       newLongestStreak,
-      todayStr,
-      JSON.stringify(activityDates)
+      next.lastActivityDate,
+      JSON.stringify(activityDates),
+      JSON.stringify(activityTimestamps),
+      timezone,
+      next.freezeBalance,
+      JSON.stringify(next.freezeHistory)
     ]);
     
     return updatedStreak;
@@ -233,6 +218,246 @@ export async function updateUserStreak(userId: string): Promise<UserStreak> {
   }
 }
 
+/**
+ * Missed days a freeze covered, which still bridge the streak
+ */
+function frozenDatesOf(freezeHistory: StreakFreezeEvent[] = []): string[] {
+  return freezeHistory.filter(event => event.type === 'used').map(event => event.date);
+}
+
+/**
+ * Sort YYYY-MM-DD dates (or ISO instants) ascending, drop duplicates and keep the most recent
+ */
+export function capActivityDates(values: string[]): string[] {
+  return Array.from(new Set(values)).sort().slice(-MAX_ACTIVITY_DAYS);
+}
+
+/**
+ * Apply a new active day to a streak
+ * Missing exactly one day consumes a freeze if one is banked; every STREAK_FREEZE_EARN_DAYS
+ * days of streak earns one, up to getMaxStreakFreezes()
+ */
+export function advanceStreak(
+  streak: Pick<UserStreak, 'currentStreak' | 'longestStreak' | 'lastActivityDate' | 'freezeBalance' | 'freezeHistory'>,
+  activityDate: string,
+  maxFreezes: number = getMaxStreakFreezes()
+): {
+  currentStreak: number;
+  longestStreak: number;
+  lastActivityDate: string;
+  freezeBalance: number;
+  freezeHistory: StreakFreezeEvent[];
+} {
+  let freezeBalance = streak.freezeBalance || 0;
+  const freezeHistory = [...(streak.freezeHistory || [])];
+  const missedDay = shiftDateString(activityDate, -1);
+
+  let currentStreak = 1; // Default to 1 if streak is broken
+  if (streak.lastActivityDate === missedDay) {
+    // Continuing streak
+    currentStreak = streak.currentStreak + 1;
+  } else if (streak.lastActivityDate === shiftDateString(activityDate, -2) && freezeBalance > 0) {
+    // Exactly one day missed - spend a freeze to keep the streak alive
+    freezeBalance--;
+    freezeHistory.push({ type: 'used', date: missedDay, streak: streak.currentStreak });
+    currentStreak = streak.currentStreak + 1;
+  }
+
+  if (currentStreak % STREAK_FREEZE_EARN_DAYS === 0 && freezeBalance < maxFreezes) {
+    freezeBalance++;
+    freezeHistory.push({ type: 'earned', date: activityDate, streak: currentStreak });
+  }
+
+  return {
+    currentStreak,
+    longestStreak: Math.max(streak.longestStreak, currentStreak),
+    lastActivityDate: activityDate,
+    freezeBalance,
+    freezeHistory: freezeHistory.slice(-MAX_FREEZE_HISTORY)
+  };
+}
+
+/**
+ * Current run (ending at the latest active day) and longest run of consecutive calendar days
+ * Days covered by a freeze bridge the gap without counting as active days
+ */
+export function calculateStreak(activityDates: string[], frozenDates: string[] = []): {
+  currentStreak: number;
+  longestStreak: number;
+  lastActivityDate: string;
+} {
+  const days = Array.from(new Set(activityDates)).sort();
+  const frozen = new Set(frozenDates);
+  let run = 0;
+  let longest = 0;
+
+  days.forEach((day, i) => {
+    const previous = days[i - 1];
+    const continues = i > 0 && (
+      shiftDateString(previous, 1) === day ||
+      (shiftDateString(previous, 2) === day && frozen.has(shiftDateString(previous, 1)))
+    );
+    run = continues ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  return {
+    currentStreak: run,
+    longestStreak: longest,
+    lastActivityDate: days[days.length - 1] || ''
+  };
+}
+
+/**
+ * Re-date activity from one timezone's calendar to another's
+ * Only days backed by a known instant can move; legacy days without one are kept as they were
+ */
+export function recomputeActivityDates(params: {
+  activityDates: string[];
+  instants: string[];
+  fromTimeZone: string;
+  toTimeZone: string;
+}): string[] {
+  const dates = new Set(params.activityDates);
+  const instants = params.instants
+    .map(instant => new Date(instant))
+    .filter(date => !isNaN(date.getTime()));
+
+  for (const instant of instants) {
+    dates.delete(getLocalDateString(instant, params.fromTimeZone));
+  }
+  for (const instant of instants) {
+    dates.add(getLocalDateString(instant, params.toTimeZone));
+  }
+
+  return capActivityDates(Array.from(dates));
+}
+
+/**
+ * Bring one row's activity dates and streak counts into its user's timezone
+ * Returns false if nothing could be re-dated: the row was already in that zone, or it only has
+ * legacy days saved before instants were recorded, which stay on the calendar they were counted in
+ */
+async function recomputeStreakRow(client: any, row: any): Promise<boolean> {
+  const timezone = row.timezone || 'UTC';
+  const fromTimeZone = row.activity_dates_timezone || 'UTC';
+
+  if (timezone === fromTimeZone) {
+    return false;
+  }
+
+  const instants: string[] = row.activity_timestamps || [];
+  if (instants.length === 0) {
+    // New days are counted in the new zone from here on
+    await client.query(
+      'UPDATE user_streaks SET activity_dates_timezone = $2 WHERE user_id = $1',
+      [row.user_id, timezone]
+    );
+    return false;
+  }
+
+  const activityDates = recomputeActivityDates({
+    activityDates: row.activity_dates || [],
+    instants,
+    fromTimeZone,
+    toTimeZone: timezone
+  });
+  // Missed days a freeze covered still bridge the streak
+  const frozenDates = frozenDatesOf(row.freeze_history || []);
+  const streak = calculateStreak(activityDates, frozenDates);
+
+  await client.query(`
+    UPDATE user_streaks
+    SET activity_dates = $2,
+        current_streak = $3,
+        longest_streak = GREATEST(longest_streak, $4),
+        last_activity_date = $5,
+        activity_dates_timezone = $6
+    WHERE user_id = $1
+  `, [
+    row.user_id,
+    JSON.stringify(activityDates),
+    streak.currentStreak,
+    streak.longestStreak,
+    streak.lastActivityDate || null,
+    timezone
+  ]);
+
+  return true;
+}
+
+/**
+ * Store a user's timezone and recount their streak in that local calendar
+ */
+export async function setUserTimezone(userId: string, timezone: string): Promise<UserStreak> {
+  if (!isValidTimeZone(timezone)) {
+    throw new Error(`Invalid timezone: ${timezone}`);
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(`
+      INSERT INTO user_streaks (user_id, timezone, activity_dates_timezone)
+      VALUES ($1, $2, $2)
+      ON CONFLICT (user_id) DO UPDATE SET timezone = $2
+      RETURNING *
+    `, [userId, timezone]);
+
+    await recomputeStreakRow(client, result.rows[0]);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return getUserStreak(userId);
+}
+
+/**
+ * Find the streak record linked to a wallet address (via synced wallet_addresses)
+ */
+export async function findUserStreakByAddress(address: string): Promise<UserStreak | null> {
+  const client = await pool.connect();
+
+  try {
+    const result = await client.query(
+      'SELECT * FROM user_streaks WHERE wallet_addresses ? $1 LIMIT 1',
+      [address.toLowerCase()]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      userId: row.user_id,
+      currentStreak: row.current_streak,
+      longestStreak: row.longest_streak,
+      lastActivityDate: row.last_activity_date || '',
+      activityDates: row.activity_dates || [],
+      totalPushups: row.total_pushups || 0,
+      totalSquats: row.total_squats || 0,
+      lastFitnessSync: row.last_fitness_sync || '',
+      walletAddresses: row.wallet_addresses || [],
+      timezone: row.timezone || 'UTC',
+      activityTimestamps: row.activity_timestamps || [],
+      freezeBalance: row.freeze_balance || 0,
+      freezeHistory: row.freeze_history || []
+    };
+  } catch (error) {
+    console.error('Error finding user streak by address:', error);
+    return null;
+  } finally {
+    client.release();
+  }
+}
+
 /**
  * Check if a user has a streak of a specific length
  */
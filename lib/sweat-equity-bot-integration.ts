@@ -1,4 +1,6 @@
 import { ethers } from "ethers";
+import type { EvidenceVerificationResult } from "./services/sweat-equity-evidence";
+import { fromContractExerciseType, getContractExercises, formatExerciseAmount } from "./exercises";
 
 /**
  * SweatEquityBot Integration with AgentKit
@@ -55,6 +57,37 @@ export interface VerificationProof {
   };
 }
 
+export interface ChallengeRecommendation {
+  exerciseType: number; // SweatEquityBot.ExerciseType, see lib/exercises.ts
+  targetAmount: number;
+  description: string;
+  difficulty: "easy" | "medium" | "hard";
+}
+
+/**
+ * Recommendations used when the AI is unavailable, limited to exercises the contract accepts
+ */
+function fallbackChallengeRecommendations(): ChallengeRecommendation[] {
+  const plan = [
+    { id: "pushups", targetAmount: 30, difficulty: "easy" },
+    { id: "squats", targetAmount: 75, difficulty: "medium" },
+    { id: "pushups", targetAmount: 150, difficulty: "hard" },
+  ] as const;
+
+  return plan.flatMap(({ id, targetAmount, difficulty }) => {
+    const exercise = getContractExercises().find((e) => e.id === id);
+    if (!exercise) {
+      return [];
+    }
+    return [{
+      exerciseType: exercise.contractExerciseType as number,
+      targetAmount,
+      description: `${formatExerciseAmount(exercise.id, targetAmount)} (${difficulty})`,
+      difficulty,
+    }];
+  });
+}
+
 export class SweatEquityBotService {
   private contract: ethers.Contract | null = null;
   private provider: ethers.Provider;
@@ -198,78 +231,121 @@ export class SweatEquityBotService {
 
   /**
    * Autonomous verification using AgentKit
-   * This is where AgentKit shines - autonomous AI verification of exercise completion
+   * Runs the evidence pipeline (rule checks + weighted LLM review) and approves on-chain if it passes
+   * Photo, video and community proofs also need an approved peer review (see services/community-review)
    */
   async autonomousVerification(
     challengeId: number,
     proof: VerificationProof
-  ): Promise<boolean> {
+  ): Promise<EvidenceVerificationResult> {
+    const {
+      getChallengeEvidence,
+      runEvidenceChecks,
+      requestLlmVerdict,
+      scoreVerification,
+      recordVerification,
+      APPROVAL_THRESHOLD,
+    } = await import("./services/sweat-equity-evidence");
+
+    const result: EvidenceVerificationResult = {
+      challengeId,
+      method: proof.method,
+      proofHash: proof.proofHash,
+      approved: false,
+      score: 0,
+      threshold: APPROVAL_THRESHOLD,
+      checks: [],
+      signals: [],
+      evidenceIds: [],
+    };
+
     try {
       console.log(
         `🤖 Starting autonomous verification for challenge ${challengeId}`
       );
 
-      // Get AgentKit instance for autonomous verification
-      const { getAgentKitInstance } = await import("./agentkit-integration");
-      const agentKit = await getAgentKitInstance();
-
-      if (!agentKit.isInitialized()) {
-        console.warn("⚠️ AgentKit not available for autonomous verification");
-        return false;
+      const challenge = await this.getChallenge(challengeId);
+      if (!challenge) {
+        throw new Error("Challenge not found");
       }
 
-      // Use AgentKit to analyze the verification proof
-      const verificationPrompt = `
-        Analyze this exercise verification proof for sweat equity challenge ${challengeId}:
+      const evidence = await getChallengeEvidence(challengeId);
+      result.evidenceIds = evidence.map((e) => e.id);
 
-        Method: ${proof.method}
-        Proof Hash: ${proof.proofHash}
-        Metadata: ${JSON.stringify(proof.metadata || {})}
+      if (proof.method !== "wearable") {
+        const { getCommunityReview } = await import("./services/community-review");
+        const review = await getCommunityReview(challengeId);
+        if (review) {
+          const { status, proofHash, approveWeight, rejectWeight } = review;
+          result.communityReview = { status, proofHash, approveWeight, rejectWeight };
+        }
+      }
 
-        Determine if this proof demonstrates legitimate exercise completion.
-        Consider factors like:
-        - Proof authenticity
-        - Exercise completion evidence
-        - Metadata consistency
-        - Fraud detection
+      result.checks = runEvidenceChecks({
+        challenge,
+        proof,
+        evidence,
+        communityReview: result.communityReview,
+      });
 
-        Respond with: APPROVE or REJECT with reasoning.
-      `;
+      const failedHard = result.checks.filter((c) => c.hard && !c.passed);
 
-      const aiAnalysis = await agentKit.processMessage(verificationPrompt);
-      const shouldApprove = aiAnalysis.toLowerCase().includes("approve");
+      // Skip the model when a deterministic check already rules the proof out
+      const llm = failedHard.length === 0
+        ? await requestLlmVerdict({ challenge, proof, evidence, checks: result.checks })
+        : undefined;
 
-      if (shouldApprove) {
+      const verdict = scoreVerification(result.checks, llm, result.communityReview);
+      Object.assign(result, verdict, { llm });
+
+      if (!result.approved) {
         console.log(
-          "✅ AI verification approved, executing autonomous approval..."
+          `❌ Evidence rejected (score ${result.score.toFixed(2)}, failed: ${
+            failedHard.map((c) => c.name).join(", ") || "none"
+          })`
         );
+        return result;
+      }
 
-        // Use AgentKit to autonomously approve the sweat equity
-        const result = await agentKit.executeGaslessTransaction(
-          SWEAT_EQUITY_BOT_ADDRESSES[
-            this.network as keyof typeof SWEAT_EQUITY_BOT_ADDRESSES
-          ],
-          "approveSweatEquity",
-          [challengeId],
-          await agentKit.getWalletAddress()
-        );
+      console.log(
+        "✅ Evidence verified, executing autonomous approval..."
+      );
 
-        if (result.success) {
-          console.log(
-            `🎉 Autonomous sweat equity approval successful: ${result.txHash}`
-          );
-          return true;
-        } else {
-          console.error("❌ Autonomous approval failed:", result.error);
-          return false;
-        }
-      } else {
-        console.log("❌ AI verification rejected the proof");
-        return false;
+      // Get AgentKit instance for the approval transaction
+      const { getAgentKitInstance } = await import("./agentkit-integration");
+      const agentKit = await getAgentKitInstance();
+
+      if (!agentKit.isInitialized()) {
+        throw new Error("AgentKit not available for autonomous approval");
+      }
+
+      const tx = await agentKit.executeGaslessTransaction(
+        SWEAT_EQUITY_BOT_ADDRESSES[
+          this.network as keyof typeof SWEAT_EQUITY_BOT_ADDRESSES
+        ],
+        "approveSweatEquity",
+        [challengeId],
+        await agentKit.getWalletAddress()
+      );
+
+      if (!tx.success) {
+        throw new Error(tx.error || "Approval transaction failed");
       }
+
+      console.log(
+        `🎉 Autonomous sweat equity approval successful: ${tx.txHash}`
+      );
+      result.transactionHash = tx.txHash;
+      return result;
     } catch (error) {
       console.error("❌ Autonomous verification error:", error);
-      return false;
+      result.approved = false;
+      result.error = error instanceof Error ? error.message : String(error);
+      return result;
+    } finally {
+      await recordVerification(result).catch((error) =>
+        console.error("❌ Failed to record verification result:", error)
+      );
     }
   }
 
@@ -280,42 +356,19 @@ export class SweatEquityBotService {
     userAddress: string,
     predictionId: number,
     stakeAmount: string
-  ): Promise<
-    {
-      exerciseType: number;
-      targetAmount: number;
-      description: string;
-      difficulty: "easy" | "medium" | "hard";
-    }[]
-  > {
+  ): Promise<ChallengeRecommendation[]> {
     try {
       const { getAgentKitInstance } = await import("./agentkit-integration");
       const agentKit = await getAgentKitInstance();
 
       if (!agentKit.isInitialized()) {
-        // Fallback recommendations
-        return [
-          {
-            exerciseType: 0,
-            targetAmount: 50,
-            description: "50 Push-ups",
-            difficulty: "medium",
-          },
-          {
-            exerciseType: 1,
-            targetAmount: 100,
-            description: "100 Squats",
-            difficulty: "medium",
-          },
-          {
-            exerciseType: 2,
-            targetAmount: 5000,
-            description: "5km Run",
-            difficulty: "hard",
-          },
-        ];
+        return fallbackChallengeRecommendations();
       }
 
+      const exerciseTypes = getContractExercises()
+        .map((e) => `${e.contractExerciseType}=${e.id}`)
+        .join(", ");
+
       const prompt = `
         Generate personalized sweat equity challenge recommendations for a user who lost ${stakeAmount} ETH on prediction ${predictionId}.
 
@@ -324,7 +377,7 @@ export class SweatEquityBotService {
         - Medium: Moderate challenge requiring some effort
         - Hard: Significant challenge for motivated individuals
 
-        Exercise types: 0=pushups, 1=squats, 2=running(meters), 3=cycling(meters), 4=custom
+        Exercise types (the only ones the contract accepts): ${exerciseTypes}
 
         Format as JSON array with exerciseType, targetAmount, description, difficulty.
       `;
@@ -334,29 +387,12 @@ export class SweatEquityBotService {
       // Try to parse AI response, fallback to defaults if parsing fails
       try {
         const recommendations = JSON.parse(aiResponse);
-        return Array.isArray(recommendations) ? recommendations : [];
+        // Drop anything the contract would reject
+        return Array.isArray(recommendations)
+          ? recommendations.filter((r) => fromContractExerciseType(Number(r?.exerciseType)) !== null)
+          : [];
       } catch {
-        // Fallback recommendations
-        return [
-          {
-            exerciseType: 0,
-            targetAmount: 30,
-            description: "30 Push-ups (Easy)",
-            difficulty: "easy" as const,
-          },
-          {
-            exerciseType: 1,
-            targetAmount: 75,
-            description: "75 Squats (Medium)",
-            difficulty: "medium" as const,
-          },
-          {
-            exerciseType: 2,
-            targetAmount: 3000,
-            description: "3km Run (Hard)",
-            difficulty: "hard" as const,
-          },
-        ];
+        return fallbackChallengeRecommendations();
       }
     } catch (error) {
       console.error("Error generating challenge recommendations:", error);
@@ -0,0 +1,62 @@
+/**
+ * Sweat Equity Signatures
+ * Messages challengers sign to upload evidence or request peer review, reviewers sign to vote, and
+ * either signs to read a challenge's evidence
+ * Shared by the browser (to build the message) and the API (which recovers it with recoverResolutionSigner)
+ */
+
+export function buildEvidenceUploadMessage(params: {
+  challengeId: number;
+  method: string;
+  contentHash: string;
+  issuedAt: number;
+}): string {
+  return [
+    'Upload sweat equity evidence',
+    `Challenge: ${params.challengeId}`,
+    `Method: ${params.method}`,
+    `Content: ${params.contentHash}`,
+    `Issued: ${params.issuedAt}`
+  ].join('\n');
+}
+
+export function buildEvidenceAccessMessage(params: {
+  challengeId: number;
+  evidenceId?: number;
+  issuedAt: number;
+}): string {
+  return [
+    'View sweat equity evidence',
+    `Challenge: ${params.challengeId}`,
+    `Evidence: ${params.evidenceId ?? 'all'}`,
+    `Issued: ${params.issuedAt}`
+  ].join('\n');
+}
+
+export function buildCommunityReviewRequestMessage(params: {
+  challengeId: number;
+  proofHash: string;
+  issuedAt: number;
+}): string {
+  return [
+    'Request community review of sweat equity evidence',
+    `Challenge: ${params.challengeId}`,
+    `Proof: ${params.proofHash}`,
+    `Issued: ${params.issuedAt}`
+  ].join('\n');
+}
+
+export function buildReviewVoteMessage(params: {
+  challengeId: number;
+  approve: boolean;
+  reason?: string;
+  issuedAt: number;
+}): string {
+  return [
+    'Review sweat equity evidence',
+    `Challenge: ${params.challengeId}`,
+    `Vote: ${params.approve ? 'APPROVE' : 'REJECT'}`,
+    `Reason: ${(params.reason || '').trim()}`,
+    `Issued: ${params.issuedAt}`
+  ].join('\n');
+}
@@ -0,0 +1,21 @@
+/**
+ * Template Signatures
+ * Message a resolution admin signs to save a recurring prediction template
+ * Shared by the browser (to build the message) and the API (which recovers it with recoverResolutionSigner)
+ */
+
+import { ethers } from 'ethers';
+
+export function buildTemplateMessage(params: {
+  templateId: string; // A new template's ID is picked by the client, so the signature can create it only once
+  create: boolean;
+  template: unknown; // The template exactly as sent in the request body
+  issuedAt: number;
+}): string {
+  return [
+    'Save prediction template',
+    `Template: ${params.create ? 'new ' : ''}${params.templateId}`,
+    `Content: ${ethers.id(JSON.stringify(params.template))}`,
+    `Issued: ${params.issuedAt}`
+  ].join('\n');
+}
@@ -58,6 +58,16 @@ export const unifiedPredictionMarketABI = [
     "name": "RewardClaimed",
     "type": "event"
   },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "uint256", "name": "predictionId", "type": "uint256"},
+      {"indexed": true, "internalType": "address", "name": "user", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256"}
+    ],
+    "name": "SweatEquityFundsReleased",
+    "type": "event"
+  },
 
   // Main Functions
   {
@@ -0,0 +1,109 @@
+/**
+ * Apple Health importer (export.xml from Health > Export All Health Data)
+ * Each <Workout> becomes a workout; heart rate and distance <Record>s inside its interval
+ * form the sample timeline.
+ */
+
+import { findElements } from './xml';
+import type { ParsedWorkout, WorkoutSample, WorkoutSport } from './types';
+
+const ACTIVITY_TYPES: Record<string, WorkoutSport> = {
+  HKWorkoutActivityTypeRunning: 'running',
+  HKWorkoutActivityTypeCycling: 'cycling',
+  HKWorkoutActivityTypeWalking: 'walking',
+  HKWorkoutActivityTypeHiking: 'walking',
+};
+
+const HEART_RATE = 'HKQuantityTypeIdentifierHeartRate';
+const DISTANCE_TYPES = ['HKQuantityTypeIdentifierDistanceWalkingRunning', 'HKQuantityTypeIdentifierDistanceCycling'];
+
+const DISTANCE_TO_METERS: Record<string, number> = { m: 1, km: 1000, mi: 1609.344, ft: 0.3048, yd: 0.9144 };
+const DURATION_TO_SECONDS: Record<string, number> = { s: 1, min: 60, hr: 3600 };
+const ENERGY_TO_KCAL: Record<string, number> = { kcal: 1, Cal: 1, kJ: 1 / 4.184 };
+
+export function isAppleHealthExport(xml: string): boolean {
+  return /<HealthData[\s>]/.test(xml.slice(0, 4096));
+}
+
+/**
+ * "2024-03-02 07:15:00 -0800" -> ISO instant
+ */
+export function parseHealthDate(value: string | undefined): string | undefined {
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+  if (!match) return undefined;
+  const instant = Date.parse(`${match[1]}T${match[2]}${match[3]}:${match[4]}`);
+  return Number.isNaN(instant) ? undefined : new Date(instant).toISOString();
+}
+
+function convert(value: string | undefined, unit: string | undefined, table: Record<string, number>): number | undefined {
+  const number = Number(value);
+  const factor = table[unit || ''];
+  return value !== undefined && Number.isFinite(number) && factor !== undefined ? number * factor : undefined;
+}
+
+export function parseAppleHealth(xml: string): ParsedWorkout[] {
+  const workouts = findElements(xml, 'Workout');
+  if (workouts.length === 0) {
+    return [];
+  }
+
+  // Only heart rate and distance records are relevant; everything else in the export is skipped
+  const records = findElements(xml, 'Record')
+    .filter(record => record.attrs.type === HEART_RATE || DISTANCE_TYPES.includes(record.attrs.type))
+    .map(record => ({
+      type: record.attrs.type,
+      unit: record.attrs.unit,
+      value: record.attrs.value,
+      start: parseHealthDate(record.attrs.startDate),
+      end: parseHealthDate(record.attrs.endDate),
+    }))
+    .filter(record => record.start && record.end);
+
+  return workouts.map(workout => {
+    const { attrs } = workout;
+    const startTime = parseHealthDate(attrs.startDate);
+    const endTime = parseHealthDate(attrs.endDate);
+    const from = startTime ? Date.parse(startTime) : NaN;
+    const to = endTime ? Date.parse(endTime) : NaN;
+
+    const inside = records.filter(r => Date.parse(r.start as string) >= from && Date.parse(r.end as string) <= to);
+    const samples: WorkoutSample[] = [];
+    let cumulative = 0;
+
+    for (const record of inside.sort((a, b) => Date.parse(a.end as string) - Date.parse(b.end as string))) {
+      if (record.type === HEART_RATE) {
+        const bpm = Number(record.value);
+        if (Number.isFinite(bpm)) samples.push({ time: record.end as string, heartRate: bpm });
+      } else {
+        const meters = convert(record.value, record.unit, DISTANCE_TO_METERS);
+        if (meters !== undefined) {
+          cumulative += meters;
+          samples.push({ time: record.end as string, distance: cumulative });
+        }
+      }
+    }
+
+    // Newer exports put totals in <WorkoutStatistics>; older ones as Workout attributes
+    const statistics = findElements(workout.body, 'WorkoutStatistics');
+    const heartRateStats = statistics.find(s => s.attrs.type === HEART_RATE);
+    const distanceStats = statistics.find(s => DISTANCE_TYPES.includes(s.attrs.type));
+    const energyStats = statistics.find(s => s.attrs.type === 'HKQuantityTypeIdentifierActiveEnergyBurned');
+
+    return {
+      source: 'apple-health' as const,
+      sport: ACTIVITY_TYPES[attrs.workoutActivityType] || 'other',
+      startTime,
+      endTime,
+      samples,
+      reported: {
+        durationSeconds: convert(attrs.duration, attrs.durationUnit, DURATION_TO_SECONDS),
+        distanceMeters: convert(attrs.totalDistance, attrs.totalDistanceUnit, DISTANCE_TO_METERS)
+          ?? convert(distanceStats?.attrs.sum, distanceStats?.attrs.unit, DISTANCE_TO_METERS),
+        calories: convert(attrs.totalEnergyBurned, attrs.totalEnergyBurnedUnit, ENERGY_TO_KCAL)
+          ?? convert(energyStats?.attrs.sum, energyStats?.attrs.unit, ENERGY_TO_KCAL),
+        avgHeartRate: heartRateStats ? Number(heartRateStats.attrs.average) || undefined : undefined,
+        maxHeartRate: heartRateStats ? Number(heartRateStats.attrs.maximum) || undefined : undefined,
+      },
+    };
+  });
+}
@@ -0,0 +1,211 @@
+/**
+ * Garmin FIT importer
+ * Decodes the binary record stream far enough to read record (per-sample) and session (totals)
+ * messages; everything else is skipped using its definition.
+ */
+
+import type { ParsedWorkout, WorkoutSample, WorkoutSport } from './types';
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_SECONDS = 631065600;
+
+const MESG_SESSION = 18;
+const MESG_RECORD = 20;
+
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+const FIT_SPORTS: Record<number, WorkoutSport> = { 1: 'running', 2: 'cycling', 11: 'walking', 17: 'walking' };
+
+interface FieldDefinition {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalNum: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerBytes: number;
+}
+
+export function isFitFile(content: Buffer): boolean {
+  return content.length >= 12 && content.subarray(8, 12).toString('ascii') === '.FIT';
+}
+
+/**
+ * Read a numeric field by base type; returns undefined for FIT's "invalid" sentinels and arrays
+ */
+function readValue(data: Buffer, offset: number, field: FieldDefinition, littleEndian: boolean): number | undefined {
+  const type = field.baseType & 0x1f;
+  const read = <T>(size: number, le: () => T, be: () => T): T | undefined =>
+    field.size === size ? (littleEndian ? le() : be()) : undefined;
+
+  let value: number | undefined;
+  let invalid: number | undefined;
+
+  switch (type) {
+    case 0: // enum
+    case 2: // uint8
+    case 10: // uint8z
+    case 13: // byte
+      value = read(1, () => data.readUInt8(offset), () => data.readUInt8(offset));
+      invalid = type === 10 ? 0 : 0xff;
+      break;
+    case 1:
+      value = read(1, () => data.readInt8(offset), () => data.readInt8(offset));
+      invalid = 0x7f;
+      break;
+    case 3:
+      value = read(2, () => data.readInt16LE(offset), () => data.readInt16BE(offset));
+      invalid = 0x7fff;
+      break;
+    case 4: // uint16
+    case 11: // uint16z
+      value = read(2, () => data.readUInt16LE(offset), () => data.readUInt16BE(offset));
+      invalid = type === 11 ? 0 : 0xffff;
+      break;
+    case 5:
+      value = read(4, () => data.readInt32LE(offset), () => data.readInt32BE(offset));
+      invalid = 0x7fffffff;
+      break;
+    case 6: // uint32
+    case 12: // uint32z
+      value = read(4, () => data.readUInt32LE(offset), () => data.readUInt32BE(offset));
+      invalid = type === 12 ? 0 : 0xffffffff;
+      break;
+    case 8:
+      value = read(4, () => data.readFloatLE(offset), () => data.readFloatBE(offset));
+      break;
+    case 9:
+      value = read(8, () => data.readDoubleLE(offset), () => data.readDoubleBE(offset));
+      break;
+    default:
+      return undefined; // Strings and 64-bit integers aren't needed
+  }
+
+  return value === undefined || value === invalid || Number.isNaN(value) ? undefined : value;
+}
+
+export function parseFit(content: Buffer): ParsedWorkout[] {
+  if (!isFitFile(content)) {
+    throw new Error('Not a FIT file');
+  }
+
+  const headerSize = content.readUInt8(0);
+  const dataSize = content.readUInt32LE(4);
+  const end = Math.min(headerSize + dataSize, content.length);
+
+  const definitions = new Map<number, MessageDefinition>();
+  const samples: WorkoutSample[] = [];
+  const sessions: ParsedWorkout[] = [];
+  let lastTimestamp = 0;
+  let offset = headerSize;
+
+  const fitTime = (value: number) => new Date((value + FIT_EPOCH_SECONDS) * 1000).toISOString();
+
+  while (offset < end) {
+    const header = content.readUInt8(offset++);
+
+    // Compressed timestamp header: 5-bit offset from the last full timestamp
+    const compressed = (header & 0x80) !== 0;
+    const localType = compressed ? (header >> 5) & 0x03 : header & 0x0f;
+
+    if (!compressed && (header & 0x40) !== 0) {
+      const hasDeveloperFields = (header & 0x20) !== 0;
+      const littleEndian = content.readUInt8(offset + 1) === 0;
+      const globalNum = littleEndian ? content.readUInt16LE(offset + 2) : content.readUInt16BE(offset + 2);
+      const fieldCount = content.readUInt8(offset + 4);
+      offset += 5;
+
+      const fields: FieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({ num: content.readUInt8(offset), size: content.readUInt8(offset + 1), baseType: content.readUInt8(offset + 2) });
+        offset += 3;
+      }
+
+      let developerBytes = 0;
+      if (hasDeveloperFields) {
+        const developerCount = content.readUInt8(offset++);
+        for (let i = 0; i < developerCount; i++) {
+          developerBytes += content.readUInt8(offset + 1);
+          offset += 3;
+        }
+      }
+
+      definitions.set(localType, { globalNum, littleEndian, fields, developerBytes });
+      continue;
+    }
+
+    const definition = definitions.get(localType);
+    if (!definition) {
+      throw new Error(`FIT data message before its definition (local type ${localType})`);
+    }
+
+    const values = new Map<number, number>();
+    for (const field of definition.fields) {
+      const value = readValue(content, offset, field, definition.littleEndian);
+      if (value !== undefined) values.set(field.num, value);
+      offset += field.size;
+    }
+    offset += definition.developerBytes;
+
+    if (values.has(253)) {
+      lastTimestamp = values.get(253) as number;
+    } else if (compressed) {
+      const timeOffset = header & 0x1f;
+      lastTimestamp = (lastTimestamp & ~0x1f) + timeOffset + (timeOffset < (lastTimestamp & 0x1f) ? 0x20 : 0);
+      values.set(253, lastTimestamp);
+    }
+
+    const scaled = (num: number, scale: number, offsetBy = 0) =>
+      values.has(num) ? (values.get(num) as number) / scale - offsetBy : undefined;
+
+    if (definition.globalNum === MESG_RECORD && values.has(253)) {
+      const lat = values.get(0);
+      const lon = values.get(1);
+      samples.push({
+        time: fitTime(values.get(253) as number),
+        lat: lat !== undefined ? lat * SEMICIRCLES_TO_DEGREES : undefined,
+        lon: lon !== undefined ? lon * SEMICIRCLES_TO_DEGREES : undefined,
+        elevation: scaled(78, 5, 500) ?? scaled(2, 5, 500),
+        heartRate: values.get(3),
+        cadence: values.get(4),
+        distance: scaled(5, 100),
+        speed: scaled(73, 1000) ?? scaled(6, 1000),
+      });
+    }
+
+    if (definition.globalNum === MESG_SESSION) {
+      const start = values.get(2);
+      sessions.push({
+        source: 'fit',
+        sport: FIT_SPORTS[values.get(5) ?? -1] || 'other',
+        startTime: start !== undefined ? fitTime(start) : undefined,
+        samples: [],
+        reported: {
+          durationSeconds: scaled(7, 1000),
+          distanceMeters: scaled(9, 100),
+          calories: values.get(11),
+          avgHeartRate: values.get(16),
+          maxHeartRate: values.get(17),
+        },
+      });
+    }
+  }
+
+  // Activity files usually carry one session; attach each record to the session it falls in
+  if (sessions.length === 0) {
+    return samples.length > 0 ? [{ source: 'fit', sport: 'other', samples, reported: {} }] : [];
+  }
+
+  return sessions.map((session, i) => {
+    const from = session.startTime ? Date.parse(session.startTime) : -Infinity;
+    const nextStart = sessions[i + 1]?.startTime;
+    const to = nextStart ? Date.parse(nextStart) : Infinity;
+    return {
+      ...session,
+      samples: sessions.length === 1 ? samples : samples.filter(s => Date.parse(s.time) >= from && Date.parse(s.time) < to),
+    };
+  });
+}
@@ -0,0 +1,46 @@
+/**
+ * GPX importer
+ * One workout per <trk>; heart rate and cadence come from the Garmin TrackPointExtension
+ */
+
+import { childNumber, childText, findElements } from './xml';
+import type { ParsedWorkout, WorkoutSample, WorkoutSport } from './types';
+
+// Strava writes activity type codes into <type>
+const STRAVA_TYPES: Record<string, WorkoutSport> = { '1': 'cycling', '9': 'running', '10': 'walking', '11': 'walking' };
+
+export function sportFromName(name: string | undefined): WorkoutSport {
+  const value = (name || '').toLowerCase();
+  if (STRAVA_TYPES[value]) return STRAVA_TYPES[value];
+  if (/run|jog/.test(value)) return 'running';
+  if (/bik|cycl|ride/.test(value)) return 'cycling';
+  if (/walk|hik/.test(value)) return 'walking';
+  return 'other';
+}
+
+export function parseGpx(xml: string): ParsedWorkout[] {
+  return findElements(xml, 'trk').map(track => {
+    const samples: WorkoutSample[] = [];
+
+    for (const point of findElements(track.body, 'trkpt')) {
+      const time = childText(point.body, 'time');
+      if (!time || Number.isNaN(Date.parse(time))) continue;
+
+      samples.push({
+        time: new Date(time).toISOString(),
+        lat: Number(point.attrs.lat),
+        lon: Number(point.attrs.lon),
+        elevation: childNumber(point.body, 'ele'),
+        heartRate: childNumber(point.body, 'hr'),
+        cadence: childNumber(point.body, 'cad'),
+      });
+    }
+
+    return {
+      source: 'gpx' as const,
+      sport: sportFromName(childText(track.body, 'type') || childText(track.body, 'name')),
+      samples,
+      reported: {},
+    };
+  });
+}
@@ -0,0 +1,72 @@
+/**
+ * Workout import
+ * Turns wearable exports (GPX, TCX, Garmin FIT, Apple Health export.xml) into normalized workouts
+ * that feed sweat equity VerificationProof metadata and the streak tables.
+ */
+
+import { parseAppleHealth, isAppleHealthExport } from './apple-health';
+import { isFitFile, parseFit } from './fit';
+import { parseGpx } from './gpx';
+import { normalizeWorkout } from './normalize';
+import { parseTcx } from './tcx';
+import type { NormalizedWorkout, WorkoutSource } from './types';
+import type { VerificationProof } from '../sweat-equity-bot-integration';
+
+export { checkWorkoutSanity, computeTotals, haversineMeters, normalizeWorkout } from './normalize';
+export type * from './types';
+
+/**
+ * Work out the format from the content itself; file names and MIME types are often wrong
+ */
+export function detectWorkoutFormat(content: Buffer): WorkoutSource | null {
+  if (isFitFile(content)) return 'fit';
+
+  const head = content.subarray(0, 4096).toString('utf8');
+  if (/<gpx[\s>]/.test(head)) return 'gpx';
+  if (/<TrainingCenterDatabase[\s>]/.test(head)) return 'tcx';
+  if (isAppleHealthExport(head)) return 'apple-health';
+
+  return null;
+}
+
+/**
+ * Parse and normalize every workout in a file
+ */
+export function importWorkouts(content: Buffer, now: number = Date.now()): NormalizedWorkout[] {
+  const format = detectWorkoutFormat(content);
+
+  let parsed;
+  switch (format) {
+    case 'fit':
+      parsed = parseFit(content);
+      break;
+    case 'gpx':
+      parsed = parseGpx(content.toString('utf8'));
+      break;
+    case 'tcx':
+      parsed = parseTcx(content.toString('utf8'));
+      break;
+    case 'apple-health':
+      parsed = parseAppleHealth(content.toString('utf8'));
+      break;
+    default:
+      throw new Error('Unsupported workout file (expected GPX, TCX, FIT or Apple Health export.xml)');
+  }
+
+  // Drop empty tracks (e.g. a GPX route with no timestamps) rather than failing the whole file
+  return parsed
+    .filter(workout => workout.samples.length > 0 || workout.startTime)
+    .map(workout => normalizeWorkout(workout, now));
+}
+
+/**
+ * The VerificationProof metadata a workout supports
+ */
+export function toVerificationMetadata(workout: NormalizedWorkout): NonNullable<VerificationProof['metadata']> {
+  return {
+    duration: Math.round(workout.totals.durationSeconds),
+    distance: Math.round(workout.totals.distanceMeters),
+    calories: workout.totals.calories !== undefined ? Math.round(workout.totals.calories) : undefined,
+    heartRate: workout.totals.avgHeartRate,
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * Workout normalization
+ * Sorts the timeline, computes totals (preferring what the device reported) and flags
+ * physically implausible pace and heart-rate patterns.
+ */
+
+import type {
+  NormalizedWorkout,
+  ParsedWorkout,
+  WorkoutIssue,
+  WorkoutSample,
+  WorkoutSport,
+  WorkoutTotals,
+} from './types';
+
+// Fastest sustained speed treated as humanly possible, per sport (m/s)
+export const MAX_SPEED: Record<WorkoutSport, number> = {
+  running: 10.5, // ~1:35/km, faster than any race pace
+  walking: 3.5,
+  cycling: 25, // 90 km/h
+  other: 25,
+};
+
+// A single GPS jump faster than this is a teleport regardless of sport (m/s)
+const TELEPORT_SPEED = 100;
+
+// Share of the moving time allowed above MAX_SPEED before the workout is rejected (GPS noise)
+const MAX_FAST_SHARE = 0.05;
+
+const MIN_HEART_RATE = 25;
+const MAX_HEART_RATE = 230;
+
+// Real heart rate drifts; this many minutes of an unchanging reading suggests a synthetic file
+const FLATLINE_MINUTES = 10;
+const FLATLINE_MIN_SAMPLES = 30;
+
+// Device totals more than this far from the sample-derived distance are flagged
+const DISTANCE_MISMATCH_RATIO = 0.25;
+
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const EARTH_RADIUS_METERS = 6371000;
+
+export function haversineMeters(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+const hasPosition = (s: WorkoutSample): s is WorkoutSample & { lat: number; lon: number } =>
+  Number.isFinite(s.lat) && Number.isFinite(s.lon);
+
+/**
+ * Distance between consecutive samples: device odometer when both have it, GPS otherwise
+ */
+function segmentMeters(previous: WorkoutSample, current: WorkoutSample): number | undefined {
+  if (previous.distance !== undefined && current.distance !== undefined) {
+    return Math.max(0, current.distance - previous.distance);
+  }
+  if (hasPosition(previous) && hasPosition(current)) {
+    return haversineMeters(previous, current);
+  }
+  return undefined;
+}
+
+export function computeTotals(parsed: ParsedWorkout, samples: WorkoutSample[], startTime: string, endTime: string): WorkoutTotals {
+  let sampleDistance = 0;
+  let elevationGain = 0;
+  let hasElevation = false;
+
+  for (let i = 1; i < samples.length; i++) {
+    sampleDistance += segmentMeters(samples[i - 1], samples[i]) ?? 0;
+
+    const rise = (samples[i].elevation ?? NaN) - (samples[i - 1].elevation ?? NaN);
+    if (Number.isFinite(rise)) {
+      hasElevation = true;
+      if (rise > 0) elevationGain += rise;
+    }
+  }
+
+  const heartRates = samples.map(s => s.heartRate).filter((hr): hr is number => hr !== undefined && hr > 0);
+  const durationSeconds = parsed.reported.durationSeconds ?? (Date.parse(endTime) - Date.parse(startTime)) / 1000;
+  const distanceMeters = parsed.reported.distanceMeters ?? sampleDistance;
+
+  return {
+    durationSeconds,
+    distanceMeters,
+    calories: parsed.reported.calories,
+    avgHeartRate: parsed.reported.avgHeartRate
+      ?? (heartRates.length > 0 ? Math.round(heartRates.reduce((sum, hr) => sum + hr, 0) / heartRates.length) : undefined),
+    maxHeartRate: parsed.reported.maxHeartRate ?? (heartRates.length > 0 ? Math.max(...heartRates) : undefined),
+    elevationGainMeters: hasElevation ? Math.round(elevationGain) : undefined,
+    avgSpeed: durationSeconds > 0 && distanceMeters > 0 ? distanceMeters / durationSeconds : undefined,
+  };
+}
+
+/**
+ * Flag impossible pace and heart-rate patterns; pure so it can be tested without files
+ */
+export function checkWorkoutSanity(
+  workout: Pick<NormalizedWorkout, 'sport' | 'startTime' | 'endTime' | 'samples' | 'totals'>,
+  now: number = Date.now()
+): WorkoutIssue[] {
+  const issues: WorkoutIssue[] = [];
+  const { samples, totals, sport } = workout;
+  const maxSpeed = MAX_SPEED[sport];
+
+  if (!(totals.durationSeconds > 0)) {
+    issues.push({ code: 'no_duration', severity: 'error', detail: 'Workout has no duration' });
+  }
+
+  if (Date.parse(workout.startTime) > now + CLOCK_SKEW_MS) {
+    issues.push({ code: 'future_start', severity: 'error', detail: `Starts in the future (${workout.startTime})` });
+  }
+
+  if (totals.avgSpeed !== undefined && totals.avgSpeed > maxSpeed) {
+    issues.push({
+      code: 'impossible_pace',
+      severity: 'error',
+      detail: `Average ${(totals.avgSpeed * 3.6).toFixed(1)} km/h exceeds ${(maxSpeed * 3.6).toFixed(0)} km/h for ${sport}`,
+    });
+  }
+
+  // Segment speeds: occasional GPS spikes are tolerated, sustained ones and teleports are not
+  let fastSeconds = 0;
+  let movingSeconds = 0;
+  let teleports = 0;
+  for (let i = 1; i < samples.length; i++) {
+    const seconds = (Date.parse(samples[i].time) - Date.parse(samples[i - 1].time)) / 1000;
+    const meters = segmentMeters(samples[i - 1], samples[i]);
+    if (meters === undefined || seconds <= 0) continue;
+
+    const speed = meters / seconds;
+    movingSeconds += seconds;
+    if (speed > TELEPORT_SPEED) teleports++;
+    else if (speed > maxSpeed) fastSeconds += seconds;
+  }
+
+  if (teleports > 0) {
+    issues.push({ code: 'gps_teleport', severity: 'error', detail: `${teleports} jump(s) faster than ${TELEPORT_SPEED} m/s` });
+  }
+  if (movingSeconds > 0 && fastSeconds / movingSeconds > MAX_FAST_SHARE) {
+    issues.push({
+      code: 'sustained_impossible_speed',
+      severity: 'error',
+      detail: `${Math.round((fastSeconds / movingSeconds) * 100)}% of the workout above ${(maxSpeed * 3.6).toFixed(0)} km/h`,
+    });
+  } else if (fastSeconds > 0) {
+    issues.push({ code: 'speed_spikes', severity: 'warning', detail: `${Math.round(fastSeconds)}s above the ${sport} speed limit` });
+  }
+
+  const backwards = samples.filter((s, i) => i > 0 && Date.parse(s.time) < Date.parse(samples[i - 1].time)).length;
+  if (backwards > 0) {
+    issues.push({ code: 'timeline_out_of_order', severity: 'error', detail: `${backwards} sample(s) go back in time` });
+  }
+
+  // Heart rate
+  const heartSamples = samples.filter(s => s.heartRate !== undefined && s.heartRate > 0);
+  const outOfRange = heartSamples.filter(s => (s.heartRate as number) < MIN_HEART_RATE || (s.heartRate as number) > MAX_HEART_RATE);
+  if (outOfRange.length > 0) {
+    issues.push({
+      code: 'heart_rate_out_of_range',
+      severity: 'error',
+      detail: `${outOfRange.length} reading(s) outside ${MIN_HEART_RATE}-${MAX_HEART_RATE} bpm`,
+    });
+  }
+
+  if (heartSamples.length >= FLATLINE_MIN_SAMPLES) {
+    let runStart = 0;
+    let longestFlatMs = 0;
+    for (let i = 1; i <= heartSamples.length; i++) {
+      if (i === heartSamples.length || heartSamples[i].heartRate !== heartSamples[runStart].heartRate) {
+        longestFlatMs = Math.max(longestFlatMs, Date.parse(heartSamples[i - 1].time) - Date.parse(heartSamples[runStart].time));
+        runStart = i;
+      }
+    }
+    if (longestFlatMs >= FLATLINE_MINUTES * 60 * 1000) {
+      issues.push({
+        code: 'heart_rate_flatline',
+        severity: 'error',
+        detail: `Heart rate unchanged for ${Math.round(longestFlatMs / 60000)} minutes`,
+      });
+    }
+  }
+
+  // Hard running with a resting pulse is more likely a vehicle or a copied track
+  if (sport === 'running' && totals.avgSpeed !== undefined && totals.avgSpeed > 3.5 && totals.avgHeartRate !== undefined && totals.avgHeartRate < 80) {
+    issues.push({
+      code: 'heart_rate_effort_mismatch',
+      severity: 'warning',
+      detail: `Average ${totals.avgHeartRate} bpm at ${(totals.avgSpeed * 3.6).toFixed(1)} km/h`,
+    });
+  }
+
+  // Device-reported distance far from what the samples cover
+  let sampleDistance = 0;
+  for (let i = 1; i < samples.length; i++) sampleDistance += segmentMeters(samples[i - 1], samples[i]) ?? 0;
+  if (sampleDistance > 0 && totals.distanceMeters > 0) {
+    const mismatch = Math.abs(totals.distanceMeters - sampleDistance) / totals.distanceMeters;
+    if (mismatch > DISTANCE_MISMATCH_RATIO) {
+      issues.push({
+        code: 'distance_mismatch',
+        severity: 'warning',
+        detail: `Reported ${Math.round(totals.distanceMeters)} m, samples cover ${Math.round(sampleDistance)} m`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+export function normalizeWorkout(parsed: ParsedWorkout, now: number = Date.now()): NormalizedWorkout {
+  const samples = [...parsed.samples].sort((a, b) => Date.parse(a.time) - Date.parse(b.time));
+  const startTime = parsed.startTime ?? samples[0]?.time;
+  if (!startTime) {
+    throw new Error(`${parsed.source.toUpperCase()} workout has no start time or samples`);
+  }
+
+  const lastSample = samples[samples.length - 1]?.time;
+  const endTime = parsed.endTime
+    ?? (parsed.reported.durationSeconds !== undefined
+      ? new Date(Date.parse(startTime) + parsed.reported.durationSeconds * 1000).toISOString()
+      : lastSample ?? startTime);
+
+  const totals = computeTotals(parsed, samples, startTime, endTime);
+  // Sanity checks run on the timeline as recorded, so out-of-order files are caught
+  const issues = checkWorkoutSanity({ sport: parsed.sport, startTime, endTime, samples: parsed.samples, totals }, now);
+
+  return {
+    source: parsed.source,
+    sport: parsed.sport,
+    startTime,
+    endTime,
+    samples,
+    totals,
+    issues,
+    plausible: issues.every(issue => issue.severity !== 'error'),
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * TCX (Garmin Training Center) importer
+ * One workout per <Activity>; lap summaries provide the reported totals
+ */
+
+import { childNumber, childText, findElements } from './xml';
+import { sportFromName } from './gpx';
+import type { ParsedWorkout, WorkoutSample } from './types';
+
+export function parseTcx(xml: string): ParsedWorkout[] {
+  return findElements(xml, 'Activity').map(activity => {
+    const laps = findElements(activity.body, 'Lap');
+    const samples: WorkoutSample[] = [];
+
+    for (const point of findElements(activity.body, 'Trackpoint')) {
+      const time = childText(point.body, 'Time');
+      if (!time || Number.isNaN(Date.parse(time))) continue;
+
+      // HeartRateBpm wraps its reading in <Value>
+      const heartRate = findElements(point.body, 'HeartRateBpm')[0];
+
+      samples.push({
+        time: new Date(time).toISOString(),
+        lat: childNumber(point.body, 'LatitudeDegrees'),
+        lon: childNumber(point.body, 'LongitudeDegrees'),
+        elevation: childNumber(point.body, 'AltitudeMeters'),
+        distance: childNumber(point.body, 'DistanceMeters'),
+        heartRate: heartRate ? childNumber(heartRate.body, 'Value') : undefined,
+        cadence: childNumber(point.body, 'Cadence'),
+        speed: childNumber(point.body, 'Speed'),
+      });
+    }
+
+    const sum = (tag: string) => {
+      const values = laps.map(lap => childNumber(lap.body, tag)).filter((v): v is number => v !== undefined);
+      return values.length > 0 ? values.reduce((total, v) => total + v, 0) : undefined;
+    };
+    const maxHeartRates = laps
+      .map(lap => findElements(lap.body, 'MaximumHeartRateBpm')[0])
+      .map(element => (element ? childNumber(element.body, 'Value') : undefined))
+      .filter((v): v is number => v !== undefined);
+
+    return {
+      source: 'tcx' as const,
+      sport: sportFromName(activity.attrs.Sport),
+      startTime: laps[0]?.attrs.StartTime ? new Date(laps[0].attrs.StartTime).toISOString() : undefined,
+      samples,
+      reported: {
+        durationSeconds: sum('TotalTimeSeconds'),
+        distanceMeters: sum('DistanceMeters'),
+        calories: sum('Calories'),
+        maxHeartRate: maxHeartRates.length > 0 ? Math.max(...maxHeartRates) : undefined,
+      },
+    };
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * Workout import types
+ * Every importer (GPX, TCX, FIT, Apple Health) produces ParsedWorkouts; normalizeWorkout turns
+ * each into a NormalizedWorkout with computed totals and sanity checks.
+ */
+
+export type WorkoutSource = 'gpx' | 'tcx' | 'fit' | 'apple-health';
+
+export type WorkoutSport = 'running' | 'cycling' | 'walking' | 'other';
+
+export interface WorkoutSample {
+  time: string; // ISO instant
+  lat?: number;
+  lon?: number;
+  elevation?: number; // meters
+  heartRate?: number; // bpm
+  distance?: number; // cumulative meters, when the device records it
+  speed?: number; // m/s
+  cadence?: number;
+}
+
+/**
+ * Summary values a file states outright (session totals), as opposed to ones computed from samples
+ */
+export interface ReportedTotals {
+  durationSeconds?: number;
+  distanceMeters?: number;
+  calories?: number;
+  avgHeartRate?: number;
+  maxHeartRate?: number;
+}
+
+export interface ParsedWorkout {
+  source: WorkoutSource;
+  sport: WorkoutSport;
+  startTime?: string;
+  endTime?: string;
+  samples: WorkoutSample[];
+  reported: ReportedTotals;
+}
+
+export interface WorkoutTotals {
+  durationSeconds: number;
+  distanceMeters: number;
+  calories?: number;
+  avgHeartRate?: number;
+  maxHeartRate?: number;
+  elevationGainMeters?: number;
+  avgSpeed?: number; // m/s over the whole duration
+}
+
+export interface WorkoutIssue {
+  code: string;
+  severity: 'error' | 'warning'; // Errors make the workout implausible
+  detail: string;
+}
+
+export interface NormalizedWorkout {
+  source: WorkoutSource;
+  sport: WorkoutSport;
+  startTime: string;
+  endTime: string;
+  samples: WorkoutSample[];
+  totals: WorkoutTotals;
+  issues: WorkoutIssue[];
+  plausible: boolean;
+}
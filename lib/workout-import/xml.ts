@@ -0,0 +1,106 @@
+/**
+ * Minimal XML scanning for workout exports
+ * GPX, TCX and Apple Health exports are flat, predictable documents, so elements are found by
+ * tag name (namespace prefixes ignored) rather than by building a full DOM.
+ * Every scan is a single linear pass over the tags, capped so a hostile upload can't run it long.
+ */
+
+export interface XmlElement {
+  attrs: Record<string, string>;
+  body: string; // Inner XML; empty for self-closing elements
+}
+
+// Tags one scan will read before giving up on the file; a long GPX track is tens of thousands
+export const MAX_XML_TAGS = 500_000;
+
+// Longest tag (name and attributes) recognised; Apple Health records are a few hundred characters
+const MAX_TAG_LENGTH = 4096;
+
+// Opening, closing or self-closing tag: [closing slash, local name, attributes, self-closing slash]
+// Attributes stop at the next < as well as >, so an unterminated tag can't make the scan backtrack
+const TAG = new RegExp(`<(/?)(?:[\\w.-]+:)?([\\w.-]+)((?:\\s[^<>]{0,${MAX_TAG_LENGTH}}?)?)(/?)>`, 'g');
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export function decodeEntities(value: string): string {
+  return value.replace(/&(amp|lt|gt|quot|apos);/g, (_, name: string) => ENTITIES[name]);
+}
+
+function parseAttrs(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    const name = match[1].includes(':') ? match[1].split(':').pop() as string : match[1];
+    attrs[name] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+/**
+ * Elements with the given local name, in document order, found as the scan reaches them
+ * An element runs to the first closing tag of its name, so same-name elements must not nest
+ * (true for every tag the importers look up)
+ */
+function* scanElements(xml: string, tag: string): Generator<XmlElement> {
+  let open: { attrs: Record<string, string>; bodyStart: number } | null = null;
+  let tags = 0;
+
+  for (const match of xml.matchAll(TAG)) {
+    if (++tags > MAX_XML_TAGS) {
+      throw new Error(`Workout file has more than ${MAX_XML_TAGS} XML tags`);
+    }
+
+    const [source, closing, name, attrs, selfClosing] = match;
+    if (name !== tag) continue;
+
+    if (closing) {
+      if (open) {
+        yield { attrs: open.attrs, body: xml.slice(open.bodyStart, match.index) };
+        open = null;
+      }
+    } else if (!open) {
+      if (selfClosing) {
+        yield { attrs: parseAttrs(attrs), body: '' };
+      } else {
+        open = { attrs: parseAttrs(attrs), bodyStart: (match.index as number) + source.length };
+      }
+    }
+  }
+}
+
+/**
+ * All elements with the given local name, in document order
+ */
+export function findElements(xml: string, tag: string): XmlElement[] {
+  return Array.from(scanElements(xml, tag));
+}
+
+function stripCdata(text: string): string {
+  let result = '';
+  let from = 0;
+
+  for (;;) {
+    const start = text.indexOf('<![CDATA[', from);
+    const end = start < 0 ? -1 : text.indexOf(']]>', start);
+    if (end < 0) {
+      return result + text.slice(from);
+    }
+    result += text.slice(from, start) + text.slice(start + 9, end);
+    from = end + 3;
+  }
+}
+
+/**
+ * Text content of the first child element with the given local name
+ */
+export function childText(xml: string, tag: string): string | undefined {
+  for (const element of scanElements(xml, tag)) {
+    return decodeEntities(stripCdata(element.body)).trim();
+  }
+  return undefined;
+}
+
+export function childNumber(xml: string, tag: string): number | undefined {
+  const text = childText(xml, tag);
+  const value = text === undefined || text === '' ? NaN : Number(text);
+  return Number.isFinite(value) ? value : undefined;
+}
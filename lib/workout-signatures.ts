@@ -0,0 +1,28 @@
+/**
+ * Workout Signatures
+ * Messages a user signs to import a wearable export into their streak and workout history,
+ * and to view a workout's sample timeline, which holds its GPS track
+ * Shared by the browser (to build the message) and the API (which recovers it with recoverResolutionSigner)
+ */
+
+export function buildWorkoutImportMessage(params: {
+  contentHash: string;
+  issuedAt: number;
+}): string {
+  return [
+    'Import workout data',
+    `File: ${params.contentHash}`,
+    `Issued: ${params.issuedAt}`
+  ].join('\n');
+}
+
+export function buildWorkoutAccessMessage(params: {
+  workoutId: number;
+  issuedAt: number;
+}): string {
+  return [
+    'View workout route',
+    `Workout: ${params.workoutId}`,
+    `Issued: ${params.issuedAt}`
+  ].join('\n');
+}
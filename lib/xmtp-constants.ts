@@ -20,6 +20,9 @@ export const DEFAULT_XMTP_ENV = XMTP_ENVIRONMENTS.DEV;
 export const CHAT_CONFIG = {
   // Queue processing intervals
   QUEUE_CHECK_INTERVAL: 2000, // 2 seconds
+  QUEUE_CLEANUP_INTERVAL: 60000, // 1 minute
+  RESOLUTION_CHECK_INTERVAL: 60000, // 1 minute
+  TEMPLATE_CHECK_INTERVAL: 60000, // 1 minute
   STATUS_UPDATE_INTERVAL: 10000, // 10 seconds
   
   // Timeouts
@@ -28,6 +31,14 @@ export const CHAT_CONFIG = {
   
   // Message lifecycle
   MESSAGE_CLEANUP_AGE: 5 * 60 * 1000, // 5 minutes
+  DEAD_LETTER_RETENTION: 7 * 24 * 60 * 60 * 1000, // 7 days
+
+  // Durable queue delivery
+  QUEUE_BATCH_SIZE: 10,
+  QUEUE_VISIBILITY_TIMEOUT: 60000, // 1 minute before an unfinished claim is redelivered
+  QUEUE_MAX_ATTEMPTS: 3, // Then dead-lettered
+  QUEUE_RETRY_DELAY: 5000, // 5 seconds
+  QUEUE_POLL_INTERVAL: 250, // waitForMessageResponse polling
   
   // UI configuration
   MAX_MESSAGE_LENGTH: 500,
@@ -3,99 +3,150 @@
  * Bridges the gap between frontend API calls and the XMTP bot service
  *
  * This system allows the frontend to send messages that get processed by the bot
- * even when the bot is running as a separate service.
+ * even when the bot is running as a separate service. State lives in Redis (when
+ * REDIS_URL/REDIS_TOKEN are set) or Postgres, so every process sees the same queue.
+ * Delivery is at-least-once: a claimed message that isn't completed before its
+ * visibility timeout is redelivered, and dead-lettered after QUEUE_MAX_ATTEMPTS.
  */
 
 import { CHAT_CONFIG } from './xmtp-constants';
+import { redis } from './redis';
+import { createRedisMessageQueue } from './queue/redis-message-queue';
+import { createPostgresMessageQueue } from './queue/postgres-message-queue';
+import type { MessageQueueBackend, QueuedMessage, QueueStats } from './queue/types';
 
-interface QueuedMessage {
-  id: string;
-  userAddress: string;
-  message: string;
-  timestamp: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
-  response?: string;
-  error?: string;
+export type { QueuedMessage, QueueStats } from './queue/types';
+
+let backend: MessageQueueBackend | null = null;
+
+/**
+ * The configured backend: XMTP_QUEUE_BACKEND=redis|postgres, otherwise Redis when available
+ */
+export function getQueueBackend(): MessageQueueBackend {
+  if (!backend) {
+    const preferred = process.env.XMTP_QUEUE_BACKEND;
+
+    if (preferred === 'redis' && !redis) {
+      console.warn('⚠️ XMTP_QUEUE_BACKEND=redis but Redis is not configured, using Postgres');
+    }
+
+    backend = preferred !== 'postgres' && redis
+      ? createRedisMessageQueue(redis)
+      : createPostgresMessageQueue();
+
+    console.log(`📨 XMTP message queue using ${backend.name}`);
+  }
+
+  return backend;
 }
 
-// In-memory message queue (in production, use Redis or database)
-const messageQueue: Map<string, QueuedMessage> = new Map();
-const messageResponses: Map<string, string> = new Map();
+/**
+ * Replace the queue backend (e.g. createInMemoryMessageQueue() in tests); null restores the configured one
+ */
+export function setQueueBackend(next: MessageQueueBackend | null): void {
+  backend = next;
+}
 
 /**
  * Add a message to the queue for processing
+ * conversationId is the chat it came from, so the bot answers with that conversation's memory
  */
-export function queueMessage(userAddress: string, message: string): string {
+export async function queueMessage(userAddress: string, message: string, conversationId?: string): Promise<string> {
   const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  
-  const queuedMessage: QueuedMessage = {
+  const now = Date.now();
+
+  await getQueueBackend().enqueue({
     id: messageId,
     userAddress,
     message,
-    timestamp: Date.now(),
-    status: 'pending'
-  };
-  
-  messageQueue.set(messageId, queuedMessage);
-  
+    conversationId,
+    timestamp: now,
+    status: 'pending',
+    attempts: 0,
+    visibleAt: now,
+  });
+
   console.log(`📨 Queued message ${messageId} from ${userAddress}: ${message}`);
-  
+
   return messageId;
 }
 
 /**
  * Get a message from the queue
  */
-export function getMessage(messageId: string): QueuedMessage | undefined {
-  return messageQueue.get(messageId);
+export async function getMessage(messageId: string): Promise<QueuedMessage | null> {
+  return getQueueBackend().get(messageId);
 }
 
 /**
- * Update message status
+ * Claim visible messages for processing (for bot service to process)
+ * Each claim hides the message for QUEUE_VISIBILITY_TIMEOUT; complete or fail it before then
  */
-export function updateMessageStatus(
-  messageId: string, 
-  status: QueuedMessage['status'], 
-  response?: string, 
-  error?: string
-): void {
-  const message = messageQueue.get(messageId);
-  if (message) {
-    message.status = status;
-    if (response) message.response = response;
-    if (error) message.error = error;
-    messageQueue.set(messageId, message);
-    
-    console.log(`📝 Updated message ${messageId} status to ${status}`);
-  }
+export async function claimMessages(limit: number = CHAT_CONFIG.QUEUE_BATCH_SIZE): Promise<QueuedMessage[]> {
+  return getQueueBackend().claim({
+    limit,
+    visibilityTimeoutMs: CHAT_CONFIG.QUEUE_VISIBILITY_TIMEOUT,
+    maxAttempts: CHAT_CONFIG.QUEUE_MAX_ATTEMPTS,
+  });
 }
 
 /**
- * Get all pending messages (for bot service to process)
+ * Complete message processing with response
  */
-export function getPendingMessages(): QueuedMessage[] {
-  return Array.from(messageQueue.values()).filter(msg => msg.status === 'pending');
+export async function completeMessage(messageId: string, response: string): Promise<void> {
+  await getQueueBackend().complete(messageId, response);
+  console.log(`📝 Updated message ${messageId} status to completed`);
 }
 
 /**
- * Mark message as processing
+ * Mark a processing attempt as failed; retried later, or dead-lettered on the final attempt
  */
-export function markMessageProcessing(messageId: string): void {
-  updateMessageStatus(messageId, 'processing');
+export async function failMessage(messageId: string, error: string): Promise<QueuedMessage | null> {
+  const message = await getQueueBackend().fail(messageId, error, {
+    maxAttempts: CHAT_CONFIG.QUEUE_MAX_ATTEMPTS,
+    retryDelayMs: CHAT_CONFIG.QUEUE_RETRY_DELAY,
+  });
+
+  if (message) {
+    console.log(`📝 Updated message ${messageId} status to ${message.status} (attempt ${message.attempts})`);
+  }
+
+  return message;
 }
 
 /**
- * Complete message processing with response
+ * Answer up to QUEUE_BATCH_SIZE messages with handle(); a message whose handler throws is
+ * retried after QUEUE_RETRY_DELAY, and dead-lettered once it has used QUEUE_MAX_ATTEMPTS
+ * Messages are claimed one at a time, so a slow reply can't use up the visibility timeout of the ones behind it
  */
-export function completeMessage(messageId: string, response: string): void {
-  updateMessageStatus(messageId, 'completed', response);
+export async function processQueuedMessageBatch(
+  handle: (message: QueuedMessage) => Promise<string>
+): Promise<{ completed: number; failed: number }> {
+  let completed = 0;
+  let failed = 0;
+
+  while (completed + failed < CHAT_CONFIG.QUEUE_BATCH_SIZE) {
+    const [queuedMessage] = await claimMessages(1);
+    if (!queuedMessage) break;
+
+    try {
+      await completeMessage(queuedMessage.id, await handle(queuedMessage));
+      completed++;
+    } catch (error) {
+      console.error(`❌ Failed to process queued message ${queuedMessage.id}:`, error);
+      await failMessage(queuedMessage.id, error instanceof Error ? error.message : 'Unknown error');
+      failed++;
+    }
+  }
+
+  return { completed, failed };
 }
 
 /**
- * Mark message as failed
+ * Most recently dead-lettered messages
  */
-export function failMessage(messageId: string, error: string): void {
-  updateMessageStatus(messageId, 'failed', undefined, error);
+export async function getDeadLetters(limit: number = 50): Promise<QueuedMessage[]> {
+  return getQueueBackend().getDeadLetters(limit);
 }
 
 /**
@@ -106,68 +157,48 @@ export async function waitForMessageResponse(
   timeoutMs: number = CHAT_CONFIG.MESSAGE_TIMEOUT
 ): Promise<string> {
   const startTime = Date.now();
-  
-  return new Promise((resolve, reject) => {
-    const checkMessage = () => {
-      const message = getMessage(messageId);
-      
-      if (!message) {
-        reject(new Error('Message not found'));
-        return;
-      }
-      
-      if (message.status === 'completed' && message.response) {
-        resolve(message.response);
-        return;
-      }
-      
-      if (message.status === 'failed') {
-        reject(new Error(message.error || 'Message processing failed'));
-        return;
-      }
-      
-      if (Date.now() - startTime > timeoutMs) {
-        reject(new Error('Message processing timeout'));
-        return;
-      }
-      
-      // Check again in 100ms
-      setTimeout(checkMessage, 100);
-    };
-    
-    checkMessage();
-  });
+
+  while (Date.now() - startTime <= timeoutMs) {
+    const message = await getMessage(messageId);
+
+    if (!message) {
+      throw new Error('Message not found');
+    }
+
+    if (message.status === 'completed' && message.response) {
+      return message.response;
+    }
+
+    if (message.status === 'failed') {
+      throw new Error(message.error || 'Message processing failed');
+    }
+
+    // Check again shortly; each check is a round trip to the backend
+    await new Promise(resolve => setTimeout(resolve, CHAT_CONFIG.QUEUE_POLL_INTERVAL));
+  }
+
+  throw new Error('Message processing timeout');
 }
 
 /**
- * Clean up old messages (call periodically)
+ * Clean up completed messages and expired dead letters (call periodically)
  */
-export function cleanupOldMessages(maxAgeMs: number = CHAT_CONFIG.MESSAGE_CLEANUP_AGE): void {
+export async function cleanupOldMessages(maxAgeMs: number = CHAT_CONFIG.MESSAGE_CLEANUP_AGE): Promise<void> {
   const now = Date.now();
-  const toDelete: string[] = [];
-  
-  for (const [id, message] of messageQueue.entries()) {
-    if (now - message.timestamp > maxAgeMs) {
-      toDelete.push(id);
-    }
-  }
-  
-  toDelete.forEach(id => {
-    messageQueue.delete(id);
-    console.log(`🗑️ Cleaned up old message ${id}`);
+  const removed = await getQueueBackend().cleanup({
+    completedBefore: now - maxAgeMs,
+    deadLetteredBefore: now - CHAT_CONFIG.DEAD_LETTER_RETENTION,
   });
+
+  if (removed > 0) {
+    console.log(`🗑️ Cleaned up ${removed} old messages`);
+  }
 }
 
 /**
  * Get queue statistics
  */
-export function getQueueStats() {
-  const messages = Array.from(messageQueue.values());
-  return {
-    total: messages.length,
-    pending: messages.filter(m => m.status === 'pending').length,
-    processing: messages.filter(m => m.status === 'processing').length,
-    completed: messages.filter(m => m.status === 'completed').length,
-    failed: messages.filter(m => m.status === 'failed').length,
-  };
+export async function getQueueStats(): Promise<QueueStats & { backend: MessageQueueBackend['name'] }> {
+  const queue = getQueueBackend();
+  return { backend: queue.name, ...(await queue.getStats()) };
 }
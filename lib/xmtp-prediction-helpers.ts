@@ -4,6 +4,7 @@
  */
 
 import { SupportedChain } from './services/dual-chain-service';
+import { findPredictedExercise } from './exercises';
 
 export interface CreatePredictionRequest {
   title: string;
@@ -58,7 +59,7 @@ export function parsePredictionFromText(text: string): Partial<CreatePredictionR
   
   // Determine category based on keywords
   const lowerText = text.toLowerCase();
-  if (lowerText.includes('fitness') || lowerText.includes('exercise') || lowerText.includes('pushup') || lowerText.includes('squat')) {
+  if (lowerText.includes('fitness') || lowerText.includes('exercise') || findPredictedExercise(text)) {
     prediction.category = 0; // FITNESS
   } else if (lowerText.includes('blockchain') || lowerText.includes('crypto') || lowerText.includes('bitcoin') || lowerText.includes('ethereum')) {
     prediction.category = 1; // CHAIN
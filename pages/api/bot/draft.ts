@@ -0,0 +1,85 @@
+/**
+ * API endpoint for the chat's prediction draft card
+ * GET   /api/bot/draft?conversationId=...                      current draft
+ * PATCH /api/bot/draft { conversationId, draftId, field, value } edit one field
+ * POST  /api/bot/draft { conversationId, action: 'confirm', draftId } | { action: 'discard' } | { action: 'restore', draft }
+ *
+ * Edits land in the bot's conversation memory, so the bot sees them on the next message
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import {
+  confirmConversationDraft,
+  discardConversationDraft,
+  editConversationDraft,
+  getConversationDraft,
+  restoreConversationDraft,
+  type DraftSyncResult,
+} from '@/lib/bot-agent/conversation-draft';
+import type { DraftTransaction, PredictionDraft } from '@/lib/prediction-draft';
+
+interface DraftResponse {
+  success: boolean;
+  draft?: PredictionDraft | null;
+  transaction?: DraftTransaction;
+  error?: string;
+}
+
+const FAILURE_STATUS = { missing: 404, stale: 409, invalid: 400 } as const;
+
+function send<T>(res: NextApiResponse<DraftResponse>, result: DraftSyncResult<T>, key: 'draft' | 'transaction') {
+  if (!result.ok) {
+    return res.status(FAILURE_STATUS[result.reason]).json({ success: false, error: result.error });
+  }
+  return res.status(200).json({ success: true, [key]: result.value });
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DraftResponse>
+) {
+  const conversationId = req.method === 'GET' ? req.query.conversationId : req.body?.conversationId;
+  if (typeof conversationId !== 'string' || !conversationId) {
+    return res.status(400).json({ success: false, error: 'conversationId is required' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, draft: await getConversationDraft(conversationId) });
+    }
+
+    const { draftId, field, value, action, draft } = req.body;
+
+    if (req.method === 'PATCH') {
+      if (typeof draftId !== 'string' || typeof field !== 'string') {
+        return res.status(400).json({ success: false, error: 'draftId and field are required' });
+      }
+      return send(res, await editConversationDraft(conversationId, draftId, field, value), 'draft');
+    }
+
+    if (req.method === 'POST') {
+      switch (action) {
+        case 'confirm':
+          if (typeof draftId !== 'string') {
+            return res.status(400).json({ success: false, error: 'draftId is required' });
+          }
+          return send(res, await confirmConversationDraft(conversationId, draftId), 'transaction');
+        case 'discard':
+          await discardConversationDraft(conversationId);
+          return res.status(200).json({ success: true, draft: null });
+        case 'restore':
+          return send(res, await restoreConversationDraft(conversationId, draft), 'draft');
+        default:
+          return res.status(400).json({ success: false, error: "action must be 'confirm', 'discard' or 'restore'" });
+      }
+    }
+
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  } catch (error) {
+    console.error('❌ Draft API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
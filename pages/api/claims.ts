@@ -0,0 +1,41 @@
+/**
+ * API endpoint for a wallet's claimable rewards
+ * GET /api/claims?address=0x...
+ *
+ * Resolved winning positions not claimed yet, grouped per chain for the "claim all" flow
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ethers } from 'ethers';
+import { getClaimPlan, type ClaimPlan } from '@/lib/claims';
+
+interface ClaimsResponse {
+  success: boolean;
+  plan?: ClaimPlan;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ClaimsResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const { address } = req.query;
+  if (typeof address !== 'string' || !ethers.isAddress(address)) {
+    return res.status(400).json({ success: false, error: 'address must be a wallet address' });
+  }
+
+  try {
+    const plan = await getClaimPlan(address);
+    return res.status(200).json({ success: true, plan });
+  } catch (error) {
+    console.error('❌ Claims API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * API endpoint for a wallet's prediction portfolio
+ * GET /api/portfolio?address=0x...
+ *
+ * Open positions, realized P&L after fees, unclaimed rewards and sweat equity recovered,
+ * per chain in native units and USD
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ethers } from 'ethers';
+import { getPortfolioService, type Portfolio } from '@/lib/services/portfolio-service';
+
+interface PortfolioResponse {
+  success: boolean;
+  portfolio?: Portfolio;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<PortfolioResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const { address } = req.query;
+  if (typeof address !== 'string' || !ethers.isAddress(address)) {
+    return res.status(400).json({ success: false, error: 'address must be a wallet address' });
+  }
+
+  try {
+    const portfolio = await getPortfolioService().getPortfolio(address);
+    return res.status(200).json({ success: true, portfolio });
+  } catch (error) {
+    console.error('❌ Portfolio API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
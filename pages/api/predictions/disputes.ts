@@ -0,0 +1,163 @@
+/**
+ * Resolution Disputes API
+ *
+ * Exposes proposed resolutions during their dispute window,
+ * lets stakers flag them and lets admins rule on flagged ones
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { CHAIN_CONFIG, type SupportedChain } from '@/lib/services/dual-chain-service';
+import {
+  getProposal,
+  listProposals,
+  getDisputeWindowSeconds,
+  type ProposalStatus
+} from '@/lib/services/resolution-disputes';
+import {
+  disputeProposedResolution,
+  isResolutionAdmin,
+  ruleOnDisputedResolution
+} from '@/lib/services/prediction-resolution-service';
+import {
+  buildAdminResolutionMessage,
+  buildDisputeMessage,
+  recoverResolutionSigner
+} from '@/lib/resolution-signatures';
+import { errorStatus } from '@/lib/request-error';
+
+interface DisputeRequest {
+  action: 'dispute' | 'rule';
+  predictionId: number;
+  chain: SupportedChain;
+  reason?: string;
+  outcome?: 'YES' | 'NO';
+  issuedAt: number;
+  signature: string;
+}
+
+interface DisputeResponse {
+  success: boolean;
+  data?: any;
+  error?: string;
+  timestamp: string;
+}
+
+const PROPOSAL_STATUSES: ProposalStatus[] = ['proposed', 'disputed', 'finalizing', 'finalized', 'overturned'];
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DisputeResponse>
+) {
+  const timestamp = new Date().toISOString();
+
+  try {
+    if (req.method === 'GET') {
+      const { predictionId, chain, status } = req.query;
+
+      if (predictionId && chain) {
+        const proposal = await getProposal(Number(predictionId), String(chain) as SupportedChain);
+        return res.status(200).json({
+          success: true,
+          data: { proposal, disputeWindowSeconds: getDisputeWindowSeconds() },
+          timestamp
+        });
+      }
+
+      const statuses = String(status || 'disputed')
+        .split(',')
+        .filter((s): s is ProposalStatus => PROPOSAL_STATUSES.includes(s as ProposalStatus));
+
+      const proposals = await listProposals(statuses.length > 0 ? statuses : ['disputed']);
+      return res.status(200).json({ success: true, data: { proposals }, timestamp });
+    }
+
+    if (req.method === 'POST') {
+      const { action, predictionId, chain, reason, outcome, issuedAt, signature }: DisputeRequest = req.body;
+
+      if (!predictionId || !chain || !(chain in CHAIN_CONFIG) || !signature) {
+        return res.status(400).json({
+          success: false,
+          error: 'predictionId, chain and signature are required',
+          timestamp
+        });
+      }
+
+      switch (action) {
+        case 'dispute': {
+          if (!reason || !reason.trim()) {
+            return res.status(400).json({ success: false, error: 'reason is required', timestamp });
+          }
+
+          const staker = recoverResolutionSigner(
+            buildDisputeMessage({ predictionId, chain, reason, issuedAt }),
+            signature,
+            issuedAt
+          );
+
+          const proposal = await disputeProposedResolution({ predictionId, chain, staker, reason });
+          return res.status(200).json({ success: true, data: { proposal }, timestamp });
+        }
+
+        case 'rule': {
+          if (outcome !== 'YES' && outcome !== 'NO') {
+            return res.status(400).json({ success: false, error: 'outcome must be YES or NO', timestamp });
+          }
+
+          const admin = recoverResolutionSigner(
+            buildAdminResolutionMessage({ predictionId, chain, outcome, issuedAt }),
+            signature,
+            issuedAt
+          );
+
+          if (!isResolutionAdmin(admin)) {
+            return res.status(403).json({ success: false, error: 'Not a resolution admin', timestamp });
+          }
+
+          const proposal = await ruleOnDisputedResolution({ predictionId, chain, outcome, admin });
+          return res.status(200).json({ success: true, data: { proposal }, timestamp });
+        }
+
+        default:
+          return res.status(400).json({
+            success: false,
+            error: `Unknown action: ${action}. Valid actions: dispute, rule`,
+            timestamp
+          });
+      }
+    }
+
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET for proposals or POST for actions.',
+      timestamp
+    });
+
+  } catch (error) {
+    console.error('Resolution disputes API error:', error);
+
+    // Validation failures from the dispute flow are the caller's to fix; database and chain failures are ours
+    return res.status(errorStatus(error)).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+      timestamp
+    });
+  }
+}
+
+/**
+ * API Usage Examples:
+ *
+ * GET /api/predictions/disputes?predictionId=123&chain=base
+ * - Proposed resolution (with evidence and disputes) for one prediction
+ *
+ * GET /api/predictions/disputes?status=disputed
+ * - Admin queue of disputed proposals
+ *
+ * POST /api/predictions/disputes
+ * { "action": "dispute", "predictionId": 123, "chain": "base", "reason": "...", "issuedAt": 1700000000, "signature": "0x..." }
+ * - Staker flags a proposal during its dispute window (signs buildDisputeMessage)
+ *
+ * POST /api/predictions/disputes
+ * { "action": "rule", "predictionId": 123, "chain": "base", "outcome": "NO", "issuedAt": 1700000000, "signature": "0x..." }
+ * - Admin upholds or overturns a disputed proposal (signs buildAdminResolutionMessage)
+ */
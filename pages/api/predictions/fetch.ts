@@ -2,6 +2,36 @@ import { NextApiRequest, NextApiResponse } from 'next';
 import { ethers } from 'ethers';
 import { CHAIN_CONFIG } from '@/lib/services/dual-chain-service';
 import { unifiedPredictionMarketABI } from '@/lib/unified-prediction-market-abi';
+import {
+  getIndexedPrediction,
+  getIndexedPredictions,
+  getServableChains,
+  type IndexedPrediction,
+} from '@/lib/prediction-index';
+
+// Same shape as the contract read below: uint256 fields as strings, pools in wei
+function formatIndexedPrediction(prediction: IndexedPrediction) {
+  return {
+    id: prediction.id.toString(),
+    creator: prediction.creator,
+    title: prediction.title,
+    description: prediction.description,
+    targetDate: prediction.targetDate.toString(),
+    targetValue: prediction.targetValue,
+    currentValue: '0',
+    category: prediction.category,
+    network: prediction.network,
+    emoji: prediction.emoji,
+    totalStaked: prediction.totalStakedWei,
+    yesVotes: prediction.yesVotesWei,
+    noVotes: prediction.noVotesWei,
+    status: prediction.status,
+    outcome: prediction.outcome,
+    createdAt: prediction.createdAt.toString(),
+    autoResolvable: prediction.autoResolvable,
+    chain: prediction.chain
+  };
+}
 
 /**
  * API endpoint to fetch predictions from blockchain (server-side to avoid CORS)
@@ -19,7 +49,29 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: 'Valid chain parameter required (celo or base)' });
     }
 
-    const chainConfig = CHAIN_CONFIG[chain as keyof typeof CHAIN_CONFIG];
+    const chainKey = chain as keyof typeof CHAIN_CONFIG;
+    const chainConfig = CHAIN_CONFIG[chainKey];
+
+    // Serve from the event index when it is current for this chain
+    const servable = await getServableChains().catch(() => new Set());
+    if (servable.has(chainKey)) {
+      if (predictionId) {
+        const prediction = await getIndexedPrediction(chainKey, Number(predictionId));
+        return prediction
+          ? res.status(200).json({ success: true, prediction: formatIndexedPrediction(prediction) })
+          : res.status(404).json({ success: false, error: `Prediction ${predictionId} not found on ${chain}` });
+      }
+
+      const indexed = await getIndexedPredictions(chainKey);
+      const predictions = indexed.slice(-Math.min(Number(limit), 50)).map(formatIndexedPrediction);
+      return res.status(200).json({
+        success: true,
+        predictions,
+        total: indexed.length,
+        chain,
+        fetched: predictions.length
+      });
+    }
     
     // Create provider (server-side, no CORS issues)
     const provider = new ethers.JsonRpcProvider(chainConfig.rpcUrl);
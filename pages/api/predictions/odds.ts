@@ -0,0 +1,54 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { DEFAULT_ODDS_POINTS, getOddsHistories, getOddsHistory } from '@/lib/prediction-index';
+import { CHAIN_CONFIG, type SupportedChain } from '@/lib/services/dual-chain-service';
+
+// Largest ?points a caller can ask for
+const MAX_ODDS_POINTS = 500;
+
+/**
+ * Odds history per prediction, built from indexed votes
+ * GET /api/predictions/odds?chain=celo&id=3&points=100 - one prediction's series
+ * GET /api/predictions/odds?chain=celo&points=24 - every prediction (or one chain's), with momentum
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { chain, id, points } = req.query;
+  if (chain !== undefined && (typeof chain !== 'string' || !(chain in CHAIN_CONFIG))) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid chain. Use one of: ${Object.keys(CHAIN_CONFIG).join(', ')}`,
+    });
+  }
+
+  const maxPoints = points === undefined ? DEFAULT_ODDS_POINTS : Number(points);
+  if (!Number.isInteger(maxPoints) || maxPoints < 1 || maxPoints > MAX_ODDS_POINTS) {
+    return res.status(400).json({ success: false, error: `points must be between 1 and ${MAX_ODDS_POINTS}` });
+  }
+
+  try {
+    if (id !== undefined) {
+      const predictionId = Number(id);
+      if (!chain || !Number.isInteger(predictionId) || predictionId < 1) {
+        return res.status(400).json({ success: false, error: 'id needs a chain and must be a prediction ID' });
+      }
+
+      const history = await getOddsHistory(chain as SupportedChain, predictionId, maxPoints);
+      if (!history) {
+        return res.status(404).json({ success: false, error: 'Prediction not found' });
+      }
+      return res.status(200).json({ success: true, history });
+    }
+
+    const histories = await getOddsHistories(chain as SupportedChain | undefined, maxPoints);
+    return res.status(200).json({ success: true, histories });
+  } catch (error) {
+    console.error('❌ Odds history API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -12,13 +12,15 @@ import {
   getResolutionStatus,
   getEligiblePredictions,
   checkPredictionEligibility,
+  processDueFinalizations,
   ResolutionResult
 } from '@/lib/services/prediction-resolution-service';
-import { getPrediction } from '@/lib/prediction-market-v2';
+import { CHAIN_CONFIG, getChainPrediction, type SupportedChain } from '@/lib/services/dual-chain-service';
 
 interface ResolutionRequest {
-  action: 'status' | 'resolve' | 'eligible' | 'check';
+  action: 'status' | 'resolve' | 'eligible' | 'check' | 'finalize';
   predictionId?: number;
+  chain?: SupportedChain;
   force?: boolean;
 }
 
@@ -38,24 +40,24 @@ export default async function handler(
   try {
     if (req.method === 'GET') {
       // Get resolution status
-      const status = getResolutionStatus();
+      const status = await getResolutionStatus();
       
       return res.status(200).json({
         success: true,
         data: {
           status,
-          message: `Monitoring ${status.pending} predictions, resolved ${status.resolved} total`
+          message: `${status.pending} predictions queued, resolved ${status.resolved} total, ${status.failed} failed`
         },
         timestamp
       });
     }
 
     if (req.method === 'POST') {
-      const { action, predictionId, force = false }: ResolutionRequest = req.body;
+      const { action, predictionId, chain, force = false }: ResolutionRequest = req.body;
 
       switch (action) {
         case 'status':
-          const status = getResolutionStatus();
+          const status = await getResolutionStatus();
           return res.status(200).json({
             success: true,
             data: status,
@@ -77,20 +79,20 @@ export default async function handler(
           });
 
         case 'resolve':
-          if (!predictionId) {
+          if (!predictionId || !chain || !(chain in CHAIN_CONFIG)) {
             return res.status(400).json({
               success: false,
-              error: 'predictionId required for resolve action',
+              error: 'predictionId and chain required for resolve action',
               timestamp
             });
           }
 
           // Get prediction details
-          const prediction = await getPrediction(predictionId);
+          const prediction = await getChainPrediction(predictionId, chain);
           if (!prediction) {
             return res.status(404).json({
               success: false,
-              error: `Prediction ${predictionId} not found`,
+              error: `Prediction ${predictionId} not found on ${chain}`,
               timestamp
             });
           }
@@ -114,7 +116,7 @@ export default async function handler(
           }
 
           // Attempt resolution
-          const result = await resolvePrediction(predictionId);
+          const result = await resolvePrediction(predictionId, chain);
 
           return res.status(200).json({
             success: true,
@@ -131,15 +133,15 @@ export default async function handler(
           });
 
         case 'check':
-          if (!predictionId) {
+          if (!predictionId || !chain || !(chain in CHAIN_CONFIG)) {
             return res.status(400).json({
               success: false,
-              error: 'predictionId required for check action',
+              error: 'predictionId and chain required for check action',
               timestamp
             });
           }
 
-          const eligibility = await checkPredictionEligibility(predictionId);
+          const eligibility = await checkPredictionEligibility(predictionId, chain);
 
           return res.status(200).json({
             success: true,
@@ -152,10 +154,23 @@ export default async function handler(
             timestamp
           });
 
+        case 'finalize':
+          // Settle proposals whose dispute window closed undisputed
+          const finalized = await processDueFinalizations();
+
+          return res.status(200).json({
+            success: true,
+            data: {
+              finalized,
+              total: finalized.length
+            },
+            timestamp
+          });
+
         default:
           return res.status(400).json({
             success: false,
-            error: `Unknown action: ${action}. Valid actions: status, eligible, resolve, check`,
+            error: `Unknown action: ${action}. Valid actions: status, eligible, resolve, check, finalize`,
             timestamp
           });
       }
@@ -193,14 +208,19 @@ export default async function handler(
  * - Get all predictions eligible for resolution
  *
  * POST /api/predictions/resolve
- * { "action": "resolve", "predictionId": 123 }
- * - Resolve specific prediction using external data
+ * { "action": "resolve", "predictionId": 123, "chain": "base" }
+ * - Propose a resolution for a specific prediction using external data
+ *   (settles on-chain once the dispute window closes undisputed)
  *
  * POST /api/predictions/resolve
- * { "action": "resolve", "predictionId": 123, "force": true }
+ * { "action": "resolve", "predictionId": 123, "chain": "base", "force": true }
  * - Force resolve prediction even if target date hasn't passed
  *
  * POST /api/predictions/resolve
- * { "action": "check", "predictionId": 123 }
+ * { "action": "check", "predictionId": 123, "chain": "celo" }
  * - Check if specific prediction is eligible for resolution
+ *
+ * POST /api/predictions/resolve
+ * { "action": "finalize" }
+ * - Settle on-chain every proposal whose dispute window closed undisputed
  */
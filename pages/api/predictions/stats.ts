@@ -5,7 +5,7 @@
  */
 
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getAllChainPredictions } from '@/lib/services/dual-chain-service';
+import { getMarketPredictions } from '@/lib/prediction-index';
 
 interface PredictionStatsResponse {
   success: boolean;
@@ -62,7 +62,7 @@ export default async function handler(
     const { id } = req.query;
 
     // Fetch all predictions
-    const predictions = await getAllChainPredictions();
+    const predictions = await getMarketPredictions();
 
     if (id) {
       // Return stats for specific prediction
@@ -0,0 +1,104 @@
+/**
+ * Recurring Prediction Templates API
+ *
+ * Lists templates with the predictions they created, the track record each prediction card shows,
+ * and lets resolution admins save templates the bot wallet instantiates on their schedule
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getPredictionTemplateService, TEMPLATE_PLACEHOLDERS } from '@/lib/prediction-templates';
+import { isResolutionAdmin } from '@/lib/services/prediction-resolution-service';
+import { recoverResolutionSigner } from '@/lib/resolution-signatures';
+import { errorStatus } from '@/lib/request-error';
+import { buildTemplateMessage } from '@/lib/template-signatures';
+
+interface SaveTemplateRequest {
+  id: string;
+  create?: boolean;
+  template: unknown;
+  issuedAt: number;
+  signature: string;
+}
+
+const TEMPLATE_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface TemplatesResponse {
+  success: boolean;
+  data?: any;
+  error?: string;
+  timestamp: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<TemplatesResponse>
+) {
+  const timestamp = new Date().toISOString();
+  const service = getPredictionTemplateService();
+
+  try {
+    if (req.method === 'GET') {
+      if (req.query.view === 'recurring') {
+        const recurring = await service.listRecurringPredictions();
+        return res.status(200).json({ success: true, data: { recurring }, timestamp });
+      }
+
+      const templates = await service.listTemplates();
+      return res.status(200).json({ success: true, data: { templates, placeholders: TEMPLATE_PLACEHOLDERS }, timestamp });
+    }
+
+    if (req.method === 'POST') {
+      const { id, create = false, template, issuedAt, signature }: SaveTemplateRequest = req.body;
+
+      if (!template || !signature || typeof id !== 'string' || !TEMPLATE_ID.test(id)) {
+        return res.status(400).json({ success: false, error: 'id (a UUID), template and signature are required', timestamp });
+      }
+
+      const admin = recoverResolutionSigner(
+        buildTemplateMessage({ templateId: id, create: create === true, template, issuedAt }),
+        signature,
+        issuedAt
+      );
+
+      if (!isResolutionAdmin(admin)) {
+        return res.status(403).json({ success: false, error: 'Not a resolution admin', timestamp });
+      }
+
+      const saved = await service.saveTemplate(template, admin, { id, create: create === true });
+      return res.status(200).json({ success: true, data: { template: saved }, timestamp });
+    }
+
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET for templates or POST to save one.',
+      timestamp
+    });
+
+  } catch (error) {
+    console.error('Prediction templates API error:', error);
+
+    // Template and signature problems are the caller's to fix; store and RPC failures are ours
+    return res.status(errorStatus(error)).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+      timestamp
+    });
+  }
+}
+
+/**
+ * API Usage Examples:
+ *
+ * GET /api/predictions/templates
+ * - Every template with its instances and the placeholders titles and descriptions can use
+ *
+ * GET /api/predictions/templates?view=recurring
+ * - Each created prediction with its template and the track record before it (for prediction cards)
+ *
+ * POST /api/predictions/templates
+ * { "template": { "name": "Weekly group push-ups", "title": "Will the group hit {{target}} push-ups in week {{week}}?",
+ *   "description": "...", "category": "community", "targetValue": 5000, "chain": "base", "schedule": "0 9 * * 1" },
+ *   "id": "<new UUID>", "create": true, "issuedAt": 1700000000, "signature": "0x..." }
+ * - Admin creates a template (signs buildTemplateMessage) under a fresh client-picked ID, so a replayed
+ *   signature is refused with 409; omit "create" to update template "id", "enabled": false to pause it
+ */
@@ -2,7 +2,8 @@ import { NextApiRequest, NextApiResponse } from 'next';
 
 /**
  * Autonomous SweatEquityBot Verification API
- * Uses AgentKit for AI-powered exercise verification and autonomous approval
+ * Verifies uploaded evidence (see /api/sweat-equity/evidence) and approves via AgentKit
+ * Responds with the structured result: rule checks, weighted signals and score
  */
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -53,13 +54,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       deadline: new Date(challenge.deadline * 1000).toISOString()
     });
 
-    // Perform autonomous AI verification
+    // Run the evidence pipeline (rule checks + weighted AI review)
     const verificationResult = await sweatEquityBotService.autonomousVerification(
       challengeId,
       verificationProof
     );
 
-    if (verificationResult) {
+    if (verificationResult.approved) {
       console.log('✅ Autonomous verification and approval successful');
       
       // Get updated challenge status
@@ -71,19 +72,21 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         challengeId,
         approved: true,
         challenge: updatedChallenge,
+        verification: verificationResult,
         autonomous: true,
-        verificationMethod: 'ai-autonomous'
+        verificationMethod: 'evidence-pipeline'
       });
     } else {
       console.log('❌ Autonomous verification rejected the proof');
       
       return res.status(400).json({
         success: false,
-        message: 'Verification proof rejected by AI analysis',
+        message: verificationResult.error || 'Verification proof rejected by evidence checks',
         challengeId,
         approved: false,
+        verification: verificationResult,
         autonomous: true,
-        verificationMethod: 'ai-autonomous'
+        verificationMethod: 'evidence-pipeline'
       });
     }
 
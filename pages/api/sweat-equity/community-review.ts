@@ -0,0 +1,143 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { errorStatus } from '../../../lib/request-error';
+import { recoverResolutionSigner } from '../../../lib/resolution-signatures';
+import {
+  buildCommunityReviewRequestMessage,
+  buildReviewVoteMessage,
+} from '../../../lib/sweat-equity-signatures';
+
+/**
+ * Community review API for sweat equity challenges verified with method "community"
+ *
+ * GET  /api/sweat-equity/community-review?challengeId=1
+ *   Review status, panel and tally for a challenge
+ * GET  /api/sweat-equity/community-review?reviewer=0x...
+ *   Challenges waiting on this reviewer's vote
+ *
+ * POST /api/sweat-equity/community-review
+ *   { action: "open", challengeId, proofHash, issuedAt, signature }
+ *   Challenge owner requests review of their uploaded evidence (signs buildCommunityReviewRequestMessage)
+ *
+ *   { action: "vote", challengeId, approve, reason?, issuedAt, signature }
+ *   Panel member votes (signs buildReviewVoteMessage); an approving outcome runs autonomous verification
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const {
+    getCommunityReview,
+    getPendingReviewsFor,
+    openCommunityReview,
+    castReviewVote,
+  } = await import('../../../lib/services/community-review');
+
+  try {
+    if (req.method === 'GET') {
+      if (req.query.reviewer) {
+        const challengeIds = await getPendingReviewsFor(String(req.query.reviewer));
+        return res.status(200).json({ success: true, challengeIds });
+      }
+
+      const challengeId = Number(req.query.challengeId);
+      if (!Number.isInteger(challengeId) || challengeId <= 0) {
+        return res.status(400).json({ success: false, error: 'Valid challengeId or reviewer required' });
+      }
+
+      const review = await getCommunityReview(challengeId);
+      if (!review) {
+        return res.status(404).json({ success: false, error: 'No community review for this challenge' });
+      }
+
+      return res.status(200).json({ success: true, review });
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+
+    const { action, challengeId, proofHash, approve, reason, issuedAt, signature } = req.body;
+
+    if (!Number.isInteger(challengeId) || !signature) {
+      return res.status(400).json({ success: false, error: 'challengeId and signature required' });
+    }
+
+    const { sweatEquityBotService } = await import('../../../lib/sweat-equity-bot-integration');
+
+    switch (action) {
+      case 'open': {
+        if (!proofHash) {
+          return res.status(400).json({ success: false, error: 'proofHash required' });
+        }
+
+        const signer = recoverResolutionSigner(
+          buildCommunityReviewRequestMessage({ challengeId, proofHash, issuedAt: Number(issuedAt) }),
+          signature,
+          Number(issuedAt)
+        );
+
+        const challenge = await sweatEquityBotService.getChallenge(challengeId);
+        if (!challenge) {
+          return res.status(404).json({ success: false, error: 'Challenge not found' });
+        }
+
+        if (challenge.user.toLowerCase() !== signer) {
+          return res.status(403).json({ success: false, error: 'Only the challenge owner can request review' });
+        }
+
+        // Reviewers vote on a fixed bundle, so it must match what has been uploaded
+        const { getChallengeEvidence, computeEvidenceBundleHash } = await import('../../../lib/services/sweat-equity-evidence');
+        const evidence = await getChallengeEvidence(challengeId);
+        if (evidence.length === 0) {
+          return res.status(400).json({ success: false, error: 'Upload evidence before requesting review' });
+        }
+
+        if (computeEvidenceBundleHash(challengeId, evidence.map(e => e.contentHash)) !== String(proofHash).toLowerCase()) {
+          return res.status(400).json({ success: false, error: 'proofHash does not match the uploaded evidence' });
+        }
+
+        const review = await openCommunityReview({ challengeId, challenge, proofHash });
+        return res.status(200).json({ success: true, review });
+      }
+
+      case 'vote': {
+        if (typeof approve !== 'boolean') {
+          return res.status(400).json({ success: false, error: 'approve must be true or false' });
+        }
+
+        const reviewer = recoverResolutionSigner(
+          buildReviewVoteMessage({ challengeId, approve, reason, issuedAt: Number(issuedAt) }),
+          signature,
+          Number(issuedAt)
+        );
+
+        const review = await castReviewVote({ challengeId, reviewer, approve, reason });
+
+        // The panel's approval is what lets the evidence pipeline approve on-chain, for whichever
+        // kind of evidence (photo, video or community) the reviewers looked at
+        let verification;
+        if (review.status === 'approved') {
+          const { getChallengeEvidence } = await import('../../../lib/services/sweat-equity-evidence');
+          const [reviewed] = await getChallengeEvidence(challengeId);
+          verification = await sweatEquityBotService.autonomousVerification(challengeId, {
+            challengeId,
+            method: reviewed?.method ?? 'community',
+            proofHash: review.proofHash,
+          });
+        }
+
+        return res.status(200).json({ success: true, review, verification });
+      }
+
+      default:
+        return res.status(400).json({
+          success: false,
+          error: `Unknown action: ${action}. Valid actions: open, vote`,
+        });
+    }
+  } catch (error) {
+    console.error('❌ Community review error:', error);
+
+    return res.status(errorStatus(error)).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -1,5 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { sweatEquityBotService } from '@/lib/sweat-equity-bot-integration';
+import { fromContractExerciseType, getContractExercises } from '@/lib/exercises';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -15,6 +16,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     if (!userAddress || !predictionId || exerciseType === undefined || !targetAmount) {
       return res.status(400).json({ success: false, error: 'Missing required parameters' });
     }
+    if (!fromContractExerciseType(Number(exerciseType))) {
+      const supported = getContractExercises().map(e => `${e.contractExerciseType} (${e.displayName})`).join(', ');
+      return res.status(400).json({ success: false, error: `Unsupported exercise type; SweatEquityBot accepts ${supported}` });
+    }
     const result = await sweatEquityBotService.createChallenge(
       Number(predictionId),
       Number(exerciseType),
@@ -0,0 +1,189 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { recoverResolutionSigner } from '../../../lib/resolution-signatures';
+import { buildEvidenceAccessMessage, buildEvidenceUploadMessage } from '../../../lib/sweat-equity-signatures';
+
+const METHODS = ['photo', 'video', 'wearable', 'community'] as const;
+
+// Photo and video uploads are checked against their declared type, so they are served as it;
+// anything else (wearable XML and JSON in particular) goes out as opaque bytes a browser won't render
+const SERVED_AS_DECLARED = [
+  'image/jpeg', 'image/png', 'image/webp', 'image/heic', 'video/mp4', 'video/quicktime', 'video/webm',
+];
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+  'application/json': 'json',
+  'application/xml': 'xml',
+  'text/xml': 'xml',
+  'application/gpx+xml': 'gpx',
+  'application/vnd.garmin.tcx+xml': 'tcx',
+};
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '12mb', // Base64 evidence up to SWEAT_EQUITY_EVIDENCE_MAX_BYTES (8MB default)
+    },
+  },
+};
+
+/**
+ * Sweat equity evidence API
+ *
+ * GET  /api/sweat-equity/evidence?challengeId=1&issuedAt=...&signature=0x...
+ *   Evidence uploaded for a challenge and the proofHash to submit for verification
+ *
+ * GET  /api/sweat-equity/evidence?challengeId=1&evidenceId=2&issuedAt=...&signature=0x...
+ *   Raw file content as a download, for community reviewers
+ *
+ *   Both GETs are signed over buildEvidenceAccessMessage() by the challenge owner or a wallet on
+ *   the challenge's review panel
+ *
+ * POST /api/sweat-equity/evidence
+ *   { challengeId, method, mimeType, content (base64), capturedAt, metadata?, issuedAt, signature }
+ *   The signature must come from the challenge owner over buildEvidenceUploadMessage()
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const {
+    getChallengeEvidence,
+    getEvidenceContent,
+    storeEvidence,
+    hashEvidenceContent,
+    computeEvidenceBundleHash,
+  } = await import('../../../lib/services/sweat-equity-evidence');
+
+  try {
+    if (req.method === 'GET') {
+      const challengeId = Number(req.query.challengeId);
+      if (!Number.isInteger(challengeId) || challengeId <= 0) {
+        return res.status(400).json({ success: false, error: 'Valid challengeId required' });
+      }
+
+      const evidenceId = req.query.evidenceId ? Number(req.query.evidenceId) : undefined;
+      if (evidenceId !== undefined && (!Number.isInteger(evidenceId) || evidenceId <= 0)) {
+        return res.status(400).json({ success: false, error: 'Valid evidenceId required' });
+      }
+
+      const issuedAt = Number(req.query.issuedAt);
+      if (!req.query.signature) {
+        return res.status(401).json({ success: false, error: 'issuedAt and signature required' });
+      }
+
+      let reader: string;
+      try {
+        reader = recoverResolutionSigner(
+          buildEvidenceAccessMessage({ challengeId, evidenceId, issuedAt }),
+          String(req.query.signature),
+          issuedAt
+        );
+      } catch (error) {
+        return res.status(401).json({ success: false, error: error instanceof Error ? error.message : 'Invalid signature' });
+      }
+
+      const { sweatEquityBotService } = await import('../../../lib/sweat-equity-bot-integration');
+      const { isAssignedReviewer } = await import('../../../lib/services/community-review');
+      const challenge = await sweatEquityBotService.getChallenge(challengeId);
+      if (!challenge) {
+        return res.status(404).json({ success: false, error: 'Challenge not found' });
+      }
+
+      if (challenge.user.toLowerCase() !== reader && !(await isAssignedReviewer(challengeId, reader))) {
+        return res.status(403).json({ success: false, error: 'Only the challenge owner and its reviewers can view evidence' });
+      }
+
+      if (evidenceId !== undefined) {
+        const file = await getEvidenceContent(challengeId, evidenceId);
+        if (!file) {
+          return res.status(404).json({ success: false, error: 'Evidence not found' });
+        }
+
+        const extension = FILE_EXTENSIONS[file.mimeType] ?? 'bin';
+        res.setHeader('Content-Type', SERVED_AS_DECLARED.includes(file.mimeType) ? file.mimeType : 'application/octet-stream');
+        res.setHeader('Content-Disposition', `attachment; filename="evidence-${challengeId}-${evidenceId}.${extension}"`);
+        res.setHeader('X-Content-Type-Options', 'nosniff');
+        res.setHeader('Cache-Control', 'private, no-store');
+        return res.status(200).send(file.content);
+      }
+
+      const evidence = await getChallengeEvidence(challengeId);
+      return res.status(200).json({
+        success: true,
+        evidence,
+        proofHash: computeEvidenceBundleHash(challengeId, evidence.map(e => e.contentHash)),
+      });
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+
+    const { challengeId, method, mimeType, content, capturedAt, metadata, issuedAt, signature } = req.body;
+
+    if (!Number.isInteger(challengeId) || !METHODS.includes(method) || !mimeType || !content || !capturedAt || !signature) {
+      return res.status(400).json({
+        success: false,
+        error: 'challengeId, method, mimeType, content, capturedAt and signature required',
+      });
+    }
+
+    const buffer = Buffer.from(String(content), 'base64');
+    const contentHash = hashEvidenceContent(buffer);
+
+    let signer: string;
+    try {
+      signer = recoverResolutionSigner(
+        buildEvidenceUploadMessage({ challengeId, method, contentHash, issuedAt: Number(issuedAt) }),
+        signature,
+        Number(issuedAt)
+      );
+    } catch (error) {
+      return res.status(401).json({ success: false, error: error instanceof Error ? error.message : 'Invalid signature' });
+    }
+
+    const { sweatEquityBotService } = await import('../../../lib/sweat-equity-bot-integration');
+    const challenge = await sweatEquityBotService.getChallenge(challengeId);
+    if (!challenge) {
+      return res.status(404).json({ success: false, error: 'Challenge not found' });
+    }
+
+    if (challenge.user.toLowerCase() !== signer) {
+      return res.status(403).json({ success: false, error: 'Only the challenge owner can upload evidence' });
+    }
+
+    let record;
+    try {
+      record = await storeEvidence({
+        challengeId,
+        method,
+        submitter: signer,
+        mimeType: String(mimeType),
+        content: buffer,
+        capturedAt: new Date(capturedAt),
+        metadata,
+      });
+    } catch (error) {
+      return res.status(400).json({ success: false, error: error instanceof Error ? error.message : 'Invalid evidence' });
+    }
+
+    const evidence = await getChallengeEvidence(challengeId);
+
+    return res.status(200).json({
+      success: true,
+      evidence: record,
+      duplicate: record.duplicateOf.length > 0,
+      proofHash: computeEvidenceBundleHash(challengeId, evidence.map(e => e.contentHash)),
+    });
+  } catch (error) {
+    console.error('❌ Sweat equity evidence error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -1,4 +1,5 @@
 import { NextApiRequest, NextApiResponse } from 'next';
+import { getContractExercises } from '@/lib/exercises';
 
 /**
  * SweatEquityBot Information API
@@ -107,20 +108,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         }
       ],
 
-      exerciseTypes: [
-        {
-          type: 0,
-          name: "Pushups",
-          description: "Track pushup completion across all networks",
-          networks: ["Base", "CELO", "Polygon", "Monad"]
-        },
-        {
-          type: 1,
-          name: "Squats",
-          description: "Track squat completion across all networks",
-          networks: ["Base", "CELO", "Polygon", "Monad"]
-        }
-      ],
+      exerciseTypes: getContractExercises().map(exercise => ({
+        type: exercise.contractExerciseType,
+        id: exercise.id,
+        name: exercise.displayName,
+        emoji: exercise.emoji,
+        description: `Track ${exercise.singular} completion across all networks`,
+        networks: ["Base", "CELO", "Polygon", "Monad"]
+      })),
 
       competitiveAdvantages: [
         "World's first fitness-backed prediction market",
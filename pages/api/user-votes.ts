@@ -4,7 +4,15 @@
  */
 
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getAllChainPredictions } from '@/lib/services/dual-chain-service';
+import { ethers } from 'ethers';
+import { getChainContract, getChainPredictions, type ChainPrediction, type SupportedChain } from '@/lib/services/dual-chain-service';
+import {
+  getIndexedChains,
+  getIndexedPredictions,
+  getIndexedUserVotes,
+  getServableChains,
+  toChainPrediction,
+} from '@/lib/prediction-index';
 
 interface UserVote {
   predictionId: number;
@@ -34,6 +42,32 @@ interface UserVotesResponse {
   error?: string;
 }
 
+function toUserVote(
+  prediction: ChainPrediction,
+  isYes: boolean,
+  amount: number,
+  vote: { claimed: boolean; claimedAmount?: number; timestamp: number }
+): UserVote {
+  const won = prediction.status === 1 &&
+    ((prediction.outcome === 1 && isYes) || (prediction.outcome === 2 && !isYes));
+
+  return {
+    predictionId: prediction.id,
+    predictionTitle: prediction.title,
+    chain: prediction.chain,
+    isYes,
+    amount,
+    timestamp: vote.timestamp,
+    status: prediction.status === 0 ? 'active' :
+           prediction.status === 1 ? 'resolved' : 'expired',
+    outcome: prediction.status === 1 ?
+            (prediction.outcome === 1 ? 'yes' : 'no') : 'unresolved',
+    claimed: vote.claimed,
+    // The paid-out reward once claimed, otherwise a simplified estimate (60% return)
+    potentialReward: won ? vote.claimedAmount ?? amount * 1.6 : 0,
+  };
+}
+
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<UserVotesResponse>
@@ -63,16 +97,39 @@ export default async function handler(
       });
     }
 
-    // Fetch all predictions from both chains
-    const predictions = await getAllChainPredictions();
-
-    // Get user votes from blockchain for each prediction
     const userVotes: UserVote[] = [];
 
+    // Indexed chains answer from the vote tables in one query
+    let servable = new Set<SupportedChain>();
+    try {
+      servable = await getServableChains();
+      if (servable.size > 0) {
+        const [votes, indexedPredictions] = await Promise.all([getIndexedUserVotes(address), getIndexedPredictions()]);
+
+        for (const vote of votes.filter(v => servable.has(v.chain))) {
+          const indexed = indexedPredictions.find(p => p.chain === vote.chain && p.id === vote.predictionId);
+          if (indexed) {
+            userVotes.push(toUserVote(toChainPrediction(indexed), vote.isYes, Number(ethers.formatEther(vote.amountWei)), {
+              claimed: vote.claimedWei !== null,
+              claimedAmount: vote.claimedWei !== null ? Number(ethers.formatEther(vote.claimedWei)) : undefined,
+              timestamp: vote.firstVotedAt * 1000,
+            }));
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Vote index unavailable, reading votes over RPC:', error);
+      servable = new Set();
+    }
+
+    // Other chains: scan predictions and read the user's vote on each
+    const predictions: ChainPrediction[] = [];
+    for (const chain of getIndexedChains().filter(c => !servable.has(c))) {
+      predictions.push(...(await getChainPredictions(chain)));
+    }
+
     for (const prediction of predictions) {
       try {
-        // Import the dual-chain service to get the correct contract
-        const { getChainContract } = await import('@/lib/services/dual-chain-service');
         const contract = getChainContract(prediction.chain);
 
         // Get user's vote for this prediction
@@ -80,27 +137,12 @@ export default async function handler(
 
         // If user has voted (amount > 0), add to results
         if (vote.amount && vote.amount.toString() !== '0') {
-          const { ethers } = await import('ethers');
           const amount = Number(ethers.formatEther(vote.amount));
 
-          userVotes.push({
-            predictionId: prediction.id,
-            predictionTitle: prediction.title,
-            chain: prediction.chain,
-            isYes: vote.isYes,
-            amount: amount,
-            timestamp: prediction.createdAt * 1000,
-            status: prediction.status === 0 ? 'active' :
-                   prediction.status === 1 ? 'resolved' : 'expired',
-            outcome: prediction.status === 1 ?
-                    (prediction.outcome === 1 ? 'yes' : 'no') : 'unresolved',
+          userVotes.push(toUserVote(prediction, vote.isYes, amount, {
             claimed: vote.claimed,
-            // Calculate potential reward (simplified - would need more complex logic)
-            potentialReward: prediction.status === 1 &&
-                           ((prediction.outcome === 1 && vote.isYes) ||
-                            (prediction.outcome === 0 && !vote.isYes)) ?
-                           amount * 1.6 : 0, // Simplified 60% return
-          });
+            timestamp: prediction.createdAt * 1000,
+          }));
         }
       } catch (error) {
         // Skip predictions where we can't get user vote (user hasn't voted)
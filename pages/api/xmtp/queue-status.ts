@@ -13,7 +13,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Import queue functions
     const { getQueueStats } = await import('../../../lib/xmtp-message-queue');
     
-    const stats = getQueueStats();
+    // Counts only; dead letters carry message bodies and addresses, so they aren't listed here
+    const stats = await getQueueStats();
     
     res.status(200).json({
       status: 'ok',
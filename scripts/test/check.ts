@@ -0,0 +1,24 @@
+/**
+ * Shared assertions for the scripts/test checks
+ * check() compares JSON forms and logs each result; finish() reports the total and sets the exit code
+ */
+
+let failures = 0;
+
+export function check(name: string, actual: unknown, expected: unknown) {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected);
+  if (!ok) failures++;
+  console.log(`${ok ? '✅' : '❌'} ${name}${ok ? '' : ` (expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)})`}`);
+}
+
+/**
+ * Exit non-zero if any check failed, e.g. finish('streak day') after the last check
+ */
+export function finish(label: string) {
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} ${label} check(s) failed`);
+    process.exit(1);
+  }
+
+  console.log(`\n🎉 ${label.charAt(0).toUpperCase()}${label.slice(1)} checks passed`);
+}
@@ -0,0 +1,224 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Bot agent: the tool-calling loop driven by a scripted fake model — drafting, validation before a
+ * draft is shown, "yes but make it 50" as an edit rather than a confirmation, confirming into a
+ * wallet trigger, tool errors fed back to the model, and the step limit; plus the shared draft:
+ * per-field provenance and issues, the draft embedded for the chat card, and legacy text proposals
+ * No network, model or database needed
+ *
+ * npm run test:bot-agent
+ */
+
+import {
+  draftFromProposalText,
+  restoreDraft,
+  runAgentTurn,
+  type AgentMessage,
+  type AgentModel,
+  type AgentModelResponse,
+  type AgentServices,
+  type PredictionDraft,
+} from '../../lib/bot-agent';
+import { appendTurn, createConversationMemory, type ConversationMemory } from '../../lib/conversation-memory';
+import { embedDraft, extractDraft } from '../../lib/prediction-draft';
+import { hashResolutionCriteria } from '../../lib/resolution-criteria/criteria';
+import type { ResolutionCriteria } from '../../lib/resolution-criteria/types';
+import { check, finish } from './check';
+
+function scriptedModel(script: AgentModelResponse[]): AgentModel & { seen: AgentMessage[][] } {
+  const seen: AgentMessage[][] = [];
+  return {
+    seen,
+    async complete(messages) {
+      seen.push([...messages]);
+      const next = script.shift();
+      if (!next) {
+        throw new Error('Scripted model ran out of responses');
+      }
+      return next;
+    },
+  };
+}
+
+const call = (name: string, args: Record<string, unknown> = {}, id: string = name) =>
+  ({ id, name, arguments: JSON.stringify(args) });
+const tools = (...calls: ReturnType<typeof call>[]): AgentModelResponse => ({ content: null, toolCalls: calls });
+const say = (content: string): AgentModelResponse => ({ content, toolCalls: [] });
+
+const USER = '0x1111111111111111111111111111111111111111';
+const DWR = '0x2222222222222222222222222222222222222222';
+
+const registered: ResolutionCriteria[] = [];
+
+const services: AgentServices = {
+  getMarketSummary: async () => '2 active markets',
+  getUserStats: async address => ({
+    address,
+    fitness: [{ exercise: 'Push-ups', last30Days: 420 }],
+    predictions: { open: 1, won: 2, lost: 0, claimable: 1 },
+  }),
+  resolveBasename: async name => ({ name, address: name === 'dwr.eth' ? DWR : null, displayName: name, resolved: name === 'dwr.eth' }),
+  registerResolutionCriteria: async criteria => {
+    registered.push(criteria);
+    return hashResolutionCriteria(criteria);
+  },
+};
+
+const inThirtyDays = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+function conversation(message: string, draft?: PredictionDraft, memory: ConversationMemory = createConversationMemory('chat')): ConversationMemory {
+  return appendTurn({ ...memory, draft }, { role: 'user', content: message, timestamp: Date.now() });
+}
+
+function turn(model: AgentModel, memory: ConversationMemory) {
+  return runAgentTurn({ model, memory, services, defaultChain: 'base', userAddress: USER });
+}
+
+async function main() {
+  // Drafting: created, subject resolved, validated and shown
+  let model = scriptedModel([
+    tools(
+      call('createPredictionDraft', {
+        title: 'dwr.eth 100 push-ups challenge',
+        description: 'dwr.eth will complete 100 push-ups on the Imperfect Form platform',
+        targetDate: inThirtyDays,
+        targetValue: 100,
+        category: 'fitness',
+        targetUser: 'dwr.eth',
+        userStated: ['targetValue', 'targetUser'],
+      }),
+      call('resolveBasename', { name: 'dwr.eth' })
+    ),
+    say("Here's your prediction."),
+  ]);
+  let result = await turn(model, conversation('I predict dwr.eth will do 100 pushups in a month'));
+  const draft = result.draft as PredictionDraft;
+  check('draft created on the default chain', [draft.fields.chain, draft.fields.targetValue, draft.fields.emoji], ['base', 100, '💪']);
+  check('subject address attached', draft.fields.targetAddress, DWR);
+  check('draft validated', [draft.validation.isValid, draft.validation.errors], [true, []]);
+  check('reply carries the validated card', [
+    result.reply.startsWith("Here's your prediction."),
+    result.reply.includes('**Proposed Prediction:** dwr.eth 100 push-ups challenge'),
+    result.reply.includes('Would you like to create this prediction?'),
+  ], [true, true, true]);
+  check('tool results go back to the model', model.seen[1].filter(m => m.role === 'tool').length, 2);
+  check('provenance per field', [
+    draft.provenance.targetValue,
+    draft.provenance.targetUser,
+    draft.provenance.title,
+    draft.provenance.chain,
+    draft.provenance.emoji,
+    draft.provenance.targetAddress,
+  ], ['user', 'user', 'inferred', 'default', 'default', 'inferred']);
+  check('criteria inferred for the resolved subject', draft.fields.resolution?.source === 'fitness' && [
+    draft.fields.resolution.exercise,
+    draft.fields.resolution.subject,
+    draft.fields.resolution.value,
+    draft.provenance.resolution,
+  ], ['pushups', { type: 'address', address: DWR }, 100, 'inferred']);
+  const embedded = extractDraft(result.reply);
+  check('draft embedded for the chat card', [embedded.text, embedded.draft?.id, embedded.draft?.fields.targetValue],
+    ["Here's your prediction.", draft.id, 100]);
+
+  // "yes but make it 50" is an edit; a confirm in the same turn is refused
+  model = scriptedModel([
+    tools(call('editDraftField', { field: 'targetValue', value: '50' }), call('confirmDraft')),
+    say('Changed it to 50 — does this look right?'),
+  ]);
+  result = await turn(model, conversation('yes but make it 50', draft));
+  check('edit applied, confirm refused', [result.draft?.fields.targetValue, result.toolCalls, result.transaction],
+    [50, [{ name: 'editDraftField', ok: true }, { name: 'confirmDraft', ok: false }], null]);
+  const refusal = model.seen[1].find(m => m.role === 'tool' && m.toolCallId === 'confirmDraft');
+  check('the model is told why', refusal?.role === 'tool' && refusal.content.includes('changed during this turn'), true);
+  check('edited card shown', result.reply.includes('🎯 **Target:** 50 by'), true);
+  check('an edit is the user\'s', result.draft?.provenance.targetValue, 'user');
+  check('criteria follow the edit', result.draft?.fields.resolution?.value, 50);
+
+  // Plain yes: wallet trigger, draft cleared
+  const edited = result.draft as PredictionDraft;
+  model = scriptedModel([tools(call('confirmDraft')), say('Sending it to your wallet.')]);
+  result = await turn(model, conversation('yes', edited));
+  const trigger = result.reply.match(/<!-- WALLET_TRIGGER:(.*?) -->/);
+  const params = trigger ? JSON.parse(trigger[1]) : null;
+  check('confirm produces the wallet trigger', [params?.targetValue, params?.chain, params?.chainId, result.draft], [50, 'base', 8453, null]);
+  check('criteria registered and committed', [
+    registered.length,
+    params?.resolutionHash === hashResolutionCriteria(registered[0]),
+    params?.description.endsWith(`Resolution criteria: ${params?.resolutionHash}`),
+    params?.autoResolvable,
+  ], [1, true, true, true]);
+
+  // Invalid drafts are shown with their errors and can't be confirmed
+  model = scriptedModel([
+    tools(call('createPredictionDraft', { title: 'Short', description: 'Too short', targetDate: inThirtyDays, category: 'custom' })),
+    tools(call('confirmDraft', {}, 'confirm')),
+    say('A couple of things need fixing.'),
+  ]);
+  result = await turn(model, conversation('bet on something'));
+  check('invalid draft shown with errors', [
+    result.draft?.validation.isValid,
+    result.reply.includes('Title must be at least 10 characters'),
+    result.reply.includes('Tell me what to change.'),
+    result.transaction,
+  ], [false, true, true, null]);
+  check('errors grouped by field', result.draft?.fieldIssues.title, ['Title must be at least 10 characters']);
+
+  // Bad arguments come back as errors for the model to correct
+  model = scriptedModel([
+    tools(call('createPredictionDraft', { title: 'Run a marathon this year', description: 'I will run a full marathon before the deadline', targetDate: 'someday', category: 'fitness' })),
+    tools(call('editDraftField', { field: 'title', value: 'x' }, 'edit'), call('noSuchTool', {}, 'nope')),
+    say('When is the deadline?'),
+  ]);
+  result = await turn(model, conversation('I will run a marathon'));
+  const toolErrors = model.seen.slice(1).map(seen => seen.filter(m => m.role === 'tool').map(m => m.role === 'tool' ? JSON.parse(m.content).error : null));
+  check('argument errors reported to the model', toolErrors[0], ['targetDate must be an ISO 8601 date such as 2025-08-01']);
+  check('no draft to edit, unknown tool', toolErrors[1].slice(1), ['There is no draft to edit; call createPredictionDraft first', 'Unknown tool: noSuchTool']);
+  check('no draft, no card', [result.draft, result.reply], [null, 'When is the deadline?']);
+
+  // Read-only tools and remembered preferences
+  model = scriptedModel([tools(call('getUserStats'), call('getMarketSummary')), say('You did 420 push-ups this month.')]);
+  result = await turn(model, conversation('how am I doing?'));
+  const stats = model.seen[1].filter(m => m.role === 'tool').map(m => m.role === 'tool' ? JSON.parse(m.content) : null);
+  check('stats default to the user\'s wallet', [stats[0].address, stats[1].summary], [USER, '2 active markets']);
+
+  const prefersCelo = { ...createConversationMemory('chat'), facts: { preferredChain: 'celo' as const } };
+  model = scriptedModel([
+    tools(call('createPredictionDraft', { title: 'BTC above 100k by next month', description: 'Bitcoin will trade above $100,000 on CoinGecko', targetDate: inThirtyDays, category: 'chain' })),
+    say('Drafted on CELO.'),
+  ]);
+  result = await turn(model, conversation('btc over 100k', undefined, prefersCelo));
+  check('preferred chain is the default', [result.draft?.fields.chain, result.draft?.provenance.chain], ['celo', 'inferred']);
+
+  // A model that never stops calling tools
+  model = scriptedModel(Array.from({ length: 10 }, (_, i) => tools(call('getMarketSummary', {}, `m${i}`))));
+  result = await runAgentTurn({ model, memory: conversation('markets?'), services, defaultChain: 'base', maxSteps: 3 });
+  check('step limit', [result.steps, result.reply.startsWith("Sorry, I couldn't")], [3, true]);
+
+  // Proposals from before the agent: nothing silently filled in
+  const legacy = draftFromProposalText('**Proposed Prediction:** I will do 200 pushups\n**Description:** 200 push-ups tracked on Imperfect Form', 'base');
+  check('legacy proposal without a deadline', [
+    legacy.fields.targetValue,
+    legacy.fields.category,
+    legacy.fields.targetDate,
+    legacy.provenance.targetDate,
+    legacy.fieldIssues.targetDate?.length,
+  ], [200, 0, null, 'default', 1]);
+  const dated = draftFromProposalText('**Proposed Prediction:** Something happens\nby December 31, 2099', 'base');
+  check('legacy proposal with a deadline', [
+    dated.fields.targetDate,
+    dated.provenance.targetDate,
+    dated.fields.category,
+    dated.provenance.category,
+  ], [Math.floor(Date.parse('December 31, 2099') / 1000), 'inferred', 3, 'default']);
+
+  // Drafts coming back from the chat are re-checked, and "-->" in a field can't break the marker
+  const tampered = restoreDraft({ ...draft, fields: { ...draft.fields, title: 'Hi' }, provenance: { title: 'user', chain: 'bogus' } });
+  check('restored drafts are re-validated', [tampered.validation.isValid, tampered.provenance], [false, { title: 'user' }]);
+  const tricky = restoreDraft({ ...draft, fields: { ...draft.fields, title: 'Push-ups --> all of them' } });
+  check('draft marker survives "-->"', extractDraft(`Text ${embedDraft(tricky)} tail`).draft?.fields.title, 'Push-ups --> all of them');
+
+  finish('bot agent');
+}
+
+main();
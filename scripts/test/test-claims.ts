@@ -0,0 +1,110 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Batch claiming: building the per-chain claim plan from portfolio positions, and the claim queue
+ * (sequencing per chain, network switches, partial success, retries and stale plans)
+ * No wallet or network needed
+ *
+ * npm run test:claims
+ */
+
+import {
+  buildClaimPlan,
+  claimQueueReducer,
+  createClaimQueue,
+  isAlreadyClaimedError,
+  isUserRejection,
+  nextClaimStep,
+  summarizeClaimQueue,
+  type ClaimQueueAction,
+  type ClaimQueueState,
+} from '../../lib/claims';
+import type { PortfolioPosition } from '../../lib/services/portfolio-service';
+import type { SupportedChain } from '../../lib/services/dual-chain-service';
+import { check, finish } from './check';
+
+function position(chain: SupportedChain, predictionId: number, status: PortfolioPosition['status'], unclaimed: number, claimed = false): PortfolioPosition {
+  return {
+    chain,
+    predictionId,
+    title: `Prediction ${predictionId}`,
+    emoji: '💪',
+    isYes: true,
+    stake: 1,
+    status,
+    claimed,
+    payout: unclaimed,
+    potentialPayout: null,
+    realizedPnl: status === 'open' ? null : unclaimed - 1,
+    unclaimed,
+    sweatEquityRecovered: 0,
+    votedAt: null,
+  };
+}
+
+const apply = (state: ClaimQueueState, ...actions: ClaimQueueAction[]) => actions.reduce(claimQueueReducer, state);
+const statuses = (state: ClaimQueueState) => state.items.map(item => `${item.chain}:${item.predictionId}:${item.status}`);
+
+function main() {
+  // Plan: winning, unclaimed positions only, grouped per chain
+  const plan = buildClaimPlan('0xABC', [
+    position('celo', 1, 'won', 2),
+    position('celo', 4, 'lost', 0),
+    position('base', 7, 'won', 0.01),
+    position('celo', 3, 'won', 1),
+    position('base', 8, 'won', 0.02, true),
+    position('base', 9, 'open', 0),
+  ], Date.UTC(2026, 0, 1));
+
+  check('only unclaimed wins, per chain', plan.chains.map(c => [c.chain, c.chainId, c.rewards.map(r => r.predictionId), c.total]),
+    [['celo', 42220, [1, 3], 3], ['base', 8453, [7], 0.01]]);
+  check('plan totals', [plan.address, plan.rewardCount], ['0xabc', 3]);
+
+  // Queue: nothing happens until started
+  let queue = claimQueueReducer(createClaimQueue(null), { type: 'load', plan });
+  check('idle until started', nextClaimStep(queue, 'celo'), { kind: 'idle' });
+
+  queue = apply(queue, { type: 'start' });
+  check('claims on the wallet\'s chain first', nextClaimStep(queue, 'base'), { kind: 'claim', item: queue.items[2] });
+  check('asks for a switch when the wallet is elsewhere', nextClaimStep(queue, null), { kind: 'switch', chain: 'celo' });
+
+  queue = apply(queue, { type: 'submitting', chain: 'celo', predictionId: 1 });
+  check('one claim in flight at a time', nextClaimStep(queue, 'celo'), { kind: 'busy' });
+
+  queue = apply(queue,
+    { type: 'submitted', chain: 'celo', predictionId: 1, txHash: '0x01' },
+    { type: 'claimed', chain: 'celo', predictionId: 1 },
+    { type: 'submitting', chain: 'celo', predictionId: 3 },
+    { type: 'failed', chain: 'celo', predictionId: 3, error: 'execution reverted', stop: false },
+  );
+  check('failures don\'t stop the chain run', [queue.running, nextClaimStep(queue, 'celo')], [true, { kind: 'switch', chain: 'base' }]);
+
+  queue = apply(queue,
+    { type: 'submitting', chain: 'base', predictionId: 7 },
+    { type: 'failed', chain: 'base', predictionId: 7, error: 'User rejected the request.', stop: true },
+  );
+  check('a rejection stops the run', [queue.running, nextClaimStep(queue, 'base')], [false, { kind: 'idle' }]);
+  check('partial success', summarizeClaimQueue(queue), { claimed: 1, failed: 2, remaining: 0, claimedByChain: { celo: 2 } });
+
+  // A refetched plan keeps failures and the claimed reward it no longer offers
+  const refetched = buildClaimPlan('0xabc', [position('celo', 3, 'won', 1), position('base', 7, 'won', 0.01)]);
+  queue = claimQueueReducer(queue, { type: 'load', plan: refetched });
+  check('refetch keeps progress', statuses(queue), ['celo:1:claimed', 'celo:3:failed', 'base:7:failed']);
+
+  queue = apply(queue, { type: 'retryFailed' });
+  check('retry queues only failed claims', [queue.running, statuses(queue)], [true, ['celo:1:claimed', 'celo:3:pending', 'base:7:pending']]);
+
+  queue = apply(queue, { type: 'submitting', chain: 'celo', predictionId: 3 });
+  check('attempts counted', queue.items.find(i => i.predictionId === 3)?.attempts, 2);
+  check('refetch mid-run is ignored', claimQueueReducer(queue, { type: 'load', plan: null }) === queue, true);
+
+  check('error classification', [
+    isAlreadyClaimedError('execution reverted: Reward already claimed'),
+    isUserRejection('User rejected the request.'),
+    isUserRejection('execution reverted'),
+  ], [true, true, false]);
+
+  finish('claims');
+}
+
+main();
@@ -0,0 +1,71 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Community review tally, reviewer reputation and anti-collusion panel selection
+ * No database or network needed: exercises the pure parts of lib/services/community-review
+ *
+ * npm run test:community-review
+ */
+
+import { getReviewPolicy, nextReputation, pickPanel, tallyReview } from '../../lib/services/community-review';
+import { check, finish } from './check';
+
+const yes = (weight = 1) => ({ approve: true, weight });
+const no = (weight = 1) => ({ approve: false, weight });
+
+function status(votes: { approve: boolean; weight: number }[], pendingWeights: number[], expired = false) {
+  return tallyReview({ votes, pendingWeights, quorum: 3, threshold: 2 / 3, expired }).status;
+}
+
+console.log('🧪 Tally');
+
+check('waits for quorum', status([yes(), yes()], [1, 1, 1]), 'pending');
+check('unanimous quorum approves early when the rest cannot flip it', status([yes(), yes(), yes()], [1]), 'approved');
+check('unanimous quorum still waits if the rest could flip it', status([yes(), yes(), yes()], [1, 1]), 'pending');
+check('split vote waits for the outstanding reviewers', status([yes(), yes(), no()], [1, 1]), 'pending');
+check('split vote with the panel done rejects below threshold', status([yes(), yes(), no(), no(), yes()], []), 'rejected');
+check('two thirds approves once everyone voted', status([yes(), yes(), no()], []), 'approved');
+check('rejection that cannot be overturned resolves early', status([no(), no(), no()], [1, 1]), 'rejected');
+check('reputation weights the votes', status([yes(2), yes(), no()], []), 'approved');
+check('low-reputation majority loses to trusted reviewers', status([yes(0.3), yes(0.3), no(2)], []), 'rejected');
+check('window closing without quorum expires', status([yes(), yes()], [1, 1, 1], true), 'expired');
+check('window closing after quorum uses the current tally', status([yes(), yes(), yes(), no()], [1], true), 'approved');
+check('panel too small for quorum expires', status([yes()], [1]), 'expired');
+
+const tally = tallyReview({ votes: [yes(1.5), no(0.5)], pendingWeights: [1], quorum: 2, threshold: 0.5, expired: false });
+check('weights are summed per side', [tally.approveWeight, tally.rejectWeight, tally.votes], [1.5, 0.5, 2]);
+
+console.log('\n🧪 Reputation');
+
+check('agreement raises reputation', nextReputation(1, true), 1.1);
+check('disagreement lowers it faster', nextReputation(1, false), 0.75);
+check('reputation has a floor', nextReputation(0.3, false), 0.2);
+check('reputation has a ceiling', nextReputation(2.95, true), 3);
+
+console.log('\n🧪 Panel selection');
+
+const candidate = (reviewerId: string) => ({ reviewerId, walletAddresses: [`0x${reviewerId.padStart(40, '0')}`], weight: 1 });
+const follows = (graph: Record<string, number[]>) =>
+  new Map(Object.entries(graph).map(([id, followed]) => [id, new Set(followed)]));
+const seated = (ids: string[], graph: Record<string, number[]>, challengerFid: string | null = '1', panelSize = 3) =>
+  pickPanel({ candidates: ids.map(candidate), follows: follows(graph), challengerFid, panelSize }).map(r => r.reviewerId);
+
+check('seats candidates in draw order up to the panel size', seated(['10', '11', '12', '13'], {}), ['10', '11', '12']);
+check('skips a mutual follow of the challenger', seated(['10', '11', '12', '13'], { 1: [10], 10: [1] }), ['11', '12', '13']);
+check('one-way follows are not collusion', seated(['10', '11', '12'], { 1: [10, 11], 12: [1] }), ['10', '11', '12']);
+check('skips a mutual follow of a seated reviewer', seated(['10', '11', '12', '13'], { 10: [11], 11: [10] }), ['10', '12', '13']);
+check('a skipped candidate does not block others', seated(['10', '11', '12', '13'], { 1: [10], 10: [1, 11], 11: [10] }), ['11', '12', '13']);
+check('a ring of mutual follows yields one seat', seated(['10', '11', '12'], { 10: [11, 12], 11: [10, 12], 12: [10, 11] }), ['10']);
+check('without Farcaster IDs only wallets separate reviewers', seated(['0xabc', '0xdef'], {}, null), ['0xabc', '0xdef']);
+check('short panels are returned as drawn', seated(['10'], {}), ['10']);
+
+console.log('\n🧪 Policy');
+
+process.env.COMMUNITY_REVIEW_PANEL_SIZE = '2';
+process.env.COMMUNITY_REVIEW_QUORUM = '4';
+check('quorum never exceeds the panel', getReviewPolicy().quorum, 2);
+delete process.env.COMMUNITY_REVIEW_PANEL_SIZE;
+delete process.env.COMMUNITY_REVIEW_QUORUM;
+check('defaults', getReviewPolicy(), { panelSize: 5, quorum: 3, threshold: 2 / 3 });
+
+finish('community review');
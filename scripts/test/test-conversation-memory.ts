@@ -0,0 +1,145 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Conversation memory: user facts picked up from messages, rolling old turns into the summary
+ * (with the plain fallback when the summarizer fails), pending proposals surviving a restart,
+ * and the prompt section built from it all
+ * No network or database needed
+ *
+ * npm run test:conversation-memory
+ */
+
+import {
+  ConversationMemoryService,
+  KEEP_RECENT_TURNS,
+  MAX_RECENT_TURNS,
+  MAX_SUMMARY_CHARS,
+  capSummary,
+  createConversationMemory,
+  createInMemoryConversationMemoryStore,
+  describeMemoryForPrompt,
+  extractFacts,
+  summarizeTurns,
+  typicalAmount,
+  type ConversationMemoryStore,
+} from '../../lib/conversation-memory';
+import { check, finish } from './check';
+
+async function main() {
+  // Facts
+  check('IANA timezone', extractFacts("I'm in Africa/Nairobi", {}).timezone, 'Africa/Nairobi');
+  check('UTC offset', extractFacts('deadline is 5pm utc+3', {}).timezone, 'UTC+3');
+  check('abbreviation', extractFacts('by 5 PM EST on Friday', {}).timezone, 'EST');
+  check('lowercase words are not timezones', extractFacts('the best cat', {}).timezone, undefined);
+
+  check('asked-for chain', extractFacts('create it on celo please', {}).preferredChain, 'celo');
+  check('last chain named wins', extractFacts('not on celo, use base instead', {}).preferredChain, 'base');
+  check('basenames are not a chain', extractFacts('with vitalik.base.eth', {}).preferredChain, undefined);
+
+  let facts = extractFacts('I think I will do 50 pushups by Friday', {});
+  facts = extractFacts('maybe 70 push-ups this time', facts);
+  facts = extractFacts('or 60 pushups', facts);
+  check('amounts per exercise', facts.exerciseAmounts, { pushups: [50, 70, 60] });
+  check('typical amount is the median', [typicalAmount([50, 70, 60]), typicalAmount([10, 20]), typicalAmount([])], [60, 15, null]);
+
+  const unchanged = {};
+  check('nothing learned keeps the same facts', extractFacts('hello there', unchanged) === unchanged, true);
+
+  // Fallback summary
+  const summary = summarizeTurns('User: earlier', [
+    { role: 'user', content: 'I predict 100 squats by Sunday', timestamp: 1 },
+    { role: 'assistant', content: '🔮 **Proposed Prediction:** 100 Squats\n\nmore\n<!-- WALLET_TRIGGER:{} -->', timestamp: 2 },
+  ]);
+  check('one clean line per turn', summary, 'User: earlier\nUser: I predict 100 squats by Sunday\nBot: 🔮 Proposed Prediction: 100 Squats');
+  const long = Array.from({ length: 40 }, (_, i) => `User: message ${i} ${'x'.repeat(60)}`).join('\n');
+  const capped = capSummary(long);
+  check('summary cap keeps the newest lines', [capped.length <= MAX_SUMMARY_CHARS, capped.endsWith('message 39 ' + 'x'.repeat(60))], [true, true]);
+
+  // Service: roll-ups and persistence across restarts
+  const store = createInMemoryConversationMemoryStore();
+  let clock = 1000;
+  const service = new ConversationMemoryService(store, () => clock++);
+  const summarized: number[] = [];
+  const summarizer = async (previous: string, turns: { content: string }[]) => {
+    summarized.push(turns.length);
+    return `${previous}${previous ? ' | ' : ''}${turns.length} turns`;
+  };
+
+  for (let i = 1; i <= MAX_RECENT_TURNS + 1; i++) {
+    await service.recordTurn('chat', i % 2 ? 'user' : 'assistant', `turn ${i}`, summarizer);
+  }
+  let memory = await service.get('chat');
+  check('long chats roll up in one batch', [summarized, memory.summarizedTurns, memory.recentTurns.length],
+    [[MAX_RECENT_TURNS + 1 - KEEP_RECENT_TURNS], MAX_RECENT_TURNS + 1 - KEEP_RECENT_TURNS, KEEP_RECENT_TURNS]);
+  check('recent turns are the newest', memory.recentTurns.map(t => t.content)[KEEP_RECENT_TURNS - 1], `turn ${MAX_RECENT_TURNS + 1}`);
+
+  await service.update('chat', { awaitingConfirmation: true, pendingProposal: '🔮 **Proposed Prediction:** 60 Push-ups' });
+  const restarted = new ConversationMemoryService(store);
+  memory = await restarted.get('chat');
+  check('pending proposal survives a restart', [memory.awaitingConfirmation, memory.pendingProposal, memory.summary],
+    [true, '🔮 **Proposed Prediction:** 60 Push-ups', '7 turns']);
+
+  const failing = async () => { throw new Error('model down'); };
+  for (let i = 0; i < MAX_RECENT_TURNS - KEEP_RECENT_TURNS + 1; i++) {
+    memory = await restarted.recordTurn('chat', 'user', `again ${i}`, failing);
+  }
+  check('failed summarizer falls back to the plain summary', memory.summary.split('\n').slice(0, 2), ['7 turns', 'Bot: turn 8']);
+
+  // Replies finishing together each keep their turn, and a roll-up keeps turns added while it was summarizing
+  const racing = new ConversationMemoryService(createInMemoryConversationMemoryStore(), () => clock++);
+  await Promise.all(['first', 'second', 'third'].map(content => racing.recordTurn('race', 'user', content)));
+  check('concurrent turns are all kept', (await racing.get('race')).recentTurns.map(t => t.content).sort(), ['first', 'second', 'third']);
+
+  let releaseSummary = () => {};
+  const slowSummarizer = async (previous: string, turns: { content: string }[]) => {
+    await new Promise<void>(resolve => { releaseSummary = resolve; });
+    return `${turns.length} turns`;
+  };
+  for (let i = 4; i <= MAX_RECENT_TURNS; i++) {
+    await racing.recordTurn('race', 'user', `turn ${i}`);
+  }
+  const rolling = racing.recordTurn('race', 'user', 'rolls up', slowSummarizer);
+  await new Promise(resolve => setImmediate(resolve));
+  await racing.recordTurn('race', 'assistant', 'arrived mid-summary');
+  releaseSummary();
+  memory = await rolling;
+  // The turn that arrived meanwhile rolled the conversation up itself, so the slower summary is dropped
+  check('overlapping roll-ups lose and repeat no turns', [
+    memory.summarizedTurns + memory.recentTurns.length,
+    memory.recentTurns.at(-1)?.content,
+    memory.summary.startsWith('User: first'),
+  ], [MAX_RECENT_TURNS + 2, 'arrived mid-summary', true]);
+
+  // Store outage: the service keeps working from its in-process state
+  const broken: ConversationMemoryStore = {
+    name: 'postgres',
+    load: async () => { throw new Error('connection refused'); },
+    modify: async () => { throw new Error('connection refused'); },
+  };
+  const degraded = new ConversationMemoryService(broken);
+  await degraded.recordTurn('offline', 'user', 'use celo and 20 burpees');
+  memory = await degraded.get('offline');
+  check('database outage degrades to in-process memory', [memory.recentTurns.length, memory.facts.preferredChain], [1, 'celo']);
+
+  // Prompt section
+  check('nothing remembered, no prompt section', describeMemoryForPrompt(createConversationMemory('new')), '');
+  const prompt = describeMemoryForPrompt({
+    ...createConversationMemory('chat'),
+    summary: 'User: wants a squat challenge',
+    summarizedTurns: 8,
+    facts: { timezone: 'EST', preferredChain: 'celo', exerciseAmounts: { pushups: [50, 70, 60] } },
+    awaitingConfirmation: true,
+    pendingProposal: '🔮 **Proposed Prediction:** 60 Push-ups <!-- WALLET_TRIGGER:{} -->',
+  });
+  check('prompt carries summary, facts and the pending proposal', [
+    prompt.includes('Earlier in this chat (8 messages, summarized):\n  User: wants a squat challenge'),
+    prompt.includes("User's timezone: EST"),
+    prompt.includes('Preferred chain: CELO Mainnet'),
+    prompt.includes('60 push-ups'),
+    prompt.includes('60 Push-ups') && !prompt.includes('WALLET_TRIGGER'),
+  ], [true, true, true, true, true]);
+
+  finish('conversation memory');
+}
+
+main();
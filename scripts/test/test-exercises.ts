@@ -0,0 +1,72 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Exercise registry: name normalization, free-text parsing, effort points, contract mapping,
+ * fitness prediction parsing/validation and per-exercise totals
+ * No database or network needed
+ *
+ * npm run test:exercises
+ */
+
+import {
+  findExerciseMention,
+  findPredictedExercise,
+  formatExerciseAmount,
+  fromContractExerciseType,
+  getContractExercises,
+  normalizeExerciseId,
+  toEffortPoints,
+} from '../../lib/exercises';
+import { normalizeTrackedExercise } from '../../lib/services/fitness-data-reader';
+import { parseFitnessCriteria, parseWorkoutCriteria } from '../../lib/services/prediction-resolution-service';
+import { validateExerciseTarget } from '../../lib/prediction-validation';
+import { summarizeExerciseTotals } from '../../lib/services/exercise-totals';
+import { check, finish } from './check';
+
+// Names
+check('aliases normalize', ['Press-ups', 'push ups', 'pull_up', 'chin-ups', 'crunches', 'jumping jacks', 'jog', 'squats', 'custom'].map(normalizeExerciseId),
+  ['pushups', 'pushups', 'pullups', 'pullups', 'situps', 'jumps', 'running', 'squats', 'custom']);
+check('unknown names', [normalizeExerciseId('yoga'), normalizeExerciseId('runner')], [null, null]);
+check('leaderboard fields', ['press-ups', 'squat', 'pullups', 'reps'].map(normalizeTrackedExercise), ['pushups', 'squats', null, 'total-exercises']);
+
+// Free text
+const reps = findExerciseMention('I will do 1,500 pull-ups by June');
+check('rep mention', [reps?.exercise.id, reps?.amount], ['pullups', 1500]);
+const run = findExerciseMention('I will run 10km before Sunday');
+check('distance mention', [run?.exercise.id, run?.amount], ['running', 10000]);
+check('longest alias wins', findExerciseMention('200 jumping jacks')?.amount, 200);
+check('distance exercise needs a distance to be a prediction', findPredictedExercise('Bitcoin bull run to $150k'), null);
+
+// Effort, formatting and the contract enum
+check('effort points', [toEffortPoints('pushups', 300), toEffortPoints('running', 5000), toEffortPoints('pullups', 10)], [300, 300, 30]);
+check('formatting', [formatExerciseAmount('squats', 1), formatExerciseAmount('pushups', 1500), formatExerciseAmount('cycling', 42195)],
+  ['1 squat', '1,500 push-ups', '42.2 km cycling']);
+check('contract exercises in enum order', getContractExercises().map(e => [e.contractExerciseType, e.id]), [[0, 'pushups'], [1, 'squats']]);
+check('contract lookup', [fromContractExerciseType(1)?.id, fromContractExerciseType(2)], ['squats', null]);
+
+// Prediction parsing
+const prediction = { description: '', targetValue: 0, targetDate: 2000, createdAt: 1000, creator: '0xABC' };
+check('on-chain rep criteria', parseFitnessCriteria({ ...prediction, title: 'I will do 500 press-ups' })?.exerciseType, 'pushups');
+check('untracked rep exercise is not read on-chain', parseFitnessCriteria({ ...prediction, title: 'I will do 500 sit-ups' }), null);
+check('workout criteria', parseWorkoutCriteria({ ...prediction, title: 'Ride 50 miles' })?.sport, 'cycling');
+check('rep predictions skip workouts', parseWorkoutCriteria({ ...prediction, title: '100 pull-ups after a 5km run' }), null);
+
+// Validation
+const now = 1_700_000_000;
+const week = now + 7 * 24 * 60 * 60;
+check('plausible target', validateExerciseTarget('I will do 1000 push-ups', week, now), { errors: [], warnings: [] });
+check('implausible daily pace', validateExerciseTarget('I will do 50000 push-ups', week, now).warnings.length, 1);
+check('untracked exercise needs manual resolution', validateExerciseTarget('I will do 100 pull-ups', week, now).warnings,
+  ["Pull-ups aren't tracked automatically, so this prediction will need manual or community resolution"]);
+check('zero target', validateExerciseTarget('I will do 0 squats', week, now).errors, ['Squats target must be greater than zero']);
+
+// Totals
+const totals = summarizeExerciseTotals('42', [
+  { exercise_id: 'pushups', source: 'leaderboard', amount: 300 },
+  { exercise_id: 'running', source: 'workouts', amount: '10000' },
+  { exercise_id: 'retired', source: 'leaderboard', amount: 5 },
+]);
+check('totals by effort', totals.exercises.map(e => [e.exerciseId, e.amount, e.effortPoints]), [['running', 10000, 600], ['pushups', 300, 300]]);
+check('total effort', totals.effortPoints, 900);
+
+finish('exercise registry');
@@ -0,0 +1,88 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Fitness data reader against a local Hardhat node: window and address filtering, summing across
+ * networks, reproducible proofs at a pinned block, and unreadable or untracked sources
+ * Deploys FitnessLeaderboardMock from artifacts/ and submits scores itself, so nothing needs deploying by hand
+ *
+ * 1. npx hardhat node
+ * 2. npm run test:fitness-reader
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { createOnChainFitnessReader } from '../../lib/services/fitness-data-reader';
+import { check, finish } from './check';
+
+async function main() {
+  const rpcUrl = process.env.HARDHAT_RPC_URL || 'http://127.0.0.1:8545';
+  const provider = new ethers.JsonRpcProvider(rpcUrl, undefined, { staticNetwork: true, pollingInterval: 100, cacheTimeout: -1 });
+  const [owner, alice, bob] = await Promise.all([0, 1, 2].map(i => provider.getSigner(i)));
+  const send = async (tx: Promise<ethers.ContractTransactionResponse>) => (await tx).wait();
+
+  console.log(`🧪 Deploying FitnessLeaderboardMock on ${rpcUrl}...`);
+  const artifact = JSON.parse(
+    readFileSync(path.join(__dirname, '../../artifacts/contracts/mocks/FitnessLeaderboardMock.sol/FitnessLeaderboardMock.json'), 'utf8')
+  );
+  const factory = new ethers.ContractFactory(artifact.abi, artifact.bytecode, owner);
+  const deploy = async () => {
+    const contract = await factory.deploy();
+    await contract.waitForDeployment();
+    return contract as ethers.Contract;
+  };
+  const [celo, base] = [await deploy(), await deploy()];
+  const as = (contract: ethers.Contract, signer: ethers.Signer) => contract.connect(signer) as ethers.Contract;
+
+  // Alice trains on both networks with a score before the window; Bob's reps never count for her
+  await send(as(celo, alice).addScore(10, 5));
+  await provider.send('evm_increaseTime', [3600]);
+  await provider.send('evm_mine', []);
+  const windowStart = (await provider.getBlock('latest'))!.timestamp;
+  await send(as(celo, alice).addScore(30, 20));
+  await send(as(base, alice).addScore(25, 0));
+  await send(as(celo, bob).addScore(100, 100));
+  const windowEnd = (await provider.getBlock('latest'))!.timestamp;
+
+  const reader = createOnChainFitnessReader({
+    celo: { contractAddress: await celo.getAddress(), rpcUrls: [rpcUrl] },
+    base: { contractAddress: await base.getAddress(), rpcUrls: [rpcUrl] },
+  });
+  const query = { addresses: [(await alice.getAddress()).toUpperCase().replace('0X', '0x')], exerciseType: 'push-ups', windowStart, windowEnd };
+
+  const first = await reader.read(query);
+  check('push-ups in the window across networks', [first.exerciseType, first.amount, first.networks.map(n => [n.network, n.amount, n.entries])],
+    ['pushups', 55, [['celo', 30, 1], ['base', 25, 1]]]);
+  check('every network read', first.confidence, 1);
+  check('squats and totals', [
+    (await reader.read({ ...query, exerciseType: 'squats' })).amount,
+    (await reader.read({ ...query, exerciseType: 'total-exercises' })).amount,
+  ], [20, 75]);
+  check('one network on request', (await reader.read({ ...query, networks: ['base'] })).amount, 25);
+  check('group members sum', (await reader.read({ ...query, addresses: [...query.addresses, await bob.getAddress()] })).amount, 155);
+
+  // Later scores change the head but not a reading pinned to the earlier block
+  const pinned = Object.fromEntries(first.networks.map(n => [n.network, n.blockNumber!]));
+  await send(as(celo, alice).addScore(40, 0));
+  const later = await reader.read({ ...query, windowEnd: windowEnd + 3600 });
+  const again = await reader.read({ ...query, blockTags: pinned });
+  check('new scores show up at the head', later.amount, 95);
+  check('pinned block reproduces the proof', [again.amount, again.proofHash], [first.amount, first.proofHash]);
+
+  // A network that can't be read lowers the confidence instead of failing the read
+  const partial = await createOnChainFitnessReader({
+    celo: { contractAddress: await celo.getAddress(), rpcUrls: [rpcUrl] },
+    base: { contractAddress: ethers.ZeroAddress, rpcUrls: [rpcUrl] },
+  }).read(query);
+  check('unreadable network', [partial.amount, partial.confidence, partial.networks.map(n => n.ok)], [30, 0.5, [true, false]]);
+
+  const untracked = await reader.read({ ...query, exerciseType: 'burpees' });
+  check('untracked exercises report zero confidence', [untracked.amount, untracked.confidence], [0, 0]);
+
+  finish('fitness reader');
+}
+
+main().catch(error => {
+  console.error('❌ Fitness reader checks crashed:', error);
+  process.exit(1);
+});
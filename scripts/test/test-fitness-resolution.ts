@@ -0,0 +1,99 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Fitness-based automatic resolution: criteria parsed from legacy prediction wording, and the
+ * outcome and confidence of an on-chain reading with partial networks and the streak cross-check
+ * No network or database needed
+ *
+ * npm run test:fitness-resolution
+ */
+
+import {
+  judgeFitnessReading,
+  parseFitnessCriteria,
+  parseWorkoutCriteria,
+  type FitnessCriteria,
+} from '../../lib/services/prediction-resolution-service';
+import { check, finish } from './check';
+
+const CREATOR = '0xAbCdEf0123456789aBcDeF0123456789AbCdEf01';
+const FRIEND = '0x1111111111111111111111111111111111111111';
+const CREATED = 1_700_000_000;
+const DEADLINE = CREATED + 7 * 24 * 60 * 60;
+
+const prediction = (title: string, description = '', targetValue = 0) => ({
+  title, description, targetValue, targetDate: DEADLINE, createdAt: CREATED, creator: CREATOR,
+});
+
+const iso = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+console.log('🧪 Criteria from the wording');
+
+check('exercise, amount and the creator by default', parseFitnessCriteria(prediction('I will do 500 push-ups this week')), {
+  exerciseType: 'pushups',
+  targetAmount: 500,
+  subject: { type: 'address', address: CREATOR.toLowerCase() },
+  windowStart: CREATED,
+  deadline: DEADLINE,
+});
+check('someone else by address', parseFitnessCriteria(prediction(`${FRIEND} does 200 squats`))?.subject,
+  { type: 'address', address: FRIEND });
+check('someone else by fid', parseFitnessCriteria(prediction('fid 4242 hits 300 squats'))?.subject, { type: 'fid', fid: 4242 });
+check('generic reps count every exercise', parseFitnessCriteria(prediction('Team effort', '1,500 reps before Sunday'))?.exerciseType,
+  'total-exercises');
+check('amount falls back to the on-chain target', parseFitnessCriteria(prediction('More push-ups than ever', '', 750))?.targetAmount, 750);
+check('untracked exercises need a human', parseFitnessCriteria(prediction('I will do 50 pull-ups')), null);
+check('no amount anywhere', parseFitnessCriteria(prediction('Push-ups every day')), null);
+
+check('distance goals go to imported workouts', parseWorkoutCriteria(prediction('I will run 10km this week')), {
+  sport: 'running',
+  targetMeters: 10000,
+  subject: { type: 'address', address: CREATOR.toLowerCase() },
+  windowStart: CREATED,
+  deadline: DEADLINE,
+});
+check('rep goals stay on-chain', parseWorkoutCriteria(prediction('100 push-ups before my 5km run')), null);
+
+console.log('\n🧪 Judging a reading');
+
+const PUSHUPS: FitnessCriteria = {
+  exerciseType: 'pushups',
+  targetAmount: 500,
+  subject: { type: 'address', address: CREATOR.toLowerCase() },
+  windowStart: CREATED,
+  deadline: DEADLINE,
+};
+
+const judge = (amount: number, networkConfidence = 1, options: {
+  comparator?: 'gte' | 'gt' | 'lte' | 'lt';
+  streak?: { lastFitnessSync?: string; totalPushups?: number; totalSquats?: number } | null;
+} = {}) => {
+  const { outcome, confidence, source, currentValue } = judgeFitnessReading({
+    predictionId: 1,
+    criteria: PUSHUPS,
+    comparator: options.comparator ?? 'gte',
+    reading: { amount, confidence: networkConfidence },
+    streak: options.streak ?? null,
+  });
+  return [outcome, Number(confidence.toFixed(3)), source, currentValue];
+};
+
+check('target hit from one source', judge(520), ['YES', 0.9, 'fitness_onchain', 520]);
+check('target missed', judge(480), ['NO', 0.9, 'fitness_onchain', 480]);
+
+// Unread networks can only add reps: a hit stands, a miss is only as sure as the networks read
+check('hit stands with a network down', judge(520, 0.5), ['YES', 0.9, 'fitness_onchain', 520]);
+check('miss with a network down stays unconfirmed', judge(480, 0.5), ['NO', 0.45, 'fitness_onchain', 480]);
+check('"at most" flips which side is safe', [judge(480, 0.5, { comparator: 'lte' }), judge(520, 0.5, { comparator: 'lte' })], [
+  ['YES', 0.45, 'fitness_onchain', 480],
+  ['NO', 0.9, 'fitness_onchain', 520],
+]);
+
+const synced = { lastFitnessSync: iso(DEADLINE + 60), totalPushups: 900, totalSquats: 100 };
+check('streak totals covering the deadline confirm it', judge(520, 1, { streak: synced }), ['YES', 1, 'fitness_onchain+streaks', 520]);
+check('on-chain reps beyond the synced totals halve it', judge(520, 1, { streak: { ...synced, totalPushups: 300 } }),
+  ['YES', 0.5, 'fitness_onchain+streaks', 520]);
+check('a sync before the deadline is no cross-check', judge(520, 1, { streak: { ...synced, lastFitnessSync: iso(DEADLINE - 60) } }),
+  ['YES', 0.9, 'fitness_onchain', 520]);
+
+finish('fitness resolution');
@@ -0,0 +1,47 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Group challenge pledges: /stake only records a promise, so the replies must say so and never
+ * claim money is on the line or paid out
+ * No network or database needed: covers the reply copy and the checks made before anything is stored
+ *
+ * npm run test:group-pledges
+ */
+
+import { formatPledgeRecorded, processGroupFitnessCommand } from '../../lib/group-fitness-agent';
+import { check, finish } from './check';
+
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+
+const OVERCLAIMS = /money on the line|stake recorded|payout|pot:|escrow/i;
+
+async function main() {
+  const challenge = {
+    name: 'Push-up Challenge',
+    target: 1000,
+    stakes: { [ALICE]: 0.5, [BOB]: 0.25 },
+    rewards: { winner: 70, participation: 30 },
+  };
+
+  const reply = formatPledgeRecorded(challenge, ALICE, 0.25);
+  check('pledge totals', [reply.includes('Your pledge: 0.75 ETH'), reply.includes('Pledged in total: 1 ETH')], [true, true]);
+  check('says nothing moves on-chain', reply.includes('no ETH is transferred or held on-chain'), true);
+  check('no stake or payout claims', OVERCLAIMS.test(reply), false);
+  check('first pledge', formatPledgeRecorded({ ...challenge, stakes: {} }, BOB, 0.1).includes('Your pledge: 0.1 ETH\nPledged in total: 0.1 ETH'), true);
+
+  // Invalid amounts are rejected before the store is touched
+  check('missing amount', await processGroupFitnessCommand('/stake', ALICE, 'conversation'),
+    '❌ Please specify an ETH amount to pledge: `/stake [amount]`\nExample: `/stake 0.01`');
+  check('negative amount', (await processGroupFitnessCommand('/stake -1', ALICE, 'conversation')).startsWith('❌'), true);
+
+  const help = await processGroupFitnessCommand('help', ALICE, 'conversation');
+  check('help describes pledges', [help.includes('**Pledges**'), OVERCLAIMS.test(help), /financial motivation/i.test(help)], [true, false, false]);
+
+  finish('group pledge');
+}
+
+main().catch(error => {
+  console.error('❌ Group pledge checks crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,93 @@
+#!/usr/bin/env ts-node
+
+/**
+ * XMTP message queue: queued messages replayed with their conversation, failed replies retried
+ * after the retry delay and dead-lettered after the last attempt, and expired claims redelivered
+ * No network or database needed: runs on the in-memory queue backend
+ *
+ * npm run test:message-queue
+ */
+
+import { createInMemoryMessageQueue } from '../../lib/queue/memory-message-queue';
+import {
+  getDeadLetters,
+  getMessage,
+  getQueueStats,
+  processQueuedMessageBatch,
+  queueMessage,
+  setQueueBackend,
+  waitForMessageResponse,
+  type QueuedMessage,
+} from '../../lib/xmtp-message-queue';
+import { CHAT_CONFIG } from '../../lib/xmtp-constants';
+import { check, finish } from './check';
+
+const ALICE = '0x1111111111111111111111111111111111111111';
+
+async function main() {
+  let clock = Date.parse('2030-01-01T00:00:00Z');
+  const queue = createInMemoryMessageQueue(() => clock);
+  setQueueBackend(queue);
+  // Failures are logged as they happen; the assertions below are what matters
+  console.error = () => {};
+
+  const seen: Array<[string, string | undefined]> = [];
+  const answer = async (message: QueuedMessage) => {
+    seen.push([message.message, message.conversationId]);
+    return `Re: ${message.message}`;
+  };
+  const unreachable = async (message: QueuedMessage): Promise<string> => {
+    seen.push([message.message, message.conversationId]);
+    throw new Error('AI model API unreachable');
+  };
+
+  // Replies come from the conversation the message was queued in
+  const greeting = await queueMessage(ALICE, 'I will do 500 push-ups', 'chat_wallet_abc');
+  const anonymous = await queueMessage(ALICE, 'hello');
+  check('batch answered', await processQueuedMessageBatch(answer), { completed: 2, failed: 0 });
+  check('conversation kept with the message', seen, [['I will do 500 push-ups', 'chat_wallet_abc'], ['hello', null]]);
+  check('reply stored', await waitForMessageResponse(greeting, 0), 'Re: I will do 500 push-ups');
+  check('no conversation stays unset', (await getMessage(anonymous))?.conversationId, undefined);
+
+  // A failed reply is retried after the delay, then dead-lettered on the last attempt
+  seen.length = 0;
+  const flaky = await queueMessage(ALICE, 'Will BTC hit 100k?', 'chat_wallet_def');
+  check('first attempt fails', await processQueuedMessageBatch(unreachable), { completed: 0, failed: 1 });
+  check('back to pending with the error', [(await getMessage(flaky))?.status, (await getMessage(flaky))?.error],
+    ['pending', 'AI model API unreachable']);
+  check('not retried before the delay', await processQueuedMessageBatch(unreachable), { completed: 0, failed: 0 });
+
+  for (let attempt = 2; attempt <= CHAT_CONFIG.QUEUE_MAX_ATTEMPTS; attempt++) {
+    clock += CHAT_CONFIG.QUEUE_RETRY_DELAY;
+    await processQueuedMessageBatch(unreachable);
+  }
+  const dead = await getMessage(flaky);
+  check('dead-lettered after the last attempt', [dead?.status, dead?.attempts, dead?.deadLetteredAt], ['failed', CHAT_CONFIG.QUEUE_MAX_ATTEMPTS, clock]);
+  check('every attempt had the conversation', seen.map(([, conversationId]) => conversationId),
+    Array(CHAT_CONFIG.QUEUE_MAX_ATTEMPTS).fill('chat_wallet_def'));
+  check('listed as a dead letter', (await getDeadLetters()).map(m => m.id), [flaky]);
+  check('waiting caller gets the error', await waitForMessageResponse(flaky, 0).catch(error => error.message), 'AI model API unreachable');
+
+  clock += CHAT_CONFIG.QUEUE_RETRY_DELAY;
+  check('dead letters are not retried', await processQueuedMessageBatch(unreachable), { completed: 0, failed: 0 });
+
+  // A claim that is never completed (the bot crashed) is redelivered, then dead-lettered
+  const stuck = await queueMessage(ALICE, 'stuck', 'chat_wallet_ghi');
+  for (let attempt = 1; attempt <= CHAT_CONFIG.QUEUE_MAX_ATTEMPTS; attempt++) {
+    await queue.claim({ limit: 10, visibilityTimeoutMs: CHAT_CONFIG.QUEUE_VISIBILITY_TIMEOUT, maxAttempts: CHAT_CONFIG.QUEUE_MAX_ATTEMPTS });
+    clock += CHAT_CONFIG.QUEUE_VISIBILITY_TIMEOUT;
+  }
+  check('final expired claim dead-lettered', await processQueuedMessageBatch(answer), { completed: 0, failed: 0 });
+  check('timeout recorded', (await getMessage(stuck))?.error, `Visibility timeout expired after ${CHAT_CONFIG.QUEUE_MAX_ATTEMPTS} attempts`);
+
+  const { backend, ...stats } = await getQueueStats();
+  check('stats', [backend, stats], ['memory', { total: 4, pending: 0, processing: 0, completed: 2, failed: 2 }]);
+
+  setQueueBackend(null);
+  finish('message queue');
+}
+
+main().catch(error => {
+  console.log('❌ Message queue checks crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,65 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Odds history: series built from VoteCast ticks (bucketing, cumulative pools, per-bucket volume)
+ * and the momentum score behind the predictions page sort
+ * No network or database needed
+ *
+ * npm run test:odds-history
+ */
+
+import { ethers } from 'ethers';
+import { buildOddsSeries, computeMomentum, type VoteTick } from '../../lib/prediction-index';
+import { check, finish } from './check';
+
+const HOUR = 3600;
+const tick = (timestamp: number, isYes: boolean, amount: string): VoteTick => ({
+  timestamp,
+  isYes,
+  amountWei: ethers.parseEther(amount).toString(),
+});
+
+function main() {
+  check('no votes, no series', buildOddsSeries([]), []);
+
+  const ticks = [
+    tick(0, true, '1'),
+    tick(HOUR, false, '1'),
+    tick(2 * HOUR, true, '2'),
+    tick(2 * HOUR + 60, true, '1'),
+    tick(10 * HOUR, false, '5'),
+  ];
+
+  const full = buildOddsSeries(ticks, 100);
+  check('one point per vote when buckets are small', full.map(p => [p.yes, p.no]),
+    [[100, 0], [50, 50], [75, 25], [80, 20], [40, 60]]);
+  check('pools are cumulative', full.map(p => [p.yesPool, p.noPool]), [[1, 0], [1, 1], [3, 1], [4, 1], [4, 6]]);
+
+  const bucketed = buildOddsSeries(ticks, 8);
+  check('nearby votes share a bucket', bucketed.length, 3);
+  check('a bucket keeps the odds after its last vote and sums its volume',
+    bucketed.map(p => [p.timestamp, p.yes, p.volume, p.votes]),
+    [[HOUR, 50, 2, 2], [2 * HOUR + 60, 80, 3, 2], [10 * HOUR, 40, 5, 1]]);
+
+  // Momentum over the last 24h
+  const now = 100 * HOUR;
+  const quiet = computeMomentum([tick(0, true, '1'), tick(HOUR, false, '1')], now);
+  check('no recent votes, no momentum', [quiet.oddsChange, quiet.windowVotes, quiet.score], [0, 0, 0]);
+
+  const swung = computeMomentum([
+    tick(0, true, '1'),
+    tick(HOUR, false, '1'),
+    tick(now - 2 * HOUR, false, '1'),
+    tick(now - HOUR, false, '1'),
+    tick(now - 60, false, '2'),
+  ], now);
+  check('odds move measured from the window start', [swung.oddsChange, swung.windowVotes, swung.windowVolume], [-33.3, 3, 4]);
+
+  const single = computeMomentum([tick(now - 60, true, '1')], now);
+  check('one vote on a new market moves it from 50/50', single.oddsChange, 50);
+  check('several votes outrank one bigger move', swung.score > single.score, true);
+
+  finish('odds history');
+}
+
+main();
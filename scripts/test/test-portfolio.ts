@@ -0,0 +1,122 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Portfolio P&L: payouts after fees, unclaimed rewards, sweat equity recovery, per-chain and USD totals,
+ * and fee/price caching
+ * No network or database needed: predictions and votes are fixtures
+ *
+ * npm run test:portfolio
+ */
+
+import {
+  PortfolioService,
+  computePosition,
+  summarizePortfolio,
+  type PositionInput,
+} from '../../lib/services/portfolio-service';
+import type { ChainPrediction, SupportedChain } from '../../lib/services/dual-chain-service';
+import { check, finish } from './check';
+
+const round = (value: number | null) => (value === null ? null : Math.round(value * 1e6) / 1e6);
+
+function prediction(chain: SupportedChain, id: number, pools: { yes: number; no: number }, outcome: 0 | 1 | 2): ChainPrediction {
+  return {
+    id,
+    chain,
+    creator: '0x0000000000000000000000000000000000000001',
+    title: `Prediction ${id}`,
+    description: '',
+    targetDate: 1_700_000_000,
+    targetValue: 100,
+    currentValue: 0,
+    category: 0,
+    network: chain,
+    emoji: '💪',
+    totalStaked: pools.yes + pools.no,
+    yesVotes: pools.yes,
+    noVotes: pools.no,
+    status: outcome === 0 ? 0 : 1,
+    outcome,
+    createdAt: 1_699_000_000,
+    autoResolvable: false,
+    chainMetadata: { currency: '', explorerUrl: '', isProduction: false },
+  };
+}
+
+function position(p: ChainPrediction, isYes: boolean, stake: number, extra: Partial<PositionInput> = {}): PositionInput {
+  return { prediction: p, isYes, stake, claimed: false, claimedAmount: null, sweatEquityRecovered: 0, votedAt: p.createdAt, ...extra };
+}
+
+async function main() {
+  // Pool of 10 with 4 on YES, resolved YES, 20% fees: 8 split across 4 -> 2x
+  const wonYes = prediction('celo', 1, { yes: 4, no: 6 }, 1);
+  const won = computePosition(position(wonYes, true, 1), 20);
+  check('winner payout after fees', [won.status, round(won.payout), round(won.realizedPnl), round(won.unclaimed)], ['won', 2, 1, 2]);
+
+  const claimed = computePosition(position(wonYes, true, 1, { claimed: true, claimedAmount: 1.9 }), 20);
+  check('claimed amount wins over the estimate', [round(claimed.payout), round(claimed.realizedPnl), claimed.unclaimed], [1.9, 0.9, 0]);
+
+  const lost = computePosition(position(wonYes, false, 3, { claimed: true, sweatEquityRecovered: 1 }), 20);
+  check('loser keeps sweat equity recovered', [lost.status, lost.payout, lost.realizedPnl, lost.unclaimed], ['lost', 0, -2, 0]);
+
+  const noWins = computePosition(position(prediction('celo', 2, { yes: 2, no: 8 }, 2), false, 2), 15);
+  check('NO outcome pays NO stakers', [noWins.status, round(noWins.payout)], ['won', 2.125]);
+
+  const open = computePosition(position(prediction('base', 3, { yes: 1, no: 3 }, 0), true, 0.5), 20);
+  check('open position: no realized P&L, payout if current pools held',
+    [open.status, open.realizedPnl, round(open.potentialPayout)], ['open', null, 1.6]);
+
+  // Per-chain breakdowns and USD totals
+  const inputs = [
+    position(wonYes, true, 1),
+    position(prediction('celo', 4, { yes: 5, no: 5 }, 2), true, 2, { claimed: true, sweatEquityRecovered: 0.5 }),
+    position(prediction('base', 3, { yes: 1, no: 3 }, 0), true, 0.5),
+    position(prediction('bsc', 5, { yes: 1, no: 1 }, 1), true, 1),
+  ];
+  const portfolio = summarizePortfolio('0xABC', inputs, {
+    celo: { source: 'index', feePercentage: 20, usdPrice: 0.5 },
+    base: { source: 'rpc', feePercentage: null, usdPrice: 3000 },
+    bsc: { source: 'rpc', feePercentage: 20, usdPrice: null },
+  }, Date.UTC(2026, 0, 1));
+
+  const celo = portfolio.chains.find(c => c.chain === 'celo')!;
+  check('celo breakdown', [celo.currency, celo.staked, round(celo.realizedPnl), round(celo.unclaimedRewards), celo.sweatEquityRecovered, celo.wins, celo.losses],
+    ['CELO', 3, -0.5, 2, 0.5, 1, 1]);
+  check('celo in USD', [round(celo.usd!.realizedPnl), round(celo.usd!.unclaimedRewards)], [-0.25, 1]);
+
+  const base = portfolio.chains.find(c => c.chain === 'base')!;
+  check('missing fee falls back to the contract default', [base.feePercentage, base.feeIsDefault, base.openStake, base.openPositions], [20, true, 0.5, 1]);
+
+  const bsc = portfolio.chains.find(c => c.chain === 'bsc')!;
+  check('unpriced chain has native amounts only', [round(bsc.unclaimedRewards), bsc.usd], [1.6, null]);
+  check('USD totals skip unpriced chains', [round(portfolio.totals.usd.openStake), round(portfolio.totals.usd.unclaimedRewards), portfolio.totals.unpricedChains],
+    [1500, 1, ['bsc']]);
+  check('address normalized', portfolio.address, '0xabc');
+
+  // Service: fee and price lookups are cached, failures included
+  let now = 0;
+  const calls = { fee: 0, price: 0 };
+  const service = new PortfolioService({
+    loadPositions: async () => ({ positions: [position(wonYes, true, 1)], sources: { celo: 'index', base: 'rpc' } as Record<SupportedChain, 'index' | 'rpc'> }),
+    getFeePercentage: async () => { calls.fee++; return 10; },
+    getUsdPrice: async symbol => { calls.price++; if (symbol === 'ETH') throw new Error('rate limited'); return 0.5; },
+  }, () => now);
+
+  const first = await service.getPortfolio('0xabc');
+  check('fee from the chain is applied', round(first.positions[0].payout), 2.25);
+  check('failed price lookup leaves the chain unpriced', first.chains.map(c => [c.chain, c.usdPrice]), [['celo', 0.5], ['base', null]]);
+
+  await service.getPortfolio('0xabc');
+  check('lookups cached between requests', calls, { fee: 2, price: 2 });
+
+  now += 11 * 60 * 1000;
+  await service.getPortfolio('0xabc');
+  check('lookups refreshed after their TTL', calls, { fee: 4, price: 4 });
+
+  finish('portfolio');
+}
+
+main().catch(error => {
+  console.error('❌ Portfolio checks crashed:', error);
+  process.exit(1);
+});
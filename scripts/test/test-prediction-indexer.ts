@@ -0,0 +1,163 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Prediction market indexer against a local Hardhat node: decoding every event, confirmations,
+ * checkpointing, reorg rollback (via evm_snapshot/evm_revert) and contract changes
+ * Deploys UnifiedPredictionMarket from artifacts/ and indexes into an in-memory store, so no database is needed
+ *
+ * 1. npx hardhat node
+ * 2. npm run test:prediction-indexer
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import {
+  PredictionMarketIndexer,
+  type IndexBatch,
+  type IndexCheckpoint,
+  type IndexedBlock,
+  type MarketEvent,
+  type PredictionIndexStore,
+} from '../../lib/prediction-index';
+import type { SupportedChain } from '../../lib/services/dual-chain-service';
+import { check, finish } from './check';
+
+/**
+ * Store keeping one chain's rows in arrays, with the same rollback semantics as the Postgres store
+ */
+class MemoryIndexStore implements PredictionIndexStore {
+  events: MarketEvent[] = [];
+  blocks: IndexedBlock[] = [];
+  checkpoint: IndexCheckpoint | null = null;
+
+  async getCheckpoint() {
+    return this.checkpoint;
+  }
+
+  async getRecentBlocks(_chain: SupportedChain, limit: number) {
+    return [...this.blocks].sort((a, b) => b.number - a.number).slice(0, limit);
+  }
+
+  async commitBatch(chain: SupportedChain, batch: IndexBatch) {
+    this.events.push(...batch.events);
+    const fresh = new Set(batch.blocks.map(block => block.number));
+    this.blocks = [...this.blocks.filter(block => !fresh.has(block.number)), ...batch.blocks]
+      .filter(block => block.number >= batch.pruneBlocksBelow);
+    this.checkpoint = { chain, contractAddress: batch.contractAddress, block: batch.checkpoint, updatedAt: new Date().toISOString() };
+  }
+
+  async rollback(chain: SupportedChain, to: { contractAddress: string; block: IndexedBlock } | null) {
+    const above = to ? to.block.number : -1;
+    this.events = this.events.filter(event => event.blockNumber <= above);
+    this.blocks = this.blocks.filter(block => block.number <= above);
+    this.checkpoint = to ? { chain, ...to, updatedAt: new Date().toISOString() } : null;
+  }
+
+  // Pools per prediction, derived the way the reader's SQL does
+  pools(predictionId: number) {
+    const votes = this.events.filter(e => e.type === 'VoteCast' && e.predictionId === predictionId) as Extract<MarketEvent, { type: 'VoteCast' }>[];
+    const sum = (yes: boolean) => ethers.formatEther(votes.filter(v => v.isYes === yes).reduce((total, v) => total + BigInt(v.amount), BigInt(0)));
+    return { yes: sum(true), no: sum(false), voters: new Set(votes.map(v => v.voter)).size };
+  }
+
+  ofType<T extends MarketEvent['type']>(type: T) {
+    return this.events.filter(event => event.type === type) as Extract<MarketEvent, { type: T }>[];
+  }
+}
+
+async function main() {
+  const rpcUrl = process.env.HARDHAT_RPC_URL || 'http://127.0.0.1:8545';
+  // No request cache: blocks are mined faster than ethers' default 250ms, and each sync must see the new head
+  const provider = new ethers.JsonRpcProvider(rpcUrl, undefined, { staticNetwork: true, pollingInterval: 100, cacheTimeout: -1 });
+  const signers = await Promise.all([0, 1, 2, 3, 4].map(i => provider.getSigner(i)));
+  const [owner, alice, bob, carol, bot] = signers;
+  const mine = (blocks: number) => provider.send('hardhat_mine', [`0x${blocks.toString(16)}`]);
+
+  console.log(`🧪 Deploying UnifiedPredictionMarket on ${rpcUrl}...`);
+  const artifact = JSON.parse(
+    readFileSync(path.join(__dirname, '../../artifacts/contracts/UnifiedPredictionMarket.sol/UnifiedPredictionMarket.json'), 'utf8')
+  );
+  const factory = new ethers.ContractFactory(artifact.abi, artifact.bytecode, owner);
+  const deployed = await factory.deploy(await owner.getAddress(), await owner.getAddress());
+  await deployed.waitForDeployment();
+  const startBlock = (await deployed.deploymentTransaction()!.wait())!.blockNumber;
+  const market = deployed as ethers.Contract;
+  const as = (signer: ethers.Signer) => market.connect(signer) as ethers.Contract;
+  const send = async (tx: Promise<ethers.ContractTransactionResponse>) => (await tx).wait();
+
+  const store = new MemoryIndexStore();
+  const policy = { confirmations: 2, batchBlocks: 3, maxReorgDepth: 64 };
+  const indexer = new PredictionMarketIndexer('celo', { provider, contractAddress: await market.getAddress(), startBlock, policy }, store);
+
+  // Creations and votes
+  const latest = await provider.getBlock('latest');
+  const targetDate = latest!.timestamp + 3600;
+  await send(market.createPrediction('Alice does 1000 push-ups', 'By the end of the hour', targetDate, 1000, 0, 'celo', '💪', true));
+  await send(market.createPrediction('Bob runs 5km', '', targetDate, 5000, 0, 'celo', '🏃', false));
+  await send(as(alice).vote(1, true, { value: ethers.parseEther('1') }));
+  await send(as(bob).vote(1, false, { value: ethers.parseEther('0.5') }));
+  await send(as(alice).vote(1, true, { value: ethers.parseEther('0.5') }));
+
+  const unconfirmed = await indexer.sync();
+  check('unconfirmed blocks wait', store.ofType('VoteCast').length, 1);
+  check('several batches in one sync', unconfirmed.caughtUp && unconfirmed.toBlock - unconfirmed.fromBlock + 1 > policy.batchBlocks, true);
+
+  await mine(2);
+  await indexer.sync();
+  const created = store.ofType('PredictionCreated');
+  check('predictions with their contract details', created.map(p => [p.predictionId, p.title, p.details.emoji, p.details.autoResolvable]),
+    [[1, 'Alice does 1000 push-ups', '💪', true], [2, 'Bob runs 5km', '🏃', false]]);
+  check('pools from votes', store.pools(1), { yes: '1.5', no: '0.5', voters: 2 });
+  check('checkpoint trails the head by the confirmations', store.checkpoint?.block.number, (await provider.getBlockNumber()) - policy.confirmations);
+
+  const idle = await indexer.sync();
+  check('nothing new to index', [idle.events, idle.toBlock - idle.fromBlock], [0, -1]);
+
+  // Reorg: blocks already indexed are replaced by a different history
+  const snapshot = await provider.send('evm_snapshot', []);
+  await send(as(bob).vote(2, true, { value: ethers.parseEther('0.2') }));
+  await mine(2);
+  await indexer.sync();
+  check('vote indexed before the reorg', store.pools(2), { yes: '0.2', no: '0.0', voters: 1 });
+
+  await provider.send('evm_revert', [snapshot]);
+  await send(as(carol).vote(2, false, { value: ethers.parseEther('0.3') }));
+  await mine(3);
+  const reorged = await indexer.sync();
+  check('reorg rolled back', reorged.rolledBackTo !== null && reorged.rolledBackTo < reorged.fromBlock, true);
+  check('orphaned vote dropped, replacement indexed', store.pools(2), { yes: '0.0', no: '0.3', voters: 1 });
+  check('checkpoint matches the new chain', store.checkpoint?.block.hash, (await provider.getBlock(store.checkpoint!.block.number))?.hash);
+
+  // Resolution, claims and sweat equity
+  await provider.send('evm_increaseTime', [7200]);
+  await send(market.resolvePrediction(1, true));
+  await send(as(alice).claimReward(1));
+  await send(as(bob).claimReward(1));
+  await send(market.setSweatEquityBot(await bot.getAddress()));
+  await send(as(bot).releaseSweatEquityFunds(1, await bob.getAddress(), ethers.parseEther('0.1')));
+  await mine(2);
+  await indexer.sync();
+
+  const [resolution] = store.ofType('PredictionResolved');
+  check('resolution', [resolution?.predictionId, resolution?.outcome, ethers.formatEther(resolution?.totalPool ?? 0)], [1, true, '2.0']);
+  check('only winners emit a claim', store.ofType('RewardClaimed').map(c => [c.claimer, ethers.formatEther(c.amount)]),
+    [[(await alice.getAddress()).toLowerCase(), '1.6']]);
+  check('sweat equity release', store.ofType('SweatEquityFundsReleased').map(r => [r.user, ethers.formatEther(r.amount)]),
+    [[(await bob.getAddress()).toLowerCase(), '0.1']]);
+  check('events carry block timestamps', store.events.every(e => e.blockTimestamp > 0), true);
+
+  // Pointing the chain at another contract discards what was indexed for the old one
+  const other = await factory.deploy(await owner.getAddress(), await owner.getAddress());
+  await other.waitForDeployment();
+  await mine(2);
+  const moved = await new PredictionMarketIndexer('celo', { provider, contractAddress: await other.getAddress(), startBlock, policy }, store).sync();
+  check('contract change re-indexes from the start block', [moved.rolledBackTo, store.events.length], [startBlock - 1, 0]);
+
+  finish('prediction indexer');
+}
+
+main().catch(error => {
+  console.error('❌ Prediction indexer checks crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,300 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Prediction templates: cron schedules, template parsing with actionable errors, placeholders and
+ * the track record in each instance, and the scheduler creating, linking and retrying instances
+ * with a fake bot wallet, without ever creating the same instance twice
+ * No network or database needed
+ *
+ * npm run test:prediction-templates
+ */
+
+import {
+  PredictionTemplateService,
+  TEMPLATE_RETRY_SECONDS,
+  createInMemoryPredictionTemplateStore,
+  describeTemplateHistory,
+  instanceFields,
+  nextCronRun,
+  parseCronSchedule,
+  parseTemplateInput,
+  templateHistory,
+  type InstanceOutcome,
+  type PredictionTemplate,
+  type TemplateInstance,
+  type TemplateServices,
+} from '../../lib/prediction-templates';
+import type { DraftTransaction } from '../../lib/prediction-draft';
+import { findCriteriaCommitment, hashResolutionCriteria } from '../../lib/resolution-criteria/criteria';
+import type { RequestError } from '../../lib/request-error';
+import { check, finish } from './check';
+
+function errorOf(fn: () => unknown): string | null {
+  try {
+    fn();
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+const at = (iso: string) => Date.parse(iso) / 1000;
+const iso = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+const GROUP = '0x3333333333333333333333333333333333333333';
+
+const WEEKLY = {
+  name: 'Weekly group push-ups',
+  title: 'Will the group hit {{target}} push-ups in week {{week}}?',
+  description: 'Instance {{n}}: the group does {{target}} push-ups between {{start}} and {{end}}. Last result: {{last_result}} ({{record}})',
+  category: 'fitness',
+  targetValue: 5000,
+  chain: 'base',
+  schedule: '0 9 * * 1',
+  criteria: { source: 'fitness', subject: GROUP, exercise: 'pushups' },
+};
+
+/**
+ * A fake bot wallet and chain: signing assigns the hash, sending mines it once however often it is sent
+ */
+function fakeServices() {
+  const created: DraftTransaction[] = [];
+  const registered: string[] = [];
+  const outcomes = new Map<number, InstanceOutcome>();
+  const chain = new Map<string, { transaction: DraftTransaction; predictionId?: number }>();
+  let signatures = 0;
+  let failNext: { message: string; afterSending: boolean } | null = null;
+  let replaceNext = false;
+
+  const services: TemplateServices = {
+    async signPrediction(transaction) {
+      signatures++;
+      const txHash = `0x${signatures}`;
+      chain.set(txHash, { transaction });
+      return { txHash, rawTransaction: `0xraw${signatures}` };
+    },
+    async submitPrediction(_chain, signed) {
+      const failure = failNext;
+      failNext = null;
+      if (failure && !failure.afterSending) {
+        throw new Error(failure.message);
+      }
+      if (replaceNext) {
+        replaceNext = false;
+        return null;
+      }
+
+      const tx = chain.get(signed.txHash)!;
+      if (tx.predictionId === undefined) {
+        created.push(tx.transaction);
+        tx.predictionId = 100 + created.length;
+      }
+      if (failure) {
+        throw new Error(failure.message);
+      }
+      return tx.predictionId;
+    },
+    async registerResolutionCriteria(criteria) {
+      const hash = hashResolutionCriteria(criteria);
+      registered.push(hash);
+      return hash;
+    },
+    async getOutcome(_chain, predictionId) {
+      return outcomes.get(predictionId) ?? 'pending';
+    },
+  };
+
+  return {
+    services,
+    created,
+    registered,
+    outcomes,
+    signatures: () => signatures,
+    fail: (message: string, afterSending = false) => { failNext = { message, afterSending }; },
+    replace: () => { replaceNext = true; },
+  };
+}
+
+async function main() {
+  // Schedules
+  const monday9 = parseCronSchedule('0 9 * * 1');
+  check('weekly run', iso(nextCronRun(monday9, at('2030-01-02T12:00:00Z'))), '2030-01-07T09:00:00.000Z');
+  check('strictly after', iso(nextCronRun(monday9, at('2030-01-07T09:00:00Z'))), '2030-01-14T09:00:00.000Z');
+  check('aliases', [parseCronSchedule('@weekly').daysOfWeek, parseCronSchedule('@monthly').daysOfMonth], [[1], [1]]);
+  check('ranges, lists and steps', parseCronSchedule('*/15 9-11 1,15 * 7'), {
+    expression: '*/15 9-11 1,15 * 7',
+    minutes: [0, 15, 30, 45],
+    hours: [9, 10, 11],
+    daysOfMonth: [1, 15],
+    months: Array.from({ length: 12 }, (_, i) => i + 1),
+    daysOfWeek: [0],
+    restrictsDayOfMonth: true,
+    restrictsDayOfWeek: true,
+  });
+  check('either day field matches when both are set', iso(nextCronRun(parseCronSchedule('0 0 15 * 0'), at('2030-01-01T00:00:00Z'))),
+    '2030-01-06T00:00:00.000Z');
+  check('month boundary', iso(nextCronRun(parseCronSchedule('@monthly'), at('2030-12-15T00:00:00Z'))), '2031-01-01T00:00:00.000Z');
+  check('schedule errors', [
+    errorOf(() => parseCronSchedule('0 9 * *')),
+    errorOf(() => parseCronSchedule('0 25 * * *')),
+    errorOf(() => nextCronRun(parseCronSchedule('0 0 30 2 *'), at('2030-01-01T00:00:00Z'))),
+  ], [
+    'Schedule must be five cron fields (minute hour day-of-month month day-of-week) or @daily, @weekly, @monthly',
+    'Schedule hour "25" must be between 0 and 23',
+    'Schedule "0 0 30 2 *" never runs',
+  ]);
+
+  // Template parsing
+  const parsed = parseTemplateInput(WEEKLY);
+  check('template parsed', [parsed.category, parsed.emoji, parsed.enabled, parsed.criteria], [
+    0, '🔁', true, { source: 'fitness', subject: { type: 'address', address: GROUP }, exercise: 'pushups', comparator: 'gte' },
+  ]);
+  check('template errors say what to fix', [
+    errorOf(() => parseTemplateInput({ ...WEEKLY, title: 'Week {{wk}} push-ups' })),
+    errorOf(() => parseTemplateInput({ ...WEEKLY, criteria: { source: 'fitness', exercise: 'pushups' } })),
+    errorOf(() => parseTemplateInput({ ...WEEKLY, schedule: '0 9 * * *' })),
+    errorOf(() => parseTemplateInput({ ...WEEKLY, schedule: '0 9 * * *', durationHours: 48 })),
+    errorOf(() => parseTemplateInput({ ...WEEKLY, chain: 'solana' }))?.startsWith('chain must be one of:'),
+  ], [
+    'Unknown placeholder(s): {{wk}}. Use: n, start, end, week, month, year, target, last_result, record',
+    'criteria.subject must be a 0x address or a Farcaster fid: the bot wallet creates these predictions',
+    'Schedule runs more often than predictions can last: set durationHours to at least 25',
+    null,
+    true,
+  ]);
+
+  // Placeholders and the track record
+  const instance = (sequence: number, outcome: InstanceOutcome): TemplateInstance => ({
+    templateId: 't', sequence, chain: 'base', predictionId: 40 + sequence, previousPredictionId: sequence > 1 ? 39 + sequence : null,
+    title: '', targetDate: 0, txHash: '0x', outcome, createdAt: 0,
+  });
+  const history = templateHistory([instance(1, 'hit'), instance(2, 'missed'), instance(3, 'hit'), instance(4, 'pending')]);
+  check('history', history, {
+    previous: { sequence: 4, predictionId: 44, outcome: 'pending' },
+    lastResolved: { sequence: 3, predictionId: 43, outcome: 'hit' },
+    hits: 2,
+    resolved: 3,
+  });
+  check('history in the description', describeTemplateHistory(history), [
+    '🔁 Previous: #44 (instance 4), ⏳ awaiting resolution',
+    '📌 Last result: #43 ✅ hit',
+    '📈 Track record: hit 2 of 3',
+  ]);
+  check('first instance has no history', describeTemplateHistory(templateHistory([])), []);
+
+  const template = { ...parsed, id: 't', nextRunAt: 0, createdBy: GROUP, createdAt: 0, updatedAt: 0 } as PredictionTemplate;
+  const fields = instanceFields(template, { sequence: 5, start: at('2030-01-07T09:00:00Z'), end: at('2030-01-14T09:00:00Z'), history });
+  check('placeholders filled', [fields.title, fields.description.split('\n')[0]], [
+    'Will the group hit 5,000 push-ups in week 2?',
+    'Instance 5: the group does 5,000 push-ups between 2030-01-07 and 2030-01-14. Last result: hit (2/3)',
+  ]);
+  check('criteria for the instance window', fields.resolution, {
+    version: 1, source: 'fitness', subject: { type: 'address', address: GROUP }, exercise: 'pushups', comparator: 'gte',
+    value: 5000, window: { start: at('2030-01-07T09:00:00Z'), end: at('2030-01-14T09:00:00Z') },
+  });
+
+  // Scheduler
+  let clock = Date.now();
+  const store = createInMemoryPredictionTemplateStore();
+  const fake = fakeServices();
+  const service = new PredictionTemplateService(store, fake.services, () => clock);
+
+  const saved = await service.saveTemplate(WEEKLY, GROUP.toUpperCase().replace('0X', '0x'));
+  check('first run scheduled for Monday 09:00', [new Date(saved.nextRunAt * 1000).getUTCDay(), iso(saved.nextRunAt).slice(11, 19)], [1, '09:00:00']);
+  check('nothing due yet', await service.runDueTemplates(), []);
+
+  clock = saved.nextRunAt * 1000;
+  let results = await service.runDueTemplates();
+  const first = results[0]?.instance;
+  check('first instance created', [results[0]?.status, first?.sequence, first?.predictionId, first?.previousPredictionId], ['created', 1, 101, null]);
+  check('closes when the next opens', first?.targetDate, saved.nextRunAt + 7 * 24 * 60 * 60);
+  check('criteria registered and committed', [
+    fake.registered.length,
+    findCriteriaCommitment(fake.created[0].description) === fake.registered[0],
+    fake.created[0].autoResolvable,
+  ], [1, true, true]);
+  check('next run a week later', (await store.getTemplate(saved.id))?.nextRunAt, saved.nextRunAt + 7 * 24 * 60 * 60);
+
+  // A second scheduler holding the same due template can't run it again
+  check('claimed runs are skipped', (await store.claimRun(saved.id, saved.nextRunAt, saved.nextRunAt + 60)), false);
+
+  // The bot wallet fails before sending: retried later with the same transaction, then linked to the previous instance
+  clock += 7 * 24 * 60 * 60 * 1000;
+  fake.outcomes.set(101, 'hit');
+  fake.fail('insufficient funds for gas');
+  results = await service.runDueTemplates();
+  check('failed run recorded', [results[0]?.status, (await store.getTemplate(saved.id))?.lastError], ['failed', 'insufficient funds for gas']);
+  check('signed transaction kept for the retry', [(await store.getTemplate(saved.id))?.pendingRun?.sequence, fake.created.length], [2, 1]);
+  check('not retried before the lease ends', await service.runDueTemplates(), []);
+
+  clock += TEMPLATE_RETRY_SECONDS * 1000;
+  results = await service.runDueTemplates();
+  const second = results[0]?.instance;
+  check('retried and linked', [results[0]?.status, second?.sequence, second?.predictionId, second?.previousPredictionId], ['created', 2, 102, 101]);
+  check('retry sent the transaction it had signed', [fake.signatures(), second?.txHash], [2, '0x2']);
+  check('error and pending run cleared', [(await store.getTemplate(saved.id))?.lastError, (await store.getTemplate(saved.id))?.pendingRun], [undefined, undefined]);
+  check('track record carried forward', fake.created[1].description.includes('🔁 Previous: #101 (instance 1), ✅ hit\n📈 Track record: hit 1 of 1'), true);
+  check('placeholders see the last result', fake.created[1].description.includes('Last result: hit (1/1)'), true);
+
+  // The prediction is created but the run dies before recording it: the retry finds it instead of creating another
+  clock += 7 * 24 * 60 * 60 * 1000;
+  fake.fail('timeout waiting for receipt', true);
+  results = await service.runDueTemplates();
+  check('run failed after the prediction was created', [results[0]?.status, fake.created.length], ['failed', 3]);
+
+  clock += TEMPLATE_RETRY_SECONDS * 1000;
+  results = await service.runDueTemplates();
+  check('retry records the prediction already created', [results[0]?.status, results[0]?.instance?.sequence, results[0]?.instance?.predictionId],
+    ['created', 3, 103]);
+  check('no duplicate prediction', [fake.created.length, fake.signatures()], [3, 3]);
+
+  // A transaction that can never be mined is dropped, and the retry signs a new one
+  clock += 7 * 24 * 60 * 60 * 1000;
+  fake.replace();
+  results = await service.runDueTemplates();
+  check('replaced transaction fails the run', [results[0]?.status, (await store.getTemplate(saved.id))?.pendingRun], ['failed', undefined]);
+
+  clock += TEMPLATE_RETRY_SECONDS * 1000;
+  results = await service.runDueTemplates();
+  check('retry signs afresh', [results[0]?.status, results[0]?.instance?.sequence, results[0]?.instance?.txHash, fake.created.length],
+    ['created', 4, '0x5', 4]);
+
+  const recurring = await service.listRecurringPredictions();
+  check('cards get the record before each instance', recurring.map(r => [r.predictionId, r.sequence, r.history.hits, r.history.resolved]), [
+    [101, 1, 0, 0],
+    [102, 2, 1, 1],
+    [103, 3, 1, 1],
+    [104, 4, 1, 1],
+  ]);
+
+  // Paused templates don't run; a template without criteria resolves manually
+  await service.saveTemplate({ ...WEEKLY, enabled: false }, GROUP, { id: saved.id });
+  clock += 7 * 24 * 60 * 60 * 1000;
+  check('paused template skipped', await service.runDueTemplates(), []);
+
+  // A signed create names the new template's ID, so replaying it can't add a duplicate
+  const failure = (promise: Promise<unknown>) =>
+    promise.then(() => null, (error: RequestError) => [error.status, error.message]);
+  check('create replay refused', await failure(service.saveTemplate(WEEKLY, GROUP, { id: saved.id, create: true })),
+    [409, `Template ${saved.id} already exists`]);
+  check('update of a missing template', await failure(service.saveTemplate(WEEKLY, GROUP, { id: 'missing' })),
+    [404, 'Template missing not found']);
+  check('invalid template is the caller\'s error', await failure(service.saveTemplate({ ...WEEKLY, chain: 'mars' }, GROUP)),
+    [400, 'chain must be one of: celo, base, bsc']);
+
+  const manual = await service.saveTemplate({
+    ...WEEKLY,
+    name: 'Creator push-ups',
+    title: 'I will do {{target}} push-ups this week',
+    description: 'I will do 100 push-ups before {{end}}',
+    criteria: undefined,
+  }, GROUP);
+  clock = manual.nextRunAt * 1000;
+  results = await service.runDueTemplates();
+  check('no criteria inferred for the bot wallet', [results[0]?.status, fake.created[4]?.autoResolvable, findCriteriaCommitment(fake.created[4]?.description ?? '')],
+    ['created', false, null]);
+
+  finish('prediction template');
+}
+
+main();
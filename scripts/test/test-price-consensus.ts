@@ -0,0 +1,157 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Crypto price consensus: the median of the sources that agree, outliers rejected, disagreement
+ * reported with zero confidence, and failing sources kept in the audit trail; historical candles
+ * cross-checked against the second candle source
+ * No network needed: every source answers from a local fixture through the injected fetch
+ *
+ * npm run test:price-consensus
+ */
+
+import { getCryptoPriceConsensus, getHistoricalPriceCandle, type HttpFetch } from '../../lib/services/external-data-service';
+import { check, finish } from './check';
+
+const UPDATED = 1_900_000_000;
+
+type Fixture = number | 'down' | 'error';
+
+/**
+ * Fetch answering CoinGecko, CoinMarketCap and Binance price requests with the given BTC prices
+ */
+function fixtureFetch(prices: { coingecko: Fixture; coinmarketcap: Fixture; binance: Fixture }): HttpFetch {
+  const json = (body: unknown) => new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+
+  return async (url) => {
+    const source = url.includes('coingecko') ? 'coingecko' : url.includes('coinmarketcap') ? 'coinmarketcap' : 'binance';
+    const price = prices[source];
+    if (price === 'down') throw new Error(`${source} unreachable`);
+    if (price === 'error') return new Response('Internal Server Error', { status: 500 });
+
+    switch (source) {
+      case 'coingecko':
+        return json({ bitcoin: { usd: price, last_updated_at: UPDATED } });
+      case 'coinmarketcap':
+        return json({ data: { BTC: { quote: { USD: { price } }, last_updated: new Date(UPDATED * 1000).toISOString() } } });
+      default:
+        return json({ symbol: 'BTCUSDT', price: price.toFixed(2) });
+    }
+  };
+}
+
+type CandleFixture = { low: number; high: number; close: number } | 'down' | 'error';
+
+/**
+ * Fetch answering Binance klines with a minute candle and CoinGecko OHLC with a 4h candle, both spanning `at`
+ */
+function candleFetch(at: number, candles: { binance: CandleFixture; coingecko: CandleFixture }): HttpFetch {
+  return async (url) => {
+    const source = url.includes('coingecko') ? 'coingecko' : 'binance';
+    const candle = candles[source];
+    if (candle === 'down') throw new Error(`${source} unreachable`);
+    if (candle === 'error') return new Response('Internal Server Error', { status: 500 });
+
+    const { low, high, close } = candle;
+    const body = source === 'binance'
+      ? [[(at - 30) * 1000, String(low), String(high), String(low), String(close), '12.5', (at + 29) * 1000]]
+      : [[(at + 3600) * 1000, low, high, low, close]];
+    return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+  };
+}
+
+const summary = (consensus: Awaited<ReturnType<typeof getCryptoPriceConsensus>>) => consensus && {
+  price: consensus.price,
+  confidence: Number(consensus.confidence.toFixed(3)),
+  accepted: consensus.accepted,
+  rejected: consensus.rejected,
+};
+
+async function main() {
+  process.env.COINMARKETCAP_API_KEY = 'fixture';
+  // The sources log their failures; the assertions below are what matters
+  console.warn = () => {};
+
+  const agreed = await getCryptoPriceConsensus('btc', { fetchImpl: fixtureFetch({ coingecko: 100_000, coinmarketcap: 100_400, binance: 100_200 }) });
+  check('all sources agree on the median', summary(agreed), {
+    price: 100_200, confidence: 1, accepted: ['coingecko', 'coinmarketcap', 'binance'], rejected: [],
+  });
+  check('symbol and source timestamp', [agreed?.symbol, agreed?.timestamp! >= UPDATED], ['BTC', true]);
+  check('raw responses kept for audit', agreed?.responses.map(r => [r.source, r.price, r.error ?? null]), [
+    ['coingecko', 100_000, null], ['coinmarketcap', 100_400, null], ['binance', 100_200, null],
+  ]);
+
+  // One source far off the others is an outlier: dropped from the price and the confidence
+  const outlier = await getCryptoPriceConsensus('BTC', { fetchImpl: fixtureFetch({ coingecko: 100_000, coinmarketcap: 100_300, binance: 130_000 }) });
+  check('outlier rejected', summary(outlier), {
+    price: 100_150, confidence: 0.667, accepted: ['coingecko', 'coinmarketcap'], rejected: ['binance'],
+  });
+  check('a wider deviation accepts it', summary(await getCryptoPriceConsensus('BTC', {
+    maxDeviation: 0.5, fetchImpl: fixtureFetch({ coingecko: 100_000, coinmarketcap: 100_300, binance: 130_000 }),
+  }))?.accepted, ['coingecko', 'coinmarketcap', 'binance']);
+
+  // Two sources that disagree have no majority: a price is still reported, with zero agreement
+  const disagreement = await getCryptoPriceConsensus('BTC', {
+    sources: ['coingecko', 'binance'],
+    fetchImpl: fixtureFetch({ coingecko: 100_000, coinmarketcap: 0, binance: 120_000 }),
+  });
+  check('disagreement has no confidence', summary(disagreement), {
+    price: 110_000, confidence: 0, accepted: [], rejected: ['coingecko', 'binance'],
+  });
+
+  // A failing source counts against the confidence but not the price
+  const failing = await getCryptoPriceConsensus('BTC', { fetchImpl: fixtureFetch({ coingecko: 100_000, coinmarketcap: 'error', binance: 100_100 }) });
+  check('failing source', summary(failing), {
+    price: 100_050, confidence: 0.667, accepted: ['coingecko', 'binance'], rejected: ['coinmarketcap'],
+  });
+  check('failure recorded in the responses', failing?.responses.find(r => r.source === 'coinmarketcap')?.error, 'No price returned');
+
+  check('nothing to agree on', await getCryptoPriceConsensus('BTC', {
+    fetchImpl: fixtureFetch({ coingecko: 'down', coinmarketcap: 'error', binance: 'down' }),
+  }), null);
+
+  // Without a CoinMarketCap key only the public sources are asked
+  delete process.env.COINMARKETCAP_API_KEY;
+  const keyless = await getCryptoPriceConsensus('BTC', { fetchImpl: fixtureFetch({ coingecko: 100_000, coinmarketcap: 1, binance: 100_100 }) });
+  check('unconfigured sources are skipped', [keyless?.responses.map(r => r.source), keyless?.confidence], [['coingecko', 'binance'], 1]);
+
+  // Historical candles: Binance sets the price, CoinGecko's coarser candle has to contain it
+  const at = Math.floor(Date.now() / 1000) - 2 * 86400;
+  const candle = async (candles: { binance: CandleFixture; coingecko: CandleFixture }) => {
+    const result = await getHistoricalPriceCandle('BTC', at, { fetchImpl: candleFetch(at, candles) });
+    return result && {
+      source: result.candle.source,
+      close: result.candle.close,
+      confidence: Number(result.confidence.toFixed(3)),
+      crossChecks: result.crossChecks.map(c => [c.source, c.agrees, c.error ?? null]),
+    };
+  };
+
+  check('candle confirmed by the second source', await candle({
+    binance: { low: 99_800, high: 100_100, close: 100_000 },
+    coingecko: { low: 98_000, high: 101_000, close: 99_000 },
+  }), { source: 'binance', close: 100_000, confidence: 0.95, crossChecks: [['coingecko', true, null]] });
+
+  check('candle outside the second source\'s range', await candle({
+    binance: { low: 99_800, high: 100_100, close: 100_000 },
+    coingecko: { low: 120_000, high: 125_000, close: 123_000 },
+  }), { source: 'binance', close: 100_000, confidence: 0.475, crossChecks: [['coingecko', false, null]] });
+
+  check('unconfirmed when the second source has no candle', await candle({
+    binance: { low: 99_800, high: 100_100, close: 100_000 },
+    coingecko: 'error',
+  }), { source: 'binance', close: 100_000, confidence: 0.475, crossChecks: [['coingecko', false, 'No candle near the timestamp']] });
+
+  check('second source stands in when the first fails, unconfirmed', await candle({
+    binance: 'down',
+    coingecko: { low: 98_000, high: 101_000, close: 99_000 },
+  }), { source: 'coingecko', close: 99_000, confidence: 0.45, crossChecks: [['binance', false, 'binance unreachable']] });
+
+  check('no candles at all', await candle({ binance: 'error', coingecko: 'down' }), null);
+
+  finish('price consensus');
+}
+
+main().catch(error => {
+  console.error('❌ Price consensus checks crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,190 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Resolution criteria: parsing with actionable errors, the canonical hash and the commitment in the
+ * description, validation against the prediction, inference from draft fields, criteria following
+ * draft edits, and the service finding (and binding) committed criteria
+ * No network or database needed
+ *
+ * npm run test:resolution-criteria
+ */
+
+import { createDraft, editDraft } from '../../lib/bot-agent/draft';
+import { DRAFT_CATEGORIES, type PredictionDraftFields } from '../../lib/prediction-draft';
+import {
+  ResolutionCriteriaService,
+  commitCriteria,
+  compareCriteriaValue,
+  createInMemoryResolutionCriteriaStore,
+  describeResolutionCriteria,
+  findCriteriaCommitment,
+  hashResolutionCriteria,
+  inferResolutionCriteria,
+  parseResolutionCriteria,
+  validateResolutionCriteria,
+  type FitnessResolutionCriteria,
+  type PriceResolutionCriteria,
+} from '../../lib/resolution-criteria';
+import { check, finish } from './check';
+
+function parseError(input: unknown): string | null {
+  try {
+    parseResolutionCriteria(input);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+const DEADLINE = Date.UTC(2030, 0, 31, 23, 59, 59) / 1000;
+const ADDRESS = '0x2222222222222222222222222222222222222222';
+
+const PUSHUPS: FitnessResolutionCriteria = {
+  version: 1,
+  source: 'fitness',
+  subject: { type: 'creator' },
+  exercise: 'pushups',
+  comparator: 'gte',
+  value: 100,
+  window: { start: null, end: DEADLINE },
+};
+
+const BTC: PriceResolutionCriteria = {
+  version: 1,
+  source: 'price',
+  symbol: 'BTC',
+  comparator: 'gte',
+  value: 150000,
+  at: DEADLINE,
+};
+
+function fields(overrides: Partial<PredictionDraftFields>): PredictionDraftFields {
+  return {
+    title: 'Prediction',
+    description: 'A prediction about something',
+    targetDate: DEADLINE,
+    targetValue: 0,
+    category: DRAFT_CATEGORIES.custom,
+    chain: 'base',
+    emoji: '🔮',
+    ...overrides,
+  };
+}
+
+async function main() {
+  // Parsing
+  check('fitness from loose input', parseResolutionCriteria({
+    source: 'fitness',
+    subject: ADDRESS.toUpperCase().replace('0X', '0x'),
+    exercise: 'PUSHUPS',
+    value: '100',
+    window: { end: '2030-01-31T23:59:59Z' },
+  }), { ...PUSHUPS, subject: { type: 'address', address: ADDRESS } });
+  check('price with a millisecond time', parseResolutionCriteria({ source: 'price', symbol: 'btc', value: '$150,000', at: DEADLINE * 1000 }), BTC);
+  check('fid subject', parseResolutionCriteria({ ...PUSHUPS, subject: 'fid:3' }), { ...PUSHUPS, subject: { type: 'fid', fid: 3 } });
+  check('errors say what to fix', [
+    parseError({ source: 'weather' }),
+    parseError({ ...BTC, symbol: 'DOGE' }),
+    parseError({ ...PUSHUPS, comparator: 'eq' }),
+    parseError({ ...PUSHUPS, exercise: 'custom' })?.startsWith('exercise must be one of:'),
+    parseError({ ...PUSHUPS, subject: 'dwr.eth' })?.startsWith('subject must be'),
+  ], [
+    'source must be "fitness" or "price"',
+    'symbol must be one of: BTC, ETH, CELO, MATIC',
+    'comparator must be one of: gte, gt, lte, lt',
+    true,
+    true,
+  ]);
+
+  // Hash and commitment
+  const reordered = JSON.parse(JSON.stringify({ at: BTC.at, value: BTC.value, comparator: 'gte', symbol: 'BTC', source: 'price', version: 1 }));
+  check('hash ignores key order', hashResolutionCriteria(reordered), hashResolutionCriteria(BTC));
+  check('hash changes with the value', hashResolutionCriteria({ ...BTC, value: 150001 }) === hashResolutionCriteria(BTC), false);
+  const hash = hashResolutionCriteria(PUSHUPS);
+  const committed = commitCriteria('I will do 100 push-ups  ', hash);
+  check('commitment round trip', [committed.endsWith(`\n\nResolution criteria: ${hash}`), findCriteriaCommitment(committed)], [true, hash]);
+  check('no commitment', findCriteriaCommitment('I will do 100 push-ups'), null);
+
+  // Comparison and description
+  check('comparators', [
+    compareCriteriaValue(100, 'gte', 100),
+    compareCriteriaValue(100, 'gt', 100),
+    compareCriteriaValue(100, 'lte', 100),
+    compareCriteriaValue(100, 'lt', 100),
+  ], [true, false, true, false]);
+  check('described for people', describeResolutionCriteria(BTC), 'BTC price ≥ $150,000 at 2030-01-31 23:59 UTC');
+
+  // Validation
+  check('valid criteria', validateResolutionCriteria(PUSHUPS, { targetDate: DEADLINE, targetValue: 100 }), { errors: [], warnings: [] });
+  check('window past the target date', validateResolutionCriteria(PUSHUPS, { targetDate: DEADLINE - 86400 }).errors,
+    ['Resolution criteria window must end by the target date']);
+  check('untracked exercise and empty window', validateResolutionCriteria(
+    { ...PUSHUPS, exercise: 'pullups', window: { start: DEADLINE, end: DEADLINE } },
+    { targetDate: DEADLINE }
+  ).errors, [
+    "Resolution criteria can't use Pull-ups: they aren't tracked automatically",
+    'Resolution criteria window must start before it ends',
+  ]);
+  check('target mismatch is a warning', validateResolutionCriteria(BTC, { targetDate: DEADLINE, targetValue: 100000 }),
+    { errors: [], warnings: ['Resolution criteria check $150,000, not the target value of 100,000'] });
+
+  // Inference
+  check('fitness inferred for the creator', inferResolutionCriteria(fields({
+    title: 'My push-up challenge',
+    description: 'I will do 100 push-ups this month',
+    category: DRAFT_CATEGORIES.fitness,
+    targetValue: 100,
+  })), PUSHUPS);
+  check('price inferred, falling', inferResolutionCriteria(fields({
+    title: 'ETH dips',
+    description: 'Ethereum drops below $2,000',
+    category: DRAFT_CATEGORIES.chain,
+    targetValue: 2000,
+  })), { version: 1, source: 'price', symbol: 'ETH', comparator: 'lt', value: 2000, at: DEADLINE });
+  check('a basename is not a token', inferResolutionCriteria(fields({
+    title: 'dwr.eth hits 1000 followers',
+    description: 'dwr.eth reaches 1000 followers',
+    category: DRAFT_CATEGORIES.chain,
+    targetValue: 1000,
+  })), null);
+  check('nothing checkable without a deadline', inferResolutionCriteria(fields({ description: 'Bitcoin above $150k', category: DRAFT_CATEGORIES.chain, targetValue: 150000, targetDate: null })), null);
+
+  // Criteria follow draft edits
+  let draft = createDraft(fields({
+    title: 'Bitcoin to 150k',
+    description: 'Bitcoin closes above $150,000',
+    category: DRAFT_CATEGORIES.chain,
+    targetValue: 150000,
+  }), {}, 0);
+  check('draft infers criteria', [draft.fields.resolution, draft.provenance.resolution], [BTC, 'inferred']);
+  draft = editDraft(draft, 'targetValue', 175000, 'user', 1);
+  draft = editDraft(draft, 'targetDate', DEADLINE - 86400, 'user', 2);
+  check('value and deadline carried over', draft.fields.resolution, { ...BTC, value: 175000, at: DEADLINE - 86400 });
+  draft = editDraft(draft, 'category', DRAFT_CATEGORIES.custom, 'user', 3);
+  check('a custom prediction resolves manually', [draft.fields.resolution, draft.provenance.resolution], [undefined, undefined]);
+
+  // Service
+  const store = createInMemoryResolutionCriteriaStore();
+  const service = new ResolutionCriteriaService(store, () => 1000);
+  const registered = await service.register({ ...PUSHUPS, value: '100' });
+  check('register returns the hash', registered, hash);
+  check('no commitment is legacy', await service.forPrediction({ id: 1, chain: 'base', description: 'I will do 100 push-ups' }), { status: 'none' });
+  check('committed criteria found', await service.forPrediction({ id: 1, chain: 'base', description: committed }),
+    { status: 'found', hash, criteria: PUSHUPS });
+  check('bound to the prediction', (await store.findByPrediction('base', 1))?.hash, hash);
+  check('bound per chain', await store.findByPrediction('celo', 1), null);
+
+  const unknown = hashResolutionCriteria(BTC);
+  check('never stored', await service.forPrediction({ id: 2, chain: 'base', description: commitCriteria('BTC', unknown) }),
+    { status: 'missing', hash: unknown });
+
+  // A row whose criteria don't hash to its key resolves nothing
+  await store.save({ hash: unknown, criteria: { ...BTC, value: 1 }, createdAt: 0 });
+  check('tampered row is missing', await service.forPrediction({ id: 2, chain: 'base', description: commitCriteria('BTC', unknown) }),
+    { status: 'missing', hash: unknown });
+  check('tampered row not bound', await store.findByPrediction('base', 2), null);
+
+  finish('resolution criteria');
+}
+
+main();
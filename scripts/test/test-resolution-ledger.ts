@@ -0,0 +1,90 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Resolution ledger: queue states, backoff and history kept per prediction and chain, and due
+ * retries resolving each entry on the chain it was queued for, including the same ID on two chains
+ * No network or database needed: runs on the in-memory ledger store
+ *
+ * npm run test:resolution-ledger
+ */
+
+import {
+  MAX_RESOLUTION_ATTEMPTS,
+  createInMemoryResolutionLedgerStore,
+  enqueueResolution,
+  getDueResolutions,
+  getLedgerSummary,
+  getResolutionHistory,
+  getRetryDelayMs,
+  isResolutionDue,
+  recordResolutionAttempt,
+  setResolutionLedgerStore,
+  type RecordAttemptParams,
+} from '../../lib/services/resolution-ledger';
+import { processDueResolutions, type ResolutionResult } from '../../lib/services/prediction-resolution-service';
+import type { SupportedChain } from '../../lib/services/dual-chain-service';
+import { check, finish } from './check';
+
+const failed = (predictionId: number, chain: SupportedChain, error: string): RecordAttemptParams => ({
+  predictionId, chain, resolutionType: 'fitness', success: false, outcome: 'UNRESOLVED', confidence: 0, sources: ['fitness_onchain'], error,
+});
+
+async function main() {
+  let clock = Date.parse('2030-01-01T00:00:00Z');
+  setResolutionLedgerStore(createInMemoryResolutionLedgerStore(() => clock));
+
+  // Prediction 7 exists on both chains: two separate markets
+  await enqueueResolution({ predictionId: 7, chain: 'celo', title: 'Alice does 500 push-ups', resolutionType: 'fitness' });
+  await enqueueResolution({ predictionId: 7, chain: 'base', title: 'BTC above 100k', resolutionType: 'crypto_price' });
+  await enqueueResolution({ predictionId: 7, chain: 'base', title: 'Duplicate', resolutionType: 'crypto_price' });
+  check('one queue entry per chain', (await getDueResolutions()).map(e => [e.predictionId, e.chain, e.title]), [
+    [7, 'celo', 'Alice does 500 push-ups'],
+    [7, 'base', 'BTC above 100k'],
+  ]);
+
+  // A failure on base backs off only the base entry
+  const backedOff = await recordResolutionAttempt(failed(7, 'base', 'no_price_data'));
+  check('failure backs off', [backedOff.status, backedOff.attempts, Date.parse(backedOff.nextAttemptAt) - clock], ['pending', 1, getRetryDelayMs(1)]);
+  check('the other chain is still due', [await isResolutionDue(7, 'celo'), await isResolutionDue(7, 'base')], [true, false]);
+  check('history per chain', [(await getResolutionHistory(7, 'base')).length, (await getResolutionHistory(7, 'celo')).length], [1, 0]);
+
+  // Due retries are resolved on their own chain
+  const resolved: string[] = [];
+  const resolve = async (predictionId: number, chain: SupportedChain): Promise<ResolutionResult> => {
+    resolved.push(`${chain}:${predictionId}`);
+    await recordResolutionAttempt({
+      predictionId, chain, resolutionType: 'fitness', success: chain === 'celo', outcome: 'YES', confidence: 0.9, sources: ['fitness_onchain'],
+    });
+    return { success: chain === 'celo', predictionId, outcome: 'YES', confidence: 0.9, source: 'fitness_onchain', chain };
+  };
+
+  await processDueResolutions(10, resolve);
+  check('only the due entry ran', resolved, ['celo:7']);
+
+  clock += getRetryDelayMs(1);
+  await processDueResolutions(10, resolve);
+  check('base retried on base after its backoff', resolved, ['celo:7', 'base:7']);
+
+  const summary = await getLedgerSummary();
+  check('celo resolved, base still pending', [summary.counts.resolved, summary.counts.pending], [1, 1]);
+  check('attempts recorded on their chain', (await getResolutionHistory(7)).map(a => [a.chain, a.attemptNumber]), [
+    ['base', 1], ['celo', 1], ['base', 2],
+  ]);
+
+  // Give up after the last attempt; manual predictions park straight away
+  for (let i = 3; i <= MAX_RESOLUTION_ATTEMPTS; i++) {
+    await recordResolutionAttempt(failed(7, 'base', 'no_price_data'));
+  }
+  check('failed after the last attempt', (await getLedgerSummary()).counts.failed, 1);
+
+  const manual = await recordResolutionAttempt({ ...failed(8, 'celo', 'Manual resolution required'), resolutionType: 'manual' });
+  check('manual predictions wait for a human', [manual.status, await isResolutionDue(8, 'celo')], ['manual', false]);
+
+  setResolutionLedgerStore(null);
+  finish('resolution ledger');
+}
+
+main().catch(error => {
+  console.error('❌ Resolution ledger checks crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,138 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Sports Central aggregation: schema validation, per-source caching, staleness and the on-chain adapter
+ * No network needed: every source is a local mock adapter
+ *
+ * npm run test:sports-central
+ */
+
+import {
+  OnChainLeaderboardAdapter,
+  SportsCentralService,
+  parseSourceResponse,
+  type SourceSnapshot,
+  type SportsApp,
+  type SportsSourceAdapter,
+} from '../../lib/sports-central';
+import { check, finish } from './check';
+
+/**
+ * Adapter returning a fixed snapshot (or failing) and counting its fetches
+ */
+function mockAdapter(id: SportsApp, snapshot: SourceSnapshot) {
+  const adapter = {
+    id,
+    kind: 'http' as const,
+    calls: 0,
+    failWith: null as string | null,
+    async fetchGlobal() {
+      adapter.calls++;
+      await new Promise(resolve => setTimeout(resolve, 5));
+      if (adapter.failWith) throw new Error(adapter.failWith);
+      return snapshot;
+    },
+    async fetchUser(address: string) {
+      adapter.calls++;
+      return { totals: {}, users: snapshot.users.filter(u => u === address) };
+    },
+  };
+  return adapter satisfies SportsSourceAdapter;
+}
+
+async function main() {
+  // Schema validation
+  const coach = parseSourceResponse('imperfectcoach', {
+    totals: { 'pull-ups': 600, jumps: 1200, pushups: 99 },
+    users: ['0xABC', '0xabc'],
+    updatedAt: 1_700_000_000,
+  });
+  check('payload keeps only the app\'s exercises', coach.totals, { pullups: 600, jumps: 1200 });
+  check('users are lowercased and deduplicated', coach.users, ['0xabc']);
+  check('epoch updatedAt', coach.sourceUpdatedAt, '2023-11-14T22:13:20.000Z');
+
+  let invalid = '';
+  try {
+    parseSourceResponse('imperfectabs', { totals: { situps: -5 } });
+  } catch (error) {
+    invalid = (error as Error).message;
+  }
+  check('invalid payload is rejected', invalid, 'Invalid ImperfectAbs response (totals.situps: Number must be greater than or equal to 0)');
+
+  // Aggregation, caching and staleness
+  let now = Date.parse('2025-03-01T12:00:00Z');
+  const form = mockAdapter('imperfectform', { totals: { pushups: 1500, squats: 800 }, users: ['0x1', '0x2'] });
+  const coachAdapter = mockAdapter('imperfectcoach', { totals: { pullups: 600, jumps: 1200 }, users: ['0x3'] });
+  const service = new SportsCentralService(
+    { imperfectform: form, imperfectcoach: coachAdapter },
+    { cacheSeconds: 60, maxStaleSeconds: 600 },
+    () => now
+  );
+
+  const [global] = await Promise.all([service.getGlobal(), service.getGlobal()]);
+  check('concurrent requests share one fetch', form.calls, 1);
+  check('per-app totals', [global.imperfectform.pushups, global.imperfectcoach.jumps, global.imperfectabs.situps], [1500, 1200, 0]);
+  check('global totals', [global.totals.totalExercises, global.totals.effortPoints], [4100, 4300]);
+  check('source status', Object.values(global.sources).map(s => s.status), ['fresh', 'fresh', 'unavailable']);
+  check('unconfigured source says so', global.sources.imperfectabs.error, 'Source not configured');
+
+  now += 30_000;
+  await service.getGlobal();
+  check('cached inside the window', form.calls, 1);
+
+  now += 60_000;
+  form.failWith = 'RPC down';
+  const stale = await service.getGlobal();
+  check('failed refresh serves the last snapshot', [stale.imperfectform.pushups, stale.sources.imperfectform.status, stale.sources.imperfectform.ageSeconds], [1500, 'stale', 90]);
+  check('stale source carries the error', stale.sources.imperfectform.error, 'RPC down');
+  check('other sources are unaffected', stale.sources.imperfectcoach.status, 'fresh');
+
+  now += 600_000;
+  const gone = await service.getGlobal();
+  check('too old to serve', [gone.imperfectform.pushups, gone.sources.imperfectform.status], [0, 'unavailable']);
+
+  form.failWith = null;
+  const user = await service.getUser('0x2');
+  check('per-user data', [user.user, user.imperfectform.users, user.imperfectcoach.users], ['0x2', ['0x2'], []]);
+
+  // On-chain adapter
+  const leaderboard = {
+    base: [
+      { user: '0xAAA', pushups: 10, squats: 5, timestamp: 1 },
+      { user: '0xBBB', pushups: 0, squats: 0, timestamp: 1 },
+    ],
+    celo: [{ user: '0xaaa', pushups: 3, squats: 0, timestamp: 2 }],
+  };
+  const onchain = new OnChainLeaderboardAdapter('imperfectform', async () => leaderboard);
+  check('on-chain global', await onchain.fetchGlobal(), { totals: { pushups: 13, squats: 5 }, users: ['0xaaa'] });
+  check('on-chain user across networks', (await onchain.fetchUser('0xAaA')).totals, { pushups: 13, squats: 5 });
+
+  // Per-user lookups filter one cached leaderboard read instead of reading it again per address
+  let leaderboardReads = 0;
+  let clock = 0;
+  const cached = new OnChainLeaderboardAdapter('imperfectform', async () => {
+    leaderboardReads++;
+    return leaderboard;
+  }, 60_000, () => clock);
+  await Promise.all([cached.fetchUser('0xaaa'), cached.fetchUser('0xbbb'), cached.fetchGlobal()]);
+  await cached.fetchUser('0xccc');
+  check('one leaderboard read for many users', leaderboardReads, 1);
+  clock += 60_000;
+  await cached.fetchUser('0xddd');
+  check('read again once the cache expires', leaderboardReads, 2);
+
+  let empty = '';
+  try {
+    await new OnChainLeaderboardAdapter('imperfectform', async () => ({ base: [], celo: [] })).fetchGlobal();
+  } catch (error) {
+    empty = (error as Error).message;
+  }
+  check('every network empty is an outage, not zero', empty, 'No leaderboard data from any network');
+
+  finish('sports central');
+}
+
+main().catch(error => {
+  console.error('❌ Sports central checks crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,136 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Timezone-aware streak day checks, including DST transitions, and streak freezes
+ * No database needed: exercises the pure calendar helpers the streak service uses
+ *
+ * npm run test:streak-days
+ */
+
+import { getLocalDateString, shiftDateString } from '../../lib/services/timezone-service';
+import { advanceStreak, calculateStreak, recomputeActivityDates } from '../../lib/streaks-service-pg';
+import { check, finish } from './check';
+
+function localDays(instants: string[], timezone: string): string[] {
+  return instants.map(instant => getLocalDateString(new Date(instant), timezone));
+}
+
+console.log('🧪 Local calendar days');
+
+// 9pm in California is already the next day in UTC
+check('9pm PST counts as the local day', getLocalDateString(new Date('2024-01-16T05:00:00Z'), 'America/Los_Angeles'), '2024-01-15');
+check('same instant is the next day in UTC', getLocalDateString(new Date('2024-01-16T05:00:00Z'), 'UTC'), '2024-01-16');
+check('east of UTC rolls over early', getLocalDateString(new Date('2024-01-15T16:30:00Z'), 'Asia/Tokyo'), '2024-01-16');
+
+console.log('\n🧪 DST transitions');
+
+// US spring forward 2024-03-10 (23-hour day): 9pm workouts on consecutive evenings
+const springForward = localDays([
+  '2024-03-09T05:00:00Z', // Mar 8, 9pm PST
+  '2024-03-10T05:00:00Z', // Mar 9, 9pm PST
+  '2024-03-11T04:00:00Z', // Mar 10, 9pm PDT
+  '2024-03-12T04:00:00Z', // Mar 11, 9pm PDT
+], 'America/Los_Angeles');
+check('spring forward keeps one day per evening', springForward, ['2024-03-08', '2024-03-09', '2024-03-10', '2024-03-11']);
+check('spring forward does not break the streak', calculateStreak(springForward).currentStreak, 4);
+
+// Just before and after the 2am jump on the short day
+check('01:59 PST on the short day', getLocalDateString(new Date('2024-03-10T09:59:00Z'), 'America/Los_Angeles'), '2024-03-10');
+check('03:00 PDT on the short day', getLocalDateString(new Date('2024-03-10T10:00:00Z'), 'America/Los_Angeles'), '2024-03-10');
+check('23:59 PDT on the short day', getLocalDateString(new Date('2024-03-11T06:59:00Z'), 'America/Los_Angeles'), '2024-03-10');
+
+// US fall back 2024-11-03 (25-hour day): 01:30 happens twice but is one day
+const fallBack = localDays([
+  '2024-11-03T08:30:00Z', // 01:30 PDT
+  '2024-11-03T09:30:00Z', // 01:30 PST
+], 'America/Los_Angeles');
+check('repeated hour on fall back is a single day', Array.from(new Set(fallBack)), ['2024-11-03']);
+check('23:30 PST on the long day', getLocalDateString(new Date('2024-11-04T07:30:00Z'), 'America/Los_Angeles'), '2024-11-03');
+check(
+  'fall back does not double count',
+  calculateStreak([...localDays(['2024-11-03T04:00:00Z'], 'America/Los_Angeles'), ...fallBack]), // Nov 2, 9pm PDT
+  { currentStreak: 2, longestStreak: 2, lastActivityDate: '2024-11-03' }
+);
+
+// Europe and the southern hemisphere
+check('London spring forward midnight', getLocalDateString(new Date('2024-03-31T00:30:00Z'), 'Europe/London'), '2024-03-31');
+check('London BST late evening', getLocalDateString(new Date('2024-10-26T23:30:00Z'), 'Europe/London'), '2024-10-27');
+check('Sydney DST ends (25-hour day)', localDays([
+  '2024-04-06T13:30:00Z', // Apr 7, 00:30 AEDT
+  '2024-04-07T13:30:00Z', // Apr 7, 23:30 AEST
+], 'Australia/Sydney'), ['2024-04-07', '2024-04-07']);
+
+console.log('\n🧪 Calendar math');
+
+check('shift across month end', shiftDateString('2024-02-28', 1), '2024-02-29');
+check('shift across leap day', shiftDateString('2024-03-01', -1), '2024-02-29');
+check('shift across DST weekend', shiftDateString('2024-03-10', 1), '2024-03-11');
+
+console.log('\n🧪 Streak calculation');
+
+check('gap resets current but not longest', calculateStreak(['2024-05-01', '2024-05-02', '2024-05-03', '2024-05-05']), {
+  currentStreak: 1,
+  longestStreak: 3,
+  lastActivityDate: '2024-05-05'
+});
+check('unsorted and duplicate days', calculateStreak(['2024-05-03', '2024-05-01', '2024-05-02', '2024-05-02']).currentStreak, 3);
+check('no activity', calculateStreak([]), { currentStreak: 0, longestStreak: 0, lastActivityDate: '' });
+
+console.log('\n🧪 Recomputing stored UTC days');
+
+// A 9pm workout and a noon workout the next day share one UTC day...
+const instants = ['2024-03-09T05:00:00Z', '2024-03-09T20:00:00Z'];
+const utcDays = Array.from(new Set(localDays(instants, 'UTC')));
+check('UTC merges two local days', utcDays, ['2024-03-09']);
+
+// ...and become two consecutive local days once re-dated in the user's zone
+const recomputed = recomputeActivityDates({
+  activityDates: [...utcDays, '2024-03-05'], // 2024-03-05 has no known instant and is kept
+  instants,
+  fromTimeZone: 'UTC',
+  toTimeZone: 'America/Los_Angeles'
+});
+check('recomputed local days', recomputed, ['2024-03-05', '2024-03-08', '2024-03-09']);
+check('recomputed streak', calculateStreak(recomputed).currentStreak, 2);
+check('legacy days without instants stay on the UTC calendar', recomputeActivityDates({
+  activityDates: ['2024-03-05', '2024-03-09'],
+  instants: [],
+  fromTimeZone: 'UTC',
+  toTimeZone: 'America/Los_Angeles'
+}), ['2024-03-05', '2024-03-09']);
+check('recompute is reversible', recomputeActivityDates({
+  activityDates: recomputed,
+  instants,
+  fromTimeZone: 'America/Los_Angeles',
+  toTimeZone: 'UTC'
+}), ['2024-03-05', '2024-03-09']);
+
+console.log('\n🧪 Streak freezes');
+
+const base = { currentStreak: 10, longestStreak: 10, lastActivityDate: '2024-06-10', freezeBalance: 1, freezeHistory: [] };
+
+check('next day continues without a freeze', advanceStreak(base, '2024-06-11', 2).freezeBalance, 1);
+
+const bridged = advanceStreak(base, '2024-06-12', 2);
+check('one missed day spends a freeze', [bridged.currentStreak, bridged.freezeBalance], [11, 0]);
+check('used freeze records the missed day', bridged.freezeHistory, [{ type: 'used', date: '2024-06-11', streak: 10 }]);
+
+const noFreeze = advanceStreak({ ...base, freezeBalance: 0 }, '2024-06-12', 2);
+check('one missed day without a freeze resets', [noFreeze.currentStreak, noFreeze.longestStreak], [1, 10]);
+
+const twoMissed = advanceStreak(base, '2024-06-13', 2);
+check('two missed days reset and keep the freeze', [twoMissed.currentStreak, twoMissed.freezeBalance], [1, 1]);
+
+const earned = advanceStreak({ ...base, currentStreak: 13, freezeBalance: 0 }, '2024-06-11', 2);
+check('every 7th day earns a freeze', [earned.currentStreak, earned.freezeBalance, earned.freezeHistory.length], [14, 1, 1]);
+
+const capped = advanceStreak({ ...base, currentStreak: 13, freezeBalance: 2 }, '2024-06-11', 2);
+check('earning stops at the maximum', [capped.freezeBalance, capped.freezeHistory.length], [2, 0]);
+
+const bridgeAndEarn = advanceStreak({ ...base, currentStreak: 6 }, '2024-06-12', 2);
+check('a bridged day can complete a 7-day streak', [bridgeAndEarn.currentStreak, bridgeAndEarn.freezeBalance], [7, 1]);
+
+check('frozen day bridges a recomputed streak', calculateStreak(['2024-06-09', '2024-06-10', '2024-06-12'], ['2024-06-11']).currentStreak, 3);
+check('unfrozen gap still breaks it', calculateStreak(['2024-06-09', '2024-06-10', '2024-06-12']).currentStreak, 1);
+
+finish('streak day');
@@ -0,0 +1,184 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Migration 002 (streak local days): the registry loads without pulling in the services that run
+ * migrations, and the SQL backfill re-dates days and recounts streaks like the streak service does
+ * No database needed for the first part; set TEST_DATABASE_URL to also run the backfill against
+ * Postgres, inside a transaction on a temporary user_streaks table that is rolled back
+ *
+ * npm run test:streak-migration
+ */
+
+import path from 'path';
+import { migrations } from '../../lib/migrations';
+import streakLocalDays from '../../lib/migrations/002_streak_local_days';
+import { check, finish } from './check';
+
+const LIB = path.resolve(__dirname, '../../lib');
+const MIGRATIONS = path.join(LIB, 'migrations');
+
+interface Fixture {
+  user_id: string;
+  timezone: string;
+  activity_dates_timezone: string;
+  activity_dates: string[];
+  activity_timestamps: string[];
+  freeze_history?: Array<{ type: 'used' | 'earned'; date: string; streak: number }>;
+  longest_streak?: number;
+}
+
+const FIXTURES: Fixture[] = [
+  // A 9pm and a noon workout share a UTC day but are two days in California; 03-05 has no instant and stays
+  {
+    user_id: 'la',
+    timezone: 'America/Los_Angeles',
+    activity_dates_timezone: 'UTC',
+    activity_dates: ['2024-03-05', '2024-03-09'],
+    activity_timestamps: ['2024-03-09T05:00:00Z', '2024-03-09T20:00:00Z'],
+  },
+  // A late UTC evening is the next morning in Tokyo; the freeze on 06-10 bridges the gap that leaves
+  {
+    user_id: 'tokyo',
+    timezone: 'Asia/Tokyo',
+    activity_dates_timezone: 'UTC',
+    activity_dates: ['2024-06-09', '2024-06-10', '2024-06-12'],
+    activity_timestamps: ['2024-06-09T10:00:00Z', '2024-06-10T16:00:00Z', '2024-06-12T10:00:00Z'],
+    freeze_history: [{ type: 'used', date: '2024-06-10', streak: 1 }],
+    longest_streak: 9,
+  },
+  // Legacy days with no instants have nothing to re-date them from
+  {
+    user_id: 'legacy',
+    timezone: 'Europe/Berlin',
+    activity_dates_timezone: 'UTC',
+    activity_dates: ['2024-01-01', '2024-01-02'],
+    activity_timestamps: [],
+  },
+  // Already counted in the user's zone
+  {
+    user_id: 'settled',
+    timezone: 'Asia/Tokyo',
+    activity_dates_timezone: 'Asia/Tokyo',
+    activity_dates: ['2024-06-10'],
+    activity_timestamps: ['2024-06-10T16:00:00Z'],
+  },
+];
+
+async function main() {
+  console.log('🧪 Registry');
+
+  const loaded = Object.keys(require.cache).filter(file => file.startsWith(LIB) && !file.startsWith(MIGRATIONS));
+  check('migrations load without service code', loaded, []);
+  check('versions increase one at a time', migrations.map(m => m.version), migrations.map((_, i) => i + 1));
+  check('002 is the streak backfill', [migrations[1].version, migrations[1].name], [2, 'streak_local_days']);
+
+  console.log('\n🧪 Backfill statement');
+
+  const queries: Array<{ text: string; values?: unknown[] }> = [];
+  const fakeClient = {
+    async query(text: string, values?: unknown[]) {
+      queries.push({ text, values });
+      return { rowCount: 0, rows: [] };
+    },
+  };
+  await streakLocalDays.up(fakeClient as never);
+  check('one statement with the activity cap', [queries.length, queries[0]?.values], [1, [100]]);
+  check('only rows with instants in another zone', [
+    queries[0]?.text.includes('timezone IS DISTINCT FROM activity_dates_timezone'),
+    queries[0]?.text.includes('jsonb_array_length(activity_timestamps) > 0'),
+  ], [true, true]);
+
+  const databaseUrl = process.env.TEST_DATABASE_URL;
+  if (!databaseUrl) {
+    console.log('\n⏭️  TEST_DATABASE_URL not set: skipping the backfill against Postgres');
+    finish('streak migration');
+    return;
+  }
+
+  console.log('\n🧪 Backfill against Postgres');
+
+  // Loaded only now so the registry check above sees the migrations on their own
+  const { Client } = await import('pg');
+  const { calculateStreak, recomputeActivityDates } = await import('../../lib/streaks-service-pg');
+
+  const client = new Client({ connectionString: databaseUrl });
+  await client.connect();
+
+  try {
+    await client.query('BEGIN');
+    await client.query(`
+      CREATE TEMP TABLE user_streaks (
+        user_id TEXT PRIMARY KEY,
+        current_streak INTEGER NOT NULL DEFAULT 0,
+        longest_streak INTEGER NOT NULL DEFAULT 0,
+        last_activity_date TEXT,
+        activity_dates JSONB NOT NULL DEFAULT '[]',
+        timezone TEXT NOT NULL DEFAULT 'UTC',
+        activity_timestamps JSONB NOT NULL DEFAULT '[]',
+        activity_dates_timezone TEXT NOT NULL DEFAULT 'UTC',
+        freeze_history JSONB NOT NULL DEFAULT '[]'
+      ) ON COMMIT DROP
+    `);
+
+    for (const row of FIXTURES) {
+      await client.query(`
+        INSERT INTO user_streaks (user_id, timezone, activity_dates_timezone, activity_dates, activity_timestamps, freeze_history, longest_streak)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+      `, [
+        row.user_id, row.timezone, row.activity_dates_timezone, JSON.stringify(row.activity_dates),
+        JSON.stringify(row.activity_timestamps), JSON.stringify(row.freeze_history ?? []), row.longest_streak ?? 0,
+      ]);
+    }
+
+    await streakLocalDays.up(client as never);
+    const { rows } = await client.query('SELECT * FROM user_streaks ORDER BY user_id');
+    const byUser = new Map(rows.map(row => [row.user_id, row]));
+
+    for (const fixture of FIXTURES) {
+      const row = byUser.get(fixture.user_id);
+      const moves = fixture.timezone !== fixture.activity_dates_timezone && fixture.activity_timestamps.length > 0;
+      if (!moves) {
+        check(`${fixture.user_id}: untouched`, [row.activity_dates, row.activity_dates_timezone],
+          [fixture.activity_dates, fixture.activity_dates_timezone]);
+        continue;
+      }
+
+      // What the streak service computes for the same row
+      const activityDates = recomputeActivityDates({
+        activityDates: fixture.activity_dates,
+        instants: fixture.activity_timestamps,
+        fromTimeZone: fixture.activity_dates_timezone,
+        toTimeZone: fixture.timezone,
+      });
+      const streak = calculateStreak(activityDates, (fixture.freeze_history ?? []).filter(e => e.type === 'used').map(e => e.date));
+
+      check(`${fixture.user_id}: matches the streak service`, {
+        activityDates: row.activity_dates,
+        currentStreak: row.current_streak,
+        longestStreak: row.longest_streak,
+        lastActivityDate: row.last_activity_date,
+        timezone: row.activity_dates_timezone,
+      }, {
+        activityDates,
+        currentStreak: streak.currentStreak,
+        longestStreak: Math.max(fixture.longest_streak ?? 0, streak.longestStreak),
+        lastActivityDate: streak.lastActivityDate,
+        timezone: fixture.timezone,
+      });
+    }
+
+    check('la: two local days from one UTC day', byUser.get('la').activity_dates, ['2024-03-05', '2024-03-08', '2024-03-09']);
+    check('tokyo: the freeze bridges the re-dated days', [byUser.get('tokyo').activity_dates, byUser.get('tokyo').current_streak],
+      [['2024-06-09', '2024-06-11', '2024-06-12'], 3]);
+  } finally {
+    await client.query('ROLLBACK');
+    await client.end();
+  }
+
+  finish('streak migration');
+}
+
+main().catch(error => {
+  console.error('❌ Streak migration checks crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,179 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Sweat equity evidence checks: content sniffing, rule checks (peer review for self-reported counts),
+ * signal scoring and LLM reply parsing
+ * No database or network needed: exercises the pure parts of the evidence pipeline
+ *
+ * npm run test:sweat-equity-evidence
+ */
+
+import {
+  computeEvidenceBundleHash,
+  detectContentType,
+  hashEvidenceContent,
+  parseLlmVerdict,
+  runEvidenceChecks,
+  scoreVerification,
+  type EvidenceRecord,
+} from '../../lib/services/sweat-equity-evidence';
+import { check, finish } from './check';
+
+const USER = '0xAbC0000000000000000000000000000000000001';
+const CREATED_AT = 1_720_000_000; // Challenge creation, epoch seconds
+const challenge = { user: USER, targetAmount: 50, createdAt: CREATED_AT, deadline: CREATED_AT + 24 * 60 * 60 };
+
+const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+const jpegHash = hashEvidenceContent(jpeg);
+
+function evidence(overrides: Partial<EvidenceRecord> = {}): EvidenceRecord {
+  return {
+    id: 1,
+    challengeId: 7,
+    method: 'photo',
+    submitter: USER.toLowerCase(),
+    contentHash: jpegHash,
+    mimeType: 'image/jpeg',
+    sizeBytes: jpeg.length,
+    metadata: { exerciseCount: 50 },
+    capturedAt: new Date((CREATED_AT + 3600) * 1000).toISOString(),
+    createdAt: new Date((CREATED_AT + 3700) * 1000).toISOString(),
+    duplicateOf: [],
+    ...overrides,
+  };
+}
+
+const approvedReview = (records: EvidenceRecord[]) => ({
+  status: 'approved' as const,
+  proofHash: computeEvidenceBundleHash(7, records.map(r => r.contentHash)),
+  approveWeight: 3,
+  rejectWeight: 0,
+});
+
+/**
+ * Names of the failed checks; photo proofs get an approved peer review unless one is passed
+ */
+function failedChecks(
+  records: EvidenceRecord[],
+  proofOverrides: Record<string, unknown> = {},
+  now = CREATED_AT + 7200,
+  communityReview: Parameters<typeof runEvidenceChecks>[0]['communityReview'] = approvedReview(records)
+) {
+  const proof = {
+    challengeId: 7,
+    method: 'photo' as const,
+    proofHash: computeEvidenceBundleHash(7, records.map(r => r.contentHash)),
+    metadata: { exerciseCount: 50, duration: 600 },
+    ...proofOverrides,
+  };
+  return runEvidenceChecks({ challenge, proof, evidence: records, communityReview, now })
+    .filter(c => !c.passed)
+    .map(c => c.name);
+}
+
+console.log('🧪 Content sniffing');
+
+check('jpeg magic bytes', detectContentType(jpeg), 'image/jpeg');
+check('png magic bytes', detectContentType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0])), 'image/png');
+check('mp4 ftyp box', detectContentType(Buffer.from('\0\0\0\x18ftypisom', 'binary')), 'video/mp4');
+check('GPX is xml', detectContentType(Buffer.from('<?xml version="1.0"?><gpx>')), 'application/xml');
+check('unknown bytes', detectContentType(Buffer.from('hello')), null);
+
+console.log('\n🧪 Proof hash');
+
+check('bundle hash ignores order',
+  computeEvidenceBundleHash(7, ['b', 'a']),
+  computeEvidenceBundleHash(7, ['a', 'b']));
+check('bundle hash is per challenge',
+  computeEvidenceBundleHash(7, ['a']) === computeEvidenceBundleHash(8, ['a']),
+  false);
+
+console.log('\n🧪 Rule checks');
+
+check('valid evidence passes every check', failedChecks([evidence()]), []);
+check('no evidence', failedChecks([]), ['evidence_present']);
+check('count below target', failedChecks([evidence()], { metadata: { exerciseCount: 49, duration: 600 } }), ['count_meets_target']);
+check('count falls back to evidence metadata', failedChecks([evidence()], { metadata: { duration: 600 } }), []);
+check('captured before the challenge', failedChecks([evidence({ capturedAt: new Date((CREATED_AT - 60) * 1000).toISOString() })]), ['within_window']);
+check('captured after the 24h window', failedChecks([evidence({ capturedAt: new Date((CREATED_AT + 25 * 3600) * 1000).toISOString() })], {}, CREATED_AT + 7200), ['within_window']);
+check('verified after the window closed', failedChecks([evidence()], {}, CREATED_AT + 25 * 3600), ['within_window']);
+check('duplicate evidence from another challenge', failedChecks([evidence({ duplicateOf: [3] })]), ['no_duplicate_evidence']);
+check('uploaded by someone else', failedChecks([evidence({ submitter: '0xdead' })]), ['submitted_by_challenger']);
+check('proof hash mismatch', failedChecks([evidence()], { proofHash: '0x00' }), ['proof_hash_matches', 'community_review']);
+check('method mismatch', failedChecks([evidence({ method: 'video' })]), ['method_consistent']);
+check('impossible pace is soft', failedChecks([evidence()], { metadata: { exerciseCount: 500, duration: 60 } }), ['counts_consistent', 'plausible_pace']);
+check('community needs peer review', failedChecks([evidence({ method: 'community' })], { method: 'community' }, undefined, null), ['community_review']);
+
+// Photo and video reps are self-reported: without peers they can't pass, however many are claimed
+check('photo needs peer review', failedChecks([evidence()], {}, undefined, null), ['community_review']);
+check('video needs peer review', failedChecks([evidence({ method: 'video' })], { method: 'video' }, undefined, null), ['community_review']);
+
+// Wearable proofs count what the device recorded and need no review
+const wearable = (exerciseCount?: number) => evidence({
+  method: 'wearable', mimeType: 'application/gpx+xml', metadata: { exerciseCount, duration: 900, plausible: true },
+});
+check('wearable counts need no review', failedChecks([wearable(60)], { method: 'wearable' }, undefined, null), []);
+check('wearable proofs ignore a claimed count', failedChecks([wearable(20)], { method: 'wearable', metadata: { exerciseCount: 500, duration: 900 } }, undefined, null),
+  ['count_meets_target', 'counts_consistent']);
+check('a wearable file without reps proves none', failedChecks([wearable()], { method: 'wearable', metadata: { exerciseCount: 50, duration: 900 } }, undefined, null),
+  ['count_meets_target']);
+
+const communityEvidence = [evidence({ method: 'community' })];
+const communityProof = {
+  challengeId: 7,
+  method: 'community' as const,
+  proofHash: computeEvidenceBundleHash(7, [jpegHash]),
+  metadata: { exerciseCount: 50, duration: 600 },
+};
+const reviewFailures = (review: Parameters<typeof runEvidenceChecks>[0]['communityReview']) =>
+  runEvidenceChecks({ challenge, proof: communityProof, evidence: communityEvidence, communityReview: review, now: CREATED_AT + 7200 })
+    .filter(c => !c.passed)
+    .map(c => c.name);
+
+check('approved peer review passes',
+  reviewFailures({ status: 'approved', proofHash: communityProof.proofHash, approveWeight: 3, rejectWeight: 0 }), []);
+check('pending peer review does not',
+  reviewFailures({ status: 'pending', proofHash: communityProof.proofHash, approveWeight: 1, rejectWeight: 0 }), ['community_review']);
+check('review of a different evidence bundle does not',
+  reviewFailures({ status: 'approved', proofHash: '0xabc', approveWeight: 3, rejectWeight: 0 }), ['community_review']);
+
+console.log('\n🧪 Scoring');
+
+const passing = runEvidenceChecks({
+  challenge,
+  proof: { challengeId: 7, method: 'photo', proofHash: computeEvidenceBundleHash(7, [jpegHash]), metadata: { exerciseCount: 50, duration: 600 } },
+  evidence: [evidence()],
+  communityReview: approvedReview([evidence()]),
+  now: CREATED_AT + 7200,
+});
+const unreviewed = runEvidenceChecks({
+  challenge,
+  proof: { challengeId: 7, method: 'photo', proofHash: computeEvidenceBundleHash(7, [jpegHash]), metadata: { exerciseCount: 50, duration: 600 } },
+  evidence: [evidence()],
+  now: CREATED_AT + 7200,
+});
+
+check('rules alone approve clean reviewed evidence', scoreVerification(passing).approved, true);
+check('self-reported photo is not approved on a perfect score', [scoreVerification(unreviewed).score, scoreVerification(unreviewed).approved], [1, false]);
+check('nor with the LLM agreeing',
+  scoreVerification(unreviewed, { verdict: 'APPROVE', confidence: 1, reasoning: 'Looks right' }).approved, false);
+check('confident LLM rejection blocks approval',
+  scoreVerification(passing, { verdict: 'REJECT', confidence: 0.9, reasoning: 'Inconsistent' }).approved, false);
+check('LLM approval keeps a high score',
+  Math.round(scoreVerification(passing, { verdict: 'APPROVE', confidence: 0.8, reasoning: 'OK' }).score * 100), 92);
+check('a failed hard check vetoes a perfect score',
+  scoreVerification([...passing, { name: 'within_window', passed: false, hard: true, detail: '' }],
+    { verdict: 'APPROVE', confidence: 1, reasoning: '' }).approved, false);
+
+check('split community vote lowers the score',
+  scoreVerification(passing, undefined, { status: 'approved', proofHash: '0x', approveWeight: 2, rejectWeight: 1 }).score.toFixed(3), '0.833');
+
+console.log('\n🧪 LLM reply parsing');
+
+check('structured verdict', parseLlmVerdict('{"verdict":"approve","confidence":0.7,"reasoning":"ok"}'),
+  { verdict: 'APPROVE', confidence: 0.7, reasoning: 'ok' });
+check('fenced json', parseLlmVerdict('```json\n{"verdict":"REJECT","confidence":2,"reasoning":"x"}\n```')?.confidence, 1);
+check('prose mentioning approve is not a verdict', parseLlmVerdict('I cannot approve or reject this'), undefined);
+check('missing confidence', parseLlmVerdict('{"verdict":"APPROVE"}'), undefined);
+
+finish('evidence');
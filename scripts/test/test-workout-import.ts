@@ -0,0 +1,245 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Wearable workout import: GPX, TCX, FIT and Apple Health parsing, totals, sanity checks and the
+ * XML scanner's limits on hostile files
+ * No database or network needed: files are generated in memory
+ *
+ * npm run test:workout-import
+ */
+
+import { detectWorkoutFormat, importWorkouts, toVerificationMetadata, type NormalizedWorkout } from '../../lib/workout-import';
+import { MAX_XML_TAGS, childText, findElements } from '../../lib/workout-import/xml';
+import { check, finish } from './check';
+
+const START = Date.parse('2025-03-01T07:00:00Z');
+const NOW = Date.parse('2025-03-02T00:00:00Z');
+const METERS_PER_DEGREE_LAT = 111195;
+
+/**
+ * A straight-line workout heading north: `seconds` long, one point every `step` seconds
+ */
+function track(params: { meters: number; seconds: number; step?: number; heartRate?: (i: number) => number }) {
+  const step = params.step ?? 10;
+  const points = [];
+  for (let i = 0; i * step <= params.seconds; i++) {
+    const meters = (params.meters * i * step) / params.seconds;
+    points.push({
+      time: new Date(START + i * step * 1000).toISOString(),
+      lat: 51.5 + meters / METERS_PER_DEGREE_LAT,
+      lon: -0.1,
+      distance: meters,
+      heartRate: params.heartRate ? params.heartRate(i) : 140 + (i % 12),
+    });
+  }
+  return points;
+}
+
+function gpx(points: ReturnType<typeof track>, type = 'running'): Buffer {
+  return Buffer.from(`<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">
+  <trk><name>Morning Run</name><type>${type}</type><trkseg>
+${points.map(p => `    <trkpt lat="${p.lat}" lon="${p.lon}"><ele>12</ele><time>${p.time}</time><extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>${p.heartRate}</gpxtpx:hr></gpxtpx:TrackPointExtension></extensions></trkpt>`).join('\n')}
+  </trkseg></trk>
+</gpx>`);
+}
+
+function only(workouts: NormalizedWorkout[]): NormalizedWorkout {
+  if (workouts.length !== 1) throw new Error(`Expected one workout, got ${workouts.length}`);
+  return workouts[0];
+}
+
+const errors = (workout: NormalizedWorkout) => workout.issues.filter(i => i.severity === 'error').map(i => i.code);
+
+console.log('🧪 GPX');
+
+const run = only(importWorkouts(gpx(track({ meters: 5000, seconds: 1800 })), NOW));
+check('format detected', detectWorkoutFormat(gpx(track({ meters: 10, seconds: 10 }))), 'gpx');
+check('sport from <type>', run.sport, 'running');
+check('timeline kept', run.samples.length, 181);
+check('distance from GPS within 1%', Math.abs(run.totals.distanceMeters - 5000) < 50, true);
+check('duration from timestamps', run.totals.durationSeconds, 1800);
+check('heart rate from TrackPointExtension', [run.totals.avgHeartRate, run.totals.maxHeartRate], [145, 151]);
+check('plausible', [run.plausible, run.issues], [true, []]);
+check('verification metadata', toVerificationMetadata(run), { duration: 1800, distance: Math.round(run.totals.distanceMeters), heartRate: 145 });
+
+console.log('\n🧪 TCX');
+
+const tcx = Buffer.from(`<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+  <Activities>
+    <Activity Sport="Biking">
+      <Id>2025-03-01T07:00:00Z</Id>
+      <Lap StartTime="2025-03-01T07:00:00Z">
+        <TotalTimeSeconds>3600</TotalTimeSeconds>
+        <DistanceMeters>30000</DistanceMeters>
+        <Calories>800</Calories>
+        <MaximumHeartRateBpm><Value>171</Value></MaximumHeartRateBpm>
+        <Track>
+${track({ meters: 30000, seconds: 3600, step: 60 }).map(p => `          <Trackpoint><Time>${p.time}</Time><Position><LatitudeDegrees>${p.lat}</LatitudeDegrees><LongitudeDegrees>${p.lon}</LongitudeDegrees></Position><DistanceMeters>${p.distance}</DistanceMeters><HeartRateBpm><Value>${p.heartRate}</Value></HeartRateBpm></Trackpoint>`).join('\n')}
+        </Track>
+      </Lap>
+    </Activity>
+  </Activities>
+</TrainingCenterDatabase>`);
+
+const ride = only(importWorkouts(tcx, NOW));
+check('format detected', detectWorkoutFormat(tcx), 'tcx');
+check('sport from Activity', ride.sport, 'cycling');
+check('lap totals reported', [ride.totals.durationSeconds, ride.totals.distanceMeters, ride.totals.calories, ride.totals.maxHeartRate], [3600, 30000, 800, 171]);
+check('30 km/h ride is plausible', ride.plausible, true);
+
+console.log('\n🧪 FIT');
+
+/**
+ * Minimal FIT encoder: one record definition, one session definition, little-endian
+ */
+function fit(points: ReturnType<typeof track>, session: { sport: number; seconds: number; meters: number; calories: number }): Buffer {
+  const fitTime = (iso: string) => Math.round(Date.parse(iso) / 1000) - 631065600;
+  const chunks: Buffer[] = [];
+
+  const define = (local: number, global: number, fields: [number, number, number][]) => {
+    const def = Buffer.alloc(6 + fields.length * 3);
+    def.writeUInt8(0x40 | local, 0);
+    def.writeUInt8(0, 1);
+    def.writeUInt8(0, 2); // little-endian
+    def.writeUInt16LE(global, 3);
+    def.writeUInt8(fields.length, 5);
+    fields.forEach(([num, size, type], i) => {
+      def.writeUInt8(num, 6 + i * 3);
+      def.writeUInt8(size, 7 + i * 3);
+      def.writeUInt8(type, 8 + i * 3);
+    });
+    chunks.push(def);
+  };
+
+  define(0, 20, [[253, 4, 0x86], [0, 4, 0x85], [1, 4, 0x85], [3, 1, 0x02], [5, 4, 0x86]]);
+  for (const p of points) {
+    const msg = Buffer.alloc(18);
+    msg.writeUInt8(0, 0);
+    msg.writeUInt32LE(fitTime(p.time), 1);
+    msg.writeInt32LE(Math.round((p.lat * 2 ** 31) / 180), 5);
+    msg.writeInt32LE(Math.round((p.lon * 2 ** 31) / 180), 9);
+    msg.writeUInt8(p.heartRate, 13);
+    msg.writeUInt32LE(Math.round(p.distance * 100), 14);
+    chunks.push(msg);
+  }
+
+  define(1, 18, [[2, 4, 0x86], [5, 1, 0x00], [7, 4, 0x86], [9, 4, 0x86], [11, 2, 0x84]]);
+  const msg = Buffer.alloc(16);
+  msg.writeUInt8(1, 0);
+  msg.writeUInt32LE(fitTime(points[0].time), 1);
+  msg.writeUInt8(session.sport, 5);
+  msg.writeUInt32LE(session.seconds * 1000, 6);
+  msg.writeUInt32LE(session.meters * 100, 10);
+  msg.writeUInt16LE(session.calories, 14);
+  chunks.push(msg);
+
+  const data = Buffer.concat(chunks);
+  const header = Buffer.alloc(14);
+  header.writeUInt8(14, 0);
+  header.writeUInt8(0x20, 1);
+  header.writeUInt16LE(2100, 2);
+  header.writeUInt32LE(data.length, 4);
+  header.write('.FIT', 8, 'ascii');
+  return Buffer.concat([header, data, Buffer.alloc(2)]);
+}
+
+const fitFile = fit(track({ meters: 5000, seconds: 1800, step: 5 }), { sport: 1, seconds: 1800, meters: 5000, calories: 420 });
+const fitRun = only(importWorkouts(fitFile, NOW));
+check('format detected', detectWorkoutFormat(fitFile), 'fit');
+check('session sport', fitRun.sport, 'running');
+check('session start', fitRun.startTime, new Date(START).toISOString());
+check('session totals', [fitRun.totals.durationSeconds, fitRun.totals.distanceMeters, fitRun.totals.calories], [1800, 5000, 420]);
+check('records decoded (distance in cm)', [fitRun.samples.length, fitRun.samples[10].distance, fitRun.samples[10].heartRate], [361, 138.89, 150]);
+check('semicircles converted', Math.abs((fitRun.samples[0].lat as number) - 51.5) < 1e-6, true);
+check('plausible', fitRun.plausible, true);
+
+console.log('\n🧪 Apple Health');
+
+const health = Buffer.from(`<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE HealthData [ <!ELEMENT HealthData (ExportDate,Me,(Record|Workout)*)> ]>
+<HealthData locale="en_GB">
+ <ExportDate value="2025-03-02 08:00:00 +0000"/>
+ <Record type="HKQuantityTypeIdentifierStepCount" unit="count" value="120" startDate="2025-03-01 07:05:00 +0000" endDate="2025-03-01 07:06:00 +0000"/>
+ <Record type="HKQuantityTypeIdentifierHeartRate" unit="count/min" value="138" startDate="2025-03-01 07:05:00 +0000" endDate="2025-03-01 07:05:00 +0000"/>
+ <Record type="HKQuantityTypeIdentifierDistanceWalkingRunning" unit="km" value="1.2" startDate="2025-03-01 07:00:00 +0000" endDate="2025-03-01 07:06:00 +0000"/>
+ <Record type="HKQuantityTypeIdentifierHeartRate" unit="count/min" value="152" startDate="2025-03-01 07:10:00 +0000" endDate="2025-03-01 07:10:00 +0000"/>
+ <Record type="HKQuantityTypeIdentifierDistanceWalkingRunning" unit="km" value="1.3" startDate="2025-03-01 07:06:00 +0000" endDate="2025-03-01 07:12:00 +0000"/>
+ <Record type="HKQuantityTypeIdentifierHeartRate" unit="count/min" value="61" startDate="2025-03-01 12:00:00 +0000" endDate="2025-03-01 12:00:00 +0000"/>
+ <Workout workoutActivityType="HKWorkoutActivityTypeRunning" duration="12" durationUnit="min" totalDistance="2.5" totalDistanceUnit="km" totalEnergyBurned="180" totalEnergyBurnedUnit="kcal" sourceName="Watch" startDate="2025-03-01 07:00:00 +0000" endDate="2025-03-01 07:12:00 +0000">
+  <MetadataEntry key="HKIndoorWorkout" value="0"/>
+  <WorkoutEvent type="HKWorkoutEventTypeSegment" date="2025-03-01 07:00:00 +0000"/>
+ </Workout>
+ <Workout workoutActivityType="HKWorkoutActivityTypeCycling" duration="40" durationUnit="min" sourceName="Watch" startDate="2025-03-01 17:00:00 +0100" endDate="2025-03-01 17:40:00 +0100">
+  <WorkoutStatistics type="HKQuantityTypeIdentifierDistanceCycling" startDate="2025-03-01 17:00:00 +0100" endDate="2025-03-01 17:40:00 +0100" sum="12" unit="mi"/>
+  <WorkoutStatistics type="HKQuantityTypeIdentifierHeartRate" startDate="2025-03-01 17:00:00 +0100" endDate="2025-03-01 17:40:00 +0100" average="131" minimum="98" maximum="162" unit="count/min"/>
+ </Workout>
+</HealthData>`);
+
+const [healthRun, healthRide] = importWorkouts(health, NOW);
+check('format detected', detectWorkoutFormat(health), 'apple-health');
+check('one workout per <Workout>', [healthRun.sport, healthRide.sport], ['running', 'cycling']);
+check('workout attributes converted', [healthRun.totals.durationSeconds, healthRun.totals.distanceMeters, healthRun.totals.calories], [720, 2500, 180]);
+check('only records inside the workout, by end time', healthRun.samples.map(s => s.heartRate ?? s.distance), [138, 1200, 152, 2500]);
+check('offset dates converted to UTC', healthRide.startTime, '2025-03-01T16:00:00.000Z');
+check('WorkoutStatistics totals', [Math.round(healthRide.totals.distanceMeters), healthRide.totals.avgHeartRate, healthRide.totals.maxHeartRate], [19312, 131, 162]);
+
+console.log('\n🧪 Sanity checks');
+
+const car = only(importWorkouts(gpx(track({ meters: 40000, seconds: 1800 })), NOW));
+check('40 km in 30 min is not a run', errors(car), ['impossible_pace', 'sustained_impossible_speed']);
+check('same speed is a fine ride', only(importWorkouts(gpx(track({ meters: 40000, seconds: 1800 }), 'cycling'), NOW)).plausible, true);
+
+const teleport = track({ meters: 5000, seconds: 1800 });
+teleport[90] = { ...teleport[90], lat: teleport[90].lat + 0.5 };
+check('GPS teleport (which also inflates the pace)', errors(only(importWorkouts(gpx(teleport), NOW))), ['impossible_pace', 'gps_teleport']);
+
+check('flatlined heart rate', errors(only(importWorkouts(gpx(track({ meters: 5000, seconds: 1800, heartRate: () => 150 })), NOW))), ['heart_rate_flatline']);
+check('impossible heart rate', errors(only(importWorkouts(gpx(track({ meters: 5000, seconds: 1800, heartRate: i => (i === 50 ? 260 : 140 + (i % 12)) })), NOW))), ['heart_rate_out_of_range']);
+
+const resting = only(importWorkouts(gpx(track({ meters: 7000, seconds: 1800, heartRate: i => 60 + (i % 5) })), NOW));
+check('fast run at resting pulse is flagged, not rejected', [resting.plausible, resting.issues.map(i => i.code)], [true, ['heart_rate_effort_mismatch']]);
+
+check('future workout', errors(only(importWorkouts(gpx(track({ meters: 5000, seconds: 1800 })), START - 24 * 60 * 60 * 1000))), ['future_start']);
+
+let unsupported = '';
+try {
+  importWorkouts(Buffer.from('{"steps": 100}'));
+} catch (error) {
+  unsupported = (error as Error).message;
+}
+check('unsupported files are rejected', unsupported.startsWith('Unsupported workout file'), true);
+
+console.log('\n🧪 XML limits');
+
+const failure = (run: () => unknown) => {
+  try {
+    run();
+    return '';
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+// Unclosed elements used to send the element pattern to the end of the file once per tag
+const timed = (run: () => unknown) => {
+  const started = Date.now();
+  run();
+  return Date.now() - started;
+};
+const unclosed = `<gpx>${'<trk><trkpt lat="1" lon="2"><time>'.repeat(50000)}</gpx>`;
+check('unclosed elements scan in linear time', timed(() => findElements(unclosed, 'trkpt')) < 1000, true);
+check('unclosed CDATA scans in linear time', timed(() => childText(`<time>${'<![CDATA['.repeat(200000)}</time>`, 'time')) < 1000, true);
+check('an unterminated tag is not an element', findElements(`<trkpt lat="1"${' lon="2"'.repeat(100000)}`, 'trkpt'), []);
+
+check('nested names end at the first close', findElements('<a x="1"><a/>inner</a>tail</a>', 'a'), [{ attrs: { x: '1' }, body: '<a/>inner' }]);
+check('prefixes, CDATA and entities', childText('<gpxtpx:note><![CDATA[5 &lt; 6]]> &amp; more</gpxtpx:note>', 'note'), '5 < 6 & more');
+check('missing child', childText('<trkpt><ele>12</ele></trkpt>', 'time'), undefined);
+
+check('tag count is capped', failure(() => findElements(`<gpx>${'<x/>'.repeat(MAX_XML_TAGS)}</gpx>`, 'trkpt')),
+  `Workout file has more than ${MAX_XML_TAGS} XML tags`);
+check('an oversized file is rejected as a parse error', failure(() => importWorkouts(Buffer.from(`<gpx>${'<x/>'.repeat(MAX_XML_TAGS)}</gpx>`), NOW)),
+  `Workout file has more than ${MAX_XML_TAGS} XML tags`);
+
+finish('workout import');
@@ -0,0 +1,81 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Database migration CLI
+ *
+ * Applies, rolls back and reports the numbered migrations in lib/migrations
+ */
+
+import { config } from 'dotenv';
+
+// Load environment variables before lib/db creates its pool
+config({ path: '.env.local' });
+
+function parseNumberArg(value: string | undefined, label: string): number | undefined {
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    console.error(`Invalid ${label}: ${value}`);
+    process.exit(1);
+  }
+
+  return parsed;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0] || 'up';
+
+  const { migrateUp, migrateDown, getMigrationStatus } = await import('../../lib/migrations/runner');
+  const { default: pool } = await import('../../lib/db');
+
+  try {
+    switch (command) {
+      case 'up': {
+        const target = parseNumberArg(args[1], 'target version');
+        const applied = await migrateUp({ target });
+        console.log(applied.length > 0
+          ? `✅ Applied ${applied.length} migration(s)`
+          : '✅ Database is up to date');
+        break;
+      }
+      case 'down': {
+        const steps = parseNumberArg(args[1], 'step count') ?? 1;
+        const reverted = await migrateDown({ steps });
+        console.log(`✅ Rolled back ${reverted.length} migration(s)`);
+        break;
+      }
+      case 'status': {
+        const status = await getMigrationStatus();
+        console.log('📋 Migration status\n');
+        status.applied.forEach(m => console.log(`   ✅ ${m.version}_${m.name} (applied ${m.appliedAt})`));
+        status.pending.forEach(m => console.log(`   ⏳ ${m.version}_${m.name} (pending)`));
+        status.unknown.forEach(m => console.log(`   ⚠️ ${m.version}_${m.name} (applied, but not in this build)`));
+        break;
+      }
+      case 'help':
+        console.log('Database Migration Script\n');
+        console.log('Usage: npm run db:migrate [command]\n');
+        console.log('Commands:');
+        console.log('  up [target] (default) - Apply pending migrations, optionally up to a version');
+        console.log('  down [steps]          - Roll back the last migration(s) (default: 1)');
+        console.log('  status                - List applied and pending migrations');
+        console.log('  help                  - Show this help message');
+        break;
+      default:
+        console.error(`Unknown command: ${command}`);
+        console.log('Run "npm run db:migrate help" for usage information');
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,58 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Prediction market indexer
+ *
+ * Follows UnifiedPredictionMarket events on every chain into Postgres
+ * npm run indexer:predictions          # keep following new blocks
+ * npm run indexer:predictions -- --once # catch up once and exit
+ */
+
+import { config } from 'dotenv';
+
+// Load environment variables before lib/db creates its pool
+config({ path: '.env.local' });
+
+async function main() {
+  const once = process.argv.includes('--once');
+  const interval = Number(process.env.PREDICTION_INDEXER_INTERVAL_SECONDS);
+  const intervalMs = (Number.isFinite(interval) && interval > 0 ? interval : 30) * 1000;
+
+  const { syncPredictionIndex } = await import('../../lib/prediction-index');
+  const { default: pool } = await import('../../lib/db');
+
+  let stopping = false;
+  const stop = () => {
+    console.log('\n⏹️ Stopping prediction indexer...');
+    stopping = true;
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  console.log(`🚀 Prediction indexer started${once ? ' (single pass)' : `, polling every ${intervalMs / 1000}s`}`);
+
+  while (!stopping) {
+    const results = await syncPredictionIndex();
+
+    for (const result of results) {
+      if ('error' in result) {
+        console.error(`❌ ${result.chain}: ${result.error}`);
+      } else if (result.toBlock >= result.fromBlock || result.rolledBackTo !== null) {
+        const rollback = result.rolledBackTo !== null ? ` after rolling back to ${result.rolledBackTo}` : '';
+        console.log(`✅ ${result.chain}: blocks ${result.fromBlock}-${result.toBlock}, ${result.events} event(s)${rollback}`);
+      }
+    }
+
+    if (once) {
+      break;
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+
+  await pool.end();
+}
+
+main().catch((error) => {
+  console.error('❌ Prediction indexer crashed:', error);
+  process.exit(1);
+});